@@ -15,15 +15,155 @@ export const ORDER_STATUSES: { value: OrderStatus; label: string; color: string
     { value: 'cancelled', label: 'Cancelled', color: '#6b7280' },
 ];
 
+// Statuses an order may move to from each status. Delivered is only reached
+// from shipped, and shipped only goes back to confirmed when its shipment is
+// cancelled; returned and cancelled are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['confirmed', 'shipped', 'cancelled'],
+    confirmed: ['shipped', 'cancelled'],
+    shipped: ['confirmed', 'delivered', 'returned'],
+    delivered: ['returned'],
+    returned: [],
+    cancelled: [],
+};
+
+export function canChangeOrderStatus(from: string | null | undefined, to: OrderStatus): boolean {
+    const current = (from || 'pending') as OrderStatus;
+    return ORDER_STATUS_TRANSITIONS[current]?.includes(to) ?? false;
+}
+
+// RTO rate: the share of closed orders (delivered, returned or cancelled)
+// that didn't end in a delivery — cancelled COD orders cost the seller as
+// much as returns. The fraud rule's RTO history check, customer profiles and
+// get_customer_summaries (migration v51) all use this definition.
+export const RTO_CLOSED_STATUSES: OrderStatus[] = ['delivered', 'returned', 'cancelled'];
+
+/** Percentage (unrounded), or null until one of the orders has closed */
+export function getRtoRate(counts: { delivered: number; returned: number; cancelled: number }): number | null {
+    const closed = counts.delivered + counts.returned + counts.cancelled;
+    return closed > 0 ? ((counts.returned + counts.cancelled) * 100) / closed : null;
+}
+
+// Delivery status of the order's shipment (order_logs.shipment_status), from
+// courier tracking or Shopify fulfillment events. 'undelivered' is a failed
+// delivery attempt; 'rto' means the parcel is going back to the seller.
+export type DeliveryStatus = 'booked' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'undelivered' | 'rto' | 'cancelled';
+
+export const DELIVERY_STATUSES: { value: DeliveryStatus; label: string; color: string }[] = [
+    { value: 'booked', label: 'Booked', color: '#6b7280' },
+    { value: 'in_transit', label: 'In transit', color: '#3b82f6' },
+    { value: 'out_for_delivery', label: 'Out for delivery', color: '#8b5cf6' },
+    { value: 'delivered', label: 'Delivered', color: '#10b981' },
+    { value: 'undelivered', label: 'Delivery failed', color: '#f59e0b' },
+    { value: 'rto', label: 'Returning to origin', color: '#ef4444' },
+    { value: 'cancelled', label: 'Shipment cancelled', color: '#6b7280' },
+];
+
+// Delivered, RTO and cancelled are final; a failed attempt can still be reattempted
+export const DELIVERY_STATUS_TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+    booked: ['in_transit', 'out_for_delivery', 'undelivered', 'delivered', 'rto', 'cancelled'],
+    in_transit: ['out_for_delivery', 'undelivered', 'delivered', 'rto'],
+    out_for_delivery: ['in_transit', 'undelivered', 'delivered', 'rto'],
+    undelivered: ['in_transit', 'out_for_delivery', 'delivered', 'rto'],
+    delivered: [],
+    rto: [],
+    cancelled: [],
+};
+
+export function canChangeDeliveryStatus(from: string | null | undefined, to: DeliveryStatus): boolean {
+    // Tracking can start at any stage (e.g. the first Shopify event is already in transit)
+    if (!from) return to !== 'cancelled';
+    return DELIVERY_STATUS_TRANSITIONS[from as DeliveryStatus]?.includes(to) ?? false;
+}
+
+// NDR (non-delivery report) state of an order (order_logs.ndr_status). A
+// failed delivery opens it; the merchant or the customer asks the courier to
+// reattempt or return it, and the delivery outcome closes it as delivered or
+// returned.
+export type NdrStatus = 'open' | 'reattempt_requested' | 'rto_requested' | 'delivered' | 'returned';
+
+export const NDR_STATUSES: { value: NdrStatus; label: string; color: string }[] = [
+    { value: 'open', label: 'Needs action', color: '#ef4444' },
+    { value: 'reattempt_requested', label: 'Reattempt requested', color: '#3b82f6' },
+    { value: 'rto_requested', label: 'Return requested', color: '#f59e0b' },
+    { value: 'delivered', label: 'Delivered after NDR', color: '#10b981' },
+    { value: 'returned', label: 'Returned (RTO)', color: '#6b7280' },
+];
+
+// Why the courier couldn't deliver, read from its status wording
+export type NdrReason = 'customer_unavailable' | 'refused' | 'wrong_address' | 'unreachable' | 'cod_not_ready' | 'rescheduled' | 'other';
+
+export const NDR_REASONS: Record<NdrReason, string> = {
+    customer_unavailable: 'Customer unavailable',
+    refused: 'Refused by customer',
+    wrong_address: 'Wrong or incomplete address',
+    unreachable: 'Phone unreachable',
+    cod_not_ready: 'Cash not ready',
+    rescheduled: 'Customer asked to reschedule',
+    other: 'Other',
+};
+
+// Whether the courier has paid out the cash collected for a delivered COD
+// order (order_logs.cod_remittance_status), from uploaded settlement files.
+// No value means not remitted yet.
+export type CodRemittanceStatus = 'remitted' | 'short_paid' | 'over_paid';
+
+export const COD_REMITTANCE_STATUSES: { value: CodRemittanceStatus; label: string; color: string }[] = [
+    { value: 'remitted', label: 'Remitted', color: '#10b981' },
+    { value: 'short_paid', label: 'Short paid', color: '#ef4444' },
+    { value: 'over_paid', label: 'Over paid', color: '#f59e0b' },
+];
+
 // Shopify sync status types
-export type SyncStatus = 'pending_sync' | 'syncing' | 'synced' | 'failed_sync';
+// 'held' orders wait in the review queue and are never picked up by retries
+export type SyncStatus = 'pending_sync' | 'syncing' | 'synced' | 'failed_sync' | 'held';
 
-export const SYNC_STATUSES: { value: SyncStatus; label: string; tone: 'warning' | 'info' | 'success' | 'critical' }[] = [
+export const SYNC_STATUSES: { value: SyncStatus; label: string; tone: 'warning' | 'info' | 'success' | 'critical' | 'attention' }[] = [
     { value: 'pending_sync', label: 'Syncing…', tone: 'warning' },
     { value: 'syncing', label: 'Syncing…', tone: 'info' },
     { value: 'synced', label: 'Synced', tone: 'success' },
     { value: 'failed_sync', label: 'Sync Failed', tone: 'critical' },
+    { value: 'held', label: 'Held for review', tone: 'attention' },
 ];
 
+// Order timeline event types (order_events.event_type)
+export type OrderEventType =
+    | 'created'
+    | 'fraud_check'
+    | 'sync_started'
+    | 'synced'
+    | 'sync_failed'
+    | 'webhook'
+    | 'status_changed'
+    | 'review'
+    | 'edited'
+    | 'message_sent'
+    | 'message_received'
+    | 'shipment'
+    | 'delivery'
+    | 'ndr'
+    | 'remittance';
+
+export const ORDER_EVENT_TYPES: Record<OrderEventType, { label: string; icon: string; color: string }> = {
+    created: { label: 'Order placed', icon: '🛒', color: '#3b82f6' },
+    fraud_check: { label: 'Fraud check', icon: '🛡️', color: '#f59e0b' },
+    sync_started: { label: 'Sync started', icon: '🔄', color: '#6b7280' },
+    synced: { label: 'Created in Shopify', icon: '✅', color: '#10b981' },
+    sync_failed: { label: 'Sync failed', icon: '⚠️', color: '#ef4444' },
+    webhook: { label: 'Shopify update', icon: '📨', color: '#8b5cf6' },
+    status_changed: { label: 'Status changed', icon: '🏷️', color: '#3b82f6' },
+    review: { label: 'Review', icon: '🔎', color: '#f59e0b' },
+    edited: { label: 'Order edited', icon: '✏️', color: '#6366f1' },
+    message_sent: { label: 'Message sent', icon: '💬', color: '#0ea5e9' },
+    message_received: { label: 'Customer replied', icon: '📩', color: '#0ea5e9' },
+    shipment: { label: 'Shipment', icon: '🚚', color: '#0d9488' },
+    delivery: { label: 'Delivery update', icon: '📍', color: '#0d9488' },
+    ndr: { label: 'Failed delivery', icon: '📦', color: '#ef4444' },
+    remittance: { label: 'COD remittance', icon: '💰', color: '#10b981' },
+};
+
+// Manual review outcome for held orders
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
 // Retry backoff delays in seconds per attempt number
 export const RETRY_DELAYS_SEC = [30, 120, 300, 900, 3600];
@@ -0,0 +1,124 @@
+/**
+ * Country options for country restriction pickers (ISO 3166-1 alpha-2 codes).
+ * Shared by payment method restrictions and fraud protection IP country rules.
+ */
+export const COUNTRY_OPTIONS = [
+    { label: 'Select a country...', value: '' },
+    { label: 'Afghanistan (AF)', value: 'AF' },
+    { label: 'Albania (AL)', value: 'AL' },
+    { label: 'Algeria (DZ)', value: 'DZ' },
+    { label: 'Andorra (AD)', value: 'AD' },
+    { label: 'Angola (AO)', value: 'AO' },
+    { label: 'Argentina (AR)', value: 'AR' },
+    { label: 'Armenia (AM)', value: 'AM' },
+    { label: 'Australia (AU)', value: 'AU' },
+    { label: 'Austria (AT)', value: 'AT' },
+    { label: 'Azerbaijan (AZ)', value: 'AZ' },
+    { label: 'Bahamas (BS)', value: 'BS' },
+    { label: 'Bahrain (BH)', value: 'BH' },
+    { label: 'Bangladesh (BD)', value: 'BD' },
+    { label: 'Barbados (BB)', value: 'BB' },
+    { label: 'Belarus (BY)', value: 'BY' },
+    { label: 'Belgium (BE)', value: 'BE' },
+    { label: 'Belize (BZ)', value: 'BZ' },
+    { label: 'Benin (BJ)', value: 'BJ' },
+    { label: 'Bhutan (BT)', value: 'BT' },
+    { label: 'Bolivia (BO)', value: 'BO' },
+    { label: 'Bosnia and Herzegovina (BA)', value: 'BA' },
+    { label: 'Botswana (BW)', value: 'BW' },
+    { label: 'Brazil (BR)', value: 'BR' },
+    { label: 'Brunei (BN)', value: 'BN' },
+    { label: 'Bulgaria (BG)', value: 'BG' },
+    { label: 'Cambodia (KH)', value: 'KH' },
+    { label: 'Cameroon (CM)', value: 'CM' },
+    { label: 'Canada (CA)', value: 'CA' },
+    { label: 'Chile (CL)', value: 'CL' },
+    { label: 'China (CN)', value: 'CN' },
+    { label: 'Colombia (CO)', value: 'CO' },
+    { label: 'Costa Rica (CR)', value: 'CR' },
+    { label: 'Croatia (HR)', value: 'HR' },
+    { label: 'Cyprus (CY)', value: 'CY' },
+    { label: 'Czechia (CZ)', value: 'CZ' },
+    { label: 'Denmark (DK)', value: 'DK' },
+    { label: 'Dominican Republic (DO)', value: 'DO' },
+    { label: 'Ecuador (EC)', value: 'EC' },
+    { label: 'Egypt (EG)', value: 'EG' },
+    { label: 'El Salvador (SV)', value: 'SV' },
+    { label: 'Estonia (EE)', value: 'EE' },
+    { label: 'Ethiopia (ET)', value: 'ET' },
+    { label: 'Fiji (FJ)', value: 'FJ' },
+    { label: 'Finland (FI)', value: 'FI' },
+    { label: 'France (FR)', value: 'FR' },
+    { label: 'Georgia (GE)', value: 'GE' },
+    { label: 'Germany (DE)', value: 'DE' },
+    { label: 'Ghana (GH)', value: 'GH' },
+    { label: 'Greece (GR)', value: 'GR' },
+    { label: 'Guatemala (GT)', value: 'GT' },
+    { label: 'Honduras (HN)', value: 'HN' },
+    { label: 'Hong Kong (HK)', value: 'HK' },
+    { label: 'Hungary (HU)', value: 'HU' },
+    { label: 'Iceland (IS)', value: 'IS' },
+    { label: 'India (IN)', value: 'IN' },
+    { label: 'Indonesia (ID)', value: 'ID' },
+    { label: 'Iraq (IQ)', value: 'IQ' },
+    { label: 'Ireland (IE)', value: 'IE' },
+    { label: 'Israel (IL)', value: 'IL' },
+    { label: 'Italy (IT)', value: 'IT' },
+    { label: 'Jamaica (JM)', value: 'JM' },
+    { label: 'Japan (JP)', value: 'JP' },
+    { label: 'Jordan (JO)', value: 'JO' },
+    { label: 'Kazakhstan (KZ)', value: 'KZ' },
+    { label: 'Kenya (KE)', value: 'KE' },
+    { label: 'Kuwait (KW)', value: 'KW' },
+    { label: 'Latvia (LV)', value: 'LV' },
+    { label: 'Lebanon (LB)', value: 'LB' },
+    { label: 'Liechtenstein (LI)', value: 'LI' },
+    { label: 'Lithuania (LT)', value: 'LT' },
+    { label: 'Luxembourg (LU)', value: 'LU' },
+    { label: 'Malaysia (MY)', value: 'MY' },
+    { label: 'Maldives (MV)', value: 'MV' },
+    { label: 'Malta (MT)', value: 'MT' },
+    { label: 'Mauritius (MU)', value: 'MU' },
+    { label: 'Mexico (MX)', value: 'MX' },
+    { label: 'Monaco (MC)', value: 'MC' },
+    { label: 'Morocco (MA)', value: 'MA' },
+    { label: 'Nepal (NP)', value: 'NP' },
+    { label: 'Netherlands (NL)', value: 'NL' },
+    { label: 'New Zealand (NZ)', value: 'NZ' },
+    { label: 'Nigeria (NG)', value: 'NG' },
+    { label: 'Norway (NO)', value: 'NO' },
+    { label: 'Oman (OM)', value: 'OM' },
+    { label: 'Pakistan (PK)', value: 'PK' },
+    { label: 'Panama (PA)', value: 'PA' },
+    { label: 'Paraguay (PY)', value: 'PY' },
+    { label: 'Peru (PE)', value: 'PE' },
+    { label: 'Philippines (PH)', value: 'PH' },
+    { label: 'Poland (PL)', value: 'PL' },
+    { label: 'Portugal (PT)', value: 'PT' },
+    { label: 'Qatar (QA)', value: 'QA' },
+    { label: 'Romania (RO)', value: 'RO' },
+    { label: 'Russia (RU)', value: 'RU' },
+    { label: 'Saudi Arabia (SA)', value: 'SA' },
+    { label: 'Senegal (SN)', value: 'SN' },
+    { label: 'Serbia (RS)', value: 'RS' },
+    { label: 'Singapore (SG)', value: 'SG' },
+    { label: 'Slovakia (SK)', value: 'SK' },
+    { label: 'Slovenia (SI)', value: 'SI' },
+    { label: 'South Africa (ZA)', value: 'ZA' },
+    { label: 'South Korea (KR)', value: 'KR' },
+    { label: 'Spain (ES)', value: 'ES' },
+    { label: 'Sri Lanka (LK)', value: 'LK' },
+    { label: 'Sweden (SE)', value: 'SE' },
+    { label: 'Switzerland (CH)', value: 'CH' },
+    { label: 'Taiwan (TW)', value: 'TW' },
+    { label: 'Thailand (TH)', value: 'TH' },
+    { label: 'Turkey (TR)', value: 'TR' },
+    { label: 'Ukraine (UA)', value: 'UA' },
+    { label: 'United Arab Emirates (AE)', value: 'AE' },
+    { label: 'United Kingdom (GB)', value: 'GB' },
+    { label: 'United States (US)', value: 'US' },
+    { label: 'Uruguay (UY)', value: 'UY' },
+    { label: 'Uzbekistan (UZ)', value: 'UZ' },
+    { label: 'Venezuela (VE)', value: 'VE' },
+    { label: 'Vietnam (VN)', value: 'VN' }
+];
@@ -12,6 +12,15 @@ export interface FraudProtectionSettings {
     max_orders?: number;
     limit_hours?: number;
 
+    // Velocity limits keyed by client IP and storefront device fingerprint,
+    // counted in fraud_velocity_counters (hourly buckets)
+    ip_limit_enabled: boolean;
+    ip_max_orders?: number;
+    ip_limit_hours?: number;
+    device_limit_enabled: boolean;
+    device_max_orders?: number;
+    device_limit_hours?: number;
+
     // Quantity limit rules
     limit_quantity_enabled: boolean;
     max_quantity?: number;
@@ -21,23 +30,212 @@ export interface FraudProtectionSettings {
     blocked_emails: string[];
     blocked_ip_addresses: string[];
     allowed_ip_addresses: string[];
+    // Customers that skip all checks (e.g. allowed from the fraud event log)
+    allowed_phone_numbers: string[];
+    allowed_emails: string[];
+
+    // Email quality checks
+    block_disposable_emails: boolean;
+    block_role_emails: boolean;
+    // Likely typos of common providers (gmial.com) and domains with no mail server
+    email_domain_check_enabled: boolean;
+
+    // IP country restrictions (country resolved from the request IP via offline GeoIP)
+    ip_country_mode: 'none' | 'allow_only' | 'block_only';
+    ip_countries: string[];
 
     // Postal code restrictions
     postal_code_mode: 'none' | 'allow_only' | 'block_only';
     postal_codes: string[];
 
+    // RTO history rule — auto-block phones/emails that keep refusing COD deliveries
+    rto_rule_enabled: boolean;
+    rto_min_returns?: number;
+    rto_max_rate?: number;
+    rto_window_days?: number;
+    rto_action: 'block' | 'force_prepaid';
+
     // Block message
     blocked_message: string;
 
+    // Risk scoring — when enabled, rules add weighted signals to a score
+    // instead of blocking on the first match
+    risk_scoring_enabled: boolean;
+    risk_weights: FraudRiskWeights;
+    risk_thresholds: FraudRiskThresholds;
+
+    // Monitor mode — these rules are evaluated and logged to fraud_events
+    // but never stop an order
+    monitor_rules: FraudRuleKey[];
+
+    // Phone OTP before COD orders — codes are sent through the SMS & WhatsApp
+    // integration. 'borderline' asks when the risk score lands in the verify band.
+    otp_mode: FraudOtpMode;
+    otp_min_cart_value?: number;
+
     created_at?: string;
     updated_at?: string;
 }
 
+/**
+ * Points each signal adds to an order's risk score.
+ * return_history is applied per prior returned/cancelled order (capped at 3).
+ */
+export interface FraudRiskWeights {
+    blocked_phone: number;
+    blocked_email: number;
+    blocked_ip: number;
+    email_quality: number;
+    ip_country: number;
+    velocity: number;
+    return_history: number;
+    address_quality: number;
+    postal_code: number;
+}
+
+/**
+ * Minimum score for each outcome. Anything below verify is allowed.
+ */
+export interface FraudRiskThresholds {
+    verify: number;
+    review: number;
+    block: number;
+}
+
+export type FraudSignalKey = keyof FraudRiskWeights;
+
+export type FraudOtpMode = 'off' | 'all' | 'above_cart_value' | 'borderline';
+
+export type FraudDecision = 'allow' | 'verify' | 'review' | 'block';
+
+export interface FraudSignal {
+    key: FraudSignalKey;
+    weight: number;
+    detail: string;
+}
+
+export const FRAUD_SIGNAL_LABELS: Record<FraudSignalKey, string> = {
+    blocked_phone: 'Blocked phone number',
+    blocked_email: 'Blocked email',
+    blocked_ip: 'Blocked IP address',
+    email_quality: 'Disposable or role email',
+    ip_country: 'Restricted IP country',
+    velocity: 'Order velocity',
+    return_history: 'Past returned/cancelled orders',
+    address_quality: 'Low quality address',
+    postal_code: 'Risky postal code',
+};
+
+/**
+ * The rule responsible for a block/flag. Hard rules name themselves;
+ * 'risk_score' means the combined score crossed a threshold.
+ */
+export type FraudRuleKey =
+    | 'blocked_ip'
+    | 'ip_country'
+    | 'blocked_phone'
+    | 'blocked_email'
+    | 'disposable_email'
+    | 'role_email'
+    | 'email_domain'
+    | 'postal_code'
+    | 'quantity_limit'
+    | 'rto_history'
+    | 'order_limit'
+    | 'ip_velocity'
+    | 'device_velocity'
+    | 'risk_score';
+
+export const FRAUD_RULE_LABELS: Record<FraudRuleKey, string> = {
+    blocked_ip: 'Blocked IP',
+    ip_country: 'IP country',
+    blocked_phone: 'Blocked phone',
+    blocked_email: 'Blocked email',
+    disposable_email: 'Disposable email',
+    role_email: 'Role email',
+    email_domain: 'Email domain without mail server',
+    postal_code: 'Postal code',
+    quantity_limit: 'Quantity limit',
+    rto_history: 'RTO history',
+    order_limit: 'Order limit',
+    ip_velocity: 'IP order limit',
+    device_velocity: 'Device order limit',
+    risk_score: 'Risk score',
+};
+
+/**
+ * A blocked or flagged checkout attempt, recorded in fraud_events.
+ * Identifiers are stored normalized so they can be matched against block lists.
+ */
+export interface FraudEvent {
+    id: string;
+    shop_domain: string;
+    rule: FraudRuleKey | null;
+    decision: FraudDecision;
+    message: string | null;
+    phone: string | null;
+    email: string | null;
+    ip: string | null;
+    pincode: string | null;
+    cart_value: number | null;
+    order_source: string | null;
+    payment_method: string | null;
+    score: number | null;
+    signals: FraudSignal[] | null;
+    /** True when the rule was in monitor mode and the order went through */
+    monitored: boolean;
+    created_at: string;
+}
+
+/**
+ * Outcome of replaying recent order_logs rows against draft settings.
+ * rule_counts counts every rule that matched an order, including rules
+ * that a higher-priority rule would have pre-empted.
+ */
+export interface FraudSimulationResult {
+    orders_replayed: number;
+    orders_blocked: number;
+    orders_flagged: number;
+    rule_counts: Partial<Record<FraudRuleKey, number>>;
+}
+
+export const FRAUD_DECISION_LABELS: Record<FraudDecision, string> = {
+    allow: 'Allow',
+    verify: 'Require verification',
+    review: 'Hold for review',
+    block: 'Block',
+};
+
+export const DEFAULT_RISK_WEIGHTS: FraudRiskWeights = {
+    blocked_phone: 100,
+    blocked_email: 100,
+    blocked_ip: 100,
+    email_quality: 40,
+    ip_country: 50,
+    velocity: 40,
+    return_history: 25,
+    address_quality: 15,
+    postal_code: 30,
+};
+
+export const DEFAULT_RISK_THRESHOLDS: FraudRiskThresholds = {
+    verify: 30,
+    review: 50,
+    block: 80,
+};
+
 export const DEFAULT_FRAUD_SETTINGS: Omit<FraudProtectionSettings, 'shop_domain'> = {
     limit_orders_enabled: false,
     max_orders: undefined,
     limit_hours: undefined,
 
+    ip_limit_enabled: false,
+    ip_max_orders: undefined,
+    ip_limit_hours: undefined,
+    device_limit_enabled: false,
+    device_max_orders: undefined,
+    device_limit_hours: undefined,
+
     limit_quantity_enabled: false,
     max_quantity: undefined,
 
@@ -45,9 +243,88 @@ export const DEFAULT_FRAUD_SETTINGS: Omit<FraudProtectionSettings, 'shop_domain'
     blocked_emails: [],
     blocked_ip_addresses: [],
     allowed_ip_addresses: [],
+    allowed_phone_numbers: [],
+    allowed_emails: [],
+
+    block_disposable_emails: false,
+    block_role_emails: false,
+    email_domain_check_enabled: false,
+
+    ip_country_mode: 'none',
+    ip_countries: [],
 
     postal_code_mode: 'none',
     postal_codes: [],
 
+    rto_rule_enabled: false,
+    rto_min_returns: 3,
+    rto_max_rate: 50,
+    rto_window_days: 90,
+    rto_action: 'block',
+
     blocked_message: 'Sorry, you are not allowed to place orders.',
+
+    risk_scoring_enabled: false,
+    risk_weights: DEFAULT_RISK_WEIGHTS,
+    risk_thresholds: DEFAULT_RISK_THRESHOLDS,
+
+    monitor_rules: [],
+
+    otp_mode: 'off',
+    otp_min_cart_value: undefined,
+};
+
+/**
+ * Customer identifiers added to the block list automatically by a rule.
+ * Unblocking keeps the row (status 'unblocked') so the rule won't re-add it.
+ */
+export type FraudAutoBlockSource = 'rto_history';
+
+export interface FraudAutoBlock {
+    id: string;
+    shop_domain: string;
+    identifier_type: 'phone' | 'email';
+    identifier: string;
+    source: FraudAutoBlockSource;
+    reason: string;
+    returned_count: number;
+    total_count: number;
+    status: 'active' | 'unblocked';
+    created_at: string;
+    updated_at?: string;
+}
+
+export const FRAUD_AUTO_BLOCK_SOURCE_LABELS: Record<FraudAutoBlockSource, string> = {
+    rto_history: 'RTO history',
 };
+
+/**
+ * Subset of fraud settings published to the storefront through the
+ * fox_cod.fraud_protection_settings_json metafield (PUBLIC_READ).
+ *
+ * Block/allow lists for phones, emails and IPs are customer data and are
+ * deliberately left out — they are enforced server-side only (proxy and
+ * api.create-order). Hashing them would not help: phone numbers are short
+ * enough to brute-force from a hash.
+ */
+export interface FraudStorefrontSettings {
+    limit_quantity_enabled: boolean;
+    max_quantity?: number;
+    postal_code_mode: FraudProtectionSettings['postal_code_mode'];
+    postal_codes: string[];
+    blocked_message: string;
+}
+
+export function toStorefrontFraudSettings(settings: FraudProtectionSettings): FraudStorefrontSettings {
+    // The storefront can't log, so monitored rules are not published at all
+    const monitorRules = settings.monitor_rules || [];
+    const monitorQuantity = monitorRules.includes('quantity_limit');
+    const monitorPostal = monitorRules.includes('postal_code');
+    return {
+        limit_quantity_enabled: monitorQuantity ? false : settings.limit_quantity_enabled,
+        max_quantity: settings.max_quantity,
+        postal_code_mode: monitorPostal ? 'none' : settings.postal_code_mode,
+        postal_codes: settings.postal_codes || [],
+        blocked_message: settings.blocked_message || DEFAULT_FRAUD_SETTINGS.blocked_message,
+    };
+}
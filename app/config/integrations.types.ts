@@ -13,8 +13,10 @@
 export interface IntegrationConfigField {
     key: string;
     label: string;
-    type: 'text' | 'email' | 'toggle' | 'select';
+    type: 'text' | 'email' | 'number' | 'toggle' | 'select';
     required?: boolean;
+    /** Credentials — never sent back to the browser once saved */
+    secret?: boolean;
     options?: { value: string; label: string }[];
     description?: string;
 }
@@ -59,6 +61,62 @@ export interface GoogleSheetsConfig {
     sheetName: string;
 }
 
+/**
+ * SMS & WhatsApp specific config (see services/sms)
+ */
+export type SmsProviderId = 'twilio' | 'msg91' | 'interakt' | 'console';
+
+export interface SmsWhatsappConfig {
+    provider: SmsProviderId;
+    /** Twilio auth token, MSG91 auth key or Interakt API key */
+    api_key?: string;
+    /** Twilio only */
+    account_sid?: string;
+    /** Twilio sender number (prefix with whatsapp: to send on WhatsApp) */
+    sender?: string;
+    /** MSG91 flow template ID or Interakt template name for OTP messages */
+    otp_template?: string;
+    /** Message COD customers after the order is placed and read their reply */
+    confirmation_enabled?: boolean;
+    /** MSG91 flow template ID or Interakt template name for confirmation messages */
+    confirmation_template?: string;
+    /** 'auto' follows the order's customer locale */
+    confirmation_language?: 'auto' | ConfirmationLanguage;
+    /** Hours to wait for a reply before the timeout action runs */
+    confirmation_timeout_hours?: string;
+    confirmation_timeout_action?: 'flag' | 'cancel';
+    /** Message customers after a failed delivery and act on their reply (see services/ndr) */
+    ndr_outreach_enabled?: boolean;
+    /** MSG91 flow template ID or Interakt template name for failed delivery messages */
+    ndr_template?: string;
+}
+
+/**
+ * Courier / shipping aggregator config (see services/courier)
+ */
+export type CourierProviderId = 'shiprocket' | 'delhivery' | 'mock';
+
+export interface CourierConfig {
+    provider: CourierProviderId;
+    /** Shiprocket API user email */
+    account_email?: string;
+    /** Shiprocket API user password or Delhivery API token */
+    api_key?: string;
+    /** Pickup location name as registered with the courier */
+    pickup_location?: string;
+    /** Pickup pincode, for serviceability checks before booking */
+    pickup_pincode?: string;
+    /** Package weight sent with every shipment (grams, default 500) */
+    default_weight_grams?: string;
+    /** Let Shopify email the customer the tracking link when a shipment is booked */
+    notify_customer?: boolean;
+}
+
+/**
+ * Languages with built-in confirmation messages (see services/order-confirmation)
+ */
+export type ConfirmationLanguage = 'en' | 'hi' | 'ar' | 'es' | 'fr';
+
 // =============================================
 // INTEGRATION CONFIGURATIONS
 // =============================================
@@ -102,7 +160,7 @@ const SMS_WHATSAPP: Integration = {
     name: 'SMS & WhatsApp Messages',
     description: 'Send order confirmations, abandoned checkout reminders, and COD verification messages.',
     icon: 'WA',
-    status: 'coming_soon',
+    status: 'active',
     isPremium: true,
     requiresOAuth: false,
     configSchema: [
@@ -115,6 +173,7 @@ const SMS_WHATSAPP: Integration = {
                 { value: 'twilio', label: 'Twilio' },
                 { value: 'msg91', label: 'MSG91' },
                 { value: 'interakt', label: 'Interakt' },
+                { value: 'console', label: 'Console (development only)' },
             ],
             description: 'Select your SMS/WhatsApp provider',
         },
@@ -122,8 +181,162 @@ const SMS_WHATSAPP: Integration = {
             key: 'api_key',
             label: 'API Key',
             type: 'text',
+            required: false,
+            secret: true,
+            description: 'Twilio auth token, MSG91 auth key or Interakt API key',
+        },
+        {
+            key: 'account_sid',
+            label: 'Account SID',
+            type: 'text',
+            required: false,
+            description: 'Twilio only',
+        },
+        {
+            key: 'sender',
+            label: 'Sender Number',
+            type: 'text',
+            required: false,
+            description: 'Twilio only — e.g. +15005550006, or whatsapp:+14155238886 for WhatsApp',
+        },
+        {
+            key: 'otp_template',
+            label: 'OTP Template',
+            type: 'text',
+            required: false,
+            description: 'MSG91 flow template ID (code as ##var1##) or Interakt template name (code as {{1}})',
+        },
+        {
+            key: 'confirmation_enabled',
+            label: 'Order confirmation messages',
+            type: 'toggle',
+            required: false,
+            description: 'Message COD customers after they order — "Reply 1 to confirm, 2 to cancel"',
+        },
+        {
+            key: 'confirmation_template',
+            label: 'Confirmation Template',
+            type: 'text',
+            required: false,
+            description: 'MSG91 flow template ID or Interakt template name. Values: 1 = customer name, 2 = order number, 3 = order total, 4 = confirmation link',
+        },
+        {
+            key: 'confirmation_language',
+            label: 'Confirmation Language',
+            type: 'select',
+            required: false,
+            options: [
+                { value: 'auto', label: 'Customer\'s language' },
+                { value: 'en', label: 'English' },
+                { value: 'hi', label: 'Hindi' },
+                { value: 'ar', label: 'Arabic' },
+                { value: 'es', label: 'Spanish' },
+                { value: 'fr', label: 'French' },
+            ],
+            description: 'Customer\'s language uses the order\'s checkout locale, falling back to English',
+        },
+        {
+            key: 'confirmation_timeout_hours',
+            label: 'Reply Window (hours)',
+            type: 'number',
+            required: false,
+            description: 'Orders without a reply after this many hours get the action below (default 24)',
+        },
+        {
+            key: 'confirmation_timeout_action',
+            label: 'When No Reply',
+            type: 'select',
+            required: false,
+            options: [
+                { value: 'flag', label: 'Flag the order (tag "Unconfirmed")' },
+                { value: 'cancel', label: 'Cancel the order' },
+            ],
+            description: 'What happens to orders the customer never confirms',
+        },
+        {
+            key: 'ndr_outreach_enabled',
+            label: 'Failed delivery messages',
+            type: 'toggle',
+            required: false,
+            description: 'Message customers when the courier can\'t deliver — "Reply 1 to get it delivered again, 2 to return it"',
+        },
+        {
+            key: 'ndr_template',
+            label: 'Failed Delivery Template',
+            type: 'text',
+            required: false,
+            description: 'MSG91 flow template ID or Interakt template name. Values: 1 = customer name, 2 = order number, 3 = courier',
+        },
+    ],
+};
+
+/**
+ * Courier Integration
+ * Book shipments and track AWBs with a shipping aggregator
+ */
+const COURIER: Integration = {
+    id: 'courier',
+    name: 'Courier & Shipping',
+    description: 'Book COD shipments with Shiprocket or Delhivery, print labels and track AWBs from the order page.',
+    icon: 'CR',
+    status: 'active',
+    isPremium: false,
+    requiresOAuth: false,
+    configSchema: [
+        {
+            key: 'provider',
+            label: 'Courier',
+            type: 'select',
             required: true,
-            description: 'Your provider API key',
+            options: [
+                { value: 'shiprocket', label: 'Shiprocket' },
+                { value: 'delhivery', label: 'Delhivery' },
+                { value: 'mock', label: 'Mock courier (development only)' },
+            ],
+            description: 'Select the courier or aggregator you ship with',
+        },
+        {
+            key: 'account_email',
+            label: 'API User Email',
+            type: 'email',
+            required: false,
+            description: 'Shiprocket only — the API user created under Settings → API',
+        },
+        {
+            key: 'api_key',
+            label: 'API Password / Token',
+            type: 'text',
+            required: false,
+            secret: true,
+            description: 'Shiprocket API user password or Delhivery API token',
+        },
+        {
+            key: 'pickup_location',
+            label: 'Pickup Location',
+            type: 'text',
+            required: false,
+            description: 'Pickup location (Shiprocket) or warehouse name (Delhivery) exactly as registered',
+        },
+        {
+            key: 'pickup_pincode',
+            label: 'Pickup Pincode',
+            type: 'text',
+            required: false,
+            description: 'Used to check the delivery pincode is serviceable before booking',
+        },
+        {
+            key: 'default_weight_grams',
+            label: 'Package Weight (grams)',
+            type: 'number',
+            required: false,
+            description: 'Weight sent to the courier for each shipment (default 500)',
+        },
+        {
+            key: 'notify_customer',
+            label: 'Email tracking link to customer',
+            type: 'toggle',
+            required: false,
+            description: 'Shopify sends its shipping confirmation email when a shipment is booked',
         },
     ],
 };
@@ -175,6 +388,7 @@ const ADDRESS_AUTOCOMPLETE: Integration = {
 export const INTEGRATIONS: Integration[] = [
     GOOGLE_SHEETS,
     SMS_WHATSAPP,
+    COURIER,
     ADDRESS_AUTOCOMPLETE,
 ];
 
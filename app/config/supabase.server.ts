@@ -4,10 +4,14 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { ORDER_STATUSES, type OrderStatus, type SyncStatus, RETRY_DELAYS_SEC } from './constants';
+import type { PostgrestFilterBuilder } from '@supabase/postgrest-js';
+import { ORDER_STATUSES, canChangeOrderStatus, type OrderStatus, type SyncStatus, type ReviewStatus, type OrderEventType, RETRY_DELAYS_SEC } from './constants';
+import type { FraudDecision, FraudSignal } from './fraud-protection.types';
+import type { OrderListFilters } from '../utils/order-filters';
+import { buildOrderLineItems, type OrderLineItem } from '../utils/order-line-items';
 
 // Re-export for other server modules
-export { ORDER_STATUSES, type OrderStatus, type SyncStatus, RETRY_DELAYS_SEC };
+export { ORDER_STATUSES, type OrderStatus, type SyncStatus, type ReviewStatus, RETRY_DELAYS_SEC };
 
 // Environment variables validation
 const supabaseUrl = process.env.SUPABASE_URL;
@@ -358,6 +362,39 @@ export async function getBrandingSettings(shopDomain: string): Promise<Branding
     return (data?.branding as Branding) || null;
 }
 
+// =============================================
+// SHOP-SCOPED ORDER ACCESS
+// =============================================
+
+/**
+ * order_logs queries already filtered to one shop. Every order read and
+ * write goes through this, so an order id taken from a URL, form field or
+ * webhook can only ever match the calling shop's own orders. Updates can't
+ * move an order to another shop (the database trigger from migration v43
+ * enforces the same). The client uses the service-role key, which bypasses
+ * RLS, so this filter is the only thing keeping shops' orders apart.
+ */
+export function orderLogsForShop(shopDomain: string) {
+    if (!shopDomain || typeof shopDomain !== 'string') {
+        throw new Error('A shop domain is required to access orders');
+    }
+    const table = () => supabase.from('order_logs');
+
+    return {
+        select: <Query extends string = '*'>(columns?: Query, options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }) =>
+            table().select<Query>(columns, options).eq('shop_domain', shopDomain),
+        insert: (values: Record<string, unknown>) =>
+            table().insert({ ...values, shop_domain: shopDomain }),
+        update: (values: Record<string, unknown>) => {
+            // An order never moves between shops
+            const changes = { ...values };
+            delete changes.shop_domain;
+            return table().update(changes).eq('shop_domain', shopDomain);
+        },
+        delete: () => table().delete().eq('shop_domain', shopDomain),
+    };
+}
+
 // =============================================
 // ORDER LOG OPERATIONS
 // =============================================
@@ -399,6 +436,12 @@ export interface OrderLogEntry {
     order_payload?: Record<string, any>;
     // Source tracking
     order_source?: 'product_page' | 'cart_page' | 'cart_drawer';
+    // Fraud risk scoring (see fraud-protection.server.ts)
+    fraud_score?: number;
+    fraud_decision?: FraudDecision;
+    fraud_signals?: FraudSignal[];
+    // Manual review: 'pending' saves the order as held instead of syncing it
+    review_status?: ReviewStatus;
 }
 
 // Order status types are imported from ./constants
@@ -408,10 +451,8 @@ export interface OrderLogEntry {
  */
 async function getNextOrderNumber(shopDomain: string): Promise<number> {
     // Get the count of existing orders for this shop
-    const { count, error } = await supabase
-        .from('order_logs')
-        .select('*', { count: 'exact', head: true })
-        .eq('shop_domain', shopDomain);
+    const { count, error } = await orderLogsForShop(shopDomain)
+        .select('*', { count: 'exact', head: true });
 
     if (error) {
         console.error('Error getting order count:', error);
@@ -462,11 +503,18 @@ export async function logOrder(order: OrderLogEntry) {
     if (order.remaining_cod_amount != null) insertPayload.remaining_cod_amount = order.remaining_cod_amount;
     if (order.is_full_prepaid != null) insertPayload.is_full_prepaid = order.is_full_prepaid;
     if (order.order_source != null) insertPayload.order_source = order.order_source;
+    if (order.fraud_score != null) insertPayload.fraud_score = order.fraud_score;
+    if (order.fraud_decision != null) insertPayload.fraud_decision = order.fraud_decision;
+    if (order.fraud_signals != null) insertPayload.fraud_signals = order.fraud_signals;
     // payment_method: always set — defaults to 'cod' if not provided
     insertPayload.payment_method = order.payment_method ?? 'cod';
+    // Held for review — kept out of the sync/retry queue until approved
+    if (order.review_status === 'pending') {
+        insertPayload.review_status = 'pending';
+        insertPayload.sync_status = 'held';
+    }
 
-    const { data, error } = await supabase
-        .from('order_logs')
+    const { data, error } = await orderLogsForShop(order.shop_domain)
         .insert(insertPayload)
         .select()
         .single();
@@ -476,6 +524,9 @@ export async function logOrder(order: OrderLogEntry) {
         throw error;
     }
 
+    await saveOrderLineItems(data, order.price);
+    await recordOrderCreatedEvents(data);
+
     // Generate order name for display (COD-XXX format)
     const orderName = data ? `COD-${String(data.id).slice(-8).toUpperCase()}` : 'COD-PENDING';
     return { ...data, shopify_order_name: orderName };
@@ -528,11 +579,13 @@ export async function logOrderWithShopifyIds(
     if (order.remaining_cod_amount != null) insertPayload.remaining_cod_amount = order.remaining_cod_amount;
     if (order.is_full_prepaid != null) insertPayload.is_full_prepaid = order.is_full_prepaid;
     if (order.order_source != null) insertPayload.order_source = order.order_source;
+    if (order.fraud_score != null) insertPayload.fraud_score = order.fraud_score;
+    if (order.fraud_decision != null) insertPayload.fraud_decision = order.fraud_decision;
+    if (order.fraud_signals != null) insertPayload.fraud_signals = order.fraud_signals;
     // payment_method: always set — defaults to 'cod' if not provided
     insertPayload.payment_method = order.payment_method ?? 'cod';
 
-    const { data, error } = await supabase
-        .from('order_logs')
+    const { data, error } = await orderLogsForShop(order.shop_domain)
         .insert(insertPayload)
         .select()
         .single();
@@ -542,20 +595,39 @@ export async function logOrderWithShopifyIds(
         throw error;
     }
 
+    await saveOrderLineItems(data, order.price);
+    await recordOrderCreatedEvents(data);
+
     return { ...data, shopify_order_name: shopifyOrderName };
 }
 
+/**
+ * Sync state of one order, for the storefront to poll after checkout.
+ */
+export async function getOrderSyncStatus(shopDomain: string, orderId: string) {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .select('shopify_order_id, shopify_order_name, sync_status')
+        .eq('id', orderId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Supabase] Error fetching order sync status:', error);
+        return null;
+    }
+    return data;
+}
+
 /**
  * Update order status after Shopify order creation
  */
 export async function updateOrderStatus(
+    shopDomain: string,
     orderId: string,
     shopifyOrderId: string,
     shopifyOrderName: string,
     status: string
 ) {
-    const { error } = await supabase
-        .from('order_logs')
+    const { error } = await orderLogsForShop(shopDomain)
         .update({
             shopify_order_id: shopifyOrderId,
             shopify_order_name: shopifyOrderName,
@@ -571,23 +643,58 @@ export async function updateOrderStatus(
 
 /**
  * Update just the order status (for seller dashboard)
+ * `actor` is recorded on the order timeline (merchant email or 'merchant').
  */
-export async function updateOrderStatusSimple(orderId: string, status: OrderStatus) {
+export async function updateOrderStatusSimple(shopDomain: string, orderId: string, status: OrderStatus, actor = 'merchant') {
     console.log(`[Supabase] Updating order ${orderId} to status: ${status}`);
 
-    const { data, error } = await supabase
-        .from('order_logs')
-        .update({ status: status })
+    const { data: previous } = await orderLogsForShop(shopDomain)
+        .select('status')
         .eq('id', orderId)
+        .maybeSingle();
+
+    if (!previous) {
+        throw new Error('Order not found');
+    }
+    if (previous.status !== status && !canChangeOrderStatus(previous.status, status)) {
+        throw new Error(`Can't change a ${previous.status || 'pending'} order to ${status}`);
+    }
+
+    // Conditional on the status we read, so a webhook in between isn't overwritten
+    const query = orderLogsForShop(shopDomain)
+        .update({ status: status })
+        .eq('id', orderId);
+    const { data, error } = await (previous.status ? query.eq('status', previous.status) : query.is('status', null))
         .select()
-        .single();
+        .maybeSingle();
 
     if (error) {
         console.error('[Supabase] Error updating order status:', error);
         throw error;
     }
+    if (!data) {
+        throw new Error('Order changed in the meantime — reload and try again');
+    }
 
     console.log(`[Supabase] Successfully updated order:`, data);
+    if (previous.status !== status) {
+        await recordOrderEvent({
+            shopDomain,
+            orderLogId: orderId,
+            shopifyOrderId: data.shopify_order_id,
+            type: 'status_changed',
+            message: `Status changed from ${previous.status || 'pending'} to ${status}`,
+            details: { from: previous.status || null, to: status },
+            actor,
+        });
+        // Whatever the merchant decided, the customer's confirmation message is
+        // settled: a late reply or the expiry sweep must not act on it.
+        // Imported lazily — the confirmation service imports this module.
+        if (status !== 'pending' && data.shopify_order_id) {
+            const { closeOrderConfirmation } = await import('../services/order-confirmation.server');
+            await closeOrderConfirmation(shopDomain, String(data.shopify_order_id), status === 'cancelled' ? 'cancelled' : 'confirmed');
+        }
+    }
     return data;
 }
 
@@ -599,9 +706,8 @@ export async function updateOrderStatusSimple(orderId: string, status: OrderStat
  * Atomic lock: attempts to claim an order for syncing.
  * Returns true if lock acquired, false if already syncing/synced.
  */
-export async function acquireSyncLock(orderId: string): Promise<boolean> {
-    const { data, error } = await supabase
-        .from('order_logs')
+export async function acquireSyncLock(shopDomain: string, orderId: string): Promise<boolean> {
+    const { data, error } = await orderLogsForShop(shopDomain)
         .update({ sync_status: 'syncing' })
         .eq('id', orderId)
         .in('sync_status', ['pending_sync', 'failed_sync'])
@@ -619,9 +725,8 @@ export async function acquireSyncLock(orderId: string): Promise<boolean> {
 /**
  * Get a single order log by its ID (used by background sync to reload from DB)
  */
-export async function getOrderById(orderId: string) {
-    const { data, error } = await supabase
-        .from('order_logs')
+export async function getOrderById(shopDomain: string, orderId: string) {
+    const { data, error } = await orderLogsForShop(shopDomain)
         .select('*')
         .eq('id', orderId)
         .single();
@@ -636,14 +741,23 @@ export async function getOrderById(orderId: string) {
 /**
  * Mark order as currently syncing (used before Shopify API call)
  */
-export async function markSyncSyncing(orderId: string) {
-    const { error } = await supabase
-        .from('order_logs')
+export async function markSyncSyncing(shopDomain: string, orderId: string) {
+    const { data, error } = await orderLogsForShop(shopDomain)
         .update({ sync_status: 'syncing' })
-        .eq('id', orderId);
+        .eq('id', orderId)
+        .select('sync_attempts')
+        .maybeSingle();
 
     if (error) {
         console.error('[Sync] Error marking syncing:', error);
+    } else if (data) {
+        await recordOrderEvent({
+            shopDomain,
+            orderLogId: orderId,
+            type: 'sync_started',
+            message: `Creating the order in Shopify (attempt ${(data.sync_attempts || 0) + 1})`,
+            actor: 'system',
+        });
     }
 }
 
@@ -651,12 +765,12 @@ export async function markSyncSyncing(orderId: string) {
  * Mark order as successfully synced to Shopify
  */
 export async function markSynced(
+    shopDomain: string,
     orderId: string,
     shopifyOrderId: string,
     shopifyOrderName: string
 ) {
-    const { error } = await supabase
-        .from('order_logs')
+    const { data, error } = await orderLogsForShop(shopDomain)
         .update({
             sync_status: 'synced',
             shopify_order_id: shopifyOrderId,
@@ -664,34 +778,64 @@ export async function markSynced(
             last_synced_at: new Date().toISOString(),
             sync_error: null,
         })
-        .eq('id', orderId);
+        .eq('id', orderId)
+        .select('id')
+        .maybeSingle();
 
     if (error) {
         console.error('[Sync] Error marking synced:', error);
         throw error;
     }
+    if (data) {
+        await recordSyncedEvent(shopDomain, orderId, shopifyOrderId, shopifyOrderName);
+    }
+}
+
+/**
+ * Timeline entry for a successful Shopify sync (also used by the sync
+ * service, which writes the synced columns itself).
+ */
+export async function recordSyncedEvent(shopDomain: string, orderId: string, shopifyOrderId: string, shopifyOrderName: string) {
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: orderId,
+        shopifyOrderId,
+        type: 'synced',
+        message: `Created in Shopify as ${shopifyOrderName || shopifyOrderId}`,
+        actor: 'system',
+    });
 }
 
 /**
  * Mark order sync as failed, increment attempts, compute next_retry_at
  */
-export async function markSyncFailed(orderId: string, errorMsg: string, currentAttempt: number) {
+export async function markSyncFailed(shopDomain: string, orderId: string, errorMsg: string, currentAttempt: number) {
     const delayIndex = Math.min(currentAttempt, RETRY_DELAYS_SEC.length - 1);
     const delaySec = RETRY_DELAYS_SEC[delayIndex];
     const nextRetry = new Date(Date.now() + delaySec * 1000).toISOString();
 
-    const { error } = await supabase
-        .from('order_logs')
+    const { data, error } = await orderLogsForShop(shopDomain)
         .update({
             sync_status: 'failed_sync',
             sync_error: errorMsg.substring(0, 500),
             sync_attempts: currentAttempt + 1,
             next_retry_at: nextRetry,
         })
-        .eq('id', orderId);
+        .eq('id', orderId)
+        .select('id')
+        .maybeSingle();
 
     if (error) {
         console.error('[Sync] Error marking failed:', error);
+    } else if (data) {
+        await recordOrderEvent({
+            shopDomain,
+            orderLogId: orderId,
+            type: 'sync_failed',
+            message: `Attempt ${currentAttempt + 1} failed: ${errorMsg.substring(0, 300)}`,
+            details: { error: errorMsg.substring(0, 500), attempt: currentAttempt + 1, next_retry_at: nextRetry },
+            actor: 'system',
+        });
     }
 }
 
@@ -699,11 +843,10 @@ export async function markSyncFailed(orderId: string, errorMsg: string, currentA
  * Get orders that are eligible for retry
  */
 export async function getRetryableOrders(shopDomain: string) {
-    const { data, error } = await supabase
-        .from('order_logs')
+    const { data, error } = await orderLogsForShop(shopDomain)
         .select('*')
-        .eq('shop_domain', shopDomain)
         .in('sync_status', ['pending_sync', 'failed_sync'])
+        .neq('status', 'cancelled')
         .lt('sync_attempts', 5)
         .or(`next_retry_at.is.null,next_retry_at.lte.${new Date().toISOString()}`)
         .order('created_at', { ascending: true })
@@ -721,24 +864,29 @@ export async function getRetryableOrders(shopDomain: string) {
  */
 export async function getOrders(
     shopDomain: string,
-    options?: { status?: OrderStatus; limit?: number; offset?: number }
+    options?: { status?: OrderStatus; filters?: OrderListFilters; limit?: number; offset?: number }
 ) {
-    let query = supabase
-        .from('order_logs')
-        .select('*', { count: 'exact' })
-        .eq('shop_domain', shopDomain)
-        .order('created_at', { ascending: false });
-
-    if (options?.status) {
-        query = query.eq('status', options.status);
+    const sort = options?.filters?.sort || 'created_at';
+    let query = applyOrderFilters(
+        orderLogsForShop(shopDomain)
+            .select('*', { count: 'exact' }),
+        options?.filters,
+    )
+        .order(sort, { ascending: options?.filters?.dir === 'asc', nullsFirst: false });
+
+    // Stable paging when many rows share the sort value
+    if (sort !== 'created_at') {
+        query = query.order('created_at', { ascending: false });
     }
 
-    if (options?.limit) {
-        query = query.limit(options.limit);
+    const status = options?.status || options?.filters?.status;
+    if (status) {
+        query = query.eq('status', status);
     }
 
-    if (options?.offset) {
-        query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
+    if (options?.limit) {
+        const offset = options.offset || 0;
+        query = query.range(offset, offset + options.limit - 1);
     }
 
     const { data, error, count } = await query;
@@ -751,6 +899,121 @@ export async function getOrders(
     return { orders: data || [], totalCount: count || 0 };
 }
 
+/** An order_logs PostgREST filter query, resolving to Result instead of what it selected */
+type OrderLogsFilterQuery<Result> = ReturnType<ReturnType<typeof orderLogsForShop>['select']> extends
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    PostgrestFilterBuilder<infer Options, infer Schema, infer Row, infer _Selected, infer Relation, infer Relationships, infer Method>
+    ? PostgrestFilterBuilder<Options, Schema, Row, Result, Relation, Relationships, Method>
+    : never;
+
+/**
+ * Apply every order list filter except status (status counts reuse this).
+ */
+function applyOrderFilters<Result>(query: OrderLogsFilterQuery<Result>, filters?: OrderListFilters): OrderLogsFilterQuery<Result> {
+    if (!filters) return query;
+    let q = query;
+
+    if (filters.q) {
+        // Characters that would break PostgREST's or() syntax
+        const term = filters.q.replace(/[,()"\\%*]/g, ' ').trim();
+        if (term) {
+            q = q.or(['shopify_order_name', 'customer_phone', 'customer_name', 'customer_email']
+                .map((column) => `${column}.ilike.%${term}%`)
+                .join(','));
+        }
+    }
+    if (filters.from) q = q.gte('created_at', `${filters.from}T00:00:00.000Z`);
+    if (filters.to) {
+        const end = new Date(`${filters.to}T00:00:00.000Z`);
+        end.setUTCDate(end.getUTCDate() + 1);
+        q = q.lt('created_at', end.toISOString());
+    }
+    if (filters.payment) q = q.eq('payment_method', filters.payment);
+    if (filters.sync) q = q.eq('sync_status', filters.sync);
+    if (filters.source) q = q.eq('order_source', filters.source);
+    if (filters.coupon) q = q.ilike('coupon_code', filters.coupon.replace(/[%_\\]/g, '\\$&'));
+    if (filters.fraud === 'flagged') {
+        q = q.not('fraud_decision', 'is', null).neq('fraud_decision', 'allow');
+    } else if (filters.fraud) {
+        q = q.eq('fraud_decision', filters.fraud);
+    }
+
+    return q;
+}
+
+/**
+ * Order counts per status for the filtered list — one head-only count query
+ * each, so the numbers cover every matching order, not just the loaded page.
+ */
+export async function getOrderStatusCounts(
+    shopDomain: string,
+    filters?: OrderListFilters
+): Promise<Record<OrderStatus | 'all', number>> {
+    const countFor = async (status?: OrderStatus) => {
+        let query = applyOrderFilters(
+            orderLogsForShop(shopDomain)
+                .select('id', { count: 'exact', head: true }),
+            filters,
+        );
+        if (status) query = query.eq('status', status);
+        const { count, error } = await query;
+        if (error) {
+            console.error('Error counting orders:', error);
+            return 0;
+        }
+        return count || 0;
+    };
+
+    const [all, ...perStatus] = await Promise.all([
+        countFor(),
+        ...ORDER_STATUSES.map((s) => countFor(s.value)),
+    ]);
+
+    const counts = { all } as Record<OrderStatus | 'all', number>;
+    ORDER_STATUSES.forEach((s, i) => { counts[s.value] = perStatus[i]; });
+    return counts;
+}
+
+/**
+ * Walk every order matching the filters in batches, for exports.
+ * Same sort as the list, with id as a tiebreaker so batches never overlap.
+ * `orderIds` narrows it to a selection from the list.
+ */
+export async function* iterateOrders(
+    shopDomain: string,
+    filters: OrderListFilters,
+    options: { orderIds?: string[]; batchSize?: number } = {}
+) {
+    const batchSize = options.batchSize || 1000;
+    for (let offset = 0; ; offset += batchSize) {
+        let query = applyOrderFilters(
+            orderLogsForShop(shopDomain)
+                .select('*'),
+            filters,
+        )
+            .order(filters.sort, { ascending: filters.dir === 'asc', nullsFirst: false })
+            .order('id', { ascending: true })
+            .range(offset, offset + batchSize - 1);
+
+        if (filters.status) {
+            query = query.eq('status', filters.status);
+        }
+        if (options.orderIds?.length) {
+            query = query.in('id', options.orderIds);
+        }
+
+        const { data, error } = await query;
+        if (error) {
+            console.error('Error iterating orders:', error);
+            throw error;
+        }
+        if (!data || data.length === 0) return;
+
+        yield data;
+        if (data.length < batchSize) return;
+    }
+}
+
 /**
  * Get order statistics for a shop
  */
@@ -785,67 +1048,51 @@ export async function getOrderStats(shopDomain: string) {
         { data: statusData },
     ] = await Promise.all([
         // Get total orders
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('*', { count: 'exact', head: true })
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null),
 
         // Get pending orders
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('*', { count: 'exact', head: true })
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null)
             .eq('status', 'pending'),
 
         // Get today's orders
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('*', { count: 'exact', head: true })
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null)
             .gte('created_at', todayStart),
 
         // Get this week's orders
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('*', { count: 'exact', head: true })
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null)
             .gte('created_at', weekStart),
 
         // Get total revenue (from confirmed/delivered orders)
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('total_price')
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null)
             .not('status', 'in', '(cancelled,returned)'),
 
         // Get today's revenue
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('total_price')
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null)
             .gte('created_at', todayStart)
             .not('status', 'in', '(cancelled,returned)'),
 
         // Get recent orders
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('*')
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null)
             .order('created_at', { ascending: false })
             .limit(10),
 
         // Get orders by status for analytics
-        supabase
-            .from('order_logs')
+        orderLogsForShop(shopDomain)
             .select('status')
-            .eq('shop_domain', shopDomain)
             .not(REAL_ORDER_FILTER, 'is', null),
     ]);
 
@@ -870,6 +1117,198 @@ export async function getOrderStats(shopDomain: string) {
     };
 }
 
+// =============================================
+// ORDER TIMELINE OPERATIONS
+// =============================================
+
+export interface OrderEventInput {
+    shopDomain: string;
+    orderLogId?: string | null;
+    /** Numeric or GID; stored numeric */
+    shopifyOrderId?: string | number | null;
+    type: OrderEventType;
+    message: string;
+    details?: Record<string, unknown> | null;
+    /** 'customer', 'system', 'shopify', or the merchant who did it */
+    actor?: string | null;
+}
+
+export interface OrderEvent {
+    id: string;
+    event_type: OrderEventType;
+    message: string;
+    details: Record<string, any> | null;
+    actor: string | null;
+    created_at: string;
+}
+
+/**
+ * Append an event to an order's timeline. Never throws: a failed audit
+ * write must not break the order flow it describes.
+ */
+export async function recordOrderEvent(event: OrderEventInput): Promise<void> {
+    try {
+        const shopifyOrderId = event.shopifyOrderId != null && event.shopifyOrderId !== ''
+            ? String(event.shopifyOrderId).split('/').pop()
+            : null;
+        const { error } = await supabase.from('order_events').insert({
+            shop_domain: event.shopDomain,
+            order_log_id: event.orderLogId || null,
+            shopify_order_id: shopifyOrderId,
+            event_type: event.type,
+            message: event.message.substring(0, 1000),
+            details: event.details ?? null,
+            actor: event.actor ?? null,
+        });
+        if (error) {
+            console.error('[Timeline] Error recording order event:', error);
+        }
+    } catch (err) {
+        console.error('[Timeline] Error recording order event:', err);
+    }
+}
+
+async function recordOrderCreatedEvents(order: any) {
+    if (!order?.id) return;
+    const base = { shopDomain: order.shop_domain, orderLogId: String(order.id), shopifyOrderId: order.shopify_order_id };
+
+    await recordOrderEvent({
+        ...base,
+        type: 'created',
+        message: `Order placed (${order.payment_method || 'cod'}${order.order_source ? `, ${order.order_source.replace(/_/g, ' ')}` : ''})`,
+        details: { total: order.total_price, payment_method: order.payment_method, source: order.order_source || null },
+        actor: 'customer',
+    });
+    if (order.fraud_decision) {
+        await recordOrderEvent({
+            ...base,
+            type: 'fraud_check',
+            message: `Risk score ${order.fraud_score ?? 0} — decision: ${order.fraud_decision}`,
+            details: { score: order.fraud_score, decision: order.fraud_decision, signals: order.fraud_signals || [] },
+            actor: 'system',
+        });
+    }
+    if (order.sync_status === 'held') {
+        await recordOrderEvent({ ...base, type: 'review', message: 'Held for manual review', actor: 'system' });
+    }
+}
+
+/**
+ * Timeline for one order, oldest first. Webhook events only know the
+ * Shopify order id, so both keys are matched.
+ */
+export async function getOrderEvents(
+    shopDomain: string,
+    order: { id: string; shopify_order_id?: string | null },
+    limit = 200
+): Promise<OrderEvent[]> {
+    const shopifyOrderId = order.shopify_order_id ? String(order.shopify_order_id).split('/').pop() : null;
+    let query = supabase
+        .from('order_events')
+        .select('id, event_type, message, details, actor, created_at')
+        .eq('shop_domain', shopDomain);
+    query = shopifyOrderId && /^\d+$/.test(shopifyOrderId)
+        ? query.or(`order_log_id.eq.${order.id},shopify_order_id.eq.${shopifyOrderId}`)
+        : query.eq('order_log_id', order.id);
+
+    const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error('[Timeline] Error loading order events:', error);
+        return [];
+    }
+    return (data || []) as OrderEvent[];
+}
+
+// =============================================
+// ORDER LINE ITEM OPERATIONS
+// =============================================
+
+export type { OrderLineItem };
+
+const LINE_ITEM_COLUMNS = 'order_log_id, position, source, source_detail, product_id, variant_id, title, variant_title, quantity, unit_price, discount_amount';
+
+/**
+ * Store the line items of a newly logged order. Never throws: the order is
+ * already saved, and getOrderLineItems rebuilds missing rows from its payload.
+ */
+async function saveOrderLineItems(order: any, unitPrice?: string) {
+    if (!order?.id) return;
+    try {
+        const rows = buildOrderLineItems({ ...order, price: unitPrice }).map((item) => ({
+            ...item,
+            shop_domain: order.shop_domain,
+            order_log_id: order.id,
+            created_at: order.created_at,
+        }));
+        const { error } = await supabase.from('order_line_items').insert(rows);
+        if (error) {
+            console.error('[LineItems] Error saving order line items:', error);
+        }
+    } catch (err) {
+        console.error('[LineItems] Error saving order line items:', err);
+    }
+}
+
+/**
+ * Line items keyed by order id, in display order. Orders without stored
+ * rows (logged before order_line_items existed and not backfilled yet)
+ * are built from their order_payload.
+ */
+export async function getOrderLineItems(shopDomain: string, orders: any[]): Promise<Record<string, OrderLineItem[]>> {
+    const byOrder: Record<string, OrderLineItem[]> = {};
+    const ids = orders.map((order) => String(order.id));
+
+    // Keep the in() list well inside PostgREST's URL length limit
+    for (let i = 0; i < ids.length; i += 200) {
+        const { data, error } = await supabase
+            .from('order_line_items')
+            .select(LINE_ITEM_COLUMNS)
+            .eq('shop_domain', shopDomain)
+            .in('order_log_id', ids.slice(i, i + 200))
+            .order('position', { ascending: true });
+
+        if (error) {
+            console.error('[LineItems] Error loading order line items:', error);
+            continue;
+        }
+        for (const { order_log_id, ...item } of data || []) {
+            (byOrder[order_log_id] ||= []).push({
+                ...item,
+                unit_price: Number(item.unit_price) || 0,
+                discount_amount: Number(item.discount_amount) || 0,
+            } as OrderLineItem);
+        }
+    }
+
+    for (const order of orders) {
+        if (!byOrder[order.id]) {
+            byOrder[order.id] = buildOrderLineItems(order);
+        }
+    }
+    return byOrder;
+}
+
+/**
+ * Swap an order's stored line items for `items` after an item edit, in one
+ * transaction (replace_order_line_items, migration v50). Returns false when
+ * nothing was changed.
+ */
+export async function replaceOrderLineItems(shopDomain: string, orderId: string, items: OrderLineItem[]): Promise<boolean> {
+    const { error } = await supabase.rpc('replace_order_line_items', {
+        p_shop: shopDomain,
+        p_order_log_id: orderId,
+        p_items: items,
+    });
+    if (error) {
+        console.error('[LineItems] Error replacing order line items:', error);
+        return false;
+    }
+    return true;
+}
+
 // =============================================
 // INTEGRATION SETTINGS OPERATIONS
 // =============================================
@@ -989,10 +1428,8 @@ export async function getAnalyticsStats(shopDomain: string, createdAtMin?: strin
     // that row only gets a shopify_order_id once a real Shopify order
     // actually exists. Without this filter, abandoned checkouts count as
     // orders here even though they never appear in Shopify's Orders list.
-    let query = supabase
-        .from('order_logs')
+    let query = orderLogsForShop(shopDomain)
         .select('*')
-        .eq('shop_domain', shopDomain)
         .not('shopify_order_id', 'is', null);
 
     if (createdAtMin) {
@@ -1031,6 +1468,7 @@ export async function getAnalyticsStats(shopDomain: string, createdAtMin?: strin
     let partialCodFeeRevenue = 0;
     let prepaidDiscountsTotal = 0;
     let prepaidDiscountOrdersCount = 0;
+    const revenueOrders: any[] = [];
 
     for (const order of (orders || [])) {
         const createdAt = new Date(order.created_at);
@@ -1042,6 +1480,7 @@ export async function getAnalyticsStats(shopDomain: string, createdAtMin?: strin
         // Revenue: exclude cancelled and fully refunded
         if (!isCancelled && finStatus !== "refunded") {
             totalRevenue += price;
+            revenueOrders.push(order);
         }
 
         // Time-based counts
@@ -1110,6 +1549,30 @@ export async function getAnalyticsStats(shopDomain: string, createdAtMin?: strin
         }
     }
 
+    // Item sales: main product vs bundles, upsells and downsells, and the best sellers
+    const itemSalesBySource: Record<OrderLineItem['source'], { units: number; revenue: number }> = {
+        main: { units: 0, revenue: 0 },
+        bundle: { units: 0, revenue: 0 },
+        upsell: { units: 0, revenue: 0 },
+        downsell: { units: 0, revenue: 0 },
+    };
+    const productSales = new Map<string, { title: string; units: number; revenue: number }>();
+    const lineItemsByOrder = await getOrderLineItems(shopDomain, revenueOrders);
+    for (const items of Object.values(lineItemsByOrder)) {
+        for (const item of items) {
+            const revenue = item.unit_price * item.quantity - item.discount_amount;
+            itemSalesBySource[item.source].units += item.quantity;
+            itemSalesBySource[item.source].revenue += revenue;
+
+            const key = item.variant_id || item.product_id || item.title;
+            const product = productSales.get(key) || { title: [item.title, item.variant_title].filter(Boolean).join(' - '), units: 0, revenue: 0 };
+            product.units += item.quantity;
+            product.revenue += revenue;
+            productSales.set(key, product);
+        }
+    }
+    const topProducts = [...productSales.values()].sort((a, b) => b.revenue - a.revenue).slice(0, 5);
+
     const totalOrders = (orders || []).length;
     const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
     const prepaidAvgDiscount = prepaidDiscountOrdersCount > 0 ? prepaidDiscountsTotal / prepaidDiscountOrdersCount : 0;
@@ -1139,5 +1602,7 @@ export async function getAnalyticsStats(shopDomain: string, createdAtMin?: strin
         prepaidDiscountOrdersCount,
         prepaidDiscountsTotal,
         prepaidAvgDiscount,
+        itemSalesBySource,
+        topProducts,
     };
 }
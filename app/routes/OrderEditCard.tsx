@@ -0,0 +1,204 @@
+import { useState, useEffect } from "react";
+import { useFetcher } from "react-router";
+import { BlockStack, InlineStack, TextField, Button, Banner, Text } from "@shopify/polaris";
+import { DeleteIcon } from "@shopify/polaris-icons";
+import type { OrderEditResult, ShopifyEditableLineItem } from "../services/order-edit.server";
+
+/** The order_logs fields the form edits */
+interface EditableOrder {
+    shopify_order_id?: string | null;
+    customer_address?: string | null;
+    city?: string | null;
+    state?: string | null;
+    pincode?: string | null;
+    customer_notes?: string | null;
+}
+
+interface OrderEditCardProps {
+    order: EditableOrder;
+    /** Shopify line items, or null when products can't be changed (not in Shopify yet) */
+    lineItems: ShopifyEditableLineItem[] | null;
+    formatCurrency: (amount: number) => string;
+    onClose: () => void;
+}
+
+interface AddedItem {
+    variantId: string;
+    title: string;
+    price: number;
+    quantity: string;
+}
+
+/**
+ * Edit form on the order detail page: delivery address, notes and — once
+ * the order is in Shopify — line item quantities and added products.
+ * Saves through the page action (intent "edit_order").
+ */
+export function OrderEditCard({ order, lineItems, formatCurrency, onClose }: OrderEditCardProps) {
+    const fetcher = useFetcher<OrderEditResult & { intent: string }>();
+    const [address, setAddress] = useState(order.customer_address || "");
+    const [city, setCity] = useState(order.city || "");
+    const [state, setState] = useState(order.state || "");
+    const [pincode, setPincode] = useState(order.pincode || "");
+    const [notes, setNotes] = useState(order.customer_notes || "");
+    const [quantities, setQuantities] = useState<Record<string, string>>(
+        () => Object.fromEntries((lineItems || []).map((item) => [item.id, String(item.quantity)]))
+    );
+    const [added, setAdded] = useState<AddedItem[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const isSaving = fetcher.state !== "idle";
+
+    useEffect(() => {
+        if (fetcher.state !== "idle" || !fetcher.data || fetcher.data.intent !== "edit_order") return;
+        if (fetcher.data.success) {
+            onClose();
+        } else {
+            setError(fetcher.data.error || "Could not save the changes");
+        }
+    }, [fetcher.state, fetcher.data, onClose]);
+
+    const pickProducts = async () => {
+        try {
+            const selection = await shopify.resourcePicker({ type: "product", multiple: true, action: "add" });
+            if (!selection) return;
+            const picked: AddedItem[] = [];
+            for (const product of selection) {
+                for (const variant of product.variants || []) {
+                    if (!variant.id) continue;
+                    const variantTitle = variant.title && variant.title !== "Default Title" ? ` - ${variant.title}` : "";
+                    picked.push({ variantId: variant.id, title: `${product.title}${variantTitle}`, price: parseFloat(variant.price || "0"), quantity: "1" });
+                }
+            }
+            setAdded((prev) => [...prev, ...picked.filter((p) => !prev.some((a) => a.variantId === p.variantId))]);
+        } catch (e) {
+            console.error("Product picker failed:", e);
+        }
+    };
+
+    const handleSave = () => {
+        setError(null);
+        const changedQuantities = Object.fromEntries(
+            (lineItems || [])
+                .filter((item) => Number(quantities[item.id]) !== item.quantity)
+                .map((item) => [item.id, Number(quantities[item.id]) || 0])
+        );
+        fetcher.submit({
+            intent: "edit_order",
+            address,
+            city,
+            state,
+            pincode,
+            notes,
+            quantities: JSON.stringify(changedQuantities),
+            additions: JSON.stringify(added.map((a) => ({ variantId: a.variantId, title: a.title, quantity: Number(a.quantity) || 0 }))),
+        }, { method: "post" });
+    };
+
+    return (
+        <div className="order-card">
+            <div className="order-card-header">
+                <h2>✏️ Edit Order</h2>
+            </div>
+            <div className="order-card-body">
+                <BlockStack gap="400">
+                    {error && (
+                        <Banner tone="critical" onDismiss={() => setError(null)}>
+                            <p>{error}</p>
+                        </Banner>
+                    )}
+                    <TextField label="Delivery address" value={address} onChange={setAddress} multiline={2} autoComplete="off" />
+                    <div className="detail-grid">
+                        <TextField label="City" value={city} onChange={setCity} autoComplete="off" />
+                        <TextField label="State" value={state} onChange={setState} autoComplete="off" />
+                        <TextField label="Pincode" value={pincode} onChange={setPincode} autoComplete="off" />
+                    </div>
+
+                    <BlockStack gap="200">
+                        <Text as="h3" variant="headingSm">Products</Text>
+                        {lineItems === null ? (
+                            <Text as="p" tone="subdued">
+                                {order.shopify_order_id
+                                    ? "Products can't be changed on this order in Shopify any more."
+                                    : "Products can be changed once the order has been created in Shopify."}
+                            </Text>
+                        ) : (
+                            <>
+                                {lineItems.map((item) => (
+                                    <InlineStack key={item.id} align="space-between" blockAlign="center" wrap={false} gap="300">
+                                        <BlockStack gap="050">
+                                            <Text as="span" fontWeight="semibold">
+                                                {[item.title, item.variantTitle].filter((part) => part && part !== "Default Title").join(" - ")}
+                                            </Text>
+                                            <Text as="span" variant="bodySm" tone="subdued">{formatCurrency(item.unitPrice)} each</Text>
+                                        </BlockStack>
+                                        <InlineStack gap="100" blockAlign="center" wrap={false}>
+                                            <div style={{ width: "90px" }}>
+                                                <TextField
+                                                    label="Quantity"
+                                                    labelHidden
+                                                    type="number"
+                                                    min={0}
+                                                    value={quantities[item.id] ?? ""}
+                                                    onChange={(value) => setQuantities((prev) => ({ ...prev, [item.id]: value }))}
+                                                    autoComplete="off"
+                                                />
+                                            </div>
+                                            <Button
+                                                icon={DeleteIcon}
+                                                variant="tertiary"
+                                                accessibilityLabel="Remove item"
+                                                disabled={quantities[item.id] === "0"}
+                                                onClick={() => setQuantities((prev) => ({ ...prev, [item.id]: "0" }))}
+                                            />
+                                        </InlineStack>
+                                    </InlineStack>
+                                ))}
+                                {added.map((item) => (
+                                    <InlineStack key={item.variantId} align="space-between" blockAlign="center" wrap={false} gap="300">
+                                        <BlockStack gap="050">
+                                            <Text as="span" fontWeight="semibold">{item.title}</Text>
+                                            <Text as="span" variant="bodySm" tone="success">New · {formatCurrency(item.price)} each</Text>
+                                        </BlockStack>
+                                        <InlineStack gap="100" blockAlign="center" wrap={false}>
+                                            <div style={{ width: "90px" }}>
+                                                <TextField
+                                                    label="Quantity"
+                                                    labelHidden
+                                                    type="number"
+                                                    min={1}
+                                                    value={item.quantity}
+                                                    onChange={(value) => setAdded((prev) => prev.map((a) => a.variantId === item.variantId ? { ...a, quantity: value } : a))}
+                                                    autoComplete="off"
+                                                />
+                                            </div>
+                                            <Button
+                                                icon={DeleteIcon}
+                                                variant="tertiary"
+                                                accessibilityLabel="Remove item"
+                                                onClick={() => setAdded((prev) => prev.filter((a) => a.variantId !== item.variantId))}
+                                            />
+                                        </InlineStack>
+                                    </InlineStack>
+                                ))}
+                                <div>
+                                    <Button onClick={pickProducts}>Add product</Button>
+                                </div>
+                                <Text as="p" variant="bodySm" tone="subdued">
+                                    The order total and the amount to collect on delivery are recalculated from Shopify when you save.
+                                </Text>
+                            </>
+                        )}
+                    </BlockStack>
+
+                    <TextField label="Order notes" value={notes} onChange={setNotes} multiline={4} autoComplete="off" />
+
+                    <InlineStack align="end" gap="200">
+                        <Button onClick={onClose} disabled={isSaving}>Cancel</Button>
+                        <Button variant="primary" onClick={handleSave} loading={isSaving}>Save changes</Button>
+                    </InlineStack>
+                </BlockStack>
+            </div>
+        </div>
+    );
+}
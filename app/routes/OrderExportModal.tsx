@@ -0,0 +1,235 @@
+import { useState, useEffect, useMemo } from "react";
+import { useFetcher } from "react-router";
+import { Modal, Select, Button, InlineStack, BlockStack, Text, TextField, Banner } from "@shopify/polaris";
+import { ArrowUpIcon, ArrowDownIcon, XIcon } from "@shopify/polaris-icons";
+import {
+    ORDER_EXPORT_COLUMNS,
+    DEFAULT_EXPORT_COLUMNS,
+    customFieldColumnKey,
+    getExportColumnLabel,
+    type OrderExportFormat,
+    type OrderExportPreset,
+} from "../utils/order-export";
+import type { action as exportAction } from "./app.orders_.export";
+
+interface OrderExportModalProps {
+    open: boolean;
+    onClose: () => void;
+    /** Serialized list filters — the export covers the same orders as the list */
+    filterQuery: string;
+    matchingCount: number;
+    /** When set, only these orders are exported */
+    selectedOrderIds?: string[];
+    presets: OrderExportPreset[];
+    customFieldLabels: string[];
+}
+
+/**
+ * Export dialog for the orders page: pick and order columns, choose CSV or
+ * XLSX, and save the layout as a preset. The file is fetched through the
+ * authenticated app fetch and handed to the browser as a download.
+ */
+export function OrderExportModal({ open, onClose, filterQuery, matchingCount, selectedOrderIds, presets, customFieldLabels }: OrderExportModalProps) {
+    const exportCount = selectedOrderIds?.length || matchingCount;
+    const presetFetcher = useFetcher<typeof exportAction>();
+    const [format, setFormat] = useState<OrderExportFormat>("csv");
+    const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+    const [presetId, setPresetId] = useState("");
+    const [presetName, setPresetName] = useState("");
+    const [isDownloading, setIsDownloading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isSavingPreset = presetFetcher.state !== "idle";
+
+    useEffect(() => {
+        if (presetFetcher.state !== "idle" || !presetFetcher.data) return;
+        if (!presetFetcher.data.success) {
+            setError(presetFetcher.data.error || "Could not update presets");
+        } else if ("preset" in presetFetcher.data && presetFetcher.data.preset) {
+            setPresetId(presetFetcher.data.preset.id);
+            setError(null);
+        } else if (presetFetcher.data.intent === "delete_preset") {
+            setPresetId("");
+            setPresetName("");
+        }
+    }, [presetFetcher.state, presetFetcher.data]);
+
+    const addableColumns = useMemo(() => [
+        ...ORDER_EXPORT_COLUMNS.filter((column) => !columns.includes(column.key)),
+        ...customFieldLabels
+            .map((label) => ({ key: customFieldColumnKey(label), label: `Custom field: ${label}` }))
+            .filter((column) => !columns.includes(column.key)),
+    ], [columns, customFieldLabels]);
+
+    const loadPreset = (id: string) => {
+        setPresetId(id);
+        const preset = presets.find((p) => p.id === id);
+        if (preset) {
+            setFormat(preset.format);
+            setColumns(preset.columns);
+            setPresetName(preset.name);
+        }
+    };
+
+    const moveColumn = (index: number, offset: number) => {
+        setColumns((prev) => {
+            const next = [...prev];
+            const [column] = next.splice(index, 1);
+            next.splice(index + offset, 0, column);
+            return next;
+        });
+    };
+
+    const handleDownload = async () => {
+        setIsDownloading(true);
+        setError(null);
+        try {
+            const params = new URLSearchParams(filterQuery);
+            params.set("format", format);
+            columns.forEach((column) => params.append("col", column));
+            selectedOrderIds?.forEach((id) => params.append("id", id));
+
+            const response = await fetch(`/app/orders/export?${params.toString()}`);
+            if (!response.ok) {
+                throw new Error(`Export failed (${response.status})`);
+            }
+            const blob = await response.blob();
+            const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || `orders.${format}`;
+
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = fileName;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            URL.revokeObjectURL(url);
+            onClose();
+        } catch (e) {
+            setError((e instanceof Error && e.message) || "Export failed");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    return (
+        <Modal
+            open={open}
+            onClose={onClose}
+            title="Export orders"
+            primaryAction={{
+                content: `Download ${format.toUpperCase()}`,
+                onAction: handleDownload,
+                loading: isDownloading,
+                disabled: columns.length === 0 || exportCount === 0,
+            }}
+            secondaryActions={[{ content: "Cancel", onAction: onClose, disabled: isDownloading }]}
+        >
+            <Modal.Section>
+                <BlockStack gap="400">
+                    {error && (
+                        <Banner tone="critical" onDismiss={() => setError(null)}>
+                            <p>{error}</p>
+                        </Banner>
+                    )}
+                    <Text as="p" tone="subdued">
+                        {selectedOrderIds?.length
+                            ? `The ${exportCount} selected order${exportCount === 1 ? "" : "s"} will be exported.`
+                            : `${exportCount} order${exportCount === 1 ? "" : "s"} matching the current filters will be exported.`}
+                    </Text>
+                    <InlineStack gap="300" wrap={false}>
+                        <div style={{ flex: 1 }}>
+                            <Select
+                                label="Preset"
+                                options={[
+                                    { label: presets.length > 0 ? "Custom layout" : "No saved presets", value: "" },
+                                    ...presets.map((p) => ({ label: p.name, value: p.id })),
+                                ]}
+                                value={presetId}
+                                onChange={loadPreset}
+                            />
+                        </div>
+                        <div style={{ flex: 1 }}>
+                            <Select
+                                label="Format"
+                                options={[
+                                    { label: "CSV", value: "csv" },
+                                    { label: "Excel (XLSX)", value: "xlsx" },
+                                ]}
+                                value={format}
+                                onChange={(value) => setFormat(value as OrderExportFormat)}
+                            />
+                        </div>
+                    </InlineStack>
+                </BlockStack>
+            </Modal.Section>
+            <Modal.Section>
+                <BlockStack gap="300">
+                    <InlineStack align="space-between" blockAlign="center">
+                        <Text as="h3" variant="headingSm">{`Columns (${columns.length})`}</Text>
+                        <Button variant="plain" onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}>Reset to default</Button>
+                    </InlineStack>
+                    <BlockStack gap="100">
+                        {columns.map((column, index) => (
+                            <div
+                                key={column}
+                                style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: "6px 10px", border: "1px solid #e5e7eb", borderRadius: "8px" }}
+                            >
+                                <Text as="span" variant="bodySm">{`${index + 1}. ${getExportColumnLabel(column)}`}</Text>
+                                <InlineStack gap="100">
+                                    <Button icon={ArrowUpIcon} variant="tertiary" size="slim" accessibilityLabel="Move up" disabled={index === 0} onClick={() => moveColumn(index, -1)} />
+                                    <Button icon={ArrowDownIcon} variant="tertiary" size="slim" accessibilityLabel="Move down" disabled={index === columns.length - 1} onClick={() => moveColumn(index, 1)} />
+                                    <Button icon={XIcon} variant="tertiary" size="slim" accessibilityLabel="Remove column" onClick={() => setColumns((prev) => prev.filter((c) => c !== column))} />
+                                </InlineStack>
+                            </div>
+                        ))}
+                    </BlockStack>
+                    {addableColumns.length > 0 && (
+                        <Select
+                            label="Add column"
+                            options={[{ label: "Choose a column…", value: "" }, ...addableColumns.map((c) => ({ label: c.label, value: c.key }))]}
+                            value=""
+                            onChange={(value) => { if (value) setColumns((prev) => [...prev, value]); }}
+                        />
+                    )}
+                </BlockStack>
+            </Modal.Section>
+            <Modal.Section>
+                <InlineStack gap="200" blockAlign="end" wrap={false}>
+                    <div style={{ flex: 1 }}>
+                        <TextField
+                            label="Save this layout as a preset"
+                            placeholder="e.g. Delhivery manifest"
+                            value={presetName}
+                            onChange={setPresetName}
+                            autoComplete="off"
+                        />
+                    </div>
+                    <Button
+                        onClick={() => presetFetcher.submit(
+                            { intent: "save_preset", name: presetName, format, columns: JSON.stringify(columns) },
+                            { method: "post", action: "/app/orders/export" }
+                        )}
+                        loading={isSavingPreset && presetFetcher.formData?.get("intent") === "save_preset"}
+                        disabled={!presetName.trim() || columns.length === 0}
+                    >
+                        Save preset
+                    </Button>
+                    {presetId && (
+                        <Button
+                            tone="critical"
+                            variant="plain"
+                            onClick={() => presetFetcher.submit(
+                                { intent: "delete_preset", presetId },
+                                { method: "post", action: "/app/orders/export" }
+                            )}
+                            disabled={isSavingPreset}
+                        >
+                            Delete
+                        </Button>
+                    )}
+                </InlineStack>
+            </Modal.Section>
+        </Modal>
+    );
+}
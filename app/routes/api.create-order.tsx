@@ -10,9 +10,11 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
 import {
     getFormSettings,
+    logOrder,
     logOrderWithShopifyIds,
+    type OrderLogEntry,
 } from "../config/supabase.server";
-import { getFraudProtectionSettings, validateOrderAgainstFraudRulesWithSettings } from "../services/fraud-protection.server";
+import { getFraudProtectionSettings, recordVelocity, shouldHoldOrder, toFraudLogFields, validateOrderAgainstFraudRulesWithSettings, type OrderValidationData } from "../services/fraud-protection.server";
 import {
     toNumericVariantId,
     formatPhoneE164,
@@ -22,12 +24,14 @@ import {
 import { calculateOrderPricing, normalizeCouponCode, validateCouponForShop } from "../services/coupons.server";
 import { getPartialPaymentSettings } from "../services/partial-payment-settings.server";
 import { createPendingOrder } from "../services/shopify-graphql-orders.server";
+import { isOrderOtpPending } from "../services/otp.server";
 import { validatePlanBeforeOrder, planLimitResponseBody } from "../services/billing/plan-enforcement.server";
 import {
     resolveCountryForOrder,
     getContextualPricesForVariants,
     assertPricingConsistency,
 } from "../services/contextual-pricing.server";
+import { normalizePhoneNumber, validatePhoneNumber } from "../utils/phone";
 
 // CORS headers for storefront requests
 const corsHeaders = {
@@ -71,6 +75,8 @@ interface OrderRequestBody {
         value?: string | number | null;
     }>;
     couponCode?: string;
+    order_source?: string;
+    device_fingerprint?: string;
     [key: string]: any;
 }
 
@@ -191,7 +197,7 @@ function normalizeCustomerFields(body: any): NormalizedCustomerFields {
 /**
  * Validate order input
  */
-function validateOrderInput(body: OrderRequestBody, formSettings: any, customer: NormalizedCustomerFields): string | null {
+function validateOrderInput(body: OrderRequestBody, formSettings: any, customer: NormalizedCustomerFields, orderCountry: string): string | null {
     const requiredFields = formSettings?.required_fields || ["name", "phone", "address"];
     const quantity = Number(body.quantity || 0);
 
@@ -206,9 +212,10 @@ function validateOrderInput(body: OrderRequestBody, formSettings: any, customer:
         return "Delivery address is required";
     }
 
-    // Validate phone format (basic validation)
-    if (customer.phone && !/^[\d\s\+\-\(\)]{8,15}$/.test(customer.phone)) {
-        return "Invalid phone number format";
+    // Validate phone for the order's country (also rejects 9999999999-style fakes)
+    if (customer.phone) {
+        const phoneCheck = validatePhoneNumber(customer.phone, orderCountry);
+        if (!phoneCheck.valid) return phoneCheck.error;
     }
 
     // Validate quantity
@@ -328,7 +335,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         }
 
         // Validate input
-        const validationError = validateOrderInput(body, formSettings, customer);
+        const validationError = validateOrderInput(body, formSettings, customer, orderCountry);
         if (validationError) {
             return Response.json(
                 { success: false, error: validationError },
@@ -336,6 +343,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             );
         }
 
+        // Store E.164 so velocity limits and customer lookups match however the number was typed
+        customer.phone = normalizePhoneNumber(customer.phone, orderCountry) || customer.phone;
+
         // ── 2. FRAUD CHECKS ──
         const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
             || request.headers.get('cf-connecting-ip')
@@ -343,14 +353,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             || request.headers.get('x-shopify-client-ip')
             || '';
 
-        const fraudResult = await validateOrderAgainstFraudRulesWithSettings({
+        const pricing = calculateOrderPricing(body, partialPaymentSettings, contextualResult.prices);
+
+        // Phone OTP comes first, as on the storefront order routes, so the
+        // submit that asks for a code doesn't leave anything behind in the
+        // fraud rules. The caller verifies through the proxy's otp/send +
+        // otp/verify and resubmits with otp_challenge_id.
+        const otpPending = await isOrderOtpPending(fraudSettings, {
+            phone: customer.phone,
+            email: customer.email,
+            ip: clientIp,
+            zipcode: customer.zipcode,
+            address: customer.address,
+            quantity: Number(body.quantity || 0),
+            deviceFingerprint: body.device_fingerprint,
+            cartValue: pricing.originalTotal,
+            challengeId: body.otp_challenge_id,
+            shopDomain: body.shop,
+        });
+        if (otpPending) {
+            return Response.json(
+                { success: false, otpRequired: true, error: "Please verify your phone number to place this order." },
+                { status: 403, headers: corsHeaders }
+            );
+        }
+
+        const fraudOrder: OrderValidationData = {
             phone: customer.phone,
             email: customer.email,
             ip: clientIp,
             zipcode: customer.zipcode,
+            address: customer.address,
             quantity: Number(body.quantity || 0),
+            paymentMethod: 'cod',
+            cartValue: pricing.originalTotal,
+            orderSource: body.order_source,
+            deviceFingerprint: body.device_fingerprint,
             shopDomain: body.shop,
-        }, fraudSettings);
+        };
+        const fraudResult = await validateOrderAgainstFraudRulesWithSettings(fraudOrder, fraudSettings);
         if (!fraudResult.allowed) {
             console.warn('[COD Order] Blocked by fraud protection:', fraudResult.message);
             return Response.json(
@@ -363,7 +404,6 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         // ── 3. BUILD SHOPIFY PAYLOAD ──
         const shippingPrice = body.shippingPrice || 0;
         const discountPercent = body.discountPercent || 0;
-        const pricing = calculateOrderPricing(body, partialPaymentSettings, contextualResult.prices);
         let totalPrice = pricing.originalTotal;
         let couponDiscount = 0;
         let couponType: "percentage" | "fixed" | null = null;
@@ -446,7 +486,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             });
         }
 
-        const formattedPhone = formatPhoneE164(customer.phone || '');
+        const formattedPhone = formatPhoneE164(customer.phone || '', orderCountry);
         const shippingLabel = body.shippingLabel || (shippingPrice > 0 ? 'Shipping' : 'Free Shipping');
 
         // ── SAFETY: cap discount to never exceed the order total ──
@@ -540,6 +580,54 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             totalPrice
         });
 
+        const orderLogFields: OrderLogEntry = {
+            shop_domain: body.shop,
+            customer_name: customer.name,
+            customer_phone: customer.phone,
+            customer_address: customer.address,
+            customer_email: customer.email || undefined,
+            product_id: normalizedProductId,
+            product_title: body.productTitle,
+            variant_id: body.variantId,
+            quantity: body.quantity,
+            price: totalPrice.toString(),
+            notes: orderNotes || undefined,
+            city: customer.city || undefined,
+            state: customer.state || undefined,
+            pincode: customer.zipcode || undefined,
+            shipping_label: body.shippingLabel || undefined,
+            shipping_price: shippingPrice || undefined,
+            coupon_code: couponCode || undefined,
+            discount_amount: couponDiscount || undefined,
+            original_total: pricing.originalTotal,
+            final_total: totalPrice,
+            currency: currencyCode,
+            order_payload: {
+                ...body,
+                couponCode: couponCode || '',
+                discountAmount: couponDiscount,
+                originalTotal: pricing.originalTotal,
+                finalTotal: totalPrice,
+            },
+            ...toFraudLogFields(fraudResult),
+        };
+
+        // ── 4a. HELD FOR REVIEW: save with payload, push to Shopify on approval ──
+        if (shouldHoldOrder(fraudResult)) {
+            const heldOrder = await logOrder({ ...orderLogFields, review_status: 'pending' });
+            recordVelocity(fraudOrder, fraudSettings).catch(() => {});
+            console.warn('[COD Order] Held for manual review:', heldOrder.id, 'score', fraudResult.score);
+
+            return Response.json({
+                success: true,
+                orderType: 'cod',
+                held: true,
+                orderId: heldOrder.id,
+                orderName: heldOrder.shopify_order_name,
+                message: 'Your order has been received and is being reviewed. We will contact you to confirm it.',
+            }, { headers: corsHeaders });
+        }
+
         // ========================================================
         // LEGACY DIRECT COD ORDER FLOW
         // Temporarily disabled for Shopify App Review compliance.
@@ -570,36 +658,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         }
 
         // ── 5. SAVE ORDER TO DB (with Shopify IDs) ──
-        const orderLog = await logOrderWithShopifyIds({
-            shop_domain: body.shop,
-            customer_name: customer.name,
-            customer_phone: customer.phone,
-            customer_address: customer.address,
-            customer_email: customer.email || undefined,
-            product_id: normalizedProductId,
-            product_title: body.productTitle,
-            variant_id: body.variantId,
-            quantity: body.quantity,
-            price: totalPrice.toString(),
-            notes: orderNotes || undefined,
-            city: customer.city || undefined,
-            state: customer.state || undefined,
-            pincode: customer.zipcode || undefined,
-            shipping_label: body.shippingLabel || undefined,
-            shipping_price: shippingPrice || undefined,
-            coupon_code: couponCode || undefined,
-            discount_amount: couponDiscount || undefined,
-            original_total: pricing.originalTotal,
-            final_total: totalPrice,
-            currency: currencyCode,
-            order_payload: {
-                ...body,
-                couponCode: couponCode || '',
-                discountAmount: couponDiscount,
-                originalTotal: pricing.originalTotal,
-                finalTotal: totalPrice,
-            },
-        }, shopifyOrderId, shopifyOrderName);
+        const orderLog = await logOrderWithShopifyIds(orderLogFields, shopifyOrderId, shopifyOrderName);
+        recordVelocity(fraudOrder, fraudSettings).catch(() => {});
 
         console.log("⏱ [COD Order] Total time:", Date.now() - start, "ms");
 
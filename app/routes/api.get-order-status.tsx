@@ -1,12 +1,12 @@
 /**
  * Get Order Status API
- * Route: GET /api/get-order-status?orderId=XXX
+ * Route: GET /api/get-order-status?shop=XXX&orderId=XXX
  *
  * Used by storefront to poll for Shopify order ID after background sync completes.
  */
 
 import type { LoaderFunctionArgs } from "react-router";
-import { supabase } from "../config/supabase.server";
+import { getOrderSyncStatus } from "../config/supabase.server";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -21,23 +21,19 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     const url = new URL(request.url);
     const orderId = url.searchParams.get("orderId");
+    const shop = url.searchParams.get("shop");
 
-    if (!orderId) {
-        return Response.json({ success: false, error: "orderId is required" }, { headers: corsHeaders });
+    if (!orderId || !shop) {
+        return Response.json({ success: false, error: "shop and orderId are required" }, { headers: corsHeaders });
     }
 
-    const { data, error } = await supabase
-        .from("order_logs")
-        .select("shopify_order_id, shopify_order_name, sync_status")
-        .eq("id", orderId)
-        .single();
-
-    if (error || !data) {
+    const order = await getOrderSyncStatus(shop, orderId);
+    if (!order) {
         return Response.json({ success: false }, { headers: corsHeaders });
     }
 
     return Response.json({
         success: true,
-        order: data,
+        order,
     }, { headers: corsHeaders });
 };
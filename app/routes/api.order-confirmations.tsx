@@ -0,0 +1,41 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { expireOrderConfirmations } from "../services/order-confirmation.server";
+
+/**
+ * Route: /api/order-confirmations
+ * Purpose: Periodically called by a cron job (every 15–30 minutes is plenty)
+ * to flag or cancel COD orders whose customers never answered the
+ * WhatsApp/SMS confirmation message. Covers every shop in one call.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    return handleRequest(request);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+    return handleRequest(request);
+};
+
+async function handleRequest(request: Request) {
+    // No fallback secret: an unconfigured deploy must not expose the sweep
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+        console.error("[Confirmation] No CRON_SECRET set — refusing to run the expiry sweep");
+        return new Response("Unauthorized", { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const secret = url.searchParams.get("secret") || request.headers.get("Authorization")?.replace("Bearer ", "");
+
+    if (secret !== cronSecret) {
+        return new Response("Unauthorized", { status: 401 });
+    }
+
+    try {
+        const result = await expireOrderConfirmations();
+        console.log("[Confirmation] Expiry sweep:", result);
+        return Response.json({ success: true, ...result });
+    } catch (error) {
+        console.error("[Confirmation] Expiry sweep failed:", error);
+        return Response.json({ success: false, error: error instanceof Error ? error.message : "Sweep failed" }, { status: 500 });
+    }
+}
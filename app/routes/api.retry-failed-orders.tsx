@@ -55,7 +55,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             if (!order) {
                 return Response.json({ success: false, error: 'Order not retryable (already synced, max attempts, or not ready)' }, { status: 400 });
             }
-            await createShopifyOrderBackground(String(order.id));
+            await createShopifyOrderBackground(shopDomain, String(order.id));
             retried = 1;
         } catch (err: any) {
             console.error('[Retry] Single order failed:', err?.message);
@@ -66,7 +66,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         const orders = await getRetryableOrders(shopDomain);
         for (const order of orders) {
             try {
-                await createShopifyOrderBackground(String(order.id));
+                await createShopifyOrderBackground(shopDomain, String(order.id));
                 retried++;
             } catch (err: any) {
                 console.error('[Retry] Order', order.id, 'failed:', err?.message);
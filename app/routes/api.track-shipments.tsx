@@ -0,0 +1,42 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { refreshActiveShipments } from "../services/shipments.server";
+
+/**
+ * Route: /api/track-shipments
+ * Purpose: Periodically called by a cron job (hourly is plenty) to pull
+ * courier tracking for booked shipments and move their delivery status.
+ * Each shipment is checked at most every two hours. Covers every shop with
+ * a courier connected in one call.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    return handleRequest(request);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+    return handleRequest(request);
+};
+
+async function handleRequest(request: Request) {
+    // No fallback secret: an unconfigured deploy must not expose the sweep
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+        console.error("[Shipments] No CRON_SECRET set — refusing to run the tracking sweep");
+        return new Response("Unauthorized", { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const secret = url.searchParams.get("secret") || request.headers.get("Authorization")?.replace("Bearer ", "");
+
+    if (secret !== cronSecret) {
+        return new Response("Unauthorized", { status: 401 });
+    }
+
+    try {
+        const result = await refreshActiveShipments();
+        console.log("[Shipments] Tracking sweep:", result);
+        return Response.json({ success: true, ...result });
+    } catch (error) {
+        console.error("[Shipments] Tracking sweep failed:", error);
+        return Response.json({ success: false, error: error instanceof Error ? error.message : "Sweep failed" }, { status: 500 });
+    }
+}
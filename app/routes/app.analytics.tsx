@@ -12,6 +12,8 @@ import { useLoaderData, useNavigate, useSearchParams } from "react-router";
 import { authenticate } from "../shopify.server";
 import { supabase, getAnalyticsStats } from "../config/supabase.server";
 import { AnalyticsIntegrationsTabs } from "./AnalyticsIntegrationsTabs";
+import { ORDER_LINE_ITEM_SOURCES, type OrderLineItemSource } from "../utils/order-line-items";
+import { getNdrStats, type NdrStats } from "../services/ndr.server";
 import {
     Page,
     Layout,
@@ -67,6 +69,8 @@ interface AnalyticsData {
     prepaidDiscountOrdersCount: number;
     prepaidDiscountsTotal: number;
     prepaidAvgDiscount: number;
+    itemSalesBySource: Record<OrderLineItemSource, { units: number; revenue: number }>;
+    topProducts: { title: string; units: number; revenue: number }[];
 }
 
 
@@ -135,11 +139,28 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
             prepaidDiscountOrdersCount: 0,
             prepaidDiscountsTotal: 0,
             prepaidAvgDiscount: 0,
+            itemSalesBySource: {
+                main: { units: 0, revenue: 0 },
+                bundle: { units: 0, revenue: 0 },
+                upsell: { units: 0, revenue: 0 },
+                downsell: { units: 0, revenue: 0 },
+            },
+            topProducts: [],
         };
     }
 
+    // Failed deliveries opened in the same period
+    let ndrStats: NdrStats;
+    try {
+        ndrStats = await getNdrStats(shop, createdAtMin);
+    } catch (error) {
+        console.error("[Analytics] Error fetching NDR stats:", error);
+        ndrStats = { total: 0, open: 0, delivered: 0, rto: 0, rtoRate: 0, byReason: [] };
+    }
+
     return { 
         ...metrics, 
+        ndrStats,
         shopCurrency, 
         selectedDays, 
     };
@@ -175,6 +196,9 @@ export default function AnalyticsPage() {
         prepaidDiscountOrdersCount,
         prepaidDiscountsTotal,
         prepaidAvgDiscount,
+        itemSalesBySource,
+        topProducts,
+        ndrStats,
     } = data;
 
     // Currency formatter
@@ -417,6 +441,47 @@ export default function AnalyticsPage() {
                     </BlockStack>
                 </Card>
 
+                {/* ─── Item Sales ─── */}
+                <Card>
+                    <BlockStack gap="400">
+                        <Text as="h2" variant="headingMd">
+                            Item Sales
+                        </Text>
+                        <InlineGrid columns={4} gap="400">
+                            {(Object.keys(ORDER_LINE_ITEM_SOURCES) as OrderLineItemSource[]).map((source) => (
+                                <Box key={source} background="bg-surface-secondary" padding="400" borderRadius="200">
+                                    <BlockStack gap="200">
+                                        <Text as="p" variant="bodySm" tone="subdued">{ORDER_LINE_ITEM_SOURCES[source].label}</Text>
+                                        <Text as="p" variant="headingLg" fontWeight="bold">
+                                            {formatCurrency(itemSalesBySource[source].revenue)}
+                                        </Text>
+                                        <Text as="p" variant="bodySm" tone="subdued">
+                                            {itemSalesBySource[source].units} unit{itemSalesBySource[source].units === 1 ? "" : "s"}
+                                        </Text>
+                                    </BlockStack>
+                                </Box>
+                            ))}
+                        </InlineGrid>
+                        {topProducts.length > 0 && (
+                            <BlockStack gap="200">
+                                <Text as="h3" variant="headingSm">
+                                    Top Products
+                                </Text>
+                                {topProducts.map((product, index) => (
+                                    <InlineStack key={`${index}-${product.title}`} align="space-between">
+                                        <Text as="span" variant="bodySm">
+                                            {product.title}
+                                        </Text>
+                                        <Text as="span" variant="bodySm" fontWeight="semibold">
+                                            {formatCurrency(product.revenue)} · {product.units} sold
+                                        </Text>
+                                    </InlineStack>
+                                ))}
+                            </BlockStack>
+                        )}
+                    </BlockStack>
+                </Card>
+
                 {/* ─── Quick Insights ─── */}
                 <Layout>
                     <Layout.Section variant="oneThird">
@@ -590,6 +655,74 @@ export default function AnalyticsPage() {
                     </BlockStack>
                 </Card>
 
+                {/* ─── Failed Deliveries (NDR) Section ─── */}
+                {ndrStats.total > 0 && (
+                    <Card>
+                        <BlockStack gap="400">
+                            <InlineStack align="space-between" blockAlign="center">
+                                <Text as="h2" variant="headingMd">
+                                    Failed Deliveries (NDR)
+                                </Text>
+                                <Badge tone={ndrStats.open > 0 ? "critical" : "success"}>
+                                    {ndrStats.open > 0 ? `${ndrStats.open} open` : "All handled"}
+                                </Badge>
+                            </InlineStack>
+                            <Text as="p" variant="bodySm" tone="subdued">
+                                Orders the courier could not deliver on the first attempt, and how they ended.
+                            </Text>
+                            <InlineGrid columns={3} gap="400">
+                                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                                    <BlockStack gap="200">
+                                        <Text as="p" variant="bodySm" tone="subdued">Failed Deliveries</Text>
+                                        <Text as="p" variant="heading2xl" fontWeight="bold">{ndrStats.total}</Text>
+                                        <Text as="p" variant="bodySm" tone="subdued">
+                                            {selectedDays === "all" ? "All time" : `Last ${selectedDays} days`}
+                                        </Text>
+                                    </BlockStack>
+                                </Box>
+                                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                                    <BlockStack gap="200">
+                                        <Text as="p" variant="bodySm" tone="subdued">Delivered After NDR</Text>
+                                        <Text as="p" variant="heading2xl" fontWeight="bold">{ndrStats.delivered}</Text>
+                                        <Text as="p" variant="bodySm" tone="subdued">Saved by a reattempt</Text>
+                                    </BlockStack>
+                                </Box>
+                                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                                    <BlockStack gap="200">
+                                        <Text as="p" variant="bodySm" tone="subdued">NDR to RTO</Text>
+                                        <Text as="p" variant="heading2xl" fontWeight="bold">{`${ndrStats.rtoRate}%`}</Text>
+                                        <Text as="p" variant="bodySm" tone="subdued">
+                                            {`${ndrStats.rto} of ${ndrStats.delivered + ndrStats.rto} closed cases returned`}
+                                        </Text>
+                                    </BlockStack>
+                                </Box>
+                            </InlineGrid>
+                            <BlockStack gap="300">
+                                {ndrStats.byReason.map((item) => {
+                                    const closed = item.delivered + item.rto;
+                                    return (
+                                        <BlockStack key={item.reason} gap="100">
+                                            <InlineStack align="space-between">
+                                                <Text as="span" variant="bodySm">
+                                                    {item.label}
+                                                </Text>
+                                                <Text as="span" variant="bodySm" fontWeight="semibold">
+                                                    {`${item.total} · ${closed > 0 ? `${Math.round((item.rto / closed) * 100)}% RTO` : "none closed"}`}
+                                                </Text>
+                                            </InlineStack>
+                                            <ProgressBar
+                                                progress={closed > 0 ? Math.round((item.rto / closed) * 100) : 0}
+                                                size="small"
+                                                tone="critical"
+                                            />
+                                        </BlockStack>
+                                    );
+                                })}
+                            </BlockStack>
+                        </BlockStack>
+                    </Card>
+                )}
+
                 <Box paddingBlockEnd="800" />
             </BlockStack>
         </Page>
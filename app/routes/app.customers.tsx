@@ -0,0 +1,238 @@
+/**
+ * Customers - Everyone who has ordered, grouped by phone number
+ * Route: /app/customers
+ *
+ * Order counts, RTO rate, lifetime revenue and block status per customer
+ * (see services/customers). Each row opens the customer's profile.
+ */
+
+import { useState, useEffect } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useNavigate, Link } from "react-router";
+import { Page, Card, BlockStack, InlineStack, Text, Badge, Button, TextField, Select, Pagination, Box, EmptyState } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { getCustomers, CUSTOMERS_PAGE_SIZE, type CustomerSort } from "../services/customers.server";
+
+const CUSTOMER_SORTS: { value: CustomerSort; label: string }[] = [
+    { value: "last_order", label: "Last order" },
+    { value: "orders", label: "Most orders" },
+    { value: "revenue", label: "Lifetime revenue" },
+    { value: "rto_rate", label: "Highest RTO rate" },
+];
+
+/**
+ * Loader: Fetch one page of customers
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const { admin, session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+
+    // Query shop currency from Shopify Admin API
+    let shopCurrency = 'USD';
+    try {
+        const currencyRes = await admin.graphql(`{ shop { currencyCode } }`);
+        const currencyData = await currencyRes.json();
+        shopCurrency = currencyData?.data?.shop?.currencyCode || 'USD';
+    } catch (e) { console.log('Error fetching shop currency:', e); }
+
+    const url = new URL(request.url);
+    const search = url.searchParams.get("q") || "";
+    const requestedSort = url.searchParams.get("sort") as CustomerSort | null;
+    const sort = CUSTOMER_SORTS.some((s) => s.value === requestedSort) ? requestedSort as CustomerSort : "last_order";
+    const page = Math.max(1, parseInt(url.searchParams.get("page") || "1") || 1);
+
+    const { customers, totalCount } = await getCustomers(shopDomain, { search, sort, page });
+
+    return {
+        customers,
+        totalCount,
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / CUSTOMERS_PAGE_SIZE),
+        search,
+        sort,
+        shopCurrency,
+    };
+};
+
+/**
+ * Customers Component
+ */
+export default function CustomersPage() {
+    const { customers, totalCount, currentPage, totalPages, search, sort, shopCurrency } = useLoaderData<typeof loader>();
+    const navigate = useNavigate();
+
+    // Search is applied on Enter / Search, not on every keystroke
+    const [searchInput, setSearchInput] = useState(search);
+    useEffect(() => {
+        setSearchInput(search);
+    }, [search]);
+
+    const applyFilters = (changes: { q?: string; sort?: string; page?: number }) => {
+        const params = new URLSearchParams();
+        const next = { q: search, sort, page: 1, ...changes };
+        if (next.q) params.set("q", next.q);
+        if (next.sort !== "last_order") params.set("sort", next.sort);
+        if (next.page > 1) params.set("page", String(next.page));
+        const query = params.toString();
+        navigate(query ? `/app/customers?${query}` : "/app/customers");
+    };
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat(undefined, {
+            style: "currency",
+            currency: shopCurrency || "USD",
+            minimumFractionDigits: 0,
+        }).format(amount);
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleDateString("en-IN", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+        });
+    };
+
+    return (
+        <Page
+            title="Customers"
+            subtitle={`${totalCount} ${totalCount === 1 ? 'customer' : 'customers'}`}
+            backAction={{ content: 'Dashboard', onAction: () => navigate('/app') }}
+            secondaryActions={[{ content: 'Orders', onAction: () => navigate('/app/orders') }]}
+        >
+            <style>{`
+                .customers-table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    font-size: 13px;
+                }
+
+                .customers-table th {
+                    text-align: left;
+                    font-weight: 600;
+                    color: #6b7280;
+                    padding: 10px 12px;
+                    border-bottom: 1px solid #e5e7eb;
+                    white-space: nowrap;
+                }
+
+                .customers-table td {
+                    padding: 12px;
+                    border-bottom: 1px solid #f3f4f6;
+                    vertical-align: top;
+                }
+
+                .customers-table .numeric {
+                    text-align: right;
+                    white-space: nowrap;
+                }
+
+                .customers-table tbody tr:hover {
+                    background: #f9fafb;
+                }
+            `}</style>
+            <BlockStack gap="400">
+                <Card>
+                    <form onSubmit={(e) => { e.preventDefault(); applyFilters({ q: searchInput.trim() }); }}>
+                        <InlineStack gap="300" blockAlign="end" wrap>
+                            <div style={{ flex: 1, minWidth: '240px' }}>
+                                <TextField
+                                    label="Search"
+                                    labelHidden
+                                    value={searchInput}
+                                    onChange={setSearchInput}
+                                    placeholder="Name, phone or email"
+                                    autoComplete="off"
+                                    clearButton
+                                    onClearButtonClick={() => applyFilters({ q: "" })}
+                                />
+                            </div>
+                            <Button submit>Search</Button>
+                            <Select
+                                label="Sort by"
+                                labelInline
+                                options={CUSTOMER_SORTS}
+                                value={sort}
+                                onChange={(value) => applyFilters({ sort: value })}
+                            />
+                        </InlineStack>
+                    </form>
+                </Card>
+
+                <Card padding="0">
+                    {customers.length === 0 ? (
+                        <EmptyState heading={search ? "No customers match your search" : "No customers yet"} image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png">
+                            <p>Customers appear here once they place a COD order.</p>
+                        </EmptyState>
+                    ) : (
+                        <div style={{ overflowX: 'auto' }}>
+                            <table className="customers-table">
+                                <thead>
+                                    <tr>
+                                        <th>Customer</th>
+                                        <th className="numeric">Orders</th>
+                                        <th className="numeric">Delivered</th>
+                                        <th className="numeric">Returned</th>
+                                        <th className="numeric">Cancelled</th>
+                                        <th className="numeric">RTO rate</th>
+                                        <th className="numeric">Lifetime revenue</th>
+                                        <th>Last order</th>
+                                        <th>Status</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {customers.map((customer) => (
+                                        <tr key={customer.phoneKey}>
+                                            <td>
+                                                <BlockStack gap="050">
+                                                    <Link to={`/app/customers/${customer.phoneKey}`}>{customer.name || customer.phone}</Link>
+                                                    <Text as="span" variant="bodySm" tone="subdued">
+                                                        {[customer.phone, customer.email, customer.city].filter(Boolean).join(' · ')}
+                                                    </Text>
+                                                </BlockStack>
+                                            </td>
+                                            <td className="numeric">{customer.totalOrders}</td>
+                                            <td className="numeric">{customer.deliveredCount}</td>
+                                            <td className="numeric">{customer.returnedCount}</td>
+                                            <td className="numeric">{customer.cancelledCount}</td>
+                                            <td className="numeric">
+                                                {customer.rtoRate == null ? '—' : (
+                                                    <Text as="span" tone={customer.rtoRate >= 50 ? "critical" : customer.rtoRate > 0 ? "caution" : undefined}>
+                                                        {`${customer.rtoRate}%`}
+                                                    </Text>
+                                                )}
+                                            </td>
+                                            <td className="numeric">{formatCurrency(customer.lifetimeRevenue)}</td>
+                                            <td>{customer.lastOrderAt ? formatDate(customer.lastOrderAt) : '—'}</td>
+                                            <td>
+                                                {customer.block.blocked ? (
+                                                    <Badge tone="critical">{customer.block.source === "rto_history" ? "Auto-blocked" : "Blocked"}</Badge>
+                                                ) : (
+                                                    <Badge>Active</Badge>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </Card>
+
+                {totalPages > 1 && (
+                    <InlineStack align="center">
+                        <Pagination
+                            hasPrevious={currentPage > 1}
+                            onPrevious={() => applyFilters({ page: currentPage - 1 })}
+                            hasNext={currentPage < totalPages}
+                            onNext={() => applyFilters({ page: currentPage + 1 })}
+                            label={`Page ${currentPage} of ${totalPages}`}
+                        />
+                    </InlineStack>
+                )}
+
+                <Box paddingBlockEnd="800" />
+            </BlockStack>
+        </Page>
+    );
+}
@@ -0,0 +1,207 @@
+/**
+ * Customer Profile - One customer's details, stats and every order
+ * Route: /app/customers/:key (key = last 10 digits of the phone)
+ */
+
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useEffect } from "react";
+import { useLoaderData, useFetcher, useNavigate, Link, redirect } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { Page, Card, BlockStack, InlineStack, InlineGrid, Text, Badge, Banner, Box } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { ORDER_STATUSES, DELIVERY_STATUSES } from "../config/constants";
+import { getCustomerProfile } from "../services/customers.server";
+import { blockCustomer } from "../services/fraud-protection.server";
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+    cod: "COD",
+    partial_cod: "Partial COD",
+    full_prepaid: "Prepaid",
+    native_cod: "COD (Shopify)",
+};
+
+/**
+ * Loader: Fetch the customer's profile and orders
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+    const { admin, session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+
+    // Query shop currency from Shopify Admin API
+    let shopCurrency = 'USD';
+    try {
+        const currencyRes = await admin.graphql(`{ shop { currencyCode } }`);
+        const currencyData = await currencyRes.json();
+        shopCurrency = currencyData?.data?.shop?.currencyCode || 'USD';
+    } catch (e) { console.log('Error fetching shop currency:', e); }
+
+    const profile = params.key ? await getCustomerProfile(shopDomain, params.key) : null;
+    if (!profile) {
+        throw redirect("/app/customers");
+    }
+
+    return { profile, shopCurrency };
+};
+
+/**
+ * Action: Add the customer's phone and email to the block lists
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const formData = await request.formData();
+    const intent = formData.get("intent") as string | null;
+
+    if (intent !== "block" || !params.key) {
+        return { success: false, intent, error: "Unknown action" };
+    }
+
+    try {
+        const profile = await getCustomerProfile(session.shop, params.key);
+        if (!profile) return { success: false, intent, error: "Customer not found" };
+        await blockCustomer(session.shop, { phone: profile.phone, email: profile.email });
+        return { success: true, intent };
+    } catch (error) {
+        console.error(`[Customers] Block failed for ${params.key}:`, error);
+        return { success: false, intent, error: error instanceof Error ? error.message : "Failed to block customer" };
+    }
+};
+
+/**
+ * Customer Profile Component
+ */
+export default function CustomerProfilePage() {
+    const { profile, shopCurrency } = useLoaderData<typeof loader>();
+    const navigate = useNavigate();
+    const shopify = useAppBridge();
+    const blockFetcher = useFetcher<typeof action>();
+    const { stats, block } = profile;
+
+    useEffect(() => {
+        const data = blockFetcher.data;
+        if (blockFetcher.state !== "idle" || !data?.intent) return;
+        if (!data.success) {
+            shopify.toast.show(`Error: ${data.error || "Something went wrong"}`, { isError: true });
+            return;
+        }
+        shopify.toast.show("Customer blocked");
+    }, [blockFetcher.state, blockFetcher.data, shopify]);
+
+    const handleBlock = () => {
+        if (!window.confirm("Block this customer? Their phone and email are added to your Fraud Protection block lists, so they can't place COD orders.")) return;
+        blockFetcher.submit({ intent: "block" }, { method: "post" });
+    };
+
+    const formatCurrency = (amount: number, currency?: string) => {
+        return new Intl.NumberFormat(undefined, {
+            style: "currency",
+            currency: currency || shopCurrency || "USD",
+            minimumFractionDigits: 0,
+        }).format(amount);
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleDateString("en-IN", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+        });
+    };
+
+    const statBoxes = [
+        { label: "Orders", value: String(stats.totalOrders) },
+        { label: "Delivered", value: String(stats.deliveredCount) },
+        { label: "Returned", value: String(stats.returnedCount) },
+        { label: "Cancelled", value: String(stats.cancelledCount) },
+        { label: "RTO rate", value: stats.rtoRate == null ? "—" : `${stats.rtoRate}%` },
+        { label: "Lifetime revenue", value: formatCurrency(stats.lifetimeRevenue) },
+    ];
+
+    return (
+        <Page
+            title={profile.name || profile.phone}
+            subtitle={[profile.phone, profile.email].filter(Boolean).join(' · ')}
+            titleMetadata={block.blocked ? <Badge tone="critical">Blocked</Badge> : undefined}
+            backAction={{ content: 'Customers', onAction: () => navigate('/app/customers') }}
+            secondaryActions={block.blocked ? [] : [{
+                content: 'Block customer',
+                destructive: true,
+                loading: blockFetcher.state !== "idle",
+                onAction: handleBlock,
+            }]}
+        >
+            <BlockStack gap="400">
+                {block.blocked && (
+                    <Banner tone="critical" action={{ content: 'Fraud Protection', onAction: () => navigate('/app/fraud-protection') }}>
+                        {block.source === "rto_history"
+                            ? `Automatically blocked for return history: ${block.reason}`
+                            : "This customer's phone or email is on your block list."}
+                    </Banner>
+                )}
+
+                <InlineGrid columns={{ xs: 2, md: 6 }} gap="300">
+                    {statBoxes.map((stat) => (
+                        <Card key={stat.label}>
+                            <BlockStack gap="100">
+                                <Text as="span" variant="bodySm" tone="subdued">{stat.label}</Text>
+                                <Text as="p" variant="headingMd">{stat.value}</Text>
+                            </BlockStack>
+                        </Card>
+                    ))}
+                </InlineGrid>
+
+                <Card>
+                    <BlockStack gap="200">
+                        <Text as="h2" variant="headingMd">Details</Text>
+                        <Text as="p">{[profile.address, profile.city, profile.state, profile.zipcode].filter(Boolean).join(', ') || 'No address saved'}</Text>
+                        <Text as="p" variant="bodySm" tone="subdued">
+                            {[
+                                stats.firstOrderAt && `Customer since ${formatDate(stats.firstOrderAt)}`,
+                                stats.lastOrderAt && `Last order ${formatDate(stats.lastOrderAt)}`,
+                            ].filter(Boolean).join(' · ')}
+                        </Text>
+                    </BlockStack>
+                </Card>
+
+                <Card>
+                    <BlockStack gap="300">
+                        <Text as="h2" variant="headingMd">{`Orders (${profile.stats.totalOrders})`}</Text>
+                        {profile.orders.length < profile.stats.totalOrders && (
+                            <Text as="p" variant="bodySm" tone="subdued">
+                                {`Showing the ${profile.orders.length} most recent`}
+                            </Text>
+                        )}
+                        {profile.orders.map((order) => {
+                            const statusInfo = ORDER_STATUSES.find((s) => s.value === (order.status || 'pending'));
+                            const deliveryInfo = DELIVERY_STATUSES.find((s) => s.value === order.shipment_status);
+                            return (
+                                <div key={order.id} style={{ borderTop: '1px solid #f3f4f6', paddingTop: '12px' }}>
+                                    <InlineStack align="space-between" blockAlign="center" gap="300" wrap>
+                                        <BlockStack gap="100">
+                                            <InlineStack gap="200" blockAlign="center">
+                                                <Link to={`/app/orders/${order.id}`}>{order.shopify_order_name || `#${order.id.slice(0, 8)}`}</Link>
+                                                {statusInfo && (
+                                                    <span style={{ fontSize: '12px', fontWeight: 600, color: statusInfo.color }}>{statusInfo.label}</span>
+                                                )}
+                                                {deliveryInfo && order.status !== 'delivered' && (
+                                                    <Text as="span" variant="bodySm" tone="subdued">{deliveryInfo.label}</Text>
+                                                )}
+                                            </InlineStack>
+                                            <Text as="span" variant="bodySm" tone="subdued">
+                                                {[formatDate(order.created_at), (order.payment_method && PAYMENT_METHOD_LABELS[order.payment_method]) || order.payment_method, [order.city, order.state].filter(Boolean).join(', ')].filter(Boolean).join(' · ')}
+                                            </Text>
+                                        </BlockStack>
+                                        <Text as="span" fontWeight="semibold">
+                                            {formatCurrency(Number(order.final_total ?? order.total_price) || 0, order.currency || undefined)}
+                                        </Text>
+                                    </InlineStack>
+                                </div>
+                            );
+                        })}
+                    </BlockStack>
+                </Card>
+
+                <Box paddingBlockEnd="800" />
+            </BlockStack>
+        </Page>
+    );
+}
@@ -3,22 +3,67 @@
  * Allows sellers to configure fraud protection rules for the COD form
  */
 import { useState, useEffect, useCallback } from 'react';
-import { useLoaderData, useSubmit, useActionData, useNavigation, Link } from 'react-router';
-import type { LoaderFunctionArgs, ActionFunctionArgs } from 'react-router';
+import { useLoaderData, useSubmit, useActionData, useNavigation, useFetcher, Link } from 'react-router';
+import type { LoaderFunctionArgs, ActionFunctionArgs, ShouldRevalidateFunction } from 'react-router';
 import { useAppBridge } from '@shopify/app-bridge-react';
 import {
     Page, Card, Text, InlineStack, BlockStack,
     TextField, Checkbox, Banner, Divider, Box,
-    RadioButton, Badge,
+    RadioButton, Badge, Select, Tag, Button,
 } from '@shopify/polaris';
 import { authenticate } from '../shopify.server';
 import {
     getFraudProtectionSettings,
     saveFraudProtectionSettings,
     syncFraudSettingsToMetafield,
+    getFraudAutoBlocks,
+    unblockFraudAutoBlock,
+    getFraudEvents,
+    blockCustomerFromEvent,
+    allowCustomerFromEvent,
+    simulateFraudRules,
 } from '../services/fraud-protection.server';
-import type { FraudProtectionSettings } from '../config/fraud-protection.types';
-import { DEFAULT_FRAUD_SETTINGS } from '../config/fraud-protection.types';
+import type {
+    FraudAutoBlock,
+    FraudEvent,
+    FraudOtpMode,
+    FraudProtectionSettings,
+    FraudRiskThresholds,
+    FraudRiskWeights,
+    FraudRuleKey,
+    FraudSignalKey,
+    FraudSimulationResult,
+} from '../config/fraud-protection.types';
+import { COUNTRY_OPTIONS } from '../config/countries';
+import { getIpRuleErrors } from '../utils/ip-rules';
+import {
+    DEFAULT_FRAUD_SETTINGS,
+    DEFAULT_RISK_THRESHOLDS,
+    DEFAULT_RISK_WEIGHTS,
+    FRAUD_AUTO_BLOCK_SOURCE_LABELS,
+    FRAUD_DECISION_LABELS,
+    FRAUD_RULE_LABELS,
+    FRAUD_SIGNAL_LABELS,
+} from '../config/fraud-protection.types';
+
+const EVENTS_PAGE_SIZE = 25;
+
+// Rules the merchant can put in monitor mode (risk_score only applies with scoring on)
+const MONITORABLE_RULES = Object.keys(FRAUD_RULE_LABELS) as FraudRuleKey[];
+
+const SIMULATION_SIZE_OPTIONS = [
+    { label: 'Last 50 orders', value: '50' },
+    { label: 'Last 100 orders', value: '100' },
+    { label: 'Last 250 orders', value: '250' },
+    { label: 'Last 500 orders', value: '500' },
+];
+
+const OTP_MODE_OPTIONS: { label: string; value: FraudOtpMode }[] = [
+    { label: 'Off', value: 'off' },
+    { label: 'All COD orders', value: 'all' },
+    { label: 'Orders above a cart value', value: 'above_cart_value' },
+    { label: 'Borderline risk only (needs risk scoring)', value: 'borderline' },
+];
 
 // =============================================
 // LOADER
@@ -26,8 +71,24 @@ import { DEFAULT_FRAUD_SETTINGS } from '../config/fraud-protection.types';
 export const loader = async ({ request }: LoaderFunctionArgs) => {
     const { admin, session } = await authenticate.admin(request);
     const shopDomain = session.shop;
-    const settings = await getFraudProtectionSettings(shopDomain);
-    return { settings, shopDomain };
+
+    // Event log filters (also used by the in-page fetcher)
+    const url = new URL(request.url);
+    const eventPage = Math.max(1, parseInt(url.searchParams.get('eventPage') || '1') || 1);
+    const eventFilters = {
+        rule: url.searchParams.get('eventRule') || undefined,
+        decision: url.searchParams.get('eventDecision') || undefined,
+        search: url.searchParams.get('eventSearch') || undefined,
+        limit: EVENTS_PAGE_SIZE,
+        offset: (eventPage - 1) * EVENTS_PAGE_SIZE,
+    };
+
+    const [settings, autoBlocks, eventLog] = await Promise.all([
+        getFraudProtectionSettings(shopDomain),
+        getFraudAutoBlocks(shopDomain),
+        getFraudEvents(shopDomain, eventFilters),
+    ]);
+    return { settings, autoBlocks, events: eventLog.events, eventsTotal: eventLog.total, eventPage, shopDomain };
 };
 
 // =============================================
@@ -45,12 +106,43 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             const settings: FraudProtectionSettings = JSON.parse(settingsJson);
             settings.shop_domain = shopDomain;
 
+            const ipErrors = [
+                ...getIpRuleErrors(settings.blocked_ip_addresses || []),
+                ...getIpRuleErrors(settings.allowed_ip_addresses || []),
+            ];
+            if (ipErrors.length > 0) {
+                return { success: false, message: ipErrors[0] };
+            }
+
             await saveFraudProtectionSettings(settings);
             await syncFraudSettingsToMetafield(admin, shopDomain);
 
             return { success: true, message: 'Fraud protection settings saved!' };
         }
 
+        if (intent === 'simulate') {
+            const draft: FraudProtectionSettings = JSON.parse(formData.get('settings') as string);
+            const limit = parseInt(formData.get('limit') as string) || 100;
+            const simulation = await simulateFraudRules(shopDomain, draft, limit);
+            return { success: true, simulation };
+        }
+
+        if (intent === 'unblock') {
+            const id = formData.get('id') as string;
+            await unblockFraudAutoBlock(shopDomain, id);
+            return { success: true, message: 'Customer unblocked' };
+        }
+
+        if (intent === 'block_customer') {
+            await blockCustomerFromEvent(shopDomain, formData.get('eventId') as string);
+            return { success: true, message: 'Customer added to block list' };
+        }
+
+        if (intent === 'allow_customer') {
+            await allowCustomerFromEvent(shopDomain, formData.get('eventId') as string);
+            return { success: true, message: 'Customer will no longer be blocked' };
+        }
+
         return { success: false, message: 'Unknown action' };
     } catch (error: any) {
         console.error('[FraudProtection] Action error:', error);
@@ -58,11 +150,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 };
 
+// A dry run must not reload the page data — it would reset unsaved settings
+export const shouldRevalidate: ShouldRevalidateFunction = ({ formData, defaultShouldRevalidate }) => {
+    if (formData?.get('intent') === 'simulate') return false;
+    return defaultShouldRevalidate;
+};
+
 // =============================================
 // COMPONENT
 // =============================================
 export default function FraudProtectionPage() {
-    const { settings: initialSettings, shopDomain } = useLoaderData<any>();
+    const { settings: initialSettings, autoBlocks, events: initialEvents, eventsTotal: initialEventsTotal, eventPage: initialEventPage, shopDomain } = useLoaderData<any>();
+    const eventsFetcher = useFetcher<any>();
+    const simulationFetcher = useFetcher<any>();
     const actionData = useActionData<any>();
     const submit = useSubmit();
     const navigation = useNavigation();
@@ -80,7 +180,10 @@ export default function FraudProtectionPage() {
     const [emailText, setEmailText] = useState((initialSettings?.blocked_emails || []).join('\n'));
     const [blockedIpText, setBlockedIpText] = useState((initialSettings?.blocked_ip_addresses || []).join('\n'));
     const [allowedIpText, setAllowedIpText] = useState((initialSettings?.allowed_ip_addresses || []).join('\n'));
+    const [allowedPhoneText, setAllowedPhoneText] = useState((initialSettings?.allowed_phone_numbers || []).join('\n'));
+    const [allowedEmailText, setAllowedEmailText] = useState((initialSettings?.allowed_emails || []).join('\n'));
     const [postalText, setPostalText] = useState((initialSettings?.postal_codes || []).join('\n'));
+    const [countrySelect, setCountrySelect] = useState('');
 
     // Sync from loader when data refreshes
     useEffect(() => {
@@ -90,6 +193,8 @@ export default function FraudProtectionPage() {
             setEmailText((initialSettings.blocked_emails || []).join('\n'));
             setBlockedIpText((initialSettings.blocked_ip_addresses || []).join('\n'));
             setAllowedIpText((initialSettings.allowed_ip_addresses || []).join('\n'));
+            setAllowedPhoneText((initialSettings.allowed_phone_numbers || []).join('\n'));
+            setAllowedEmailText((initialSettings.allowed_emails || []).join('\n'));
             setPostalText((initialSettings.postal_codes || []).join('\n'));
             setHasChanges(false);
         }
@@ -120,23 +225,108 @@ export default function FraudProtectionPage() {
         setHasChanges(true);
     }, []);
 
+    const riskWeights: FraudRiskWeights = { ...DEFAULT_RISK_WEIGHTS, ...(settings.risk_weights || {}) };
+    const riskThresholds: FraudRiskThresholds = { ...DEFAULT_RISK_THRESHOLDS, ...(settings.risk_thresholds || {}) };
+
+    const updateWeight = (key: FraudSignalKey, val: string) => {
+        update({ risk_weights: { ...riskWeights, [key]: val ? parseInt(val) || 0 : 0 } });
+    };
+
+    const updateThreshold = (key: keyof FraudRiskThresholds, val: string) => {
+        update({ risk_thresholds: { ...riskThresholds, [key]: val ? parseInt(val) || 0 : 0 } });
+    };
+
     // Convert raw text to array (only at save time)
     const textToArray = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
 
+    // Validate IP entries as they are typed — same parser the server enforces with
+    const blockedIpErrors = getIpRuleErrors(textToArray(blockedIpText));
+    const allowedIpErrors = getIpRuleErrors(textToArray(allowedIpText));
+    const ipCountries: string[] = settings.ip_countries || [];
+
+    // Current (possibly unsaved) settings with the textareas parsed
+    const buildSettings = useCallback((): FraudProtectionSettings => ({
+        ...settings,
+        blocked_phone_numbers: textToArray(phoneText),
+        blocked_emails: textToArray(emailText),
+        blocked_ip_addresses: textToArray(blockedIpText),
+        allowed_ip_addresses: textToArray(allowedIpText),
+        allowed_phone_numbers: textToArray(allowedPhoneText),
+        allowed_emails: textToArray(allowedEmailText),
+        postal_codes: textToArray(postalText),
+    }), [settings, phoneText, emailText, blockedIpText, allowedIpText, allowedPhoneText, allowedEmailText, postalText]);
+
     const handleSave = useCallback(() => {
-        const settingsToSave = {
-            ...settings,
-            blocked_phone_numbers: textToArray(phoneText),
-            blocked_emails: textToArray(emailText),
-            blocked_ip_addresses: textToArray(blockedIpText),
-            allowed_ip_addresses: textToArray(allowedIpText),
-            postal_codes: textToArray(postalText),
-        };
+        if (blockedIpErrors.length > 0 || allowedIpErrors.length > 0) {
+            shopify.toast.show('Fix the invalid IP entries before saving', { isError: true });
+            return;
+        }
         const fd = new FormData();
         fd.set('intent', 'save');
-        fd.set('settings', JSON.stringify(settingsToSave));
+        fd.set('settings', JSON.stringify(buildSettings()));
+        submit(fd, { method: 'post' });
+    }, [buildSettings, blockedIpErrors, allowedIpErrors, shopify, submit]);
+
+    // ── Monitor mode & dry run ──
+    const monitorRules: FraudRuleKey[] = settings.monitor_rules || [];
+    const [simulationSize, setSimulationSize] = useState('100');
+    const simulation: FraudSimulationResult | undefined = simulationFetcher.data?.simulation;
+    const isSimulating = simulationFetcher.state !== 'idle';
+
+    const toggleMonitorRule = (rule: FraudRuleKey, monitored: boolean) => {
+        update({
+            monitor_rules: monitored
+                ? [...monitorRules.filter(r => r !== rule), rule]
+                : monitorRules.filter(r => r !== rule),
+        });
+    };
+
+    const handleSimulate = useCallback(() => {
+        const fd = new FormData();
+        fd.set('intent', 'simulate');
+        fd.set('settings', JSON.stringify(buildSettings()));
+        fd.set('limit', simulationSize);
+        simulationFetcher.submit(fd, { method: 'post' });
+    }, [buildSettings, simulationSize, simulationFetcher]);
+
+    useEffect(() => {
+        if (simulationFetcher.data && !simulationFetcher.data.success && simulationFetcher.data.message) {
+            shopify.toast.show(simulationFetcher.data.message, { isError: true });
+        }
+    }, [simulationFetcher.data]);
+
+    const handleUnblock = useCallback((id: string) => {
+        const fd = new FormData();
+        fd.set('intent', 'unblock');
+        fd.set('id', id);
+        submit(fd, { method: 'post' });
+    }, [submit]);
+
+    // ── Event log ──
+    const [eventRule, setEventRule] = useState('');
+    const [eventDecision, setEventDecision] = useState('');
+    const [eventSearch, setEventSearch] = useState('');
+
+    const events: FraudEvent[] = eventsFetcher.data?.events ?? initialEvents ?? [];
+    const eventsTotal: number = eventsFetcher.data?.eventsTotal ?? initialEventsTotal ?? 0;
+    const eventPage: number = eventsFetcher.data?.eventPage ?? initialEventPage ?? 1;
+    const eventPageCount = Math.max(1, Math.ceil(eventsTotal / EVENTS_PAGE_SIZE));
+
+    const loadEvents = useCallback((page: number, filters = { rule: eventRule, decision: eventDecision, search: eventSearch }) => {
+        const params = new URLSearchParams();
+        if (filters.rule) params.set('eventRule', filters.rule);
+        if (filters.decision) params.set('eventDecision', filters.decision);
+        if (filters.search.trim()) params.set('eventSearch', filters.search.trim());
+        params.set('eventPage', String(page));
+        eventsFetcher.load(`/app/fraud-protection?${params.toString()}`);
+    }, [eventRule, eventDecision, eventSearch, eventsFetcher]);
+
+    const handleEventAction = useCallback((intent: 'block_customer' | 'allow_customer', eventId: string) => {
+        const fd = new FormData();
+        fd.set('intent', intent);
+        fd.set('eventId', eventId);
         submit(fd, { method: 'post' });
-    }, [settings, phoneText, emailText, blockedIpText, allowedIpText, postalText, submit]);
+    }, [submit]);
 
     const handleDiscard = useCallback(() => {
         setSettings(initialSettings || { ...DEFAULT_FRAUD_SETTINGS, shop_domain: shopDomain });
@@ -144,6 +334,8 @@ export default function FraudProtectionPage() {
         setEmailText((initialSettings?.blocked_emails || []).join('\n'));
         setBlockedIpText((initialSettings?.blocked_ip_addresses || []).join('\n'));
         setAllowedIpText((initialSettings?.allowed_ip_addresses || []).join('\n'));
+        setAllowedPhoneText((initialSettings?.allowed_phone_numbers || []).join('\n'));
+        setAllowedEmailText((initialSettings?.allowed_emails || []).join('\n'));
         setPostalText((initialSettings?.postal_codes || []).join('\n'));
         setHasChanges(false);
         shopify.saveBar.hide('fraud-protection-save-bar');
@@ -193,7 +385,7 @@ export default function FraudProtectionPage() {
                                 <Checkbox
                                     label={
                                         <Text variant="bodyMd" fontWeight="semibold" as="span">
-                                            Only allow X orders per IP address, phone or email within X hours
+                                            Only allow X orders per phone or email within X hours
                                         </Text>
                                     }
                                     checked={settings.limit_orders_enabled}
@@ -226,6 +418,86 @@ export default function FraudProtectionPage() {
                                         </div>
                                     </div>
                                 )}
+
+                                <Divider />
+
+                                <Checkbox
+                                    label={
+                                        <Text variant="bodyMd" fontWeight="semibold" as="span">
+                                            Only allow X orders per IP address within X hours
+                                        </Text>
+                                    }
+                                    helpText="Customers on mobile data often share an IP — keep this limit generous"
+                                    checked={settings.ip_limit_enabled}
+                                    onChange={(val) => update({ ip_limit_enabled: val })}
+                                />
+
+                                {settings.ip_limit_enabled && (
+                                    <div className="fp-fields-row">
+                                        <div className="fp-field">
+                                            <TextField
+                                                label="Maximum orders"
+                                                type="number"
+                                                value={String(settings.ip_max_orders || '')}
+                                                placeholder="e.g. 5"
+                                                onChange={(val) => update({ ip_max_orders: val ? parseInt(val) : undefined })}
+                                                autoComplete="off"
+                                            />
+                                        </div>
+                                        <div className="fp-field">
+                                            <TextField
+                                                label="Time window (hours)"
+                                                type="number"
+                                                max={720}
+                                                value={String(settings.ip_limit_hours || '')}
+                                                placeholder="e.g. 24"
+                                                onChange={(val) => update({ ip_limit_hours: val ? Math.min(parseInt(val) || 0, 720) : undefined })}
+                                                autoComplete="off"
+                                                helpText="Up to 720 hours (30 days)"
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
+                                <Divider />
+
+                                <Checkbox
+                                    label={
+                                        <Text variant="bodyMd" fontWeight="semibold" as="span">
+                                            Only allow X orders per device within X hours
+                                        </Text>
+                                    }
+                                    helpText="Catches repeat orders from the same browser even when the phone number changes"
+                                    checked={settings.device_limit_enabled}
+                                    onChange={(val) => update({ device_limit_enabled: val })}
+                                />
+
+                                {settings.device_limit_enabled && (
+                                    <div className="fp-fields-row">
+                                        <div className="fp-field">
+                                            <TextField
+                                                label="Maximum orders"
+                                                type="number"
+                                                value={String(settings.device_max_orders || '')}
+                                                placeholder="e.g. 5"
+                                                onChange={(val) => update({ device_max_orders: val ? parseInt(val) : undefined })}
+                                                autoComplete="off"
+                                            />
+                                        </div>
+                                        <div className="fp-field">
+                                            <TextField
+                                                label="Time window (hours)"
+                                                type="number"
+                                                max={720}
+                                                value={String(settings.device_limit_hours || '')}
+                                                placeholder="e.g. 24"
+                                                onChange={(val) => update({ device_limit_hours: val ? Math.min(parseInt(val) || 0, 720) : undefined })}
+                                                autoComplete="off"
+                                                helpText="Up to 720 hours (30 days)"
+                                            />
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
@@ -319,8 +591,9 @@ export default function FraudProtectionPage() {
                                             value={blockedIpText}
                                             onChange={(val) => { setBlockedIpText(val); setHasChanges(true); }}
                                             multiline={4}
-                                            placeholder={"219.109.22.2\n12.109.22.3\n109.109.22.4"}
-                                            helpText="These IPs will be blocked from placing any orders"
+                                            placeholder={"219.109.22.2\n12.109.22.0/24\n109.109.*.*"}
+                                            helpText="Exact IPs, CIDR ranges (e.g. 12.109.22.0/24, 2001:db8::/32) or wildcards (e.g. 109.109.*)"
+                                            error={blockedIpErrors.length > 0 ? blockedIpErrors.join('. ') : undefined}
                                             autoComplete="off"
                                         />
                                     </div>
@@ -330,16 +603,152 @@ export default function FraudProtectionPage() {
                                             value={allowedIpText}
                                             onChange={(val) => { setAllowedIpText(val); setHasChanges(true); }}
                                             multiline={4}
-                                            placeholder={"219.109.22.2\n12.109.22.3"}
-                                            helpText="Always allow these IPs, even if other rules block them"
+                                            placeholder={"219.109.22.2\n12.109.22.0/24"}
+                                            helpText="Always allow these IPs, even if other rules block them. Supports CIDR and wildcards."
+                                            error={allowedIpErrors.length > 0 ? allowedIpErrors.join('. ') : undefined}
+                                            autoComplete="off"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="fp-fields-row">
+                                    <div className="fp-field">
+                                        <TextField
+                                            label="Allowed phone numbers (override)"
+                                            value={allowedPhoneText}
+                                            onChange={(val) => { setAllowedPhoneText(val); setHasChanges(true); }}
+                                            multiline={3}
+                                            placeholder={"+916238833221"}
+                                            helpText="These customers skip all fraud checks"
+                                            autoComplete="off"
+                                        />
+                                    </div>
+                                    <div className="fp-field">
+                                        <TextField
+                                            label="Allowed email addresses (override)"
+                                            value={allowedEmailText}
+                                            onChange={(val) => { setAllowedEmailText(val); setHasChanges(true); }}
+                                            multiline={3}
+                                            placeholder={"trusted@example.com"}
+                                            helpText="These customers skip all fraud checks"
                                             autoComplete="off"
                                         />
                                     </div>
                                 </div>
+
+                                <Divider />
+
+                                <BlockStack gap="200">
+                                    <Text variant="headingSm" as="h3">Email checks</Text>
+                                    <Checkbox
+                                        label="Block disposable email addresses"
+                                        helpText="Temporary inbox providers such as mailinator.com (list of 100,000+ domains, updated with app releases)"
+                                        checked={settings.block_disposable_emails}
+                                        onChange={(val) => update({ block_disposable_emails: val })}
+                                    />
+                                    <Checkbox
+                                        label="Block role email addresses"
+                                        helpText="Shared mailboxes such as info@, admin@ or support@"
+                                        checked={settings.block_role_emails}
+                                        onChange={(val) => update({ block_role_emails: val })}
+                                    />
+                                    <Checkbox
+                                        label="Catch mistyped email domains"
+                                        helpText="Suggests a correction on the form for typos like gmial.com, and rejects domains that can't receive mail"
+                                        checked={settings.email_domain_check_enabled}
+                                        onChange={(val) => update({ email_domain_check_enabled: val })}
+                                    />
+                                </BlockStack>
+                            </div>
+                        </div>
+
+                        {/* ── Section 4: IP Country Restrictions ── */}
+                        <div className="fp-card">
+                            <div className="fp-card-header">
+                                <div className="fp-card-icon fp-icon-country">🌍</div>
+                                <div>
+                                    <Text variant="headingMd" as="h2">IP Country Restrictions</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Restrict orders by the country an IP address is located in
+                                    </Text>
+                                </div>
+                            </div>
+
+                            <div className="fp-card-body">
+                                <Checkbox
+                                    label={
+                                        <Text variant="bodyMd" fontWeight="semibold" as="span">
+                                            Limit orders by IP country
+                                        </Text>
+                                    }
+                                    helpText="Countries are detected from the IP address. IPs that can't be located are never blocked."
+                                    checked={settings.ip_country_mode !== 'none' && !!settings.ip_country_mode}
+                                    onChange={(checked) => {
+                                        update({ ip_country_mode: checked ? 'block_only' : 'none' });
+                                    }}
+                                />
+
+                                {settings.ip_country_mode && settings.ip_country_mode !== 'none' && (
+                                    <div className="fp-postal-options">
+                                        <BlockStack gap="300">
+                                            <div className="fp-radio-group">
+                                                <RadioButton
+                                                    label="Block orders from these countries"
+                                                    checked={settings.ip_country_mode === 'block_only'}
+                                                    id="ip-country-block"
+                                                    name="ip_country_mode"
+                                                    onChange={() => update({ ip_country_mode: 'block_only' })}
+                                                />
+                                                <RadioButton
+                                                    label="Only allow orders from these countries"
+                                                    checked={settings.ip_country_mode === 'allow_only'}
+                                                    id="ip-country-allow"
+                                                    name="ip_country_mode"
+                                                    onChange={() => update({ ip_country_mode: 'allow_only' })}
+                                                />
+                                            </div>
+
+                                            <div className="fp-country-picker">
+                                                <Select
+                                                    label="Country"
+                                                    labelHidden
+                                                    options={COUNTRY_OPTIONS}
+                                                    value={countrySelect}
+                                                    onChange={setCountrySelect}
+                                                />
+                                                <Button
+                                                    variant="primary"
+                                                    disabled={!countrySelect}
+                                                    onClick={() => {
+                                                        if (countrySelect && !ipCountries.includes(countrySelect)) {
+                                                            update({ ip_countries: [...ipCountries, countrySelect] });
+                                                        }
+                                                        setCountrySelect('');
+                                                    }}
+                                                >
+                                                    Add
+                                                </Button>
+                                            </div>
+
+                                            {ipCountries.length > 0 && (
+                                                <InlineStack gap="200">
+                                                    {ipCountries.map((code) => (
+                                                        <Tag
+                                                            key={code}
+                                                            onRemove={() => update({ ip_countries: ipCountries.filter((c) => c !== code) })}
+                                                        >
+                                                            {COUNTRY_OPTIONS.find((o) => o.value === code)?.label || code}
+                                                        </Tag>
+                                                    ))}
+                                                </InlineStack>
+                                            )}
+                                        </BlockStack>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
-                        {/* ── Section 4: Postal Code Restrictions ── */}
+                        {/* ── Section 5: Postal Code Restrictions ── */}
                         <div className="fp-card">
                             <div className="fp-card-header">
                                 <div className="fp-card-icon fp-icon-postal">📍</div>
@@ -403,7 +812,334 @@ export default function FraudProtectionPage() {
                             </div>
                         </div>
 
-                        {/* ── Section 5: Block Message ── */}
+                        {/* ── Section 6: RTO History ── */}
+                        <div className="fp-card">
+                            <div className="fp-card-header">
+                                <div className="fp-card-icon fp-icon-rto">↩️</div>
+                                <div>
+                                    <Text variant="headingMd" as="h2">RTO History</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Automatically stop customers who keep refusing Cash on Delivery orders
+                                    </Text>
+                                </div>
+                            </div>
+
+                            <div className="fp-card-body">
+                                <Checkbox
+                                    label={
+                                        <Text variant="bodyMd" fontWeight="semibold" as="span">
+                                            Act on phones/emails with repeated returned or cancelled orders
+                                        </Text>
+                                    }
+                                    checked={settings.rto_rule_enabled}
+                                    onChange={(val) => update({ rto_rule_enabled: val })}
+                                />
+
+                                {settings.rto_rule_enabled && (
+                                    <BlockStack gap="300">
+                                        <div className="fp-fields-row fp-fields-row-3">
+                                            <div className="fp-field">
+                                                <TextField
+                                                    label="Returned orders"
+                                                    type="number"
+                                                    min={1}
+                                                    value={String(settings.rto_min_returns || '')}
+                                                    placeholder="e.g. 3"
+                                                    onChange={(val) => update({ rto_min_returns: val ? parseInt(val) : undefined })}
+                                                    autoComplete="off"
+                                                    helpText="Act at this many or more"
+                                                />
+                                            </div>
+                                            <div className="fp-field">
+                                                <TextField
+                                                    label="RTO rate (%)"
+                                                    type="number"
+                                                    min={1}
+                                                    max={100}
+                                                    value={String(settings.rto_max_rate || '')}
+                                                    placeholder="e.g. 50"
+                                                    onChange={(val) => update({ rto_max_rate: val ? parseInt(val) : undefined })}
+                                                    autoComplete="off"
+                                                    helpText="Or when the rate is above this"
+                                                />
+                                            </div>
+                                            <div className="fp-field">
+                                                <TextField
+                                                    label="Look back (days)"
+                                                    type="number"
+                                                    min={1}
+                                                    value={String(settings.rto_window_days || '')}
+                                                    placeholder="e.g. 90"
+                                                    onChange={(val) => update({ rto_window_days: val ? parseInt(val) : undefined })}
+                                                    autoComplete="off"
+                                                    helpText="Orders older than this are ignored"
+                                                />
+                                            </div>
+                                        </div>
+
+                                        <div className="fp-radio-group">
+                                            <RadioButton
+                                                label="Block the customer"
+                                                checked={settings.rto_action !== 'force_prepaid'}
+                                                id="rto-action-block"
+                                                name="rto_action"
+                                                onChange={() => update({ rto_action: 'block' })}
+                                            />
+                                            <RadioButton
+                                                label="Only allow prepaid orders"
+                                                helpText="Cash on Delivery and Partial COD are refused; full prepaid checkout still works"
+                                                checked={settings.rto_action === 'force_prepaid'}
+                                                id="rto-action-prepaid"
+                                                name="rto_action"
+                                                onChange={() => update({ rto_action: 'force_prepaid' })}
+                                            />
+                                        </div>
+                                    </BlockStack>
+                                )}
+
+                                <Divider />
+
+                                <Text variant="headingSm" as="h3">Automatically blocked customers</Text>
+                                {(autoBlocks || []).length === 0 ? (
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        No customers have been blocked automatically.
+                                    </Text>
+                                ) : (
+                                    <div className="fp-auto-blocks">
+                                        {(autoBlocks as FraudAutoBlock[]).map((block) => (
+                                            <div key={block.id} className="fp-auto-block-row">
+                                                <div className="fp-auto-block-info">
+                                                    <InlineStack gap="200" blockAlign="center">
+                                                        <Text variant="bodyMd" fontWeight="semibold" as="span">{block.identifier}</Text>
+                                                        <Badge>{block.identifier_type === 'phone' ? 'Phone' : 'Email'}</Badge>
+                                                        <Badge tone="critical">{FRAUD_AUTO_BLOCK_SOURCE_LABELS[block.source] || block.source}</Badge>
+                                                    </InlineStack>
+                                                    <Text variant="bodySm" tone="subdued" as="p">
+                                                        {block.reason} · {new Date(block.created_at).toLocaleDateString()}
+                                                    </Text>
+                                                </div>
+                                                <Button onClick={() => handleUnblock(block.id)} disabled={isSaving}>
+                                                    Unblock
+                                                </Button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* ── Section 7: Risk Scoring ── */}
+                        <div className="fp-card">
+                            <div className="fp-card-header">
+                                <div className="fp-card-icon fp-icon-risk">⚖️</div>
+                                <div>
+                                    <Text variant="headingMd" as="h2">Risk Scoring</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Combine signals into a risk score instead of blocking on the first rule that matches
+                                    </Text>
+                                </div>
+                            </div>
+
+                            <div className="fp-card-body">
+                                <Checkbox
+                                    label={
+                                        <Text variant="bodyMd" fontWeight="semibold" as="span">
+                                            Use weighted risk scoring
+                                        </Text>
+                                    }
+                                    helpText="Each matching rule adds its weight to the order's score. Quantity limits, email typos and allowed IPs still apply as-is."
+                                    checked={settings.risk_scoring_enabled}
+                                    onChange={(val) => update({ risk_scoring_enabled: val })}
+                                />
+
+                                {settings.risk_scoring_enabled && (
+                                    <BlockStack gap="400">
+                                        <Text variant="headingSm" as="h3">Signal weights</Text>
+                                        <div className="fp-fields-row">
+                                            {(Object.keys(FRAUD_SIGNAL_LABELS) as FraudSignalKey[]).map((key) => (
+                                                <div className="fp-field" key={key}>
+                                                    <TextField
+                                                        label={FRAUD_SIGNAL_LABELS[key]}
+                                                        type="number"
+                                                        min={0}
+                                                        value={String(riskWeights[key] ?? 0)}
+                                                        onChange={(val) => updateWeight(key, val)}
+                                                        autoComplete="off"
+                                                        helpText={key === 'return_history' ? 'Per previous returned/cancelled order (max 3)' : undefined}
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        <Divider />
+
+                                        <Text variant="headingSm" as="h3">Decision thresholds</Text>
+                                        <div className="fp-fields-row fp-fields-row-3">
+                                            <div className="fp-field">
+                                                <TextField
+                                                    label="Verify at score"
+                                                    type="number"
+                                                    min={0}
+                                                    value={String(riskThresholds.verify)}
+                                                    onChange={(val) => updateThreshold('verify', val)}
+                                                    autoComplete="off"
+                                                    helpText="Ask the customer to confirm"
+                                                />
+                                            </div>
+                                            <div className="fp-field">
+                                                <TextField
+                                                    label="Review at score"
+                                                    type="number"
+                                                    min={0}
+                                                    value={String(riskThresholds.review)}
+                                                    onChange={(val) => updateThreshold('review', val)}
+                                                    autoComplete="off"
+                                                    helpText="Hold for manual review"
+                                                />
+                                            </div>
+                                            <div className="fp-field">
+                                                <TextField
+                                                    label="Block at score"
+                                                    type="number"
+                                                    min={0}
+                                                    value={String(riskThresholds.block)}
+                                                    onChange={(val) => updateThreshold('block', val)}
+                                                    autoComplete="off"
+                                                    helpText="Reject the order"
+                                                />
+                                            </div>
+                                        </div>
+                                    </BlockStack>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* ── Section 8: Phone OTP Verification ── */}
+                        <div className="fp-card">
+                            <div className="fp-card-header">
+                                <div className="fp-card-icon fp-icon-otp">🔐</div>
+                                <div>
+                                    <Text variant="headingMd" as="h2">Phone OTP Verification</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Ask customers to confirm their phone number with a one-time code before a COD order is placed
+                                    </Text>
+                                </div>
+                            </div>
+
+                            <div className="fp-card-body">
+                                <div className="fp-fields-row">
+                                    <div className="fp-field">
+                                        <Select
+                                            label="Require a code"
+                                            options={OTP_MODE_OPTIONS}
+                                            value={settings.otp_mode || 'off'}
+                                            onChange={(val) => update({ otp_mode: val as FraudOtpMode })}
+                                            helpText={settings.otp_mode === 'borderline' && !settings.risk_scoring_enabled
+                                                ? 'Turn on risk scoring above — codes are requested when the score reaches the Verify threshold.'
+                                                : undefined}
+                                        />
+                                    </div>
+                                    {settings.otp_mode === 'above_cart_value' && (
+                                        <div className="fp-field">
+                                            <TextField
+                                                label="Minimum cart value"
+                                                type="number"
+                                                min={0}
+                                                value={settings.otp_min_cart_value != null ? String(settings.otp_min_cart_value) : ''}
+                                                onChange={(val) => update({ otp_min_cart_value: val ? parseFloat(val) || 0 : undefined })}
+                                                autoComplete="off"
+                                                helpText="Orders at or above this total need a verified phone"
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                                {settings.otp_mode && settings.otp_mode !== 'off' && (
+                                    <Banner tone="info">
+                                        Codes are sent through the SMS &amp; WhatsApp integration. Connect a provider on the Integrations page — until one is connected, orders go through without a code.
+                                    </Banner>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* ── Section 9: Monitor Mode & Dry Run ── */}
+                        <div className="fp-card">
+                            <div className="fp-card-header">
+                                <div className="fp-card-icon fp-icon-monitor">🔍</div>
+                                <div>
+                                    <Text variant="headingMd" as="h2">Monitor Mode &amp; Dry Run</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Try a rule out before it starts blocking customers
+                                    </Text>
+                                </div>
+                            </div>
+
+                            <div className="fp-card-body">
+                                <BlockStack gap="200">
+                                    <Text variant="headingSm" as="h3">Monitor only</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Monitored rules never stop an order. Matches are logged under Blocked &amp; Flagged Attempts so you can see what the rule would have done.
+                                    </Text>
+                                    <div className="fp-monitor-rules">
+                                        {MONITORABLE_RULES.map((rule) => (
+                                            <Checkbox
+                                                key={rule}
+                                                label={FRAUD_RULE_LABELS[rule]}
+                                                checked={monitorRules.includes(rule)}
+                                                onChange={(val) => toggleMonitorRule(rule, val)}
+                                            />
+                                        ))}
+                                    </div>
+                                </BlockStack>
+
+                                <Divider />
+
+                                <BlockStack gap="300">
+                                    <Text variant="headingSm" as="h3">Dry run</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Replay recent orders against the settings on this page, including unsaved changes. Nothing is blocked or logged. IP rules are skipped because past orders don&apos;t store the customer&apos;s IP.
+                                    </Text>
+                                    <div className="fp-country-picker">
+                                        <Select
+                                            label="Orders to replay"
+                                            options={SIMULATION_SIZE_OPTIONS}
+                                            value={simulationSize}
+                                            onChange={setSimulationSize}
+                                        />
+                                        <Button onClick={handleSimulate} loading={isSimulating}>
+                                            Run dry run
+                                        </Button>
+                                    </div>
+
+                                    {simulation && (
+                                        <div className="fp-simulation">
+                                            <Text variant="bodyMd" as="p">
+                                                Of <strong>{simulation.orders_replayed}</strong> recent orders, <strong>{simulation.orders_blocked}</strong> would have been blocked
+                                                {simulation.orders_flagged > 0 && <> and <strong>{simulation.orders_flagged}</strong> flagged for verification or review</>}.
+                                            </Text>
+                                            {Object.keys(simulation.rule_counts).length === 0 ? (
+                                                <Text variant="bodySm" tone="subdued" as="p">No rule matched any of these orders.</Text>
+                                            ) : (
+                                                <div className="fp-simulation-rules">
+                                                    {(Object.entries(simulation.rule_counts) as [FraudRuleKey, number][]).map(([rule, count]) => (
+                                                        <div className="fp-simulation-row" key={rule}>
+                                                            <InlineStack gap="200" blockAlign="center">
+                                                                <Text variant="bodyMd" as="span">{FRAUD_RULE_LABELS[rule]}</Text>
+                                                                {monitorRules.includes(rule) && <Badge>Monitor only</Badge>}
+                                                            </InlineStack>
+                                                            <Text variant="bodyMd" fontWeight="semibold" as="span">
+                                                                {count} {count === 1 ? 'order' : 'orders'}
+                                                            </Text>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </BlockStack>
+                            </div>
+                        </div>
+
+                        {/* ── Section 10: Block Message ── */}
                         <div className="fp-card">
                             <div className="fp-card-header">
                                 <div className="fp-card-icon fp-icon-msg">💬</div>
@@ -428,11 +1164,137 @@ export default function FraudProtectionPage() {
                             </div>
                         </div>
 
+                        {/* ── Section 11: Blocked & Flagged Attempts ── */}
+                        <div className="fp-card">
+                            <div className="fp-card-header">
+                                <div className="fp-card-icon fp-icon-log">📋</div>
+                                <div>
+                                    <Text variant="headingMd" as="h2">Blocked &amp; Flagged Attempts</Text>
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        Every order attempt a rule blocked or flagged — check that your rules aren&apos;t stopping real customers
+                                    </Text>
+                                </div>
+                            </div>
+
+                            <div className="fp-card-body">
+                                <div className="fp-event-filters">
+                                    <Select
+                                        label="Rule"
+                                        options={[
+                                            { label: 'All rules', value: '' },
+                                            ...Object.entries(FRAUD_RULE_LABELS).map(([value, label]) => ({ label, value })),
+                                        ]}
+                                        value={eventRule}
+                                        onChange={(val) => { setEventRule(val); loadEvents(1, { rule: val, decision: eventDecision, search: eventSearch }); }}
+                                    />
+                                    <Select
+                                        label="Decision"
+                                        options={[
+                                            { label: 'All decisions', value: '' },
+                                            { label: FRAUD_DECISION_LABELS.block, value: 'block' },
+                                            { label: FRAUD_DECISION_LABELS.review, value: 'review' },
+                                            { label: FRAUD_DECISION_LABELS.verify, value: 'verify' },
+                                        ]}
+                                        value={eventDecision}
+                                        onChange={(val) => { setEventDecision(val); loadEvents(1, { rule: eventRule, decision: val, search: eventSearch }); }}
+                                    />
+                                    <TextField
+                                        label="Search"
+                                        value={eventSearch}
+                                        onChange={setEventSearch}
+                                        placeholder="Phone, email, IP or pincode"
+                                        autoComplete="off"
+                                        connectedRight={<Button onClick={() => loadEvents(1)}>Search</Button>}
+                                    />
+                                </div>
+
+                                {events.length === 0 ? (
+                                    <Text variant="bodySm" tone="subdued" as="p">
+                                        No blocked or flagged attempts found.
+                                    </Text>
+                                ) : (
+                                    <div className="fp-events-table-wrap">
+                                        <table className="fp-events-table">
+                                            <thead>
+                                                <tr>
+                                                    <th>When</th>
+                                                    <th>Rule</th>
+                                                    <th>Customer</th>
+                                                    <th>IP / Pincode</th>
+                                                    <th>Cart</th>
+                                                    <th />
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {events.map((event) => (
+                                                    <tr key={event.id}>
+                                                        <td>{new Date(event.created_at).toLocaleString()}</td>
+                                                        <td>
+                                                            <BlockStack gap="100">
+                                                                <Text variant="bodySm" fontWeight="semibold" as="span">
+                                                                    {event.rule ? FRAUD_RULE_LABELS[event.rule] || event.rule : '—'}
+                                                                </Text>
+                                                                <InlineStack gap="100">
+                                                                    <Badge tone={event.decision === 'block' ? 'critical' : 'warning'}>
+                                                                        {FRAUD_DECISION_LABELS[event.decision] || event.decision}
+                                                                    </Badge>
+                                                                    {event.monitored && <Badge>Monitor only</Badge>}
+                                                                </InlineStack>
+                                                            </BlockStack>
+                                                        </td>
+                                                        <td>
+                                                            <div>{event.phone || '—'}</div>
+                                                            <div className="fp-event-sub">{event.email || ''}</div>
+                                                        </td>
+                                                        <td>
+                                                            <div>{event.ip || '—'}</div>
+                                                            <div className="fp-event-sub">{event.pincode || ''}</div>
+                                                        </td>
+                                                        <td>
+                                                            <div>{event.cart_value != null ? Number(event.cart_value).toFixed(2) : '—'}</div>
+                                                            <div className="fp-event-sub">{event.order_source || ''}</div>
+                                                        </td>
+                                                        <td>
+                                                            <InlineStack gap="200" wrap={false}>
+                                                                <Button size="slim" tone="critical" onClick={() => handleEventAction('block_customer', event.id)} disabled={isSaving}>
+                                                                    Block
+                                                                </Button>
+                                                                <Button size="slim" onClick={() => handleEventAction('allow_customer', event.id)} disabled={isSaving}>
+                                                                    Allow
+                                                                </Button>
+                                                            </InlineStack>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
+                                {eventsTotal > EVENTS_PAGE_SIZE && (
+                                    <InlineStack align="space-between" blockAlign="center">
+                                        <Text variant="bodySm" tone="subdued" as="span">
+                                            Page {eventPage} of {eventPageCount} · {eventsTotal} attempts
+                                        </Text>
+                                        <InlineStack gap="200">
+                                            <Button disabled={eventPage <= 1 || eventsFetcher.state !== 'idle'} onClick={() => loadEvents(eventPage - 1)}>
+                                                Previous
+                                            </Button>
+                                            <Button disabled={eventPage >= eventPageCount || eventsFetcher.state !== 'idle'} onClick={() => loadEvents(eventPage + 1)}>
+                                                Next
+                                            </Button>
+                                        </InlineStack>
+                                    </InlineStack>
+                                )}
+                            </div>
+                        </div>
+
                         {/* Info banner */}
                         <Banner tone="warning">
                             <Text variant="bodySm" as="p">
-                                <strong>Note:</strong> Phone, email, postal code, and quantity rules are enforced both on the storefront (instant feedback)
-                                and on the server (prevents API bypass). IP address and order frequency rules are enforced server-side only.
+                                <strong>Note:</strong> Postal code and quantity rules are enforced both on the storefront (instant feedback)
+                                and on the server (prevents API bypass). Block lists, order frequency rules and risk scoring are enforced
+                                server-side only and are never published to your storefront.
                             </Text>
                         </Banner>
 
@@ -545,6 +1407,12 @@ const styles = `
     .fp-icon-block { background: linear-gradient(135deg, #fee2e2, #fecaca); }
     .fp-icon-postal { background: linear-gradient(135deg, #dbeafe, #bfdbfe); }
     .fp-icon-msg { background: linear-gradient(135deg, #d1fae5, #a7f3d0); }
+    .fp-icon-country { background: linear-gradient(135deg, #e0f2fe, #bae6fd); }
+    .fp-icon-rto { background: linear-gradient(135deg, #ffedd5, #fed7aa); }
+    .fp-icon-monitor { background: linear-gradient(135deg, #ecfccb, #d9f99d); }
+    .fp-icon-log { background: linear-gradient(135deg, #f3f4f6, #e5e7eb); }
+    .fp-icon-risk { background: linear-gradient(135deg, #fce7f3, #fbcfe8); }
+    .fp-icon-otp { background: linear-gradient(135deg, #e0e7ff, #c7d2fe); }
 
     .fp-card-body {
         padding: 20px 22px;
@@ -560,12 +1428,102 @@ const styles = `
         gap: 16px;
         margin-top: 4px;
     }
+    .fp-fields-row-3 {
+        grid-template-columns: 1fr 1fr 1fr;
+    }
     .fp-field { min-width: 0; }
 
     .fp-postal-options {
         padding-left: 28px;
         margin-top: 4px;
     }
+    .fp-country-picker {
+        display: grid;
+        grid-template-columns: 1fr auto;
+        gap: 8px;
+        align-items: end;
+    }
+    .fp-auto-blocks {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+    }
+    .fp-auto-block-row {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 12px;
+        padding: 12px 14px;
+        border: 1px solid #fecaca;
+        border-radius: 10px;
+        background: #fef2f2;
+    }
+    .fp-auto-block-info {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        min-width: 0;
+    }
+    .fp-monitor-rules {
+        display: grid;
+        grid-template-columns: 1fr 1fr 1fr;
+        gap: 4px 16px;
+    }
+    .fp-simulation {
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+        padding: 14px 16px;
+        border: 1px solid #e5e7eb;
+        border-radius: 10px;
+        background: #f9fafb;
+    }
+    .fp-simulation-rules {
+        display: flex;
+        flex-direction: column;
+    }
+    .fp-simulation-row {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 12px;
+        padding: 8px 0;
+        border-top: 1px solid #e5e7eb;
+    }
+    .fp-event-filters {
+        display: grid;
+        grid-template-columns: 1fr 1fr 2fr;
+        gap: 12px;
+        align-items: end;
+    }
+    .fp-events-table-wrap {
+        overflow-x: auto;
+    }
+    .fp-events-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 13px;
+    }
+    .fp-events-table th {
+        text-align: left;
+        font-size: 11px;
+        font-weight: 600;
+        color: #6b7280;
+        text-transform: uppercase;
+        letter-spacing: 0.4px;
+        padding: 8px 10px;
+        border-bottom: 1px solid #e5e7eb;
+    }
+    .fp-events-table td {
+        padding: 10px;
+        border-bottom: 1px solid #f3f4f6;
+        vertical-align: top;
+        color: #111827;
+    }
+    .fp-event-sub {
+        font-size: 12px;
+        color: #6b7280;
+    }
     .fp-radio-group {
         display: flex;
         flex-direction: column;
@@ -574,7 +1532,10 @@ const styles = `
 
     /* Responsive */
     @media (max-width: 640px) {
-        .fp-fields-row {
+        .fp-fields-row,
+        .fp-fields-row-3,
+        .fp-monitor-rules,
+        .fp-event-filters {
             grid-template-columns: 1fr;
         }
         .fp-body {
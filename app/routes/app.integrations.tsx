@@ -5,12 +5,16 @@
  */
 
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
-import { useLoaderData, Link, Form, useNavigation, redirect, useSearchParams } from "react-router";
+import { useState } from "react";
+import { useLoaderData, useActionData, Link, Form, useNavigation, redirect, useSearchParams } from "react-router";
 import { Button } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
-import { getAllIntegrationSettings, disconnectIntegration, supabase } from "../config/supabase.server";
-import { INTEGRATIONS, STATUS_BADGES, type Integration, type IntegrationSettings, type GoogleSheetsConfig } from "../config/integrations.types";
+import { getAllIntegrationSettings, getIntegrationSettings, saveIntegrationSettings, disconnectIntegration, supabase } from "../config/supabase.server";
+import { INTEGRATIONS, STATUS_BADGES, getIntegrationById, type Integration, type IntegrationSettings, type GoogleSheetsConfig, type SmsWhatsappConfig, type CourierConfig } from "../config/integrations.types";
 import { revokeToken } from "../services/google-sheets.server";
+import { createSmsProvider, SMS_INTEGRATION_ID } from "../services/sms/sms-provider.server";
+import { createCourierProvider, COURIER_INTEGRATION_ID } from "../services/courier/courier-provider.server";
+import { getReplyWebhookToken } from "../services/order-confirmation.server";
 import { AnalyticsIntegrationsTabs } from "./AnalyticsIntegrationsTabs";
 
 /**
@@ -29,9 +33,20 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         console.log('[Integrations] No integration settings found (table may not exist yet)');
     }
 
-    // Map saved settings by integration_id for easy lookup
+    // Map saved settings by integration_id for easy lookup.
+    // Secret config values (API keys) stay on the server — the page only
+    // needs to know they are set.
     const settingsMap = new Map<string, IntegrationSettings>();
-    savedSettings.forEach((s) => settingsMap.set(s.integration_id, s));
+    const savedSecrets: Record<string, string[]> = {};
+    savedSettings.forEach((s) => {
+        const secretKeys = (getIntegrationById(s.integration_id)?.configSchema || [])
+            .filter((field) => field.secret)
+            .map((field) => field.key);
+        const config = { ...(s.config || {}) };
+        savedSecrets[s.integration_id] = secretKeys.filter((key) => !!config[key]);
+        secretKeys.forEach((key) => delete config[key]);
+        settingsMap.set(s.integration_id, { ...s, config });
+    });
 
     // Check URL params for success/error messages
     const url = new URL(request.url);
@@ -41,6 +56,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     let message = null;
     if (successParam === 'google_sheets_connected') {
         message = { type: 'success', text: 'Google Sheets connected successfully!' };
+    } else if (successParam === 'config_saved') {
+        message = { type: 'success', text: 'Integration settings saved.' };
     } else if (errorParam === 'oauth_denied') {
         message = { type: 'error', text: 'Google authorization was denied. Please try again.' };
     } else if (errorParam === 'connection_failed') {
@@ -53,6 +70,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         shop: shopDomain,
         integrations: INTEGRATIONS,
         settingsMap: Object.fromEntries(settingsMap),
+        savedSecrets,
+        // Inbound webhook for confirmation replies, pasted into the provider's dashboard
+        smsReplyWebhookUrl: `${process.env.SHOPIFY_APP_URL || ''}/webhooks/sms/reply?shop=${encodeURIComponent(shopDomain)}&token=${getReplyWebhookToken(shopDomain)}`,
         message,
     };
 };
@@ -96,6 +116,70 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         return redirect('/api/integrations/google-sheets/connect');
     }
 
+    // Credential-based integrations save their config form directly
+    if (intent === "save_config") {
+        const integration = getIntegrationById(integrationId);
+        if (!integration || integration.status !== 'active' || integration.requiresOAuth || !integration.configSchema) {
+            return { success: false, error: 'This integration cannot be configured here.' };
+        }
+
+        const existing = await getIntegrationSettings(shopDomain, integrationId).catch(() => null);
+        const config: Record<string, unknown> = {};
+        for (const field of integration.configSchema) {
+            if (field.type === 'toggle') {
+                config[field.key] = formData.get(field.key) === 'true';
+                continue;
+            }
+            const value = String(formData.get(field.key) ?? '').trim();
+            // Blank secret = keep the saved one (the form never receives it)
+            config[field.key] = field.secret && !value ? existing?.config?.[field.key] || '' : value;
+            if (field.required && !config[field.key]) {
+                return { success: false, error: `${field.label} is required.` };
+            }
+        }
+
+        const timeoutHours = config.confirmation_timeout_hours;
+        if (integrationId === SMS_INTEGRATION_ID && timeoutHours && !(Number(timeoutHours) > 0)) {
+            return { success: false, error: 'Reply window must be a number of hours greater than 0.' };
+        }
+
+        if (integrationId === SMS_INTEGRATION_ID && !createSmsProvider(config as unknown as SmsWhatsappConfig)) {
+            return {
+                success: false,
+                error: config.provider === 'console'
+                    ? 'The console provider is only available in development.'
+                    : 'Missing credentials for this provider. Twilio needs an Account SID, API key and sender; MSG91 and Interakt need an API key.',
+            };
+        }
+
+        if (integrationId === COURIER_INTEGRATION_ID) {
+            if (config.default_weight_grams && !(Number(config.default_weight_grams) > 0)) {
+                return { success: false, error: 'Package weight must be a number of grams greater than 0.' };
+            }
+            if (!createCourierProvider(config as unknown as CourierConfig)) {
+                return {
+                    success: false,
+                    error: config.provider === 'mock'
+                        ? 'The mock courier is only available in development.'
+                        : 'Missing details for this courier. Shiprocket needs the API user email, password and pickup location; Delhivery needs an API token and pickup location.',
+                };
+            }
+        }
+
+        try {
+            await saveIntegrationSettings({
+                shop_domain: shopDomain,
+                integration_id: integrationId,
+                enabled: true,
+                connected: true,
+                config,
+            });
+        } catch (error) {
+            return { success: false, error: 'Failed to save integration settings. Please try again.' };
+        }
+        return redirect('/app/integrations?success=config_saved');
+    }
+
     return { success: false };
 };
 
@@ -121,12 +205,17 @@ function formatRelativeTime(dateString: string | undefined): string {
  * Integrations Page Component
  */
 export default function IntegrationsPage() {
-    const { integrations, settingsMap, message } = useLoaderData<typeof loader>();
+    const { integrations, settingsMap, savedSecrets, smsReplyWebhookUrl, message } = useLoaderData<typeof loader>();
+    const actionData = useActionData<typeof action>();
     const navigation = useNavigation();
+    const [editingId, setEditingId] = useState<string | null>(null);
     const [searchParams] = useSearchParams();
     const isSubmitting = navigation.state === "submitting";
 
     // Get status for an integration
+    const hasConfigForm = (integration: Integration) =>
+        integration.status === 'active' && !integration.requiresOAuth && !!integration.configSchema?.length;
+
     const getStatus = (integration: Integration): 'connected' | 'not_connected' | 'coming_soon' => {
         if (integration.status === 'coming_soon') return 'coming_soon';
         const settings = settingsMap[integration.id] as IntegrationSettings | undefined;
@@ -166,6 +255,15 @@ export default function IntegrationsPage() {
                         <path d="M20.5 17.5c-.4-.9-.8-.9-1.2-.9s-.9 0-1.2.3c-.5.4-1.6 1.5-1.6 3.7s1.6 4.3 1.8 4.6c.2.3 3.2 4.8 7.7 6.7 3.8 1.6 4.5 1.3 5.3 1.2s2.7-1.1 3.1-2.1c.4-1.1.4-2 .3-2.1-.1-.2-.5-.3-1-.6s-2.7-1.3-3.1-1.5c-.4-.2-.8-.1-1.1.3s-1.3 1.5-1.6 1.8c-.3.3-.5.3-1 .1s-2.1-.8-4-2.4c-1.5-1.3-2.4-2.9-2.7-3.4-.3-.5 0-.7.2-1s.5-.6.8-.9c.2-.3.3-.5.5-.8.2-.3.1-.6 0-.9s-1.2-2.8-1.7-3.9z" fill="#25D366" />
                     </svg>
                 );
+            case 'courier':
+                return (
+                    <svg width="36" height="36" viewBox="0 0 48 48" fill="none">
+                        <rect x="4" y="4" width="40" height="40" rx="6" fill="#0D9488" />
+                        <path d="M10 16h18v14H10zM28 21h5l5 5v4H28z" fill="white" />
+                        <circle cx="16" cy="32" r="3" fill="white" stroke="#0D9488" strokeWidth="1.5" />
+                        <circle cx="33" cy="32" r="3" fill="white" stroke="#0D9488" strokeWidth="1.5" />
+                    </svg>
+                );
             case 'address_autocomplete':
                 return (
                     <svg width="36" height="36" viewBox="0 0 48 48" fill="none">
@@ -467,6 +565,56 @@ export default function IntegrationsPage() {
                     color: #dc2626;
                 }
 
+                /* Config Form */
+                .config-form {
+                    margin-top: 16px;
+                    padding-top: 16px;
+                    border-top: 1px solid #e5e7eb;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 12px;
+                }
+
+                .config-field {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 4px;
+                }
+
+                .config-label {
+                    font-size: 13px;
+                    font-weight: 600;
+                    color: #374151;
+                }
+
+                .config-field input,
+                .config-field select {
+                    padding: 8px 10px;
+                    font-size: 14px;
+                    border: 1px solid #d1d5db;
+                    border-radius: 8px;
+                    background: white;
+                }
+
+                .config-help {
+                    font-size: 12px;
+                    color: #6b7280;
+                }
+
+                .config-toggle {
+                    flex-direction: row;
+                    align-items: flex-start;
+                    gap: 8px;
+                }
+
+                .config-code {
+                    font-size: 12px;
+                    word-break: break-all;
+                    background: #f3f4f6;
+                    padding: 2px 6px;
+                    border-radius: 4px;
+                }
+
                 /* Info Banner */
                 .info-banner {
                     background: linear-gradient(135deg, #eff6ff 0%, #dbeafe 100%);
@@ -533,6 +681,11 @@ export default function IntegrationsPage() {
                             {message.text}
                         </div>
                     )}
+                    {actionData && 'error' in actionData && actionData.error && (
+                        <div className="message-banner error">
+                            {actionData.error}
+                        </div>
+                    )}
 
                     <div className="info-banner">
                         <span className="info-banner-icon"><svg width="20" height="20" viewBox="0 0 20 20" fill="none"><circle cx="10" cy="10" r="8" stroke="#2563eb" strokeWidth="1.5" fill="none" /><path d="M10 9v4M10 7h.01" stroke="#2563eb" strokeWidth="1.5" strokeLinecap="round" /></svg></span>
@@ -583,7 +736,13 @@ export default function IntegrationsPage() {
                                             {badge.label}
                                         </span>
 
-                                        {status !== 'connected' && (
+                                        {status !== 'connected' && hasConfigForm(integration) && editingId !== integration.id && (
+                                            <Button variant="primary" onClick={() => setEditingId(integration.id)}>
+                                                {buttonConfig.text}
+                                            </Button>
+                                        )}
+
+                                        {status !== 'connected' && !hasConfigForm(integration) && (
                                             <Form method="post">
                                                 <input type="hidden" name="integrationId" value={integration.id} />
                                                 <input type="hidden" name="intent" value={buttonConfig.intent} />
@@ -647,6 +806,85 @@ export default function IntegrationsPage() {
                                         </div>
                                     )}
 
+                                    {/* Credential-based integrations - config form */}
+                                    {hasConfigForm(integration) && editingId === integration.id && (
+                                        <Form method="post" className="config-form" onSubmit={() => setEditingId(null)}>
+                                            <input type="hidden" name="integrationId" value={integration.id} />
+                                            <input type="hidden" name="intent" value="save_config" />
+                                            {integration.configSchema!.map((field) => {
+                                                const savedValue = settings?.config?.[field.key];
+                                                const hasSavedSecret = field.secret && savedSecrets[integration.id]?.includes(field.key);
+                                                if (field.type === 'toggle') {
+                                                    return (
+                                                        <label key={field.key} className="config-field config-toggle">
+                                                            <input type="checkbox" name={field.key} value="true" defaultChecked={savedValue === true} />
+                                                            <span>
+                                                                <span className="config-label">{field.label}</span>
+                                                                {field.description && <span className="config-help"> — {field.description}</span>}
+                                                            </span>
+                                                        </label>
+                                                    );
+                                                }
+                                                return (
+                                                    <label key={field.key} className="config-field">
+                                                        <span className="config-label">{field.label}{field.required ? ' *' : ''}</span>
+                                                        {field.type === 'select' ? (
+                                                            <select name={field.key} defaultValue={String(savedValue ?? field.options?.[0]?.value ?? '')}>
+                                                                {field.options?.map((option) => (
+                                                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                                                ))}
+                                                            </select>
+                                                        ) : (
+                                                            <input
+                                                                name={field.key}
+                                                                type={field.secret ? 'password' : field.type === 'email' || field.type === 'number' ? field.type : 'text'}
+                                                                defaultValue={field.secret ? '' : String(savedValue ?? '')}
+                                                                placeholder={hasSavedSecret ? 'Saved — leave blank to keep' : ''}
+                                                                autoComplete="off"
+                                                            />
+                                                        )}
+                                                        {field.description && <span className="config-help">{field.description}</span>}
+                                                    </label>
+                                                );
+                                            })}
+                                            <div className="connected-actions">
+                                                <button type="submit" className="cta-btn cta-btn-primary" disabled={isSubmitting}>
+                                                    Save
+                                                </button>
+                                                <button type="button" className="cta-btn cta-btn-secondary" onClick={() => setEditingId(null)}>
+                                                    Cancel
+                                                </button>
+                                            </div>
+                                        </Form>
+                                    )}
+
+                                    {status === 'connected' && hasConfigForm(integration) && editingId !== integration.id && (
+                                        <div className="connected-info">
+                                            {integration.configSchema!.filter((field) => field.type === 'select').map((field) => (
+                                                <div key={field.key} className="connected-detail">
+                                                    {field.label}: <strong>{field.options?.find((o) => o.value === settings?.config?.[field.key])?.label || String(settings?.config?.[field.key] ?? '')}</strong>
+                                                </div>
+                                            ))}
+                                            {integration.id === 'sms_whatsapp' && (settings?.config?.confirmation_enabled === true || settings?.config?.ndr_outreach_enabled === true) && (
+                                                <div className="connected-detail">
+                                                    Reply webhook: <code className="config-code">{smsReplyWebhookUrl}</code>
+                                                </div>
+                                            )}
+                                            <div className="connected-actions">
+                                                <button type="button" className="action-link action-link-open" onClick={() => setEditingId(integration.id)}>
+                                                    Edit settings
+                                                </button>
+                                                <Form method="post" style={{ display: 'inline' }}>
+                                                    <input type="hidden" name="integrationId" value={integration.id} />
+                                                    <input type="hidden" name="intent" value="disconnect" />
+                                                    <button type="submit" className="disconnect-btn" disabled={isSubmitting}>
+                                                        Disconnect
+                                                    </button>
+                                                </Form>
+                                            </div>
+                                        </div>
+                                    )}
+
                                     {/* Generic connected state for other integrations */}
                                     {status === 'connected' && integration.id !== 'google_sheets' && settings?.connected_email && (
                                         <div className="connected-info">
@@ -3,14 +3,45 @@
  * Route: /app/orders
  */
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { useLoaderData, useNavigation, useFetcher, Link, useNavigate } from "react-router";
 import { useAppBridge } from "@shopify/app-bridge-react";
-import { Page, Select, Button, ButtonGroup, Pagination, Badge, InlineStack, Text } from "@shopify/polaris";
+import { Page, Select, Button, ButtonGroup, Pagination, Badge, InlineStack, Text, Card, BlockStack, Checkbox, TextField, Banner, ProgressBar, Modal } from "@shopify/polaris";
+import { ExportIcon } from "@shopify/polaris-icons";
 import { authenticate } from "../shopify.server";
-import { getOrders, updateOrderStatusSimple } from "../config/supabase.server";
-import { ORDER_STATUSES, type OrderStatus, SYNC_STATUSES, type SyncStatus } from "../config/constants";
+import { getOrders, getOrderStatusCounts, getOrderLineItems, updateOrderStatusSimple } from "../config/supabase.server";
+import { ORDER_STATUSES, canChangeOrderStatus, type OrderStatus, SYNC_STATUSES, type SyncStatus } from "../config/constants";
+import { ORDER_LINE_ITEM_SOURCES, getLineItemLabel } from "../utils/order-line-items";
+import {
+    parseOrderFilters,
+    serializeOrderFilters,
+    hasActiveOrderFilters,
+    ORDER_PAYMENT_METHOD_OPTIONS,
+    ORDER_SOURCE_OPTIONS,
+    ORDER_FRAUD_OPTIONS,
+    ORDER_SORT_OPTIONS,
+    type OrderListFilters,
+    type OrderSortField,
+} from "../utils/order-filters";
+import { FRAUD_SIGNAL_LABELS, type FraudSignal } from "../config/fraud-protection.types";
+import { getHeldOrders, approveHeldOrder, rejectHeldOrder } from "../services/order-review.server";
+import { getExportPresets, getCustomFieldLabels } from "../services/order-export.server";
+import { runBulkOrderAction, BULK_ORDER_ACTIONS, type BulkOrderAction, type BulkOrderResult } from "../services/order-bulk-actions.server";
+import { getNdrQueueCounts } from "../services/ndr.server";
+import { OrderExportModal } from "./OrderExportModal";
+
+const BULK_CHUNK_SIZE = 5;
+
+const BULK_ACTION_LABELS: Record<BulkOrderAction, string> = {
+    confirm: "Confirm",
+    cancel: "Cancel",
+    mark_shipped: "Mark shipped",
+    mark_returned: "Mark returned",
+    retry_sync: "Retry sync",
+    add_tag: "Add tag",
+    book_shipment: "Book shipment",
+};
 
 /**
  * Loader: Fetch all orders
@@ -28,42 +59,91 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     } catch (e) { console.log('Error fetching shop currency:', e); }
 
     const url = new URL(request.url);
-    const statusFilter = url.searchParams.get("status") as OrderStatus | null;
-    const page = parseInt(url.searchParams.get("page") || "1");
+    const filters = parseOrderFilters(url.searchParams);
     const limit = 20;
-    const offset = (page - 1) * limit;
-
-    const { orders, totalCount } = await getOrders(shopDomain, {
-        status: statusFilter || undefined,
-        limit,
-        offset,
-    });
-
-    // Calculate stats
-    const pendingCount = orders.filter((o: any) => o.status === 'pending').length;
-    const confirmedCount = orders.filter((o: any) => o.status === 'confirmed').length;
+    const offset = (filters.page - 1) * limit;
+
+    const [{ orders, totalCount }, statusCounts, { orders: heldOrders, totalCount: heldCount }, exportPresets, customFieldLabels, ndrCounts] = await Promise.all([
+        getOrders(shopDomain, { filters, limit, offset }),
+        // Counts cover every order matching the other filters, not just this page
+        getOrderStatusCounts(shopDomain, filters),
+        getHeldOrders(shopDomain),
+        getExportPresets(shopDomain),
+        getCustomFieldLabels(shopDomain),
+        getNdrQueueCounts(shopDomain),
+    ]);
+    const lineItemsByOrder = await getOrderLineItems(shopDomain, orders);
 
     return {
         shop: shopDomain,
         orders,
+        lineItemsByOrder,
         totalCount,
-        currentPage: page,
+        currentPage: filters.page,
         totalPages: Math.ceil(totalCount / limit),
-        statusFilter,
-        pendingCount,
-        confirmedCount,
+        filters,
+        statusCounts,
         shopCurrency,
+        heldOrders,
+        heldCount,
+        exportPresets,
+        customFieldLabels,
+        ndrOpenCount: ndrCounts.open,
     };
 };
 
 /**
- * Action: Update order status
+ * Action: Update order status, approve/reject a held order, or run a bulk action
  */
 export const action = async ({ request }: ActionFunctionArgs) => {
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
     const formData = await request.formData();
+    const intent = formData.get("intent") as string | null;
+    const actor = session.onlineAccessInfo?.associated_user?.email || "merchant";
+
+    if (intent === "bulk") {
+        const bulkAction = formData.get("bulkAction") as BulkOrderAction;
+        let orderIds: string[] = [];
+        try {
+            orderIds = JSON.parse(String(formData.get("orderIds") || "[]"));
+        } catch {
+            return { success: false, intent, error: "Invalid order selection" };
+        }
+        if (!BULK_ORDER_ACTIONS.includes(bulkAction) || !Array.isArray(orderIds) || orderIds.length === 0) {
+            return { success: false, intent, error: "Invalid bulk action" };
+        }
+        try {
+            const results = await runBulkOrderAction(session.shop, orderIds.map(String), bulkAction, {
+                tag: (formData.get("tag") as string | null) || undefined,
+                actor,
+            });
+            return { success: true, intent, results };
+        } catch (error: any) {
+            console.error(`[Bulk] ${bulkAction} failed:`, error);
+            return { success: false, intent, error: error.message };
+        }
+    }
 
     const orderId = formData.get("orderId") as string;
+
+    if (intent === "approve_held" || intent === "reject_held") {
+        if (!orderId) {
+            return { success: false, intent, error: "Missing order ID" };
+        }
+        try {
+            const result = intent === "approve_held"
+                ? await approveHeldOrder(session.shop, orderId, actor)
+                : await rejectHeldOrder(session.shop, orderId, {
+                    blockCustomer: formData.get("blockCustomer") === "true",
+                    actor,
+                });
+            return { ...result, intent, orderId };
+        } catch (error: any) {
+            console.error(`[Order Review] ${intent} failed:`, error);
+            return { success: false, intent, orderId, error: error.message };
+        }
+    }
+
     const newStatus = formData.get("status") as OrderStatus;
 
     console.log(`[Order Action] Updating Order ${orderId} to status: ${newStatus}`);
@@ -74,12 +154,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     try {
-        const result = await updateOrderStatusSimple(orderId, newStatus);
+        const result = await updateOrderStatusSimple(session.shop, orderId, newStatus, actor);
         console.log(`[Order Action] Success:`, result);
         return { success: true, orderId, newStatus };
     } catch (error: any) {
         console.error(`[Order Action] Exception:`, error);
-        return { success: false, error: error.message };
+        return { success: false, orderId, error: error.message };
     }
 };
 
@@ -87,7 +167,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
  * Orders Page Component - Premium Design
  */
 export default function OrdersPage() {
-    const { shop, orders, totalCount, currentPage, totalPages, statusFilter, pendingCount, confirmedCount, shopCurrency } = useLoaderData<typeof loader>();
+    const { shop, orders, lineItemsByOrder, totalCount, currentPage, totalPages, filters, statusCounts, shopCurrency, heldOrders, heldCount, exportPresets, customFieldLabels, ndrOpenCount } = useLoaderData<typeof loader>();
+    const statusFilter = filters.status;
     const navigation = useNavigation();
     const fetcher = useFetcher();
     const shopify = useAppBridge();
@@ -117,21 +198,47 @@ export default function OrdersPage() {
         );
     }, [retryFetcher, shop]);
 
+    // Review queue: approve / reject held orders
+    const reviewFetcher = useFetcher();
+    const [blockOnReject, setBlockOnReject] = useState<Record<string, boolean>>({});
+    const reviewingOrderId = reviewFetcher.state !== "idle" ? reviewFetcher.formData?.get("orderId") : null;
+
+    useEffect(() => {
+        if (reviewFetcher.state === "idle" && reviewFetcher.data) {
+            if (reviewFetcher.data.success) {
+                if (reviewFetcher.data.intent === "approve_held") {
+                    shopify.toast.show(`Order approved${reviewFetcher.data.shopifyOrderName ? ` — created ${reviewFetcher.data.shopifyOrderName}` : ''}`);
+                } else {
+                    shopify.toast.show("Order rejected");
+                }
+            } else if (reviewFetcher.data.error) {
+                shopify.toast.show(`Error: ${reviewFetcher.data.error}`);
+            }
+        }
+    }, [reviewFetcher.state, reviewFetcher.data, shopify]);
+
+    const handleReview = useCallback((orderId: string, intent: "approve_held" | "reject_held") => {
+        reviewFetcher.submit(
+            { intent, orderId, blockCustomer: String(!!blockOnReject[orderId]) },
+            { method: "post" }
+        );
+    }, [reviewFetcher, blockOnReject]);
+
     // Optimistic status updates
     const [pendingUpdates, setPendingUpdates] = useState<Record<string, string>>({});
 
     // Handle fetcher response
     useEffect(() => {
         if (fetcher.state === "idle" && fetcher.data) {
+            if (fetcher.data.orderId) {
+                setPendingUpdates(prev => {
+                    const next = { ...prev };
+                    delete next[fetcher.data.orderId];
+                    return next;
+                });
+            }
             if (fetcher.data.success) {
                 shopify.toast.show("Status updated successfully!");
-                if (fetcher.data.orderId) {
-                    setPendingUpdates(prev => {
-                        const next = { ...prev };
-                        delete next[fetcher.data.orderId];
-                        return next;
-                    });
-                }
             } else if (fetcher.data.error) {
                 shopify.toast.show(`Error: ${fetcher.data.error}`);
             }
@@ -167,8 +274,120 @@ export default function OrdersPage() {
 
     const navigate = useNavigate();
 
+    // Every filter lives in the URL, so a filtered view can be bookmarked or shared
+    const applyFilters = useCallback((changes: Partial<OrderListFilters>) => {
+        const query = serializeOrderFilters({ ...filters, page: 1, ...changes });
+        navigate(query ? `/app/orders?${query}` : '/app/orders');
+    }, [filters, navigate]);
+
+    // Text inputs are applied on Enter / Search, not on every keystroke
+    const [searchInput, setSearchInput] = useState(filters.q || '');
+    const [couponInput, setCouponInput] = useState(filters.coupon || '');
+    useEffect(() => {
+        setSearchInput(filters.q || '');
+        setCouponInput(filters.coupon || '');
+    }, [filters.q, filters.coupon]);
+
+    const applyTextFilters = useCallback(() => {
+        applyFilters({ q: searchInput.trim() || undefined, coupon: couponInput.trim() || undefined });
+    }, [applyFilters, searchInput, couponInput]);
+
+    const handleSort = useCallback((field: OrderSortField) => {
+        if (filters.sort === field) {
+            applyFilters({ dir: filters.dir === 'asc' ? 'desc' : 'asc' });
+        } else {
+            applyFilters({ sort: field, dir: field === 'created_at' || field === 'total_price' ? 'desc' : 'asc' });
+        }
+    }, [applyFilters, filters.sort, filters.dir]);
+
+    const [exportOpen, setExportOpen] = useState(false);
+    const [exportSelectedOnly, setExportSelectedOnly] = useState(false);
+
+    // ── Bulk actions ──
+    // The selection is sent in small chunks, one request each, so the page can
+    // show progress and one slow Shopify call can't time out the whole batch.
+    const bulkFetcher = useFetcher<any>();
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [bulkTag, setBulkTag] = useState("");
+    const [confirmCancelOpen, setConfirmCancelOpen] = useState(false);
+    const [bulkRun, setBulkRun] = useState<{
+        action: BulkOrderAction;
+        tag?: string;
+        queue: string[][];
+        total: number;
+        results: BulkOrderResult[];
+        error?: string;
+        done: boolean;
+    } | null>(null);
+    const handledBulkData = useRef<unknown>(null);
+
+    const pageOrderIds = orders.map((o: any) => String(o.id));
+    const allOnPageSelected = pageOrderIds.length > 0 && pageOrderIds.every((id: string) => selectedIds.includes(id));
+    const isBulkRunning = !!bulkRun && !bulkRun.done;
+
+    // Selection only applies to the page it was made on (not cleared by revalidation)
+    const filterKey = serializeOrderFilters(filters);
+    useEffect(() => {
+        setSelectedIds([]);
+    }, [filterKey]);
+
+    const toggleSelected = useCallback((orderId: string, checked: boolean) => {
+        setSelectedIds(prev => checked ? [...prev, orderId] : prev.filter(id => id !== orderId));
+    }, []);
+
+    const submitBulkChunk = useCallback((action: BulkOrderAction, orderIds: string[], tag?: string) => {
+        bulkFetcher.submit(
+            { intent: "bulk", bulkAction: action, orderIds: JSON.stringify(orderIds), tag: tag || "" },
+            { method: "post" }
+        );
+    }, [bulkFetcher]);
+
+    const startBulkAction = useCallback((action: BulkOrderAction) => {
+        if (selectedIds.length === 0 || isBulkRunning) return;
+        const tag = action === "add_tag" ? bulkTag.trim() : undefined;
+        const chunks: string[][] = [];
+        for (let i = 0; i < selectedIds.length; i += BULK_CHUNK_SIZE) {
+            chunks.push(selectedIds.slice(i, i + BULK_CHUNK_SIZE));
+        }
+        setBulkRun({ action, tag, queue: chunks.slice(1), total: selectedIds.length, results: [], done: false });
+        submitBulkChunk(action, chunks[0], tag);
+    }, [selectedIds, isBulkRunning, bulkTag, submitBulkChunk]);
+
+    useEffect(() => {
+        if (bulkFetcher.state !== "idle" || !bulkFetcher.data || handledBulkData.current === bulkFetcher.data) return;
+        handledBulkData.current = bulkFetcher.data;
+        if (!bulkRun || bulkRun.done) return;
+
+        const data = bulkFetcher.data;
+        const results = [...bulkRun.results, ...(data.success ? data.results : [])];
+        const [next, ...rest] = data.success ? bulkRun.queue : [];
+
+        if (next) {
+            setBulkRun({ ...bulkRun, queue: rest, results });
+            submitBulkChunk(bulkRun.action, next, bulkRun.tag);
+        } else {
+            setBulkRun({ ...bulkRun, queue: [], results, done: true, error: data.success ? undefined : data.error });
+            setSelectedIds([]);
+            shopify.toast.show(data.success ? "Bulk action finished" : `Error: ${data.error}`);
+        }
+    }, [bulkFetcher.state, bulkFetcher.data, bulkRun, submitBulkChunk, shopify]);
+
+    const bulkSummary = bulkRun ? {
+        processed: bulkRun.results.length,
+        updated: bulkRun.results.filter(r => r.outcome === "updated").length,
+        skipped: bulkRun.results.filter(r => r.outcome === "skipped"),
+        failed: bulkRun.results.filter(r => r.outcome === "failed"),
+    } : null;
+
+    const sortIndicator = (field: OrderSortField) => filters.sort === field ? (filters.dir === 'asc' ? ' ↑' : ' ↓') : '';
+
     // Build Select options for status dropdown
-    const statusSelectOptions = ORDER_STATUSES.map(s => ({ label: s.label, value: s.value }));
+    // Only statuses the order can move to are selectable (see ORDER_STATUS_TRANSITIONS)
+    const statusSelectOptions = (current: string | null) => ORDER_STATUSES.map(s => ({
+        label: s.label,
+        value: s.value,
+        disabled: s.value !== (current || 'pending') && !canChangeOrderStatus(current, s.value),
+    }));
 
     // Get display status
     const getDisplayStatus = (order: any) => {
@@ -361,6 +580,85 @@ export default function OrdersPage() {
                     background: #f3f4f6;
                 }
 
+                /* Search & Filters */
+                .filter-bar {
+                    display: grid;
+                    grid-template-columns: repeat(4, minmax(0, 1fr));
+                    gap: 12px;
+                    align-items: end;
+                }
+
+                .filter-bar .filter-search {
+                    grid-column: span 2;
+                }
+
+                .filter-date-label {
+                    display: block;
+                    font-size: 13px;
+                    color: #303030;
+                    margin-bottom: 4px;
+                }
+
+                .filter-date {
+                    width: 100%;
+                    box-sizing: border-box;
+                    padding: 6px 10px;
+                    border: 1px solid #8a8a8a;
+                    border-radius: 8px;
+                    font-size: 13px;
+                    min-height: 32px;
+                }
+
+                /* Bulk actions */
+                .bulk-bar {
+                    display: flex;
+                    align-items: center;
+                    justify-content: space-between;
+                    flex-wrap: wrap;
+                    gap: 12px;
+                    padding: 0 4px 12px;
+                }
+
+                .bulk-tag {
+                    min-width: 260px;
+                }
+
+                .order-id-cell {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                }
+
+                /* Sortable column header */
+                .orders-header {
+                    display: grid;
+                    grid-template-columns: 100px 1.2fr 1fr 100px 140px 120px 80px;
+                    gap: 16px;
+                    padding: 0 24px;
+                    font-size: 12px;
+                    font-weight: 600;
+                    color: #6b7280;
+                    text-transform: uppercase;
+                    letter-spacing: 0.03em;
+                }
+
+                .sort-header {
+                    background: none;
+                    border: none;
+                    padding: 0;
+                    font: inherit;
+                    color: inherit;
+                    text-transform: inherit;
+                    letter-spacing: inherit;
+                    text-align: left;
+                    cursor: pointer;
+                }
+
+                .sort-header:hover,
+                .sort-header.active {
+                    color: #6366f1;
+                }
+
                 /* Order Cards Container */
                 .orders-container {
                     display: flex;
@@ -558,6 +856,12 @@ export default function OrdersPage() {
                         padding: 16px 20px;
                         gap: 12px;
                     }
+
+                    .orders-header {
+                        grid-template-columns: 90px 1fr 1fr 90px 120px 100px 70px;
+                        padding: 0 20px;
+                        gap: 12px;
+                    }
                 }
 
                 @media (max-width: 900px) {
@@ -565,6 +869,14 @@ export default function OrdersPage() {
                         grid-template-columns: repeat(2, 1fr);
                     }
 
+                    .filter-bar {
+                        grid-template-columns: 1fr 1fr;
+                    }
+
+                    .orders-header {
+                        display: none;
+                    }
+
                     .order-card {
                         display: flex;
                         flex-direction: column;
@@ -679,6 +991,12 @@ export default function OrdersPage() {
                 title="All Orders"
                 subtitle="Manage and track your COD orders"
                 backAction={{ content: 'Dashboard', onAction: () => navigate('/app') }}
+                secondaryActions={[
+                    { content: ndrOpenCount > 0 ? `Failed deliveries (${ndrOpenCount})` : 'Failed deliveries', onAction: () => navigate('/app/orders/ndr') },
+                    { content: 'COD remittance', onAction: () => navigate('/app/orders/remittance') },
+                    { content: 'Customers', onAction: () => navigate('/app/customers') },
+                    { content: 'Export', icon: ExportIcon, onAction: () => setExportOpen(true) },
+                ]}
             >
 
                 {/* Stats Grid */}
@@ -693,14 +1011,14 @@ export default function OrdersPage() {
                     <div className="stat-card">
                         <div className="stat-icon stat-icon-orange"><svg width="22" height="22" viewBox="0 0 20 20" fill="none"><circle cx="10" cy="10" r="7" stroke="white" strokeWidth="1.5" fill="none" /><path d="M10 6v4l3 3" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" fill="none" /></svg></div>
                         <div className="stat-content">
-                            <h3>{pendingCount}</h3>
+                            <h3>{statusCounts.pending}</h3>
                             <p>Pending</p>
                         </div>
                     </div>
                     <div className="stat-card">
                         <div className="stat-icon stat-icon-green"><svg width="22" height="22" viewBox="0 0 20 20" fill="none"><path d="M6 10l3 3 5-5" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" fill="none" /></svg></div>
                         <div className="stat-content">
-                            <h3>{confirmedCount}</h3>
+                            <h3>{statusCounts.confirmed}</h3>
                             <p>Confirmed</p>
                         </div>
                     </div>
@@ -713,31 +1031,290 @@ export default function OrdersPage() {
                     </div>
                 </div>
 
+                {/* Review Queue */}
+                {heldCount > 0 && (
+                    <div style={{ marginBottom: '20px' }}>
+                        <Card>
+                            <BlockStack gap="400">
+                                <InlineStack align="space-between" blockAlign="center">
+                                    <BlockStack gap="100">
+                                        <Text as="h2" variant="headingMd">{`Review queue (${heldCount})`}</Text>
+                                        <Text as="p" variant="bodySm" tone="subdued">
+                                            Held by fraud risk scoring. Approved orders are created in Shopify; rejected orders are cancelled.
+                                        </Text>
+                                    </BlockStack>
+                                    <Button url="/app/fraud-protection" variant="plain">Risk settings</Button>
+                                </InlineStack>
+                                {heldOrders.map((order: any) => {
+                                    const signals: FraudSignal[] = Array.isArray(order.fraud_signals) ? order.fraud_signals : [];
+                                    const isReviewing = reviewingOrderId === order.id;
+                                    return (
+                                        <div key={order.id} style={{ borderTop: '1px solid #f3f4f6', paddingTop: '16px' }}>
+                                            <InlineStack align="space-between" blockAlign="start" gap="400" wrap>
+                                                <BlockStack gap="100">
+                                                    <InlineStack gap="200" blockAlign="center">
+                                                        <Link to={`/app/orders/${order.id}`}>
+                                                            {order.shopify_order_name || `#${order.id.slice(0, 8)}`}
+                                                        </Link>
+                                                        <Badge tone="attention">{`Risk ${order.fraud_score ?? 0}`}</Badge>
+                                                    </InlineStack>
+                                                    <Text as="span" variant="bodySm">
+                                                        {`${order.customer_name} · ${order.customer_phone} · ${formatCurrency(order.total_price)}`}
+                                                    </Text>
+                                                    <Text as="span" variant="bodySm" tone="subdued">
+                                                        {`${formatDate(order.created_at)}${signals.length > 0 ? ` · ${signals.map((signal) => FRAUD_SIGNAL_LABELS[signal.key] || signal.key).join(', ')}` : ''}`}
+                                                    </Text>
+                                                </BlockStack>
+                                                <BlockStack gap="200" inlineAlign="end">
+                                                    <ButtonGroup>
+                                                        <Button
+                                                            variant="primary"
+                                                            onClick={() => handleReview(order.id, "approve_held")}
+                                                            loading={isReviewing && reviewFetcher.formData?.get("intent") === "approve_held"}
+                                                            disabled={isReviewing}
+                                                        >
+                                                            Approve
+                                                        </Button>
+                                                        <Button
+                                                            tone="critical"
+                                                            onClick={() => handleReview(order.id, "reject_held")}
+                                                            loading={isReviewing && reviewFetcher.formData?.get("intent") === "reject_held"}
+                                                            disabled={isReviewing}
+                                                        >
+                                                            Reject
+                                                        </Button>
+                                                    </ButtonGroup>
+                                                    <Checkbox
+                                                        label="Block customer on reject"
+                                                        checked={!!blockOnReject[order.id]}
+                                                        onChange={(checked) => setBlockOnReject(prev => ({ ...prev, [order.id]: checked }))}
+                                                        disabled={isReviewing}
+                                                    />
+                                                </BlockStack>
+                                            </InlineStack>
+                                        </div>
+                                    );
+                                })}
+                            </BlockStack>
+                        </Card>
+                    </div>
+                )}
+
+                {/* Search & Filters */}
+                <div style={{ marginBottom: '16px' }}>
+                    <Card>
+                        <BlockStack gap="300">
+                            <form className="filter-bar" onSubmit={(e) => { e.preventDefault(); applyTextFilters(); }}>
+                                <div className="filter-search">
+                                    <TextField
+                                        label="Search"
+                                        labelHidden
+                                        placeholder="Order number, phone, customer name or email"
+                                        value={searchInput}
+                                        onChange={setSearchInput}
+                                        autoComplete="off"
+                                        clearButton
+                                        onClearButtonClick={() => { setSearchInput(''); applyFilters({ q: undefined }); }}
+                                        connectedRight={<Button submit>Search</Button>}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="filter-date-label" htmlFor="orders-from">From</label>
+                                    <input
+                                        id="orders-from"
+                                        className="filter-date"
+                                        type="date"
+                                        value={filters.from || ''}
+                                        max={filters.to || undefined}
+                                        onChange={(e) => applyFilters({ from: e.target.value || undefined })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="filter-date-label" htmlFor="orders-to">To</label>
+                                    <input
+                                        id="orders-to"
+                                        className="filter-date"
+                                        type="date"
+                                        value={filters.to || ''}
+                                        min={filters.from || undefined}
+                                        onChange={(e) => applyFilters({ to: e.target.value || undefined })}
+                                    />
+                                </div>
+                                <Select
+                                    label="Payment"
+                                    options={[{ label: 'All payments', value: '' }, ...ORDER_PAYMENT_METHOD_OPTIONS]}
+                                    value={filters.payment || ''}
+                                    onChange={(value) => applyFilters({ payment: (value || undefined) as OrderListFilters['payment'] })}
+                                />
+                                <Select
+                                    label="Shopify sync"
+                                    options={[{ label: 'Any sync status', value: '' }, ...SYNC_STATUSES.map(s => ({ label: s.value === 'pending_sync' ? 'Waiting to sync' : s.label, value: s.value }))]}
+                                    value={filters.sync || ''}
+                                    onChange={(value) => applyFilters({ sync: (value || undefined) as SyncStatus | undefined })}
+                                />
+                                <Select
+                                    label="Source"
+                                    options={[{ label: 'All sources', value: '' }, ...ORDER_SOURCE_OPTIONS]}
+                                    value={filters.source || ''}
+                                    onChange={(value) => applyFilters({ source: (value || undefined) as OrderListFilters['source'] })}
+                                />
+                                <Select
+                                    label="Fraud risk"
+                                    options={[{ label: 'Any risk', value: '' }, ...ORDER_FRAUD_OPTIONS]}
+                                    value={filters.fraud || ''}
+                                    onChange={(value) => applyFilters({ fraud: (value || undefined) as OrderListFilters['fraud'] })}
+                                />
+                                <TextField
+                                    label="Coupon code"
+                                    value={couponInput}
+                                    onChange={setCouponInput}
+                                    onBlur={() => { if (couponInput.trim() !== (filters.coupon || '')) applyTextFilters(); }}
+                                    autoComplete="off"
+                                />
+                                <Select
+                                    label="Sort by"
+                                    options={ORDER_SORT_OPTIONS}
+                                    value={filters.sort}
+                                    onChange={(value) => applyFilters({ sort: value as OrderSortField })}
+                                />
+                                <Select
+                                    label="Order"
+                                    options={[{ label: 'Descending', value: 'desc' }, { label: 'Ascending', value: 'asc' }]}
+                                    value={filters.dir}
+                                    onChange={(value) => applyFilters({ dir: value as 'asc' | 'desc' })}
+                                />
+                            </form>
+                            {hasActiveOrderFilters(filters) && (
+                                <InlineStack align="space-between" blockAlign="center">
+                                    <Text as="span" variant="bodySm" tone="subdued">
+                                        {`${totalCount} matching order${totalCount === 1 ? '' : 's'} · copy the page URL to share this view`}
+                                    </Text>
+                                    <Button
+                                        variant="plain"
+                                        onClick={() => applyFilters({ q: undefined, status: undefined, from: undefined, to: undefined, payment: undefined, sync: undefined, source: undefined, coupon: undefined, fraud: undefined })}
+                                    >
+                                        Clear filters
+                                    </Button>
+                                </InlineStack>
+                            )}
+                        </BlockStack>
+                    </Card>
+                </div>
+
                 {/* Filter Pills */}
                 <div style={{ marginBottom: '20px' }}>
                     <InlineStack gap="200" wrap>
                         <Button
                             variant={!statusFilter ? 'primary' : undefined}
-                            onClick={() => navigate('/app/orders')}
+                            onClick={() => applyFilters({ status: undefined })}
                         >
-                            {`All Orders (${totalCount})`}
+                            {`All Orders (${statusCounts.all})`}
                         </Button>
                         {ORDER_STATUSES.map((status) => (
                             <Button
                                 key={status.value}
                                 variant={statusFilter === status.value ? 'primary' : undefined}
-                                onClick={() => navigate(`/app/orders?status=${status.value}`)}
+                                onClick={() => applyFilters({ status: status.value })}
                             >
-                                {status.label}
+                                {`${status.label} (${statusCounts[status.value]})`}
                             </Button>
                         ))}
                     </InlineStack>
                 </div>
 
+                {/* Bulk Actions */}
+                {bulkRun && bulkSummary && (
+                    <div style={{ marginBottom: '16px' }}>
+                        {!bulkRun.done ? (
+                            <Card>
+                                <BlockStack gap="200">
+                                    <Text as="p" variant="bodySm">
+                                        {`${BULK_ACTION_LABELS[bulkRun.action]}: ${bulkSummary.processed} of ${bulkRun.total} orders processed…`}
+                                    </Text>
+                                    <ProgressBar progress={Math.round((bulkSummary.processed / bulkRun.total) * 100)} size="small" />
+                                </BlockStack>
+                            </Card>
+                        ) : (
+                            <Banner
+                                tone={bulkRun.error || bulkSummary.failed.length > 0 ? 'warning' : 'success'}
+                                title={`${BULK_ACTION_LABELS[bulkRun.action]}: ${bulkSummary.updated} updated, ${bulkSummary.skipped.length} skipped, ${bulkSummary.failed.length + (bulkRun.total - bulkSummary.processed)} failed`}
+                                onDismiss={() => setBulkRun(null)}
+                            >
+                                <BlockStack gap="100">
+                                    {bulkRun.error && <p>{`Stopped early: ${bulkRun.error}`}</p>}
+                                    {[...bulkSummary.failed, ...bulkSummary.skipped].slice(0, 20).map((r) => (
+                                        <p key={r.orderId}>{`${r.orderName} — ${r.outcome === 'failed' ? 'failed' : 'skipped'}: ${r.message || ''}`}</p>
+                                    ))}
+                                </BlockStack>
+                            </Banner>
+                        )}
+                    </div>
+                )}
+
+                {orders.length > 0 && (
+                    <div className="bulk-bar">
+                        <Checkbox
+                            label={selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all on this page'}
+                            checked={allOnPageSelected ? true : selectedIds.length > 0 ? 'indeterminate' : false}
+                            onChange={(checked) => setSelectedIds(checked ? pageOrderIds : [])}
+                            disabled={isBulkRunning}
+                        />
+                        {selectedIds.length > 0 && (
+                            <InlineStack gap="200" wrap blockAlign="center">
+                                <ButtonGroup>
+                                    <Button onClick={() => startBulkAction('confirm')} disabled={isBulkRunning}>Confirm</Button>
+                                    <Button onClick={() => startBulkAction('book_shipment')} disabled={isBulkRunning}>Book shipment</Button>
+                                    <Button onClick={() => startBulkAction('mark_shipped')} disabled={isBulkRunning}>Mark shipped</Button>
+                                    <Button onClick={() => startBulkAction('mark_returned')} disabled={isBulkRunning}>Mark returned</Button>
+                                    <Button onClick={() => startBulkAction('retry_sync')} disabled={isBulkRunning}>Retry sync</Button>
+                                    <Button onClick={() => { setExportSelectedOnly(true); setExportOpen(true); }} disabled={isBulkRunning}>Export</Button>
+                                    <Button tone="critical" onClick={() => setConfirmCancelOpen(true)} disabled={isBulkRunning}>Cancel orders</Button>
+                                </ButtonGroup>
+                                <div className="bulk-tag">
+                                    <TextField
+                                        label="Tag"
+                                        labelHidden
+                                        placeholder="Shopify tag, e.g. Priority"
+                                        value={bulkTag}
+                                        onChange={setBulkTag}
+                                        autoComplete="off"
+                                        connectedRight={
+                                            <Button onClick={() => startBulkAction('add_tag')} disabled={isBulkRunning || !bulkTag.trim()}>Add tag</Button>
+                                        }
+                                    />
+                                </div>
+                            </InlineStack>
+                        )}
+                    </div>
+                )}
+
                 {/* Orders List */}
                 {orders.length > 0 ? (
                     <>
                         <div className="orders-container">
+                            {/* Sortable column header (desktop only) */}
+                            <div className="orders-header">
+                                {([
+                                    ['shopify_order_name', 'Order'],
+                                    ['customer_name', 'Customer'],
+                                    [null, 'Product'],
+                                    ['total_price', 'Total'],
+                                    ['status', 'Status'],
+                                    ['created_at', 'Date'],
+                                    [null, 'Sync'],
+                                ] as [OrderSortField | null, string][]).map(([field, label]) => field ? (
+                                    <button
+                                        key={label}
+                                        type="button"
+                                        className={`sort-header${filters.sort === field ? ' active' : ''}`}
+                                        onClick={() => handleSort(field)}
+                                    >
+                                        {label}{sortIndicator(field)}
+                                    </button>
+                                ) : (
+                                    <span key={label}>{label}</span>
+                                ))}
+                            </div>
                             {/* Desktop: Grid layout inside each card */}
                             {orders.map((order: any) => {
                                 const displayStatus = getDisplayStatus(order);
@@ -745,6 +1322,13 @@ export default function OrdersPage() {
                                 return (
                                     <div key={order.id} className="order-card">
                                         <div className="order-id-cell">
+                                            <Checkbox
+                                                label={`Select order ${order.shopify_order_name || order.id}`}
+                                                labelHidden
+                                                checked={selectedIds.includes(String(order.id))}
+                                                onChange={(checked) => toggleSelected(String(order.id), checked)}
+                                                disabled={isBulkRunning}
+                                            />
                                             <Link to={`/app/orders/${order.id}`}>
                                                 {order.shopify_order_name || `#${order.id.slice(0, 8)}`}
                                             </Link>
@@ -756,48 +1340,24 @@ export default function OrdersPage() {
                                         <div className="product-cell">
                                             <span className="product-title">{order.product_title || 'Product'}</span>
                                             <span className="product-qty">Qty: {order.quantity}</span>
-                                            {/* Bundle Variants */}
-                                            {order.customer_notes && order.customer_notes.includes('BUNDLE VARIANTS:') && (() => {
-                                                const variantLines = order.customer_notes.split('\n').filter((l: string) => l.trim().startsWith('- Item'));
-                                                return variantLines.length > 0 ? (
-                                                    <div style={{ marginTop: '4px', display: 'flex', flexDirection: 'column', gap: '3px' }}>
-                                                        {variantLines.map((line: string, idx: number) => {
-                                                            const m = line.match(/-\s*Item\s*\d+:\s*(.+?)\s*\(([^)]+)\)/);
-                                                            return m ? (
-                                                                <span key={'bv-' + idx} style={{ fontSize: '11px', padding: '2px 6px', borderRadius: '4px', background: '#eff6ff', color: '#1d4ed8', fontWeight: 600, display: 'inline-block', maxWidth: '180px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                                                    {m[1]}
-                                                                </span>
-                                                            ) : null;
-                                                        })}
-                                                    </div>
-                                                ) : null;
-                                            })()}
-                                            {/* Downsell */}
-                                            {order.customer_notes && order.customer_notes.includes('DOWNSELL APPLIED') && (() => {
-                                                const dsMatch = order.customer_notes.match(/DOWNSELL APPLIED:\s*(.+?)\s*\(([^)]+)\)/);
-                                                return dsMatch ? (
-                                                    <div style={{ marginTop: '4px' }}>
-                                                        <span style={{ fontSize: '11px', padding: '2px 6px', borderRadius: '4px', background: '#fffbeb', color: '#92400e', fontWeight: 600, display: 'inline-block', maxWidth: '180px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                                            ↓ {dsMatch[1]} ({dsMatch[2]})
-                                                        </span>
-                                                    </div>
-                                                ) : null;
-                                            })()}
-                                            {/* Upsell Items */}
-                                            {order.customer_notes && order.customer_notes.includes('UPSELL ITEMS') && (() => {
-                                                const lines = order.customer_notes.split('\n').filter((l: string) => l.trim().startsWith('-') && !l.trim().startsWith('- Item'));
-                                                return lines.length > 0 ? (
+                                            {/* Bundle, upsell and downsell lines, and every line of a cart order */}
+                                            {(() => {
+                                                const items = lineItemsByOrder[order.id] || [];
+                                                if (items.length === 0 || (items.length === 1 && items[0].source === 'main')) return null;
+                                                return (
                                                     <div style={{ marginTop: '4px', display: 'flex', flexDirection: 'column', gap: '3px' }}>
-                                                        {lines.map((line: string, idx: number) => {
-                                                            const m = line.match(/-\s*(.+?)\s*\(([^)]+)\)/);
-                                                            return m ? (
-                                                                <span key={idx} style={{ fontSize: '11px', padding: '2px 6px', borderRadius: '4px', background: '#ecfdf5', color: '#059669', fontWeight: 600, display: 'inline-block', maxWidth: '180px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                                                    + {m[1]} ({m[2]})
+                                                        {items.map((item) => {
+                                                            const style = ORDER_LINE_ITEM_SOURCES[item.source];
+                                                            const prefix = item.source === 'upsell' ? '+ ' : item.source === 'downsell' ? '↓ ' : '';
+                                                            const name = item.source === 'bundle' && item.variant_title ? item.variant_title : item.title;
+                                                            return (
+                                                                <span key={item.position} title={getLineItemLabel(item)} style={{ fontSize: '11px', padding: '2px 6px', borderRadius: '4px', background: style.background, color: style.color, fontWeight: 600, display: 'inline-block', maxWidth: '180px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                                    {prefix}{name}{item.quantity > 1 ? ` × ${item.quantity}` : ''}
                                                                 </span>
-                                                            ) : null;
+                                                            );
                                                         })}
                                                     </div>
-                                                ) : null;
+                                                );
                                             })()}
                                         </div>
                                         <div className="amount-cell">
@@ -807,7 +1367,7 @@ export default function OrdersPage() {
                                             <Select
                                                 label=""
                                                 labelHidden
-                                                options={statusSelectOptions}
+                                                options={statusSelectOptions(order.status)}
                                                 value={displayStatus}
                                                 onChange={(val) => handleStatusChange(order.id, val)}
                                                 disabled={isUpdating && !!pendingUpdates[order.id]}
@@ -825,6 +1385,9 @@ export default function OrdersPage() {
                                                 if (syncStatus === 'pending_sync' || syncStatus === 'syncing') {
                                                     return <Badge tone="warning">Syncing…</Badge>;
                                                 }
+                                                if (syncStatus === 'held') {
+                                                    return <Badge tone="attention">{order.review_status === 'rejected' ? 'Rejected' : 'Held for review'}</Badge>;
+                                                }
                                                 if (syncStatus === 'failed_sync') {
                                                     return (
                                                         <InlineStack gap="200" blockAlign="center">
@@ -855,9 +1418,9 @@ export default function OrdersPage() {
                             <div style={{ display: 'flex', justifyContent: 'center', padding: '24px 0' }}>
                                 <Pagination
                                     hasPrevious={currentPage > 1}
-                                    onPrevious={() => navigate(`/app/orders?page=${currentPage - 1}${statusFilter ? `&status=${statusFilter}` : ''}`)}
+                                    onPrevious={() => applyFilters({ page: currentPage - 1 })}
                                     hasNext={currentPage < totalPages}
-                                    onNext={() => navigate(`/app/orders?page=${currentPage + 1}${statusFilter ? `&status=${statusFilter}` : ''}`)}
+                                    onNext={() => applyFilters({ page: currentPage + 1 })}
                                     label={`Page ${currentPage} of ${totalPages}`}
                                 />
                             </div>
@@ -868,13 +1431,41 @@ export default function OrdersPage() {
                         <div className="empty-icon"><svg width="48" height="48" viewBox="0 0 20 20" fill="none"><rect x="3" y="5" width="14" height="12" rx="2" stroke="#d1d5db" strokeWidth="1.5" fill="none" /><path d="M3 9h14" stroke="#d1d5db" strokeWidth="1.5" /></svg></div>
                         <h3>No orders found</h3>
                         <p>
-                            {statusFilter
-                                ? `No ${statusFilter} orders yet`
+                            {hasActiveOrderFilters(filters)
+                                ? 'No orders match these filters. Try widening the search or clearing filters.'
                                 : 'Orders will appear here once customers start placing COD orders'}
                         </p>
                     </div>
                 )}
             </Page>
+
+            <OrderExportModal
+                open={exportOpen}
+                onClose={() => { setExportOpen(false); setExportSelectedOnly(false); }}
+                filterQuery={serializeOrderFilters({ ...filters, page: 1 })}
+                matchingCount={totalCount}
+                selectedOrderIds={exportSelectedOnly ? selectedIds : undefined}
+                presets={exportPresets}
+                customFieldLabels={customFieldLabels}
+            />
+
+            <Modal
+                open={confirmCancelOpen}
+                onClose={() => setConfirmCancelOpen(false)}
+                title={`Cancel ${selectedIds.length} order${selectedIds.length === 1 ? '' : 's'}?`}
+                primaryAction={{
+                    content: "Cancel orders",
+                    destructive: true,
+                    onAction: () => { setConfirmCancelOpen(false); startBulkAction('cancel'); },
+                }}
+                secondaryActions={[{ content: "Keep orders", onAction: () => setConfirmCancelOpen(false) }]}
+            >
+                <Modal.Section>
+                    <Text as="p">
+                        Orders already in Shopify are cancelled there too (items restocked, no refund — COD orders are unpaid). Shipped and delivered orders are skipped.
+                    </Text>
+                </Modal.Section>
+            </Modal>
         </>
     );
 }
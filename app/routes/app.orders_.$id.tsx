@@ -4,10 +4,17 @@
  */
 
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
-import { useLoaderData, useSubmit, useNavigation, Link, redirect } from "react-router";
+import { useState, useCallback, useEffect } from "react";
+import { useLoaderData, useSubmit, useNavigation, useFetcher, Link, redirect } from "react-router";
 import { authenticate } from "../shopify.server";
-import { supabase, updateOrderStatusSimple } from "../config/supabase.server";
-import { ORDER_STATUSES, type OrderStatus } from "../config/constants";
+import { orderLogsForShop, updateOrderStatusSimple, getOrderEvents, getOrderLineItems } from "../config/supabase.server";
+import { ORDER_STATUSES, ORDER_EVENT_TYPES, DELIVERY_STATUSES, NDR_STATUSES, COD_REMITTANCE_STATUSES, canChangeOrderStatus, type OrderStatus } from "../config/constants";
+import { getLineItemLabel, type OrderLineItem } from "../utils/order-line-items";
+import { FRAUD_DECISION_LABELS, FRAUD_SIGNAL_LABELS, type FraudDecision, type FraudSignal } from "../config/fraud-protection.types";
+import { applyOrderEdit, getEditableLineItems, getOrderEditBlocker, getOrderEdits } from "../services/order-edit.server";
+import { bookShipment, cancelShipment, getShipmentBlocker, getShipmentLabel, trackShipment } from "../services/shipments.server";
+import { getCustomerHistory } from "../services/customers.server";
+import { OrderEditCard } from "./OrderEditCard";
 
 /**
  * Loader: Fetch single order
@@ -29,11 +36,9 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         throw redirect("/app/orders");
     }
 
-    const { data: order, error } = await supabase
-        .from('order_logs')
+    const { data: order, error } = await orderLogsForShop(shopDomain)
         .select('*')
         .eq('id', orderId)
-        .eq('shop_domain', shopDomain)
         .single();
 
     if (error || !order) {
@@ -41,16 +46,79 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         throw redirect("/app/orders");
     }
 
-    return { order, shop: shopDomain, shopCurrency };
+    const editBlocker = getOrderEditBlocker(order);
+    const [editableLineItems, orderEdits, orderEvents, orderItems, customerHistory] = await Promise.all([
+        editBlocker ? Promise.resolve(null) : getEditableLineItems(shopDomain, order),
+        getOrderEdits(shopDomain, orderId),
+        getOrderEvents(shopDomain, order),
+        getOrderLineItems(shopDomain, [order]),
+        getCustomerHistory(shopDomain, order).catch(() => null),
+    ]);
+
+    return {
+        order,
+        shop: shopDomain,
+        shopCurrency,
+        editBlocker,
+        shipmentBlocker: getShipmentBlocker(order),
+        lineItems: editableLineItems?.lineItems ?? null,
+        orderItems: orderItems[order.id] || [],
+        orderEdits,
+        orderEvents,
+        customerHistory,
+    };
 };
 
 /**
- * Action: Update order status
+ * Action: Update order status, save an edit (intent "edit_order"), or book,
+ * cancel, label and track the courier shipment
  */
 export const action = async ({ request, params }: ActionFunctionArgs) => {
     const { session } = await authenticate.admin(request);
     const formData = await request.formData();
     const orderId = params.id;
+    const intent = String(formData.get("intent") || "");
+    const actor = session.onlineAccessInfo?.associated_user?.email || "merchant";
+
+    if (["book_shipment", "cancel_shipment", "shipment_label", "track_shipment"].includes(intent)) {
+        if (!orderId) {
+            return { success: false, intent, error: "Missing data" };
+        }
+        try {
+            if (intent === "book_shipment") return { ...(await bookShipment(session.shop, orderId, actor)), intent };
+            if (intent === "cancel_shipment") return { ...(await cancelShipment(session.shop, orderId, actor)), intent };
+            if (intent === "shipment_label") return { ...(await getShipmentLabel(session.shop, orderId)), intent };
+            return { ...(await trackShipment(session.shop, orderId)), intent };
+        } catch (error: any) {
+            return { success: false, intent, error: error.message };
+        }
+    }
+
+    if (intent === "edit_order") {
+        if (!orderId) {
+            return { success: false, intent: "edit_order", error: "Missing data" };
+        }
+        let quantities: Record<string, number> = {};
+        let additions: Array<{ variantId: string; title: string; quantity: number }> = [];
+        try {
+            quantities = JSON.parse(String(formData.get("quantities") || "{}"));
+            additions = JSON.parse(String(formData.get("additions") || "[]"));
+        } catch {
+            return { success: false, intent: "edit_order", error: "Invalid item changes" };
+        }
+        const result = await applyOrderEdit(session.shop, orderId, {
+            address: {
+                address: String(formData.get("address") || ""),
+                city: String(formData.get("city") || ""),
+                state: String(formData.get("state") || ""),
+                pincode: String(formData.get("pincode") || ""),
+            },
+            notes: String(formData.get("notes") ?? ""),
+            quantities,
+            additions: Array.isArray(additions) ? additions : [],
+        }, session.onlineAccessInfo?.associated_user?.email || null);
+        return { ...result, intent: "edit_order" };
+    }
 
     const newStatus = formData.get("status") as OrderStatus;
 
@@ -59,7 +127,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     }
 
     try {
-        await updateOrderStatusSimple(orderId, newStatus);
+        await updateOrderStatusSimple(session.shop, orderId, newStatus, actor);
         return { success: true };
     } catch (error: any) {
         return { success: false, error: error.message };
@@ -70,9 +138,39 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
  * Order Detail Component
  */
 export default function OrderDetailPage() {
-    const { order, shopCurrency } = useLoaderData<typeof loader>();
+    const { order, shopCurrency, editBlocker, shipmentBlocker, lineItems, orderItems, orderEdits, orderEvents, customerHistory } = useLoaderData<typeof loader>();
     const submit = useSubmit();
     const navigation = useNavigation();
+    const shipmentFetcher = useFetcher<any>();
+    const [isEditing, setIsEditing] = useState(false);
+    const [shipmentNotice, setShipmentNotice] = useState<{ tone: 'success' | 'warning' | 'critical'; message: string } | null>(null);
+    const closeEditor = useCallback(() => setIsEditing(false), []);
+
+    const isShipmentBusy = shipmentFetcher.state !== "idle";
+    const shipmentIntent = isShipmentBusy ? String(shipmentFetcher.formData?.get("intent") || "") : null;
+    const submitShipment = (intent: string) => {
+        if (intent === "cancel_shipment" && !window.confirm("Cancel this shipment with the courier? The order goes back to confirmed.")) return;
+        setShipmentNotice(null);
+        shipmentFetcher.submit({ intent }, { method: "post" });
+    };
+
+    useEffect(() => {
+        const data = shipmentFetcher.data;
+        if (shipmentFetcher.state !== "idle" || !data?.intent) return;
+        if (!data.success) {
+            setShipmentNotice({ tone: 'critical', message: data.error || 'Something went wrong' });
+        } else if (data.warning) {
+            setShipmentNotice({ tone: 'warning', message: data.warning });
+        } else if (data.intent === "book_shipment") {
+            setShipmentNotice({ tone: 'success', message: `Shipment booked — AWB ${data.awb}` });
+        } else if (data.intent === "shipment_label" && data.labelUrl) {
+            window.open(data.labelUrl, "_blank", "noopener");
+        } else if (data.intent === "track_shipment") {
+            setShipmentNotice({ tone: 'success', message: data.statusText ? `Latest status: ${data.statusText}` : 'Tracking refreshed' });
+        } else if (data.intent === "cancel_shipment") {
+            setShipmentNotice({ tone: 'success', message: 'Shipment cancelled' });
+        }
+    }, [shipmentFetcher.state, shipmentFetcher.data]);
 
     const isUpdating = navigation.state === "submitting";
 
@@ -85,8 +183,11 @@ export default function OrderDetailPage() {
         }).format(amount);
     };
 
-    // Strip currency symbols/commas from note-parsed price strings before parseFloat
-    const parsePrice = (s: string) => parseFloat(s.replace(/[^\d.-]/g, '')) || 0;
+    const itemName = (item: OrderLineItem) =>
+        [item.title, item.variant_title].filter((part) => part && part !== 'Default Title').join(' - ');
+    const bundleDiscount = orderItems.reduce((sum, item) => sum + item.discount_amount, 0);
+    const bundleVariantItems = orderItems.filter((item) => item.source === 'bundle');
+    const offerItems = orderItems.filter((item) => item.source === 'upsell' || item.source === 'downsell');
 
     // Format date
     const formatDate = (date: string) => {
@@ -113,6 +214,20 @@ export default function OrderDetailPage() {
     };
 
     const statusInfo = getStatusInfo(order.status || 'pending');
+    const deliveryInfo = DELIVERY_STATUSES.find(s => s.value === order.shipment_status);
+    const ndrInfo = NDR_STATUSES.find(s => s.value === order.ndr_status);
+    const remittanceInfo = COD_REMITTANCE_STATUSES.find(s => s.value === order.cod_remittance_status);
+
+    // Fraud risk (only recorded when the order went through fraud checks)
+    const fraudSignals: FraudSignal[] = Array.isArray(order.fraud_signals) ? order.fraud_signals : [];
+    const fraudDecision = (order.fraud_decision || 'allow') as FraudDecision;
+    const showFraudRisk = order.fraud_score != null && (fraudDecision !== 'allow' || fraudSignals.length > 0);
+    const fraudDecisionColors: Record<FraudDecision, string> = {
+        allow: '#10b981',
+        verify: '#3b82f6',
+        review: '#f59e0b',
+        block: '#ef4444',
+    };
 
     return (
         <>
@@ -307,6 +422,117 @@ export default function OrderDetailPage() {
                     word-break: break-word;
                     font-style: italic;
                 }
+                .header-actions {
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                    flex-shrink: 0;
+                }
+                .edit-order-btn {
+                    padding: 10px 16px;
+                    border-radius: 10px;
+                    font-size: 13px;
+                    font-weight: 600;
+                    cursor: pointer;
+                    border: 1px solid #e5e7eb;
+                    background: white;
+                    color: #374151;
+                }
+                .edit-order-btn:hover {
+                    background: #f9fafb;
+                    border-color: #d1d5db;
+                }
+                .edit-history-item {
+                    padding: 12px 14px;
+                    border-radius: 10px;
+                    background: #f9fafb;
+                    margin-bottom: 8px;
+                }
+                .edit-history-meta {
+                    font-size: 12px;
+                    color: #6b7280;
+                    margin-bottom: 6px;
+                }
+                .edit-history-change {
+                    font-size: 13px;
+                    color: #111827;
+                    line-height: 1.6;
+                    word-break: break-word;
+                }
+                .timeline {
+                    position: relative;
+                    padding-left: 28px;
+                }
+                .timeline::before {
+                    content: '';
+                    position: absolute;
+                    left: 11px;
+                    top: 6px;
+                    bottom: 6px;
+                    width: 2px;
+                    background: #e5e7eb;
+                }
+                .timeline-event {
+                    position: relative;
+                    padding-bottom: 16px;
+                }
+                .timeline-event:last-child {
+                    padding-bottom: 0;
+                }
+                .timeline-dot {
+                    position: absolute;
+                    left: -28px;
+                    top: 0;
+                    width: 24px;
+                    height: 24px;
+                    border-radius: 50%;
+                    background: white;
+                    border: 2px solid;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    font-size: 11px;
+                }
+                .timeline-title {
+                    font-size: 13px;
+                    font-weight: 600;
+                    color: #111827;
+                }
+                .timeline-message {
+                    font-size: 13px;
+                    color: #374151;
+                    margin-top: 2px;
+                    word-break: break-word;
+                }
+                .timeline-meta {
+                    font-size: 12px;
+                    color: #6b7280;
+                    margin-top: 2px;
+                }
+                .shipment-actions {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 8px;
+                    margin-top: 16px;
+                }
+                .shipment-notice {
+                    padding: 12px 14px;
+                    border-radius: 10px;
+                    font-size: 13px;
+                    margin-bottom: 12px;
+                }
+                .shipment-notice.success {
+                    background: #ecfdf5;
+                    color: #065f46;
+                }
+                .shipment-notice.warning {
+                    background: #fffbeb;
+                    color: #92400e;
+                }
+                .shipment-notice.critical {
+                    background: #fef2f2;
+                    color: #991b1b;
+                }
 
                 /* ==================== RESPONSIVE DESIGN ==================== */
 
@@ -403,17 +629,36 @@ export default function OrderDetailPage() {
                                 <p>{formatDate(order.created_at)}</p>
                             </div>
                         </div>
-                        <div
-                            className="current-status"
-                            style={{
-                                background: `${statusInfo.color}20`,
-                                color: statusInfo.color
-                            }}
-                        >
-                            {statusInfo.label}
+                        <div className="header-actions">
+                            {!editBlocker && !isEditing && (
+                                <button className="edit-order-btn" onClick={() => setIsEditing(true)}>✏️ Edit</button>
+                            )}
+                            {!shipmentBlocker && (
+                                <button className="edit-order-btn" onClick={() => submitShipment("book_shipment")} disabled={isShipmentBusy}>
+                                    {shipmentIntent === "book_shipment" ? "Booking…" : "🚚 Ship"}
+                                </button>
+                            )}
+                            <div
+                                className="current-status"
+                                style={{
+                                    background: `${statusInfo.color}20`,
+                                    color: statusInfo.color
+                                }}
+                            >
+                                {statusInfo.label}
+                            </div>
                         </div>
                     </div>
 
+                    {isEditing && (
+                        <OrderEditCard
+                            order={order}
+                            lineItems={lineItems}
+                            formatCurrency={formatCurrency}
+                            onClose={closeEditor}
+                        />
+                    )}
+
                     {/* Customer Information */}
                     <div className="order-card">
                         <div className="order-card-header">
@@ -451,6 +696,49 @@ export default function OrderDetailPage() {
                         </div>
                     </div>
 
+                    {/* Customer History */}
+                    {customerHistory && customerHistory.totalOrders > 0 && (
+                        <div className="order-card">
+                            <div className="order-card-header">
+                                <h2>🧾 Customer History</h2>
+                            </div>
+                            <div className="order-card-body">
+                                <div className="detail-grid">
+                                    <div className="detail-item">
+                                        <div className="detail-item-label">Orders</div>
+                                        <div className="detail-item-value">
+                                            {customerHistory.previousOrders === 0 ? 'First order' : `${customerHistory.totalOrders} (${customerHistory.previousOrders} before this)`}
+                                        </div>
+                                    </div>
+                                    <div className="detail-item">
+                                        <div className="detail-item-label">Delivered / Returned / Cancelled</div>
+                                        <div className="detail-item-value">
+                                            {`${customerHistory.deliveredCount} / ${customerHistory.returnedCount} / ${customerHistory.cancelledCount}`}
+                                        </div>
+                                    </div>
+                                    <div className="detail-item">
+                                        <div className="detail-item-label">RTO Rate</div>
+                                        <div className="detail-item-value" style={{ color: (customerHistory.rtoRate ?? 0) >= 50 ? '#ef4444' : (customerHistory.rtoRate ?? 0) > 0 ? '#f59e0b' : undefined }}>
+                                            {customerHistory.rtoRate == null ? '—' : `${customerHistory.rtoRate}%`}
+                                        </div>
+                                    </div>
+                                    <div className="detail-item">
+                                        <div className="detail-item-label">Lifetime Revenue</div>
+                                        <div className="detail-item-value">{formatCurrency(customerHistory.lifetimeRevenue)}</div>
+                                    </div>
+                                </div>
+                                {customerHistory.block.blocked && (
+                                    <div className="timeline-meta" style={{ marginTop: '12px', color: '#ef4444' }}>
+                                        {customerHistory.block.source === 'rto_history' ? `Automatically blocked: ${customerHistory.block.reason}` : 'On your block list'}
+                                    </div>
+                                )}
+                                <div className="timeline-meta" style={{ marginTop: '12px' }}>
+                                    <Link to={`/app/customers/${customerHistory.phoneKey}`}>View all orders from this customer</Link>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Order Details */}
                     <div className="order-card">
                         <div className="order-card-header">
@@ -490,151 +778,186 @@ export default function OrderDetailPage() {
                             <div style={{ marginTop: '16px', padding: '16px', background: '#f9fafb', borderRadius: '12px', border: '1px solid #e5e7eb' }}>
                                 <div style={{ fontSize: '13px', fontWeight: 600, color: '#6b7280', textTransform: 'uppercase' as const, letterSpacing: '0.5px', marginBottom: '12px' }}>Price Breakdown</div>
 
-                                {/* Parse notes for breakdown */}
-                                {(() => {
-                                    const notes = order.customer_notes || '';
-                                    const hasDiscount = notes.includes('BUNDLE DISCOUNT:');
-                                    const hasShipping = notes.includes('SHIPPING:');
-                                    const discountMatch = notes.match(/BUNDLE DISCOUNT:\s*([\d.]+)% off/);
-                                    const shippingMatch = notes.match(/SHIPPING:\s*(.+?)\s*\(([^)]+)\)/);
-                                    const downsellMatch = notes.match(/DOWNSELL APPLIED:\s*(.+?)\s*\(([^)]+)\)/);
-                                    const upsellLines = notes.split('\n').filter((l: string) => l.trim().startsWith('-'));
-
-                                    // Parse bundle variant lines
-                                    const bundleVariantLines = notes.includes('BUNDLE VARIANTS:')
-                                        ? notes.split('\n').filter((l: string) => l.trim().startsWith('- Item'))
-                                        : [];
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                    {orderItems.map((item) => (
+                                        <div key={item.position} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: item.source === 'upsell' ? '#059669' : '#374151' }}>
+                                            <span>
+                                                {item.source === 'upsell' ? '+ ' : ''}{itemName(item)}
+                                                {item.source !== 'main' ? ` (${getLineItemLabel(item)})` : ''}
+                                            </span>
+                                            <span>{formatCurrency(item.unit_price)} × {item.quantity}</span>
+                                        </div>
+                                    ))}
 
-                                    return (
-                                        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                                            {/* Bundle variant line items */}
-                                            {bundleVariantLines.map((line: string, idx: number) => {
-                                                const m = line.match(/-\s*Item\s*(\d+):\s*(.+?)\s*\(([^)]+)\)/);
-                                                if (!m) return null;
-                                                return (
-                                                    <div key={'bv-' + idx} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#374151' }}>
-                                                        <span>Item {m[1]}: {m[2]}</span>
-                                                        <span>{m[3]}</span>
-                                                    </div>
-                                                );
-                                            })}
-
-                                            {downsellMatch ? (
-                                                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#374151' }}>
-                                                    <span>Downsell: {downsellMatch[1]}</span>
-                                                    <span>{formatCurrency(parsePrice(downsellMatch[2]))} × {order.quantity}</span>
-                                                </div>
-                                            ) : null}
+                                    {bundleDiscount > 0 ? (
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#059669' }}>
+                                            <span>Bundle Discount</span>
+                                            <span>-{formatCurrency(bundleDiscount)}</span>
+                                        </div>
+                                    ) : null}
+
+                                    {Number(order.discount_amount) > 0 ? (
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#059669' }}>
+                                            <span>Coupon{order.coupon_code ? `: ${order.coupon_code}` : ''}</span>
+                                            <span>-{formatCurrency(Number(order.discount_amount))}</span>
+                                        </div>
+                                    ) : null}
 
-                                            {hasDiscount && discountMatch ? (
-                                                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#059669' }}>
-                                                    <span>Bundle Discount</span>
-                                                    <span>-{discountMatch[1]}%</span>
+                                    {Number(order.shipping_price) > 0 ? (
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#374151' }}>
+                                            <span>Shipping{order.shipping_label ? `: ${order.shipping_label}` : ''}</span>
+                                            <span>{formatCurrency(Number(order.shipping_price))}</span>
+                                        </div>
+                                    ) : null}
+
+                                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '18px', fontWeight: 800, color: '#111827', borderTop: '1px dashed #d1d5db', paddingTop: '8px', marginTop: '4px' }}>
+                                        <span>Total (COD)</span>
+                                        <span>{formatCurrency(order.total_price)}</span>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Shipment */}
+                    {(order.awb_number || deliveryInfo || shipmentNotice) && (
+                        <div className="order-card">
+                            <div className="order-card-header">
+                                <h2>🚚 Shipment</h2>
+                            </div>
+                            <div className="order-card-body">
+                                {shipmentNotice && (
+                                    <div className={`shipment-notice ${shipmentNotice.tone}`}>{shipmentNotice.message}</div>
+                                )}
+                                {deliveryInfo && (
+                                    <div className="detail-grid" style={{ marginBottom: '16px' }}>
+                                        <div className="detail-item">
+                                            <div className="detail-item-label">Delivery Status</div>
+                                            <div className="detail-item-value" style={{ color: deliveryInfo.color }}>{deliveryInfo.label}</div>
+                                            {order.shipment_status_text && order.shipment_status_text !== deliveryInfo.label && (
+                                                <div className="timeline-meta">{order.shipment_status_text}</div>
+                                            )}
+                                        </div>
+                                        {order.delivered_at && (
+                                            <div className="detail-item">
+                                                <div className="detail-item-label">Delivered</div>
+                                                <div className="detail-item-value">{formatDate(order.delivered_at)}</div>
+                                            </div>
+                                        )}
+                                        {ndrInfo && (
+                                            <div className="detail-item">
+                                                <div className="detail-item-label">Failed Delivery</div>
+                                                <div className="detail-item-value" style={{ color: ndrInfo.color }}>{ndrInfo.label}</div>
+                                                {(order.ndr_status === 'open' || order.ndr_status === 'reattempt_requested') && (
+                                                    <div className="timeline-meta"><Link to={`/app/orders/ndr?view=${order.ndr_status === 'open' ? 'open' : 'in_progress'}`}>Handle in the NDR queue</Link></div>
+                                                )}
+                                            </div>
+                                        )}
+                                        {order.status === 'delivered' && order.payment_method !== 'full_prepaid' && (
+                                            <div className="detail-item">
+                                                <div className="detail-item-label">COD Remittance</div>
+                                                {remittanceInfo ? (
+                                                    <>
+                                                        <div className="detail-item-value" style={{ color: remittanceInfo.color }}>
+                                                            {`${remittanceInfo.label} · ${formatCurrency(Number(order.remitted_amount))}`}
+                                                        </div>
+                                                        <div className="timeline-meta">
+                                                            {[order.remittance_date && new Date(order.remittance_date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" }), order.remittance_utr && `UTR ${order.remittance_utr}`].filter(Boolean).join(' · ')}
+                                                        </div>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <div className="detail-item-value" style={{ color: '#f59e0b' }}>Awaiting remittance</div>
+                                                        <div className="timeline-meta"><Link to="/app/orders/remittance">Reconcile settlement files</Link></div>
+                                                    </>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                                {order.awb_number && (
+                                    <>
+                                        <div className="detail-grid">
+                                            <div className="detail-item">
+                                                <div className="detail-item-label">Courier</div>
+                                                <div className="detail-item-value">{order.courier_name || order.courier_provider}</div>
+                                            </div>
+                                            <div className="detail-item">
+                                                <div className="detail-item-label">AWB</div>
+                                                <div className="detail-item-value">
+                                                    {order.tracking_url ? (
+                                                        <a href={order.tracking_url} target="_blank" rel="noopener noreferrer">{order.awb_number}</a>
+                                                    ) : order.awb_number}
                                                 </div>
-                                            ) : null}
-
-                                            {upsellLines.length > 0 && upsellLines.map((line: string, idx: number) => {
-                                                const m = line.match(/-\s*(.+?)\s*\(([^)]+)\)\s*x(\d+)\s*\[(.+?)\]/);
-                                                if (!m) return null;
-                                                return (
-                                                    <div key={idx} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#059669' }}>
-                                                        <span>+ {m[1]} ({m[4] === 'click_upsell' ? '1-Click' : m[4] === 'downsell' ? 'Downsell' : 'Tick'})</span>
-                                                        <span>{formatCurrency(parsePrice(m[2]))} × {m[3]}</span>
-                                                    </div>
-                                                );
-                                            })}
-
-                                            {hasShipping && shippingMatch ? (
-                                                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#374151' }}>
-                                                    <span>Shipping: {shippingMatch[1]}</span>
-                                                    <span>{formatCurrency(parsePrice(shippingMatch[2]))}</span>
+                                            </div>
+                                            <div className="detail-item">
+                                                <div className="detail-item-label">Shipped</div>
+                                                <div className="detail-item-value">
+                                                    {order.shipped_at ? formatDate(order.shipped_at) : '—'}
+                                                    {order.last_tracked_at && (
+                                                        <div className="timeline-meta">Last checked {formatDate(order.last_tracked_at)}</div>
+                                                    )}
                                                 </div>
-                                            ) : null}
-
-                                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '18px', fontWeight: 800, color: '#111827', borderTop: '1px dashed #d1d5db', paddingTop: '8px', marginTop: '4px' }}>
-                                                <span>Total (COD)</span>
-                                                <span>{formatCurrency(order.total_price)}</span>
                                             </div>
                                         </div>
-                                    );
-                                })()}
+                                        <div className="shipment-actions">
+                                            <button className="edit-order-btn" onClick={() => submitShipment("shipment_label")} disabled={isShipmentBusy}>
+                                                {shipmentIntent === "shipment_label" ? "Loading…" : "🏷️ Label"}
+                                            </button>
+                                            <button className="edit-order-btn" onClick={() => submitShipment("track_shipment")} disabled={isShipmentBusy}>
+                                                {shipmentIntent === "track_shipment" ? "Refreshing…" : "🔄 Refresh tracking"}
+                                            </button>
+                                            {(!order.shipment_status || order.shipment_status === 'booked') && (
+                                                <button className="edit-order-btn" onClick={() => submitShipment("cancel_shipment")} disabled={isShipmentBusy}>
+                                                    {shipmentIntent === "cancel_shipment" ? "Cancelling…" : "Cancel shipment"}
+                                                </button>
+                                            )}
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         </div>
-                    </div>
+                    )}
 
                     {/* Bundle Variants */}
-                    {order.customer_notes && order.customer_notes.includes('BUNDLE VARIANTS:') && (
+                    {bundleVariantItems.length > 1 && (
                         <div className="order-card">
                             <div className="order-card-header">
                                 <h2>🎨 Bundle Variant Selections</h2>
                             </div>
                             <div className="order-card-body">
-                                {order.customer_notes
-                                    .split('\n')
-                                    .filter((line: string) => {
-                                        // Only include lines after "BUNDLE VARIANTS:" and before next section
-                                        const idx = order.customer_notes.indexOf('BUNDLE VARIANTS:');
-                                        const lineIdx = order.customer_notes.indexOf(line);
-                                        if (lineIdx <= idx) return false;
-                                        // Stop at next section marker (UPSELL, SHIPPING, BUNDLE DISCOUNT, DOWNSELL)
-                                        const nextSection = order.customer_notes.substring(idx + 17).search(/\n(?:UPSELL|SHIPPING|BUNDLE DISCOUNT|DOWNSELL)/);
-                                        if (nextSection !== -1 && lineIdx > idx + 17 + nextSection) return false;
-                                        return line.trim().startsWith('- Item');
-                                    })
-                                    .map((line: string, idx: number) => {
-                                        const match = line.match(/-\s*Item\s*(\d+):\s*(.+?)\s*\(([^)]+)\)/);
-                                        if (!match) return null;
-                                        const [, itemNum, variantTitle, price] = match;
-                                        return (
-                                            <div key={idx} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 14px', borderRadius: '10px', background: '#f0f9ff', marginBottom: '8px', border: '1px solid #bae6fd' }}>
-                                                <div>
-                                                    <div style={{ fontWeight: 600, fontSize: '14px', color: '#111827' }}>Item {itemNum}</div>
-                                                    <div style={{ fontSize: '13px', color: '#6b7280', marginTop: '2px' }}>{variantTitle}</div>
-                                                </div>
-                                                <div style={{ fontWeight: 700, fontSize: '14px', color: '#0369a1' }}>{price}</div>
-                                            </div>
-                                        );
-                                    })}
+                                {bundleVariantItems.map((item, idx) => (
+                                    <div key={item.position} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 14px', borderRadius: '10px', background: '#f0f9ff', marginBottom: '8px', border: '1px solid #bae6fd' }}>
+                                        <div>
+                                            <div style={{ fontWeight: 600, fontSize: '14px', color: '#111827' }}>Item {idx + 1}</div>
+                                            <div style={{ fontSize: '13px', color: '#6b7280', marginTop: '2px' }}>{item.variant_title || item.title}</div>
+                                        </div>
+                                        <div style={{ fontWeight: 700, fontSize: '14px', color: '#0369a1' }}>{formatCurrency(item.unit_price)}</div>
+                                    </div>
+                                ))}
                             </div>
                         </div>
                     )}
 
                     {/* Upsell & Downsell Items */}
-                    {order.customer_notes && (order.customer_notes.includes('UPSELL ITEMS') || order.customer_notes.includes('DOWNSELL APPLIED')) && (
+                    {offerItems.length > 0 && (
                         <div className="order-card">
                             <div className="order-card-header">
                                 <h2>🎯 Upsell & Downsell Items</h2>
                             </div>
                             <div className="order-card-body">
-                                {/* Downsell items */}
-                                {order.customer_notes.includes('DOWNSELL APPLIED') && (() => {
-                                    const dsMatch = order.customer_notes.match(/DOWNSELL APPLIED:\s*(.+?)\s*\(([^)]+)\)/);
-                                    if (!dsMatch) return null;
-                                    return (
-                                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 14px', borderRadius: '10px', background: '#fffbeb', marginBottom: '8px', border: '1px solid #fde68a' }}>
-                                            <div>
-                                                <div style={{ fontWeight: 600, fontSize: '14px', color: '#111827' }}>{dsMatch[1]}</div>
-                                                <span style={{ display: 'inline-block', marginTop: '4px', padding: '2px 8px', borderRadius: '6px', background: '#fef3c7', color: '#92400e', fontSize: '11px', fontWeight: 600 }}>Downsell</span>
-                                            </div>
-                                            <div style={{ fontWeight: 700, fontSize: '16px', color: '#b45309' }}>{dsMatch[2]}</div>
-                                        </div>
-                                    );
-                                })()}
-
-                                {/* Upsell items */}
-                                {order.customer_notes.includes('UPSELL ITEMS') && order.customer_notes.split('\n').filter((line: string) => line.trim().startsWith('-')).map((line: string, idx: number) => {
-                                    const match = line.match(/-\s*(.+?)\s*\(([^)]+)\)\s*x(\d+)\s*\[(.+?)\]/);
-                                    if (!match) return null;
-                                    const [, title, price, qty, type] = match;
+                                {offerItems.map((item) => {
+                                    const isDownsell = item.source === 'downsell';
+                                    const isClickUpsell = item.source_detail === 'click_upsell';
                                     return (
-                                        <div key={idx} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 14px', borderRadius: '10px', background: '#f0fdf4', marginBottom: '8px', border: '1px solid #d1fae5' }}>
+                                        <div key={item.position} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 14px', borderRadius: '10px', background: isDownsell ? '#fffbeb' : '#f0fdf4', marginBottom: '8px', border: isDownsell ? '1px solid #fde68a' : '1px solid #d1fae5' }}>
                                             <div>
-                                                <div style={{ fontWeight: 600, fontSize: '14px', color: '#111827' }}>{title}</div>
-                                                <span style={{ display: 'inline-block', marginTop: '4px', padding: '2px 8px', borderRadius: '6px', background: type === 'click_upsell' ? '#dbeafe' : type === 'downsell' ? '#fef3c7' : '#e0e7ff', color: type === 'click_upsell' ? '#1d4ed8' : type === 'downsell' ? '#92400e' : '#4338ca', fontSize: '11px', fontWeight: 600 }}>{type === 'click_upsell' ? '1-Click Upsell' : type === 'downsell' ? 'Downsell' : 'Tick Upsell'}</span>
+                                                <div style={{ fontWeight: 600, fontSize: '14px', color: '#111827' }}>{itemName(item)}</div>
+                                                <span style={{ display: 'inline-block', marginTop: '4px', padding: '2px 8px', borderRadius: '6px', background: isClickUpsell ? '#dbeafe' : isDownsell ? '#fef3c7' : '#e0e7ff', color: isClickUpsell ? '#1d4ed8' : isDownsell ? '#92400e' : '#4338ca', fontSize: '11px', fontWeight: 600 }}>{getLineItemLabel(item)}</span>
                                             </div>
                                             <div style={{ textAlign: 'right' }}>
-                                                <div style={{ fontWeight: 700, fontSize: '16px', color: '#059669' }}>{formatCurrency(parseFloat(price))}</div>
-                                                <div style={{ fontSize: '12px', color: '#6b7280' }}>x{qty}</div>
+                                                <div style={{ fontWeight: 700, fontSize: '16px', color: isDownsell ? '#b45309' : '#059669' }}>{formatCurrency(item.unit_price)}</div>
+                                                <div style={{ fontSize: '12px', color: '#6b7280' }}>x{item.quantity}</div>
                                             </div>
                                         </div>
                                     );
@@ -643,6 +966,92 @@ export default function OrderDetailPage() {
                         </div>
                     )}
 
+                    {/* Fraud Risk */}
+                    {showFraudRisk && (
+                        <div className="order-card">
+                            <div className="order-card-header">
+                                <h2>🛡️ Fraud Risk</h2>
+                            </div>
+                            <div className="order-card-body">
+                                <div className="detail-grid">
+                                    <div className="detail-item">
+                                        <div className="detail-item-label">Risk Score</div>
+                                        <div className="detail-item-value">{order.fraud_score}</div>
+                                    </div>
+                                    <div className="detail-item">
+                                        <div className="detail-item-label">Decision</div>
+                                        <div className="detail-item-value" style={{ color: fraudDecisionColors[fraudDecision] }}>
+                                            {FRAUD_DECISION_LABELS[fraudDecision]}
+                                        </div>
+                                    </div>
+                                </div>
+                                {fraudSignals.map((signal, idx) => (
+                                    <div key={idx} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px 14px', borderRadius: '10px', background: '#fef2f2', marginTop: '8px', border: '1px solid #fecaca' }}>
+                                        <div>
+                                            <div style={{ fontWeight: 600, fontSize: '14px', color: '#111827' }}>{FRAUD_SIGNAL_LABELS[signal.key] || signal.key}</div>
+                                            <div style={{ fontSize: '13px', color: '#6b7280', marginTop: '2px' }}>{signal.detail}</div>
+                                        </div>
+                                        <div style={{ fontWeight: 700, fontSize: '14px', color: '#b91c1c' }}>+{signal.weight}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Edit History */}
+                    {orderEdits.length > 0 && (
+                        <div className="order-card">
+                            <div className="order-card-header">
+                                <h2>🕘 Edit History</h2>
+                            </div>
+                            <div className="order-card-body">
+                                {orderEdits.map((edit) => (
+                                    <div key={edit.id} className="edit-history-item">
+                                        <div className="edit-history-meta">
+                                            {formatDate(edit.created_at)}{edit.edited_by ? ` · ${edit.edited_by}` : ''}
+                                        </div>
+                                        {edit.changes.map((change, idx) => (
+                                            <div key={idx} className="edit-history-change">
+                                                <strong>{change.field}:</strong>{' '}
+                                                {change.field === 'Total'
+                                                    ? `${formatCurrency(Number(change.from))} → ${formatCurrency(Number(change.to))}`
+                                                    : `${change.from ?? '—'} → ${change.to ?? 'removed'}`}
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Timeline */}
+                    <div className="order-card">
+                        <div className="order-card-header">
+                            <h2>🕓 Timeline</h2>
+                        </div>
+                        <div className="order-card-body">
+                            {orderEvents.length === 0 ? (
+                                <div className="timeline-meta">No events recorded for this order yet.</div>
+                            ) : (
+                                <div className="timeline">
+                                    {orderEvents.map((event) => {
+                                        const eventType = ORDER_EVENT_TYPES[event.event_type] || { label: event.event_type, icon: '•', color: '#6b7280' };
+                                        return (
+                                            <div key={event.id} className="timeline-event">
+                                                <div className="timeline-dot" style={{ borderColor: eventType.color }}>{eventType.icon}</div>
+                                                <div className="timeline-title" style={{ color: eventType.color }}>{eventType.label}</div>
+                                                <div className="timeline-message">{event.message}</div>
+                                                <div className="timeline-meta">
+                                                    {formatDate(event.created_at)}{event.actor ? ` · ${event.actor}` : ''}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
                     {/* Update Status */}
                     <div className="order-card">
                         <div className="order-card-header">
@@ -659,7 +1068,7 @@ export default function OrderDetailPage() {
                                             borderColor: status.color
                                         } : {}}
                                         onClick={() => handleStatusChange(status.value)}
-                                        disabled={isUpdating || order.status === status.value}
+                                        disabled={isUpdating || order.status === status.value || !canChangeOrderStatus(order.status, status.value)}
                                     >
                                         {status.label}
                                     </button>
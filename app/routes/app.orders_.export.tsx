@@ -0,0 +1,86 @@
+/**
+ * Order Export - CSV/XLSX download and saved column presets
+ * Route: /app/orders/export
+ *
+ * GET streams the file for the same filters as the orders list
+ * (see utils/order-filters) plus `format` and repeated `col` params.
+ * Repeated `id` params limit it to orders selected on the list.
+ */
+
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { parseOrderFilters } from "../utils/order-filters";
+import { normalizeExportColumns, parseExportFormat } from "../utils/order-export";
+import {
+    createOrderExportStream,
+    getOrderExportFileName,
+    saveExportPreset,
+    deleteExportPreset,
+} from "../services/order-export.server";
+
+const CONTENT_TYPES = {
+    csv: "text/csv; charset=utf-8",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Loader: Stream the export file
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const url = new URL(request.url);
+
+    const format = parseExportFormat(url.searchParams.get("format"));
+    const columns = normalizeExportColumns(url.searchParams.getAll("col"));
+    const filters = parseOrderFilters(url.searchParams);
+    const orderIds = url.searchParams.getAll("id").slice(0, 500);
+
+    console.log(`[Export] ${session.shop}: ${format}, ${columns.length} columns${orderIds.length ? `, ${orderIds.length} selected orders` : ""}`);
+
+    return new Response(createOrderExportStream(session.shop, { format, columns, filters, orderIds }), {
+        headers: {
+            "Content-Type": CONTENT_TYPES[format],
+            "Content-Disposition": `attachment; filename="${getOrderExportFileName(session.shop, format)}"`,
+            "Cache-Control": "no-store",
+        },
+    });
+};
+
+/**
+ * Action: Save or delete an export preset
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const formData = await request.formData();
+    const intent = formData.get("intent") as string | null;
+
+    if (intent === "save_preset") {
+        let columns: string[] = [];
+        try {
+            columns = JSON.parse(String(formData.get("columns") || "[]"));
+        } catch {
+            return { success: false, intent, error: "Invalid column list" };
+        }
+        const result = await saveExportPreset(session.shop, {
+            name: String(formData.get("name") || ""),
+            format: parseExportFormat(formData.get("format") as string | null),
+            columns: normalizeExportColumns(Array.isArray(columns) ? columns.map(String) : []),
+        });
+        return { ...result, intent };
+    }
+
+    if (intent === "delete_preset") {
+        const presetId = formData.get("presetId") as string | null;
+        if (!presetId) {
+            return { success: false, intent, error: "Missing preset ID" };
+        }
+        try {
+            await deleteExportPreset(session.shop, presetId);
+            return { success: true, intent, presetId };
+        } catch (error: any) {
+            return { success: false, intent, error: error.message };
+        }
+    }
+
+    return { success: false, intent, error: "Unknown action" };
+};
@@ -0,0 +1,296 @@
+/**
+ * NDR Queue - Failed deliveries waiting for a decision
+ * Route: /app/orders/ndr
+ *
+ * Cases are opened by courier tracking (see services/ndr). Reattempt,
+ * reattempt at a corrected address and return to origin go to the courier
+ * straight away; the delivery outcome closes the case.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useLoaderData, useFetcher, useNavigate, Link } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { Page, Card, BlockStack, InlineStack, Text, Badge, Button, ButtonGroup, Tabs, TextField, Box, EmptyState } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { NDR_REASONS, NDR_STATUSES, type NdrReason } from "../config/constants";
+import { getNdrQueue, getNdrQueueCounts, takeNdrAction, type NdrAction, type NdrQueueView } from "../services/ndr.server";
+
+const NDR_VIEWS: { id: NdrQueueView; label: string }[] = [
+    { id: "open", label: "Needs action" },
+    { id: "in_progress", label: "In progress" },
+    { id: "closed", label: "Closed" },
+];
+
+const NDR_ACTIONS: NdrAction[] = ["reattempt", "rto", "update_address"];
+
+const NDR_ACTION_LABELS: Record<NdrAction, string> = {
+    reattempt: "Reattempt requested",
+    rto: "Return requested",
+    update_address: "Address updated and reattempt requested",
+};
+
+const EMPTY_ADDRESS = { address: "", city: "", state: "", pincode: "", phone: "" };
+
+/**
+ * Loader: Fetch the cases for the selected tab
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const { admin, session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+
+    // Query shop currency from Shopify Admin API
+    let shopCurrency = 'USD';
+    try {
+        const currencyRes = await admin.graphql(`{ shop { currencyCode } }`);
+        const currencyData = await currencyRes.json();
+        shopCurrency = currencyData?.data?.shop?.currencyCode || 'USD';
+    } catch (e) { console.log('Error fetching shop currency:', e); }
+
+    const url = new URL(request.url);
+    const requestedView = url.searchParams.get("view") as NdrQueueView | null;
+    const view = NDR_VIEWS.some((v) => v.id === requestedView) ? requestedView as NdrQueueView : "open";
+
+    const [cases, counts] = await Promise.all([
+        getNdrQueue(shopDomain, view),
+        getNdrQueueCounts(shopDomain),
+    ]);
+
+    return { cases, counts, view, shopCurrency };
+};
+
+/**
+ * Action: Reattempt, return to origin, or reattempt at a new address
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const formData = await request.formData();
+    const intent = formData.get("intent") as NdrAction | null;
+    const orderId = formData.get("orderId") as string | null;
+    const actor = session.onlineAccessInfo?.associated_user?.email || "merchant";
+
+    if (!intent || !NDR_ACTIONS.includes(intent) || !orderId) {
+        return { success: false, intent, orderId, error: "Missing data" };
+    }
+
+    try {
+        const result = await takeNdrAction(session.shop, orderId, {
+            action: intent,
+            address: intent === "update_address" ? {
+                address: String(formData.get("address") || ""),
+                city: String(formData.get("city") || ""),
+                state: String(formData.get("state") || ""),
+                pincode: String(formData.get("pincode") || ""),
+            } : undefined,
+            phone: String(formData.get("phone") || "") || undefined,
+            note: String(formData.get("note") || "") || undefined,
+        }, actor);
+        return { ...result, intent, orderId };
+    } catch (error: any) {
+        console.error(`[NDR] ${intent} failed for order ${orderId}:`, error);
+        return { success: false, intent, orderId, error: error.message };
+    }
+};
+
+/**
+ * NDR Queue Component
+ */
+export default function NdrQueuePage() {
+    const { cases, counts, view, shopCurrency } = useLoaderData<typeof loader>();
+    const navigate = useNavigate();
+    const shopify = useAppBridge();
+    const ndrFetcher = useFetcher<any>();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [addressForm, setAddressForm] = useState(EMPTY_ADDRESS);
+
+    const busyOrderId = ndrFetcher.state !== "idle" ? ndrFetcher.formData?.get("orderId") : null;
+    const busyIntent = ndrFetcher.state !== "idle" ? ndrFetcher.formData?.get("intent") : null;
+
+    useEffect(() => {
+        const data = ndrFetcher.data;
+        if (ndrFetcher.state !== "idle" || !data?.intent) return;
+        if (!data.success) {
+            shopify.toast.show(`Error: ${data.error || "Something went wrong"}`, { isError: true });
+            return;
+        }
+        if (data.intent === "update_address") setEditingId(null);
+        shopify.toast.show(data.warning || (data.intent === "rto" ? "Return to origin requested" : "Reattempt requested"));
+    }, [ndrFetcher.state, ndrFetcher.data, shopify]);
+
+    const submitAction = useCallback((orderId: string, intent: NdrAction) => {
+        if (intent === "rto" && !window.confirm("Ask the courier to return this parcel? It won't be delivered to the customer.")) return;
+        const payload: Record<string, string> = { intent, orderId };
+        if (intent === "update_address") Object.assign(payload, addressForm);
+        ndrFetcher.submit(payload, { method: "post" });
+    }, [ndrFetcher, addressForm]);
+
+    const openAddressForm = (order: any) => {
+        setAddressForm({
+            address: order.customer_address || "",
+            city: order.city || "",
+            state: order.state || "",
+            pincode: order.pincode ? String(order.pincode) : "",
+            phone: order.customer_phone || "",
+        });
+        setEditingId(order.id);
+    };
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat(undefined, {
+            style: "currency",
+            currency: shopCurrency || "USD",
+            minimumFractionDigits: 0,
+        }).format(amount);
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleDateString("en-IN", {
+            month: "short",
+            day: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+        });
+    };
+
+    const codAmount = (order: any) => {
+        if (order.payment_method === "full_prepaid") return 0;
+        if (order.payment_method === "partial_cod") return Number(order.remaining_cod_amount) || 0;
+        return Number(order.final_total ?? order.total_price) || 0;
+    };
+
+    const tabs = NDR_VIEWS.map((v) => ({
+        id: v.id,
+        content: v.id === "open" ? `${v.label} (${counts.open})` : v.id === "in_progress" ? `${v.label} (${counts.inProgress})` : v.label,
+        panelID: `ndr-${v.id}-panel`,
+    }));
+
+    return (
+        <Page
+            title="Failed deliveries (NDR)"
+            subtitle="Act before the courier returns the parcel — usually within 24–48 hours of the attempt"
+            backAction={{ content: 'Orders', onAction: () => navigate('/app/orders') }}
+            secondaryActions={[{ content: 'Analytics', onAction: () => navigate('/app/analytics') }]}
+        >
+            <Card padding="0">
+                <Tabs
+                    tabs={tabs}
+                    selected={NDR_VIEWS.findIndex((v) => v.id === view)}
+                    onSelect={(idx) => navigate(`/app/orders/ndr?view=${NDR_VIEWS[idx].id}`)}
+                >
+                    <Box padding="400">
+                        {cases.length === 0 ? (
+                            <EmptyState heading={view === "open" ? "No failed deliveries to handle" : "Nothing here yet"} image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png">
+                                <p>Failed delivery attempts reported by your courier show up here.</p>
+                            </EmptyState>
+                        ) : (
+                            <BlockStack gap="400">
+                                {cases.map(({ ndr, order }) => {
+                                    const isBusy = busyOrderId === order.id;
+                                    const statusInfo = NDR_STATUSES.find((s) => s.value === ndr.status);
+                                    const canAct = !ndr.resolved_at && ndr.status !== "rto_requested";
+                                    return (
+                                        <div key={ndr.id} style={{ borderTop: '1px solid #f3f4f6', paddingTop: '16px' }}>
+                                            <InlineStack align="space-between" blockAlign="start" gap="400" wrap>
+                                                <BlockStack gap="100">
+                                                    <InlineStack gap="200" blockAlign="center">
+                                                        <Link to={`/app/orders/${order.id}`}>
+                                                            {order.shopify_order_name || `#${order.id.slice(0, 8)}`}
+                                                        </Link>
+                                                        <Badge tone="critical">{NDR_REASONS[ndr.reason as NdrReason] || NDR_REASONS.other}</Badge>
+                                                        {ndr.attempts > 1 && <Badge tone="warning">{`${ndr.attempts} attempts`}</Badge>}
+                                                        {ndr.status !== "open" && statusInfo && (
+                                                            <Badge tone={ndr.status === "delivered" ? "success" : ndr.status === "reattempt_requested" ? "info" : "attention"}>
+                                                                {statusInfo.label}
+                                                            </Badge>
+                                                        )}
+                                                    </InlineStack>
+                                                    <Text as="span" variant="bodySm">
+                                                        {`${order.customer_name} · ${order.customer_phone} · ${codAmount(order) > 0 ? `Collect ${formatCurrency(codAmount(order))}` : 'Prepaid'}`}
+                                                    </Text>
+                                                    <Text as="span" variant="bodySm" tone="subdued">
+                                                        {[order.customer_address, order.city, order.state, order.pincode].filter(Boolean).join(', ')}
+                                                    </Text>
+                                                    <Text as="span" variant="bodySm" tone="subdued">
+                                                        {`${order.courier_name || order.courier_provider || 'Courier'} · AWB ${ndr.awb_number || order.awb_number || '—'} · Last attempt ${formatDate(ndr.last_attempt_at)}${ndr.reason_text ? ` · "${ndr.reason_text}"` : ''}`}
+                                                    </Text>
+                                                    {ndr.customer_response ? (
+                                                        <Text as="span" variant="bodySm" tone="success">
+                                                            {ndr.customer_response === "rto" ? "Customer replied: doesn't want the order" : "Customer replied: deliver again"}
+                                                        </Text>
+                                                    ) : ndr.outreach_status === "sent" ? (
+                                                        <Text as="span" variant="bodySm" tone="subdued">Customer messaged — no reply yet</Text>
+                                                    ) : null}
+                                                    {ndr.last_action_at && (
+                                                        <Text as="span" variant="bodySm" tone="subdued">
+                                                            {`${NDR_ACTION_LABELS[ndr.last_action as NdrAction] || ndr.last_action} by ${ndr.last_action_by || 'merchant'} · ${formatDate(ndr.last_action_at)}${ndr.action_note ? ` · ${ndr.action_note}` : ''}`}
+                                                        </Text>
+                                                    )}
+                                                    {order.tracking_url && (
+                                                        <a href={order.tracking_url} target="_blank" rel="noopener noreferrer" style={{ fontSize: '12px' }}>Track shipment</a>
+                                                    )}
+                                                </BlockStack>
+                                                {canAct && (
+                                                    <ButtonGroup>
+                                                        <Button
+                                                            variant="primary"
+                                                            onClick={() => submitAction(order.id, "reattempt")}
+                                                            loading={isBusy && busyIntent === "reattempt"}
+                                                            disabled={isBusy}
+                                                        >
+                                                            Reattempt
+                                                        </Button>
+                                                        <Button onClick={() => openAddressForm(order)} disabled={isBusy}>
+                                                            Update address
+                                                        </Button>
+                                                        <Button
+                                                            tone="critical"
+                                                            onClick={() => submitAction(order.id, "rto")}
+                                                            loading={isBusy && busyIntent === "rto"}
+                                                            disabled={isBusy}
+                                                        >
+                                                            Return to origin
+                                                        </Button>
+                                                    </ButtonGroup>
+                                                )}
+                                            </InlineStack>
+                                            {canAct && editingId === order.id && (
+                                                <Box paddingBlockStart="300">
+                                                    <BlockStack gap="300">
+                                                        <TextField
+                                                            label="Address"
+                                                            value={addressForm.address}
+                                                            onChange={(value) => setAddressForm((prev) => ({ ...prev, address: value }))}
+                                                            autoComplete="off"
+                                                            multiline={2}
+                                                        />
+                                                        <InlineStack gap="300" wrap>
+                                                            <TextField label="City" value={addressForm.city} onChange={(value) => setAddressForm((prev) => ({ ...prev, city: value }))} autoComplete="off" />
+                                                            <TextField label="State" value={addressForm.state} onChange={(value) => setAddressForm((prev) => ({ ...prev, state: value }))} autoComplete="off" />
+                                                            <TextField label="Pincode" value={addressForm.pincode} onChange={(value) => setAddressForm((prev) => ({ ...prev, pincode: value }))} autoComplete="off" />
+                                                            <TextField label="Phone" value={addressForm.phone} onChange={(value) => setAddressForm((prev) => ({ ...prev, phone: value }))} autoComplete="off" />
+                                                        </InlineStack>
+                                                        <ButtonGroup>
+                                                            <Button
+                                                                variant="primary"
+                                                                onClick={() => submitAction(order.id, "update_address")}
+                                                                loading={isBusy && busyIntent === "update_address"}
+                                                                disabled={isBusy}
+                                                            >
+                                                                Save and reattempt
+                                                            </Button>
+                                                            <Button onClick={() => setEditingId(null)} disabled={isBusy}>Cancel</Button>
+                                                        </ButtonGroup>
+                                                    </BlockStack>
+                                                </Box>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </BlockStack>
+                        )}
+                    </Box>
+                </Tabs>
+            </Card>
+        </Page>
+    );
+}
@@ -0,0 +1,568 @@
+/**
+ * COD Remittance - Reconcile courier settlement files
+ * Route: /app/orders/remittance
+ *
+ * Upload a courier's remittance CSV, map its columns (or pick a preset) and
+ * each line is matched to an order and checked against the cash it should
+ * have collected (see services/cod-remittance). Below: delivered COD orders
+ * still unpaid past the overdue window, short payments and recent uploads.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useLoaderData, useFetcher, useNavigate, Link } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { Page, Card, BlockStack, InlineStack, InlineGrid, Text, Badge, Button, ButtonGroup, TextField, Select, DropZone, Box, Banner } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+    BUILT_IN_REMITTANCE_PRESETS,
+    DEFAULT_REMITTANCE_OVERDUE_DAYS,
+    REMITTANCE_FIELDS,
+    getExpectedCodAmount,
+    guessRemittanceColumns,
+    parseCsv,
+    type RemittanceColumnMap,
+} from "../utils/cod-remittance";
+import {
+    deleteRemittancePreset,
+    getRemittanceBatches,
+    getRemittanceBatchIssues,
+    getRemittancePresets,
+    getRemittanceSummary,
+    importRemittanceFile,
+    markOrderRemitted,
+    saveRemittancePreset,
+    type RemittanceOrder,
+    type RemittanceRowStatus,
+} from "../services/cod-remittance.server";
+
+// Settlement files are a few thousand rows at most; this keeps the upload sane
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const ROW_STATUS_BADGES: Record<RemittanceRowStatus, { label: string; tone: "success" | "critical" | "warning" | "attention" | "info" }> = {
+    matched: { label: "Matched", tone: "success" },
+    short: { label: "Short paid", tone: "critical" },
+    over: { label: "Over paid", tone: "warning" },
+    unmatched: { label: "No matching order", tone: "attention" },
+    duplicate: { label: "Already remitted", tone: "info" },
+    invalid: { label: "No amount", tone: "critical" },
+};
+
+/**
+ * Loader: Summary, recent uploads, saved presets and the selected upload's issues
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const { admin, session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+
+    // Query shop currency from Shopify Admin API
+    let shopCurrency = 'USD';
+    try {
+        const currencyRes = await admin.graphql(`{ shop { currencyCode } }`);
+        const currencyData = await currencyRes.json();
+        shopCurrency = currencyData?.data?.shop?.currencyCode || 'USD';
+    } catch (e) { console.log('Error fetching shop currency:', e); }
+
+    const url = new URL(request.url);
+    const requestedDays = parseInt(url.searchParams.get("overdue") || "", 10);
+    const overdueDays = requestedDays >= 1 && requestedDays <= 365 ? requestedDays : DEFAULT_REMITTANCE_OVERDUE_DAYS;
+    const batchId = url.searchParams.get("batch");
+
+    const [summary, batches, presets, batchIssues] = await Promise.all([
+        getRemittanceSummary(shopDomain, overdueDays),
+        getRemittanceBatches(shopDomain),
+        getRemittancePresets(shopDomain),
+        batchId ? getRemittanceBatchIssues(shopDomain, batchId) : Promise.resolve([]),
+    ]);
+
+    return {
+        summary,
+        batches,
+        presets,
+        overdueDays,
+        selectedBatch: batches.find((batch) => batch.id === batchId) || null,
+        batchIssues,
+        shopCurrency,
+    };
+};
+
+/**
+ * Action: Import a file, save or delete a column preset, or mark an order remitted
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const formData = await request.formData();
+    const intent = formData.get("intent") as string | null;
+    const actor = session.onlineAccessInfo?.associated_user?.email || "merchant";
+
+    const parseColumns = (): RemittanceColumnMap | null => {
+        try {
+            const columns = JSON.parse(String(formData.get("columns") || "{}"));
+            return columns && typeof columns === "object" ? columns : null;
+        } catch {
+            return null;
+        }
+    };
+
+    if (intent === "import") {
+        const csv = String(formData.get("csv") || "");
+        const columns = parseColumns();
+        if (!csv) return { success: false, intent, error: "Choose a file to upload" };
+        if (csv.length > MAX_FILE_BYTES) return { success: false, intent, error: "The file is too large" };
+        if (!columns) return { success: false, intent, error: "Invalid column mapping" };
+        try {
+            const result = await importRemittanceFile(session.shop, {
+                fileName: String(formData.get("fileName") || ""),
+                courier: String(formData.get("courier") || ""),
+                csv,
+                columns,
+            }, actor);
+            return { ...result, intent };
+        } catch (error: any) {
+            console.error("[Remittance] Import failed:", error);
+            return { success: false, intent, error: error.message };
+        }
+    }
+
+    if (intent === "save_preset") {
+        const columns = parseColumns();
+        if (!columns) return { success: false, intent, error: "Invalid column mapping" };
+        const result = await saveRemittancePreset(session.shop, {
+            name: String(formData.get("name") || ""),
+            columns,
+        });
+        return { ...result, intent };
+    }
+
+    if (intent === "delete_preset") {
+        const presetId = formData.get("presetId") as string | null;
+        if (!presetId) {
+            return { success: false, intent, error: "Missing preset ID" };
+        }
+        try {
+            await deleteRemittancePreset(session.shop, presetId);
+            return { success: true, intent, presetId };
+        } catch (error: any) {
+            return { success: false, intent, error: error.message };
+        }
+    }
+
+    if (intent === "mark_remitted") {
+        const orderId = formData.get("orderId") as string | null;
+        if (!orderId) return { success: false, intent, error: "Missing order ID" };
+        const result = await markOrderRemitted(session.shop, orderId, {
+            utr: String(formData.get("utr") || "") || undefined,
+        }, actor);
+        return { ...result, intent, orderId };
+    }
+
+    return { success: false, intent, error: "Unknown action" };
+};
+
+/**
+ * COD Remittance Component
+ */
+export default function CodRemittancePage() {
+    const { summary, batches, presets, overdueDays, selectedBatch, batchIssues, shopCurrency } = useLoaderData<typeof loader>();
+    const navigate = useNavigate();
+    const shopify = useAppBridge();
+    const importFetcher = useFetcher<any>();
+    const presetFetcher = useFetcher<any>();
+    const markFetcher = useFetcher<any>();
+
+    const [file, setFile] = useState<{ name: string; text: string; headers: string[]; rows: number } | null>(null);
+    const [presetId, setPresetId] = useState("");
+    const [columns, setColumns] = useState<RemittanceColumnMap>({});
+    const [courier, setCourier] = useState("");
+    const [presetName, setPresetName] = useState("");
+    const [overdueInput, setOverdueInput] = useState(String(overdueDays));
+
+    const isImporting = importFetcher.state !== "idle";
+    const busyOrderId = markFetcher.state !== "idle" ? markFetcher.formData?.get("orderId") : null;
+    const allPresets = [...BUILT_IN_REMITTANCE_PRESETS, ...presets];
+    const selectedPreset = allPresets.find((preset) => preset.id === presetId);
+
+    useEffect(() => {
+        const data = importFetcher.data;
+        if (importFetcher.state !== "idle" || !data?.intent) return;
+        if (!data.success) {
+            shopify.toast.show(`Error: ${data.error || "Something went wrong"}`, { isError: true });
+            return;
+        }
+        const { counts } = data;
+        const issues = counts.short + counts.over + counts.unmatched + counts.duplicate + counts.invalid;
+        shopify.toast.show(`${counts.matched} orders matched${issues > 0 ? `, ${issues} rows need a look` : ""}`);
+        setFile(null);
+        navigate(`/app/orders/remittance?overdue=${overdueDays}&batch=${data.batchId}`);
+    }, [importFetcher.state, importFetcher.data, shopify, navigate, overdueDays]);
+
+    useEffect(() => {
+        const data = presetFetcher.data;
+        if (presetFetcher.state !== "idle" || !data?.intent) return;
+        if (!data.success) {
+            shopify.toast.show(`Error: ${data.error || "Something went wrong"}`, { isError: true });
+            return;
+        }
+        if (data.intent === "save_preset") {
+            setPresetId(data.preset.id);
+            setPresetName("");
+            shopify.toast.show("Preset saved");
+        } else {
+            setPresetId("");
+            shopify.toast.show("Preset deleted");
+        }
+    }, [presetFetcher.state, presetFetcher.data, shopify]);
+
+    useEffect(() => {
+        const data = markFetcher.data;
+        if (markFetcher.state !== "idle" || !data?.intent) return;
+        if (!data.success) {
+            shopify.toast.show(`Error: ${data.error || "Something went wrong"}`, { isError: true });
+            return;
+        }
+        shopify.toast.show("Marked as remitted");
+    }, [markFetcher.state, markFetcher.data, shopify]);
+
+    const handleDrop = useCallback((_files: File[], accepted: File[]) => {
+        const dropped = accepted[0];
+        if (!dropped) return;
+        if (dropped.size > MAX_FILE_BYTES) {
+            shopify.toast.show("Error: The file is larger than 5 MB", { isError: true });
+            return;
+        }
+        dropped.text().then((text) => {
+            const [headers = [], ...rows] = parseCsv(text);
+            if (headers.length === 0 || rows.length === 0) {
+                shopify.toast.show("Error: The file has no rows", { isError: true });
+                return;
+            }
+            setFile({ name: dropped.name, text, headers, rows: rows.length });
+            setColumns(guessRemittanceColumns(headers, selectedPreset?.columns));
+        });
+    }, [shopify, selectedPreset]);
+
+    const handlePresetChange = (id: string) => {
+        const preset = allPresets.find((p) => p.id === id);
+        setPresetId(id);
+        if (preset && !courier) setCourier(preset.name);
+        if (file) setColumns(guessRemittanceColumns(file.headers, preset?.columns));
+    };
+
+    const submitImport = () => {
+        if (!file) return;
+        importFetcher.submit({
+            intent: "import",
+            fileName: file.name,
+            courier,
+            csv: file.text,
+            columns: JSON.stringify(columns),
+        }, { method: "post" });
+    };
+
+    const markRemitted = (order: Pick<RemittanceOrder, "id" | "shopify_order_name" | "remittance_utr">) => {
+        const utr = window.prompt(`Mark ${order.shopify_order_name || "this order"} as remitted in full? Add the UTR if you have it.`, order.remittance_utr || "");
+        if (utr === null) return;
+        markFetcher.submit({ intent: "mark_remitted", orderId: order.id, utr }, { method: "post" });
+    };
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat(undefined, {
+            style: "currency",
+            currency: shopCurrency || "USD",
+            minimumFractionDigits: 0,
+        }).format(amount);
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleDateString("en-IN", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+        });
+    };
+
+    const daysSince = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+
+    const columnOptions = [
+        { label: "Not in file", value: "" },
+        ...(file?.headers || []).filter(Boolean).map((header) => ({ label: header, value: header })),
+    ];
+    const canImport = !!file && !!columns.amount && (!!columns.awb || !!columns.order);
+
+    return (
+        <Page
+            title="COD remittance"
+            subtitle="Check that couriers paid out the cash they collected on delivery"
+            backAction={{ content: 'Orders', onAction: () => navigate('/app/orders') }}
+            secondaryActions={[{ content: 'Failed deliveries', onAction: () => navigate('/app/orders/ndr') }]}
+        >
+            <BlockStack gap="400">
+                <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
+                    <Card>
+                        <BlockStack gap="100">
+                            <Text as="span" variant="bodySm" tone="subdued">Awaiting remittance</Text>
+                            <Text as="p" variant="headingLg">{formatCurrency(summary.awaiting.amount)}</Text>
+                            <Text as="span" variant="bodySm">{`${summary.awaiting.count} delivered COD orders`}</Text>
+                        </BlockStack>
+                    </Card>
+                    <Card>
+                        <BlockStack gap="100">
+                            <Text as="span" variant="bodySm" tone="subdued">{`Overdue (over ${overdueDays} days)`}</Text>
+                            <Text as="p" variant="headingLg" tone={summary.overdue.count > 0 ? "critical" : undefined}>{formatCurrency(summary.overdue.amount)}</Text>
+                            <Text as="span" variant="bodySm">{`${summary.overdue.count} orders`}</Text>
+                        </BlockStack>
+                    </Card>
+                    <Card>
+                        <BlockStack gap="100">
+                            <Text as="span" variant="bodySm" tone="subdued">Short paid</Text>
+                            <Text as="p" variant="headingLg" tone={summary.shortPaid.count > 0 ? "critical" : undefined}>{formatCurrency(summary.shortPaid.shortfall)}</Text>
+                            <Text as="span" variant="bodySm">{`${summary.shortPaid.count} orders`}</Text>
+                        </BlockStack>
+                    </Card>
+                </InlineGrid>
+
+                <Card>
+                    <BlockStack gap="400">
+                        <Text as="h2" variant="headingMd">Upload a settlement file</Text>
+                        <DropZone allowMultiple={false} accept=".csv,text/csv" type="file" onDrop={handleDrop}>
+                            {file ? (
+                                <Box padding="400">
+                                    <Text as="p" alignment="center">{`${file.name} · ${file.rows} rows`}</Text>
+                                </Box>
+                            ) : (
+                                <DropZone.FileUpload actionTitle="Add CSV file" actionHint="Remittance or COD settlement report from your courier" />
+                            )}
+                        </DropZone>
+                        <InlineStack gap="300" wrap>
+                            <Select
+                                label="Column preset"
+                                options={[
+                                    { label: "Detect columns", value: "" },
+                                    ...allPresets.map((preset) => ({ label: preset.id.startsWith("builtin:") ? `${preset.name} (built-in)` : preset.name, value: preset.id })),
+                                ]}
+                                value={presetId}
+                                onChange={handlePresetChange}
+                            />
+                            <TextField label="Courier" value={courier} onChange={setCourier} autoComplete="off" placeholder="e.g. Shiprocket" />
+                        </InlineStack>
+                        {file && (
+                            <InlineGrid columns={{ xs: 1, sm: 2, md: 5 }} gap="300">
+                                {REMITTANCE_FIELDS.map((field) => (
+                                    <Select
+                                        key={field.key}
+                                        label={field.label}
+                                        helpText={field.description}
+                                        options={columnOptions}
+                                        value={columns[field.key] || ""}
+                                        onChange={(value) => setColumns((prev) => ({ ...prev, [field.key]: value || undefined }))}
+                                    />
+                                ))}
+                            </InlineGrid>
+                        )}
+                        {file && !canImport && (
+                            <Banner tone="warning">Choose the collected amount column and the AWB or order column.</Banner>
+                        )}
+                        <InlineStack align="space-between" blockAlign="end" gap="300" wrap>
+                            <InlineStack gap="200" blockAlign="end">
+                                <TextField
+                                    label="Save this mapping as"
+                                    value={presetName}
+                                    onChange={setPresetName}
+                                    autoComplete="off"
+                                    placeholder="Preset name"
+                                />
+                                <Button
+                                    onClick={() => presetFetcher.submit({ intent: "save_preset", name: presetName, columns: JSON.stringify(columns) }, { method: "post" })}
+                                    disabled={!presetName.trim() || !canImport}
+                                    loading={presetFetcher.state !== "idle" && presetFetcher.formData?.get("intent") === "save_preset"}
+                                >
+                                    Save preset
+                                </Button>
+                                {selectedPreset && !selectedPreset.id.startsWith("builtin:") && (
+                                    <Button
+                                        tone="critical"
+                                        variant="plain"
+                                        onClick={() => presetFetcher.submit({ intent: "delete_preset", presetId: selectedPreset.id }, { method: "post" })}
+                                        loading={presetFetcher.state !== "idle" && presetFetcher.formData?.get("intent") === "delete_preset"}
+                                    >
+                                        {`Delete "${selectedPreset.name}"`}
+                                    </Button>
+                                )}
+                            </InlineStack>
+                            <ButtonGroup>
+                                {file && <Button onClick={() => setFile(null)} disabled={isImporting}>Clear</Button>}
+                                <Button variant="primary" onClick={submitImport} disabled={!canImport} loading={isImporting}>
+                                    Reconcile
+                                </Button>
+                            </ButtonGroup>
+                        </InlineStack>
+                    </BlockStack>
+                </Card>
+
+                {selectedBatch && (
+                    <Card>
+                        <BlockStack gap="300">
+                            <InlineStack align="space-between" blockAlign="center">
+                                <Text as="h2" variant="headingMd">
+                                    {`${selectedBatch.file_name || "Upload"} · ${formatDate(selectedBatch.created_at)}`}
+                                </Text>
+                                <Button variant="plain" onClick={() => navigate(`/app/orders/remittance?overdue=${overdueDays}`)}>Close</Button>
+                            </InlineStack>
+                            <InlineStack gap="200" wrap>
+                                <Badge tone="success">{`${selectedBatch.matched_count} matched`}</Badge>
+                                {selectedBatch.short_count > 0 && <Badge tone="critical">{`${selectedBatch.short_count} short`}</Badge>}
+                                {selectedBatch.over_count > 0 && <Badge tone="warning">{`${selectedBatch.over_count} over`}</Badge>}
+                                {selectedBatch.unmatched_count > 0 && <Badge tone="attention">{`${selectedBatch.unmatched_count} unmatched`}</Badge>}
+                                {selectedBatch.duplicate_count > 0 && <Badge tone="info">{`${selectedBatch.duplicate_count} already remitted`}</Badge>}
+                            </InlineStack>
+                            {batchIssues.length === 0 ? (
+                                <Text as="p" tone="subdued">Every row matched its order.</Text>
+                            ) : (
+                                batchIssues.map((row: any) => {
+                                    const badge = ROW_STATUS_BADGES[row.status as RemittanceRowStatus] || ROW_STATUS_BADGES.unmatched;
+                                    return (
+                                        <div key={row.id} style={{ borderTop: '1px solid #f3f4f6', paddingTop: '12px' }}>
+                                            <InlineStack align="space-between" blockAlign="center" gap="300" wrap>
+                                                <BlockStack gap="100">
+                                                    <InlineStack gap="200" blockAlign="center">
+                                                        <Text as="span" variant="bodySm" tone="subdued">{`Row ${row.row_number}`}</Text>
+                                                        {row.order_log_id ? (
+                                                            <Link to={`/app/orders/${row.order_log_id}`}>{row.order_name || row.order_ref || row.awb_number}</Link>
+                                                        ) : (
+                                                            <Text as="span">{row.order_ref || row.awb_number || "—"}</Text>
+                                                        )}
+                                                        <Badge tone={badge.tone}>{badge.label}</Badge>
+                                                    </InlineStack>
+                                                    <Text as="span" variant="bodySm" tone="subdued">
+                                                        {[row.awb_number && `AWB ${row.awb_number}`, row.utr && `UTR ${row.utr}`, row.remittance_date && formatDate(row.remittance_date)].filter(Boolean).join(' · ') || '—'}
+                                                    </Text>
+                                                </BlockStack>
+                                                <Text as="span" variant="bodySm">
+                                                    {row.collected_amount == null
+                                                        ? "—"
+                                                        : row.expected_amount == null
+                                                            ? formatCurrency(Number(row.collected_amount))
+                                                            : `${formatCurrency(Number(row.collected_amount))} of ${formatCurrency(Number(row.expected_amount))}`}
+                                                </Text>
+                                            </InlineStack>
+                                        </div>
+                                    );
+                                })
+                            )}
+                        </BlockStack>
+                    </Card>
+                )}
+
+                <Card>
+                    <BlockStack gap="300">
+                        <InlineStack align="space-between" blockAlign="end" gap="300" wrap>
+                            <Text as="h2" variant="headingMd">{`Overdue remittances (${summary.overdue.count})`}</Text>
+                            <InlineStack gap="200" blockAlign="end">
+                                <TextField
+                                    label="Overdue after (days)"
+                                    type="number"
+                                    min={1}
+                                    max={365}
+                                    value={overdueInput}
+                                    onChange={setOverdueInput}
+                                    autoComplete="off"
+                                />
+                                <Button onClick={() => navigate(`/app/orders/remittance?overdue=${parseInt(overdueInput, 10) || DEFAULT_REMITTANCE_OVERDUE_DAYS}`)}>
+                                    Apply
+                                </Button>
+                            </InlineStack>
+                        </InlineStack>
+                        {summary.overdueOrders.length === 0 ? (
+                            <Text as="p" tone="subdued">{`No delivered COD orders have waited more than ${overdueDays} days for their cash.`}</Text>
+                        ) : (
+                            summary.overdueOrders.map((order) => {
+                                const deliveredAt = order.delivered_at || order.shipped_at || order.created_at;
+                                return (
+                                    <div key={order.id} style={{ borderTop: '1px solid #f3f4f6', paddingTop: '12px' }}>
+                                        <InlineStack align="space-between" blockAlign="center" gap="300" wrap>
+                                            <BlockStack gap="100">
+                                                <InlineStack gap="200" blockAlign="center">
+                                                    <Link to={`/app/orders/${order.id}`}>{order.shopify_order_name || `#${order.id.slice(0, 8)}`}</Link>
+                                                    <Badge tone="critical">{`${daysSince(deliveredAt)} days`}</Badge>
+                                                </InlineStack>
+                                                <Text as="span" variant="bodySm" tone="subdued">
+                                                    {`${order.customer_name} · ${order.courier_name || 'Courier'} · AWB ${order.awb_number || '—'} · Delivered ${formatDate(deliveredAt)}`}
+                                                </Text>
+                                            </BlockStack>
+                                            <InlineStack gap="300" blockAlign="center">
+                                                <Text as="span" fontWeight="semibold">{formatCurrency(getExpectedCodAmount(order))}</Text>
+                                                <Button size="slim" onClick={() => markRemitted(order)} loading={busyOrderId === order.id}>Mark remitted</Button>
+                                            </InlineStack>
+                                        </InlineStack>
+                                    </div>
+                                );
+                            })
+                        )}
+                    </BlockStack>
+                </Card>
+
+                {summary.shortPaidOrders.length > 0 && (
+                    <Card>
+                        <BlockStack gap="300">
+                            <Text as="h2" variant="headingMd">{`Short payments (${summary.shortPaid.count})`}</Text>
+                            {summary.shortPaidOrders.map((order) => {
+                                const expected = getExpectedCodAmount(order);
+                                return (
+                                    <div key={order.id} style={{ borderTop: '1px solid #f3f4f6', paddingTop: '12px' }}>
+                                        <InlineStack align="space-between" blockAlign="center" gap="300" wrap>
+                                            <BlockStack gap="100">
+                                                <Link to={`/app/orders/${order.id}`}>{order.shopify_order_name || `#${order.id.slice(0, 8)}`}</Link>
+                                                <Text as="span" variant="bodySm" tone="subdued">
+                                                    {[order.courier_name, order.remittance_date && `Remitted ${formatDate(order.remittance_date)}`, order.remittance_utr && `UTR ${order.remittance_utr}`].filter(Boolean).join(' · ')}
+                                                </Text>
+                                            </BlockStack>
+                                            <InlineStack gap="300" blockAlign="center">
+                                                <Text as="span" variant="bodySm">
+                                                    {`${formatCurrency(Number(order.remitted_amount))} of ${formatCurrency(expected)} · `}
+                                                    <Text as="span" tone="critical" fontWeight="semibold">{`${formatCurrency(expected - Number(order.remitted_amount))} short`}</Text>
+                                                </Text>
+                                                <Button size="slim" onClick={() => markRemitted(order)} loading={busyOrderId === order.id}>Mark remitted</Button>
+                                            </InlineStack>
+                                        </InlineStack>
+                                    </div>
+                                );
+                            })}
+                        </BlockStack>
+                    </Card>
+                )}
+
+                {batches.length > 0 && (
+                    <Card>
+                        <BlockStack gap="300">
+                            <Text as="h2" variant="headingMd">Recent uploads</Text>
+                            {batches.map((batch) => {
+                                const issues = batch.short_count + batch.over_count + batch.unmatched_count + batch.duplicate_count;
+                                return (
+                                    <div key={batch.id} style={{ borderTop: '1px solid #f3f4f6', paddingTop: '12px' }}>
+                                        <InlineStack align="space-between" blockAlign="center" gap="300" wrap>
+                                            <BlockStack gap="100">
+                                                <Text as="span" fontWeight="semibold">{batch.file_name || "Upload"}</Text>
+                                                <Text as="span" variant="bodySm" tone="subdued">
+                                                    {[batch.courier, formatDate(batch.created_at), batch.uploaded_by, `${batch.row_count} rows`, formatCurrency(Number(batch.total_amount))].filter(Boolean).join(' · ')}
+                                                </Text>
+                                            </BlockStack>
+                                            <InlineStack gap="200" blockAlign="center">
+                                                <Badge tone="success">{`${batch.matched_count} matched`}</Badge>
+                                                {issues > 0 && <Badge tone="warning">{`${issues} issues`}</Badge>}
+                                                <Button size="slim" variant="plain" onClick={() => navigate(`/app/orders/remittance?overdue=${overdueDays}&batch=${batch.id}`)}>
+                                                    View
+                                                </Button>
+                                            </InlineStack>
+                                        </InlineStack>
+                                    </div>
+                                );
+                            })}
+                        </BlockStack>
+                    </Card>
+                )}
+
+                <Box paddingBlockEnd="800" />
+            </BlockStack>
+        </Page>
+    );
+}
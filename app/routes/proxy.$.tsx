@@ -9,10 +9,11 @@
  */
 
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
-import { getFormSettings, logOrder, logOrderWithShopifyIds, supabase } from "../config/supabase.server";
+import { getFormSettings, logOrder, logOrderWithShopifyIds, supabase, type OrderLogEntry } from "../config/supabase.server";
 import { lookupCustomerByPhone } from "../services/customer-lookup.server";
+import { suggestEmailCorrection } from "../services/email-domain.server";
 import { syncOrderToGoogleSheets } from "../services/google-sheets.server";
-import { getFraudProtectionSettings, validateOrderAgainstFraudRulesWithSettings } from "../services/fraud-protection.server";
+import { getFraudProtectionSettings, recordVelocity, shouldHoldOrder, toFraudLogFields, validateOrderAgainstFraudRulesWithSettings, type FraudValidationResult, type OrderValidationData } from "../services/fraud-protection.server";
 import { calculateOrderPricing, normalizeCouponCode, validateCouponForShop } from "../services/coupons.server";
 import {
     toNumericVariantId,
@@ -31,6 +32,16 @@ import {
     assertPricingConsistency,
 } from "../services/contextual-pricing.server";
 import { validatePlanBeforeOrder, planLimitResponseBody } from "../services/billing/plan-enforcement.server";
+import { normalizePhoneNumber, validatePhoneNumber } from "../utils/phone";
+import { isOrderOtpPending, issueOtpChallenge, verifyOtpChallenge } from "../services/otp.server";
+import {
+    applyCustomerDecision,
+    getConfirmationLinkQuery,
+    getConfirmationOrder,
+    updateConfirmationAddress,
+    verifyConfirmationLink,
+    type ConfirmationOrder,
+} from "../services/order-confirmation.server";
 
 // ── In-process caches to avoid repeated DB/session round-trips ──
 // REST clients and fraud settings are stable per shop for minutes at a time.
@@ -114,19 +125,23 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         return new Response(JSON.stringify(result), { headers: corsHeaders });
     }
 
+    // Typo hint for the email field — shown under the field, never blocks the order
+    const email = url.searchParams.get("email");
+    if ((path === "api/email-suggestion" || path.endsWith("email-suggestion")) && email && shop) {
+        const fraudSettings = await getFraudProtectionSettings(shop);
+        const suggestion = fraudSettings.email_domain_check_enabled ? suggestEmailCorrection(email) : null;
+        return new Response(JSON.stringify({ success: true, suggestion }), { headers: corsHeaders });
+    }
+
     // Route order status polling (for storefront to poll Shopify order ID after background sync)
     const orderId = url.searchParams.get("orderId");
-    if ((path === "api/get-order-status" || path.endsWith("get-order-status")) && orderId) {
-        const { supabase: sb } = await import("../config/supabase.server");
-        const { data, error } = await sb
-            .from("order_logs")
-            .select("shopify_order_id, shopify_order_name, sync_status")
-            .eq("id", orderId)
-            .single();
+    if ((path === "api/get-order-status" || path.endsWith("get-order-status")) && orderId && shop) {
+        const { getOrderSyncStatus } = await import("../config/supabase.server");
+        const order = await getOrderSyncStatus(shop, orderId);
 
         return new Response(JSON.stringify({
-            success: !error && !!data,
-            order: data || null,
+            success: !!order,
+            order,
         }), { headers: corsHeaders });
     }
 
@@ -149,17 +164,44 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         return new Response("[]", { status: 404, headers: corsHeaders });
     }
 
+    // Signed self-service confirmation page (link from thank-you page / messages)
+    if (path === "confirm-order" && shop) {
+        const linkParams = { o: url.searchParams.get("o"), e: url.searchParams.get("e"), s: url.searchParams.get("s") };
+        const order = verifyConfirmationLink(shop, linkParams)
+            ? await getConfirmationOrder(shop, linkParams.o!)
+            : null;
+        const linkQuery = order ? new URLSearchParams(linkParams as Record<string, string>).toString() : '';
+
+        return new Response(renderConfirmationPage(order, linkQuery), {
+            headers: {
+                "Content-Type": "application/liquid; charset=utf-8",
+                "Access-Control-Allow-Origin": "*"
+            },
+        });
+    }
+
     // Thank You Page (Fallback when statusPageUrl is missing)
     if (path === "thank-you") {
         const orderId = url.searchParams.get("order_id") || "Unknown";
+        // Orders held for manual review aren't confirmed yet
+        const isHeld = url.searchParams.get("held") === "1";
+        const heading = isHeld ? "Order Received!" : "Order Confirmed!";
+        const message = isHeld
+            ? "Thank you for your order. We are reviewing it and will contact you shortly to confirm."
+            : "Thank you for your purchase. Your order is being processed.";
+        // Link to the confirmation page when the redirect carried a signed one
+        const linkParams = { o: url.searchParams.get("o"), e: url.searchParams.get("e"), s: url.searchParams.get("s") };
+        const confirmationLink = !isHeld && shop && verifyConfirmationLink(shop, linkParams)
+            ? `<a href="/apps/fox-cod/confirm-order?${escapeLiquidHtml(new URLSearchParams(linkParams as Record<string, string>).toString())}" style="display: block; margin-bottom: 16px; color: #2563eb; font-weight: 600; text-decoration: none;">Confirm, cancel or change your delivery address →</a>`
+            : "";
         
         const liquidHtml = `
 <div class="foxcod-thank-you-container" style="max-width: 600px; margin: 40px auto; padding: 30px; text-align: center; background: #fff; border-radius: 12px; box-shadow: 0 4px 12px rgba(0,0,0,0.05);">
   <svg style="width: 64px; height: 64px; color: #10b981; margin: 0 auto 20px;" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
     <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"></path>
   </svg>
-  <h1 style="font-size: 28px; font-weight: bold; margin-bottom: 10px; color: #111827;">Order Confirmed!</h1>
-  <p style="font-size: 16px; color: #4b5563; margin-bottom: 24px;">Thank you for your purchase. Your order is being processed.</p>
+  <h1 style="font-size: 28px; font-weight: bold; margin-bottom: 10px; color: #111827;">${heading}</h1>
+  <p style="font-size: 16px; color: #4b5563; margin-bottom: 24px;">${message}</p>
   
   <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin-bottom: 30px;">
     <p style="font-size: 14px; color: #6b7280; margin: 0 0 5px 0;">Order Reference</p>
@@ -167,6 +209,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   </div>
   
   <p style="font-size: 14px; color: #4b5563; margin-bottom: 30px;">Please prepare the exact amount for Cash on Delivery.</p>
+  ${confirmationLink}
   
   <a href="/" style="display: inline-block; background: #000; color: #fff; text-decoration: none; padding: 14px 28px; border-radius: 8px; font-weight: bold; transition: background 0.2s;">Continue Shopping</a>
 </div>
@@ -248,6 +291,24 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
             }), { headers: corsHeaders });
         }
 
+        // ── ORDER CONFIRMATION PAGE ───────────────────────────────────────────
+        if (path.includes("confirm-order")) {
+            return await handleConfirmationPageAction(request, data);
+        }
+
+        // ── PHONE OTP ─────────────────────────────────────────────────────────
+        // Issue / check codes. Orders are gated in requireOtpVerification below.
+        if (path.includes("otp/send")) {
+            return await handleOtpSend(request, data);
+        }
+
+        if (path.includes("otp/verify")) {
+            const result = data.shop && data.challengeId && data.code
+                ? await verifyOtpChallenge(data.shop, String(data.challengeId), String(data.code).trim())
+                : { success: false, error: "Missing verification code" };
+            return new Response(JSON.stringify(result), { headers: corsHeaders });
+        }
+
         // ── PLAN ENFORCEMENT ──────────────────────────────────────────────────
         // Single choke point for all four order flows below (native COD, full
         // prepaid, partial COD, regular COD). Placed after the read-only
@@ -275,9 +336,12 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
         if (isCheckoutPath || isPartialCodPayload || isFullPrepaidPayload || isNativeCodPayload) {
             switch (data.paymentMethod) {
-                case 'native_cod':
+                case 'native_cod': {
                     console.log('[Proxy] ✅ Matched Native COD route');
+                    const otpResponse = await requireOtpVerification(request, data);
+                    if (otpResponse) return otpResponse;
                     return await handleNativeCodCheckout(request, data);
+                }
                 case 'full_prepaid':
                     console.log('[Proxy] ✅ Matched Full Prepaid route');
                     return await handleFullPrepaidCheckout(request, data);
@@ -292,6 +356,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
         // Default Route: Regular COD Order Creation
         console.log('[Proxy] Using default order creation route');
+        const otpResponse = await requireOtpVerification(request, data);
+        if (otpResponse) return otpResponse;
         return await handleRegularOrder(request, data);
 
     } catch (error: any) {
@@ -306,6 +372,247 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     }
 };
 
+/**
+ * Validate the customer's phone for the order country and rewrite
+ * data.customerPhone to E.164 so stored numbers match across orders.
+ * Returns an error response when the number is invalid or looks fake.
+ */
+function validateAndNormalizePhone(data: any, orderCountry: string): Response | null {
+    if (!data.customerPhone || !String(data.customerPhone).trim()) return null;
+
+    const phoneCheck = validatePhoneNumber(String(data.customerPhone), orderCountry);
+    if (!phoneCheck.valid) {
+        return new Response(JSON.stringify({
+            success: false,
+            error: phoneCheck.error,
+        }), { status: 400, headers: corsHeaders });
+    }
+
+    data.customerPhone = phoneCheck.e164;
+    return null;
+}
+
+function getClientIp(request: Request): string {
+    return request.headers.get('x-shopify-client-ip')
+        || request.headers.get('cf-connecting-ip')
+        || request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+        || request.headers.get('x-real-ip')
+        || 'unknown';
+}
+
+// ─── Order Confirmation Page ──────────────────────────────────────────────────
+// Rendered as Liquid inside the storefront theme, so customer data is escaped
+// for HTML and for Liquid's {{ }} / {% %} delimiters.
+
+function escapeLiquidHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+        .replace(/{/g, '&#123;')
+        .replace(/}/g, '&#125;');
+}
+
+const CONFIRMATION_STATUS_MESSAGES: Record<string, string> = {
+    confirmed: 'Your order is confirmed. You can still correct your delivery address below until it ships.',
+    cancelled: 'This order has been cancelled.',
+    shipped: 'Your order has shipped and can no longer be changed.',
+    delivered: 'Your order has been delivered.',
+    returned: 'This order was returned.',
+};
+
+function renderConfirmationPage(order: ConfirmationOrder | null, linkQuery: string): string {
+    if (!order) {
+        return `
+<div style="max-width: 560px; margin: 40px auto; padding: 30px; text-align: center; background: #fff; border-radius: 12px; box-shadow: 0 4px 12px rgba(0,0,0,0.05);">
+  <h1 style="font-size: 24px; font-weight: bold; margin-bottom: 10px; color: #111827;">Link expired</h1>
+  <p style="font-size: 16px; color: #4b5563; margin-bottom: 24px;">This confirmation link is no longer valid. Please contact the store if you need help with your order.</p>
+  <a href="/" style="display: inline-block; background: #000; color: #fff; text-decoration: none; padding: 14px 28px; border-radius: 8px; font-weight: bold;">Continue Shopping</a>
+</div>`;
+    }
+
+    const isPending = order.status === 'pending';
+    const canEditAddress = isPending || order.status === 'confirmed';
+    let total = '';
+    try {
+        total = new Intl.NumberFormat('en', { style: 'currency', currency: order.currency || 'USD' }).format(Number(order.total_price) || 0);
+    } catch {
+        total = `${order.currency || ''} ${order.total_price ?? ''}`;
+    }
+    const buttonStyle = 'display: inline-block; border: none; padding: 14px 24px; border-radius: 8px; font-weight: bold; font-size: 15px; cursor: pointer;';
+
+    return `
+<div id="foxcod-confirm" style="max-width: 560px; margin: 40px auto; padding: 30px; background: #fff; border-radius: 12px; box-shadow: 0 4px 12px rgba(0,0,0,0.05); font-family: inherit;">
+  <h1 style="font-size: 24px; font-weight: bold; margin: 0 0 6px; color: #111827; text-align: center;">${isPending ? 'Please confirm your order' : 'Your order'}</h1>
+  <p style="font-size: 15px; color: #6b7280; margin: 0 0 24px; text-align: center;">Order ${escapeLiquidHtml(order.shopify_order_name)}</p>
+
+  <div style="background: #f3f4f6; padding: 16px 20px; border-radius: 8px; margin-bottom: 16px;">
+    <p style="margin: 0 0 6px; color: #111827; font-weight: 600;">${escapeLiquidHtml(order.product_title)} × ${escapeLiquidHtml(order.quantity || 1)}</p>
+    <p style="margin: 0; color: #4b5563;">Pay on delivery: <strong>${escapeLiquidHtml(total)}</strong></p>
+  </div>
+
+  <div style="border: 1px solid #e5e7eb; padding: 16px 20px; border-radius: 8px; margin-bottom: 24px;">
+    <p style="margin: 0 0 6px; font-size: 13px; color: #6b7280;">Delivering to</p>
+    <p style="margin: 0; color: #111827;">${escapeLiquidHtml(order.customer_name)}<br>${escapeLiquidHtml(order.customer_address)}<br>${escapeLiquidHtml([order.city, order.state, order.pincode].filter(Boolean).join(', '))}</p>
+  </div>
+
+  ${CONFIRMATION_STATUS_MESSAGES[order.status] ? `<p style="margin: 0 0 20px; color: #111827; text-align: center;">${CONFIRMATION_STATUS_MESSAGES[order.status]}</p>` : ''}
+  <p id="foxcod-confirm-error" style="display: none; margin: 0 0 16px; color: #d82c0d; text-align: center;"></p>
+
+  <div style="display: flex; gap: 10px; justify-content: center; flex-wrap: wrap;">
+    ${isPending ? `<button type="button" data-intent="confirm" style="${buttonStyle} background: #16a34a; color: #fff;">Confirm order</button>` : ''}
+    ${isPending ? `<button type="button" data-intent="cancel" style="${buttonStyle} background: #fff; color: #b91c1c; border: 1px solid #fecaca;">Cancel order</button>` : ''}
+    ${canEditAddress ? `<button type="button" id="foxcod-edit-address" style="${buttonStyle} background: #fff; color: #374151; border: 1px solid #d1d5db;">Edit address</button>` : ''}
+  </div>
+
+  ${canEditAddress ? `
+  <form id="foxcod-address-form" style="display: none; margin-top: 24px; gap: 12px; flex-direction: column;">
+    <input name="address" required value="${escapeLiquidHtml(order.customer_address)}" placeholder="Address" style="padding: 12px; border: 1px solid #d1d5db; border-radius: 8px;">
+    <input name="city" required value="${escapeLiquidHtml(order.city)}" placeholder="City" style="padding: 12px; border: 1px solid #d1d5db; border-radius: 8px;">
+    <input name="pincode" required value="${escapeLiquidHtml(order.pincode)}" placeholder="PIN / postal code" style="padding: 12px; border: 1px solid #d1d5db; border-radius: 8px;">
+    <button type="submit" style="${buttonStyle} background: #000; color: #fff;">Save address</button>
+  </form>` : ''}
+</div>
+<script>
+  (function () {
+    var root = document.getElementById('foxcod-confirm');
+    var errorEl = document.getElementById('foxcod-confirm-error');
+    var linkQuery = ${JSON.stringify(linkQuery).replace(/</g, '\\u003c')};
+
+    function send(body) {
+      errorEl.style.display = 'none';
+      var buttons = root.querySelectorAll('button');
+      buttons.forEach(function (b) { b.disabled = true; });
+      fetch('/apps/fox-cod/confirm-order?' + linkQuery, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+        .then(function (res) { return res.json(); })
+        .then(function (result) {
+          if (result && result.success) { window.location.reload(); return; }
+          errorEl.textContent = (result && result.error) || 'Something went wrong. Please try again.';
+          errorEl.style.display = 'block';
+          buttons.forEach(function (b) { b.disabled = false; });
+        })
+        .catch(function () {
+          errorEl.textContent = 'Network error. Please try again.';
+          errorEl.style.display = 'block';
+          buttons.forEach(function (b) { b.disabled = false; });
+        });
+    }
+
+    root.querySelectorAll('button[data-intent]').forEach(function (button) {
+      button.addEventListener('click', function () {
+        var intent = button.getAttribute('data-intent');
+        if (intent === 'cancel' && !window.confirm('Cancel this order?')) return;
+        send({ intent: intent });
+      });
+    });
+
+    var editButton = document.getElementById('foxcod-edit-address');
+    var form = document.getElementById('foxcod-address-form');
+    if (editButton && form) {
+      editButton.addEventListener('click', function () { form.style.display = 'flex'; });
+      form.addEventListener('submit', function (event) {
+        event.preventDefault();
+        send({ intent: 'address', address: form.address.value, city: form.city.value, pincode: form.pincode.value });
+      });
+    }
+  })();
+</script>`;
+}
+
+async function handleConfirmationPageAction(request: Request, data: any) {
+    const url = new URL(request.url);
+    // The app proxy appends ?shop=; the signed params ride along on the query string too
+    const shop = url.searchParams.get("shop") || data.shop || "";
+    const linkParams = { o: url.searchParams.get("o"), e: url.searchParams.get("e"), s: url.searchParams.get("s") };
+    if (!shop || !verifyConfirmationLink(shop, linkParams)) {
+        return new Response(JSON.stringify({ success: false, error: 'This link has expired.' }), { headers: corsHeaders });
+    }
+
+    const shopifyOrderId = linkParams.o!;
+    const result = data.intent === 'address'
+        ? await updateConfirmationAddress(shop, shopifyOrderId, {
+            address: String(data.address || ''),
+            city: String(data.city || ''),
+            pincode: String(data.pincode || ''),
+        })
+        : data.intent === 'confirm' || data.intent === 'cancel'
+            ? await applyCustomerDecision(shop, shopifyOrderId, data.intent)
+            : { success: false, error: 'Unknown action' };
+
+    return new Response(JSON.stringify(result), { headers: corsHeaders });
+}
+
+// ─── Phone OTP ────────────────────────────────────────────────────────────────
+// The storefront submits the order as usual; when the shop's OTP setting
+// applies and the phone isn't verified yet, the order route answers with
+// otpRequired. The form then calls otp/send + otp/verify and resubmits with
+// otp_challenge_id.
+
+async function handleOtpSend(request: Request, data: any) {
+    const settings = await getCachedFraudSettings(data.shop);
+    if (!data.shop || !settings.otp_mode || settings.otp_mode === 'off') {
+        return new Response(JSON.stringify({
+            success: false,
+            error: 'Phone verification is not enabled for this store.',
+        }), { headers: corsHeaders });
+    }
+
+    const orderCountry = await resolveCountryForOrder({
+        customerCountry: data.customerCountry || data.country,
+        detectedCountry: data.detectedCountry,
+        shop: data.shop,
+    });
+    const phoneCheck = validatePhoneNumber(String(data.phone || ''), orderCountry);
+    if (!phoneCheck.valid) {
+        return new Response(JSON.stringify({ success: false, error: phoneCheck.error }), { headers: corsHeaders });
+    }
+
+    const result = await issueOtpChallenge(data.shop, phoneCheck.e164, getClientIp(request));
+    return new Response(JSON.stringify(result), { headers: corsHeaders });
+}
+
+/**
+ * Returns an otpRequired response when this order needs a verified phone and
+ * doesn't have one (see isOrderOtpPending), or null to let the order through.
+ */
+async function requireOtpVerification(request: Request, data: any): Promise<Response | null> {
+    const settings = await getCachedFraudSettings(data.shop);
+    if (!data.shop || !settings.otp_mode || settings.otp_mode === 'off') return null;
+
+    const orderCountry = await resolveCountryForOrder({
+        customerCountry: data.customerCountry || data.country,
+        detectedCountry: data.detectedCountry,
+        shop: data.shop,
+    });
+    const rawPhone = String(data.customerPhone || '');
+
+    const pending = await isOrderOtpPending(settings, {
+        phone: normalizePhoneNumber(rawPhone, orderCountry) || rawPhone,
+        email: data.customerEmail,
+        ip: getClientIp(request),
+        zipcode: data.customerZipcode,
+        address: data.customerAddress || '',
+        quantity: parseInt(data.quantity) || 1,
+        deviceFingerprint: data.device_fingerprint,
+        cartValue: calculateOrderPricing(data).originalTotal,
+        challengeId: data.otp_challenge_id,
+        shopDomain: data.shop,
+    });
+    if (!pending) return null;
+
+    return new Response(JSON.stringify({
+        success: false,
+        otpRequired: true,
+        error: 'Please verify your phone number to place this order.',
+    }), { status: 200, headers: corsHeaders }); // 200 so the Shopify proxy passes the JSON through
+}
+
 // ─── Handle Partial COD Checkout v2 ───────────────────────────────────────────
 // Releaseit-style: temporary Shopify discount code + Storefront API checkout.
 // Customer always pays through real Shopify Checkout → real Thank You page.
@@ -324,7 +631,6 @@ async function handlePartialCodCheckout(request: Request, data: any) {
             price,
             advanceAmount,
             customerName,
-            customerPhone,
             customerAddress,
             customerEmail,
             customerCity,
@@ -348,6 +654,10 @@ async function handlePartialCodCheckout(request: Request, data: any) {
             shop: shop,
         });
 
+        const phoneError = validateAndNormalizePhone(data, orderCountry);
+        if (phoneError) return phoneError;
+        const customerPhone: string = data.customerPhone;
+
         const allVariantIds: any[] = [];
         if (data.cart_items) {
             data.cart_items.forEach((item: any) => allVariantIds.push(item.variantId || item.variant_id || item.id));
@@ -414,15 +724,25 @@ async function handlePartialCodCheckout(request: Request, data: any) {
             || request.headers.get('x-real-ip')
             || 'unknown';
 
+        // Priced before the fraud check so blocked attempts are logged with their cart value
+        const pricing = calculateOrderPricing(data, null, contextualResult.prices);
+
+        const fraudOrder: OrderValidationData = {
+            phone: customerPhone,
+            email: customerEmail,
+            ip: clientIp,
+            zipcode: customerZipcode,
+            address: customerAddress || '',
+            quantity: parseInt(quantity) || 1,
+            paymentMethod: 'partial_cod',
+            cartValue: pricing.originalTotal,
+            orderSource: data.order_source,
+            deviceFingerprint: data.device_fingerprint,
+            shopDomain: shop,
+        };
+        let fraudResult: FraudValidationResult | null = null;
         try {
-            const fraudResult = await validateOrderAgainstFraudRulesWithSettings({
-                phone: customerPhone,
-                email: customerEmail,
-                ip: clientIp,
-                zipcode: customerZipcode,
-                quantity: parseInt(quantity) || 1,
-                shopDomain: shop,
-            }, fraudSettings);
+            fraudResult = await validateOrderAgainstFraudRulesWithSettings(fraudOrder, fraudSettings);
 
             if (!fraudResult.allowed) {
                 console.warn('[Proxy Partial COD v2] Blocked by fraud protection:', fraudResult.message);
@@ -437,7 +757,6 @@ async function handlePartialCodCheckout(request: Request, data: any) {
         console.log('⏱ [Proxy Partial COD v2] Fraud checks done:', Date.now() - start, 'ms');
 
         // ── Pricing: base subtotal ──────────────────────────────────────────
-        const pricing = calculateOrderPricing(data, null, contextualResult.prices);
         let totalOrderValue = pricing.originalTotal;
         let couponDiscount = 0;
         let normalizedCouponCode = '';
@@ -508,7 +827,7 @@ async function handlePartialCodCheckout(request: Request, data: any) {
         const nameParts = nameStr.split(/\s+/);
         const firstName = nameParts[0] || 'Customer';
         const lastName = nameParts.slice(1).join(' ') || '';
-        const formattedPhone = formatPhoneE164(customerPhone || '');
+        const formattedPhone = formatPhoneE164(customerPhone || '', orderCountry);
 
         // ── Generate unique partial payment reference ───────────────────────
         const partialRef = 'PCOD-' + Date.now().toString(36).toUpperCase() + randomHex(4);
@@ -632,6 +951,7 @@ async function handlePartialCodCheckout(request: Request, data: any) {
                 advance_amount: safeAdvance,
                 remaining_cod_amount: remainingAmount,
                 payment_method: 'partial_cod' as const,
+                ...toFraudLogFields(fraudResult),
                 order_payload: {
                     ...data,
                     partial_payment_reference: partialRef,
@@ -650,6 +970,7 @@ async function handlePartialCodCheckout(request: Request, data: any) {
                 },
             })
         ).then(() => {
+            if (fraudResult) recordVelocity(fraudOrder, fraudSettings).catch(() => {});
             console.log('⏱ [Proxy Partial COD v2] DB log done (async):', Date.now() - start, 'ms');
         }).catch((dbErr: any) => {
             console.error('[Proxy Partial COD v2] DB log failed (non-fatal):', dbErr.message);
@@ -721,7 +1042,6 @@ async function handleFullPrepaidCheckout(request: Request, data: any) {
             quantity,
             price,
             customerName,
-            customerPhone,
             customerAddress,
             customerEmail,
             customerCity,
@@ -742,6 +1062,10 @@ async function handleFullPrepaidCheckout(request: Request, data: any) {
             shop: shop,
         });
 
+        const phoneError = validateAndNormalizePhone(data, orderCountry);
+        if (phoneError) return phoneError;
+        const customerPhone: string = data.customerPhone;
+
         const allVariantIds: any[] = [];
         if (data.cart_items) {
             data.cart_items.forEach((item: any) => allVariantIds.push(item.variantId || item.variant_id || item.id));
@@ -778,15 +1102,24 @@ async function handleFullPrepaidCheckout(request: Request, data: any) {
 
         const fraudSettings = await getCachedFraudSettings(shop);
 
+        const pricing = calculateOrderPricing(data, null, contextualResult.prices);
+
+        const fraudOrder: OrderValidationData = {
+            phone: customerPhone,
+            email: customerEmail,
+            ip: clientIp,
+            zipcode: customerZipcode,
+            address: customerAddress || '',
+            quantity: parseInt(quantity) || 1,
+            paymentMethod: 'full_prepaid',
+            cartValue: pricing.originalTotal,
+            orderSource: data.order_source,
+            deviceFingerprint: data.device_fingerprint,
+            shopDomain: shop,
+        };
+        let fraudResult: FraudValidationResult | null = null;
         try {
-            const fraudResult = await validateOrderAgainstFraudRulesWithSettings({
-                phone: customerPhone,
-                email: customerEmail,
-                ip: clientIp,
-                zipcode: customerZipcode,
-                quantity: parseInt(quantity) || 1,
-                shopDomain: shop,
-            }, fraudSettings);
+            fraudResult = await validateOrderAgainstFraudRulesWithSettings(fraudOrder, fraudSettings);
 
             if (!fraudResult.allowed) {
                 console.warn('[Proxy Full Prepaid] Blocked by fraud protection:', fraudResult.message);
@@ -801,7 +1134,6 @@ async function handleFullPrepaidCheckout(request: Request, data: any) {
         console.log('⏱ [Proxy Full Prepaid] Fraud checks done:', Date.now() - start, 'ms');
 
         // ── Pricing ─────────────────────────────────────────────────────────
-        const pricing = calculateOrderPricing(data, null, contextualResult.prices);
         let totalOrderValue = pricing.originalTotal;
         let couponDiscount = 0;
         let normalizedCouponCode = '';
@@ -873,7 +1205,7 @@ async function handleFullPrepaidCheckout(request: Request, data: any) {
         const nameParts = nameStr.split(/\s+/);
         const firstName = nameParts[0] || 'Customer';
         const lastName = nameParts.slice(1).join(' ') || '';
-        const formattedPhone = formatPhoneE164(customerPhone || '');
+        const formattedPhone = formatPhoneE164(customerPhone || '', orderCountry);
 
         // ── Build line items ─────────────────────────────────────────────────
         const storefrontLineItems = pricing.discountItems.map((item: any) => {
@@ -955,6 +1287,7 @@ async function handleFullPrepaidCheckout(request: Request, data: any) {
                 currency: currencyCode,
                 is_full_prepaid: true,
                 payment_method: 'full_prepaid' as const,
+                ...toFraudLogFields(fraudResult),
                 order_payload: {
                     ...data,
                     full_prepaid_reference: fullPrepaidRef,
@@ -971,6 +1304,7 @@ async function handleFullPrepaidCheckout(request: Request, data: any) {
                 },
             })
         ).then(() => {
+            if (fraudResult) recordVelocity(fraudOrder, fraudSettings).catch(() => {});
             console.log('⏱ [Proxy Full Prepaid] DB log done (async):', Date.now() - start, 'ms');
         }).catch((dbErr: any) => {
             console.error('[Proxy Full Prepaid] DB log failed (non-fatal):', dbErr.message);
@@ -1091,6 +1425,9 @@ async function handleRegularOrder(request: Request, data: any) {
         shop: data.shop,
     });
 
+    const phoneError = validateAndNormalizePhone(data, orderCountry);
+    if (phoneError) return phoneError;
+
     const allVariantIds: any[] = [];
     if (data.cart_items) {
         data.cart_items.forEach((item: any) => allVariantIds.push(item.variantId || item.variant_id || item.id));
@@ -1127,15 +1464,24 @@ async function handleRegularOrder(request: Request, data: any) {
         || request.headers.get('x-real-ip')
         || 'unknown';
 
+    const pricing = calculateOrderPricing(data, ppSettings, contextualResult.prices);
+
+    const fraudOrder: OrderValidationData = {
+        phone: data.customerPhone,
+        email: data.customerEmail,
+        ip: clientIp,
+        zipcode: data.customerZipcode,
+        address: data.customerAddress || '',
+        quantity: parseInt(data.quantity) || 1,
+        paymentMethod: 'cod',
+        cartValue: pricing.originalTotal,
+        orderSource: data.order_source,
+        deviceFingerprint: data.device_fingerprint,
+        shopDomain: data.shop,
+    };
+    let fraudResult: FraudValidationResult | null = null;
     try {
-        const fraudResult = await validateOrderAgainstFraudRulesWithSettings({
-            phone: data.customerPhone,
-            email: data.customerEmail,
-            ip: clientIp,
-            zipcode: data.customerZipcode,
-            quantity: parseInt(data.quantity) || 1,
-            shopDomain: data.shop,
-        }, fraudSettings);
+        fraudResult = await validateOrderAgainstFraudRulesWithSettings(fraudOrder, fraudSettings);
         if (!fraudResult.allowed) {
             console.warn('[Proxy] Blocked by fraud protection:', fraudResult.message);
             return new Response(JSON.stringify({
@@ -1152,7 +1498,6 @@ async function handleRegularOrder(request: Request, data: any) {
     const upsellItems = data.upsell_items || [];
     const shippingPrice = parseFloat(data.shippingPrice) || 0;
     const discountPercent = parseFloat(data.discountPercent) || 0;
-    const pricing = calculateOrderPricing(data, ppSettings, contextualResult.prices);
     let totalPrice = pricing.originalTotal;
     let couponDiscount = 0;
     let couponType: "percentage" | "fixed" | null = null;
@@ -1309,7 +1654,7 @@ async function handleRegularOrder(request: Request, data: any) {
     const nameParts = customerName.trim().split(/\s+/);
     const firstName = nameParts[0] || 'Customer';
     const lastName = nameParts.slice(1).join(' ') || '';
-    const formattedPhone = formatPhoneE164(data.customerPhone || '');
+    const formattedPhone = formatPhoneE164(data.customerPhone || '', orderCountry);
     const shippingLabel = data.shippingLabel || (shippingPrice > 0 ? 'Shipping' : 'Free Shipping');
 
     // ── SAFETY: cap discount to never exceed the order total ──
@@ -1397,6 +1742,42 @@ async function handleRegularOrder(request: Request, data: any) {
         ]
     };
 
+    const finalTotalValue = (pricing.originalTotal + pricing.codFeeAmount) - couponDiscount + shippingPrice;
+    const orderLogFields: OrderLogEntry = {
+        shop_domain: data.shop,
+        customer_name: data.customerName || '',
+        customer_phone: data.customerPhone || '',
+        customer_address: data.customerAddress || '',
+        customer_email: data.customerEmail || '',
+        notes: orderNotes,
+        city: data.customerCity || '',
+        state: data.customerState || '',
+        pincode: data.customerZipcode || '',
+        product_id: normalizedProductId || mainVariantId,
+        product_title: data.productTitle || 'Product',
+        variant_id: mainVariantId ? String(mainVariantId) : undefined,
+        quantity: parseInt(data.quantity) || 1,
+        price: String(data.price || 0),
+        shipping_label: data.shippingLabel || '',
+        shipping_price: shippingPrice,
+        coupon_code: couponCode || undefined,
+        discount_amount: couponDiscount || undefined,
+        original_total: pricing.originalTotal,
+        final_total: finalTotalValue,
+        currency: currencyCode,
+        is_full_prepaid: false,
+        is_partial_cod: false,
+        payment_method: 'cod' as const,
+        ...toFraudLogFields(fraudResult),
+        order_payload: {
+            ...data,
+            discount_code: couponCode,
+            discountAmount: couponDiscount,
+            originalTotal: pricing.originalTotal,
+            finalTotal: finalTotalValue,
+        },
+    };
+
     // ── 4.1 BUILD INVENTORY METADATA & LOCK ──
     const inventoryMetadata = await buildInventoryMetadata(data.shop, lineItems.map((li: any) => ({
         variantId: li.variant_id,
@@ -1412,6 +1793,22 @@ async function handleRegularOrder(request: Request, data: any) {
         }), { status: 400, headers: corsHeaders });
     }
 
+    // ── 4.2 HELD FOR REVIEW: save with payload, push to Shopify on approval ──
+    if (shouldHoldOrder(fraudResult)) {
+        const heldOrder = await logOrder({ ...orderLogFields, review_status: 'pending' });
+        if (fraudResult) recordVelocity(fraudOrder, fraudSettings).catch(() => {});
+        console.warn('[Proxy] Held for manual review:', heldOrder.id, 'score', fraudResult?.score);
+
+        return new Response(JSON.stringify({
+            success: true,
+            orderType: 'cod',
+            held: true,
+            orderId: heldOrder.id,
+            orderName: heldOrder.shopify_order_name,
+            message: 'Your order has been received and is being reviewed. We will contact you to confirm it.',
+        }), { headers: corsHeaders });
+    }
+
     const orderReference = `foxcod_${Date.now()}_${(data.customerPhone || '').slice(-4) || 'xxx'}`;
     await acquireReservations(orderReference, inventoryMetadata);
     
@@ -1475,44 +1872,14 @@ async function handleRegularOrder(request: Request, data: any) {
     }
 
     // ── 7. NON-BLOCKING: Log to DB & Google Sheets ──
-    const finalTotalValue = (pricing.originalTotal + pricing.codFeeAmount) - couponDiscount + shippingPrice;
-    
     Promise.resolve(
         logOrderWithShopifyIds({
-            shop_domain: data.shop,
-            customer_name: data.customerName || '',
-            customer_phone: data.customerPhone || '',
-            customer_address: data.customerAddress || '',
-            customer_email: data.customerEmail || '',
-            notes: orderNotes,
-            city: data.customerCity || '',
-            state: data.customerState || '',
-            pincode: data.customerZipcode || '',
-            product_id: normalizedProductId || mainVariantId,
-            product_title: data.productTitle || 'Product',
-            variant_id: mainVariantId || undefined,
-            quantity: parseInt(data.quantity) || 1,
-            price: String(data.price || 0),
-            shipping_label: data.shippingLabel || '',
-            shipping_price: shippingPrice,
-            coupon_code: couponCode || undefined,
-            discount_amount: couponDiscount ? String(couponDiscount) : undefined,
-            original_total: pricing.originalTotal,
-            final_total: finalTotalValue,
-            currency: currencyCode,
-            is_full_prepaid: false,
-            is_partial_cod: false,
-            payment_method: 'cod' as any,
-            order_payload: {
-                ...data,
-                shopifyOrderId: shopifyOrderId,
-                discount_code: couponCode,
-                discountAmount: couponDiscount,
-                originalTotal: pricing.originalTotal,
-                finalTotal: finalTotalValue,
-            },
+            ...orderLogFields,
+            order_payload: { ...orderLogFields.order_payload, shopifyOrderId: shopifyOrderId },
         }, shopifyOrderId, shopifyOrderName)
-    ).catch(() => {});
+    ).then(() => {
+        if (fraudResult) recordVelocity(fraudOrder, fraudSettings).catch(() => {});
+    }).catch(() => {});
 
     syncOrderToGoogleSheets(data.shop, {
         orderId: shopifyOrderId,
@@ -1539,6 +1906,8 @@ async function handleRegularOrder(request: Request, data: any) {
         orderId: shopifyOrderId,
         orderName: shopifyOrderName,
         statusPageUrl,
+        // Signed o/e/s params for the confirmation page, appended to the thank-you redirect
+        confirmationQuery: getConfirmationLinkQuery(data.shop, String(shopifyOrderId)),
     }), { headers: corsHeaders });
 
 }
@@ -1558,7 +1927,6 @@ async function handleNativeCodCheckout(request: Request, data: any) {
             quantity,
             price,
             customerName,
-            customerPhone,
             customerAddress,
             customerEmail,
             customerCity,
@@ -1579,6 +1947,10 @@ async function handleNativeCodCheckout(request: Request, data: any) {
             shop: shop,
         });
 
+        const phoneError = validateAndNormalizePhone(data, orderCountry);
+        if (phoneError) return phoneError;
+        const customerPhone: string = data.customerPhone;
+
         const allVariantIds: any[] = [];
         if (data.cart_items) {
             data.cart_items.forEach((item: any) => allVariantIds.push(item.variantId || item.variant_id || item.id));
@@ -1613,15 +1985,24 @@ async function handleNativeCodCheckout(request: Request, data: any) {
 
         const fraudSettings = await getCachedFraudSettings(shop);
 
+        const pricing = calculateOrderPricing(data, null, contextualResult.prices);
+
+        const fraudOrder: OrderValidationData = {
+            phone: customerPhone,
+            email: customerEmail,
+            ip: clientIp,
+            zipcode: customerZipcode,
+            address: customerAddress || '',
+            quantity: parseInt(quantity) || 1,
+            paymentMethod: 'cod',
+            cartValue: pricing.originalTotal,
+            orderSource: data.order_source,
+            deviceFingerprint: data.device_fingerprint,
+            shopDomain: shop,
+        };
+        let fraudResult: FraudValidationResult | null = null;
         try {
-            const fraudResult = await validateOrderAgainstFraudRulesWithSettings({
-                phone: customerPhone,
-                email: customerEmail,
-                ip: clientIp,
-                zipcode: customerZipcode,
-                quantity: parseInt(quantity) || 1,
-                shopDomain: shop,
-            }, fraudSettings);
+            fraudResult = await validateOrderAgainstFraudRulesWithSettings(fraudOrder, fraudSettings);
 
             if (!fraudResult.allowed) {
                 console.warn('[Proxy Native COD] Blocked by fraud protection:', fraudResult.message);
@@ -1635,7 +2016,6 @@ async function handleNativeCodCheckout(request: Request, data: any) {
         }
 
         // ── Pricing ─────────────────────────────────────────────────────────
-        const pricing = calculateOrderPricing(data, null, contextualResult.prices);
         let totalOrderValue = pricing.originalTotal; // Already includes COD fee
         let couponDiscount = 0;
         let normalizedCouponCode = '';
@@ -1659,7 +2039,7 @@ async function handleNativeCodCheckout(request: Request, data: any) {
         const nameParts = nameStr.split(/\s+/);
         const firstName = nameParts[0] || 'Customer';
         const lastName = nameParts.slice(1).join(' ') || '';
-        const formattedPhone = formatPhoneE164(customerPhone || '');
+        const formattedPhone = formatPhoneE164(customerPhone || '', orderCountry);
 
         // ── Build line items ─────────────────────────────────────────────────
         const storefrontLineItems = pricing.discountItems.map((item: any) => {
@@ -1737,6 +2117,7 @@ async function handleNativeCodCheckout(request: Request, data: any) {
                 is_full_prepaid: false,
                 is_partial_cod: false,
                 payment_method: 'native_cod' as any,
+                ...toFraudLogFields(fraudResult),
                 order_payload: {
                     ...data,
                     checkout_id: checkoutResult.checkoutId,
@@ -1748,7 +2129,9 @@ async function handleNativeCodCheckout(request: Request, data: any) {
                     finalTotal: totalOrderValue,
                 },
             })
-        ).catch(() => {});
+        ).then(() => {
+            if (fraudResult) recordVelocity(fraudOrder, fraudSettings).catch(() => {});
+        }).catch(() => {});
 
         // ── Non-blocking Google Sheets sync ────────────────────────────────
         syncOrderToGoogleSheets(shop, {
@@ -0,0 +1,60 @@
+/**
+ * Webhook Handler: fulfillment_events/create
+ *
+ * Fires when a carrier update is added to a fulfillment (in transit, out for
+ * delivery, attempted delivery, delivered…), from Shopify-integrated
+ * carriers or tracking apps. Moves the order's delivery status through the
+ * state machine in services/delivery-status.
+ *
+ * HMAC verification is handled automatically by authenticate.webhook().
+ */
+
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { orderLogsForShop } from "../config/supabase.server";
+import { applyDeliveryUpdate, mapShopifyFulfillmentEvent } from "../services/delivery-status.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { topic, shop, payload } = await authenticate.webhook(request);
+
+  console.log(`[Webhook] Received ${topic} for ${shop} - order: ${payload.order_id}, status: ${payload.status}`);
+
+  try {
+    const deliveryStatus = mapShopifyFulfillmentEvent(payload.status);
+    if (!deliveryStatus) {
+      return new Response(null, { status: 200 });
+    }
+
+    const numericId = String(payload.order_id);
+    const { data, error } = await orderLogsForShop(shop)
+      .select("id, status, shipment_status, shipment_status_text, shopify_order_id")
+      .or(`shopify_order_id.eq.${numericId},shopify_order_id.eq.gid://shopify/Order/${numericId}`);
+
+    if (error) {
+      console.error("[Webhook] DB read error:", error);
+      return new Response(null, { status: 200 });
+    }
+    if (!data || data.length === 0) {
+      console.log(`[Webhook] No matching row for shopify_order_id=${numericId}`);
+      return new Response(null, { status: 200 });
+    }
+
+    const location = [payload.city, payload.province].filter(Boolean).join(", ");
+    for (const row of data) {
+      const result = await applyDeliveryUpdate(shop, row, {
+        status: deliveryStatus,
+        source: "shopify",
+        statusText: payload.message || undefined,
+        location: location || undefined,
+        occurredAt: payload.happened_at || undefined,
+        actor: "shopify",
+      });
+      console.log(`[Webhook] Order ${row.id} ${payload.status}: ${result.applied ? "applied" : `skipped (${result.reason})`}`);
+    }
+
+    return new Response(null, { status: 200 });
+  } catch (error) {
+    console.error("[Webhook] Error processing fulfillment_events/create:", error);
+    return new Response(null, { status: 200 });
+  }
+};
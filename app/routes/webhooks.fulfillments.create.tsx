@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import { fulfillInventory } from "../services/inventory-sync.server";
+import { recordOrderEvent } from "../config/supabase.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { topic, shop, payload } = await authenticate.webhook(request);
@@ -22,6 +23,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       quantity: item.quantity || 1
     }));
 
+  await recordOrderEvent({
+    shopDomain: shop,
+    shopifyOrderId: orderId,
+    type: "webhook",
+    message: `fulfillments/create — ${lineItems.reduce((sum: number, item: any) => sum + (item.quantity || 1), 0)} item(s) fulfilled${payload.tracking_company ? ` via ${payload.tracking_company}` : ""}${payload.tracking_number ? `, tracking ${payload.tracking_number}` : ""}`,
+    details: { topic, webhook_id: webhookId, fulfillment_id: payload.id, status: payload.status || null, tracking_company: payload.tracking_company || null, tracking_number: payload.tracking_number || null },
+    actor: "shopify",
+  });
+
   if (fulfillments.length > 0) {
     console.log(`[Webhook] Fulfilling inventory for order ${orderId}`);
     await fulfillInventory(shop, orderId, fulfillments);
@@ -9,7 +9,7 @@
 
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { supabase } from "../config/supabase.server";
+import { supabase, orderLogsForShop, recordOrderEvent } from "../config/supabase.server";
 import { parseInventoryMetadata, cancelInventory } from "../services/inventory-sync.server";
 
 function extractNumericId(id: any): string {
@@ -36,12 +36,20 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     await cancelInventory(shop, numericId);
     console.log(`[Webhook] Successfully restored inventory for cancelled order ${payload.id}`);
 
-    const { data, error } = await supabase
-      .from("order_logs")
+    const { data, error } = await orderLogsForShop(shop)
       .update({ status: "cancelled" })
       .or(`shopify_order_id.eq.${numericId},shopify_order_id.eq.gid://shopify/Order/${numericId}`)
       .select("id, status, shopify_order_id");
 
+    await recordOrderEvent({
+      shopDomain: shop,
+      shopifyOrderId: numericId,
+      type: "webhook",
+      message: `orders/cancelled — cancelled in Shopify${payload.cancel_reason ? ` (${payload.cancel_reason})` : ""}, status set to cancelled`,
+      details: { topic, webhook_id: webhookId, cancel_reason: payload.cancel_reason || null, cancelled_at: payload.cancelled_at || null },
+      actor: "shopify",
+    });
+
     if (error) {
       console.error("[Webhook] DB update error:", error);
     } else if (data && data.length > 0) {
@@ -53,6 +61,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       console.log(`[Webhook] No matching row for shopify_order_id=${numericId}`);
     }
 
+    // Close any open confirmation so a late "1" can't confirm a cancelled order
+    await supabase
+      .from("order_confirmations")
+      .update({ status: "cancelled" })
+      .eq("shop_domain", shop)
+      .eq("shopify_order_id", numericId)
+      .in("status", ["sent", "expired"]);
+
     // ── Billing: give back the order slot ──
     //
     // Cancelled orders don't count toward the plan allowance. The reversal is
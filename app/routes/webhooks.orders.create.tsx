@@ -3,6 +3,7 @@ import { authenticate, unauthenticated } from "../shopify.server";
 import { logOrder, logOrderWithShopifyIds, type OrderLogEntry, supabase } from "../config/supabase.server";
 import { syncOrderToGoogleSheets } from "../services/google-sheets.server";
 import { parseInventoryMetadata, deductInventory } from "../services/inventory-sync.server";
+import { sendOrderConfirmation } from "../services/order-confirmation.server";
 
 /**
  * Webhook Handler: orders/create
@@ -214,6 +215,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       console.error('[Webhook] Google Sheets sync error (non-blocking):', err.message);
     });
 
+    // ── WhatsApp/SMS order confirmation (COD only, non-blocking) ──
+    if ((isRegularCod || isPartialCod) && !payload.cancelled_at) {
+      sendOrderConfirmation({
+        shopDomain: shop,
+        shopifyOrderId: payload.id.toString(),
+        orderName: payload.name,
+        customerName: orderLogEntry.customer_name,
+        phone: orderLogEntry.customer_phone,
+        countryCode: shippingAddress.country_code,
+        total: parseFloat(payload.total_price) || 0,
+        currency: payload.currency || "USD",
+        locale: payload.customer_locale,
+      }).catch((err) => {
+        console.error('[Webhook] Order confirmation error (non-blocking):', err?.message);
+      });
+    }
+
     // ── Apply Order Edit to Fix Order Total and Payment Status ──
     let graphqlAdmin = admin;
     if (!graphqlAdmin) {
@@ -2,14 +2,17 @@
  * Webhook Handler: orders/fulfilled
  *
  * Fires when a Shopify order is fully fulfilled (all items shipped).
- * Updates order_logs status to "delivered".
+ * A fulfillment only means the order left the warehouse: orders not tracked
+ * yet start at delivery status "booked" (order status "shipped"). Delivery
+ * is confirmed later by fulfillment events or courier tracking.
  *
  * HMAC verification is handled automatically by authenticate.webhook().
  */
 
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { supabase } from "../config/supabase.server";
+import { orderLogsForShop, recordOrderEvent } from "../config/supabase.server";
+import { applyDeliveryUpdate } from "../services/delivery-status.server";
 
 function extractNumericId(id: any): string {
     const s = String(id);
@@ -25,17 +28,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   try {
     const numericId = extractNumericId(payload.id);
 
-    const { data, error } = await supabase
-      .from("order_logs")
-      .update({ status: "delivered" })
-      .or(`shopify_order_id.eq.${numericId},shopify_order_id.eq.gid://shopify/Order/${numericId}`)
-      .select("id, status, shopify_order_id");
+    const { data, error } = await orderLogsForShop(shop)
+      .select("id, status, shipment_status, shipment_status_text, shopify_order_id")
+      .or(`shopify_order_id.eq.${numericId},shopify_order_id.eq.gid://shopify/Order/${numericId}`);
+
+    await recordOrderEvent({
+      shopDomain: shop,
+      shopifyOrderId: numericId,
+      type: "webhook",
+      message: "orders/fulfilled — all items fulfilled",
+      details: { topic },
+      actor: "shopify",
+    });
 
     if (error) {
-      console.error("[Webhook] DB update error:", error);
+      console.error("[Webhook] DB read error:", error);
     } else if (data && data.length > 0) {
+      for (const row of data) {
+        // Booked through our courier integration, or already tracked by events
+        if (row.shipment_status) continue;
+        await applyDeliveryUpdate(shop, row, { status: "booked", source: "shopify", statusText: "Fulfilled in Shopify" });
+      }
       console.log(
-        `[Webhook] Order ${payload.name} marked as delivered - rows:`,
+        `[Webhook] Order ${payload.name} fulfilled - rows:`,
         data.map((row) => row.id),
       );
     } else {
@@ -2,14 +2,17 @@
  * Webhook Handler: orders/updated
  *
  * Fires whenever an existing Shopify order is modified.
- * Maps the Shopify status to our internal DB status and updates order_logs.
+ * Maps the Shopify status to our internal DB status and updates order_logs
+ * when ORDER_STATUS_TRANSITIONS allows the change, so a late or partial
+ * update never moves an order backwards (e.g. delivered → shipped).
  *
  * HMAC verification is handled automatically by authenticate.webhook().
  */
 
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { supabase } from "../config/supabase.server";
+import { orderLogsForShop, recordOrderEvent } from "../config/supabase.server";
+import { canChangeOrderStatus, type OrderStatus } from "../config/constants";
 import { editInventory, buildInventoryMetadata } from "../services/inventory-sync.server";
 
 /**
@@ -26,11 +29,12 @@ function extractNumericId(id: any): string {
 }
 
 /**
- * Map Shopify order fields → our internal order status
+ * Map Shopify order fields → our internal order status. Fulfilled means
+ * shipped; delivery comes from fulfillment events and courier tracking.
  */
-function mapShopifyStatus(payload: any): string {
+function mapShopifyStatus(payload: any): OrderStatus {
     if (payload.cancelled_at) return "cancelled";
-    if (payload.fulfillment_status === "fulfilled") return "delivered";
+    if (payload.fulfillment_status === "fulfilled") return "shipped";
     if (payload.fulfillment_status === "partial") return "confirmed";
     if (payload.financial_status === "paid") return "confirmed";
     if (payload.financial_status === "refunded") return "returned";
@@ -82,10 +86,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       await editInventory(shop, numericId, newItems);
     }
 
-    const { data, error } = await supabase
-      .from("order_logs")
-      .update({ 
-        status: newStatus,
+    const { data, error } = await orderLogsForShop(shop)
+      .update({
         shopify_financial_status: payload.financial_status || null,
         shopify_fulfillment_status: payload.fulfillment_status || null,
         shopify_cancelled_at: payload.cancelled_at || null,
@@ -96,12 +98,33 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       .or(`shopify_order_id.eq.${numericId},shopify_order_id.eq.gid://shopify/Order/${numericId}`)
       .select("id, status, shopify_order_id");
 
+    const changed: string[] = [];
+    for (const row of data || []) {
+      if (row.status === newStatus || !canChangeOrderStatus(row.status, newStatus)) continue;
+      const { data: updated } = await orderLogsForShop(shop)
+        .update({ status: newStatus })
+        .eq("id", row.id)
+        .eq("status", row.status || "pending")
+        .select("id")
+        .maybeSingle();
+      if (updated) changed.push(`${row.id} (${row.status} → ${newStatus})`);
+    }
+
+    await recordOrderEvent({
+      shopDomain: shop,
+      shopifyOrderId: numericId,
+      type: "webhook",
+      message: `orders/updated — payment ${payload.financial_status || "n/a"}, fulfillment ${payload.fulfillment_status || "unfulfilled"}, ${changed.length > 0 ? `status set to ${newStatus}` : "status unchanged"}`,
+      details: { topic, webhook_id: webhookId, financial_status: payload.financial_status, fulfillment_status: payload.fulfillment_status, status: newStatus, applied: changed.length > 0 },
+      actor: "shopify",
+    });
+
     if (error) {
       console.error("[Webhook] DB update error:", error);
     } else if (data && data.length > 0) {
       console.log(
-        `[Webhook] Updated ${data.length} row(s) to "${newStatus}":`,
-        data.map((row) => `${row.id} (${row.shopify_order_id})`),
+        `[Webhook] Updated ${data.length} row(s), status changes:`,
+        changed.length > 0 ? changed : "none",
       );
     } else {
       console.log(`[Webhook] No matching order_logs for shopify_order_id=${numericId}`);
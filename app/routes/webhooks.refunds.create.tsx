@@ -11,6 +11,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import { refundInventory } from "../services/inventory-sync.server";
+import { recordOrderEvent } from "../config/supabase.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { topic, shop, payload } = await authenticate.webhook(request);
@@ -27,6 +28,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     const refundLineItems = payload.refund_line_items || [];
+    const refundAmount = (payload.transactions || [])
+      .filter((t: any) => t.kind === "refund" && t.status === "success")
+      .reduce((sum: number, t: any) => sum + parseFloat(t.amount || "0"), 0);
+
+    await recordOrderEvent({
+      shopDomain: shop,
+      shopifyOrderId: orderId,
+      type: "webhook",
+      message: `refunds/create — ${refundLineItems.length} line item(s) refunded${refundAmount > 0 ? `, ${refundAmount.toFixed(2)} returned to the customer` : ""}`,
+      details: { topic, webhook_id: webhookId, refund_id: refundId, amount: refundAmount, note: payload.note || null },
+      actor: "shopify",
+    });
     if (refundLineItems.length === 0) {
       console.log(`[Webhook] Refund ${refundId} has no line items. Skipping.`);
       return new Response(null, { status: 200 });
@@ -0,0 +1,50 @@
+/**
+ * Webhook Handler: SMS / WhatsApp replies
+ * Route: POST /webhooks/sms/reply?shop=<shop>&token=<token>
+ *
+ * Set as the inbound message webhook in the merchant's Twilio / MSG91 /
+ * Interakt account (the Integrations page shows the full URL). The token is
+ * derived from the shop domain, so only the URL we hand out is accepted.
+ *
+ * Customer replies to the order confirmation message ("1" / "2") confirm or
+ * cancel their latest COD order. A reply to a failed delivery message
+ * (services/ndr) asks the courier to reattempt or return the parcel instead.
+ * Always answers 200 so providers don't retry messages we chose to ignore.
+ */
+
+import type { ActionFunctionArgs } from "react-router";
+import { getSmsProvider } from "../services/sms/sms-provider.server";
+import { handleConfirmationReply, verifyReplyWebhookToken } from "../services/order-confirmation.server";
+import { handleNdrReply } from "../services/ndr.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const url = new URL(request.url);
+  const shop = url.searchParams.get("shop") || "";
+  const token = url.searchParams.get("token") || "";
+
+  if (!shop || !verifyReplyWebhookToken(shop, token)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const provider = await getSmsProvider(shop);
+  if (!provider) {
+    console.log(`[Webhook] SMS reply for ${shop} but no provider is connected`);
+    return new Response(null, { status: 200 });
+  }
+
+  try {
+    const inbound = await provider.parseInbound(request);
+    // An open failed delivery is newer than any confirmation for the same customer
+    if (inbound && !(await handleNdrReply(shop, inbound))) {
+      await handleConfirmationReply(shop, inbound);
+    }
+  } catch (error) {
+    console.error("[Webhook] Error processing SMS reply:", error);
+  }
+
+  // Twilio expects TwiML; an empty <Response> means "don't reply"
+  if (provider.id === "twilio") {
+    return new Response("<Response></Response>", { status: 200, headers: { "Content-Type": "text/xml" } });
+  }
+  return new Response(null, { status: 200 });
+};
@@ -0,0 +1,530 @@
+/**
+ * COD Remittance Service
+ * Reconciles courier settlement files against the cash each order should
+ * have collected, and reports delivered COD orders the courier hasn't paid
+ * out yet.
+ *
+ * An uploaded file becomes a cod_remittance_batches row with every line in
+ * cod_remittance_rows. Lines are matched by AWB first, then order name, and
+ * lines for the same order are added up. The expected amount is
+ * remaining_cod_amount for Partial COD and final_total otherwise. Matched
+ * orders are marked remitted, short paid or over paid on order_logs; orders
+ * an earlier file already settled are reported as duplicates and left alone.
+ *
+ * Column mappings can be saved per shop as named presets (built-in ones are
+ * in utils/cod-remittance).
+ */
+import { orderLogsForShop, recordOrderEvent, supabase } from '../config/supabase.server';
+import type { CodRemittanceStatus } from '../config/constants';
+import {
+    getExpectedCodAmount,
+    normalizeOrderRef,
+    parseCsv,
+    parseRemittanceAmount,
+    parseRemittanceDate,
+    REMITTANCE_FIELDS,
+    REMITTANCE_TOLERANCE,
+    type RemittanceColumnMap,
+    type RemittanceField,
+    type RemittancePreset,
+} from '../utils/cod-remittance';
+
+export type RemittanceRowStatus = 'matched' | 'short' | 'over' | 'unmatched' | 'duplicate' | 'invalid';
+
+export interface RemittanceImportInput {
+    fileName: string;
+    courier: string;
+    csv: string;
+    columns: RemittanceColumnMap;
+}
+
+export type RemittanceImportResult =
+    | { success: true; batchId: string; counts: Record<RemittanceRowStatus, number>; totalAmount: number }
+    | { success: false; error: string };
+
+export interface RemittanceBatch {
+    id: string;
+    courier: string | null;
+    file_name: string | null;
+    uploaded_by: string | null;
+    row_count: number;
+    matched_count: number;
+    short_count: number;
+    over_count: number;
+    unmatched_count: number;
+    duplicate_count: number;
+    total_amount: number;
+    created_at: string;
+}
+
+/** The order_logs columns loaded as REMITTANCE_ORDER_COLUMNS */
+export interface RemittanceOrder {
+    id: string;
+    shopify_order_id: string | null;
+    shopify_order_name: string | null;
+    customer_name: string | null;
+    status: string | null;
+    payment_method: string | null;
+    total_price: number | null;
+    final_total: number | null;
+    remaining_cod_amount: number | null;
+    awb_number: string | null;
+    courier_name: string | null;
+    created_at: string;
+    shipped_at: string | null;
+    delivered_at: string | null;
+    cod_remittance_status: CodRemittanceStatus | null;
+    remitted_amount: number | null;
+    remittance_date: string | null;
+    remittance_utr: string | null;
+}
+
+export interface RemittanceSummary {
+    awaiting: { count: number; amount: number };
+    overdue: { count: number; amount: number };
+    shortPaid: { count: number; shortfall: number };
+    overdueOrders: RemittanceOrder[];
+    shortPaidOrders: RemittanceOrder[];
+}
+
+const MAX_REMITTANCE_ROWS = 5000;
+const MAX_PRESETS_PER_SHOP = 20;
+const LOOKUP_CHUNK_SIZE = 200;
+const INSERT_CHUNK_SIZE = 500;
+const AWAITING_LIMIT = 2000;
+const LIST_LIMIT = 100;
+
+const REMITTANCE_ORDER_COLUMNS = 'id, shopify_order_id, shopify_order_name, customer_name, status, payment_method, total_price, final_total, remaining_cod_amount, awb_number, courier_name, created_at, shipped_at, delivered_at, cod_remittance_status, remitted_amount, remittance_date, remittance_utr';
+
+const ORDER_STATUS_FOR_ROW: Partial<Record<RemittanceRowStatus, CodRemittanceStatus>> = {
+    matched: 'remitted',
+    short: 'short_paid',
+    over: 'over_paid',
+};
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+}
+
+/**
+ * Orders for the file's AWBs and order names, keyed both ways.
+ */
+async function findRemittanceOrders(shopDomain: string, awbs: string[], orderRefs: string[]) {
+    const byAwb = new Map<string, RemittanceOrder>();
+    const byName = new Map<string, RemittanceOrder>();
+
+    for (const awbChunk of chunk([...new Set(awbs)], LOOKUP_CHUNK_SIZE)) {
+        const { data, error } = await orderLogsForShop(shopDomain)
+            .select(REMITTANCE_ORDER_COLUMNS)
+            .in('awb_number', awbChunk);
+        if (error) {
+            console.error('[Remittance] Error looking up AWBs:', error);
+            throw error;
+        }
+        for (const order of (data || []) as RemittanceOrder[]) byAwb.set(String(order.awb_number).toUpperCase(), order);
+    }
+
+    // Names are stored as "#1001"; files have either form
+    const names = [...new Set(orderRefs.flatMap((ref) => [ref, `#${ref.replace(/^#/, '')}`]))];
+    for (const nameChunk of chunk(names, LOOKUP_CHUNK_SIZE)) {
+        const { data, error } = await orderLogsForShop(shopDomain)
+            .select(REMITTANCE_ORDER_COLUMNS)
+            .in('shopify_order_name', nameChunk);
+        if (error) {
+            console.error('[Remittance] Error looking up order names:', error);
+            throw error;
+        }
+        for (const order of (data || []) as RemittanceOrder[]) byName.set(normalizeOrderRef(order.shopify_order_name), order);
+    }
+
+    return { byAwb, byName };
+}
+
+/**
+ * Reconcile an uploaded settlement file and mark the matched orders.
+ */
+export async function importRemittanceFile(
+    shopDomain: string,
+    input: RemittanceImportInput,
+    uploadedBy: string | null = null
+): Promise<RemittanceImportResult> {
+    const [headers, ...lines] = parseCsv(input.csv);
+    if (!headers || lines.length === 0) return { success: false, error: 'The file has no rows' };
+    if (lines.length > MAX_REMITTANCE_ROWS) {
+        return { success: false, error: `Files can have up to ${MAX_REMITTANCE_ROWS} rows — split it and upload the parts` };
+    }
+
+    const columnIndex = {} as Record<RemittanceField, number>;
+    for (const { key } of REMITTANCE_FIELDS) {
+        const column = input.columns[key]?.trim();
+        columnIndex[key] = column ? headers.findIndex((header) => header.trim() === column) : -1;
+    }
+    if (columnIndex.amount < 0) return { success: false, error: 'Choose the column with the collected amount' };
+    if (columnIndex.awb < 0 && columnIndex.order < 0) return { success: false, error: 'Choose the AWB or order column' };
+
+    const cell = (cells: string[], field: RemittanceField) => (columnIndex[field] >= 0 ? (cells[columnIndex[field]] || '').trim() : '');
+    const rows = lines.map((cells, i) => ({
+        rowNumber: i + 2,
+        awb: cell(cells, 'awb') || null,
+        orderRef: cell(cells, 'order') || null,
+        amount: parseRemittanceAmount(cell(cells, 'amount')),
+        date: parseRemittanceDate(cell(cells, 'date')),
+        utr: cell(cells, 'utr').slice(0, 100) || null,
+        order: null as RemittanceOrder | null,
+        status: 'unmatched' as RemittanceRowStatus,
+    }));
+
+    const { byAwb, byName } = await findRemittanceOrders(
+        shopDomain,
+        rows.map((row) => row.awb).filter((awb): awb is string => !!awb),
+        rows.map((row) => row.orderRef).filter((ref): ref is string => !!ref)
+    );
+
+    // Resolve each line, then add up the lines of each order
+    const totals = new Map<string, { order: RemittanceOrder; amount: number; date: string | null; utrs: Set<string> }>();
+    for (const row of rows) {
+        if (row.amount === null) {
+            row.status = 'invalid';
+            continue;
+        }
+        row.order = (row.awb && byAwb.get(row.awb.toUpperCase())) || (row.orderRef && byName.get(normalizeOrderRef(row.orderRef))) || null;
+        if (!row.order) continue;
+
+        const total = totals.get(row.order.id) || { order: row.order, amount: 0, date: null, utrs: new Set<string>() };
+        total.amount = roundMoney(total.amount + row.amount);
+        if (row.date && (!total.date || row.date > total.date)) total.date = row.date;
+        if (row.utr) total.utrs.add(row.utr);
+        totals.set(row.order.id, total);
+    }
+
+    const orderStatus = new Map<string, RemittanceRowStatus>();
+    for (const [orderId, total] of totals) {
+        if (total.order.cod_remittance_status) {
+            orderStatus.set(orderId, 'duplicate');
+            continue;
+        }
+        const difference = total.amount - getExpectedCodAmount(total.order);
+        orderStatus.set(orderId, Math.abs(difference) <= REMITTANCE_TOLERANCE ? 'matched' : difference < 0 ? 'short' : 'over');
+    }
+    for (const row of rows) {
+        if (row.order) row.status = orderStatus.get(row.order.id) || 'unmatched';
+    }
+
+    const counts: Record<RemittanceRowStatus, number> = { matched: 0, short: 0, over: 0, unmatched: 0, duplicate: 0, invalid: 0 };
+    for (const row of rows) counts[row.status]++;
+    const totalAmount = roundMoney(rows.reduce((sum, row) => sum + (row.amount || 0), 0));
+
+    const { data: batch, error: batchError } = await supabase
+        .from('cod_remittance_batches')
+        .insert({
+            shop_domain: shopDomain,
+            courier: input.courier.trim().slice(0, 60) || null,
+            file_name: input.fileName.trim().slice(0, 200) || null,
+            uploaded_by: uploadedBy,
+            row_count: rows.length,
+            matched_count: counts.matched,
+            short_count: counts.short,
+            over_count: counts.over,
+            unmatched_count: counts.unmatched + counts.invalid,
+            duplicate_count: counts.duplicate,
+            total_amount: totalAmount,
+        })
+        .select('id')
+        .single();
+
+    if (batchError || !batch) {
+        console.error('[Remittance] Error creating batch:', batchError);
+        return { success: false, error: 'Could not save the upload' };
+    }
+
+    for (const rowChunk of chunk(rows, INSERT_CHUNK_SIZE)) {
+        const { error } = await supabase.from('cod_remittance_rows').insert(rowChunk.map((row) => ({
+            shop_domain: shopDomain,
+            batch_id: batch.id,
+            row_number: row.rowNumber,
+            awb_number: row.awb,
+            order_ref: row.orderRef,
+            collected_amount: row.amount,
+            remittance_date: row.date,
+            utr: row.utr,
+            order_log_id: row.order?.id || null,
+            expected_amount: row.order ? getExpectedCodAmount(row.order) : null,
+            status: row.status,
+        })));
+        if (error) {
+            console.error('[Remittance] Error saving rows:', error);
+        }
+    }
+
+    for (const [orderId, total] of totals) {
+        const status = ORDER_STATUS_FOR_ROW[orderStatus.get(orderId)!];
+        if (!status) continue;
+
+        const expected = getExpectedCodAmount(total.order);
+        const utr = [...total.utrs].join(', ').slice(0, 200) || null;
+        // Conditional, so a file uploaded twice at once can't settle an order twice
+        const { data: updated, error } = await orderLogsForShop(shopDomain)
+            .update({
+                cod_remittance_status: status,
+                remitted_amount: total.amount,
+                remittance_date: total.date || new Date().toISOString().slice(0, 10),
+                remittance_utr: utr,
+                remittance_batch_id: batch.id,
+            })
+            .eq('id', orderId)
+            .is('cod_remittance_status', null)
+            .select('id')
+            .maybeSingle();
+
+        if (error) {
+            console.error(`[Remittance] Error marking order ${orderId}:`, error);
+            continue;
+        }
+        if (!updated) continue;
+
+        await recordOrderEvent({
+            shopDomain,
+            orderLogId: orderId,
+            shopifyOrderId: total.order.shopify_order_id,
+            type: 'remittance',
+            message: status === 'remitted'
+                ? `COD remitted: ${total.amount.toFixed(2)}${utr ? ` (UTR ${utr})` : ''}`
+                : `COD ${status === 'short_paid' ? 'short paid' : 'over paid'}: ${total.amount.toFixed(2)} remitted, ${expected.toFixed(2)} expected${utr ? ` (UTR ${utr})` : ''}`,
+            details: { batch_id: batch.id, amount: total.amount, expected, date: total.date, utr, courier: input.courier || null },
+            actor: uploadedBy || 'merchant',
+        });
+    }
+
+    console.log(`[Remittance] ${shopDomain} reconciled ${rows.length} rows:`, counts);
+    return { success: true, batchId: batch.id, counts, totalAmount };
+}
+
+/**
+ * Mark an order remitted by hand — paid outside a settlement file, or the
+ * rest of a short payment arrived. Defaults to the expected amount.
+ */
+export async function markOrderRemitted(
+    shopDomain: string,
+    orderId: string,
+    payment: { utr?: string; date?: string },
+    actor = 'merchant'
+): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .select(REMITTANCE_ORDER_COLUMNS)
+        .eq('id', orderId)
+        .maybeSingle();
+    const order = data as RemittanceOrder | null;
+
+    if (error) {
+        console.error('[Remittance] Error loading order:', error);
+        return { success: false, error: 'Could not load the order' };
+    }
+    if (!order) return { success: false, error: 'Order not found' };
+    if (order.cod_remittance_status === 'remitted') return { success: false, error: 'Already remitted' };
+
+    const expected = getExpectedCodAmount(order);
+    const utr = payment.utr?.trim().slice(0, 100) || order.remittance_utr || null;
+    const date = parseRemittanceDate(payment.date) || new Date().toISOString().slice(0, 10);
+    const { error: updateError } = await orderLogsForShop(shopDomain)
+        .update({ cod_remittance_status: 'remitted', remitted_amount: expected, remittance_date: date, remittance_utr: utr })
+        .eq('id', orderId);
+
+    if (updateError) {
+        console.error('[Remittance] Error marking order remitted:', updateError);
+        return { success: false, error: 'Could not update the order' };
+    }
+
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: orderId,
+        shopifyOrderId: order.shopify_order_id,
+        type: 'remittance',
+        message: `COD marked remitted by hand: ${expected.toFixed(2)}${order.cod_remittance_status === 'short_paid' ? ` (was short paid ${Number(order.remitted_amount).toFixed(2)})` : ''}`,
+        details: { amount: expected, previous_status: order.cod_remittance_status || null, previous_amount: order.remitted_amount ?? null, utr, date },
+        actor,
+    });
+
+    return { success: true };
+}
+
+/**
+ * Delivered COD orders still waiting for their cash, the ones older than
+ * overdueDays, and short payments.
+ */
+export async function getRemittanceSummary(shopDomain: string, overdueDays: number): Promise<RemittanceSummary> {
+    const [awaitingResult, shortResult] = await Promise.all([
+        orderLogsForShop(shopDomain)
+            .select(REMITTANCE_ORDER_COLUMNS, { count: 'exact' })
+            .eq('status', 'delivered')
+            .neq('payment_method', 'full_prepaid')
+            .is('cod_remittance_status', null)
+            .order('delivered_at', { ascending: true, nullsFirst: true })
+            .limit(AWAITING_LIMIT),
+        orderLogsForShop(shopDomain)
+            .select(REMITTANCE_ORDER_COLUMNS, { count: 'exact' })
+            .eq('cod_remittance_status', 'short_paid')
+            .order('remittance_date', { ascending: false })
+            .limit(LIST_LIMIT),
+    ]);
+
+    if (awaitingResult.error || shortResult.error) {
+        console.error('[Remittance] Error loading summary:', awaitingResult.error || shortResult.error);
+        throw awaitingResult.error || shortResult.error;
+    }
+
+    const cutoff = Date.now() - overdueDays * 24 * 60 * 60 * 1000;
+    const awaiting = (awaitingResult.data || []) as RemittanceOrder[];
+    const overdue = awaiting.filter((order) => new Date(order.delivered_at || order.shipped_at || order.created_at).getTime() < cutoff);
+    const shortPaid = (shortResult.data || []) as RemittanceOrder[];
+
+    return {
+        awaiting: {
+            count: awaitingResult.count ?? awaiting.length,
+            amount: roundMoney(awaiting.reduce((sum, order) => sum + getExpectedCodAmount(order), 0)),
+        },
+        overdue: {
+            count: overdue.length,
+            amount: roundMoney(overdue.reduce((sum, order) => sum + getExpectedCodAmount(order), 0)),
+        },
+        shortPaid: {
+            count: shortResult.count ?? shortPaid.length,
+            shortfall: roundMoney(shortPaid.reduce((sum, order) => sum + getExpectedCodAmount(order) - (Number(order.remitted_amount) || 0), 0)),
+        },
+        overdueOrders: overdue.slice(0, LIST_LIMIT),
+        shortPaidOrders: shortPaid,
+    };
+}
+
+export async function getRemittanceBatches(shopDomain: string): Promise<RemittanceBatch[]> {
+    const { data, error } = await supabase
+        .from('cod_remittance_batches')
+        .select('id, courier, file_name, uploaded_by, row_count, matched_count, short_count, over_count, unmatched_count, duplicate_count, total_amount, created_at')
+        .eq('shop_domain', shopDomain)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+    if (error) {
+        console.error('[Remittance] Error loading uploads:', error);
+        return [];
+    }
+    return (data || []) as RemittanceBatch[];
+}
+
+/**
+ * Lines of an upload that need a look (everything but clean matches), with
+ * the matched order's name.
+ */
+export async function getRemittanceBatchIssues(shopDomain: string, batchId: string) {
+    const { data, error } = await supabase
+        .from('cod_remittance_rows')
+        .select('id, row_number, awb_number, order_ref, collected_amount, expected_amount, remittance_date, utr, order_log_id, status')
+        .eq('shop_domain', shopDomain)
+        .eq('batch_id', batchId)
+        .neq('status', 'matched')
+        .order('row_number', { ascending: true })
+        .limit(500);
+
+    if (error) {
+        console.error('[Remittance] Error loading upload rows:', error);
+        return [];
+    }
+
+    const orderIds = [...new Set((data || []).map((row) => row.order_log_id).filter(Boolean))];
+    const names = new Map<string, string | null>();
+    if (orderIds.length > 0) {
+        const { data: orders } = await orderLogsForShop(shopDomain)
+            .select('id, shopify_order_name')
+            .in('id', orderIds);
+        for (const order of orders || []) names.set(String(order.id), order.shopify_order_name);
+    }
+
+    return (data || []).map((row) => ({ ...row, order_name: row.order_log_id ? names.get(String(row.order_log_id)) || null : null }));
+}
+
+// =============================================
+// PRESETS
+// =============================================
+
+function sanitizeColumns(columns: RemittanceColumnMap): RemittanceColumnMap {
+    const clean: RemittanceColumnMap = {};
+    for (const { key } of REMITTANCE_FIELDS) {
+        const value = typeof columns?.[key] === 'string' ? columns[key]!.trim().slice(0, 100) : '';
+        if (value) clean[key] = value;
+    }
+    return clean;
+}
+
+export async function getRemittancePresets(shopDomain: string): Promise<RemittancePreset[]> {
+    const { data, error } = await supabase
+        .from('cod_remittance_presets')
+        .select('id, name, columns')
+        .eq('shop_domain', shopDomain)
+        .order('name', { ascending: true });
+
+    if (error) {
+        console.error('[Remittance] Error loading presets:', error);
+        return [];
+    }
+    return (data || []) as RemittancePreset[];
+}
+
+/**
+ * Create or overwrite the preset with this name.
+ */
+export async function saveRemittancePreset(
+    shopDomain: string,
+    preset: Omit<RemittancePreset, 'id'>
+): Promise<{ success: true; preset: RemittancePreset } | { success: false; error: string }> {
+    const name = preset.name.trim().slice(0, 60);
+    if (!name) return { success: false, error: 'Give the preset a name' };
+
+    const columns = sanitizeColumns(preset.columns);
+    if (!columns.amount || (!columns.awb && !columns.order)) {
+        return { success: false, error: 'A preset needs the amount column and the AWB or order column' };
+    }
+
+    const { count } = await supabase
+        .from('cod_remittance_presets')
+        .select('id', { count: 'exact', head: true })
+        .eq('shop_domain', shopDomain)
+        .neq('name', name);
+    if ((count || 0) >= MAX_PRESETS_PER_SHOP) {
+        return { success: false, error: `You can save up to ${MAX_PRESETS_PER_SHOP} presets. Delete one first.` };
+    }
+
+    const { data, error } = await supabase
+        .from('cod_remittance_presets')
+        .upsert({
+            shop_domain: shopDomain,
+            name,
+            columns,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'shop_domain,name' })
+        .select('id, name, columns')
+        .single();
+
+    if (error || !data) {
+        console.error('[Remittance] Error saving preset:', error);
+        return { success: false, error: 'Could not save the preset' };
+    }
+    return { success: true, preset: data as RemittancePreset };
+}
+
+export async function deleteRemittancePreset(shopDomain: string, presetId: string): Promise<void> {
+    const { error } = await supabase
+        .from('cod_remittance_presets')
+        .delete()
+        .eq('id', presetId)
+        .eq('shop_domain', shopDomain);
+
+    if (error) {
+        console.error('[Remittance] Error deleting preset:', error);
+        throw error;
+    }
+}
@@ -1,4 +1,4 @@
-import { getFormSettings, supabase } from "../config/supabase.server";
+import { getFormSettings, orderLogsForShop } from "../config/supabase.server";
 import { unauthenticated } from "../shopify.server";
 import type { ContextualPriceEntry } from "./contextual-pricing.server";
 
@@ -556,10 +556,8 @@ async function countCustomerCouponUsage(shop: string, couponCode: string, orderC
         return 0;
     }
 
-    let query = supabase
-        .from("order_logs")
+    let query = orderLogsForShop(shop)
         .select("*", { count: "exact", head: true })
-        .eq("shop_domain", shop)
         .eq("coupon_code", normalizeCouponCode(couponCode));
 
     if (email) {
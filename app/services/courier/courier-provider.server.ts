@@ -0,0 +1,181 @@
+/**
+ * Courier provider
+ * ============================================================================
+ * Shipment booking, labels and AWB tracking go through the CourierProvider
+ * interface so the order pages never know which courier or aggregator the
+ * merchant connected on the Integrations page (see services/shipments for
+ * the order-side flow).
+ *
+ * Each adapter maps its courier's statuses onto ShipmentStatus; the raw
+ * courier wording is kept as statusText for display. Failed deliveries
+ * (NDRs, see services/ndr) are answered through submitNdrAction.
+ *
+ * In development, with nothing connected, the mock courier books fake AWBs
+ * that move through the delivery stages over a few minutes, so the Ship
+ * button and tracking can be exercised without a courier account.
+ * ============================================================================
+ */
+
+import { getIntegrationSettings } from '../../config/supabase.server';
+import type { CourierConfig, CourierProviderId } from '../../config/integrations.types';
+import type { DeliveryStatus } from '../../config/constants';
+import { createDelhiveryProvider } from './delhivery.server';
+import { createMockCourierProvider } from './mock.server';
+import { createShiprocketProvider } from './shiprocket.server';
+
+export const COURIER_INTEGRATION_ID = 'courier';
+
+export const DEFAULT_PACKAGE_WEIGHT_GRAMS = 500;
+
+export type ShipmentStatus = DeliveryStatus;
+
+export interface ShipmentAddress {
+    name: string;
+    phone: string;
+    email?: string;
+    address: string;
+    city: string;
+    state: string;
+    pincode: string;
+    country: string;
+}
+
+export interface ShipmentItem {
+    name: string;
+    sku?: string;
+    quantity: number;
+    unitPrice: number;
+}
+
+export interface ShipmentRequest {
+    /** Our order reference, sent as the courier's order id */
+    orderRef: string;
+    orderDate: string;
+    paymentMode: 'cod' | 'prepaid';
+    /** Amount to collect at the door (0 for prepaid) */
+    codAmount: number;
+    orderTotal: number;
+    customer: ShipmentAddress;
+    items: ShipmentItem[];
+    weightGrams: number;
+    pickupLocation?: string;
+}
+
+/** A booked shipment; some couriers key later calls on their shipment id rather than the AWB */
+export interface ShipmentRef {
+    awb: string;
+    shipmentId?: string | null;
+}
+
+export interface ShipmentResult {
+    success: boolean;
+    awb?: string;
+    shipmentId?: string;
+    /** Carrier that will move the parcel (aggregators pick one) */
+    courierName?: string;
+    trackingUrl?: string;
+    labelUrl?: string;
+    error?: string;
+}
+
+export interface TrackingEvent {
+    time: string;
+    status: string;
+    location?: string;
+}
+
+export interface TrackingResult {
+    success: boolean;
+    status?: ShipmentStatus;
+    statusText?: string;
+    /** Newest first */
+    events?: TrackingEvent[];
+    error?: string;
+}
+
+export interface ServiceabilityResult {
+    success: boolean;
+    serviceable?: boolean;
+    codAvailable?: boolean;
+    estimatedDays?: number;
+    error?: string;
+}
+
+/** What to do with a shipment after a failed delivery attempt */
+export interface NdrActionRequest {
+    action: 'reattempt' | 'rto';
+    /** Corrected delivery details, sent with a reattempt */
+    address?: { address: string; city: string; state: string; pincode: string };
+    phone?: string;
+    note?: string;
+}
+
+export interface CourierProvider {
+    id: CourierProviderId;
+    /** Display name for order pages and the timeline */
+    name: string;
+    checkServiceability(request: { pickupPincode: string; deliveryPincode: string; cod: boolean; weightGrams: number }): Promise<ServiceabilityResult>;
+    createShipment(request: ShipmentRequest): Promise<ShipmentResult>;
+    cancelShipment(shipment: ShipmentRef): Promise<{ success: boolean; error?: string }>;
+    getLabel(shipment: ShipmentRef): Promise<{ success: boolean; labelUrl?: string; error?: string }>;
+    track(shipment: ShipmentRef): Promise<TrackingResult>;
+    submitNdrAction(shipment: ShipmentRef, request: NdrActionRequest): Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Map a courier's status wording onto ShipmentStatus. Order matters:
+ * "Undelivered" and "RTO Delivered" must not read as delivered.
+ */
+export function normalizeShipmentStatus(text: string): ShipmentStatus | undefined {
+    const status = text.toLowerCase();
+    if (!status) return undefined;
+    if (/\brto\b|return/.test(status)) return 'rto';
+    if (/cancel/.test(status)) return 'cancelled';
+    if (/undelivered|not delivered|delivery failed|failed delivery|\bndr\b/.test(status)) return 'undelivered';
+    if (/out for delivery|\bofd\b|dispatched for delivery/.test(status)) return 'out_for_delivery';
+    if (/delivered/.test(status)) return 'delivered';
+    if (/transit|picked|shipped|dispatched|reached|in scan|pending at/.test(status)) return 'in_transit';
+    if (/manifest|booked|pickup|awb assigned|new|not picked|created/.test(status)) return 'booked';
+    return undefined;
+}
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * Build a provider from saved config. Returns null when required credentials
+ * are missing, or for the mock courier in production.
+ */
+export function createCourierProvider(config: CourierConfig): CourierProvider | null {
+    switch (config.provider) {
+        case 'shiprocket':
+            if (!config.account_email || !config.api_key || !config.pickup_location) return null;
+            return createShiprocketProvider({ email: config.account_email, password: config.api_key, pickupLocation: config.pickup_location });
+        case 'delhivery':
+            if (!config.api_key || !config.pickup_location) return null;
+            return createDelhiveryProvider({ token: config.api_key, pickupLocation: config.pickup_location });
+        case 'mock':
+            return isProduction ? null : createMockCourierProvider();
+        default:
+            return null;
+    }
+}
+
+/**
+ * The courier connected for a shop with its config, or null when shipments
+ * can't be booked. Falls back to the mock courier in development.
+ */
+export async function getCourierProvider(shopDomain: string): Promise<{ provider: CourierProvider; config: CourierConfig } | null> {
+    try {
+        const settings = await getIntegrationSettings(shopDomain, COURIER_INTEGRATION_ID);
+        if (settings?.connected && settings.enabled) {
+            const config = settings.config as unknown as CourierConfig;
+            const provider = createCourierProvider(config);
+            if (provider) return { provider, config };
+            console.error(`[Courier] ${shopDomain} has an incomplete courier integration config`);
+        }
+    } catch (error) {
+        console.error('[Courier] Failed to load integration settings:', error);
+    }
+
+    return isProduction ? null : { provider: createMockCourierProvider(), config: { provider: 'mock' } };
+}
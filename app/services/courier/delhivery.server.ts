@@ -0,0 +1,219 @@
+/**
+ * Delhivery provider — B2C (CMU) API.
+ * Authenticates with the account's static API token. The pickup location
+ * must match a warehouse name registered in the Delhivery One panel.
+ */
+
+import { normalizeShipmentStatus, type CourierProvider } from './courier-provider.server';
+
+interface DelhiveryConfig {
+    token: string;
+    pickupLocation: string;
+}
+
+interface DelhiveryPincodeResponse {
+    delivery_codes?: { postal_code?: { pre_paid?: string; cod?: string } }[];
+}
+
+interface DelhiveryCreateResponse {
+    success?: boolean;
+    rmk?: string;
+    packages?: { waybill?: string | number; remarks?: string | string[] }[];
+}
+
+/** Reply to package edits and updates (cancellation, NDR actions) */
+interface DelhiveryEditResponse {
+    status?: boolean;
+    remark?: string;
+    error?: string;
+}
+
+interface DelhiveryPackingSlipResponse {
+    packages?: { pdf_download_link?: string }[];
+}
+
+interface DelhiveryScan {
+    ScanDetail?: { ScanDateTime?: string; Instructions?: string; Scan?: string; ScannedLocation?: string };
+}
+
+interface DelhiveryTrackingResponse {
+    Error?: string;
+    ShipmentData?: {
+        Shipment?: {
+            Status?: { Status?: string; StatusType?: string };
+            Scans?: DelhiveryScan[];
+        };
+    }[];
+}
+
+interface DelhiveryPackageUpdate {
+    waybill: string;
+    act: 'EDIT_DETAILS' | 'RE-ATTEMPT';
+    action_data?: Record<string, string>;
+}
+
+const DELHIVERY_API_URL = 'https://track.delhivery.com';
+
+function trackingUrl(awb: string): string {
+    return `https://www.delhivery.com/track/package/${encodeURIComponent(awb)}`;
+}
+
+function requestError(error: unknown): string {
+    return error instanceof Error ? error.message : 'Delhivery request failed';
+}
+
+export function createDelhiveryProvider(config: DelhiveryConfig): CourierProvider {
+    async function request<T>(path: string, init: { method?: 'GET' | 'POST'; body?: string; contentType?: string } = {}): Promise<{ ok: boolean; status: number; data: T }> {
+        const response = await fetch(`${DELHIVERY_API_URL}${path}`, {
+            method: init.method || 'GET',
+            headers: {
+                Authorization: `Token ${config.token}`,
+                Accept: 'application/json',
+                ...(init.contentType ? { 'Content-Type': init.contentType } : {}),
+            },
+            body: init.body,
+        });
+        const data = (await response.json().catch(() => ({}))) as T;
+        return { ok: response.ok, status: response.status, data };
+    }
+
+    return {
+        id: 'delhivery',
+        name: 'Delhivery',
+        async checkServiceability(req) {
+            try {
+                const { ok, status, data } = await request<DelhiveryPincodeResponse>(`/c/api/pin-codes/json/?filter_codes=${encodeURIComponent(req.deliveryPincode)}`);
+                if (!ok) return { success: false, error: `Delhivery error ${status}` };
+
+                const postal = data?.delivery_codes?.[0]?.postal_code;
+                if (!postal) return { success: true, serviceable: false, codAvailable: false };
+                return {
+                    success: true,
+                    serviceable: postal.pre_paid === 'Y' || postal.cod === 'Y',
+                    codAvailable: postal.cod === 'Y',
+                };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async createShipment(req) {
+            try {
+                const shipment = {
+                    name: req.customer.name,
+                    add: req.customer.address,
+                    pin: req.customer.pincode,
+                    city: req.customer.city,
+                    state: req.customer.state,
+                    country: req.customer.country,
+                    phone: req.customer.phone.replace(/\D/g, '').slice(-10),
+                    order: req.orderRef,
+                    order_date: req.orderDate,
+                    payment_mode: req.paymentMode === 'cod' ? 'COD' : 'Prepaid',
+                    cod_amount: req.paymentMode === 'cod' ? req.codAmount : 0,
+                    total_amount: req.orderTotal,
+                    products_desc: req.items.map((item) => `${item.name} x${item.quantity}`).join(', '),
+                    quantity: req.items.reduce((sum, item) => sum + item.quantity, 0),
+                    weight: req.weightGrams,
+                    shipping_mode: 'Surface',
+                };
+                const payload = { shipments: [shipment], pickup_location: { name: req.pickupLocation || config.pickupLocation } };
+                const { ok, status, data } = await request<DelhiveryCreateResponse>('/api/cmu/create.json', {
+                    method: 'POST',
+                    contentType: 'application/x-www-form-urlencoded',
+                    body: `format=json&data=${encodeURIComponent(JSON.stringify(payload))}`,
+                });
+
+                const pkg = data?.packages?.[0];
+                if (!ok || !data?.success || !pkg?.waybill) {
+                    const remarks = Array.isArray(pkg?.remarks) ? pkg.remarks.join(', ') : pkg?.remarks;
+                    return { success: false, error: remarks || data?.rmk || `Delhivery error ${status}` };
+                }
+
+                const awb = String(pkg.waybill);
+                return { success: true, awb, courierName: 'Delhivery', trackingUrl: trackingUrl(awb) };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async cancelShipment(shipment) {
+            try {
+                const { ok, status, data } = await request<DelhiveryEditResponse>('/api/p/edit', {
+                    method: 'POST',
+                    contentType: 'application/json',
+                    body: JSON.stringify({ waybill: shipment.awb, cancellation: 'true' }),
+                });
+                if (!ok || data?.status === false) return { success: false, error: data?.remark || `Delhivery error ${status}` };
+                return { success: true };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async getLabel(shipment) {
+            try {
+                const { ok, status, data } = await request<DelhiveryPackingSlipResponse>(`/api/p/packing_slip?wbns=${encodeURIComponent(shipment.awb)}&pdf=true`);
+                const labelUrl = data?.packages?.[0]?.pdf_download_link;
+                if (!ok || !labelUrl) return { success: false, error: `Delhivery error ${status}` };
+                return { success: true, labelUrl };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async track(shipment) {
+            try {
+                const { ok, status, data } = await request<DelhiveryTrackingResponse>(`/api/v1/packages/json/?waybill=${encodeURIComponent(shipment.awb)}`);
+                const pkg = data?.ShipmentData?.[0]?.Shipment;
+                if (!ok || !pkg) return { success: false, error: data?.Error || `Delhivery error ${status}` };
+
+                const statusText: string = pkg.Status?.Status || '';
+                const scans = pkg.Scans || [];
+                return {
+                    success: true,
+                    status: normalizeShipmentStatus(`${pkg.Status?.StatusType === 'RT' ? 'RTO ' : ''}${statusText}`),
+                    statusText,
+                    events: scans.map((scan) => ({
+                        time: new Date(scan.ScanDetail?.ScanDateTime || '').toISOString(),
+                        status: scan.ScanDetail?.Instructions || scan.ScanDetail?.Scan || '',
+                        location: scan.ScanDetail?.ScannedLocation || undefined,
+                    })).reverse(),
+                };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async submitNdrAction(shipment, req) {
+            try {
+                // Cancelling a package that is already out with the courier sends it back as RTO
+                if (req.action === 'rto') {
+                    const { ok, status, data } = await request<DelhiveryEditResponse>('/api/p/edit', {
+                        method: 'POST',
+                        contentType: 'application/json',
+                        body: JSON.stringify({ waybill: shipment.awb, cancellation: 'true' }),
+                    });
+                    if (!ok || data?.status === false) return { success: false, error: data?.remark || `Delhivery error ${status}` };
+                    return { success: true };
+                }
+
+                const updates: DelhiveryPackageUpdate[] = [];
+                if (req.address || req.phone) {
+                    const actionData: Record<string, string> = {};
+                    if (req.address) actionData.add = [req.address.address, req.address.city, req.address.state, req.address.pincode].filter(Boolean).join(', ');
+                    if (req.phone) actionData.phone = req.phone.replace(/\D/g, '').slice(-10);
+                    updates.push({ waybill: shipment.awb, act: 'EDIT_DETAILS', action_data: actionData });
+                }
+                updates.push({ waybill: shipment.awb, act: 'RE-ATTEMPT' });
+
+                const { ok, status, data } = await request<DelhiveryEditResponse>('/api/p/update', {
+                    method: 'POST',
+                    contentType: 'application/json',
+                    body: JSON.stringify({ data: updates }),
+                });
+                if (!ok || data?.status === false || data?.error) {
+                    return { success: false, error: data?.remark || data?.error || `Delhivery error ${status}` };
+                }
+                return { success: true };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+    };
+}
@@ -0,0 +1,115 @@
+/**
+ * Mock courier — development only.
+ * Books fake AWBs without any network call. The booking time is encoded in
+ * the AWB, so tracking moves booked → in transit → out for delivery →
+ * delivered two minutes per stage, across server restarts. Pincodes ending
+ * in 000 are reported as not serviceable.
+ *
+ * One AWB in five fails its delivery attempt instead of being delivered, so
+ * the NDR queue can be exercised; a reattempt delivers it and an RTO
+ * request returns it.
+ */
+
+import type { CourierProvider, NdrActionRequest, ShipmentStatus } from './courier-provider.server';
+
+const STAGE_MS = 2 * 60 * 1000;
+
+type Stage = { status: ShipmentStatus; text: string; location: string };
+
+const STAGES: Stage[] = [
+    { status: 'booked', text: 'Shipment booked', location: 'Seller warehouse' },
+    { status: 'in_transit', text: 'In transit', location: 'Sorting hub' },
+    { status: 'out_for_delivery', text: 'Out for delivery', location: 'Destination hub' },
+    { status: 'delivered', text: 'Delivered', location: 'Customer address' },
+];
+
+const FAILED_ATTEMPT: Stage = { status: 'undelivered', text: 'Undelivered - Customer not available', location: 'Destination hub' };
+
+const NDR_FOLLOW_UP: Record<NdrActionRequest['action'], Stage[]> = {
+    reattempt: [
+        { status: 'out_for_delivery', text: 'Out for delivery (reattempt)', location: 'Destination hub' },
+        { status: 'delivered', text: 'Delivered', location: 'Customer address' },
+    ],
+    rto: [
+        { status: 'rto', text: 'RTO initiated', location: 'Destination hub' },
+    ],
+};
+
+// Cancellations and NDR actions only need to survive for the dev session
+const cancelledAwbs = new Set<string>();
+const ndrActions = new Map<string, { action: NdrActionRequest['action']; at: number }>();
+
+function failsFirstAttempt(awb: string): boolean {
+    return Number(awb.split('-')[1]) % 5 === 0;
+}
+
+function bookedAt(awb: string): number | null {
+    const match = awb.match(/^MOCK([0-9A-Z]+)-/);
+    const time = match ? parseInt(match[1], 36) : NaN;
+    return Number.isFinite(time) ? time : null;
+}
+
+export function createMockCourierProvider(): CourierProvider {
+    return {
+        id: 'mock',
+        name: 'Mock Courier',
+        async checkServiceability(request) {
+            const serviceable = /^\d{6}$/.test(request.deliveryPincode) && !request.deliveryPincode.endsWith('000');
+            return { success: true, serviceable, codAvailable: serviceable, estimatedDays: serviceable ? 3 : undefined };
+        },
+        async createShipment(request) {
+            const awb = `MOCK${Date.now().toString(36).toUpperCase()}-${Math.floor(Math.random() * 1e4).toString().padStart(4, '0')}`;
+            console.log(`[Courier:mock] Booked ${awb} for ${request.orderRef} (${request.paymentMode}, collect ${request.codAmount})`);
+            return {
+                success: true,
+                awb,
+                shipmentId: awb,
+                courierName: 'Mock Courier',
+                trackingUrl: `https://example.com/track/${awb}`,
+                labelUrl: `https://example.com/labels/${awb}.pdf`,
+            };
+        },
+        async cancelShipment(shipment) {
+            cancelledAwbs.add(shipment.awb);
+            return { success: true };
+        },
+        async getLabel(shipment) {
+            return { success: true, labelUrl: `https://example.com/labels/${shipment.awb}.pdf` };
+        },
+        async track(shipment) {
+            const start = bookedAt(shipment.awb);
+            if (start === null) return { success: false, error: 'Unknown AWB' };
+            if (cancelledAwbs.has(shipment.awb)) {
+                return { success: true, status: 'cancelled', statusText: 'Cancelled', events: [] };
+            }
+
+            const stages = failsFirstAttempt(shipment.awb) ? [...STAGES.slice(0, 3), FAILED_ATTEMPT] : STAGES;
+            const reached = Math.min(Math.floor((Date.now() - start) / STAGE_MS), stages.length - 1);
+            let current = stages[reached];
+            const events = stages.slice(0, reached + 1).map((stage, i) => ({
+                time: new Date(start + i * STAGE_MS).toISOString(),
+                status: stage.text,
+                location: stage.location,
+            }));
+
+            const ndr = ndrActions.get(shipment.awb);
+            if (ndr && current === FAILED_ATTEMPT) {
+                const followUp = NDR_FOLLOW_UP[ndr.action];
+                const followed = Math.min(Math.floor((Date.now() - ndr.at) / STAGE_MS), followUp.length - 1);
+                followUp.slice(0, followed + 1).forEach((stage, i) => events.push({
+                    time: new Date(ndr.at + i * STAGE_MS).toISOString(),
+                    status: stage.text,
+                    location: stage.location,
+                }));
+                current = followUp[followed];
+            }
+            return { success: true, status: current.status, statusText: current.text, events: events.reverse() };
+        },
+        async submitNdrAction(shipment, request) {
+            if (bookedAt(shipment.awb) === null) return { success: false, error: 'Unknown AWB' };
+            console.log(`[Courier:mock] NDR ${request.action} for ${shipment.awb}${request.address ? ` to ${request.address.pincode}` : ''}`);
+            ndrActions.set(shipment.awb, { action: request.action, at: Date.now() });
+            return { success: true };
+        },
+    };
+}
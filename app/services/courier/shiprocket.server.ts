@@ -0,0 +1,247 @@
+/**
+ * Shiprocket provider — External API v1.
+ * Logs in with an API user (email + password) for a token, which is valid
+ * for 10 days and cached per account. Booking is two calls: create the
+ * order, then assign an AWB (Shiprocket picks the recommended courier).
+ */
+
+import { normalizeShipmentStatus, type CourierProvider } from './courier-provider.server';
+
+interface ShiprocketConfig {
+    email: string;
+    password: string;
+    pickupLocation: string;
+}
+
+/** Fields every Shiprocket reply may carry when a call fails */
+interface ShiprocketErrorFields {
+    message?: string;
+    errors?: Record<string, string | string[]>;
+}
+
+interface ShiprocketLoginResponse extends ShiprocketErrorFields {
+    token?: string;
+}
+
+interface ShiprocketServiceabilityResponse extends ShiprocketErrorFields {
+    data?: { available_courier_companies?: { estimated_delivery_days?: string | number; cod?: string | number }[] };
+}
+
+interface ShiprocketCreateOrderResponse extends ShiprocketErrorFields {
+    shipment_id?: string | number;
+}
+
+interface ShiprocketAssignAwbResponse extends ShiprocketErrorFields {
+    awb_assign_status?: number;
+    response?: { data?: { awb_code?: string | number; courier_name?: string } };
+}
+
+interface ShiprocketLabelResponse extends ShiprocketErrorFields {
+    label_url?: string;
+}
+
+interface ShiprocketActivity {
+    date: string;
+    activity?: string;
+    'sr-status-label'?: string;
+    location?: string;
+}
+
+interface ShiprocketTrackingResponse extends ShiprocketErrorFields {
+    tracking_data?: {
+        error?: string;
+        shipment_track?: { current_status?: string }[];
+        shipment_track_activities?: ShiprocketActivity[] | null;
+    };
+}
+
+const SHIPROCKET_API_URL = 'https://apiv2.shiprocket.in/v1/external';
+const TOKEN_TTL_MS = 9 * 24 * 60 * 60 * 1000;
+
+const tokens = new Map<string, { token: string; expiresAt: number }>();
+
+function trackingUrl(awb: string): string {
+    return `https://shiprocket.co/tracking/${encodeURIComponent(awb)}`;
+}
+
+function errorMessage(data: ShiprocketErrorFields, status: number): string {
+    if (data?.errors && typeof data.errors === 'object') {
+        return Object.values(data.errors).flat().join(', ');
+    }
+    return data?.message || `Shiprocket error ${status}`;
+}
+
+function requestError(error: unknown): string {
+    return error instanceof Error ? error.message : 'Shiprocket request failed';
+}
+
+export function createShiprocketProvider(config: ShiprocketConfig): CourierProvider {
+    async function getToken(): Promise<string> {
+        const cached = tokens.get(config.email);
+        if (cached && cached.expiresAt > Date.now()) return cached.token;
+
+        const response = await fetch(`${SHIPROCKET_API_URL}/auth/login`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: config.email, password: config.password }),
+        });
+        const data = (await response.json().catch(() => ({}))) as ShiprocketLoginResponse;
+        if (!response.ok || !data?.token) {
+            throw new Error(data?.message || 'Shiprocket login failed');
+        }
+        tokens.set(config.email, { token: data.token, expiresAt: Date.now() + TOKEN_TTL_MS });
+        return data.token;
+    }
+
+    async function request<T extends ShiprocketErrorFields>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<{ ok: boolean; status: number; data: T }> {
+        const token = await getToken();
+        const response = await fetch(`${SHIPROCKET_API_URL}${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        if (response.status === 401) tokens.delete(config.email);
+        const data = (await response.json().catch(() => ({}))) as T;
+        return { ok: response.ok, status: response.status, data };
+    }
+
+    return {
+        id: 'shiprocket',
+        name: 'Shiprocket',
+        async checkServiceability(req) {
+            try {
+                const params = new URLSearchParams({
+                    pickup_postcode: req.pickupPincode,
+                    delivery_postcode: req.deliveryPincode,
+                    cod: req.cod ? '1' : '0',
+                    weight: String(req.weightGrams / 1000),
+                });
+                const { ok, status, data } = await request<ShiprocketServiceabilityResponse>('GET', `/courier/serviceability/?${params.toString()}`);
+                if (!ok && status !== 404) return { success: false, error: errorMessage(data, status) };
+
+                const couriers = data?.data?.available_courier_companies || [];
+                const days = couriers.map((c) => Number(c.estimated_delivery_days)).filter((d) => d > 0);
+                return {
+                    success: true,
+                    serviceable: couriers.length > 0,
+                    codAvailable: couriers.some((c) => Number(c.cod) === 1),
+                    estimatedDays: days.length > 0 ? Math.min(...days) : undefined,
+                };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async createShipment(req) {
+            try {
+                const [firstName, ...rest] = req.customer.name.trim().split(/\s+/);
+                const created = await request<ShiprocketCreateOrderResponse>('POST', '/orders/create/adhoc', {
+                    order_id: req.orderRef,
+                    order_date: req.orderDate.slice(0, 16).replace('T', ' '),
+                    pickup_location: req.pickupLocation || config.pickupLocation,
+                    billing_customer_name: firstName || 'Customer',
+                    billing_last_name: rest.join(' '),
+                    billing_address: req.customer.address,
+                    billing_city: req.customer.city,
+                    billing_pincode: req.customer.pincode,
+                    billing_state: req.customer.state,
+                    billing_country: req.customer.country,
+                    billing_email: req.customer.email || '',
+                    billing_phone: req.customer.phone.replace(/\D/g, '').slice(-10),
+                    shipping_is_billing: true,
+                    order_items: req.items.map((item) => ({
+                        name: item.name,
+                        sku: item.sku || item.name.slice(0, 50),
+                        units: item.quantity,
+                        selling_price: item.unitPrice,
+                    })),
+                    payment_method: req.paymentMode === 'cod' ? 'COD' : 'Prepaid',
+                    sub_total: req.paymentMode === 'cod' ? req.codAmount : req.orderTotal,
+                    length: 10,
+                    breadth: 10,
+                    height: 10,
+                    weight: req.weightGrams / 1000,
+                });
+                const shipmentId = created.data?.shipment_id;
+                if (!created.ok || !shipmentId) {
+                    return { success: false, error: errorMessage(created.data, created.status) };
+                }
+
+                const assigned = await request<ShiprocketAssignAwbResponse>('POST', '/courier/assign/awb', { shipment_id: shipmentId });
+                const awbData = assigned.data?.response?.data;
+                if (!assigned.ok || assigned.data?.awb_assign_status !== 1 || !awbData?.awb_code) {
+                    return { success: false, shipmentId: String(shipmentId), error: errorMessage(assigned.data, assigned.status) };
+                }
+
+                const awb = String(awbData.awb_code);
+                return {
+                    success: true,
+                    awb,
+                    shipmentId: String(shipmentId),
+                    courierName: awbData.courier_name || 'Shiprocket',
+                    trackingUrl: trackingUrl(awb),
+                };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async cancelShipment(shipment) {
+            try {
+                const { ok, status, data } = await request<ShiprocketErrorFields>('POST', '/orders/cancel/shipment/awbs', { awbs: [shipment.awb] });
+                return ok ? { success: true } : { success: false, error: errorMessage(data, status) };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async getLabel(shipment) {
+            if (!shipment.shipmentId) return { success: false, error: 'Missing Shiprocket shipment id' };
+            try {
+                const { ok, status, data } = await request<ShiprocketLabelResponse>('POST', '/courier/generate/label', { shipment_id: [shipment.shipmentId] });
+                if (!ok || !data?.label_url) return { success: false, error: errorMessage(data, status) };
+                return { success: true, labelUrl: data.label_url };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async track(shipment) {
+            try {
+                const { ok, status, data } = await request<ShiprocketTrackingResponse>('GET', `/courier/track/awb/${encodeURIComponent(shipment.awb)}`);
+                const tracking = data?.tracking_data;
+                if (!ok || !tracking) return { success: false, error: errorMessage(data, status) };
+                if (tracking.error) return { success: false, error: tracking.error };
+
+                const activities = tracking.shipment_track_activities || [];
+                const statusText = tracking.shipment_track?.[0]?.current_status || activities[0]?.activity || '';
+                return {
+                    success: true,
+                    status: normalizeShipmentStatus(statusText),
+                    statusText,
+                    events: activities.map((a) => ({
+                        time: new Date(a.date).toISOString(),
+                        status: a.activity || a['sr-status-label'] || '',
+                        location: a.location || undefined,
+                    })),
+                };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+        async submitNdrAction(shipment, req) {
+            try {
+                const body: Record<string, unknown> = {
+                    action: req.action === 'rto' ? 'return' : 're-attempt',
+                    comments: req.note || (req.action === 'rto' ? 'Return to origin requested by seller' : 'Reattempt requested by seller'),
+                };
+                if (req.address) {
+                    body.address1 = req.address.address;
+                    body.address2 = [req.address.city, req.address.state, req.address.pincode].filter(Boolean).join(', ');
+                }
+                if (req.phone) body.phone = req.phone.replace(/\D/g, '').slice(-10);
+
+                const { ok, status, data } = await request<ShiprocketErrorFields>('POST', `/ndr/${encodeURIComponent(shipment.awb)}/action`, body);
+                return ok ? { success: true } : { success: false, error: errorMessage(data, status) };
+            } catch (error) {
+                return { success: false, error: requestError(error) };
+            }
+        },
+    };
+}
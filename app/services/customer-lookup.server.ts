@@ -3,7 +3,8 @@
  * Used by api.customer-by-phone and proxy route for autofill
  */
 
-import { supabase } from "../config/supabase.server";
+import { orderLogsForShop, supabase } from "../config/supabase.server";
+import { customerPhoneKey } from "../utils/phone";
 
 function normalizePhone(phone: string): string {
     // Strip all non-digit characters
@@ -57,15 +58,18 @@ export async function lookupCustomerByPhone(phone: string, shop: string): Promis
     }
 
     const normalizedInput = normalizePhone(phone);
+    // Candidates come from the phone key, so numbers stored in any format are
+    // found; phonesMatch then applies the strict comparison
+    const phoneKey = customerPhoneKey(phone);
 
     // --- Customers table ---
-    // Fetch recent customers for this shop (limit reasonable for lookup)
     const { data: customerData, error: customerError } = await supabase
         .from('customers')
         .select('name, phone, address, state, city, zipcode, email')
         .eq('shop_domain', shop)
+        .eq('phone_key', phoneKey)
         .order('updated_at', { ascending: false })
-        .limit(200);
+        .limit(20);
 
     if (customerData && !customerError) {
         const matched = customerData.find(c => phonesMatch(c.phone || '', normalizedInput));
@@ -83,12 +87,11 @@ export async function lookupCustomerByPhone(phone: string, shop: string): Promis
     }
 
     // --- Order logs fallback ---
-    const { data: orderData, error: orderError } = await supabase
-        .from('order_logs')
+    const { data: orderData, error: orderError } = await orderLogsForShop(shop)
         .select('customer_name, customer_address, customer_phone, customer_email, city, state, pincode')
-        .eq('shop_domain', shop)
+        .eq('customer_phone_key', phoneKey)
         .order('created_at', { ascending: false })
-        .limit(200);
+        .limit(20);
 
     if (orderData && !orderError) {
         const match = orderData.find(o => phonesMatch(o.customer_phone || '', normalizedInput));
@@ -0,0 +1,256 @@
+/**
+ * Customers Service
+ * Customer profiles built from order history. A customer is a phone key —
+ * the last 10 digits of the phone (order_logs.customer_phone_key,
+ * customers.phone_key) — so "+91 98765 43210" and "9876543210" are the same
+ * person. Stats are aggregated in the database (get_customer_summaries)
+ * for the list, profiles and the order page's history card alike.
+ *
+ * Lifetime revenue counts delivered orders only. The RTO rate is the one
+ * the fraud rule uses (getRtoRate): returned and cancelled orders out of
+ * all closed ones.
+ */
+import { orderLogsForShop, supabase } from '../config/supabase.server';
+import { customerPhoneKey } from '../utils/phone';
+import { getCustomerBlockChecker, type CustomerBlockStatus } from './fraud-protection.server';
+
+export type CustomerSort = 'last_order' | 'orders' | 'revenue' | 'rto_rate';
+
+export const CUSTOMERS_PAGE_SIZE = 50;
+
+export interface CustomerStats {
+    totalOrders: number;
+    deliveredCount: number;
+    returnedCount: number;
+    cancelledCount: number;
+    lifetimeRevenue: number;
+    rtoRate: number | null;
+    firstOrderAt: string | null;
+    lastOrderAt: string | null;
+}
+
+export interface CustomerSummary extends CustomerStats {
+    phoneKey: string;
+    phone: string;
+    name: string | null;
+    email: string | null;
+    city: string | null;
+    block: CustomerBlockStatus;
+}
+
+export interface CustomerProfile {
+    phoneKey: string;
+    phone: string;
+    name: string | null;
+    email: string | null;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    zipcode: string | null;
+    stats: CustomerStats;
+    block: CustomerBlockStatus;
+    /** Most recent first, at most PROFILE_ORDER_LIMIT — stats cover them all */
+    orders: CustomerOrder[];
+}
+
+export interface CustomerOrder {
+    id: string;
+    shopify_order_name: string | null;
+    customer_name: string | null;
+    customer_phone: string | null;
+    customer_email: string | null;
+    customer_address: string | null;
+    city: string | null;
+    state: string | null;
+    pincode: string | null;
+    status: string | null;
+    payment_method: string | null;
+    total_price: number | null;
+    final_total: number | null;
+    currency: string | null;
+    shipment_status: string | null;
+    ndr_status: string | null;
+    cod_remittance_status: string | null;
+    created_at: string;
+}
+
+/** A get_customer_summaries row (migration v51) */
+interface CustomerSummaryRow {
+    phone_key: string;
+    phone: string;
+    name: string | null;
+    email: string | null;
+    city: string | null;
+    total_orders: number;
+    delivered_count: number;
+    returned_count: number;
+    cancelled_count: number;
+    lifetime_revenue: number | string;
+    rto_rate: number | string | null;
+    first_order_at: string | null;
+    last_order_at: string | null;
+    total_count: number | string;
+}
+
+// Profiles list this many of the customer's most recent orders
+export const PROFILE_ORDER_LIMIT = 500;
+
+const PROFILE_ORDER_COLUMNS = 'id, shopify_order_name, customer_name, customer_phone, customer_email, customer_address, city, state, pincode, status, payment_method, total_price, final_total, currency, shipment_status, ndr_status, cod_remittance_status, created_at';
+
+function toCustomerStats(row: CustomerSummaryRow): CustomerStats {
+    return {
+        totalOrders: row.total_orders,
+        deliveredCount: row.delivered_count,
+        returnedCount: row.returned_count,
+        cancelledCount: row.cancelled_count,
+        lifetimeRevenue: Number(row.lifetime_revenue) || 0,
+        rtoRate: row.rto_rate == null ? null : Number(row.rto_rate),
+        firstOrderAt: row.first_order_at,
+        lastOrderAt: row.last_order_at,
+    };
+}
+
+/**
+ * One customer's get_customer_summaries row, or null when no order has this
+ * phone key.
+ */
+async function getCustomerSummary(shopDomain: string, phoneKey: string): Promise<CustomerSummaryRow | null> {
+    const { data, error } = await supabase.rpc('get_customer_summaries', {
+        p_shop: shopDomain,
+        p_phone_key: phoneKey,
+        p_limit: 1,
+    });
+
+    if (error) {
+        console.error('[Customers] Error loading customer stats:', error);
+        throw error;
+    }
+    return ((data || []) as CustomerSummaryRow[])[0] || null;
+}
+
+/**
+ * One page of customers, filtered by name / phone / email.
+ */
+export async function getCustomers(
+    shopDomain: string,
+    options: { search?: string; sort?: CustomerSort; page?: number } = {}
+): Promise<{ customers: CustomerSummary[]; totalCount: number }> {
+    const page = Math.max(1, options.page || 1);
+    const [{ data, error }, isBlocked] = await Promise.all([
+        supabase.rpc('get_customer_summaries', {
+            p_shop: shopDomain,
+            p_search: options.search?.trim() || null,
+            p_sort: options.sort || 'last_order',
+            p_limit: CUSTOMERS_PAGE_SIZE,
+            p_offset: (page - 1) * CUSTOMERS_PAGE_SIZE,
+        }),
+        getCustomerBlockChecker(shopDomain),
+    ]);
+
+    if (error) {
+        console.error('[Customers] Error loading customers:', error);
+        throw error;
+    }
+
+    const rows = (data || []) as CustomerSummaryRow[];
+    return {
+        customers: rows.map((row) => ({
+            ...toCustomerStats(row),
+            phoneKey: row.phone_key,
+            phone: row.phone,
+            name: row.name,
+            email: row.email,
+            city: row.city,
+            block: isBlocked({ phone: row.phone, email: row.email }),
+        })),
+        totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
+}
+
+/**
+ * A customer's details, stats and orders (newest first). Null when no order
+ * has this phone key.
+ */
+export async function getCustomerProfile(shopDomain: string, phoneKey: string): Promise<CustomerProfile | null> {
+    if (!/^\d{1,10}$/.test(phoneKey)) return null;
+
+    const [summary, ordersResult, customerResult, isBlocked] = await Promise.all([
+        getCustomerSummary(shopDomain, phoneKey),
+        orderLogsForShop(shopDomain)
+            .select(PROFILE_ORDER_COLUMNS)
+            .eq('customer_phone_key', phoneKey)
+            .order('created_at', { ascending: false })
+            .limit(PROFILE_ORDER_LIMIT),
+        supabase
+            .from('customers')
+            .select('name, phone, address, state, city, zipcode, email')
+            .eq('shop_domain', shopDomain)
+            .eq('phone_key', phoneKey)
+            .order('updated_at', { ascending: false })
+            .limit(1)
+            .maybeSingle(),
+        getCustomerBlockChecker(shopDomain),
+    ]);
+
+    if (ordersResult.error) {
+        console.error('[Customers] Error loading customer orders:', ordersResult.error);
+        throw ordersResult.error;
+    }
+
+    const orders = (ordersResult.data || []) as CustomerOrder[];
+    if (!summary || orders.length === 0) return null;
+
+    // Saved details win; the latest order fills in anything missing
+    const saved = customerResult.data as { name: string | null; phone: string; address: string | null; state: string | null; city: string | null; zipcode: string | null; email: string | null } | null;
+    const latest = orders[0];
+    const email = saved?.email || orders.find((order) => order.customer_email)?.customer_email || null;
+
+    return {
+        phoneKey,
+        phone: latest.customer_phone || saved?.phone || summary.phone,
+        name: saved?.name || latest.customer_name || null,
+        email,
+        address: saved?.address || latest.customer_address || null,
+        city: saved?.city || latest.city || null,
+        state: saved?.state || latest.state || null,
+        zipcode: saved?.zipcode || latest.pincode || null,
+        stats: toCustomerStats(summary),
+        block: isBlocked({ phone: latest.customer_phone, email }),
+        orders,
+    };
+}
+
+/**
+ * Compact history for the order page: the stats of every order by the same
+ * phone, plus how many of them came before this one.
+ */
+export async function getCustomerHistory(
+    shopDomain: string,
+    order: { id: string; customer_phone?: string | null; customer_email?: string | null; created_at?: string }
+): Promise<(CustomerStats & { phoneKey: string; previousOrders: number; block: CustomerBlockStatus }) | null> {
+    const phoneKey = customerPhoneKey(order.customer_phone);
+    if (!phoneKey) return null;
+
+    const [summary, previousResult, isBlocked] = await Promise.all([
+        getCustomerSummary(shopDomain, phoneKey).catch(() => null),
+        order.created_at
+            ? orderLogsForShop(shopDomain)
+                .select('id', { count: 'exact', head: true })
+                .eq('customer_phone_key', phoneKey)
+                .lt('created_at', order.created_at)
+            : Promise.resolve({ count: 0, error: null }),
+        getCustomerBlockChecker(shopDomain),
+    ]);
+
+    if (!summary) return null;
+    if (previousResult.error) {
+        console.error('[Customers] Error counting previous orders:', previousResult.error);
+    }
+
+    return {
+        ...toCustomerStats(summary),
+        phoneKey,
+        previousOrders: previousResult.count || 0,
+        block: isBlocked({ phone: order.customer_phone, email: order.customer_email }),
+    };
+}
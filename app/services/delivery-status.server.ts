@@ -0,0 +1,207 @@
+/**
+ * Delivery Status Service
+ * Moves an order's delivery status (order_logs.shipment_status) along the
+ * state machine in config/constants and keeps the order status in step:
+ * the first movement ships the order, 'delivered' delivers it and 'rto'
+ * returns it. Nothing else marks an order delivered.
+ *
+ * Updates come from courier tracking (services/shipments) and Shopify
+ * fulfillment events (webhooks). Events that arrive late or out of order
+ * and would move the status backwards are ignored. Every applied transition
+ * is kept in delivery_status_history. A failed attempt opens an NDR case
+ * (services/ndr), which the delivered or RTO outcome closes.
+ */
+import { orderLogsForShop, recordOrderEvent, supabase } from '../config/supabase.server';
+import {
+    canChangeDeliveryStatus,
+    canChangeOrderStatus,
+    DELIVERY_STATUSES,
+    type DeliveryStatus,
+    type OrderStatus,
+} from '../config/constants';
+import { raiseNdr, resolveNdr } from './ndr.server';
+
+export type DeliveryUpdateSource = 'courier' | 'shopify' | 'merchant';
+
+export interface DeliveryUpdate {
+    status: DeliveryStatus;
+    source: DeliveryUpdateSource;
+    /** The courier's or Shopify's own wording */
+    statusText?: string;
+    location?: string;
+    /** When it happened at the courier, if known */
+    occurredAt?: string;
+    actor?: string;
+}
+
+export interface DeliveryUpdateResult {
+    applied: boolean;
+    from: DeliveryStatus | null;
+    orderStatus?: OrderStatus;
+    reason?: string;
+}
+
+/** Order status each delivery status implies; a cancelled shipment leaves it alone */
+const ORDER_STATUS_FOR_DELIVERY: Record<DeliveryStatus, OrderStatus | null> = {
+    booked: 'shipped',
+    in_transit: 'shipped',
+    out_for_delivery: 'shipped',
+    undelivered: 'shipped',
+    delivered: 'delivered',
+    rto: 'returned',
+    cancelled: null,
+};
+
+export function getDeliveryStatusLabel(status: string | null | undefined): string {
+    return DELIVERY_STATUSES.find((s) => s.value === status)?.label || 'Not shipped';
+}
+
+/**
+ * Map a Shopify fulfillment event status (fulfillment_events/create,
+ * FulfillmentEventStatus) onto DeliveryStatus. 'picked_up' is a local
+ * pickup collected by the customer.
+ */
+export function mapShopifyFulfillmentEvent(status: string | null | undefined): DeliveryStatus | null {
+    switch (String(status || '').toLowerCase()) {
+        case 'label_printed':
+        case 'label_purchased':
+        case 'confirmed':
+            return 'booked';
+        case 'carrier_picked_up':
+        case 'in_transit':
+        case 'delayed':
+            return 'in_transit';
+        case 'out_for_delivery':
+        case 'ready_for_pickup':
+            return 'out_for_delivery';
+        case 'attempted_delivery':
+        case 'failure':
+            return 'undelivered';
+        case 'delivered':
+        case 'picked_up':
+            return 'delivered';
+        default:
+            return null;
+    }
+}
+
+/**
+ * The order status to move to, if any. An order first heard of as delivered
+ * or RTO is taken through shipped.
+ */
+function orderStatusAfter(current: string | null | undefined, target: OrderStatus | null): OrderStatus | null {
+    if (!target || (current || 'pending') === target) return null;
+    if (canChangeOrderStatus(current, target)) return target;
+    if (canChangeOrderStatus(current, 'shipped') && canChangeOrderStatus('shipped', target)) return target;
+    return null;
+}
+
+/**
+ * Keep a transition in delivery_status_history. Never throws.
+ */
+export async function recordDeliveryHistory(entry: {
+    shopDomain: string;
+    orderLogId: string;
+    from: string | null;
+    to: DeliveryStatus;
+    orderStatus?: string | null;
+    source: DeliveryUpdateSource;
+    statusText?: string | null;
+    location?: string | null;
+    occurredAt?: string | null;
+}): Promise<void> {
+    const { error } = await supabase.from('delivery_status_history').insert({
+        shop_domain: entry.shopDomain,
+        order_log_id: entry.orderLogId,
+        from_status: entry.from,
+        to_status: entry.to,
+        order_status: entry.orderStatus ?? null,
+        source: entry.source,
+        status_text: entry.statusText ?? null,
+        location: entry.location ?? null,
+        occurred_at: entry.occurredAt || new Date().toISOString(),
+    });
+    if (error) {
+        console.error('[Delivery] Error recording status history:', error);
+    }
+}
+
+/**
+ * Apply a delivery status update to an order if the state machine allows
+ * it. Conditional on the status we read, so two updates racing (a webhook
+ * and a tracking poll) can't both apply.
+ */
+export async function applyDeliveryUpdate(
+    shopDomain: string,
+    order: { id: string; status?: string | null; shipment_status?: string | null; shipment_status_text?: string | null; shopify_order_id?: string | null },
+    update: DeliveryUpdate
+): Promise<DeliveryUpdateResult> {
+    const from = (order.shipment_status || null) as DeliveryStatus | null;
+    const statusText = update.statusText?.trim() || getDeliveryStatusLabel(update.status);
+
+    if (from === update.status) {
+        if (statusText !== order.shipment_status_text) {
+            await orderLogsForShop(shopDomain)
+                .update({ shipment_status_text: statusText })
+                .eq('id', order.id)
+                .eq('shipment_status', from);
+        }
+        return { applied: false, from, reason: 'unchanged' };
+    }
+    if (!canChangeDeliveryStatus(from, update.status)) {
+        console.log(`[Delivery] Ignoring ${from || 'none'} → ${update.status} for order ${order.id} (${update.source})`);
+        return { applied: false, from, reason: `Can't move from ${getDeliveryStatusLabel(from)} to ${getDeliveryStatusLabel(update.status)}` };
+    }
+
+    const nextOrderStatus = orderStatusAfter(order.status, ORDER_STATUS_FOR_DELIVERY[update.status]);
+    const changes: Record<string, unknown> = { shipment_status: update.status, shipment_status_text: statusText };
+    if (nextOrderStatus) changes.status = nextOrderStatus;
+    if (update.status === 'delivered') changes.delivered_at = update.occurredAt || new Date().toISOString();
+
+    const query = orderLogsForShop(shopDomain)
+        .update(changes)
+        .eq('id', order.id);
+    const { data, error } = await (from ? query.eq('shipment_status', from) : query.is('shipment_status', null))
+        .select('id')
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Delivery] Error updating delivery status:', error);
+        throw error;
+    }
+    if (!data) {
+        return { applied: false, from, reason: 'Delivery status changed in the meantime' };
+    }
+
+    await recordDeliveryHistory({
+        shopDomain,
+        orderLogId: String(order.id),
+        from,
+        to: update.status,
+        orderStatus: nextOrderStatus || order.status,
+        source: update.source,
+        statusText,
+        location: update.location,
+        occurredAt: update.occurredAt,
+    });
+
+    const label = getDeliveryStatusLabel(update.status);
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: String(order.id),
+        shopifyOrderId: order.shopify_order_id,
+        type: 'delivery',
+        message: `${label}${statusText !== label ? ` — ${statusText}` : ''}${update.location ? ` (${update.location})` : ''}`
+            + (nextOrderStatus ? `; status changed from ${order.status || 'pending'} to ${nextOrderStatus}` : ''),
+        details: { from, to: update.status, source: update.source, order_status: nextOrderStatus, occurred_at: update.occurredAt || null },
+        actor: update.actor || update.source,
+    });
+
+    if (update.status === 'undelivered') {
+        await raiseNdr(shopDomain, String(order.id), { statusText, occurredAt: update.occurredAt });
+    } else if (update.status === 'delivered' || update.status === 'rto') {
+        await resolveNdr(shopDomain, String(order.id), update.status);
+    }
+
+    return { applied: true, from, orderStatus: nextOrderStatus || undefined };
+}
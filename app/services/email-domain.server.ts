@@ -0,0 +1,159 @@
+/**
+ * Email Domain Service
+ * Disposable-domain lookups (bundled disposable-email-domains list), role
+ * account detection, typo suggestions for common providers and an MX check.
+ */
+import { promises as dns } from 'node:dns';
+
+// ~120k domains — only loaded once a shop turns the disposable check on
+let disposableDomains: Set<string> | null = null;
+
+async function loadDisposableDomains(): Promise<Set<string>> {
+    if (!disposableDomains) {
+        const { default: domains } = await import('disposable-email-domains');
+        disposableDomains = new Set(domains as string[]);
+    }
+    return disposableDomains;
+}
+
+// Shared mailboxes rather than a person — rarely used for genuine COD orders
+const ROLE_LOCAL_PARTS = new Set([
+    'admin', 'administrator', 'abuse', 'billing', 'contact', 'hello', 'help',
+    'hostmaster', 'info', 'mail', 'marketing', 'no-reply', 'noreply', 'office',
+    'orders', 'postmaster', 'root', 'sales', 'security', 'support', 'team',
+    'test', 'webmaster',
+]);
+
+// Providers customers mistype most often. Real domains that sit close to
+// another entry (mail.com / gmail.com, yahoo.co.jp / yahoo.co.in) are listed
+// so they match exactly.
+const COMMON_EMAIL_DOMAINS = [
+    'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.in', 'yahoo.co.uk',
+    'yahoo.co.id', 'yahoo.co.jp', 'yahoo.co.th', 'yahoo.com.sg', 'yahoo.com.au',
+    'yahoo.fr', 'yahoo.de', 'ymail.com', 'hotmail.com', 'hotmail.co.uk',
+    'hotmail.co.jp', 'hotmail.fr', 'hotmail.de', 'outlook.com', 'live.com',
+    'msn.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com', 'mail.com',
+    'email.com', 'rediffmail.com', 'protonmail.com', 'proton.me', 'zoho.com',
+    'gmx.com', 'gmx.de',
+];
+
+const MX_LOOKUP_TIMEOUT_MS = 1500;
+const MX_CACHE_TTL_MS = 60 * 60 * 1000;
+const mxCache = new Map<string, { value: boolean; expiresAt: number }>();
+
+// A resolver with no upstream answers ENOTFOUND for everything — probe a
+// known domain first so a DNS outage can't reject every order
+const RESOLVER_PROBE_DOMAIN = 'gmail.com';
+let resolverProbe: { healthy: boolean; expiresAt: number } | null = null;
+
+export function getEmailDomain(email: string): string | null {
+    const at = email.lastIndexOf('@');
+    if (at < 1) return null;
+    const domain = email.slice(at + 1).trim().toLowerCase();
+    return domain || null;
+}
+
+/** True when the domain, or a parent domain, is on the disposable list. */
+export async function isDisposableEmailDomain(domain: string): Promise<boolean> {
+    const domains = await loadDisposableDomains();
+    const parts = domain.toLowerCase().split('.');
+    for (let i = 0; i < parts.length - 1; i++) {
+        if (domains.has(parts.slice(i).join('.'))) return true;
+    }
+    return false;
+}
+
+export function isRoleEmail(email: string): boolean {
+    const localPart = email.slice(0, email.lastIndexOf('@')).trim().toLowerCase();
+    // Ignore plus-addressing (support+shop@...)
+    return ROLE_LOCAL_PARTS.has(localPart.split('+')[0]);
+}
+
+/** Optimal string alignment distance — counts a swapped pair (gmial) as one edit. */
+function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+/**
+ * Suggest a corrected address when the domain looks like a typo of a common
+ * provider (jane@gmial.com → jane@gmail.com). Returns null otherwise. Only a
+ * hint: a close match can still be a real domain, so nothing is rejected on
+ * this alone.
+ */
+export function suggestEmailCorrection(email: string): string | null {
+    const domain = getEmailDomain(email);
+    if (!domain || COMMON_EMAIL_DOMAINS.includes(domain)) return null;
+
+    let best: { domain: string; distance: number } | null = null;
+    for (const candidate of COMMON_EMAIL_DOMAINS) {
+        const distance = editDistance(domain, candidate);
+        if (!best || distance < best.distance) best = { domain: candidate, distance };
+    }
+
+    const maxDistance = domain.length <= 8 ? 1 : 2;
+    if (!best || best.distance > maxDistance) return null;
+    return `${email.slice(0, email.lastIndexOf('@')).trim()}@${best.domain}`;
+}
+
+async function withTimeout<T>(promise: Promise<T>): Promise<T | null> {
+    const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), MX_LOOKUP_TIMEOUT_MS));
+    return Promise.race([promise, timeout]);
+}
+
+async function isResolverHealthy(): Promise<boolean> {
+    if (resolverProbe && resolverProbe.expiresAt > Date.now()) return resolverProbe.healthy;
+    const records = await withTimeout(dns.resolveMx(RESOLVER_PROBE_DOMAIN).catch(() => []));
+    const healthy = !!records && records.length > 0;
+    if (!healthy) console.error('[EmailDomain] DNS resolver probe failed — skipping MX checks');
+    resolverProbe = { healthy, expiresAt: Date.now() + MX_CACHE_TTL_MS / 6 };
+    return healthy;
+}
+
+/** The resolver's answer for a domain that doesn't exist or has no such record */
+function isMissingRecord(error: unknown): boolean {
+    const code = (error as NodeJS.ErrnoException | null)?.code;
+    return code === 'ENOTFOUND' || code === 'ENODATA';
+}
+
+/**
+ * True when the domain accepts mail (has MX records, or an A record as the
+ * SMTP fallback). Fails open on timeouts and resolver errors.
+ */
+export async function hasMailServer(domain: string): Promise<boolean> {
+    const cached = mxCache.get(domain);
+    if (cached && cached.expiresAt > Date.now()) return cached.value;
+    if (!(await isResolverHealthy())) return true;
+
+    const lookup = async (): Promise<boolean> => {
+        try {
+            const records = await dns.resolveMx(domain);
+            if (records.length > 0) return true;
+        } catch (error) {
+            if (!isMissingRecord(error)) return true;
+        }
+        try {
+            const addresses = await dns.resolve4(domain);
+            return addresses.length > 0;
+        } catch (error) {
+            return !isMissingRecord(error);
+        }
+    };
+
+    const value = await withTimeout(lookup());
+    if (value === null) return true;
+
+    mxCache.set(domain, { value, expiresAt: Date.now() + MX_CACHE_TTL_MS });
+    return value;
+}
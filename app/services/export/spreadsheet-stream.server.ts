@@ -0,0 +1,307 @@
+/**
+ * Spreadsheet streams
+ * ============================================================================
+ * Turn batches of rows into a CSV or XLSX byte stream without holding the
+ * whole file in memory, so large exports start downloading immediately and
+ * never hit a request timeout while the file is being built.
+ *
+ * XLSX is written by hand: a workbook with a single sheet of inline strings,
+ * zipped entry by entry with sizes in trailing data descriptors (the zip
+ * layout that allows streaming). No third-party spreadsheet library needed.
+ * ============================================================================
+ */
+import { once } from 'node:events';
+import { createDeflateRaw } from 'node:zlib';
+
+export type SpreadsheetCell = string | number | null | undefined;
+export type SpreadsheetRowBatches = AsyncIterable<SpreadsheetCell[][]>;
+
+// Excel refuses to open cells longer than this
+const MAX_CELL_LENGTH = 32767;
+
+// =============================================
+// SHARED
+// =============================================
+
+function toReadableStream(source: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+    const iterator = source[Symbol.asyncIterator]();
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { value, done } = await iterator.next();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (error) {
+                console.error('[Export] Stream failed:', error);
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await iterator.return?.();
+        },
+    });
+}
+
+// =============================================
+// CSV
+// =============================================
+
+/**
+ * Cells starting with = + - @ are run as formulas by spreadsheet apps.
+ * Phone numbers and negative amounts are left alone.
+ */
+function neutralizeFormula(value: string): string {
+    if (/^[=+\-@\t\r]/.test(value) && !/^[+-]?[\d\s().-]+$/.test(value)) {
+        return `'${value}`;
+    }
+    return value;
+}
+
+function csvLine(cells: SpreadsheetCell[]): string {
+    return cells.map((cell) => {
+        if (cell === null || cell === undefined) return '';
+        if (typeof cell === 'number') return Number.isFinite(cell) ? String(cell) : '';
+        const value = neutralizeFormula(cell);
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }).join(',') + '\r\n';
+}
+
+/**
+ * CSV with a UTF-8 BOM so Excel detects the encoding (names in Hindi,
+ * Arabic, etc. otherwise come out garbled).
+ */
+export function createCsvStream(header: string[], batches: SpreadsheetRowBatches): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    async function* chunks() {
+        yield encoder.encode('\uFEFF' + csvLine(header));
+        for await (const rows of batches) {
+            yield encoder.encode(rows.map(csvLine).join(''));
+        }
+    }
+    return toReadableStream(chunks());
+}
+
+// =============================================
+// XLSX
+// =============================================
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array, previous = 0): number {
+    let crc = previous ^ 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntryRecord {
+    name: Buffer;
+    offset: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+}
+
+/**
+ * Minimal streaming zip: deflated entries, UTF-8 names, data descriptors.
+ * Sizes are 32-bit (no zip64), which caps an entry at 4 GB.
+ */
+class ZipStreamWriter {
+    private offset = 0;
+    private entries: ZipEntryRecord[] = [];
+    private readonly dosTime: number;
+    private readonly dosDate: number;
+
+    constructor(date = new Date()) {
+        this.dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+        this.dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    }
+
+    private track(chunk: Buffer): Buffer {
+        this.offset += chunk.length;
+        return chunk;
+    }
+
+    async *addEntry(fileName: string, source: AsyncIterable<string> | string): AsyncGenerator<Buffer> {
+        const name = Buffer.from(fileName, 'utf8');
+        const record: ZipEntryRecord = { name, offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);            // version needed
+        header.writeUInt16LE(0x0808, 6);        // data descriptor + UTF-8 names
+        header.writeUInt16LE(8, 8);             // deflate
+        header.writeUInt16LE(this.dosTime, 10);
+        header.writeUInt16LE(this.dosDate, 12);
+        // crc and sizes (14–25) are zero here and follow the data instead
+        header.writeUInt16LE(name.length, 26);
+        yield this.track(Buffer.concat([header, name]));
+
+        const deflate = createDeflateRaw();
+        const feed = (async () => {
+            const parts = typeof source === 'string' ? [source] : source;
+            for await (const text of parts) {
+                const data = Buffer.from(text, 'utf8');
+                record.crc = crc32(data, record.crc);
+                record.size += data.length;
+                if (!deflate.write(data)) await once(deflate, 'drain');
+            }
+            deflate.end();
+        })();
+        feed.catch((error) => deflate.destroy(error));
+
+        try {
+            for await (const chunk of deflate) {
+                record.compressedSize += chunk.length;
+                yield this.track(chunk as Buffer);
+            }
+            await feed;
+        } finally {
+            if (!deflate.destroyed) deflate.destroy();
+        }
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(record.crc, 4);
+        descriptor.writeUInt32LE(record.compressedSize, 8);
+        descriptor.writeUInt32LE(record.size, 12);
+        yield this.track(descriptor);
+
+        this.entries.push(record);
+    }
+
+    finish(): Buffer {
+        const centralOffset = this.offset;
+        const central = this.entries.map((entry) => {
+            const header = Buffer.alloc(46);
+            header.writeUInt32LE(0x02014b50, 0);
+            header.writeUInt16LE(20, 4);        // version made by
+            header.writeUInt16LE(20, 6);        // version needed
+            header.writeUInt16LE(0x0808, 8);
+            header.writeUInt16LE(8, 10);
+            header.writeUInt16LE(this.dosTime, 12);
+            header.writeUInt16LE(this.dosDate, 14);
+            header.writeUInt32LE(entry.crc, 16);
+            header.writeUInt32LE(entry.compressedSize, 20);
+            header.writeUInt32LE(entry.size, 24);
+            header.writeUInt16LE(entry.name.length, 28);
+            header.writeUInt32LE(entry.offset, 42);
+            return Buffer.concat([header, entry.name]);
+        });
+        const centralDirectory = Buffer.concat(central);
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(this.entries.length, 8);
+        end.writeUInt16LE(this.entries.length, 10);
+        end.writeUInt32LE(centralDirectory.length, 12);
+        end.writeUInt32LE(centralOffset, 16);
+
+        return this.track(Buffer.concat([centralDirectory, end]));
+    }
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const CONTENT_TYPES_XML = XML_HEADER
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '</Types>';
+
+const ROOT_RELS_XML = XML_HEADER
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>`
+    + '</Relationships>';
+
+const WORKBOOK_RELS_XML = XML_HEADER
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>`
+    + `<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>`
+    + '</Relationships>';
+
+// Style 1 = bold, used for the header row
+const STYLES_XML = XML_HEADER
+    + `<styleSheet xmlns="${SHEET_NS}">`
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+    + '</styleSheet>';
+
+function escapeXml(value: string): string {
+    return value
+        // Control characters are not allowed in XML 1.0 at all
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function xlsxRow(cells: SpreadsheetCell[], style?: number): string {
+    const styleAttr = style ? ` s="${style}"` : '';
+    return '<row>' + cells.map((cell) => {
+        if (cell === null || cell === undefined || cell === '') return `<c${styleAttr}/>`;
+        if (typeof cell === 'number') {
+            return Number.isFinite(cell) ? `<c${styleAttr}><v>${cell}</v></c>` : `<c${styleAttr}/>`;
+        }
+        return `<c t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(cell.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+    }).join('') + '</row>';
+}
+
+/**
+ * Single-sheet workbook with a bold, frozen header row.
+ */
+export function createXlsxStream(header: string[], batches: SpreadsheetRowBatches, sheetName = 'Orders'): ReadableStream<Uint8Array> {
+    const workbookXml = XML_HEADER
+        + `<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}">`
+        + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>';
+
+    async function* sheetXml() {
+        yield XML_HEADER
+            + `<worksheet xmlns="${SHEET_NS}">`
+            + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+            + '<sheetData>'
+            + xlsxRow(header, 1);
+        for await (const rows of batches) {
+            yield rows.map((row) => xlsxRow(row)).join('');
+        }
+        yield '</sheetData></worksheet>';
+    }
+
+    async function* chunks() {
+        const zip = new ZipStreamWriter();
+        yield* zip.addEntry('[Content_Types].xml', CONTENT_TYPES_XML);
+        yield* zip.addEntry('_rels/.rels', ROOT_RELS_XML);
+        yield* zip.addEntry('xl/workbook.xml', workbookXml);
+        yield* zip.addEntry('xl/_rels/workbook.xml.rels', WORKBOOK_RELS_XML);
+        yield* zip.addEntry('xl/styles.xml', STYLES_XML);
+        yield* zip.addEntry('xl/worksheets/sheet1.xml', sheetXml());
+        yield zip.finish();
+    }
+
+    return toReadableStream(chunks());
+}
@@ -3,9 +3,37 @@
  * CRUD operations + Shopify metafield sync + order validation
  */
 
-import { supabase } from '../config/supabase.server';
-import type { FraudProtectionSettings } from '../config/fraud-protection.types';
-import { DEFAULT_FRAUD_SETTINGS } from '../config/fraud-protection.types';
+import { orderLogsForShop, supabase } from '../config/supabase.server';
+import { getRtoRate, RTO_CLOSED_STATUSES } from '../config/constants';
+import { ipMatchesAnyRule } from '../utils/ip-rules';
+import { customerPhoneKey } from '../utils/phone';
+import { lookupIpCountry } from './geoip.server';
+import {
+    getEmailDomain,
+    hasMailServer,
+    isDisposableEmailDomain,
+    isRoleEmail,
+    suggestEmailCorrection,
+} from './email-domain.server';
+import type {
+    FraudAutoBlock,
+    FraudDecision,
+    FraudEvent,
+    FraudProtectionSettings,
+    FraudRiskThresholds,
+    FraudRiskWeights,
+    FraudRuleKey,
+    FraudSignal,
+    FraudSignalKey,
+    FraudSimulationResult,
+} from '../config/fraud-protection.types';
+import {
+    DEFAULT_FRAUD_SETTINGS,
+    DEFAULT_RISK_THRESHOLDS,
+    DEFAULT_RISK_WEIGHTS,
+    FRAUD_RULE_LABELS,
+    toStorefrontFraudSettings,
+} from '../config/fraud-protection.types';
 
 // =============================================
 // CRUD OPERATIONS
@@ -92,21 +120,8 @@ export async function syncFraudSettingsToMetafield(admin: any, shopDomain: strin
 
     const settings = await getFraudProtectionSettings(shopDomain);
 
-    // Build storefront-friendly object (exclude sensitive/internal fields)
-    const storefrontData = {
-        limit_orders_enabled: settings.limit_orders_enabled,
-        max_orders: settings.max_orders,
-        limit_hours: settings.limit_hours,
-        limit_quantity_enabled: settings.limit_quantity_enabled,
-        max_quantity: settings.max_quantity,
-        blocked_phone_numbers: settings.blocked_phone_numbers || [],
-        blocked_emails: settings.blocked_emails || [],
-        blocked_ip_addresses: settings.blocked_ip_addresses || [],
-        allowed_ip_addresses: settings.allowed_ip_addresses || [],
-        postal_code_mode: settings.postal_code_mode,
-        postal_codes: settings.postal_codes || [],
-        blocked_message: settings.blocked_message || 'Sorry, you are not allowed to place orders.',
-    };
+    // Only non-sensitive rules go to the storefront — block lists stay server-side
+    const storefrontData = toStorefrontFraudSettings(settings);
 
     const shopResponse = await admin.graphql(`{ shop { id } }`);
     const shopData = await shopResponse.json();
@@ -142,28 +157,590 @@ export async function syncFraudSettingsToMetafield(admin: any, shopDomain: strin
 // ORDER VALIDATION
 // =============================================
 
-interface FraudValidationResult {
+export interface FraudValidationResult {
     allowed: boolean;
     message: string;
+    decision: FraudDecision;
+    /** Rule responsible for a block/flag (null when allowed) */
+    rule: FraudRuleKey | null;
+    score: number;
+    signals: FraudSignal[];
 }
 
-interface OrderValidationData {
+export interface OrderValidationData {
     phone?: string;
     email?: string;
     ip?: string;
     zipcode?: string;
+    address?: string;
     quantity?: number;
+    paymentMethod?: 'cod' | 'partial_cod' | 'full_prepaid';
+    /** Storefront device fingerprint (cod-form.js) for per-device velocity limits */
+    deviceFingerprint?: string;
+    // Context recorded with fraud events
+    cartValue?: number;
+    orderSource?: string;
+    /** Set when replaying a past order — history lookups only see older orders */
+    placedAt?: string;
     shopDomain: string;
 }
 
+/**
+ * Outcome of running the rules. Matches from rules in monitor mode are kept
+ * aside so they can be logged without affecting the order.
+ */
+interface FraudEvaluation {
+    result: FraudValidationResult;
+    monitored: FraudValidationResult[];
+}
+
+const PREPAID_REQUIRED_MESSAGE = 'Cash on Delivery is not available for this order. Please pay online to continue.';
+
 function normalizePhone(phone: string): string {
     return phone.replace(/[\s\-\(\)]/g, '');
 }
 
+/**
+ * Orders now store E.164 (+919876543210) while list entries may be typed
+ * without the country code — treat a 10+ digit suffix match as the same number.
+ */
+function phonesMatch(a: string, b: string): boolean {
+    const da = a.replace(/\D/g, '');
+    const db = b.replace(/\D/g, '');
+    if (!da || !db) return false;
+    if (da === db) return true;
+    const [shorter, longer] = da.length <= db.length ? [da, db] : [db, da];
+    return shorter.length >= 10 && longer.endsWith(shorter);
+}
+
 function normalizeEmail(email: string): string {
     return email.trim().toLowerCase();
 }
 
+function allowResult(): FraudValidationResult {
+    return { allowed: true, message: '', decision: 'allow', rule: null, score: 0, signals: [] };
+}
+
+function blockResult(message: string, rule: FraudRuleKey): FraudValidationResult {
+    return { allowed: false, message, decision: 'block', rule, score: 0, signals: [] };
+}
+
+/**
+ * Tracks monitor-mode matches for one evaluation. enforce() returns the
+ * result when its rule should stop the order, or null when it is monitored.
+ */
+function createRuleEnforcer(settings: FraudProtectionSettings) {
+    const monitorRules = settings.monitor_rules || [];
+    const monitored: FraudValidationResult[] = [];
+    return {
+        monitored,
+        enforce(result: FraudValidationResult): FraudValidationResult | null {
+            if (!result.rule || !monitorRules.includes(result.rule)) return result;
+            monitored.push(result);
+            return null;
+        },
+    };
+}
+
+/**
+ * True when the order should be saved for manual review instead of being
+ * pushed to Shopify (risk score in the "Hold for review" band).
+ */
+export function shouldHoldOrder(result: FraudValidationResult | null | undefined): boolean {
+    return !!result && result.allowed && result.decision === 'review';
+}
+
+/**
+ * Columns persisted on order_logs so merchants can see why an order was flagged.
+ * Returns an empty object when validation did not run (e.g. it threw).
+ */
+export function toFraudLogFields(result: FraudValidationResult | null | undefined) {
+    if (!result) return {};
+    return {
+        fraud_score: result.score,
+        fraud_decision: result.decision,
+        fraud_signals: result.signals,
+    };
+}
+
+// =============================================
+// RULE MATCHERS (shared by block-on-first-match and risk scoring)
+// =============================================
+
+// IP lists accept exact addresses, CIDR blocks and wildcards (see utils/ip-rules)
+function isIpAllowed(ip: string | undefined, settings: FraudProtectionSettings): boolean {
+    return ipMatchesAnyRule(ip, settings.allowed_ip_addresses);
+}
+
+function isCustomerAllowed(orderData: OrderValidationData, settings: FraudProtectionSettings): boolean {
+    if (orderData.phone && settings.allowed_phone_numbers?.length) {
+        const phone = orderData.phone;
+        if (settings.allowed_phone_numbers.some((entry: string) => phonesMatch(entry, phone))) return true;
+    }
+    if (orderData.email && settings.allowed_emails?.length) {
+        const normalizedInput = normalizeEmail(orderData.email);
+        if (settings.allowed_emails.some((entry: string) => normalizeEmail(entry) === normalizedInput)) return true;
+    }
+    return false;
+}
+
+function isIpBlocked(ip: string | undefined, settings: FraudProtectionSettings): boolean {
+    return ipMatchesAnyRule(ip, settings.blocked_ip_addresses);
+}
+
+/**
+ * Returns the resolved country code when the IP's country falls foul of the
+ * configured allow/block list, otherwise null. Unresolvable IPs are not restricted.
+ */
+async function getRestrictedIpCountry(ip: string | undefined, settings: FraudProtectionSettings): Promise<string | null> {
+    if (!ip || !settings.ip_country_mode || settings.ip_country_mode === 'none' || !settings.ip_countries?.length) return null;
+
+    const country = await lookupIpCountry(ip);
+    if (!country) return null;
+
+    const listed = settings.ip_countries.some((code: string) => code.trim().toUpperCase() === country);
+    if (settings.ip_country_mode === 'allow_only' && !listed) return country;
+    if (settings.ip_country_mode === 'block_only' && listed) return country;
+    return null;
+}
+
+function isPhoneBlocked(phone: string | undefined, settings: FraudProtectionSettings): boolean {
+    if (!phone || !settings.blocked_phone_numbers?.length) return false;
+    return settings.blocked_phone_numbers.some(
+        (entry: string) => phonesMatch(entry, phone)
+    );
+}
+
+function isEmailBlocked(email: string | undefined, settings: FraudProtectionSettings): boolean {
+    if (!email || !settings.blocked_emails?.length) return false;
+    const normalizedInput = normalizeEmail(email);
+    return settings.blocked_emails.some(
+        (entry: string) => normalizeEmail(entry) === normalizedInput || normalizedInput.endsWith('@' + entry.trim().toLowerCase())
+    );
+}
+
+interface EmailIssue {
+    rule: 'disposable_email' | 'role_email' | 'email_domain';
+    message: string;
+    detail: string;
+}
+
+/**
+ * Disposable, role and mail-less domain checks — returns the first problem
+ * found. A likely typo only counts when the domain can't receive mail; the
+ * customer then gets the suggested correction instead of a rejection.
+ */
+async function findEmailIssue(email: string | undefined, settings: FraudProtectionSettings): Promise<EmailIssue | null> {
+    if (!email) return null;
+    const domain = getEmailDomain(email);
+    if (!domain) return null;
+
+    const suggestion = settings.email_domain_check_enabled ? suggestEmailCorrection(email) : null;
+    if (suggestion && !(await hasMailServer(domain))) {
+        return {
+            rule: 'email_domain',
+            message: `Did you mean ${suggestion}? Please check your email address.`,
+            detail: `${domain} has no mail server and looks like a typo of ${getEmailDomain(suggestion)}`,
+        };
+    }
+
+    if (settings.block_disposable_emails && await isDisposableEmailDomain(domain)) {
+        return {
+            rule: 'disposable_email',
+            message: 'Please use a permanent email address to place your order.',
+            detail: `${domain} is a disposable email provider`,
+        };
+    }
+
+    if (settings.block_role_emails && isRoleEmail(email)) {
+        return {
+            rule: 'role_email',
+            message: 'Please use your personal email address to place your order.',
+            detail: `${email} is a shared/role mailbox`,
+        };
+    }
+
+    if (settings.email_domain_check_enabled && !(await hasMailServer(domain))) {
+        return {
+            rule: 'email_domain',
+            message: 'This email address cannot receive mail. Please check it and try again.',
+            detail: `${domain} has no mail server`,
+        };
+    }
+
+    return null;
+}
+
+/** True when the postal code falls foul of the configured allow/block list. */
+function isPostalCodeRestricted(zipcode: string | undefined, settings: FraudProtectionSettings): boolean {
+    if (!zipcode || settings.postal_code_mode === 'none' || !settings.postal_codes?.length) return false;
+    const normalizedZip = zipcode.trim().toUpperCase();
+    const matchFound = settings.postal_codes.some(
+        (code: string) => code.trim().toUpperCase() === normalizedZip
+    );
+    if (settings.postal_code_mode === 'allow_only') return !matchFound;
+    if (settings.postal_code_mode === 'block_only') return matchFound;
+    return false;
+}
+
+function exceedsQuantityLimit(quantity: number | undefined, settings: FraudProtectionSettings): boolean {
+    return !!(settings.limit_quantity_enabled && settings.max_quantity && quantity && quantity > settings.max_quantity);
+}
+
+/**
+ * Count orders from this phone or email inside the configured time window
+ * (takes the higher of the two counts).
+ */
+async function countRecentOrders(orderData: OrderValidationData, settings: FraudProtectionSettings): Promise<number> {
+    if (!settings.limit_hours) return 0;
+    const windowEnd = orderData.placedAt ? new Date(orderData.placedAt).getTime() : Date.now();
+    const windowStart = new Date(windowEnd - settings.limit_hours * 60 * 60 * 1000).toISOString();
+
+    const countFor = async (column: 'customer_phone_key' | 'customer_email', value: string) => {
+        let query = orderLogsForShop(orderData.shopDomain)
+            .select('*', { count: 'exact', head: true })
+            .eq(column, value)
+            .gte('created_at', windowStart);
+        if (orderData.placedAt) query = query.lt('created_at', orderData.placedAt);
+        const { count } = await query;
+        return count || 0;
+    };
+
+    let recentCount = 0;
+
+    // Phones match on their key, so older orders stored as typed still count
+    const phoneKey = customerPhoneKey(orderData.phone);
+    if (phoneKey) {
+        recentCount = await countFor('customer_phone_key', phoneKey);
+    }
+
+    if (orderData.email && (!settings.max_orders || recentCount < settings.max_orders)) {
+        recentCount = Math.max(recentCount, await countFor('customer_email', orderData.email));
+    }
+
+    return recentCount;
+}
+
+/** Count previous returned or cancelled orders for this phone number. */
+async function countReturnedOrders(orderData: OrderValidationData): Promise<number> {
+    const phoneKey = customerPhoneKey(orderData.phone);
+    if (!phoneKey) return 0;
+    let query = orderLogsForShop(orderData.shopDomain)
+        .select('*', { count: 'exact', head: true })
+        .eq('customer_phone_key', phoneKey)
+        .in('status', ['returned', 'cancelled']);
+    if (orderData.placedAt) query = query.lt('created_at', orderData.placedAt);
+    const { count, error } = await query;
+    if (error) {
+        console.error('[FraudProtection] Return history lookup failed:', error);
+        return 0;
+    }
+    return count || 0;
+}
+
+/**
+ * Cheap heuristics for addresses that are unlikely to be deliverable.
+ * Returns a reason string when the address looks poor, otherwise null.
+ */
+function assessAddressQuality(address: string): string | null {
+    const trimmed = address.trim();
+    if (!trimmed) return 'Address is missing';
+    if (trimmed.length < 15) return 'Address is too short';
+    if (!/\d/.test(trimmed)) return 'Address has no house or building number';
+    if (/(.)\1{4,}/.test(trimmed)) return 'Address contains repeated characters';
+    return null;
+}
+
+// =============================================
+// VELOCITY COUNTERS (IP / device)
+// =============================================
+
+type VelocityKeyType = 'ip' | 'device';
+
+interface VelocityKey {
+    type: VelocityKeyType;
+    value: string;
+    maxOrders: number;
+    windowHours: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEVICE_FINGERPRINT_PATTERN = /^[a-f0-9]{8,64}$/i;
+
+// Counters are kept per hour, so a window covers the current partial hour too
+function hourBucket(time: number): string {
+    return new Date(Math.floor(time / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+/** The IP / device keys that have a limit configured and a usable value. */
+function getVelocityKeys(orderData: OrderValidationData, settings: FraudProtectionSettings): VelocityKey[] {
+    const keys: VelocityKey[] = [];
+    const ip = orderData.ip?.trim();
+    if (settings.ip_limit_enabled && settings.ip_max_orders && settings.ip_limit_hours && ip && ip !== 'unknown') {
+        keys.push({ type: 'ip', value: ip, maxOrders: settings.ip_max_orders, windowHours: settings.ip_limit_hours });
+    }
+    const device = orderData.deviceFingerprint?.trim();
+    if (settings.device_limit_enabled && settings.device_max_orders && settings.device_limit_hours
+        && device && DEVICE_FINGERPRINT_PATTERN.test(device)) {
+        keys.push({ type: 'device', value: device.toLowerCase(), maxOrders: settings.device_max_orders, windowHours: settings.device_limit_hours });
+    }
+    return keys;
+}
+
+async function countVelocity(shopDomain: string, key: VelocityKey): Promise<number> {
+    const { data, error } = await supabase
+        .from('fraud_velocity_counters')
+        .select('order_count')
+        .eq('shop_domain', shopDomain)
+        .eq('key_type', key.type)
+        .eq('key_value', key.value)
+        .gte('bucket_start', hourBucket(Date.now() - key.windowHours * HOUR_MS));
+
+    if (error) {
+        console.error('[FraudProtection] Velocity lookup failed:', error);
+        return 0;
+    }
+    return (data || []).reduce((sum: number, row: { order_count: number }) => sum + (row.order_count || 0), 0);
+}
+
+/** First IP / device key at or over its limit, or null. */
+async function findVelocityHit(
+    orderData: OrderValidationData,
+    settings: FraudProtectionSettings
+): Promise<{ rule: 'ip_velocity' | 'device_velocity'; detail: string } | null> {
+    const keys = getVelocityKeys(orderData, settings);
+    if (keys.length === 0) return null;
+
+    const counts = await Promise.all(keys.map(key => countVelocity(orderData.shopDomain, key)));
+    for (let i = 0; i < keys.length; i++) {
+        const key = keys[i];
+        if (counts[i] >= key.maxOrders) {
+            return {
+                rule: key.type === 'ip' ? 'ip_velocity' : 'device_velocity',
+                detail: `${counts[i]} orders from this ${key.type === 'ip' ? 'IP' : 'device'} in the last ${key.windowHours}h`,
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * Count a placed order against its IP / device keys. Order routes call this
+ * once the order is logged, so an attempt rejected after the fraud check
+ * (bad coupon, OTP, failed Shopify create) doesn't use up the allowance.
+ */
+export async function recordVelocity(orderData: OrderValidationData, settings: FraudProtectionSettings): Promise<void> {
+    const bucketStart = hourBucket(Date.now());
+    for (const key of getVelocityKeys(orderData, settings)) {
+        const { error } = await supabase.rpc('fraud_increment_velocity', {
+            p_shop: orderData.shopDomain,
+            p_key_type: key.type,
+            p_key_value: key.value,
+            p_bucket_start: bucketStart,
+        });
+        if (error) console.error('[FraudProtection] Velocity counter update failed:', error);
+    }
+}
+
+// =============================================
+// RTO HISTORY (auto-block)
+// =============================================
+
+// Don't judge an RTO rate on one or two orders — 1 of 1 returned is 100%
+const MIN_ORDERS_FOR_RTO_RATE = 3;
+
+interface RtoHistoryHit {
+    identifierType: 'phone' | 'email';
+    identifier: string;
+    reason: string;
+    returnedCount: number;
+    totalCount: number;
+}
+
+export async function getFraudAutoBlocks(shopDomain: string): Promise<FraudAutoBlock[]> {
+    const { data, error } = await supabase
+        .from('fraud_auto_blocks')
+        .select('*')
+        .eq('shop_domain', shopDomain)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('[FraudProtection] Auto-block fetch error:', error);
+        return [];
+    }
+    return (data || []) as FraudAutoBlock[];
+}
+
+/**
+ * Lift an automatic block. The row is kept as 'unblocked' so the rule
+ * treats the customer as reviewed and doesn't block them again.
+ */
+export async function unblockFraudAutoBlock(shopDomain: string, id: string): Promise<void> {
+    const { error } = await supabase
+        .from('fraud_auto_blocks')
+        .update({ status: 'unblocked', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('shop_domain', shopDomain);
+
+    if (error) { console.error('[FraudProtection] Unblock error:', error); throw error; }
+}
+
+/**
+ * Evaluate one identifier's closed orders (delivered/returned/cancelled)
+ * inside the RTO window against the configured thresholds.
+ */
+async function evaluateRtoHistory(
+    shopDomain: string,
+    identifierType: 'phone' | 'email',
+    identifier: string,
+    settings: FraudProtectionSettings,
+    placedAt?: string
+): Promise<RtoHistoryHit | null> {
+    const phoneKey = identifierType === 'phone' ? customerPhoneKey(identifier) : '';
+    if (identifierType === 'phone' && !phoneKey) return null;
+    const windowEnd = placedAt ? new Date(placedAt).getTime() : Date.now();
+    const windowStart = new Date(windowEnd - (settings.rto_window_days || 90) * 24 * 60 * 60 * 1000).toISOString();
+
+    let query = orderLogsForShop(shopDomain)
+        .select('status')
+        .in('status', RTO_CLOSED_STATUSES)
+        .gte('created_at', windowStart);
+    // Phones match on their key and emails case-insensitively — both are stored
+    // as typed. LIKE wildcards are escaped so "a_b@x.com" can't match "axb@x.com".
+    query = identifierType === 'email'
+        ? query.ilike('customer_email', identifier.replace(/[%_\\]/g, '\\$&'))
+        : query.eq('customer_phone_key', phoneKey);
+    if (placedAt) query = query.lt('created_at', placedAt);
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('[FraudProtection] RTO history lookup failed:', error);
+        return null;
+    }
+
+    const count = (status: string) => (data || []).filter((row: { status: string }) => row.status === status).length;
+    const counts = { delivered: count('delivered'), returned: count('returned'), cancelled: count('cancelled') };
+    const totalCount = data?.length || 0;
+    const returnedCount = counts.returned + counts.cancelled;
+    if (returnedCount === 0) return null;
+
+    const rate = Math.round(getRtoRate(counts) ?? 0);
+    const overCount = !!settings.rto_min_returns && returnedCount >= settings.rto_min_returns;
+    const overRate = !!settings.rto_max_rate && totalCount >= MIN_ORDERS_FOR_RTO_RATE && rate > settings.rto_max_rate;
+    if (!overCount && !overRate) return null;
+
+    return {
+        identifierType,
+        identifier,
+        reason: `${returnedCount} of ${totalCount} orders returned/cancelled (${rate}%) in the last ${settings.rto_window_days || 90} days`,
+        returnedCount,
+        totalCount,
+    };
+}
+
+/**
+ * Returns the first phone/email that trips the RTO rule, recording it in
+ * fraud_auto_blocks when recordBlock is set. Identifiers the merchant has
+ * unblocked are skipped.
+ */
+async function checkRtoHistory(
+    orderData: OrderValidationData,
+    settings: FraudProtectionSettings,
+    recordBlock: boolean
+): Promise<RtoHistoryHit | null> {
+    if (!settings.rto_rule_enabled) return null;
+
+    // Phones are keyed on their last 10 digits so a block (or an unblock)
+    // holds however the number is formatted on the next order
+    const phoneKey = orderData.phone ? customerPhoneKey(orderData.phone) : '';
+    const identifiers: { type: 'phone' | 'email'; value: string }[] = [];
+    if (phoneKey) identifiers.push({ type: 'phone', value: phoneKey });
+    if (orderData.email) identifiers.push({ type: 'email', value: normalizeEmail(orderData.email) });
+    if (identifiers.length === 0) return null;
+
+    // Rows recorded before phones were keyed hold the number as typed
+    const lookup = identifiers.map(i => i.value);
+    if (phoneKey && orderData.phone) lookup.push(orderData.phone.trim());
+
+    const { data: existing } = await supabase
+        .from('fraud_auto_blocks')
+        .select('identifier_type, identifier, status, reason, returned_count, total_count')
+        .eq('shop_domain', orderData.shopDomain)
+        .in('identifier', lookup);
+    const rows = (existing || []) as Pick<FraudAutoBlock, 'identifier_type' | 'identifier' | 'status' | 'reason' | 'returned_count' | 'total_count'>[];
+
+    for (const { type, value } of identifiers) {
+        const row = rows.find((r) => r.identifier_type === type
+            && (type === 'phone' ? customerPhoneKey(r.identifier) === value : r.identifier === value));
+        if (row?.status === 'unblocked') continue;
+        if (row?.status === 'active') {
+            return {
+                identifierType: type,
+                identifier: value,
+                reason: row.reason,
+                returnedCount: row.returned_count,
+                totalCount: row.total_count,
+            };
+        }
+
+        const hit = await evaluateRtoHistory(orderData.shopDomain, type, value, settings, orderData.placedAt);
+        if (hit && recordBlock) {
+            const { error } = await supabase
+                .from('fraud_auto_blocks')
+                .upsert({
+                    shop_domain: orderData.shopDomain,
+                    identifier_type: hit.identifierType,
+                    identifier: hit.identifier,
+                    source: 'rto_history',
+                    reason: hit.reason,
+                    returned_count: hit.returnedCount,
+                    total_count: hit.totalCount,
+                    status: 'active',
+                }, { onConflict: 'shop_domain,identifier_type,identifier', ignoreDuplicates: true });
+            if (error) console.error('[FraudProtection] Failed to record auto-block:', error);
+        }
+        if (hit) return hit;
+    }
+
+    return null;
+}
+
+/**
+ * Apply the RTO rule's action. Returns a blocking result, or null when the
+ * order may proceed (no hit, or "force prepaid" and the order is prepaid).
+ * A monitored rule doesn't add auto-blocks, so switching monitoring off
+ * later doesn't block everyone it observed at once.
+ */
+async function applyRtoRule(
+    orderData: OrderValidationData,
+    settings: FraudProtectionSettings,
+    blockedMessage: string,
+    dryRun = false
+): Promise<FraudValidationResult | null> {
+    const monitored = (settings.monitor_rules || []).includes('rto_history');
+    const hit = await checkRtoHistory(orderData, settings, !dryRun && !monitored);
+    if (!hit) return null;
+
+    if (settings.rto_action === 'force_prepaid') {
+        if (orderData.paymentMethod === 'full_prepaid') return null;
+        if (!dryRun) console.warn(`[FraudProtection] Prepaid required for ${hit.identifierType} ${hit.identifier}: ${hit.reason}`);
+        return blockResult(PREPAID_REQUIRED_MESSAGE, 'rto_history');
+    }
+
+    if (!dryRun) console.warn(`[FraudProtection] RTO auto-block for ${hit.identifierType} ${hit.identifier}: ${hit.reason}`);
+    return blockResult(blockedMessage, 'rto_history');
+}
+
+/** The outcome a risk score reaches — each threshold is the minimum score for it. */
+export function decisionForScore(score: number, thresholds: FraudRiskThresholds): FraudDecision {
+    if (score >= thresholds.block) return 'block';
+    if (score >= thresholds.review) return 'review';
+    if (score >= thresholds.verify) return 'verify';
+    return 'allow';
+}
+
 /**
  * Original function — loads settings from DB internally.
  * Used by routes that don't pre-fetch fraud settings.
@@ -176,112 +753,500 @@ export async function validateOrderAgainstFraudRules(orderData: OrderValidationD
 /**
  * Optimized variant — accepts pre-loaded settings to avoid redundant DB call.
  * Use when fraud settings are already loaded (e.g. via Promise.all in proxy route).
+ * IP / device velocity isn't counted here — see recordVelocity.
  */
 export async function validateOrderAgainstFraudRulesWithSettings(
     orderData: OrderValidationData,
     settings: FraudProtectionSettings
 ): Promise<FraudValidationResult> {
+    const { result, monitored } = settings.risk_scoring_enabled
+        ? await scoreOrderRisk(orderData, settings)
+        : await checkRulesInOrder(orderData, settings);
+
+    // Fire-and-forget — logging must never delay or fail checkout
+    for (const hit of monitored) {
+        recordFraudEvent(orderData, hit, true).catch(() => {});
+    }
+    if (result.decision !== 'allow') {
+        recordFraudEvent(orderData, result).catch(() => {});
+    }
+
+    return result;
+}
+
+/**
+ * Risk decision for an order without recording anything (no fraud events,
+ * velocity counts or auto-blocks). Used to decide whether to ask for an OTP
+ * before the real check runs.
+ */
+export async function assessFraudDecision(
+    orderData: OrderValidationData,
+    settings: FraudProtectionSettings
+): Promise<FraudDecision> {
+    if (!settings.risk_scoring_enabled) return 'allow';
+    const { result } = await scoreOrderRisk(orderData, settings, true);
+    return result.decision;
+}
+
+/**
+ * Default mode — block on the first rule that matches. Rules in monitor
+ * mode are collected and evaluation carries on to the next rule.
+ */
+async function checkRulesInOrder(
+    orderData: OrderValidationData,
+    settings: FraudProtectionSettings,
+    dryRun = false
+): Promise<FraudEvaluation> {
     const blockedMessage = settings.blocked_message || 'Sorry, you are not allowed to place orders.';
+    const { monitored, enforce } = createRuleEnforcer(settings);
+    const stop = (result: FraudValidationResult): FraudEvaluation => ({ result, monitored });
 
-    // 1. Check allowed IP override first — if IP is in allow list, skip all blocks
-    if (orderData.ip && settings.allowed_ip_addresses?.length > 0) {
-        const isAllowed = settings.allowed_ip_addresses.some(
-            (ip: string) => ip.trim() === orderData.ip
-        );
-        if (isAllowed) {
-            return { allowed: true, message: '' };
-        }
+    // 1. Check allowed IP / customer override first — if in allow list, skip all blocks
+    if (isIpAllowed(orderData.ip, settings) || isCustomerAllowed(orderData, settings)) {
+        return stop(allowResult());
     }
 
     // 2. Check blocked IP addresses
-    if (orderData.ip && settings.blocked_ip_addresses?.length > 0) {
-        const isBlocked = settings.blocked_ip_addresses.some(
-            (ip: string) => ip.trim() === orderData.ip
-        );
-        if (isBlocked) {
-            return { allowed: false, message: blockedMessage };
-        }
+    if (isIpBlocked(orderData.ip, settings)) {
+        const result = enforce(blockResult(blockedMessage, 'blocked_ip'));
+        if (result) return stop(result);
     }
 
-    // 3. Check blocked phone numbers
-    if (orderData.phone && settings.blocked_phone_numbers?.length > 0) {
-        const normalizedInput = normalizePhone(orderData.phone);
-        const isBlocked = settings.blocked_phone_numbers.some(
-            (phone: string) => normalizePhone(phone) === normalizedInput
-        );
-        if (isBlocked) {
-            return { allowed: false, message: blockedMessage };
-        }
+    // 3. Check IP country restrictions
+    if (await getRestrictedIpCountry(orderData.ip, settings)) {
+        const result = enforce(blockResult(blockedMessage, 'ip_country'));
+        if (result) return stop(result);
     }
 
-    // 4. Check blocked emails
-    if (orderData.email && settings.blocked_emails?.length > 0) {
-        const normalizedInput = normalizeEmail(orderData.email);
-        const isBlocked = settings.blocked_emails.some(
-            (email: string) => normalizeEmail(email) === normalizedInput || normalizedInput.endsWith('@' + email.trim().toLowerCase())
-        );
-        if (isBlocked) {
-            return { allowed: false, message: blockedMessage };
-        }
+    // 4. Check blocked phone numbers
+    if (isPhoneBlocked(orderData.phone, settings)) {
+        const result = enforce(blockResult(blockedMessage, 'blocked_phone'));
+        if (result) return stop(result);
     }
 
-    // 5. Check postal code restrictions
-    if (orderData.zipcode && settings.postal_code_mode !== 'none' && settings.postal_codes?.length > 0) {
-        const normalizedZip = orderData.zipcode.trim().toUpperCase();
-        const matchFound = settings.postal_codes.some(
-            (code: string) => code.trim().toUpperCase() === normalizedZip
-        );
+    // 5. Check blocked emails
+    if (isEmailBlocked(orderData.email, settings)) {
+        const result = enforce(blockResult(blockedMessage, 'blocked_email'));
+        if (result) return stop(result);
+    }
 
-        if (settings.postal_code_mode === 'allow_only' && !matchFound) {
-            return { allowed: false, message: blockedMessage };
-        }
-        if (settings.postal_code_mode === 'block_only' && matchFound) {
-            return { allowed: false, message: blockedMessage };
-        }
+    // 6. Check email quality (disposable / role / typo domains)
+    const emailIssue = await findEmailIssue(orderData.email, settings);
+    if (emailIssue) {
+        const result = enforce(blockResult(emailIssue.message, emailIssue.rule));
+        if (result) return stop(result);
     }
 
-    // 6. Check quantity limit
-    if (settings.limit_quantity_enabled && settings.max_quantity && orderData.quantity) {
-        if (orderData.quantity > settings.max_quantity) {
-            return { allowed: false, message: `Maximum ${settings.max_quantity} items allowed per order.` };
-        }
+    // 7. Check postal code restrictions
+    if (isPostalCodeRestricted(orderData.zipcode, settings)) {
+        const result = enforce(blockResult(blockedMessage, 'postal_code'));
+        if (result) return stop(result);
+    }
+
+    // 8. Check quantity limit
+    if (exceedsQuantityLimit(orderData.quantity, settings)) {
+        const result = enforce(blockResult(`Maximum ${settings.max_quantity} items allowed per order.`, 'quantity_limit'));
+        if (result) return stop(result);
+    }
+
+    // 9. Check RTO history (requires DB query — only runs if enabled)
+    const rtoResult = await applyRtoRule(orderData, settings, blockedMessage, dryRun);
+    if (rtoResult) {
+        const result = enforce(rtoResult);
+        if (result) return stop(result);
     }
 
-    // 7. Check order frequency limit (requires DB query — only runs if enabled)
+    // 10. Check order frequency limit (requires DB query — only runs if enabled)
     if (settings.limit_orders_enabled && settings.max_orders && settings.limit_hours) {
-        const windowStart = new Date(Date.now() - settings.limit_hours * 60 * 60 * 1000).toISOString();
-
-        // Count recent orders from this phone or email
-        let recentCount = 0;
-
-        if (orderData.phone) {
-            const { count } = await supabase
-                .from('order_logs')
-                .select('*', { count: 'exact', head: true })
-                .eq('shop_domain', orderData.shopDomain)
-                .eq('customer_phone', orderData.phone)
-                .gte('created_at', windowStart);
-            recentCount = count || 0;
+        const recentCount = await countRecentOrders(orderData, settings);
+        if (recentCount >= settings.max_orders) {
+            const result = enforce(blockResult(blockedMessage, 'order_limit'));
+            if (result) return stop(result);
         }
+    }
 
-        // Also check by email if provided (take the higher count)
-        if (orderData.email && recentCount < settings.max_orders) {
-            const { count } = await supabase
-                .from('order_logs')
-                .select('*', { count: 'exact', head: true })
-                .eq('shop_domain', orderData.shopDomain)
-                .eq('customer_email', orderData.email)
-                .gte('created_at', windowStart);
-            recentCount = Math.max(recentCount, count || 0);
-        }
+    // 11. Check IP / device velocity (counter lookup — only runs if enabled)
+    const velocityHit = await findVelocityHit(orderData, settings);
+    if (velocityHit) {
+        const result = enforce(blockResult(blockedMessage, velocityHit.rule));
+        if (result) return stop(result);
+    }
 
-        if (recentCount >= settings.max_orders) {
-            return {
-                allowed: false,
-                message: blockedMessage,
+    return stop(allowResult());
+}
+
+/**
+ * Risk scoring mode — every rule that matches adds its weight to the score
+ * and the total is mapped to allow / verify / review / block via the
+ * configured thresholds. The allowed-IP override, the quantity limit, email
+ * typos and the RTO history rule still behave as hard rules.
+ */
+async function scoreOrderRisk(
+    orderData: OrderValidationData,
+    settings: FraudProtectionSettings,
+    dryRun = false
+): Promise<FraudEvaluation> {
+    const blockedMessage = settings.blocked_message || 'Sorry, you are not allowed to place orders.';
+    const weights: FraudRiskWeights = { ...DEFAULT_RISK_WEIGHTS, ...(settings.risk_weights || {}) };
+    const thresholds: FraudRiskThresholds = { ...DEFAULT_RISK_THRESHOLDS, ...(settings.risk_thresholds || {}) };
+    const { monitored, enforce } = createRuleEnforcer(settings);
+    const stop = (result: FraudValidationResult): FraudEvaluation => ({ result, monitored });
+
+    if (isIpAllowed(orderData.ip, settings) || isCustomerAllowed(orderData, settings)) {
+        return stop(allowResult());
+    }
+
+    if (exceedsQuantityLimit(orderData.quantity, settings)) {
+        const result = enforce(blockResult(`Maximum ${settings.max_quantity} items allowed per order.`, 'quantity_limit'));
+        if (result) return stop(result);
+    }
+
+    // A mistyped or undeliverable email is something the customer can fix — keep it a hard rule
+    const emailIssue = await findEmailIssue(orderData.email, settings);
+    if (emailIssue?.rule === 'email_domain') {
+        const result = enforce(blockResult(emailIssue.message, emailIssue.rule));
+        if (result) return stop(result);
+    }
+
+    const rtoResult = await applyRtoRule(orderData, settings, blockedMessage, dryRun);
+    if (rtoResult) {
+        const result = enforce(rtoResult);
+        if (result) return stop(result);
+    }
+
+    const signals: FraudSignal[] = [];
+    const addSignal = (key: FraudSignalKey, detail: string, multiplier = 1) => {
+        const weight = (Number(weights[key]) || 0) * multiplier;
+        if (weight > 0) signals.push({ key, weight, detail });
+    };
+
+    if (isIpBlocked(orderData.ip, settings)) {
+        addSignal('blocked_ip', `IP ${orderData.ip} is on the block list`);
+    }
+    if (isPhoneBlocked(orderData.phone, settings)) {
+        addSignal('blocked_phone', `Phone ${orderData.phone} is on the block list`);
+    }
+    if (isEmailBlocked(orderData.email, settings)) {
+        addSignal('blocked_email', `Email ${orderData.email} is on the block list`);
+    }
+    if (emailIssue && emailIssue.rule !== 'email_domain') {
+        addSignal('email_quality', emailIssue.detail);
+    }
+    if (isPostalCodeRestricted(orderData.zipcode, settings)) {
+        addSignal('postal_code', `Postal code ${orderData.zipcode} is restricted`);
+    }
+    if (orderData.address !== undefined) {
+        const addressIssue = assessAddressQuality(orderData.address);
+        if (addressIssue) addSignal('address_quality', addressIssue);
+    }
+
+    // DB-backed signals — only query when the signal can contribute
+    const checkVelocity = !!(settings.limit_orders_enabled && settings.max_orders && settings.limit_hours && weights.velocity > 0);
+    const checkReturns = !!(orderData.phone && weights.return_history > 0);
+
+    const [recentCount, returnedCount, restrictedCountry, velocityHit] = await Promise.all([
+        checkVelocity ? countRecentOrders(orderData, settings) : Promise.resolve(0),
+        checkReturns ? countReturnedOrders(orderData) : Promise.resolve(0),
+        weights.ip_country > 0 ? getRestrictedIpCountry(orderData.ip, settings) : Promise.resolve(null),
+        weights.velocity > 0 ? findVelocityHit(orderData, settings) : Promise.resolve(null),
+    ]);
+
+    if (restrictedCountry) {
+        addSignal('ip_country', `IP resolves to restricted country ${restrictedCountry}`);
+    }
+
+    if (checkVelocity && settings.max_orders && recentCount >= settings.max_orders) {
+        addSignal('velocity', `${recentCount} orders in the last ${settings.limit_hours}h`);
+    } else if (velocityHit) {
+        addSignal('velocity', velocityHit.detail);
+    }
+    if (returnedCount > 0) {
+        addSignal('return_history', `${returnedCount} previous returned/cancelled order(s)`, Math.min(returnedCount, 3));
+    }
+
+    const score = signals.reduce((sum, signal) => sum + signal.weight, 0);
+    const decision = decisionForScore(score, thresholds);
+
+    const scored: FraudValidationResult = {
+        allowed: decision !== 'block',
+        message: decision === 'block' ? blockedMessage : '',
+        decision,
+        rule: decision === 'allow' ? null : 'risk_score',
+        score,
+        signals,
+    };
+    if (decision === 'allow' || enforce(scored)) return stop(scored);
+
+    // Monitored — keep the score on the order log but let it through
+    return stop({ ...scored, allowed: true, message: '', decision: 'allow', rule: null });
+}
+
+// =============================================
+// DRY RUN SIMULATOR
+// =============================================
+
+export const MAX_SIMULATION_ORDERS = 500;
+
+// Orders are replayed a few at a time — each one can run several history queries
+const SIMULATION_BATCH_SIZE = 10;
+
+/**
+ * Replay the shop's most recent orders against draft (unsaved) settings.
+ * Nothing is written: no fraud events, no auto-blocks.
+ *
+ * order_logs doesn't keep the customer's IP, so IP and IP-country rules
+ * can't match during a replay.
+ */
+export async function simulateFraudRules(
+    shopDomain: string,
+    draftSettings: FraudProtectionSettings,
+    limit: number
+): Promise<FraudSimulationResult> {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .select('customer_phone, customer_email, customer_address, pincode, quantity, payment_method, original_total, order_source, created_at')
+        .order('created_at', { ascending: false })
+        .limit(Math.min(Math.max(limit, 1), MAX_SIMULATION_ORDERS));
+
+    if (error) {
+        console.error('[FraudProtection] Simulation order fetch error:', error);
+        throw error;
+    }
+
+    // Monitor every rule so each match is reported, not just the first one
+    const replaySettings: FraudProtectionSettings = {
+        ...draftSettings,
+        shop_domain: shopDomain,
+        monitor_rules: Object.keys(FRAUD_RULE_LABELS) as FraudRuleKey[],
+    };
+    const draftMonitorRules = draftSettings.monitor_rules || [];
+
+    const simulation: FraudSimulationResult = {
+        orders_replayed: 0,
+        orders_blocked: 0,
+        orders_flagged: 0,
+        rule_counts: {},
+    };
+
+    const rows = data || [];
+    for (let i = 0; i < rows.length; i += SIMULATION_BATCH_SIZE) {
+        const batch = rows.slice(i, i + SIMULATION_BATCH_SIZE);
+        const evaluations = await Promise.all(batch.map((row: any) => {
+            const orderData: OrderValidationData = {
+                phone: row.customer_phone || undefined,
+                email: row.customer_email || undefined,
+                zipcode: row.pincode || undefined,
+                address: row.customer_address ?? undefined,
+                quantity: row.quantity || undefined,
+                paymentMethod: row.payment_method || undefined,
+                cartValue: row.original_total ?? undefined,
+                orderSource: row.order_source || undefined,
+                placedAt: row.created_at,
+                shopDomain,
             };
+            return replaySettings.risk_scoring_enabled
+                ? scoreOrderRisk(orderData, replaySettings, true)
+                : checkRulesInOrder(orderData, replaySettings, true);
+        }));
+
+        for (const { monitored } of evaluations) {
+            simulation.orders_replayed++;
+            for (const hit of monitored) {
+                if (!hit.rule) continue;
+                simulation.rule_counts[hit.rule] = (simulation.rule_counts[hit.rule] || 0) + 1;
+            }
+
+            // The outcome under the draft is the first match it would enforce
+            const enforced = monitored.find(hit => hit.rule && !draftMonitorRules.includes(hit.rule));
+            if (enforced?.decision === 'block') simulation.orders_blocked++;
+            else if (enforced) simulation.orders_flagged++;
         }
     }
 
-    return { allowed: true, message: '' };
+    return simulation;
+}
+
+// =============================================
+// FRAUD EVENT LOG
+// =============================================
+
+export interface FraudEventFilters {
+    rule?: string;
+    decision?: string;
+    search?: string;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * Record a blocked or flagged attempt. Never throws.
+ */
+async function recordFraudEvent(
+    orderData: OrderValidationData,
+    result: FraudValidationResult,
+    monitored = false
+): Promise<void> {
+    try {
+        const { error } = await supabase.from('fraud_events').insert({
+            shop_domain: orderData.shopDomain,
+            rule: result.rule,
+            decision: result.decision,
+            message: result.message || null,
+            phone: orderData.phone ? normalizePhone(orderData.phone) : null,
+            email: orderData.email ? normalizeEmail(orderData.email) : null,
+            ip: orderData.ip && orderData.ip !== 'unknown' ? orderData.ip : null,
+            pincode: orderData.zipcode ? orderData.zipcode.trim().toUpperCase() : null,
+            cart_value: orderData.cartValue ?? null,
+            order_source: orderData.orderSource || null,
+            payment_method: orderData.paymentMethod || null,
+            score: result.score,
+            signals: result.signals,
+            monitored,
+        });
+        if (error) console.error('[FraudProtection] Failed to record fraud event:', error);
+    } catch (error) {
+        console.error('[FraudProtection] Failed to record fraud event:', error);
+    }
+}
+
+export async function getFraudEvents(
+    shopDomain: string,
+    filters: FraudEventFilters = {}
+): Promise<{ events: FraudEvent[]; total: number }> {
+    const limit = filters.limit || 25;
+    const offset = filters.offset || 0;
+
+    let query = supabase
+        .from('fraud_events')
+        .select('*', { count: 'exact' })
+        .eq('shop_domain', shopDomain);
+
+    if (filters.rule) query = query.eq('rule', filters.rule);
+    if (filters.decision) query = query.eq('decision', filters.decision);
+    if (filters.search) {
+        // Strip characters that would break the PostgREST or() filter syntax
+        const term = filters.search.trim().replace(/[,()*%]/g, '');
+        if (term) query = query.or(`phone.ilike.%${term}%,email.ilike.%${term}%,ip.ilike.%${term}%,pincode.ilike.%${term}%`);
+    }
+
+    const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+    if (error) {
+        console.error('[FraudProtection] Fraud event fetch error:', error);
+        return { events: [], total: 0 };
+    }
+    return { events: (data || []) as FraudEvent[], total: count || 0 };
+}
+
+async function getFraudEvent(shopDomain: string, id: string): Promise<FraudEvent> {
+    const { data, error } = await supabase
+        .from('fraud_events')
+        .select('*')
+        .eq('id', id)
+        .eq('shop_domain', shopDomain)
+        .single();
+    if (error || !data) throw new Error('Fraud event not found');
+    return data as FraudEvent;
+}
+
+function appendUnique(list: string[] | undefined, value: string | null): string[] {
+    const current = list || [];
+    if (!value || current.some((entry) => entry.trim().toLowerCase() === value.toLowerCase())) return current;
+    return [...current, value];
+}
+
+export interface CustomerIdentifiers {
+    phone?: string | null;
+    email?: string | null;
+    ip?: string | null;
+}
+
+/**
+ * Add a customer to the block lists. Phone and email are preferred; the IP
+ * is only blocked when neither is known.
+ */
+export async function blockCustomer(shopDomain: string, customer: CustomerIdentifiers): Promise<void> {
+    const settings = await getFraudProtectionSettings(shopDomain);
+    const phone = customer.phone ? normalizePhone(customer.phone) : null;
+    const email = customer.email ? normalizeEmail(customer.email) : null;
+    const ip = customer.ip && customer.ip !== 'unknown' ? customer.ip : null;
+
+    await saveFraudProtectionSettings({
+        ...settings,
+        blocked_phone_numbers: appendUnique(settings.blocked_phone_numbers, phone),
+        blocked_emails: appendUnique(settings.blocked_emails, email),
+        blocked_ip_addresses: phone || email
+            ? settings.blocked_ip_addresses
+            : appendUnique(settings.blocked_ip_addresses, ip),
+    });
+}
+
+export type CustomerBlockStatus =
+    | { blocked: false }
+    | { blocked: true; source: 'block_list' | 'rto_history'; reason: string | null };
+
+/**
+ * Checker for whether a customer is on the block lists or has an active
+ * automatic block. Settings and auto-blocks are loaded once, so checking a
+ * page of customers costs two queries.
+ */
+export async function getCustomerBlockChecker(shopDomain: string): Promise<(customer: CustomerIdentifiers) => CustomerBlockStatus> {
+    const [settings, autoBlocks] = await Promise.all([
+        getFraudProtectionSettings(shopDomain),
+        getFraudAutoBlocks(shopDomain),
+    ]);
+
+    return (customer) => {
+        const phone = customer.phone || undefined;
+        const email = customer.email || undefined;
+        if (isPhoneBlocked(phone, settings) || isEmailBlocked(email, settings)) {
+            return { blocked: true, source: 'block_list', reason: null };
+        }
+        const autoBlock = autoBlocks.find((block) =>
+            block.identifier_type === 'phone'
+                ? !!phone && phonesMatch(block.identifier, phone)
+                : !!email && normalizeEmail(block.identifier) === normalizeEmail(email)
+        );
+        return autoBlock ? { blocked: true, source: 'rto_history', reason: autoBlock.reason } : { blocked: false };
+    };
+}
+
+/**
+ * Add the customer from a fraud event to the block lists.
+ */
+export async function blockCustomerFromEvent(shopDomain: string, eventId: string): Promise<void> {
+    const event = await getFraudEvent(shopDomain, eventId);
+    await blockCustomer(shopDomain, event);
+}
+
+/**
+ * Let the customer from a fraud event skip all checks: adds their phone/email
+ * to the allow lists and lifts any automatic block on them.
+ */
+export async function allowCustomerFromEvent(shopDomain: string, eventId: string): Promise<void> {
+    const [event, settings] = await Promise.all([
+        getFraudEvent(shopDomain, eventId),
+        getFraudProtectionSettings(shopDomain),
+    ]);
+
+    await saveFraudProtectionSettings({
+        ...settings,
+        allowed_phone_numbers: appendUnique(settings.allowed_phone_numbers, event.phone),
+        allowed_emails: appendUnique(settings.allowed_emails, event.email),
+        allowed_ip_addresses: event.phone || event.email
+            ? settings.allowed_ip_addresses
+            : appendUnique(settings.allowed_ip_addresses, event.ip),
+    });
+
+    // Older phone auto-blocks hold the number as typed, so compare normalized forms
+    const autoBlocks = await getFraudAutoBlocks(shopDomain);
+    const matching = autoBlocks.filter((block) =>
+        block.identifier_type === 'phone'
+            ? !!event.phone && phonesMatch(block.identifier, event.phone)
+            : !!event.email && normalizeEmail(block.identifier) === event.email
+    );
+    for (const block of matching) {
+        await unblockFraudAutoBlock(shopDomain, block.id);
+    }
 }
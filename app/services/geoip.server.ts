@@ -0,0 +1,34 @@
+/**
+ * GeoIP Service
+ * Resolves a request IP to an ISO 3166-1 alpha-2 country code using the
+ * offline database bundled with geoip-country — no network calls.
+ */
+
+type GeoipModule = typeof import('geoip-country');
+
+// The database is loaded into memory on first import, so only pay for it
+// when a shop actually has country rules configured.
+let geoipModule: GeoipModule | null = null;
+
+async function loadGeoip(): Promise<GeoipModule> {
+    if (!geoipModule) {
+        geoipModule = await import('geoip-country');
+    }
+    return geoipModule;
+}
+
+/**
+ * Look up the country for an IP. Returns null for private, local or unknown
+ * addresses (and on lookup errors) so callers can fail open.
+ */
+export async function lookupIpCountry(ip: string | undefined): Promise<string | null> {
+    if (!ip || ip === 'unknown') return null;
+
+    try {
+        const geoip = await loadGeoip();
+        return geoip.lookup(ip.trim())?.country || null;
+    } catch (error) {
+        console.error('[GeoIP] Lookup failed:', error);
+        return null;
+    }
+}
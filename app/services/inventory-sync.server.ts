@@ -422,7 +422,12 @@ export async function refundInventory(shop: string, orderId: string, refundedIte
   }
 }
 
-export async function editInventory(shop: string, orderId: string, newItems: Array<{variantId: string, quantity: number, inventoryItemId: string}>) {
+/**
+ * Bring reservations in line with the order's current line items.
+ * `editVersion` (the order's updatedAt after an edit) makes each edit its
+ * own idempotent event; without it only the first call per order applies.
+ */
+export async function editInventory(shop: string, orderId: string, newItems: Array<{variantId: string, quantity: number, inventoryItemId: string}>, editVersion?: string) {
   try {
     const { admin } = await unauthenticated.admin(shop);
     const graphql = admin.graphql;
@@ -437,7 +442,8 @@ export async function editInventory(shop: string, orderId: string, newItems: Arr
 
     // Check idempotency for edit (sum of all new item quantities)
     const totalNewQty = newItems.reduce((acc, i) => acc + i.quantity, 0);
-    const isEdit = await tryReserveInventoryEvent(shop, orderId, 'all_items', 'edit', totalNewQty);
+    const editKey = editVersion ? `all_items@${editVersion}` : 'all_items';
+    const isEdit = await tryReserveInventoryEvent(shop, orderId, editKey, 'edit', totalNewQty);
     if (!isEdit) return;
 
     const resByVariant = reservations.reduce((acc: any, res: any) => {
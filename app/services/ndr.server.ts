@@ -0,0 +1,592 @@
+/**
+ * NDR Service
+ * Handles failed deliveries (NDR — non-delivery report). When the courier
+ * reports a failed attempt, services/delivery-status opens a case in
+ * order_ndrs with the reason read from the courier's wording; further failed
+ * attempts on the same shipment add to the open case.
+ *
+ * Cases are worked from the NDR queue (/app/orders/ndr): ask the courier to
+ * reattempt, reattempt at a corrected address, or return the parcel (RTO).
+ * With failed delivery messages on in the SMS & WhatsApp integration the
+ * customer is messaged as well, and their "1" / "2" reply takes the same
+ * action.
+ *
+ * The delivery outcome closes the case as delivered or RTO — the NDR-to-RTO
+ * numbers on the analytics page come from those outcomes.
+ * order_logs.ndr_status mirrors the order's latest case for the queue.
+ */
+import { getIntegrationSettings, orderLogsForShop, recordOrderEvent, supabase } from '../config/supabase.server';
+import { NDR_REASONS, type NdrReason, type NdrStatus } from '../config/constants';
+import type { ConfirmationLanguage, SmsWhatsappConfig } from '../config/integrations.types';
+import { normalizePhoneNumber } from '../utils/phone';
+import { getCourierProvider } from './courier/courier-provider.server';
+import { parseConfirmationReply } from './order-confirmation.server';
+import { updateShopifyShippingAddress } from './shopify-graphql-orders.server';
+import { createSmsProvider, SMS_INTEGRATION_ID, type SmsInboundMessage } from './sms/sms-provider.server';
+
+export type NdrAction = 'reattempt' | 'rto' | 'update_address';
+
+export type NdrOutcome = 'delivered' | 'rto';
+
+export type NdrQueueView = 'open' | 'in_progress' | 'closed';
+
+export interface NdrCase {
+    id: string;
+    order_log_id: string;
+    awb_number: string | null;
+    status: NdrStatus;
+    reason: NdrReason;
+    reason_text: string | null;
+    attempts: number;
+    last_attempt_at: string;
+    last_action: NdrAction | null;
+    last_action_at: string | null;
+    last_action_by: string | null;
+    action_note: string | null;
+    outreach_status: 'sent' | 'failed' | 'replied' | null;
+    outreach_sent_at: string | null;
+    customer_response: 'reattempt' | 'rto' | null;
+    outcome: NdrOutcome | null;
+    resolved_at: string | null;
+    created_at: string;
+}
+
+export interface NdrActionInput {
+    action: NdrAction;
+    /** Required for update_address */
+    address?: { address: string; city: string; state: string; pincode: string };
+    phone?: string;
+    note?: string;
+}
+
+export interface NdrActionResult {
+    success: boolean;
+    warning?: string;
+    error?: string;
+}
+
+export interface NdrStats {
+    total: number;
+    open: number;
+    delivered: number;
+    rto: number;
+    /** Share of closed cases that ended in RTO, 0–100 */
+    rtoRate: number;
+    byReason: { reason: NdrReason; label: string; total: number; delivered: number; rto: number }[];
+}
+
+const NDR_ORDER_COLUMNS = 'id, shopify_order_id, shopify_order_name, customer_name, customer_phone, customer_address, city, state, pincode, order_payload, total_price, final_total, payment_method, remaining_cod_amount, status, courier_provider, courier_name, awb_number, courier_shipment_id, tracking_url, shipment_status, shipment_status_text, ndr_status';
+
+const NDR_QUEUE_LIMIT = 100;
+
+const IN_PROGRESS_STATUSES: NdrStatus[] = ['reattempt_requested', 'rto_requested'];
+
+const ACTION_LABELS: Record<NdrAction, string> = {
+    reattempt: 'Reattempt requested',
+    rto: 'Return to origin requested',
+    update_address: 'Reattempt requested at an updated address',
+};
+
+interface NdrMessageVars {
+    name: string;
+    order: string;
+    courier: string;
+}
+
+const NDR_MESSAGES: Record<ConfirmationLanguage, (v: NdrMessageVars) => string> = {
+    en: (v) => `Hi ${v.name}, ${v.courier} couldn't deliver your order ${v.order}. Reply 1 to have it delivered again, or 2 if you no longer want it.`,
+    hi: (v) => `नमस्ते ${v.name}, ${v.courier} आपका ऑर्डर ${v.order} डिलीवर नहीं कर सका। दोबारा डिलीवरी के लिए 1 भेजें, या अगर आपको यह नहीं चाहिए तो 2 भेजें।`,
+    ar: (v) => `مرحباً ${v.name}، لم تتمكن ${v.courier} من توصيل طلبك ${v.order}. أرسل 1 لإعادة محاولة التوصيل، أو 2 إذا لم تعد ترغب فيه.`,
+    es: (v) => `Hola ${v.name}, ${v.courier} no pudo entregar tu pedido ${v.order}. Responde 1 para intentarlo de nuevo, o 2 si ya no lo quieres.`,
+    fr: (v) => `Bonjour ${v.name}, ${v.courier} n'a pas pu livrer votre commande ${v.order}. Répondez 1 pour une nouvelle tentative, ou 2 si vous n'en voulez plus.`,
+};
+
+/**
+ * Read the failure reason from the courier's wording. Order matters:
+ * "Customer refused, not available to pay" is a refusal.
+ */
+export function classifyNdrReason(text: string | null | undefined): NdrReason {
+    const reason = String(text || '').toLowerCase();
+    if (/refus|reject|not interested|doesn'?t want|does not want|cancel/.test(reason)) return 'refused';
+    if (/cash|\bcod\b|money|payment/.test(reason)) return 'cod_not_ready';
+    if (/reschedul|future delivery|deliver later|postpone|another day|next day/.test(reason)) return 'rescheduled';
+    if (/address|incomplete|untraceable|wrong|landmark|not serviceable|odc/.test(reason)) return 'wrong_address';
+    if (/unreachable|not reachable|not answering|no response|switched off|phone|call/.test(reason)) return 'unreachable';
+    if (/not available|unavailable|not at home|door locked|premises closed|closed|nobody|no one|out of station|consignee not/.test(reason)) return 'customer_unavailable';
+    return 'other';
+}
+
+async function getOpenCase(shopDomain: string, orderLogId: string): Promise<NdrCase | null> {
+    const { data, error } = await supabase
+        .from('order_ndrs')
+        .select('*')
+        .eq('shop_domain', shopDomain)
+        .eq('order_log_id', orderLogId)
+        .is('resolved_at', null)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[NDR] Error loading open case:', error);
+        throw error;
+    }
+    return data as NdrCase | null;
+}
+
+async function loadOrder(shopDomain: string, orderId: string) {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .select(NDR_ORDER_COLUMNS)
+        .eq('id', orderId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[NDR] Error loading order:', error);
+        throw error;
+    }
+    return data as any;
+}
+
+async function setOrderNdrStatus(shopDomain: string, orderLogId: string, status: NdrStatus) {
+    const { error } = await orderLogsForShop(shopDomain)
+        .update({ ndr_status: status })
+        .eq('id', orderLogId);
+    if (error) {
+        console.error('[NDR] Error updating order NDR status:', error);
+    }
+}
+
+async function getNdrOutreachConfig(shopDomain: string): Promise<SmsWhatsappConfig | null> {
+    const settings = await getIntegrationSettings(shopDomain, SMS_INTEGRATION_ID).catch(() => null);
+    if (!settings?.connected || !settings.enabled) return null;
+    const config = settings.config as unknown as SmsWhatsappConfig;
+    return config.ndr_outreach_enabled ? config : null;
+}
+
+/**
+ * Message the customer about a failed delivery, once per case.
+ */
+async function sendNdrOutreach(shopDomain: string, order: any, ndr: NdrCase): Promise<void> {
+    const config = await getNdrOutreachConfig(shopDomain);
+    if (!config) return;
+
+    const provider = createSmsProvider(config);
+    if (!provider) {
+        console.error(`[NDR] ${shopDomain} has failed delivery messages on but no usable SMS provider`);
+        return;
+    }
+
+    const phone = normalizePhoneNumber(order.customer_phone || '', order.order_payload?.country);
+    if (!phone) {
+        console.log(`[NDR] Order ${order.shopify_order_name || order.id} has no usable phone number, skipping outreach`);
+        return;
+    }
+
+    const language = config.confirmation_language && config.confirmation_language !== 'auto' ? config.confirmation_language : 'en';
+    const name = String(order.customer_name || '').trim();
+    const vars: NdrMessageVars = {
+        name: name.split(' ')[0] || name,
+        order: order.shopify_order_name || `#${String(order.id).slice(0, 8)}`,
+        courier: order.courier_name || 'The courier',
+    };
+    const sent = await provider.send({
+        to: phone,
+        template: 'ndr',
+        body: NDR_MESSAGES[language](vars),
+        templateValues: [vars.name, vars.order, vars.courier],
+        language,
+    });
+
+    await supabase
+        .from('order_ndrs')
+        .update({ outreach_status: sent.success ? 'sent' : 'failed', outreach_phone: phone, outreach_sent_at: new Date().toISOString() })
+        .eq('id', ndr.id);
+
+    if (!sent.success) {
+        console.error(`[NDR] ${provider.id} send failed for ${vars.order}:`, sent.error);
+    }
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: String(order.id),
+        shopifyOrderId: order.shopify_order_id,
+        type: 'message_sent',
+        message: sent.success
+            ? `Failed delivery message sent to ${phone} via ${provider.id}`
+            : `Failed delivery message to ${phone} failed via ${provider.id}: ${sent.error || 'unknown error'}`,
+        details: { provider: provider.id, language, success: sent.success, message_id: sent.messageId || null, ndr_id: ndr.id },
+        actor: 'system',
+    });
+}
+
+/**
+ * Open an NDR case for a failed delivery attempt, or add the attempt to the
+ * order's open case. Called by services/delivery-status when a shipment
+ * moves to 'undelivered'. Never throws.
+ */
+export async function raiseNdr(
+    shopDomain: string,
+    orderLogId: string,
+    failure: { statusText?: string | null; occurredAt?: string | null }
+): Promise<void> {
+    try {
+        const order = await loadOrder(shopDomain, orderLogId);
+        if (!order) return;
+
+        const reason = classifyNdrReason(failure.statusText);
+        const reasonText = failure.statusText?.trim().slice(0, 500) || null;
+        const attemptAt = failure.occurredAt || new Date().toISOString();
+        const existing = await getOpenCase(shopDomain, orderLogId);
+
+        // A failed attempt after a return was requested doesn't reopen the case
+        const status: NdrStatus = existing?.status === 'rto_requested' ? 'rto_requested' : 'open';
+        const { data, error } = existing
+            ? await supabase
+                .from('order_ndrs')
+                .update({
+                    status,
+                    reason,
+                    reason_text: reasonText,
+                    attempts: existing.attempts + 1,
+                    last_attempt_at: attemptAt,
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', existing.id)
+                .select('*')
+                .single()
+            : await supabase
+                .from('order_ndrs')
+                .insert({
+                    shop_domain: shopDomain,
+                    order_log_id: orderLogId,
+                    awb_number: order.awb_number,
+                    status,
+                    reason,
+                    reason_text: reasonText,
+                    last_attempt_at: attemptAt,
+                })
+                .select('*')
+                .single();
+
+        if (error || !data) {
+            // 23505: a concurrent update opened the case first
+            if (error?.code !== '23505') console.error('[NDR] Error saving case:', error);
+            return;
+        }
+        const ndr = data as NdrCase;
+
+        await setOrderNdrStatus(shopDomain, orderLogId, status);
+        await recordOrderEvent({
+            shopDomain,
+            orderLogId,
+            shopifyOrderId: order.shopify_order_id,
+            type: 'ndr',
+            message: `Delivery attempt ${ndr.attempts} failed — ${NDR_REASONS[reason]}${reasonText ? ` ("${reasonText}")` : ''}`,
+            details: { ndr_id: ndr.id, reason, reason_text: reasonText, attempts: ndr.attempts, awb: order.awb_number },
+            actor: 'courier',
+        });
+
+        if (!ndr.outreach_sent_at) {
+            await sendNdrOutreach(shopDomain, order, ndr);
+        }
+    } catch (error) {
+        console.error('[NDR] Error raising NDR:', error);
+    }
+}
+
+/**
+ * Close the order's open case with the delivery outcome. Called by
+ * services/delivery-status on delivered / RTO. Never throws.
+ */
+export async function resolveNdr(shopDomain: string, orderLogId: string, outcome: NdrOutcome): Promise<void> {
+    try {
+        const ndr = await getOpenCase(shopDomain, orderLogId);
+        if (!ndr) return;
+
+        const status: NdrStatus = outcome === 'rto' ? 'returned' : 'delivered';
+        const { data, error } = await supabase
+            .from('order_ndrs')
+            .update({ status, outcome, resolved_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+            .eq('id', ndr.id)
+            .is('resolved_at', null)
+            .select('id')
+            .maybeSingle();
+
+        if (error) {
+            console.error('[NDR] Error closing case:', error);
+            return;
+        }
+        if (!data) return;
+
+        await setOrderNdrStatus(shopDomain, orderLogId, status);
+        await recordOrderEvent({
+            shopDomain,
+            orderLogId,
+            type: 'ndr',
+            message: `Failed delivery closed — ${outcome === 'rto' ? 'returned to origin' : 'delivered'} after ${ndr.attempts} failed ${ndr.attempts === 1 ? 'attempt' : 'attempts'}`,
+            details: { ndr_id: ndr.id, outcome, reason: ndr.reason, attempts: ndr.attempts, last_action: ndr.last_action },
+            actor: 'system',
+        });
+    } catch (error) {
+        console.error('[NDR] Error resolving NDR:', error);
+    }
+}
+
+/**
+ * Ask the courier to reattempt (optionally at a corrected address) or
+ * return the shipment, and record the decision on the case. Once a return
+ * is requested the case only closes.
+ */
+export async function takeNdrAction(
+    shopDomain: string,
+    orderId: string,
+    input: NdrActionInput,
+    actor = 'merchant'
+): Promise<NdrActionResult> {
+    const order = await loadOrder(shopDomain, orderId);
+    if (!order) return { success: false, error: 'Order not found' };
+
+    const ndr = await getOpenCase(shopDomain, orderId);
+    if (!ndr) return { success: false, error: 'This order has no open failed delivery' };
+    if (ndr.status === 'rto_requested') return { success: false, error: 'A return to origin was already requested' };
+    if (!order.awb_number) return { success: false, error: 'No shipment booked' };
+
+    const courier = await getCourierProvider(shopDomain);
+    if (!courier || courier.provider.id !== order.courier_provider) {
+        return { success: false, error: `Update this shipment in your ${order.courier_name || 'courier'} panel — it was booked with a courier that is no longer connected` };
+    }
+
+    let address: NdrActionInput['address'];
+    let phone: string | undefined;
+    if (input.action === 'update_address') {
+        address = {
+            address: String(input.address?.address || '').trim().slice(0, 255),
+            city: String(input.address?.city || '').trim().slice(0, 100),
+            state: String(input.address?.state || '').trim().slice(0, 100),
+            pincode: String(input.address?.pincode || '').trim().slice(0, 20),
+        };
+        if (!address.address || !address.city || !address.pincode) {
+            return { success: false, error: 'Address, city and pincode are required' };
+        }
+        const rawPhone = input.phone?.trim();
+        if (rawPhone) {
+            phone = normalizePhoneNumber(rawPhone, order.order_payload?.country) || rawPhone;
+        }
+    }
+    const note = input.note?.trim().slice(0, 500) || undefined;
+
+    const submitted = await courier.provider.submitNdrAction(
+        { awb: order.awb_number, shipmentId: order.courier_shipment_id },
+        { action: input.action === 'rto' ? 'rto' : 'reattempt', address, phone, note }
+    );
+    if (!submitted.success) {
+        console.error(`[NDR] ${courier.provider.id} rejected ${input.action} for order ${orderId}:`, submitted.error);
+        return { success: false, error: submitted.error || `${courier.provider.name} rejected the request` };
+    }
+
+    let warning: string | undefined;
+    if (address) {
+        const { error } = await orderLogsForShop(shopDomain)
+            .update({
+                customer_address: address.address,
+                city: address.city,
+                state: address.state || order.state,
+                pincode: address.pincode,
+                ...(phone ? { customer_phone: phone } : {}),
+            })
+            .eq('id', orderId);
+        if (error) {
+            console.error('[NDR] Error saving updated address:', error);
+        }
+
+        if (order.shopify_order_id) {
+            const result = await updateShopifyShippingAddress(shopDomain, String(order.shopify_order_id), {
+                address1: address.address,
+                city: address.city,
+                zip: address.pincode,
+                province: address.state || undefined,
+            }).catch((err) => ({ success: false, error: err?.message }));
+            if (!result.success) {
+                warning = `Reattempt requested, but the Shopify order address couldn't be updated: ${result.error || 'unknown error'}`;
+            }
+        }
+    }
+
+    const status: NdrStatus = input.action === 'rto' ? 'rto_requested' : 'reattempt_requested';
+    const { error } = await supabase
+        .from('order_ndrs')
+        .update({
+            status,
+            last_action: input.action,
+            last_action_at: new Date().toISOString(),
+            last_action_by: actor,
+            action_note: note || null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', ndr.id);
+    if (error) {
+        console.error('[NDR] Error saving action:', error);
+        return { success: false, error: `${courier.provider.name} accepted the request, but it could not be saved — reload` };
+    }
+    await setOrderNdrStatus(shopDomain, orderId, status);
+
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: orderId,
+        shopifyOrderId: order.shopify_order_id,
+        type: 'ndr',
+        message: `${ACTION_LABELS[input.action]} with ${order.courier_name || courier.provider.name}`
+            + (address ? ` (${[address.address, address.city, address.pincode].join(', ')})` : '')
+            + (note ? ` — ${note}` : ''),
+        details: { ndr_id: ndr.id, action: input.action, address: address || null, phone: phone || null, note: note || null },
+        actor,
+    });
+
+    return { success: true, warning };
+}
+
+/**
+ * Apply a customer's reply to the failed delivery message: 1 asks for
+ * another attempt, 2 returns the parcel. Returns false when the reply isn't
+ * for an open case, so it can be read as an order confirmation reply.
+ */
+export async function handleNdrReply(shopDomain: string, inbound: SmsInboundMessage): Promise<boolean> {
+    const reply = parseConfirmationReply(inbound.text);
+    if (!reply) return false;
+
+    const { data } = await supabase
+        .from('order_ndrs')
+        .select('*')
+        .eq('shop_domain', shopDomain)
+        .eq('outreach_phone', inbound.from)
+        .eq('outreach_status', 'sent')
+        .eq('status', 'open')
+        .is('resolved_at', null)
+        .order('outreach_sent_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    const ndr = data as NdrCase | null;
+    if (!ndr) return false;
+
+    const action = reply === 'confirm' ? 'reattempt' : 'rto';
+    await supabase
+        .from('order_ndrs')
+        .update({ outreach_status: 'replied', customer_response: action, updated_at: new Date().toISOString() })
+        .eq('id', ndr.id);
+
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: ndr.order_log_id,
+        type: 'message_received',
+        message: `Customer replied "${inbound.text.trim().slice(0, 100)}" to the failed delivery message (${action === 'rto' ? 'return it' : 'deliver again'})`,
+        details: { from: inbound.from, text: inbound.text.slice(0, 500), ndr_id: ndr.id, decision: action },
+        actor: 'customer',
+    });
+
+    const result = await takeNdrAction(shopDomain, ndr.order_log_id, {
+        action,
+        note: action === 'rto' ? 'Customer no longer wants the order' : 'Customer asked for another delivery attempt',
+    }, 'customer');
+    if (!result.success) {
+        // The reply stays on the case; the merchant finishes it from the queue
+        console.error(`[NDR] Could not apply customer reply for order ${ndr.order_log_id}:`, result.error);
+    }
+    return true;
+}
+
+/**
+ * Cases for the NDR queue with their orders. Open cases come oldest attempt
+ * first — those are the ones about to be returned by the courier.
+ */
+export async function getNdrQueue(shopDomain: string, view: NdrQueueView): Promise<{ ndr: NdrCase; order: any }[]> {
+    let query = supabase
+        .from('order_ndrs')
+        .select('*')
+        .eq('shop_domain', shopDomain);
+
+    if (view === 'open') {
+        query = query.eq('status', 'open').order('last_attempt_at', { ascending: true });
+    } else if (view === 'in_progress') {
+        query = query.in('status', IN_PROGRESS_STATUSES).is('resolved_at', null).order('last_action_at', { ascending: false });
+    } else {
+        query = query.not('resolved_at', 'is', null).order('resolved_at', { ascending: false });
+    }
+
+    const { data: cases, error } = await query.limit(NDR_QUEUE_LIMIT);
+    if (error) {
+        console.error('[NDR] Error loading queue:', error);
+        throw error;
+    }
+    if (!cases?.length) return [];
+
+    const { data: orders, error: ordersError } = await orderLogsForShop(shopDomain)
+        .select(NDR_ORDER_COLUMNS)
+        .in('id', cases.map((ndr) => ndr.order_log_id));
+    if (ordersError) {
+        console.error('[NDR] Error loading queue orders:', ordersError);
+        throw ordersError;
+    }
+
+    const ordersById = new Map((orders || []).map((order: any) => [String(order.id), order]));
+    return (cases as NdrCase[])
+        .filter((ndr) => ordersById.has(String(ndr.order_log_id)))
+        .map((ndr) => ({ ndr, order: ordersById.get(String(ndr.order_log_id)) }));
+}
+
+/**
+ * Case counts for the queue tabs and the orders page link.
+ */
+export async function getNdrQueueCounts(shopDomain: string): Promise<{ open: number; inProgress: number }> {
+    const [open, inProgress] = await Promise.all([
+        supabase.from('order_ndrs').select('id', { count: 'exact', head: true }).eq('shop_domain', shopDomain).eq('status', 'open'),
+        supabase.from('order_ndrs').select('id', { count: 'exact', head: true }).eq('shop_domain', shopDomain).in('status', IN_PROGRESS_STATUSES).is('resolved_at', null),
+    ]);
+    if (open.error || inProgress.error) {
+        console.error('[NDR] Error counting cases:', open.error || inProgress.error);
+    }
+    return { open: open.count || 0, inProgress: inProgress.count || 0 };
+}
+
+/**
+ * NDR outcomes for the analytics page, for cases opened since createdAtMin.
+ */
+export async function getNdrStats(shopDomain: string, createdAtMin?: string): Promise<NdrStats> {
+    let query = supabase
+        .from('order_ndrs')
+        .select('reason, outcome')
+        .eq('shop_domain', shopDomain);
+    if (createdAtMin) {
+        query = query.gte('created_at', createdAtMin);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('[NDR] Error loading stats:', error);
+        throw error;
+    }
+
+    const byReason = new Map<NdrReason, { total: number; delivered: number; rto: number }>();
+    const totals = { total: 0, delivered: 0, rto: 0 };
+    for (const row of data || []) {
+        const reason = (row.reason in NDR_REASONS ? row.reason : 'other') as NdrReason;
+        const entry = byReason.get(reason) || { total: 0, delivered: 0, rto: 0 };
+        entry.total++;
+        totals.total++;
+        if (row.outcome === 'delivered') {
+            entry.delivered++;
+            totals.delivered++;
+        } else if (row.outcome === 'rto') {
+            entry.rto++;
+            totals.rto++;
+        }
+        byReason.set(reason, entry);
+    }
+
+    const closed = totals.delivered + totals.rto;
+    return {
+        ...totals,
+        open: totals.total - closed,
+        rtoRate: closed > 0 ? Math.round((totals.rto / closed) * 100) : 0,
+        byReason: [...byReason.entries()]
+            .map(([reason, entry]) => ({ reason, label: NDR_REASONS[reason], ...entry }))
+            .sort((a, b) => b.total - a.total),
+    };
+}
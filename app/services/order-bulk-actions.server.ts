@@ -0,0 +1,300 @@
+/**
+ * Order Bulk Actions Service
+ * Applies one action to a set of orders selected on the Orders page and
+ * reports the outcome per order, so a partial failure (one order already
+ * fulfilled in Shopify, another still syncing) never hides the rest.
+ *
+ * Where the order exists in Shopify the change is made there first and the
+ * order_logs row only follows on success: cancelling cancels the Shopify
+ * order (restock, no refund), marking shipped fulfills it without tracking,
+ * tags go on the Shopify order. Status changes follow the same
+ * ORDER_STATUS_TRANSITIONS as the order page. Held orders are
+ * cancelled through the review queue; orders that never reached Shopify are
+ * cancelled locally and dropped from the sync retry job. Booking shipments
+ * goes through the shipments service, one courier call per order.
+ */
+import { orderLogsForShop, recordOrderEvent } from '../config/supabase.server';
+import { canChangeOrderStatus, ORDER_STATUS_TRANSITIONS, type OrderStatus } from '../config/constants';
+import { addShopifyOrderTags, cancelShopifyOrder, fulfillShopifyOrder } from './shopify-graphql-orders.server';
+import { createShopifyOrderBackground } from './shopify-sync.server';
+import { rejectHeldOrder } from './order-review.server';
+import { closeOrderConfirmation } from './order-confirmation.server';
+import { bookShipment, getShipmentBlocker } from './shipments.server';
+
+export type BulkOrderAction = 'confirm' | 'cancel' | 'mark_shipped' | 'mark_returned' | 'retry_sync' | 'add_tag' | 'book_shipment';
+
+export const BULK_ORDER_ACTIONS: BulkOrderAction[] = ['confirm', 'cancel', 'mark_shipped', 'mark_returned', 'retry_sync', 'add_tag', 'book_shipment'];
+
+// The page submits in small chunks so it can show progress; this is a safety cap
+const MAX_BULK_ORDERS = 50;
+
+export interface BulkOrderResult {
+    orderId: string;
+    orderName: string;
+    outcome: 'updated' | 'skipped' | 'failed';
+    message?: string;
+}
+
+/** The order_logs columns the bulk actions read */
+interface BulkOrderRow {
+    id: string;
+    shop_domain: string;
+    shopify_order_id: string | null;
+    shopify_order_name: string | null;
+    status: string | null;
+    sync_status: string | null;
+    awb_number: string | null;
+    pincode: string | null;
+}
+
+const BULK_ORDER_COLUMNS = 'id, shop_domain, shopify_order_id, shopify_order_name, status, sync_status, awb_number, pincode';
+
+/** The status each status change moves the order to */
+const STATUS_ACTIONS: Partial<Record<BulkOrderAction, OrderStatus>> = {
+    confirm: 'confirmed',
+    mark_shipped: 'shipped',
+    mark_returned: 'returned',
+};
+
+/** Statuses an order may move to `to` from */
+function statusesAllowing(to: OrderStatus): OrderStatus[] {
+    return (Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[]).filter((from) => canChangeOrderStatus(from, to));
+}
+
+function orderName(order: BulkOrderRow): string {
+    return order.shopify_order_name || `#${String(order.id).slice(0, 8)}`;
+}
+
+/**
+ * Conditional on the status we read, so two tabs can't both apply a change.
+ */
+async function setStatusFrom(shopDomain: string, order: BulkOrderRow, from: OrderStatus[], to: OrderStatus, actor: string): Promise<boolean> {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .update({ status: to })
+        .eq('id', order.id)
+        .in('status', from)
+        .select('id')
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Bulk] Error updating order status:', error);
+        throw error;
+    }
+    if (data) {
+        await recordStatusEvent(shopDomain, order, to, actor);
+    }
+    return data !== null;
+}
+
+async function recordStatusEvent(shopDomain: string, order: BulkOrderRow, to: OrderStatus, actor: string) {
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: String(order.id),
+        shopifyOrderId: order.shopify_order_id,
+        type: 'status_changed',
+        message: `Status changed from ${order.status || 'pending'} to ${to} (bulk action)`,
+        details: { from: order.status || null, to },
+        actor,
+    });
+}
+
+async function applyStatusChange(shopDomain: string, order: BulkOrderRow, action: BulkOrderAction, actor: string): Promise<BulkOrderResult> {
+    const to = STATUS_ACTIONS[action]!;
+    const base = { orderId: String(order.id), orderName: orderName(order) };
+
+    if (order.sync_status === 'held') {
+        return { ...base, outcome: 'skipped', message: 'Held for review — approve or reject it in the review queue' };
+    }
+    if (order.status === to) {
+        return { ...base, outcome: 'skipped', message: `Already ${to}` };
+    }
+    if (!canChangeOrderStatus(order.status, to)) {
+        return { ...base, outcome: 'skipped', message: `Can't change a ${order.status} order to ${to}` };
+    }
+
+    if (action === 'mark_shipped') {
+        if (!order.shopify_order_id) {
+            return { ...base, outcome: 'skipped', message: 'Not in Shopify yet — retry the sync first' };
+        }
+        const fulfillment = await fulfillShopifyOrder(shopDomain, String(order.shopify_order_id), null)
+            .catch((err) => ({ success: false, fulfillmentId: undefined, error: err?.message }));
+        if (!fulfillment.success) {
+            return { ...base, outcome: 'failed', message: fulfillment.error || 'Shopify rejected the fulfillment' };
+        }
+        if (fulfillment.fulfillmentId) {
+            await orderLogsForShop(shopDomain)
+                .update({ shopify_fulfillment_id: fulfillment.fulfillmentId })
+                .eq('id', base.orderId);
+        }
+        // The orders/fulfilled webhook may have marked it shipped already
+        await setStatusFrom(shopDomain, order, statusesAllowing(to), to, actor);
+        return { ...base, outcome: 'updated' };
+    }
+
+    const updated = await setStatusFrom(shopDomain, order, statusesAllowing(to), to, actor);
+    if (!updated) {
+        return { ...base, outcome: 'skipped', message: 'Order changed in the meantime — reload and try again' };
+    }
+    if (action === 'confirm' && order.shopify_order_id) {
+        await closeOrderConfirmation(shopDomain, String(order.shopify_order_id), 'confirmed');
+    }
+    return { ...base, outcome: 'updated' };
+}
+
+async function cancelOrder(shopDomain: string, order: BulkOrderRow, actor: string): Promise<BulkOrderResult> {
+    const base = { orderId: String(order.id), orderName: orderName(order) };
+
+    if (order.status === 'cancelled') {
+        return { ...base, outcome: 'skipped', message: 'Already cancelled' };
+    }
+    if (!canChangeOrderStatus(order.status, 'cancelled')) {
+        return { ...base, outcome: 'skipped', message: `Can't cancel a ${order.status} order` };
+    }
+
+    if (order.sync_status === 'held') {
+        const result = await rejectHeldOrder(shopDomain, base.orderId, { actor });
+        return result.success
+            ? { ...base, outcome: 'updated' }
+            : { ...base, outcome: 'failed', message: result.error };
+    }
+
+    if (order.shopify_order_id) {
+        const result = await cancelShopifyOrder(shopDomain, String(order.shopify_order_id), {
+            staffNote: 'Cancelled from the FoxCOD orders page',
+        }).catch((err) => ({ success: false, error: err?.message }));
+        if (!result.success) {
+            return { ...base, outcome: 'failed', message: result.error || 'Shopify rejected the cancellation' };
+        }
+        // The orders/cancelled webhook does the same; updating here keeps the list current
+        await setStatusFrom(shopDomain, order, statusesAllowing('cancelled'), 'cancelled', actor);
+        await closeOrderConfirmation(shopDomain, String(order.shopify_order_id), 'cancelled');
+        return { ...base, outcome: 'updated' };
+    }
+
+    // Not in Shopify yet. Claim it away from the sync job so it is never created.
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .update({ status: 'cancelled', next_retry_at: null })
+        .eq('id', base.orderId)
+        .in('sync_status', ['pending_sync', 'failed_sync'])
+        .is('shopify_order_id', null)
+        .select('id')
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+        return { ...base, outcome: 'skipped', message: 'Being created in Shopify right now — try again in a minute' };
+    }
+    await recordStatusEvent(shopDomain, order, 'cancelled', actor);
+    return { ...base, outcome: 'updated' };
+}
+
+async function retrySync(shopDomain: string, order: BulkOrderRow): Promise<BulkOrderResult> {
+    const base = { orderId: String(order.id), orderName: orderName(order) };
+
+    if (order.shopify_order_id || order.sync_status === 'synced') {
+        return { ...base, outcome: 'skipped', message: 'Already in Shopify' };
+    }
+    if (order.sync_status === 'held') {
+        return { ...base, outcome: 'skipped', message: 'Held for review — approve it to create it in Shopify' };
+    }
+    if (order.status === 'cancelled') {
+        return { ...base, outcome: 'skipped', message: 'Order was cancelled' };
+    }
+
+    const result = await createShopifyOrderBackground(shopDomain, base.orderId);
+    return result.success
+        ? { ...base, orderName: result.shopifyOrderName || base.orderName, outcome: 'updated' }
+        : { ...base, outcome: 'failed', message: result.error || 'Shopify sync failed' };
+}
+
+async function tagOrder(shopDomain: string, order: BulkOrderRow, tags: string[]): Promise<BulkOrderResult> {
+    const base = { orderId: String(order.id), orderName: orderName(order) };
+
+    if (!order.shopify_order_id) {
+        return { ...base, outcome: 'skipped', message: 'Not in Shopify yet' };
+    }
+    const result = await addShopifyOrderTags(shopDomain, String(order.shopify_order_id), tags)
+        .catch((err) => ({ success: false, error: err?.message }));
+    return result.success
+        ? { ...base, outcome: 'updated' }
+        : { ...base, outcome: 'failed', message: result.error || 'Shopify rejected the tag' };
+}
+
+async function shipOrder(shopDomain: string, order: BulkOrderRow, actor: string): Promise<BulkOrderResult> {
+    const base = { orderId: String(order.id), orderName: orderName(order) };
+
+    const blocker = getShipmentBlocker(order);
+    if (blocker) {
+        return { ...base, outcome: 'skipped', message: blocker };
+    }
+
+    const result = await bookShipment(shopDomain, base.orderId, actor);
+    if (!result.success) {
+        return { ...base, outcome: 'failed', message: result.error };
+    }
+    return { ...base, outcome: 'updated', message: result.warning ? `AWB ${result.awb} — ${result.warning}` : `AWB ${result.awb}` };
+}
+
+/**
+ * Apply an action to the given order_logs ids for this shop. Orders are
+ * processed one at a time (Shopify Admin API rate limits) and every order
+ * gets a result, including ids that don't belong to the shop.
+ */
+export async function runBulkOrderAction(
+    shopDomain: string,
+    orderIds: string[],
+    action: BulkOrderAction,
+    options: { tag?: string; actor?: string } = {}
+): Promise<BulkOrderResult[]> {
+    const actor = options.actor || 'merchant';
+    const ids = [...new Set(orderIds.map(String))].slice(0, MAX_BULK_ORDERS);
+    const tags = (options.tag || '').split(',').map((t) => t.trim()).filter(Boolean).slice(0, 10);
+    if (action === 'add_tag' && tags.length === 0) {
+        return ids.map((id) => ({ orderId: id, orderName: `#${id.slice(0, 8)}`, outcome: 'failed', message: 'Enter a tag' }));
+    }
+
+    const { data: orders, error } = await orderLogsForShop(shopDomain)
+        .select(BULK_ORDER_COLUMNS)
+        .in('id', ids);
+
+    if (error) {
+        console.error('[Bulk] Error loading orders:', error);
+        throw error;
+    }
+
+    const byId = new Map(((orders || []) as BulkOrderRow[]).map((order) => [String(order.id), order]));
+    const results: BulkOrderResult[] = [];
+
+    for (const id of ids) {
+        const order = byId.get(id);
+        if (!order) {
+            results.push({ orderId: id, orderName: `#${id.slice(0, 8)}`, outcome: 'failed', message: 'Order not found' });
+            continue;
+        }
+        try {
+            switch (action) {
+                case 'cancel':
+                    results.push(await cancelOrder(shopDomain, order, actor));
+                    break;
+                case 'retry_sync':
+                    results.push(await retrySync(shopDomain, order));
+                    break;
+                case 'add_tag':
+                    results.push(await tagOrder(shopDomain, order, tags));
+                    break;
+                case 'book_shipment':
+                    results.push(await shipOrder(shopDomain, order, actor));
+                    break;
+                default:
+                    results.push(await applyStatusChange(shopDomain, order, action, actor));
+            }
+        } catch (err) {
+            console.error(`[Bulk] ${action} failed for order ${id}:`, err);
+            results.push({ orderId: id, orderName: orderName(order), outcome: 'failed', message: err instanceof Error ? err.message : 'Unexpected error' });
+        }
+    }
+
+    const failed = results.filter((r) => r.outcome === 'failed').length;
+    console.log(`[Bulk] ${shopDomain} ${action}: ${results.length - failed}/${results.length} processed, ${failed} failed`);
+    return results;
+}
@@ -0,0 +1,528 @@
+/**
+ * Order Confirmation Service
+ * Messages COD customers once their Shopify order exists ("Reply 1 to
+ * confirm, 2 to cancel") through the SMS & WhatsApp integration, applies
+ * their reply to the order, and flags or cancels orders nobody confirmed
+ * within the shop's reply window.
+ *
+ * Customers without WhatsApp get the same choice from a signed, expiring
+ * link served through the app proxy (/apps/fox-cod/confirm-order), which
+ * also lets them correct their delivery address.
+ *
+ * State lives in order_confirmations, one row per Shopify order. order_logs
+ * only sees the outcome: status 'confirmed', or 'cancelled' via Shopify.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { getIntegrationSettings, orderLogsForShop, recordOrderEvent, supabase } from '../config/supabase.server';
+import type { ConfirmationLanguage, SmsWhatsappConfig } from '../config/integrations.types';
+import { normalizePhoneNumber } from '../utils/phone';
+import { addShopifyOrderTags, cancelShopifyOrder, updateShopifyShippingAddress } from './shopify-graphql-orders.server';
+import { createSmsProvider, SMS_INTEGRATION_ID, type SmsInboundMessage } from './sms/sms-provider.server';
+
+const DEFAULT_TIMEOUT_HOURS = 24;
+const UNCONFIRMED_TAG = 'Unconfirmed';
+const EXPIRY_BATCH_SIZE = 200;
+
+const APP_PROXY_PATH = '/apps/fox-cod';
+const CONFIRMATION_LINK_TTL_HOURS = 72;
+
+interface ConfirmationMessageVars {
+    name: string;
+    order: string;
+    total: string;
+    link: string;
+}
+
+const CONFIRMATION_MESSAGES: Record<ConfirmationLanguage, (v: ConfirmationMessageVars) => string> = {
+    en: (v) => `Hi ${v.name}, thanks for your order ${v.order} of ${v.total}. Reply 1 to confirm or 2 to cancel, or manage it here: ${v.link}`,
+    hi: (v) => `नमस्ते ${v.name}, आपके ऑर्डर ${v.order} (${v.total}) के लिए धन्यवाद। कन्फर्म करने के लिए 1 और कैंसिल करने के लिए 2 भेजें, या यहाँ देखें: ${v.link}`,
+    ar: (v) => `مرحباً ${v.name}، شكراً لطلبك ${v.order} بقيمة ${v.total}. أرسل 1 للتأكيد أو 2 للإلغاء، أو تحكّم بطلبك هنا: ${v.link}`,
+    es: (v) => `Hola ${v.name}, gracias por tu pedido ${v.order} de ${v.total}. Responde 1 para confirmar o 2 para cancelar, o gestiónalo aquí: ${v.link}`,
+    fr: (v) => `Bonjour ${v.name}, merci pour votre commande ${v.order} de ${v.total}. Répondez 1 pour confirmer ou 2 pour annuler, ou gérez-la ici : ${v.link}`,
+};
+
+// Accepted in any language — customers don't always answer in the message's language
+const CONFIRM_REPLIES = ['1', '١', 'yes', 'y', 'ok', 'confirm', 'haan', 'han', 'ha', 'हाँ', 'हां', 'نعم', 'si', 'sí', 'confirmar', 'oui', 'confirmer'];
+const CANCEL_REPLIES = ['2', '٢', 'no', 'n', 'cancel', 'nahi', 'nahin', 'नहीं', 'لا', 'cancelar', 'non', 'annuler'];
+
+export type ConfirmationReply = 'confirm' | 'cancel';
+
+export type CustomerDecisionResult =
+    | { success: true; status: 'confirmed' | 'cancelled' }
+    | { success: false; error: string };
+
+/** What the confirmation page shows — the latest order_logs row for the Shopify order */
+export interface ConfirmationOrder {
+    shopify_order_id: string;
+    shopify_order_name: string | null;
+    customer_name: string | null;
+    customer_address: string | null;
+    city: string | null;
+    state: string | null;
+    pincode: string | null;
+    product_title: string | null;
+    quantity: number | null;
+    total_price: number | null;
+    currency: string | null;
+    status: string;
+}
+
+export interface ConfirmationAddressUpdate {
+    address: string;
+    city: string;
+    pincode: string;
+}
+
+export interface OrderConfirmationInput {
+    shopDomain: string;
+    shopifyOrderId: string;
+    orderName: string;
+    customerName: string;
+    phone: string;
+    /** ISO country of the shipping address, for numbers entered without a country code */
+    countryCode?: string | null;
+    total: number;
+    currency: string;
+    /** Shopify customer_locale, e.g. "hi-IN" */
+    locale?: string | null;
+}
+
+function getConfirmationLanguage(config: SmsWhatsappConfig, locale?: string | null): ConfirmationLanguage {
+    if (config.confirmation_language && config.confirmation_language !== 'auto') {
+        return config.confirmation_language;
+    }
+    const language = (locale || '').split('-')[0].toLowerCase();
+    return language in CONFIRMATION_MESSAGES ? language as ConfirmationLanguage : 'en';
+}
+
+function formatTotal(total: number, currency: string, language: string): string {
+    try {
+        return new Intl.NumberFormat(language, { style: 'currency', currency }).format(total);
+    } catch {
+        return `${currency} ${total.toFixed(2)}`;
+    }
+}
+
+/**
+ * Read "1" / "2" / "yes" / "cancel" … from a reply. Null when the reply isn't one of them.
+ */
+export function parseConfirmationReply(text: string): ConfirmationReply | null {
+    const reply = text.trim().toLowerCase().replace(/[.!?،。\s]+$/u, '');
+    if (CONFIRM_REPLIES.includes(reply)) return 'confirm';
+    if (CANCEL_REPLIES.includes(reply)) return 'cancel';
+    return null;
+}
+
+async function getConfirmationConfig(shopDomain: string): Promise<SmsWhatsappConfig | null> {
+    const settings = await getIntegrationSettings(shopDomain, SMS_INTEGRATION_ID).catch(() => null);
+    if (!settings?.connected || !settings.enabled) return null;
+    const config = settings.config as unknown as SmsWhatsappConfig;
+    return config.confirmation_enabled ? config : null;
+}
+
+/**
+ * Token in the reply webhook URL — ties an inbound request to one shop
+ * without storing anything.
+ */
+export function getReplyWebhookToken(shopDomain: string): string {
+    return createHmac('sha256', process.env.SHOPIFY_API_SECRET || '')
+        .update(`sms-reply:${shopDomain}`)
+        .digest('hex')
+        .slice(0, 32);
+}
+
+export function verifyReplyWebhookToken(shopDomain: string, token: string): boolean {
+    const expected = Buffer.from(getReplyWebhookToken(shopDomain));
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function signConfirmationLink(shopDomain: string, shopifyOrderId: string, expiresAt: number): string {
+    return createHmac('sha256', process.env.SHOPIFY_API_SECRET || '')
+        .update(`confirm-order:${shopDomain}:${shopifyOrderId}:${expiresAt}`)
+        .digest('hex')
+        .slice(0, 32);
+}
+
+/**
+ * Query string (o, e, s) for the signed confirmation page of a Shopify order.
+ */
+export function getConfirmationLinkQuery(shopDomain: string, shopifyOrderId: string): string {
+    const expiresAt = Math.floor(Date.now() / 1000) + CONFIRMATION_LINK_TTL_HOURS * 3600;
+    const params = new URLSearchParams({
+        o: shopifyOrderId,
+        e: String(expiresAt),
+        s: signConfirmationLink(shopDomain, shopifyOrderId, expiresAt),
+    });
+    return params.toString();
+}
+
+/**
+ * Absolute confirmation page URL, for messages sent outside the storefront.
+ */
+export function getConfirmationLinkUrl(shopDomain: string, shopifyOrderId: string): string {
+    return `https://${shopDomain}${APP_PROXY_PATH}/confirm-order?${getConfirmationLinkQuery(shopDomain, shopifyOrderId)}`;
+}
+
+/**
+ * True when o / e / s were signed for this shop and haven't expired.
+ */
+export function verifyConfirmationLink(shopDomain: string, params: { o?: string | null; e?: string | null; s?: string | null }): boolean {
+    const expiresAt = Number(params.e);
+    if (!params.o || !params.s || !Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(signConfirmationLink(shopDomain, params.o, expiresAt));
+    const actual = Buffer.from(params.s);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Send the confirmation message for a new COD order. Safe to call more than
+ * once per order — only the first call sends.
+ */
+export async function sendOrderConfirmation(input: OrderConfirmationInput): Promise<void> {
+    const config = await getConfirmationConfig(input.shopDomain);
+    if (!config) return;
+
+    const provider = createSmsProvider(config);
+    if (!provider) {
+        console.error(`[Confirmation] ${input.shopDomain} has confirmations on but no usable SMS provider`);
+        return;
+    }
+
+    const phone = normalizePhoneNumber(input.phone, input.countryCode);
+    if (!phone) {
+        console.log(`[Confirmation] Order ${input.orderName} has no usable phone number, skipping`);
+        return;
+    }
+
+    const language = getConfirmationLanguage(config, input.locale);
+    const timeoutHours = parseFloat(config.confirmation_timeout_hours || '') || DEFAULT_TIMEOUT_HOURS;
+
+    // The unique (shop, order) key makes redelivered webhooks a no-op
+    const { data: claimed, error } = await supabase
+        .from('order_confirmations')
+        .upsert({
+            shop_domain: input.shopDomain,
+            shopify_order_id: input.shopifyOrderId,
+            shopify_order_name: input.orderName,
+            phone,
+            language,
+            expires_at: new Date(Date.now() + timeoutHours * 3600 * 1000).toISOString(),
+        }, { onConflict: 'shop_domain,shopify_order_id', ignoreDuplicates: true })
+        .select('id');
+
+    if (error) {
+        console.error('[Confirmation] Error creating confirmation:', error);
+        return;
+    }
+    if (!claimed?.length) return;
+
+    const vars: ConfirmationMessageVars = {
+        name: input.customerName.split(' ')[0] || input.customerName,
+        order: input.orderName,
+        total: formatTotal(input.total, input.currency, language),
+        link: getConfirmationLinkUrl(input.shopDomain, input.shopifyOrderId),
+    };
+    const sent = await provider.send({
+        to: phone,
+        template: 'order_confirmation',
+        body: CONFIRMATION_MESSAGES[language](vars),
+        templateValues: [vars.name, vars.order, vars.total, vars.link],
+        language,
+    });
+
+    await supabase
+        .from('order_confirmations')
+        .update(sent.success ? { provider_message_id: sent.messageId || null } : { status: 'failed' })
+        .eq('id', claimed[0].id);
+
+    if (!sent.success) {
+        console.error(`[Confirmation] ${provider.id} send failed for ${input.orderName}:`, sent.error);
+    }
+    await recordOrderEvent({
+        shopDomain: input.shopDomain,
+        shopifyOrderId: input.shopifyOrderId,
+        type: 'message_sent',
+        message: sent.success
+            ? `Confirmation request sent to ${phone} via ${provider.id}`
+            : `Confirmation request to ${phone} failed via ${provider.id}: ${sent.error || 'unknown error'}`,
+        details: { provider: provider.id, language, success: sent.success, message_id: sent.messageId || null },
+        actor: 'system',
+    });
+}
+
+/**
+ * Mark the order_logs rows for a Shopify order (the id is stored numeric or as a GID).
+ */
+async function setOrderLogStatus(shopDomain: string, shopifyOrderId: string, status: 'confirmed' | 'cancelled', actor: string) {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .update({ status })
+        .eq('status', 'pending')
+        .or(`shopify_order_id.eq.${shopifyOrderId},shopify_order_id.eq.gid://shopify/Order/${shopifyOrderId}`)
+        .select('id');
+
+    if (error) {
+        console.error('[Confirmation] Error updating order status:', error);
+        return;
+    }
+    for (const row of data || []) {
+        await recordOrderEvent({
+            shopDomain,
+            orderLogId: row.id,
+            shopifyOrderId,
+            type: 'status_changed',
+            message: `Status changed from pending to ${status}`,
+            details: { from: 'pending', to: status },
+            actor,
+        });
+    }
+}
+
+/**
+ * Apply a customer's reply to their latest open confirmation.
+ * Returns false when the reply doesn't match an order or isn't a 1/2 answer.
+ */
+export async function handleConfirmationReply(shopDomain: string, inbound: SmsInboundMessage): Promise<boolean> {
+    const reply = parseConfirmationReply(inbound.text);
+    if (!reply) {
+        console.log(`[Confirmation] Unrecognised reply from ${inbound.from} for ${shopDomain}`);
+        return false;
+    }
+
+    // 'expired' orders were only flagged, so a late reply still counts
+    const { data: confirmation } = await supabase
+        .from('order_confirmations')
+        .select('*')
+        .eq('shop_domain', shopDomain)
+        .eq('phone', inbound.from)
+        .in('status', ['sent', 'expired'])
+        .order('sent_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (!confirmation) return false;
+
+    await recordOrderEvent({
+        shopDomain,
+        shopifyOrderId: confirmation.shopify_order_id,
+        type: 'message_received',
+        message: `Customer replied "${inbound.text.trim().slice(0, 100)}" (${reply})`,
+        details: { from: inbound.from, text: inbound.text.slice(0, 500), decision: reply },
+        actor: 'customer',
+    });
+
+    const result = await applyCustomerDecision(shopDomain, confirmation.shopify_order_id, reply, inbound.text);
+    return result.success;
+}
+
+/**
+ * Confirm or cancel an order for the customer — from a message reply or the
+ * confirmation page. Only pending orders change; cancelling also cancels the
+ * Shopify order. Closes the open confirmation message so a later reply can't
+ * undo it.
+ */
+export async function applyCustomerDecision(
+    shopDomain: string,
+    shopifyOrderId: string,
+    decision: ConfirmationReply,
+    replyText?: string,
+): Promise<CustomerDecisionResult> {
+    const order = await getConfirmationOrder(shopDomain, shopifyOrderId);
+    if (!order) return { success: false, error: 'Order not found.' };
+    if (order.status !== 'pending') {
+        return { success: false, error: `This order is already ${order.status}.` };
+    }
+
+    const status = decision === 'confirm' ? 'confirmed' : 'cancelled';
+    const { data: claimed } = await supabase
+        .from('order_confirmations')
+        .update({
+            status,
+            reply_text: replyText ? replyText.slice(0, 500) : null,
+            replied_at: new Date().toISOString(),
+        })
+        .eq('shop_domain', shopDomain)
+        .eq('shopify_order_id', shopifyOrderId)
+        .in('status', ['sent', 'expired'])
+        .select('id');
+
+    // A reply that lost the race to the link (or the other way round) does nothing
+    if (replyText !== undefined && !claimed?.length) {
+        return { success: false, error: 'This order was already answered.' };
+    }
+
+    if (decision === 'cancel') {
+        const result = await cancelShopifyOrder(shopDomain, shopifyOrderId, {
+            staffNote: 'Cancelled by the customer from the order confirmation',
+        }).catch((err) => ({ success: false, error: err?.message }));
+        if (!result.success) {
+            console.error(`[Confirmation] Could not cancel ${order.shopify_order_name} in Shopify:`, result.error);
+            // Reopen the confirmation so the customer can try again
+            if (claimed?.length) {
+                await supabase.from('order_confirmations').update({ status: 'sent', replied_at: null }).in('id', claimed.map((row) => row.id));
+            }
+            return { success: false, error: 'We could not cancel this order right now. Please try again.' };
+        }
+    }
+
+    await setOrderLogStatus(shopDomain, shopifyOrderId, status, 'customer');
+    console.log(`[Confirmation] ${order.shopify_order_name} ${status} by customer`);
+    return { success: true, status };
+}
+
+/**
+ * Close any open confirmation after the merchant confirmed or cancelled the
+ * order themselves, so the customer's late reply and the expiry sweep leave it alone.
+ */
+export async function closeOrderConfirmation(shopDomain: string, shopifyOrderId: string, status: 'confirmed' | 'cancelled'): Promise<void> {
+    const numericId = String(shopifyOrderId).replace('gid://shopify/Order/', '');
+    const { error } = await supabase
+        .from('order_confirmations')
+        .update({ status })
+        .eq('shop_domain', shopDomain)
+        .eq('shopify_order_id', numericId)
+        .in('status', ['sent', 'expired']);
+
+    if (error) console.error('[Confirmation] Error closing confirmation:', error);
+}
+
+/**
+ * Latest order_logs row for a Shopify order, for the confirmation page.
+ */
+export async function getConfirmationOrder(shopDomain: string, shopifyOrderId: string): Promise<ConfirmationOrder | null> {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .select('shopify_order_id, shopify_order_name, customer_name, customer_address, city, state, pincode, product_title, quantity, total_price, currency, status')
+        .or(`shopify_order_id.eq.${shopifyOrderId},shopify_order_id.eq.gid://shopify/Order/${shopifyOrderId}`)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Confirmation] Error loading order:', error);
+        return null;
+    }
+    return data;
+}
+
+/**
+ * Let the customer correct their delivery address before the order ships.
+ */
+export async function updateConfirmationAddress(
+    shopDomain: string,
+    shopifyOrderId: string,
+    update: ConfirmationAddressUpdate,
+): Promise<{ success: boolean; error?: string }> {
+    const order = await getConfirmationOrder(shopDomain, shopifyOrderId);
+    if (!order) return { success: false, error: 'Order not found.' };
+    if (order.status !== 'pending' && order.status !== 'confirmed') {
+        return { success: false, error: `This order is already ${order.status} and can no longer be changed.` };
+    }
+
+    const address = update.address.trim().slice(0, 255);
+    const city = update.city.trim().slice(0, 100);
+    const pincode = update.pincode.trim().slice(0, 20);
+    if (!address || !city || !pincode) {
+        return { success: false, error: 'Please fill in your address, city and PIN / postal code.' };
+    }
+
+    const result = await updateShopifyShippingAddress(shopDomain, shopifyOrderId, { address1: address, city, zip: pincode })
+        .catch((err) => ({ success: false, error: err?.message }));
+    if (!result.success) {
+        console.error(`[Confirmation] Could not update address for ${order.shopify_order_name}:`, result.error);
+        return { success: false, error: 'We could not update your address right now. Please try again.' };
+    }
+
+    const { error } = await orderLogsForShop(shopDomain)
+        .update({ customer_address: address, city, pincode })
+        .or(`shopify_order_id.eq.${shopifyOrderId},shopify_order_id.eq.gid://shopify/Order/${shopifyOrderId}`);
+    if (error) console.error('[Confirmation] Error saving updated address:', error);
+
+    await recordOrderEvent({
+        shopDomain,
+        shopifyOrderId,
+        type: 'edited',
+        message: 'Customer updated the delivery address from the confirmation page',
+        details: { address, city, pincode },
+        actor: 'customer',
+    });
+
+    return { success: true };
+}
+
+/**
+ * Run the timeout action on confirmations past their reply window, across all shops.
+ */
+export async function expireOrderConfirmations(): Promise<{ flagged: number; cancelled: number; failed: number }> {
+    const totals = { flagged: 0, cancelled: 0, failed: 0 };
+
+    const { data: overdue, error } = await supabase
+        .from('order_confirmations')
+        .select('id, shop_domain, shopify_order_id, shopify_order_name')
+        .eq('status', 'sent')
+        .lt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true })
+        .limit(EXPIRY_BATCH_SIZE);
+
+    if (error) {
+        console.error('[Confirmation] Error loading overdue confirmations:', error);
+        return totals;
+    }
+
+    const configs = new Map<string, SmsWhatsappConfig | null>();
+    for (const confirmation of overdue || []) {
+        if (!configs.has(confirmation.shop_domain)) {
+            configs.set(confirmation.shop_domain, await getConfirmationConfig(confirmation.shop_domain));
+        }
+        const shouldCancel = configs.get(confirmation.shop_domain)?.confirmation_timeout_action === 'cancel';
+
+        // Only act on orders still waiting for the customer. One the merchant
+        // has confirmed, shipped or cancelled since just has its confirmation
+        // closed; one that can't be loaded is marked expired and left alone.
+        const order = await getConfirmationOrder(confirmation.shop_domain, confirmation.shopify_order_id);
+        if (order?.status !== 'pending') {
+            if (order) {
+                await closeOrderConfirmation(confirmation.shop_domain, confirmation.shopify_order_id, order.status === 'cancelled' ? 'cancelled' : 'confirmed');
+            } else {
+                await supabase.from('order_confirmations').update({ status: 'expired' }).eq('id', confirmation.id).eq('status', 'sent');
+            }
+            continue;
+        }
+
+        const { data: claimed } = await supabase
+            .from('order_confirmations')
+            .update({ status: shouldCancel ? 'cancelled' : 'expired' })
+            .eq('id', confirmation.id)
+            .eq('status', 'sent')
+            .select('id')
+            .maybeSingle();
+        if (!claimed) continue;
+
+        try {
+            if (shouldCancel) {
+                const result = await cancelShopifyOrder(confirmation.shop_domain, confirmation.shopify_order_id, {
+                    staffNote: 'Cancelled automatically — the customer did not confirm the order',
+                });
+                if (!result.success) throw new Error(result.error);
+                await setOrderLogStatus(confirmation.shop_domain, confirmation.shopify_order_id, 'cancelled', 'system');
+                totals.cancelled++;
+            } else {
+                const result = await addShopifyOrderTags(confirmation.shop_domain, confirmation.shopify_order_id, [UNCONFIRMED_TAG]);
+                if (!result.success) throw new Error(result.error);
+                await recordOrderEvent({
+                    shopDomain: confirmation.shop_domain,
+                    shopifyOrderId: confirmation.shopify_order_id,
+                    type: 'review',
+                    message: `No reply to the confirmation request — tagged ${UNCONFIRMED_TAG}`,
+                    actor: 'system',
+                });
+                totals.flagged++;
+            }
+        } catch (err) {
+            console.error(`[Confirmation] Timeout action failed for ${confirmation.shopify_order_name}:`, err instanceof Error ? err.message : err);
+            totals.failed++;
+        }
+    }
+
+    return totals;
+}
@@ -0,0 +1,381 @@
+/**
+ * Order Edit Service
+ * Edits an order that has not shipped yet from its detail page: shipping
+ * address, notes, line item quantities and added products.
+ *
+ * Item changes go through Shopify's order editing API, so they need the
+ * order to exist in Shopify and be unfulfilled. Our inventory reservations
+ * follow the committed line items (editInventory), order_line_items is
+ * rebuilt from them alongside the totals, totals and the amount to collect
+ * on delivery are moved by the change in the Shopify total, and every saved
+ * edit is written to order_edits with what changed.
+ *
+ * Orders not in Shopify yet are edited locally; the sync job creates them
+ * from the order_logs columns.
+ */
+import {
+    getOrderLineItems,
+    orderLogsForShop,
+    recordOrderEvent,
+    replaceOrderLineItems,
+    supabase,
+    type OrderLineItem,
+} from '../config/supabase.server';
+import {
+    editShopifyOrderItems,
+    getShopifyEditableOrder,
+    updateShopifyOrderNote,
+    updateShopifyShippingAddress,
+    type ShopifyEditableLineItem,
+    type ShopifyEditableOrder,
+} from './shopify-graphql-orders.server';
+import { buildInventoryMetadata, editInventory } from './inventory-sync.server';
+
+export type { ShopifyEditableLineItem };
+
+const MAX_ITEM_QUANTITY = 999;
+
+export interface OrderEditChange {
+    field: string;
+    from: string | number | null;
+    to: string | number | null;
+}
+
+export interface OrderEditRecord {
+    id: string;
+    changes: OrderEditChange[];
+    previous_total: number | null;
+    new_total: number | null;
+    edited_by: string | null;
+    created_at: string;
+}
+
+export interface OrderEditInput {
+    address?: { address: string; city: string; state: string; pincode: string };
+    notes?: string;
+    /** New quantities keyed by Shopify LineItem GID; 0 removes the item */
+    quantities?: Record<string, number>;
+    additions?: Array<{ variantId: string; title: string; quantity: number }>;
+}
+
+export type OrderEditResult =
+    | { success: true; changes: OrderEditChange[]; warning?: string }
+    | { success: false; error: string };
+
+/**
+ * Why this order can't be edited, or null when it can.
+ */
+export function getOrderEditBlocker(order: { status?: string | null; shopify_fulfillment_status?: string | null }): string | null {
+    if (order.status === 'cancelled') return 'Cancelled orders can\'t be edited';
+    if (order.status && ['shipped', 'delivered', 'returned'].includes(order.status)) {
+        return `This order is already ${order.status}`;
+    }
+    if (order.shopify_fulfillment_status && order.shopify_fulfillment_status !== 'unfulfilled') {
+        return 'This order has been fulfilled in Shopify';
+    }
+    return null;
+}
+
+/**
+ * Shopify line items for the edit form, or null when the order is not in
+ * Shopify or can no longer be edited there.
+ */
+export async function getEditableLineItems(
+    shopDomain: string,
+    order: { status?: string | null; shopify_order_id?: string | null; shopify_fulfillment_status?: string | null }
+): Promise<ShopifyEditableOrder | null> {
+    if (!order.shopify_order_id || getOrderEditBlocker(order)) return null;
+    try {
+        const shopifyOrder = await getShopifyEditableOrder(shopDomain, String(order.shopify_order_id));
+        if (!shopifyOrder || shopifyOrder.cancelled || shopifyOrder.fulfillmentStatus !== 'UNFULFILLED') return null;
+        return shopifyOrder;
+    } catch (error) {
+        console.error('[OrderEdit] Error loading Shopify line items:', error);
+        return null;
+    }
+}
+
+export async function getOrderEdits(shopDomain: string, orderId: string): Promise<OrderEditRecord[]> {
+    const { data, error } = await supabase
+        .from('order_edits')
+        .select('id, changes, previous_total, new_total, edited_by, created_at')
+        .eq('shop_domain', shopDomain)
+        .eq('order_log_id', orderId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+    if (error) {
+        console.error('[OrderEdit] Error loading edit history:', error);
+        return [];
+    }
+    return (data || []) as OrderEditRecord[];
+}
+
+function lineItemLabel(item: { title: string; variantTitle?: string | null }): string {
+    return [item.title, item.variantTitle].filter((part) => part && part !== 'Default Title').join(' - ');
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * order_line_items rows for the order as Shopify now has it. A line keeps
+ * the source, product and per-unit bundle discount of the stored line for
+ * the same variant; added products become 'main' lines.
+ */
+function toEditedLineItems(current: OrderLineItem[], edited: ShopifyEditableLineItem[]): OrderLineItem[] {
+    return edited.map((item, index) => {
+        const variantId = item.variantId ? item.variantId.split('/').pop() || null : null;
+        const previous = variantId ? current.find((line) => line.variant_id === variantId) : undefined;
+        const unitDiscount = previous && previous.quantity > 0 ? previous.discount_amount / previous.quantity : 0;
+        return {
+            position: index,
+            source: previous?.source || 'main',
+            source_detail: previous?.source_detail ?? null,
+            product_id: previous?.product_id ?? null,
+            variant_id: variantId,
+            title: item.title,
+            variant_title: item.variantTitle,
+            quantity: item.quantity,
+            unit_price: item.unitPrice,
+            discount_amount: roundMoney(unitDiscount * item.quantity),
+        };
+    });
+}
+
+/**
+ * Apply an edit. Shopify is changed first (items, then address, then note)
+ * and order_logs only takes the parts Shopify accepted.
+ */
+export async function applyOrderEdit(
+    shopDomain: string,
+    orderId: string,
+    input: OrderEditInput,
+    editedBy: string | null = null
+): Promise<OrderEditResult> {
+    const { data: order, error } = await orderLogsForShop(shopDomain)
+        .select('*')
+        .eq('id', orderId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[OrderEdit] Error loading order:', error);
+        return { success: false, error: 'Could not load the order' };
+    }
+    if (!order) return { success: false, error: 'Order not found' };
+
+    const blocker = getOrderEditBlocker(order);
+    if (blocker) return { success: false, error: blocker };
+
+    const shopifyOrderId = order.shopify_order_id ? String(order.shopify_order_id).replace(/\D/g, '') : null;
+    const changes: OrderEditChange[] = [];
+    const updates: Record<string, string | number | null> = {};
+
+    // ---- Address ----
+    const addressFields: Array<[keyof NonNullable<OrderEditInput['address']>, string, string]> = [
+        ['address', 'customer_address', 'Address'],
+        ['city', 'city', 'City'],
+        ['state', 'state', 'State'],
+        ['pincode', 'pincode', 'Pincode'],
+    ];
+    const addressChanges: OrderEditChange[] = [];
+    if (input.address) {
+        for (const [key, column, label] of addressFields) {
+            const next = input.address[key].trim();
+            const current = order[column] || '';
+            if (next !== current) {
+                addressChanges.push({ field: label, from: current || null, to: next || null });
+                updates[column] = next || null;
+            }
+        }
+        if (addressChanges.length > 0 && !input.address.address.trim()) {
+            return { success: false, error: 'Enter a delivery address' };
+        }
+    }
+
+    // ---- Notes ----
+    const nextNotes = input.notes !== undefined ? input.notes.trim() : undefined;
+    const notesChanged = nextNotes !== undefined && nextNotes !== (order.customer_notes || '').trim();
+
+    // ---- Items ----
+    const requestedQuantities = Object.entries(input.quantities || {});
+    const additions = (input.additions || []).filter((a) => a.variantId && a.quantity > 0);
+    let itemEdit: { quantities: Record<string, number>; additions: typeof additions } | null = null;
+    let shopifyBefore: ShopifyEditableOrder | null = null;
+
+    if (requestedQuantities.length > 0 || additions.length > 0) {
+        if (!shopifyOrderId) {
+            return { success: false, error: 'Products can be changed once the order is in Shopify' };
+        }
+        shopifyBefore = await getShopifyEditableOrder(shopDomain, shopifyOrderId);
+        if (!shopifyBefore) return { success: false, error: 'Order not found in Shopify' };
+        if (shopifyBefore.cancelled) return { success: false, error: 'This order was cancelled in Shopify' };
+        if (shopifyBefore.fulfillmentStatus !== 'UNFULFILLED') {
+            return { success: false, error: 'This order has been fulfilled in Shopify' };
+        }
+
+        const quantities: Record<string, number> = {};
+        for (const [lineItemId, rawQuantity] of requestedQuantities) {
+            const item = shopifyBefore.lineItems.find((li) => li.id === lineItemId);
+            const quantity = Math.floor(Number(rawQuantity));
+            if (!item) return { success: false, error: 'An item on this order changed — reload and try again' };
+            if (!Number.isFinite(quantity) || quantity < 0 || quantity > MAX_ITEM_QUANTITY) {
+                return { success: false, error: `Quantity for ${lineItemLabel(item)} must be between 0 and ${MAX_ITEM_QUANTITY}` };
+            }
+            if (quantity !== item.quantity) {
+                quantities[lineItemId] = quantity;
+                changes.push({ field: lineItemLabel(item), from: item.quantity, to: quantity });
+            }
+        }
+        for (const addition of additions) {
+            if (addition.quantity > MAX_ITEM_QUANTITY) {
+                return { success: false, error: `Quantity for ${addition.title} must be at most ${MAX_ITEM_QUANTITY}` };
+            }
+            changes.push({ field: addition.title || 'Added product', from: null, to: addition.quantity });
+        }
+
+        const remainingUnits = shopifyBefore.lineItems.reduce((sum, item) => sum + (quantities[item.id] ?? item.quantity), 0)
+            + additions.reduce((sum, a) => sum + a.quantity, 0);
+        if (remainingUnits === 0) {
+            return { success: false, error: 'An order needs at least one item — cancel it instead' };
+        }
+        if (Object.keys(quantities).length > 0 || additions.length > 0) {
+            itemEdit = { quantities, additions };
+        }
+    }
+
+    if (!itemEdit && addressChanges.length === 0 && !notesChanged) {
+        return { success: false, error: 'Nothing to save' };
+    }
+
+    const applied: OrderEditChange[] = [];
+    let previousTotal: number | null = null;
+    let newTotal: number | null = null;
+    let lineItems: OrderLineItem[] | null = null;
+
+    if (itemEdit && shopifyOrderId && shopifyBefore) {
+        const result = await editShopifyOrderItems(shopDomain, shopifyOrderId, {
+            quantities: itemEdit.quantities,
+            additions: itemEdit.additions.map(({ variantId, quantity }) => ({ variantId, quantity })),
+            staffNote: 'Edited from the FoxCOD order page',
+        }).catch((err) => ({ success: false as const, error: err?.message || 'Shopify rejected the edit' }));
+
+        if (!result.success) return { success: false, error: result.error };
+        applied.push(...changes);
+
+        // Reserve/release stock for the committed line items
+        const metadata = await buildInventoryMetadata(shopDomain, result.order.lineItems.map((item) => ({
+            variantId: item.variantId,
+            quantity: item.quantity,
+            title: item.title,
+            sku: item.sku || undefined,
+        })));
+        if (metadata.length > 0) {
+            await editInventory(shopDomain, shopifyOrderId, metadata, result.order.updatedAt);
+        }
+
+        // Move our totals by what changed in Shopify; they include shipping and
+        // partial COD amounts that the Shopify order may not.
+        const delta = roundMoney(result.order.total - shopifyBefore.total);
+        previousTotal = Number(order.total_price ?? order.final_total ?? 0);
+        newTotal = roundMoney(Math.max(0, previousTotal + delta));
+        updates.total_price = newTotal;
+        if (order.final_total !== null && order.final_total !== undefined) {
+            updates.final_total = roundMoney(Math.max(0, Number(order.final_total) + delta));
+        }
+        updates.quantity = result.order.lineItems.reduce((sum, item) => sum + item.quantity, 0);
+        const currentItems = (await getOrderLineItems(shopDomain, [order]))[String(order.id)] || [];
+        lineItems = toEditedLineItems(currentItems, result.order.lineItems);
+
+        const isPrepaid = order.is_full_prepaid || order.payment_method === 'full_prepaid';
+        if (order.remaining_cod_amount !== null && order.remaining_cod_amount !== undefined) {
+            updates.remaining_cod_amount = roundMoney(Math.max(0, Number(order.remaining_cod_amount) + delta));
+        } else if (isPrepaid && delta > 0) {
+            // Prepaid orders now owe the difference at the door
+            updates.remaining_cod_amount = delta;
+        }
+        if (delta !== 0) {
+            applied.push({ field: 'Total', from: previousTotal, to: newTotal });
+        }
+    }
+
+    let warning: string | undefined;
+
+    if (addressChanges.length > 0) {
+        let addressSaved = true;
+        if (shopifyOrderId) {
+            const result = await updateShopifyShippingAddress(shopDomain, shopifyOrderId, {
+                address1: input.address!.address.trim(),
+                city: input.address!.city.trim(),
+                zip: input.address!.pincode.trim(),
+                province: input.address!.state.trim() || undefined,
+            }).catch((err) => ({ success: false, error: err?.message }));
+            if (!result.success) {
+                addressSaved = false;
+                warning = `Address not updated: ${result.error || 'Shopify rejected it'}`;
+                for (const [, column] of addressFields) delete updates[column];
+            }
+        }
+        if (addressSaved) applied.push(...addressChanges);
+    }
+
+    if (notesChanged) {
+        let notesSaved = true;
+        if (shopifyOrderId) {
+            const result = await updateShopifyOrderNote(shopDomain, shopifyOrderId, nextNotes!)
+                .catch((err) => ({ success: false, error: err?.message }));
+            if (!result.success) {
+                notesSaved = false;
+                warning = [warning, `Notes not updated: ${result.error || 'Shopify rejected them'}`].filter(Boolean).join('. ');
+            }
+        }
+        if (notesSaved) {
+            updates.customer_notes = nextNotes || null;
+            applied.push({ field: 'Notes', from: order.customer_notes || null, to: nextNotes || null });
+        }
+    }
+
+    if (applied.length === 0) {
+        return { success: false, error: warning || 'Nothing was changed' };
+    }
+
+    if (Object.keys(updates).length > 0) {
+        const { error: updateError } = await orderLogsForShop(shopDomain)
+            .update(updates)
+            .eq('id', orderId);
+        if (updateError) {
+            console.error('[OrderEdit] Error updating order:', updateError);
+            warning = [warning, 'Shopify was updated but the order here could not be saved — reload to retry'].filter(Boolean).join('. ');
+        } else if (lineItems && !(await replaceOrderLineItems(shopDomain, orderId, lineItems))) {
+            // The items go with the totals, so the order page, analytics and
+            // the courier booking list what the customer will receive
+            warning = [warning, 'Shopify was updated but the items here could not be saved'].filter(Boolean).join('. ');
+        }
+    }
+
+    const { error: historyError } = await supabase.from('order_edits').insert({
+        shop_domain: shopDomain,
+        order_log_id: orderId,
+        shopify_order_id: shopifyOrderId,
+        changes: applied,
+        previous_total: previousTotal,
+        new_total: newTotal,
+        edited_by: editedBy,
+    });
+    if (historyError) {
+        console.error('[OrderEdit] Error recording edit history:', historyError);
+    }
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: orderId,
+        shopifyOrderId,
+        type: 'edited',
+        message: `Edited ${[...new Set(applied.map((change) => change.field))].join(', ')}`,
+        details: { changes: applied },
+        actor: editedBy || 'merchant',
+    });
+
+    console.log(`[OrderEdit] ${shopDomain} order ${orderId}: ${applied.length} change(s)${warning ? ` (${warning})` : ''}`);
+    return { success: true, changes: applied, warning };
+}
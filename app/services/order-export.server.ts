@@ -0,0 +1,220 @@
+/**
+ * Order Export Service
+ * Streams the filtered order_logs set as CSV or XLSX with the columns the
+ * merchant picked, in their order. Orders are read in batches and written
+ * out as they arrive, so large shops never build the whole file in memory.
+ * Column layouts can be saved per shop as named presets.
+ */
+import { supabase, iterateOrders, getFormSettings, getOrderLineItems } from '../config/supabase.server';
+import type { OrderListFilters } from '../utils/order-filters';
+import {
+    CUSTOM_FIELD_COLUMN_PREFIX,
+    getExportColumnLabel,
+    type OrderExportFormat,
+    type OrderExportPreset,
+} from '../utils/order-export';
+import { buildOrderLineItems, formatLineItemsSummary, type OrderLineItem } from '../utils/order-line-items';
+import { createCsvStream, createXlsxStream, type SpreadsheetCell } from './export/spreadsheet-stream.server';
+
+const MAX_PRESETS_PER_SHOP = 20;
+
+const NUMERIC_COLUMNS = new Set([
+    'quantity',
+    'total_price',
+    'advance_amount',
+    'remaining_cod_amount',
+    'shipping_price',
+    'discount_amount',
+    'fraud_score',
+]);
+
+export interface OrderExportRequest {
+    format: OrderExportFormat;
+    columns: string[];
+    filters: OrderListFilters;
+    /** Export only these orders (selected on the list) */
+    orderIds?: string[];
+}
+
+type LineItemSource = Parameters<typeof buildOrderLineItems>[0];
+
+/**
+ * An order_logs row as read for export. Any column can be picked, so the
+ * rest are reached by name.
+ */
+export interface OrderExportRow extends LineItemSource {
+    id: string;
+    order_payload?: Record<string, unknown> | null;
+    total_price?: number | string | null;
+    final_total?: number | string | null;
+    payment_method?: string | null;
+    is_partial_cod?: boolean | null;
+    is_full_prepaid?: boolean | null;
+    remaining_cod_amount?: number | string | null;
+    created_at?: string | null;
+    [column: string]: unknown;
+}
+
+/** customFieldData entries as the COD form saves them */
+interface CustomFieldEntry {
+    label?: unknown;
+    value?: unknown;
+}
+
+function getCustomFieldValue(order: OrderExportRow, label: string): string | null {
+    const fields = order.order_payload?.customFieldData;
+    if (!Array.isArray(fields)) return null;
+    const match = (fields as (CustomFieldEntry | null)[])
+        .find((field) => String(field?.label || '').trim().toLowerCase() === label.trim().toLowerCase());
+    return match?.value !== undefined && match?.value !== null ? String(match.value) : null;
+}
+
+function toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * One cell for an order_logs row. Amounts stay numeric so spreadsheets can sum them.
+ * `lineItems` are the order's order_line_items rows (built from the payload when omitted).
+ */
+export function getOrderExportValue(order: OrderExportRow, key: string, lineItems?: OrderLineItem[]): SpreadsheetCell {
+    if (key.startsWith(CUSTOM_FIELD_COLUMN_PREFIX)) {
+        return getCustomFieldValue(order, key.slice(CUSTOM_FIELD_COLUMN_PREFIX.length));
+    }
+
+    switch (key) {
+        case 'line_items':
+            return formatLineItemsSummary(lineItems ?? buildOrderLineItems(order));
+        case 'total_price':
+            return toNumber(order.total_price ?? order.final_total);
+        case 'payment_method':
+            return order.payment_method || (order.is_partial_cod ? 'partial_cod' : order.is_full_prepaid ? 'full_prepaid' : 'cod');
+        case 'remaining_cod_amount':
+            // Plain COD orders collect the full total at the door
+            if (order.remaining_cod_amount === null || order.remaining_cod_amount === undefined) {
+                return order.is_full_prepaid || order.payment_method === 'full_prepaid' ? 0 : toNumber(order.total_price);
+            }
+            return toNumber(order.remaining_cod_amount);
+        case 'created_at':
+            return order.created_at ? new Date(order.created_at).toISOString().replace('T', ' ').slice(0, 19) : null;
+        default: {
+            const value = order[key];
+            if (NUMERIC_COLUMNS.has(key)) return toNumber(value);
+            if (value === null || value === undefined) return null;
+            return typeof value === 'object' ? JSON.stringify(value) : String(value);
+        }
+    }
+}
+
+/**
+ * Build the download body. Errors after the first bytes abort the stream
+ * (the browser sees a failed download rather than a truncated file).
+ */
+export function createOrderExportStream(shopDomain: string, request: OrderExportRequest): ReadableStream<Uint8Array> {
+    const header = request.columns.map(getExportColumnLabel);
+
+    async function* rows() {
+        for await (const orders of iterateOrders(shopDomain, request.filters, { orderIds: request.orderIds })) {
+            const lineItems = request.columns.includes('line_items') ? await getOrderLineItems(shopDomain, orders) : {};
+            yield (orders as OrderExportRow[]).map((order) => request.columns.map((key) => getOrderExportValue(order, key, lineItems[order.id])));
+        }
+    }
+
+    return request.format === 'xlsx'
+        ? createXlsxStream(header, rows())
+        : createCsvStream(header, rows());
+}
+
+export function getOrderExportFileName(shopDomain: string, format: OrderExportFormat): string {
+    const shopName = shopDomain.replace('.myshopify.com', '').replace(/[^a-z0-9-]/gi, '');
+    return `${shopName}-orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Labels of the seller-created fields on the COD form, offered as extra
+ * export columns. Orders store custom values by label in customFieldData.
+ */
+export async function getCustomFieldLabels(shopDomain: string): Promise<string[]> {
+    try {
+        const settings = await getFormSettings(shopDomain);
+        const fields = [...(settings?.fields || []), ...(settings?.custom_fields || [])];
+        const labels = fields
+            .filter((field) => field.isCustom && field.label?.trim())
+            .map((field) => field.label.trim());
+        return [...new Set(labels)];
+    } catch (error) {
+        console.error('[Export] Error loading custom fields:', error);
+        return [];
+    }
+}
+
+// =============================================
+// PRESETS
+// =============================================
+
+export async function getExportPresets(shopDomain: string): Promise<OrderExportPreset[]> {
+    const { data, error } = await supabase
+        .from('order_export_presets')
+        .select('id, name, format, columns')
+        .eq('shop_domain', shopDomain)
+        .order('name', { ascending: true });
+
+    if (error) {
+        console.error('[Export] Error loading presets:', error);
+        return [];
+    }
+    return (data || []) as OrderExportPreset[];
+}
+
+/**
+ * Create or overwrite the preset with this name.
+ */
+export async function saveExportPreset(
+    shopDomain: string,
+    preset: Omit<OrderExportPreset, 'id'>
+): Promise<{ success: true; preset: OrderExportPreset } | { success: false; error: string }> {
+    const name = preset.name.trim().slice(0, 60);
+    if (!name) return { success: false, error: 'Give the preset a name' };
+
+    const { count } = await supabase
+        .from('order_export_presets')
+        .select('id', { count: 'exact', head: true })
+        .eq('shop_domain', shopDomain)
+        .neq('name', name);
+    if ((count || 0) >= MAX_PRESETS_PER_SHOP) {
+        return { success: false, error: `You can save up to ${MAX_PRESETS_PER_SHOP} presets. Delete one first.` };
+    }
+
+    const { data, error } = await supabase
+        .from('order_export_presets')
+        .upsert({
+            shop_domain: shopDomain,
+            name,
+            format: preset.format,
+            columns: preset.columns,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'shop_domain,name' })
+        .select('id, name, format, columns')
+        .single();
+
+    if (error || !data) {
+        console.error('[Export] Error saving preset:', error);
+        return { success: false, error: 'Could not save the preset' };
+    }
+    return { success: true, preset: data as OrderExportPreset };
+}
+
+export async function deleteExportPreset(shopDomain: string, presetId: string): Promise<void> {
+    const { error } = await supabase
+        .from('order_export_presets')
+        .delete()
+        .eq('id', presetId)
+        .eq('shop_domain', shopDomain);
+
+    if (error) {
+        console.error('[Export] Error deleting preset:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,108 @@
+/**
+ * Order Review Service
+ * Manual review queue for COD orders held by fraud protection. Held orders
+ * live in order_logs (sync_status 'held', review_status 'pending') with their
+ * full order_payload and are only pushed to Shopify once approved.
+ */
+import { orderLogsForShop, recordOrderEvent } from '../config/supabase.server';
+import { blockCustomer } from './fraud-protection.server';
+import { createShopifyOrderBackground } from './shopify-sync.server';
+
+export interface ReviewDecisionResult {
+    success: boolean;
+    shopifyOrderName?: string;
+    error?: string;
+}
+
+// =============================================
+// QUEUE
+// =============================================
+
+export async function getHeldOrders(shopDomain: string, limit = 50) {
+    const { data, error, count } = await orderLogsForShop(shopDomain)
+        .select('*', { count: 'exact' })
+        .eq('review_status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error('[OrderReview] Error fetching held orders:', error);
+        return { orders: [], totalCount: 0 };
+    }
+    return { orders: data || [], totalCount: count || 0 };
+}
+
+/**
+ * Atomically move a held order out of the queue. Returns the row, or null
+ * when it is not held for this shop (already reviewed or another shop's order).
+ */
+async function claimHeldOrder(shopDomain: string, orderId: string, update: Record<string, unknown>) {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .update({ ...update, reviewed_at: new Date().toISOString() })
+        .eq('id', orderId)
+        .eq('review_status', 'pending')
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        console.error('[OrderReview] Error updating held order:', error);
+        throw error;
+    }
+    return data;
+}
+
+// =============================================
+// DECISIONS
+// =============================================
+
+/**
+ * Approve a held order and create it in Shopify through the regular sync
+ * path. If Shopify fails the order stays failed_sync and the retry job takes over.
+ */
+export async function approveHeldOrder(shopDomain: string, orderId: string, actor = 'merchant'): Promise<ReviewDecisionResult> {
+    const order = await claimHeldOrder(shopDomain, orderId, {
+        review_status: 'approved',
+        sync_status: 'pending_sync',
+    });
+    if (!order) return { success: false, error: 'Order is no longer awaiting review' };
+
+    await recordOrderEvent({ shopDomain, orderLogId: orderId, type: 'review', message: 'Approved after review', actor });
+
+    const result = await createShopifyOrderBackground(shopDomain, String(order.id));
+    if (!result.success) {
+        return { success: false, error: result.error || 'Failed to create the order in Shopify' };
+    }
+    return { success: true, shopifyOrderName: result.shopifyOrderName };
+}
+
+/**
+ * Reject a held order: it is cancelled without ever reaching Shopify.
+ * Optionally adds the customer's phone and email to the block lists.
+ */
+export async function rejectHeldOrder(
+    shopDomain: string,
+    orderId: string,
+    options: { blockCustomer?: boolean; actor?: string } = {}
+): Promise<ReviewDecisionResult> {
+    const order = await claimHeldOrder(shopDomain, orderId, {
+        review_status: 'rejected',
+        status: 'cancelled',
+    });
+    if (!order) return { success: false, error: 'Order is no longer awaiting review' };
+
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: orderId,
+        type: 'review',
+        message: `Rejected after review — order cancelled${options.blockCustomer ? ', customer blocked' : ''}`,
+        actor: options.actor || 'merchant',
+    });
+
+    if (options.blockCustomer) {
+        await blockCustomer(shopDomain, {
+            phone: order.customer_phone,
+            email: order.customer_email,
+        });
+    }
+    return { success: true };
+}
@@ -0,0 +1,242 @@
+/**
+ * Phone OTP Service
+ * Issues and verifies one-time codes customers confirm before a COD order.
+ * Only an HMAC of the challenge id and code is stored; challenges expire
+ * after a few minutes and lock after a handful of wrong guesses. Sends are
+ * rate limited per phone and per IP so the endpoint can't be used to pump SMS.
+ */
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from 'node:crypto';
+import { supabase } from '../config/supabase.server';
+import type { FraudDecision, FraudProtectionSettings } from '../config/fraud-protection.types';
+import { getSmsProvider } from './sms/sms-provider.server';
+import { assessFraudDecision, type OrderValidationData } from './fraud-protection.server';
+
+const OTP_LENGTH = 6;
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_MAX_ATTEMPTS = 5;
+
+const OTP_RESEND_COOLDOWN_MS = 30 * 1000;
+const OTP_SEND_WINDOW_MS = 15 * 60 * 1000;
+const OTP_MAX_SENDS_PER_PHONE = 3;
+const OTP_MAX_SENDS_PER_IP = 10;
+
+// A verified phone can place orders for a while, so a failed submit can be retried
+const OTP_VERIFIED_TTL_MS = 30 * 60 * 1000;
+
+export type OtpSendResult =
+    | { success: true; challengeId: string; expiresIn: number; resendIn: number }
+    | { success: false; error: string; retryIn?: number };
+
+export type OtpVerifyResult =
+    | { success: true }
+    | { success: false; error: string; attemptsLeft?: number };
+
+export interface OtpRequirementContext {
+    cartValue: number;
+    /** Only needed for 'borderline' mode */
+    fraudDecision?: FraudDecision;
+}
+
+export interface OrderOtpCheck extends OrderValidationData {
+    cartValue: number;
+    /** otp_challenge_id the storefront resubmitted the order with */
+    challengeId?: string;
+}
+
+function hashCode(challengeId: string, code: string): string {
+    return createHmac('sha256', process.env.SHOPIFY_API_SECRET || '')
+        .update(`${challengeId}:${code}`)
+        .digest('hex');
+}
+
+function codesMatch(hash: string, challengeId: string, code: string): boolean {
+    const expected = Buffer.from(hash, 'hex');
+    const actual = Buffer.from(hashCode(challengeId, code), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether the shop's OTP setting asks for a code on this order.
+ */
+export function isOtpRequired(settings: FraudProtectionSettings, context: OtpRequirementContext): boolean {
+    switch (settings.otp_mode) {
+        case 'all':
+            return true;
+        case 'above_cart_value':
+            return context.cartValue >= (settings.otp_min_cart_value || 0);
+        case 'borderline':
+            return context.fraudDecision === 'verify';
+        default:
+            return false;
+    }
+}
+
+async function countRecentChallenges(shopDomain: string, column: 'phone' | 'ip', value: string): Promise<{ count: number; lastAt: number | null }> {
+    const since = new Date(Date.now() - OTP_SEND_WINDOW_MS).toISOString();
+    const { data, count, error } = await supabase
+        .from('otp_challenges')
+        .select('created_at', { count: 'exact' })
+        .eq('shop_domain', shopDomain)
+        .eq(column, value)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+    if (error) {
+        console.error('[OTP] Error counting recent challenges:', error);
+        return { count: 0, lastAt: null };
+    }
+    return { count: count || 0, lastAt: data?.[0] ? new Date(data[0].created_at).getTime() : null };
+}
+
+/**
+ * Create a challenge for an E.164 phone number and send the code.
+ */
+export async function issueOtpChallenge(shopDomain: string, phone: string, ip?: string): Promise<OtpSendResult> {
+    const provider = await getSmsProvider(shopDomain);
+    if (!provider) {
+        return { success: false, error: 'Phone verification is not available right now. Please try again later.' };
+    }
+
+    const recent = await countRecentChallenges(shopDomain, 'phone', phone);
+    if (recent.lastAt && Date.now() - recent.lastAt < OTP_RESEND_COOLDOWN_MS) {
+        const retryIn = Math.ceil((OTP_RESEND_COOLDOWN_MS - (Date.now() - recent.lastAt)) / 1000);
+        return { success: false, error: `Please wait ${retryIn}s before requesting another code.`, retryIn };
+    }
+    if (recent.count >= OTP_MAX_SENDS_PER_PHONE) {
+        return { success: false, error: 'Too many codes requested. Please try again in a few minutes.' };
+    }
+    if (ip && ip !== 'unknown') {
+        const fromIp = await countRecentChallenges(shopDomain, 'ip', ip);
+        if (fromIp.count >= OTP_MAX_SENDS_PER_IP) {
+            return { success: false, error: 'Too many codes requested. Please try again in a few minutes.' };
+        }
+    }
+
+    const challengeId = randomUUID();
+    const code = String(randomInt(0, 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, '0');
+
+    const { error } = await supabase.from('otp_challenges').insert({
+        id: challengeId,
+        shop_domain: shopDomain,
+        phone,
+        code_hash: hashCode(challengeId, code),
+        ip: ip && ip !== 'unknown' ? ip : null,
+        expires_at: new Date(Date.now() + OTP_TTL_MS).toISOString(),
+    });
+    if (error) {
+        console.error('[OTP] Error creating challenge:', error);
+        return { success: false, error: 'Could not send a verification code. Please try again.' };
+    }
+
+    const sent = await provider.send({
+        to: phone,
+        template: 'otp',
+        body: `${code} is your verification code to confirm your order. It expires in ${OTP_TTL_MS / 60000} minutes.`,
+        templateValues: [code],
+    });
+    if (!sent.success) {
+        console.error(`[OTP] ${provider.id} send failed for ${shopDomain}:`, sent.error);
+        return { success: false, error: 'Could not send a verification code. Please check your phone number and try again.' };
+    }
+
+    return {
+        success: true,
+        challengeId,
+        expiresIn: OTP_TTL_MS / 1000,
+        resendIn: OTP_RESEND_COOLDOWN_MS / 1000,
+    };
+}
+
+/**
+ * Check a code against a challenge. Every guess counts toward the attempt limit.
+ */
+export async function verifyOtpChallenge(shopDomain: string, challengeId: string, code: string): Promise<OtpVerifyResult> {
+    const { data: challenge, error } = await supabase
+        .from('otp_challenges')
+        .select('*')
+        .eq('id', challengeId)
+        .eq('shop_domain', shopDomain)
+        .maybeSingle();
+
+    if (error || !challenge) {
+        return { success: false, error: 'Verification expired. Please request a new code.' };
+    }
+    if (challenge.verified_at) return { success: true };
+    if (new Date(challenge.expires_at).getTime() < Date.now()) {
+        return { success: false, error: 'This code has expired. Please request a new one.' };
+    }
+    if (challenge.attempts >= OTP_MAX_ATTEMPTS) {
+        return { success: false, error: 'Too many incorrect attempts. Please request a new code.', attemptsLeft: 0 };
+    }
+
+    const isMatch = /^\d+$/.test(code) && codesMatch(challenge.code_hash, challenge.id, code);
+
+    // Conditional on the attempt count we read, so parallel guesses can't share one attempt
+    const { data: updated, error: updateError } = await supabase
+        .from('otp_challenges')
+        .update({
+            attempts: challenge.attempts + 1,
+            ...(isMatch ? { verified_at: new Date().toISOString() } : {}),
+        })
+        .eq('id', challenge.id)
+        .eq('attempts', challenge.attempts)
+        .select('id')
+        .maybeSingle();
+
+    if (updateError || !updated) {
+        return { success: false, error: 'Please try again.' };
+    }
+    if (!isMatch) {
+        const attemptsLeft = OTP_MAX_ATTEMPTS - challenge.attempts - 1;
+        return {
+            success: false,
+            error: attemptsLeft > 0 ? 'Incorrect code. Please try again.' : 'Too many incorrect attempts. Please request a new code.',
+            attemptsLeft,
+        };
+    }
+    return { success: true };
+}
+
+/**
+ * True when the challenge was verified recently for this exact phone number.
+ */
+export async function isPhoneVerified(shopDomain: string, challengeId: string | undefined, phone: string): Promise<boolean> {
+    if (!challengeId || !/^[0-9a-f-]{36}$/i.test(challengeId)) return false;
+
+    const { data, error } = await supabase
+        .from('otp_challenges')
+        .select('phone, verified_at')
+        .eq('id', challengeId)
+        .eq('shop_domain', shopDomain)
+        .maybeSingle();
+
+    if (error || !data?.verified_at || data.phone !== phone) return false;
+    return Date.now() - new Date(data.verified_at).getTime() < OTP_VERIFIED_TTL_MS;
+}
+
+/**
+ * Whether a COD order has to stop for phone verification: the shop's OTP
+ * setting applies to it and its phone hasn't been verified through
+ * `challengeId`. `phone` should be normalized to E.164 like the challenge's.
+ * Fails open when the shop has no SMS provider connected — a missing
+ * integration must not stop every COD order.
+ *
+ * Every endpoint that creates a COD order checks this before creating it.
+ */
+export async function isOrderOtpPending(settings: FraudProtectionSettings, order: OrderOtpCheck): Promise<boolean> {
+    if (!settings.otp_mode || settings.otp_mode === 'off') return false;
+
+    const fraudDecision = settings.otp_mode === 'borderline'
+        ? await assessFraudDecision({ ...order, paymentMethod: 'cod' }, settings).catch(() => 'allow' as const)
+        : undefined;
+    if (!isOtpRequired(settings, { cartValue: order.cartValue, fraudDecision })) return false;
+
+    if (order.phone && await isPhoneVerified(order.shopDomain, order.challengeId, order.phone)) return false;
+
+    if (!(await getSmsProvider(order.shopDomain))) {
+        console.error(`[OTP] OTP required for ${order.shopDomain} but no SMS provider is connected — skipping verification`);
+        return false;
+    }
+    return true;
+}
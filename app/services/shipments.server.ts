@@ -0,0 +1,452 @@
+/**
+ * Shipments Service
+ * Books orders with the courier connected on the Integrations page (see
+ * services/courier) and keeps the AWB, tracking URL and label on order_logs.
+ *
+ * Booking order: courier first, then order_logs (conditional on no AWB yet,
+ * so two clicks can't book twice), then the Shopify fulfillment with the
+ * tracking info. A Shopify failure doesn't undo the booking — the parcel is
+ * real — it is reported as a warning and recorded on the timeline.
+ *
+ * Tracking updates go through the delivery status state machine
+ * (services/delivery-status); refreshActiveShipments polls every booked
+ * shipment that hasn't reached a final status.
+ */
+import { getOrderLineItems, orderLogsForShop, recordOrderEvent, supabase } from '../config/supabase.server';
+import { canChangeDeliveryStatus, canChangeOrderStatus, type DeliveryStatus } from '../config/constants';
+import { getLineItemLabel } from '../utils/order-line-items';
+import {
+    COURIER_INTEGRATION_ID,
+    DEFAULT_PACKAGE_WEIGHT_GRAMS,
+    getCourierProvider,
+    type ShipmentItem,
+    type ShipmentRequest,
+} from './courier/courier-provider.server';
+import { cancelShopifyFulfillment, fulfillShopifyOrder } from './shopify-graphql-orders.server';
+import { applyDeliveryUpdate, getDeliveryStatusLabel, recordDeliveryHistory } from './delivery-status.server';
+import { closeOrderConfirmation } from './order-confirmation.server';
+
+export interface ShipmentActionResult {
+    success: boolean;
+    awb?: string;
+    labelUrl?: string;
+    warning?: string;
+    error?: string;
+}
+
+/** The order_logs columns loaded as SHIPMENT_COLUMNS */
+interface ShipmentOrderRow {
+    id: string;
+    shop_domain: string;
+    shopify_order_id: string | null;
+    shopify_order_name: string | null;
+    status: string | null;
+    sync_status: string | null;
+    created_at: string;
+    customer_name: string | null;
+    customer_phone: string | null;
+    customer_email: string | null;
+    customer_address: string | null;
+    city: string | null;
+    state: string | null;
+    pincode: string | null;
+    order_payload: { country?: string | null } | null;
+    product_id: string | null;
+    product_title: string | null;
+    variant_id: string | null;
+    quantity: number | null;
+    total_price: number | null;
+    final_total: number | null;
+    customer_notes: string | null;
+    payment_method: string | null;
+    remaining_cod_amount: number | null;
+    courier_provider: string | null;
+    awb_number: string | null;
+    courier_shipment_id: string | null;
+    courier_name: string | null;
+    tracking_url: string | null;
+    shipment_label_url: string | null;
+    shipment_status: DeliveryStatus | null;
+    shipment_status_text: string | null;
+    shopify_fulfillment_id: string | null;
+}
+
+const SHIPMENT_COLUMNS = 'id, shop_domain, shopify_order_id, shopify_order_name, status, sync_status, created_at, customer_name, customer_phone, customer_email, customer_address, city, state, pincode, order_payload, product_id, product_title, variant_id, quantity, total_price, final_total, customer_notes, payment_method, remaining_cod_amount, courier_provider, awb_number, courier_shipment_id, courier_name, tracking_url, shipment_label_url, shipment_status, shipment_status_text, shopify_fulfillment_id';
+
+/** Statuses still worth polling the courier for */
+const ACTIVE_DELIVERY_STATUSES: DeliveryStatus[] = ['booked', 'in_transit', 'out_for_delivery', 'undelivered'];
+const TRACKING_INTERVAL_MS = 2 * 60 * 60 * 1000;
+const TRACKING_BATCH_SIZE = 50;
+
+async function loadOrder(shopDomain: string, orderId: string): Promise<ShipmentOrderRow | null> {
+    const { data, error } = await orderLogsForShop(shopDomain)
+        .select(SHIPMENT_COLUMNS)
+        .eq('id', orderId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Shipments] Error loading order:', error);
+        throw error;
+    }
+    return data as ShipmentOrderRow | null;
+}
+
+/**
+ * Why an order can't be booked right now, or null when it can. Orders
+ * still pending confirmation are confirmed first; one already marked
+ * shipped by hand can still get an AWB.
+ */
+export function getShipmentBlocker(
+    order: Pick<ShipmentOrderRow, 'awb_number' | 'status' | 'sync_status' | 'shopify_order_id' | 'pincode'>
+): string | null {
+    if (order.awb_number) return `Already booked (AWB ${order.awb_number})`;
+    if (order.sync_status === 'held') return 'Held for review — approve it first';
+    if ((order.status || 'pending') === 'pending') return 'Confirm the order first';
+    if (order.status !== 'shipped' && !canChangeOrderStatus(order.status, 'shipped')) return `Can't ship a ${order.status} order`;
+    if (!order.shopify_order_id) return 'Not in Shopify yet';
+    if (!order.pincode) return 'Add a pincode to the delivery address first';
+    return null;
+}
+
+function buildShipmentRequest(order: ShipmentOrderRow, items: ShipmentItem[], weightGrams: number, pickupLocation?: string): ShipmentRequest {
+    const orderTotal = Number(order.final_total ?? order.total_price) || 0;
+    const paymentMode = order.payment_method === 'full_prepaid' ? 'prepaid' : 'cod';
+    const codAmount = order.payment_method === 'partial_cod'
+        ? Number(order.remaining_cod_amount) || 0
+        : paymentMode === 'cod' ? orderTotal : 0;
+
+    return {
+        orderRef: order.shopify_order_name || String(order.id),
+        orderDate: order.created_at,
+        paymentMode,
+        codAmount,
+        orderTotal,
+        customer: {
+            name: order.customer_name || 'Customer',
+            phone: order.customer_phone || '',
+            email: order.customer_email || undefined,
+            address: order.customer_address || '',
+            city: order.city || '',
+            state: order.state || '',
+            pincode: String(order.pincode || '').trim(),
+            country: order.order_payload?.country || 'India',
+        },
+        items,
+        weightGrams,
+        pickupLocation,
+    };
+}
+
+/**
+ * Book a shipment for an order, store the AWB and fulfill it in Shopify
+ * with the tracking info.
+ */
+export async function bookShipment(shopDomain: string, orderId: string, actor = 'merchant'): Promise<ShipmentActionResult> {
+    const courier = await getCourierProvider(shopDomain);
+    if (!courier) return { success: false, error: 'Connect a courier on the Integrations page first' };
+    const { provider, config } = courier;
+
+    const order = await loadOrder(shopDomain, orderId);
+    if (!order) return { success: false, error: 'Order not found' };
+
+    const blocker = getShipmentBlocker(order);
+    if (blocker) return { success: false, error: blocker };
+
+    const lineItems = (await getOrderLineItems(shopDomain, [order]))[String(order.id)] || [];
+    const items: ShipmentItem[] = lineItems.map((item) => ({
+        name: [item.title, item.variant_title].filter(Boolean).join(' - ') || getLineItemLabel(item),
+        quantity: item.quantity,
+        unitPrice: item.quantity > 0 ? (item.unit_price * item.quantity - item.discount_amount) / item.quantity : item.unit_price,
+    }));
+    const weightGrams = Number(config.default_weight_grams) || DEFAULT_PACKAGE_WEIGHT_GRAMS;
+    const request = buildShipmentRequest(order, items, weightGrams, config.pickup_location);
+
+    if (config.pickup_pincode) {
+        const check = await provider.checkServiceability({
+            pickupPincode: config.pickup_pincode,
+            deliveryPincode: request.customer.pincode,
+            cod: request.paymentMode === 'cod',
+            weightGrams,
+        });
+        if (check.success && !check.serviceable) {
+            return { success: false, error: `${provider.name} doesn't deliver to ${request.customer.pincode}` };
+        }
+        if (check.success && request.paymentMode === 'cod' && check.codAvailable === false) {
+            return { success: false, error: `${provider.name} doesn't collect cash on delivery at ${request.customer.pincode}` };
+        }
+    }
+
+    const booked = await provider.createShipment(request);
+    if (!booked.success || !booked.awb) {
+        console.error(`[Shipments] ${provider.id} booking failed for order ${orderId}:`, booked.error);
+        return { success: false, error: booked.error || `${provider.name} rejected the shipment` };
+    }
+
+    const shippedAt = new Date().toISOString();
+    const { data: saved, error: saveError } = await orderLogsForShop(shopDomain)
+        .update({
+            status: 'shipped',
+            courier_provider: provider.id,
+            awb_number: booked.awb,
+            courier_shipment_id: booked.shipmentId || null,
+            courier_name: booked.courierName || provider.name,
+            tracking_url: booked.trackingUrl || null,
+            shipment_label_url: booked.labelUrl || null,
+            shipment_status: 'booked',
+            shipment_status_text: 'Booked',
+            shipped_at: shippedAt,
+        })
+        .eq('id', orderId)
+        .eq('status', order.status)
+        .is('awb_number', null)
+        .select('id')
+        .maybeSingle();
+
+    if (saveError || !saved) {
+        // Booked with the courier but we couldn't keep it — don't leave a live AWB behind
+        console.error(`[Shipments] Could not save AWB ${booked.awb} for order ${orderId}:`, saveError);
+        await provider.cancelShipment({ awb: booked.awb, shipmentId: booked.shipmentId });
+        return { success: false, error: saveError ? 'Could not save the shipment — try again' : 'Order changed in the meantime — reload' };
+    }
+
+    await recordDeliveryHistory({
+        shopDomain,
+        orderLogId: String(order.id),
+        from: null,
+        to: 'booked',
+        orderStatus: 'shipped',
+        source: 'merchant',
+        statusText: 'Booked',
+        occurredAt: shippedAt,
+    });
+    // A shipped order is past confirmation — the expiry sweep must not cancel it
+    await closeOrderConfirmation(shopDomain, String(order.shopify_order_id), 'confirmed');
+
+    let warning: string | undefined;
+    const fulfillment = await fulfillShopifyOrder(
+        shopDomain,
+        String(order.shopify_order_id),
+        { number: booked.awb, company: booked.courierName || provider.name, url: booked.trackingUrl },
+        config.notify_customer === true
+    ).catch((err) => ({ success: false, fulfillmentId: undefined, error: err?.message }));
+
+    if (fulfillment.success && fulfillment.fulfillmentId) {
+        await orderLogsForShop(shopDomain)
+            .update({ shopify_fulfillment_id: fulfillment.fulfillmentId })
+            .eq('id', orderId);
+    } else {
+        warning = `Shipment booked, but the Shopify fulfillment failed: ${fulfillment.error || 'unknown error'}`;
+    }
+
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: String(order.id),
+        shopifyOrderId: order.shopify_order_id,
+        type: 'shipment',
+        message: `Shipment booked with ${booked.courierName || provider.name} (AWB ${booked.awb})${warning ? ' — Shopify fulfillment failed' : ''}`,
+        details: {
+            provider: provider.id,
+            awb: booked.awb,
+            courier: booked.courierName || null,
+            cod_amount: request.codAmount,
+            fulfillment_error: fulfillment.success ? null : fulfillment.error || null,
+        },
+        actor,
+    });
+
+    console.log(`[Shipments] ${shopDomain} order ${orderId} booked with ${provider.id}: ${booked.awb}`);
+    return { success: true, awb: booked.awb, labelUrl: booked.labelUrl, warning };
+}
+
+/**
+ * Cancel the order's shipment with the courier and its Shopify
+ * fulfillment. The order goes back to confirmed so it can be booked again.
+ */
+export async function cancelShipment(shopDomain: string, orderId: string, actor = 'merchant'): Promise<ShipmentActionResult> {
+    const order = await loadOrder(shopDomain, orderId);
+    if (!order) return { success: false, error: 'Order not found' };
+    if (!order.awb_number) return { success: false, error: 'No shipment booked' };
+    if (order.shipment_status && !canChangeDeliveryStatus(order.shipment_status, 'cancelled')) {
+        return { success: false, error: `The shipment is already ${getDeliveryStatusLabel(order.shipment_status).toLowerCase()} — ask ${order.courier_name || 'the courier'} to return it instead` };
+    }
+
+    const courier = await getCourierProvider(shopDomain);
+    if (!courier || courier.provider.id !== order.courier_provider) {
+        return { success: false, error: `Cancel this shipment in your ${order.courier_name || 'courier'} panel — it was booked with a courier that is no longer connected` };
+    }
+
+    const ref = { awb: order.awb_number, shipmentId: order.courier_shipment_id };
+    const cancelled = await courier.provider.cancelShipment(ref);
+    if (!cancelled.success) {
+        return { success: false, error: cancelled.error || `${courier.provider.name} rejected the cancellation` };
+    }
+
+    let warning: string | undefined;
+    if (order.shopify_fulfillment_id) {
+        const result = await cancelShopifyFulfillment(shopDomain, order.shopify_fulfillment_id)
+            .catch((err) => ({ success: false, error: err?.message }));
+        if (!result.success) {
+            warning = `Shipment cancelled, but the Shopify fulfillment couldn't be cancelled: ${result.error || 'unknown error'}`;
+        }
+    }
+
+    const { error } = await orderLogsForShop(shopDomain)
+        .update({
+            status: order.status === 'shipped' ? 'confirmed' : order.status,
+            awb_number: null,
+            courier_shipment_id: null,
+            tracking_url: null,
+            shipment_label_url: null,
+            shipment_status: null,
+            shipment_status_text: null,
+            shipped_at: null,
+            last_tracked_at: null,
+            shopify_fulfillment_id: null,
+        })
+        .eq('id', orderId)
+        .eq('awb_number', order.awb_number);
+
+    if (error) {
+        console.error('[Shipments] Error clearing shipment:', error);
+        return { success: false, error: 'Shipment cancelled with the courier, but the order could not be updated — reload' };
+    }
+
+    await recordDeliveryHistory({
+        shopDomain,
+        orderLogId: String(order.id),
+        from: order.shipment_status || null,
+        to: 'cancelled',
+        orderStatus: order.status === 'shipped' ? 'confirmed' : order.status,
+        source: 'merchant',
+        statusText: `AWB ${order.awb_number} cancelled`,
+    });
+
+    await recordOrderEvent({
+        shopDomain,
+        orderLogId: String(order.id),
+        shopifyOrderId: order.shopify_order_id,
+        type: 'shipment',
+        message: `Shipment cancelled (AWB ${order.awb_number})`,
+        details: { provider: order.courier_provider, awb: order.awb_number, fulfillment_error: warning || null },
+        actor,
+    });
+
+    return { success: true, warning };
+}
+
+/**
+ * The shipping label URL, fetched from the courier the first time.
+ */
+export async function getShipmentLabel(shopDomain: string, orderId: string): Promise<ShipmentActionResult> {
+    const order = await loadOrder(shopDomain, orderId);
+    if (!order) return { success: false, error: 'Order not found' };
+    if (!order.awb_number) return { success: false, error: 'No shipment booked' };
+    if (order.shipment_label_url) return { success: true, labelUrl: order.shipment_label_url };
+
+    const courier = await getCourierProvider(shopDomain);
+    if (!courier || courier.provider.id !== order.courier_provider) {
+        return { success: false, error: `Download this label from your ${order.courier_name || 'courier'} panel` };
+    }
+
+    const label = await courier.provider.getLabel({ awb: order.awb_number, shipmentId: order.courier_shipment_id });
+    if (!label.success || !label.labelUrl) {
+        return { success: false, error: label.error || 'Label not available yet' };
+    }
+
+    await orderLogsForShop(shopDomain)
+        .update({ shipment_label_url: label.labelUrl })
+        .eq('id', orderId);
+    return { success: true, labelUrl: label.labelUrl };
+}
+
+/**
+ * Fetch the latest courier status for an order's AWB and store it.
+ */
+export async function trackShipment(shopDomain: string, orderId: string): Promise<ShipmentActionResult & { statusText?: string }> {
+    const order = await loadOrder(shopDomain, orderId);
+    if (!order) return { success: false, error: 'Order not found' };
+    if (!order.awb_number) return { success: false, error: 'No shipment booked' };
+
+    const courier = await getCourierProvider(shopDomain);
+    if (!courier || courier.provider.id !== order.courier_provider) {
+        return { success: false, error: `Track this shipment in your ${order.courier_name || 'courier'} panel` };
+    }
+
+    const tracking = await courier.provider.track({ awb: order.awb_number, shipmentId: order.courier_shipment_id });
+
+    // Also on failure, so the poller moves on to other shipments
+    const { error } = await orderLogsForShop(shopDomain)
+        .update({ last_tracked_at: new Date().toISOString() })
+        .eq('id', orderId)
+        .eq('awb_number', order.awb_number);
+    if (error) {
+        console.error('[Shipments] Error saving tracking time:', error);
+    }
+
+    if (!tracking.success) {
+        return { success: false, error: tracking.error || 'Tracking not available yet' };
+    }
+    if (tracking.status) {
+        const latest = tracking.events?.[0];
+        const result = await applyDeliveryUpdate(shopDomain, order, {
+            status: tracking.status,
+            source: 'courier',
+            statusText: tracking.statusText,
+            location: latest?.location,
+            occurredAt: latest?.time,
+        });
+        return { success: true, awb: order.awb_number, statusText: tracking.statusText, warning: result.applied || result.reason === 'unchanged' ? undefined : `Courier status ignored: ${result.reason}` };
+    }
+
+    return { success: true, awb: order.awb_number, statusText: tracking.statusText };
+}
+
+/**
+ * Poll the courier for shipments that haven't reached a final status and
+ * weren't checked in the last two hours, for every shop with a courier
+ * connected. Called from the /api/track-shipments cron endpoint.
+ */
+export async function refreshActiveShipments(): Promise<{ checked: number; failed: number }> {
+    const totals = { checked: 0, failed: 0 };
+
+    const { data: shops, error } = await supabase
+        .from('integration_settings')
+        .select('shop_domain')
+        .eq('integration_id', COURIER_INTEGRATION_ID)
+        .eq('connected', true)
+        .eq('enabled', true);
+
+    if (error) {
+        console.error('[Shipments] Error loading courier integrations:', error);
+        return totals;
+    }
+
+    const cutoff = new Date(Date.now() - TRACKING_INTERVAL_MS).toISOString();
+    for (const { shop_domain: shopDomain } of shops || []) {
+        const { data: orders, error: ordersError } = await orderLogsForShop(shopDomain)
+            .select('id')
+            .not('awb_number', 'is', null)
+            .in('shipment_status', ACTIVE_DELIVERY_STATUSES)
+            .or(`last_tracked_at.is.null,last_tracked_at.lt.${cutoff}`)
+            .order('last_tracked_at', { ascending: true, nullsFirst: true })
+            .limit(TRACKING_BATCH_SIZE);
+
+        if (ordersError) {
+            console.error(`[Shipments] Error loading active shipments for ${shopDomain}:`, ordersError);
+            continue;
+        }
+
+        for (const order of orders || []) {
+            try {
+                const result = await trackShipment(shopDomain, String(order.id));
+                totals.checked++;
+                if (!result.success) totals.failed++;
+            } catch (err) {
+                console.error(`[Shipments] Tracking failed for order ${order.id}:`, err);
+                totals.failed++;
+            }
+        }
+    }
+
+    return totals;
+}
@@ -48,6 +48,22 @@ export interface GraphQLOrderResult {
   error?: string;
 }
 
+/** An Admin API reply; `data` is missing when the whole request failed */
+interface GraphQLResponse<T> {
+  data?: T | null;
+}
+
+interface GraphQLUserError {
+  field?: string[] | null;
+  message: string;
+}
+
+type UserErrorsPayload = { userErrors: GraphQLUserError[] } | null;
+
+function userErrorMessage(errors: GraphQLUserError[]): string {
+  return errors.map((e) => e.message).join(', ');
+}
+
 /**
  * Find or create a Shopify customer by email/phone.
  * Links the order to an existing Shopify customer record for CRM continuity.
@@ -332,3 +348,453 @@ export async function createPendingOrder(params: GraphQLOrderParams): Promise<Gr
     statusPageUrl: order.statusPageUrl || null,
   };
 }
+
+/**
+ * Cancel a Shopify order on the customer's behalf (restocks, no refund —
+ * COD orders haven't been paid). order_logs is updated by the orders/cancelled
+ * webhook.
+ */
+export async function cancelShopifyOrder(
+  shop: string,
+  orderId: string,
+  options: { staffNote?: string; notifyCustomer?: boolean } = {}
+): Promise<{ success: boolean; error?: string }> {
+  const { admin } = await unauthenticated.admin(shop);
+  const gid = orderId.startsWith('gid://') ? orderId : `gid://shopify/Order/${orderId}`;
+
+  const res = await admin.graphql(
+    `#graphql
+    mutation cancelOrder($orderId: ID!, $staffNote: String, $notifyCustomer: Boolean) {
+      orderCancel(orderId: $orderId, reason: CUSTOMER, restock: true, refund: false, staffNote: $staffNote, notifyCustomer: $notifyCustomer) {
+        job { id }
+        orderCancelUserErrors { field message code }
+      }
+    }`,
+    { variables: { orderId: gid, staffNote: options.staffNote || null, notifyCustomer: options.notifyCustomer ?? false } }
+  );
+  const data = (await res.json()) as GraphQLResponse<{ orderCancel: { orderCancelUserErrors: GraphQLUserError[] } | null }>;
+
+  const errors = data?.data?.orderCancel?.orderCancelUserErrors || [];
+  if (errors.length > 0) {
+    const errorMsg = userErrorMessage(errors);
+    console.error('[GraphQL Order] orderCancel failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  return { success: true };
+}
+
+/**
+ * Add tags to a Shopify order.
+ */
+export async function addShopifyOrderTags(shop: string, orderId: string, tags: string[]): Promise<{ success: boolean; error?: string }> {
+  const { admin } = await unauthenticated.admin(shop);
+  const gid = orderId.startsWith('gid://') ? orderId : `gid://shopify/Order/${orderId}`;
+
+  const res = await admin.graphql(
+    `#graphql
+    mutation tagOrder($id: ID!, $tags: [String!]!) {
+      tagsAdd(id: $id, tags: $tags) {
+        userErrors { field message }
+      }
+    }`,
+    { variables: { id: gid, tags } }
+  );
+  const data = (await res.json()) as GraphQLResponse<{ tagsAdd: UserErrorsPayload }>;
+
+  const errors = data?.data?.tagsAdd?.userErrors || [];
+  if (errors.length > 0) {
+    const errorMsg = userErrorMessage(errors);
+    console.error('[GraphQL Order] tagsAdd failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  return { success: true };
+}
+
+/**
+ * Replace the street address, city and postal code (and optionally the
+ * state) of an order's shipping address. Other fields (name, phone, country) are kept.
+ */
+export async function updateShopifyShippingAddress(
+  shop: string,
+  orderId: string,
+  address: { address1: string; city: string; zip: string; province?: string }
+): Promise<{ success: boolean; error?: string }> {
+  const { admin } = await unauthenticated.admin(shop);
+  const gid = orderId.startsWith('gid://') ? orderId : `gid://shopify/Order/${orderId}`;
+
+  // orderUpdate replaces the whole address, so start from the current one
+  const currentRes = await admin.graphql(
+    `#graphql
+    query orderShippingAddress($id: ID!) {
+      order(id: $id) {
+        shippingAddress { firstName lastName company address1 address2 city provinceCode countryCodeV2 zip phone }
+      }
+    }`,
+    { variables: { id: gid } }
+  );
+  const currentData = (await currentRes.json()) as GraphQLResponse<{
+    order: { shippingAddress: (Record<string, string | null> & { countryCodeV2: string | null; provinceCode: string | null }) | null } | null;
+  }>;
+  const current = currentData?.data?.order?.shippingAddress;
+  if (!current) return { success: false, error: 'Order has no shipping address' };
+
+  const { countryCodeV2, provinceCode, ...rest } = current;
+  const shippingAddress = {
+    ...rest,
+    countryCode: countryCodeV2,
+    // A state typed by the merchant replaces the code Shopify had resolved
+    ...(address.province ? { province: address.province } : { provinceCode }),
+    address1: address.address1,
+    address2: '',
+    city: address.city,
+    zip: address.zip,
+  };
+
+  const res = await admin.graphql(
+    `#graphql
+    mutation updateShippingAddress($input: OrderInput!) {
+      orderUpdate(input: $input) {
+        order { id }
+        userErrors { field message }
+      }
+    }`,
+    { variables: { input: { id: gid, shippingAddress } } }
+  );
+  const data = (await res.json()) as GraphQLResponse<{ orderUpdate: UserErrorsPayload }>;
+
+  const errors = data?.data?.orderUpdate?.userErrors || [];
+  if (errors.length > 0) {
+    const errorMsg = userErrorMessage(errors);
+    console.error('[GraphQL Order] orderUpdate failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  return { success: true };
+}
+
+/**
+ * Replace the order note (the text merchants see on the Shopify order page).
+ */
+export async function updateShopifyOrderNote(shop: string, orderId: string, note: string): Promise<{ success: boolean; error?: string }> {
+  const { admin } = await unauthenticated.admin(shop);
+  const gid = orderId.startsWith('gid://') ? orderId : `gid://shopify/Order/${orderId}`;
+
+  const res = await admin.graphql(
+    `#graphql
+    mutation updateOrderNote($input: OrderInput!) {
+      orderUpdate(input: $input) {
+        order { id }
+        userErrors { field message }
+      }
+    }`,
+    { variables: { input: { id: gid, note } } }
+  );
+  const data = (await res.json()) as GraphQLResponse<{ orderUpdate: UserErrorsPayload }>;
+
+  const errors = data?.data?.orderUpdate?.userErrors || [];
+  if (errors.length > 0) {
+    const errorMsg = userErrorMessage(errors);
+    console.error('[GraphQL Order] orderUpdate (note) failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  return { success: true };
+}
+
+export interface ShopifyEditableLineItem {
+  /** LineItem GID */
+  id: string;
+  title: string;
+  variantTitle: string | null;
+  sku: string | null;
+  variantId: string | null;
+  quantity: number;
+  unfulfilledQuantity: number;
+  unitPrice: number;
+}
+
+export interface ShopifyEditableOrder {
+  id: string;
+  updatedAt: string;
+  cancelled: boolean;
+  fulfillmentStatus: string;
+  total: number;
+  lineItems: ShopifyEditableLineItem[];
+}
+
+/** An order as selected by EDITABLE_ORDER_FIELDS */
+interface EditableOrderNode {
+  id: string;
+  updatedAt: string;
+  cancelledAt: string | null;
+  displayFulfillmentStatus: string | null;
+  currentTotalPriceSet: { shopMoney: { amount: string } } | null;
+  lineItems: {
+    nodes: {
+      id: string;
+      title: string;
+      variantTitle: string | null;
+      sku: string | null;
+      currentQuantity: number;
+      unfulfilledQuantity: number | null;
+      variant: { id: string } | null;
+      originalUnitPriceSet: { shopMoney: { amount: string } } | null;
+    }[];
+  } | null;
+}
+
+function mapEditableOrder(order: EditableOrderNode): ShopifyEditableOrder {
+  return {
+    id: order.id,
+    updatedAt: order.updatedAt,
+    cancelled: !!order.cancelledAt,
+    fulfillmentStatus: order.displayFulfillmentStatus || 'UNFULFILLED',
+    total: parseFloat(order.currentTotalPriceSet?.shopMoney?.amount || '0'),
+    lineItems: (order.lineItems?.nodes || [])
+      .filter((item) => item.currentQuantity > 0)
+      .map((item) => ({
+        id: item.id,
+        title: item.title,
+        variantTitle: item.variantTitle || null,
+        sku: item.sku || null,
+        variantId: item.variant?.id || null,
+        quantity: item.currentQuantity,
+        unfulfilledQuantity: item.unfulfilledQuantity ?? item.currentQuantity,
+        unitPrice: parseFloat(item.originalUnitPriceSet?.shopMoney?.amount || '0'),
+      })),
+  };
+}
+
+const EDITABLE_ORDER_FIELDS = `
+  id
+  updatedAt
+  cancelledAt
+  displayFulfillmentStatus
+  currentTotalPriceSet { shopMoney { amount } }
+  lineItems(first: 50) {
+    nodes {
+      id title variantTitle sku currentQuantity unfulfilledQuantity
+      variant { id }
+      originalUnitPriceSet { shopMoney { amount } }
+    }
+  }
+`;
+
+/**
+ * Current line items and totals of a Shopify order, for the edit form.
+ */
+export async function getShopifyEditableOrder(shop: string, orderId: string): Promise<ShopifyEditableOrder | null> {
+  const { admin } = await unauthenticated.admin(shop);
+  const gid = orderId.startsWith('gid://') ? orderId : `gid://shopify/Order/${orderId}`;
+
+  const res = await admin.graphql(
+    `#graphql
+    query editableOrder($id: ID!) {
+      order(id: $id) { ${EDITABLE_ORDER_FIELDS} }
+    }`,
+    { variables: { id: gid } }
+  );
+  const data = (await res.json()) as GraphQLResponse<{ order: EditableOrderNode | null }>;
+  const order = data?.data?.order;
+  return order ? mapEditableOrder(order) : null;
+}
+
+export interface ShopifyOrderItemEdit {
+  /** New quantities keyed by LineItem GID; 0 removes the item */
+  quantities: Record<string, number>;
+  additions: Array<{ variantId: string; quantity: number }>;
+  staffNote?: string;
+}
+
+/**
+ * Change quantities and add variants through Shopify's order editing API
+ * (begin → set quantity / add variant → commit). The customer is not
+ * notified. Removed units are not restocked here — inventory follows our
+ * own reservations (see editInventory in inventory-sync.server).
+ */
+export async function editShopifyOrderItems(
+  shop: string,
+  orderId: string,
+  edit: ShopifyOrderItemEdit
+): Promise<{ success: true; order: ShopifyEditableOrder } | { success: false; error: string }> {
+  const { admin } = await unauthenticated.admin(shop);
+  const gid = orderId.startsWith('gid://') ? orderId : `gid://shopify/Order/${orderId}`;
+
+  const beginRes = await admin.graphql(
+    `#graphql
+    mutation beginEdit($id: ID!) {
+      orderEditBegin(id: $id) {
+        calculatedOrder { id lineItems(first: 50) { nodes { id } } }
+        userErrors { field message }
+      }
+    }`,
+    { variables: { id: gid } }
+  );
+  const beginData = (await beginRes.json()) as GraphQLResponse<{
+    orderEditBegin: { calculatedOrder: { id: string; lineItems: { nodes: { id: string }[] } | null } | null; userErrors: GraphQLUserError[] } | null;
+  }>;
+  const begin = beginData?.data?.orderEditBegin;
+  if (!begin?.calculatedOrder || begin.userErrors?.length) {
+    const errorMsg = userErrorMessage(begin?.userErrors || []) || 'Could not start the order edit';
+    console.error('[GraphQL Order] orderEditBegin failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  const calculatedOrderId: string = begin.calculatedOrder.id;
+
+  // Calculated line items carry the same numeric id as the order's line items
+  const calculatedIds = new Map<string, string>(
+    (begin.calculatedOrder.lineItems?.nodes || []).map((node) => [node.id.split('/').pop() || node.id, node.id])
+  );
+
+  for (const [lineItemId, quantity] of Object.entries(edit.quantities)) {
+    const calculatedLineItemId = calculatedIds.get(String(lineItemId).split('/').pop() || '');
+    if (!calculatedLineItemId) return { success: false, error: 'An item on this order can no longer be edited' };
+
+    const res = await admin.graphql(
+      `#graphql
+      mutation setQuantity($id: ID!, $lineItemId: ID!, $quantity: Int!) {
+        orderEditSetQuantity(id: $id, lineItemId: $lineItemId, quantity: $quantity, restock: false) {
+          calculatedLineItem { id }
+          userErrors { field message }
+        }
+      }`,
+      { variables: { id: calculatedOrderId, lineItemId: calculatedLineItemId, quantity } }
+    );
+    const data = (await res.json()) as GraphQLResponse<{ orderEditSetQuantity: UserErrorsPayload }>;
+    const errors = data?.data?.orderEditSetQuantity?.userErrors || [];
+    if (errors.length > 0) {
+      console.error('[GraphQL Order] orderEditSetQuantity failed:', userErrorMessage(errors));
+      return { success: false, error: userErrorMessage(errors) };
+    }
+  }
+
+  for (const addition of edit.additions) {
+    const variantGid = addition.variantId.startsWith('gid://') ? addition.variantId : `gid://shopify/ProductVariant/${addition.variantId}`;
+    const res = await admin.graphql(
+      `#graphql
+      mutation addVariant($id: ID!, $variantId: ID!, $quantity: Int!) {
+        orderEditAddVariant(id: $id, variantId: $variantId, quantity: $quantity, allowDuplicates: false) {
+          calculatedLineItem { id }
+          userErrors { field message }
+        }
+      }`,
+      { variables: { id: calculatedOrderId, variantId: variantGid, quantity: addition.quantity } }
+    );
+    const data = (await res.json()) as GraphQLResponse<{ orderEditAddVariant: UserErrorsPayload }>;
+    const errors = data?.data?.orderEditAddVariant?.userErrors || [];
+    if (errors.length > 0) {
+      console.error('[GraphQL Order] orderEditAddVariant failed:', userErrorMessage(errors));
+      return { success: false, error: userErrorMessage(errors) };
+    }
+  }
+
+  const commitRes = await admin.graphql(
+    `#graphql
+    mutation commitEdit($id: ID!, $staffNote: String) {
+      orderEditCommit(id: $id, notifyCustomer: false, staffNote: $staffNote) {
+        order { ${EDITABLE_ORDER_FIELDS} }
+        userErrors { field message }
+      }
+    }`,
+    { variables: { id: calculatedOrderId, staffNote: edit.staffNote || null } }
+  );
+  const commitData = (await commitRes.json()) as GraphQLResponse<{
+    orderEditCommit: { order: EditableOrderNode | null; userErrors: GraphQLUserError[] } | null;
+  }>;
+  const commit = commitData?.data?.orderEditCommit;
+  if (!commit?.order || commit.userErrors?.length) {
+    const errorMsg = userErrorMessage(commit?.userErrors || []) || 'Could not save the order edit';
+    console.error('[GraphQL Order] orderEditCommit failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  return { success: true, order: mapEditableOrder(commit.order) };
+}
+
+/**
+ * Fulfill every open item on a Shopify order with the courier's tracking
+ * info, or without tracking when the merchant ships it themselves. Returns
+ * the fulfillment GID, needed to cancel it later.
+ */
+export async function fulfillShopifyOrder(
+  shop: string,
+  orderId: string,
+  tracking: { number: string; company?: string; url?: string } | null,
+  notifyCustomer = false
+): Promise<{ success: boolean; fulfillmentId?: string; error?: string }> {
+  const { admin } = await unauthenticated.admin(shop);
+  const gid = orderId.startsWith('gid://') ? orderId : `gid://shopify/Order/${orderId}`;
+
+  const ordersRes = await admin.graphql(
+    `#graphql
+    query openFulfillmentOrders($id: ID!) {
+      order(id: $id) {
+        fulfillmentOrders(first: 10) { nodes { id status } }
+      }
+    }`,
+    { variables: { id: gid } }
+  );
+  const ordersData = (await ordersRes.json()) as GraphQLResponse<{
+    order: { fulfillmentOrders: { nodes: { id: string; status: string }[] } } | null;
+  }>;
+  const fulfillmentOrders = ordersData?.data?.order?.fulfillmentOrders?.nodes || [];
+  const open = fulfillmentOrders.filter((fo) => fo.status === 'OPEN' || fo.status === 'IN_PROGRESS');
+  if (open.length === 0) return { success: false, error: 'Nothing left to fulfill on this order' };
+
+  const res = await admin.graphql(
+    `#graphql
+    mutation fulfillOrder($fulfillment: FulfillmentInput!) {
+      fulfillmentCreate(fulfillment: $fulfillment) {
+        fulfillment { id }
+        userErrors { field message }
+      }
+    }`,
+    {
+      variables: {
+        fulfillment: {
+          lineItemsByFulfillmentOrder: open.map((fo) => ({ fulfillmentOrderId: fo.id })),
+          trackingInfo: tracking
+            ? { number: tracking.number, company: tracking.company || null, url: tracking.url || null }
+            : null,
+          notifyCustomer,
+        },
+      },
+    }
+  );
+  const data = (await res.json()) as GraphQLResponse<{
+    fulfillmentCreate: { fulfillment: { id: string } | null; userErrors: GraphQLUserError[] } | null;
+  }>;
+
+  const errors = data?.data?.fulfillmentCreate?.userErrors || [];
+  if (errors.length > 0) {
+    const errorMsg = userErrorMessage(errors);
+    console.error('[GraphQL Order] fulfillmentCreate failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  return { success: true, fulfillmentId: data?.data?.fulfillmentCreate?.fulfillment?.id };
+}
+
+/**
+ * Cancel a fulfillment (when its shipment is cancelled with the courier),
+ * which reopens the items for fulfillment.
+ */
+export async function cancelShopifyFulfillment(shop: string, fulfillmentId: string): Promise<{ success: boolean; error?: string }> {
+  const { admin } = await unauthenticated.admin(shop);
+
+  const res = await admin.graphql(
+    `#graphql
+    mutation cancelFulfillment($id: ID!) {
+      fulfillmentCancel(id: $id) {
+        fulfillment { id }
+        userErrors { field message }
+      }
+    }`,
+    { variables: { id: fulfillmentId } }
+  );
+  const data = (await res.json()) as GraphQLResponse<{ fulfillmentCancel: UserErrorsPayload }>;
+
+  const errors = data?.data?.fulfillmentCancel?.userErrors || [];
+  if (errors.length > 0) {
+    const errorMsg = userErrorMessage(errors);
+    console.error('[GraphQL Order] fulfillmentCancel failed:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+  return { success: true };
+}
@@ -14,10 +14,12 @@ import {
     markSyncSyncing,
     markSynced,
     markSyncFailed,
-    supabase,
+    orderLogsForShop,
+    recordSyncedEvent,
 } from '../config/supabase.server';
 import { createPendingOrder } from './shopify-graphql-orders.server';
 import { resolveCountryForOrder } from './contextual-pricing.server';
+import { normalizePhoneNumber } from '../utils/phone';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -38,9 +40,15 @@ export function toNumericVariantId(vid: string | null | undefined): number | nul
     return isNaN(num) || num === 0 ? null : num;
 }
 
-export function formatPhoneE164(phone: string): string {
+/**
+ * E.164 for Shopify. Parsed for the order's country when known; the legacy
+ * guess (10 digits → India) only applies when the number can't be parsed.
+ */
+export function formatPhoneE164(phone: string, country?: string | null): string {
     const digits = phone.replace(/[^\d]/g, '');
     if (!digits) return '';
+    const normalized = normalizePhoneNumber(phone, country);
+    if (normalized) return normalized;
     if (phone.startsWith('+')) return phone;
     if (digits.length === 10) return `+91${digits}`;
     return `+${digits}`;
@@ -97,12 +105,12 @@ interface ShopifySyncResult {
  * Create a Shopify order in the background for the given order log ID.
  * Safe to call fire-and-forget; all errors are caught and written to the DB.
  */
-export async function createShopifyOrderBackground(orderId: string): Promise<ShopifySyncResult> {
+export async function createShopifyOrderBackground(shopDomain: string, orderId: string): Promise<ShopifySyncResult> {
     const id = String(orderId);
     console.log('[SYNC] Starting background sync for order', id);
 
     // ── 1. Load order from DB ──
-    const order = await getOrderById(id);
+    const order = await getOrderById(shopDomain, id);
     if (!order) {
         console.error('[SYNC] Order not found:', id);
         return { success: false, error: 'Order not found' };
@@ -121,9 +129,14 @@ export async function createShopifyOrderBackground(orderId: string): Promise<Sho
         console.log('[SYNC] Already in progress, skipping:', id);
         return { success: false, error: 'Order sync already in progress' };
     }
+    // Cancelled in the dashboard before it ever reached Shopify
+    if (order.status === 'cancelled') {
+        console.log('[SYNC] Order cancelled, skipping:', id);
+        return { success: false, error: 'Order was cancelled' };
+    }
 
     // ── 3. Mark syncing ──
-    await markSyncSyncing(id);
+    await markSyncSyncing(shopDomain, id);
     console.log('STEP 2: syncing set for order', id);
 
     const currentAttempt: number = order.sync_attempts || 0;
@@ -139,7 +152,6 @@ export async function createShopifyOrderBackground(orderId: string): Promise<Sho
         const nameParts = customerName.trim().split(/\s+/);
         const firstName = nameParts[0] || 'Customer';
         const lastName = nameParts.slice(1).join(' ') || '';
-        const formattedPhone = formatPhoneE164(order.customer_phone || '');
         const customerAddress: string = order.customer_address || body?.customerAddress || body?.address || '';
         
         const orderCountry = await resolveCountryForOrder({
@@ -147,6 +159,7 @@ export async function createShopifyOrderBackground(orderId: string): Promise<Sho
             detectedCountry: body?.detectedCountry,
             shop: order.shop_domain,
         });
+        const formattedPhone = formatPhoneE164(order.customer_phone || '', orderCountry);
         
         const customerCity: string = order.city || body?.customerCity || body?.city || '';
         const customerState: string = order.state || body?.customerState || body?.state || '';
@@ -305,8 +318,7 @@ export async function createShopifyOrderBackground(orderId: string): Promise<Sho
 
         console.log('[SYNC] Shopify success:', shopifyOrderName, '— writing to DB...');
 
-        const { data: updateData, error: updateError } = await supabase
-            .from('order_logs')
+        const { data: updateData, error: updateError } = await orderLogsForShop(shopDomain)
             .update({
                 shopify_order_id: shopifyOrderId,
                 shopify_order_name: shopifyOrderName,
@@ -320,8 +332,7 @@ export async function createShopifyOrderBackground(orderId: string): Promise<Sho
         if (updateError) {
             console.error('❌ SUPABASE UPDATE FAILED for order', id, ':', updateError);
             // Fail-safe: revert to failed_sync so retry can pick it up
-            await supabase
-                .from('order_logs')
+            await orderLogsForShop(shopDomain)
                 .update({
                     sync_status: 'failed_sync',
                     sync_error: `DB update failed: ${updateError.message}`,
@@ -335,6 +346,7 @@ export async function createShopifyOrderBackground(orderId: string): Promise<Sho
         } else {
             console.log('✅ SUPABASE UPDATE SUCCESS:', updateData);
             console.log('STEP 4: DB updated — order', id, 'marked as synced:', shopifyOrderName);
+            await recordSyncedEvent(shopDomain, id, shopifyOrderId, shopifyOrderName);
             return {
                 success: true,
                 shopifyOrderId,
@@ -344,7 +356,7 @@ export async function createShopifyOrderBackground(orderId: string): Promise<Sho
 
     } catch (err: any) {
         console.error('❌ Sync failed for order', id, ':', err.message);
-        await markSyncFailed(id, err.message || 'Unknown error', currentAttempt);
+        await markSyncFailed(shopDomain, id, err.message || 'Unknown error', currentAttempt);
         return {
             success: false,
             error: err.message || 'Unknown error',
@@ -0,0 +1,22 @@
+/**
+ * Console SMS provider — development only.
+ * Prints messages to the server log instead of sending them. Replies are
+ * simulated by posting { "from": "+919876543210", "text": "1" } to the reply webhook.
+ */
+
+import { toE164, type SmsProvider } from './sms-provider.server';
+
+export function createConsoleProvider(): SmsProvider {
+    return {
+        id: 'console',
+        async send(message) {
+            console.log(`[SMS:console] → ${message.to} (${message.template}): ${message.body}`);
+            return { success: true, messageId: `console_${Date.now()}` };
+        },
+        async parseInbound(request) {
+            const data = await request.json().catch(() => null);
+            if (!data?.from || typeof data.text !== 'string') return null;
+            return { from: toE164(String(data.from)), text: data.text };
+        },
+    };
+}
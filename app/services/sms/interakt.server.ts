@@ -0,0 +1,81 @@
+/**
+ * Interakt provider — WhatsApp template messages.
+ * Template values fill the body placeholders {{1}}, {{2}}, … in order.
+ */
+
+import { parsePhoneNumberFromString } from 'libphonenumber-js/max';
+import { toE164, type SmsProvider, type SmsTemplateKey } from './sms-provider.server';
+
+interface InteraktConfig {
+    /** Base64 API key from Interakt developer settings */
+    apiKey: string;
+    /** Approved template names keyed by template slot */
+    templates: Partial<Record<SmsTemplateKey, string>>;
+}
+
+const INTERAKT_MESSAGE_URL = 'https://api.interakt.ai/v1/public/message/';
+
+/** Message API reply */
+interface InteraktMessageResponse {
+    result?: boolean;
+    message?: string;
+    id?: string;
+}
+
+/** Webhook body for an incoming customer message */
+interface InteraktWebhookPayload {
+    type?: string;
+    data?: {
+        customer?: { country_code?: string; phone_number?: string };
+        message?: { message?: unknown };
+    };
+}
+
+export function createInteraktProvider(config: InteraktConfig): SmsProvider {
+    return {
+        id: 'interakt',
+        async send(message) {
+            const templateName = config.templates[message.template];
+            if (!templateName) return { success: false, error: `No Interakt template configured for ${message.template}` };
+
+            // Interakt takes the country code and national number separately
+            const phone = parsePhoneNumberFromString(message.to);
+            if (!phone) return { success: false, error: 'Invalid recipient phone number' };
+
+            try {
+                const response = await fetch(INTERAKT_MESSAGE_URL, {
+                    method: 'POST',
+                    headers: {
+                        Authorization: `Basic ${config.apiKey}`,
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        countryCode: `+${phone.countryCallingCode}`,
+                        phoneNumber: phone.nationalNumber,
+                        type: 'Template',
+                        template: {
+                            name: templateName,
+                            languageCode: message.language || 'en',
+                            bodyValues: message.templateValues,
+                        },
+                    }),
+                });
+                const data: InteraktMessageResponse = await response.json().catch(() => ({}));
+                if (!response.ok || data?.result === false) {
+                    return { success: false, error: data?.message || `Interakt error ${response.status}` };
+                }
+                return { success: true, messageId: data?.id };
+            } catch (error) {
+                return { success: false, error: error instanceof Error ? error.message : 'Interakt request failed' };
+            }
+        },
+        async parseInbound(request) {
+            const payload: InteraktWebhookPayload | null = await request.json().catch(() => null);
+            if (payload?.type !== 'message_received') return null;
+            const customer = payload.data?.customer;
+            const text = payload.data?.message?.message;
+            if (!customer?.phone_number || typeof text !== 'string') return null;
+            return { from: toE164(`${customer.country_code || ''}${customer.phone_number}`), text };
+        },
+    };
+}
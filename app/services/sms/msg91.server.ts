@@ -0,0 +1,75 @@
+/**
+ * MSG91 provider — Flow API (DLT-registered templates).
+ * Template values are passed as var1, var2, … so a flow reads ##var1##.
+ */
+
+import { toE164, type SmsProvider, type SmsTemplateKey } from './sms-provider.server';
+
+interface Msg91Config {
+    authKey: string;
+    /** Flow template IDs keyed by template slot */
+    templates: Partial<Record<SmsTemplateKey, string>>;
+}
+
+const MSG91_FLOW_URL = 'https://control.msg91.com/api/v5/flow';
+
+/** Flow API reply — `message` is the request id on success, the error otherwise */
+interface Msg91FlowResponse {
+    type?: 'success' | 'error';
+    message?: string;
+}
+
+/** Inbound SMS (mobile / message) or WhatsApp (customerNumber / text) webhook fields */
+interface Msg91InboundPayload {
+    mobile?: string;
+    sender?: string;
+    customerNumber?: string;
+    message?: unknown;
+    content?: unknown;
+    text?: unknown;
+}
+
+export function createMsg91Provider(config: Msg91Config): SmsProvider {
+    return {
+        id: 'msg91',
+        async send(message) {
+            const templateId = config.templates[message.template];
+            if (!templateId) return { success: false, error: `No MSG91 template configured for ${message.template}` };
+
+            const recipient: Record<string, string> = { mobiles: message.to.replace(/^\+/, '') };
+            message.templateValues.forEach((value, i) => {
+                recipient[`var${i + 1}`] = value;
+            });
+
+            try {
+                const response = await fetch(MSG91_FLOW_URL, {
+                    method: 'POST',
+                    headers: {
+                        authkey: config.authKey,
+                        'Content-Type': 'application/json',
+                        accept: 'application/json',
+                    },
+                    body: JSON.stringify({ template_id: templateId, short_url: '0', recipients: [recipient] }),
+                });
+                const data: Msg91FlowResponse = await response.json().catch(() => ({}));
+                if (!response.ok || data?.type === 'error') {
+                    return { success: false, error: data?.message || `MSG91 error ${response.status}` };
+                }
+                return { success: true, messageId: data?.message };
+            } catch (error) {
+                return { success: false, error: error instanceof Error ? error.message : 'MSG91 request failed' };
+            }
+        },
+        async parseInbound(request) {
+            // Inbound SMS posts mobile / message; the WhatsApp webhook posts customerNumber / text
+            const isJson = request.headers.get('content-type')?.includes('application/json');
+            const data: Msg91InboundPayload | null = isJson
+                ? await request.json().catch(() => null)
+                : Object.fromEntries((await request.formData().catch(() => new FormData())).entries());
+            const from = data?.mobile || data?.sender || data?.customerNumber;
+            const text = data?.message ?? data?.content ?? data?.text;
+            if (!from || typeof text !== 'string') return null;
+            return { from: toE164(String(from)), text };
+        },
+    };
+}
@@ -0,0 +1,111 @@
+/**
+ * SMS / WhatsApp provider
+ * ============================================================================
+ * Every outbound customer message (OTP codes, order confirmations, failed
+ * delivery follow-ups) goes
+ * through the SmsProvider interface so the calling code never knows which
+ * vendor the merchant connected on the Integrations page. Customer replies
+ * come back through the same adapter's parseInbound (webhooks.sms.reply).
+ *
+ * Free-text providers (Twilio, console) send `body`. Template providers
+ * (MSG91 flows, Interakt WhatsApp templates) send the merchant's approved
+ * template for `template` with `templateValues` filled in order — operators
+ * in India only deliver pre-registered templates.
+ *
+ * In development, with nothing connected, messages are printed to the server
+ * console so the OTP and confirmation flows can be exercised without a
+ * vendor account; replies can be simulated by posting { from, text } JSON to
+ * the reply webhook.
+ * ============================================================================
+ */
+
+import { getIntegrationSettings } from '../../config/supabase.server';
+import type { SmsProviderId, SmsWhatsappConfig } from '../../config/integrations.types';
+import { createConsoleProvider } from './console.server';
+import { createInteraktProvider } from './interakt.server';
+import { createMsg91Provider } from './msg91.server';
+import { createTwilioProvider } from './twilio.server';
+
+export const SMS_INTEGRATION_ID = 'sms_whatsapp';
+
+/** Template slots a merchant configures on the Integrations page */
+export type SmsTemplateKey = 'otp' | 'order_confirmation' | 'ndr';
+
+export interface SmsMessage {
+    /** Recipient in E.164 (+919876543210) */
+    to: string;
+    template: SmsTemplateKey;
+    body: string;
+    templateValues: string[];
+    /** Language code for template providers that keep one template per language */
+    language?: string;
+}
+
+export interface SmsInboundMessage {
+    /** Sender in E.164 */
+    from: string;
+    text: string;
+}
+
+export interface SmsSendResult {
+    success: boolean;
+    messageId?: string;
+    error?: string;
+}
+
+export interface SmsProvider {
+    id: SmsProviderId;
+    send(message: SmsMessage): Promise<SmsSendResult>;
+    /** Read a customer reply from the provider's inbound webhook; null if the request isn't a text message */
+    parseInbound(request: Request): Promise<SmsInboundMessage | null>;
+}
+
+/**
+ * Digits-only phone (as many providers send it) → E.164.
+ */
+export function toE164(phone: string): string {
+    const digits = phone.replace(/^whatsapp:/, '').replace(/\D/g, '');
+    return digits ? `+${digits}` : '';
+}
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * Build a provider from saved config. Returns null when required credentials
+ * are missing, or for the console provider in production.
+ */
+export function createSmsProvider(config: SmsWhatsappConfig): SmsProvider | null {
+    switch (config.provider) {
+        case 'twilio':
+            if (!config.account_sid || !config.api_key || !config.sender) return null;
+            return createTwilioProvider({ accountSid: config.account_sid, authToken: config.api_key, from: config.sender });
+        case 'msg91':
+            if (!config.api_key) return null;
+            return createMsg91Provider({ authKey: config.api_key, templates: { otp: config.otp_template, order_confirmation: config.confirmation_template, ndr: config.ndr_template } });
+        case 'interakt':
+            if (!config.api_key) return null;
+            return createInteraktProvider({ apiKey: config.api_key, templates: { otp: config.otp_template, order_confirmation: config.confirmation_template, ndr: config.ndr_template } });
+        case 'console':
+            return isProduction ? null : createConsoleProvider();
+        default:
+            return null;
+    }
+}
+
+/**
+ * The provider connected for a shop, or null when messages can't be sent.
+ */
+export async function getSmsProvider(shopDomain: string): Promise<SmsProvider | null> {
+    try {
+        const settings = await getIntegrationSettings(shopDomain, SMS_INTEGRATION_ID);
+        if (settings?.connected && settings.enabled) {
+            const provider = createSmsProvider(settings.config as unknown as SmsWhatsappConfig);
+            if (provider) return provider;
+            console.error(`[SMS] ${shopDomain} has an incomplete SMS integration config`);
+        }
+    } catch (error) {
+        console.error('[SMS] Failed to load integration settings:', error);
+    }
+
+    return isProduction ? null : createConsoleProvider();
+}
@@ -0,0 +1,59 @@
+/**
+ * Twilio provider — Programmable Messaging REST API.
+ * A sender of the form whatsapp:+14155238886 sends over WhatsApp instead of SMS.
+ */
+
+import { toE164, type SmsProvider } from './sms-provider.server';
+
+interface TwilioConfig {
+    accountSid: string;
+    authToken: string;
+    from: string;
+}
+
+/** The Messages API reply: the message on success, an error body otherwise */
+interface TwilioMessageResponse {
+    sid?: string;
+    message?: string;
+}
+
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+    const isWhatsapp = config.from.startsWith('whatsapp:');
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`;
+    const auth = Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64');
+
+    return {
+        id: 'twilio',
+        async send(message) {
+            try {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    headers: {
+                        Authorization: `Basic ${auth}`,
+                        'Content-Type': 'application/x-www-form-urlencoded',
+                    },
+                    body: new URLSearchParams({
+                        To: isWhatsapp ? `whatsapp:${message.to}` : message.to,
+                        From: config.from,
+                        Body: message.body,
+                    }),
+                });
+                const data: TwilioMessageResponse = await response.json().catch(() => ({}));
+                if (!response.ok) {
+                    return { success: false, error: data?.message || `Twilio error ${response.status}` };
+                }
+                return { success: true, messageId: data?.sid };
+            } catch (error) {
+                return { success: false, error: error instanceof Error ? error.message : 'Twilio request failed' };
+            }
+        },
+        async parseInbound(request) {
+            // Incoming message webhook: form-encoded From / Body
+            const form = await request.formData().catch(() => null);
+            const from = form?.get('From');
+            const body = form?.get('Body');
+            if (typeof from !== 'string' || typeof body !== 'string') return null;
+            return { from: toE164(from), text: body };
+        },
+    };
+}
@@ -0,0 +1,181 @@
+/**
+ * COD Remittance Files
+ *
+ * CSV parsing and column mapping shared by the remittance page (to preview
+ * headers and pick columns) and services/cod-remittance (to reconcile).
+ * Each courier names its settlement columns differently, so the merchant
+ * maps file headers onto the fields below once and can save the mapping as
+ * a preset; built-in presets cover the common aggregator formats.
+ */
+
+export type RemittanceField = 'awb' | 'order' | 'amount' | 'date' | 'utr';
+
+export type RemittanceColumnMap = Partial<Record<RemittanceField, string>>;
+
+export interface RemittancePreset {
+    id: string;
+    name: string;
+    columns: RemittanceColumnMap;
+}
+
+export const REMITTANCE_FIELDS: { key: RemittanceField; label: string; description: string }[] = [
+    { key: 'awb', label: 'AWB', description: 'Waybill / tracking number' },
+    { key: 'order', label: 'Order', description: 'Order name or number (#1001)' },
+    { key: 'amount', label: 'Collected amount', description: 'Cash remitted for the order' },
+    { key: 'date', label: 'Remittance date', description: 'When the courier paid it out' },
+    { key: 'utr', label: 'UTR', description: 'Bank transfer reference' },
+];
+
+/** Ids start with "builtin:" so they can't collide with saved presets */
+export const BUILT_IN_REMITTANCE_PRESETS: RemittancePreset[] = [
+    {
+        id: 'builtin:shiprocket',
+        name: 'Shiprocket',
+        columns: { awb: 'AWB Code', order: 'Order ID', amount: 'COD Amount', date: 'Remittance Date', utr: 'UTR' },
+    },
+    {
+        id: 'builtin:delhivery',
+        name: 'Delhivery',
+        columns: { awb: 'Waybill', order: 'Order ID', amount: 'COD Amount', date: 'Remittance Date', utr: 'UTR No' },
+    },
+];
+
+export const DEFAULT_REMITTANCE_OVERDUE_DAYS = 10;
+
+/** Differences up to this much are rounding, not a short payment */
+export const REMITTANCE_TOLERANCE = 1;
+
+// Guesses for files without a preset; only the date field may mention a date
+const HEADER_PATTERNS: Record<RemittanceField, RegExp> = {
+    awb: /^(?!.*date).*\b(awb|waybill|tracking)\b/i,
+    order: /^(?!.*date).*(\border\b|reference)/i,
+    amount: /^(?!.*date).*\b(cod|remit\w*|collected|amount|net)\b/i,
+    date: /\bdate\b|paid on|remitted on/i,
+    utr: /^(?!.*date).*\b(utr|crf|neft|transaction|bank ref)\b/i,
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF) into rows.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+    return rows;
+}
+
+/**
+ * Pick a header for each field: the preset's column when the file has it,
+ * otherwise the first header that looks like the field.
+ */
+export function guessRemittanceColumns(headers: string[], preset?: RemittanceColumnMap): RemittanceColumnMap {
+    const normalized = headers.map((header) => header.trim().toLowerCase());
+    const columns: RemittanceColumnMap = {};
+    const used = new Set<string>();
+
+    for (const { key } of REMITTANCE_FIELDS) {
+        const wanted = preset?.[key]?.trim().toLowerCase();
+        const index = wanted ? normalized.indexOf(wanted) : -1;
+        if (index >= 0) {
+            columns[key] = headers[index];
+            used.add(headers[index]);
+        }
+    }
+    for (const { key } of REMITTANCE_FIELDS) {
+        if (columns[key]) continue;
+        const match = headers.find((header) => !used.has(header) && HEADER_PATTERNS[key].test(header));
+        if (match) {
+            columns[key] = match;
+            used.add(match);
+        }
+    }
+    return columns;
+}
+
+/**
+ * "₹1,234.50" / "Rs. 1234.5" / "INR 1,234.50" → 1234.5. Null when there's no number.
+ */
+export function parseRemittanceAmount(value: string | null | undefined): number | null {
+    const match = String(value ?? '').replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    if (!match) return null;
+    const amount = Number(match[0]);
+    return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
+
+/**
+ * Settlement dates come as 2026-10-19, 19-10-2026, 19/10/2026 or
+ * "19 Oct 2026", sometimes with a time. Day-first for the slash and dash
+ * forms, as Indian couriers write them. Returns YYYY-MM-DD or null.
+ */
+export function parseRemittanceDate(value: string | null | undefined): string | null {
+    const text = String(value ?? '').trim();
+    if (!text) return null;
+
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+    let date: Date | null = null;
+    if (iso) {
+        date = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    } else if (dayFirst) {
+        const year = Number(dayFirst[3]) < 100 ? 2000 + Number(dayFirst[3]) : Number(dayFirst[3]);
+        date = new Date(Date.UTC(year, Number(dayFirst[2]) - 1, Number(dayFirst[1])));
+    } else {
+        const parsed = new Date(`${text} UTC`);
+        date = Number.isNaN(parsed.getTime()) ? null : parsed;
+    }
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Cash the courier should have collected for an order: the balance for
+ * Partial COD, nothing for fully prepaid orders, the order total otherwise.
+ */
+export function getExpectedCodAmount(order: {
+    payment_method?: string | null;
+    remaining_cod_amount?: number | string | null;
+    final_total?: number | string | null;
+    total_price?: number | string | null;
+}): number {
+    if (order.payment_method === 'full_prepaid') return 0;
+    if (order.payment_method === 'partial_cod') return Number(order.remaining_cod_amount) || 0;
+    return Number(order.final_total ?? order.total_price) || 0;
+}
+
+/**
+ * Order names compare without the leading "#" and case: "#1001" = "1001".
+ */
+export function normalizeOrderRef(value: string | null | undefined): string {
+    return String(value ?? '').trim().replace(/^#/, '').toLowerCase();
+}
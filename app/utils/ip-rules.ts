@@ -0,0 +1,146 @@
+/**
+ * IP Rule Matching Utility
+ *
+ * Shared by the fraud protection service and the admin UI so that list
+ * entries are validated with the same parser that enforces them.
+ *
+ * Supported entry formats:
+ *   - Exact address        203.0.113.7, 2001:db8::1
+ *   - CIDR block           203.0.113.0/24, 2001:db8::/32
+ *   - IPv4 wildcard        203.0.113.*, 10.*.*.*, 10.20.*  (trailing * covers the rest)
+ *   - IPv6 prefix wildcard 2001:db8:*
+ */
+import ipaddr from 'ipaddr.js';
+
+type IpAddress = ipaddr.IPv4 | ipaddr.IPv6;
+
+type ParsedIpRule =
+    | { type: 'exact'; addr: IpAddress }
+    | { type: 'cidr'; range: [IpAddress, number] }
+    | { type: 'ipv4_wildcard'; octets: (number | null)[] }
+    | { type: 'ipv6_wildcard'; prefix: number[] };
+
+/**
+ * Parse an address, unwrapping IPv4-mapped IPv6 (::ffff:1.2.3.4) to IPv4
+ * so both forms match the same rules.
+ */
+function parseAddress(value: string): IpAddress | null {
+    try {
+        return ipaddr.process(value.trim());
+    } catch {
+        return null;
+    }
+}
+
+function parseIpv4Wildcard(entry: string): ParsedIpRule | null {
+    const parts = entry.split('.');
+    if (parts.length > 4) return null;
+    // "10.20.*" is shorthand for "10.20.*.*"
+    if (parts.length < 4) {
+        if (parts[parts.length - 1] !== '*') return null;
+        while (parts.length < 4) parts.push('*');
+    }
+
+    const octets: (number | null)[] = [];
+    for (const part of parts) {
+        if (part === '*') {
+            octets.push(null);
+            continue;
+        }
+        if (!/^\d{1,3}$/.test(part)) return null;
+        const value = parseInt(part, 10);
+        if (value > 255) return null;
+        octets.push(value);
+    }
+    return { type: 'ipv4_wildcard', octets };
+}
+
+function parseIpv6Wildcard(entry: string): ParsedIpRule | null {
+    if (entry.includes('::') || !entry.endsWith(':*')) return null;
+    const groups = entry.slice(0, -2).split(':');
+    if (groups.length === 0 || groups.length > 7) return null;
+
+    const prefix: number[] = [];
+    for (const group of groups) {
+        if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+        prefix.push(parseInt(group, 16));
+    }
+    return { type: 'ipv6_wildcard', prefix };
+}
+
+/**
+ * Parse a single block/allow list entry. Returns null if the entry is invalid.
+ */
+export function parseIpRule(entry: string): ParsedIpRule | null {
+    const trimmed = entry.trim();
+    if (!trimmed) return null;
+
+    // ipaddr.js accepts legacy shorthand like "10.1" — only allow dotted quads
+    const isIpv4 = !trimmed.includes(':');
+    if (isIpv4 && !trimmed.includes('*') && !ipaddr.IPv4.isValidFourPartDecimal(trimmed.split('/')[0])) {
+        return null;
+    }
+
+    if (trimmed.includes('/')) {
+        try {
+            return { type: 'cidr', range: ipaddr.parseCIDR(trimmed) };
+        } catch {
+            return null;
+        }
+    }
+
+    if (trimmed.includes('*')) {
+        return isIpv4 ? parseIpv4Wildcard(trimmed) : parseIpv6Wildcard(trimmed);
+    }
+
+    const addr = parseAddress(trimmed);
+    return addr ? { type: 'exact', addr } : null;
+}
+
+/**
+ * Validation message for an entry, or null when it is valid.
+ */
+export function getIpRuleError(entry: string): string | null {
+    if (parseIpRule(entry)) return null;
+    return `"${entry.trim()}" is not a valid IP address, CIDR block or wildcard pattern`;
+}
+
+/**
+ * Collect validation messages for every invalid entry in a list.
+ */
+export function getIpRuleErrors(entries: string[]): string[] {
+    return entries
+        .map(getIpRuleError)
+        .filter((error): error is string => error !== null);
+}
+
+function matchesRule(addr: IpAddress, rule: ParsedIpRule): boolean {
+    switch (rule.type) {
+        case 'exact':
+            return addr.kind() === rule.addr.kind() && addr.toString() === rule.addr.toString();
+        case 'cidr':
+            return addr.kind() === rule.range[0].kind() && addr.match(rule.range);
+        case 'ipv4_wildcard':
+            if (addr.kind() !== 'ipv4') return false;
+            return (addr as ipaddr.IPv4).octets.every(
+                (octet, i) => rule.octets[i] === null || rule.octets[i] === octet
+            );
+        case 'ipv6_wildcard':
+            if (addr.kind() !== 'ipv6') return false;
+            return rule.prefix.every((group, i) => (addr as ipaddr.IPv6).parts[i] === group);
+    }
+}
+
+/**
+ * True when the IP matches any entry in the list. Invalid entries are ignored.
+ */
+export function ipMatchesAnyRule(ip: string | undefined, entries: string[] | undefined): boolean {
+    if (!ip || !entries?.length) return false;
+    const addr = parseAddress(ip);
+    if (!addr) return false;
+
+    return entries.some((entry) => {
+        const rule = parseIpRule(entry);
+        return rule ? matchesRule(addr, rule) : false;
+    });
+}
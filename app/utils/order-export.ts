@@ -0,0 +1,110 @@
+/**
+ * Order Export Columns
+ *
+ * Column catalog shared by the export dialog on the orders page and the
+ * export route. Columns are passed as repeated `col` params in the order the
+ * merchant arranged them; custom form fields use a `custom:<label>` key so
+ * any field label the storefront form sent can be exported.
+ *
+ *   /app/orders/export?format=xlsx&col=shopify_order_name&col=customer_phone&col=custom:Landmark&status=confirmed
+ */
+
+export type OrderExportFormat = 'csv' | 'xlsx';
+
+export interface OrderExportColumn {
+    key: string;
+    label: string;
+}
+
+export interface OrderExportPreset {
+    id: string;
+    name: string;
+    format: OrderExportFormat;
+    columns: string[];
+}
+
+export const CUSTOM_FIELD_COLUMN_PREFIX = 'custom:';
+
+export const ORDER_EXPORT_COLUMNS: OrderExportColumn[] = [
+    { key: 'shopify_order_name', label: 'Shopify order' },
+    { key: 'id', label: 'FoxCOD order ID' },
+    { key: 'created_at', label: 'Date' },
+    { key: 'status', label: 'Status' },
+    { key: 'customer_name', label: 'Customer name' },
+    { key: 'customer_phone', label: 'Phone' },
+    { key: 'customer_email', label: 'Email' },
+    { key: 'customer_address', label: 'Address' },
+    { key: 'city', label: 'City' },
+    { key: 'state', label: 'State' },
+    { key: 'pincode', label: 'Pincode' },
+    { key: 'line_items', label: 'Line items' },
+    { key: 'product_title', label: 'Product' },
+    { key: 'variant_title', label: 'Variant' },
+    { key: 'quantity', label: 'Quantity' },
+    { key: 'total_price', label: 'Order total' },
+    { key: 'payment_method', label: 'Payment method' },
+    { key: 'advance_amount', label: 'Advance paid' },
+    { key: 'remaining_cod_amount', label: 'COD to collect' },
+    { key: 'shipping_label', label: 'Shipping method' },
+    { key: 'shipping_price', label: 'Shipping' },
+    { key: 'coupon_code', label: 'Coupon' },
+    { key: 'discount_amount', label: 'Discount' },
+    { key: 'currency', label: 'Currency' },
+    { key: 'order_source', label: 'Source' },
+    { key: 'sync_status', label: 'Shopify sync' },
+    { key: 'fraud_score', label: 'Risk score' },
+    { key: 'fraud_decision', label: 'Risk decision' },
+    { key: 'customer_notes', label: 'Notes' },
+];
+
+/** Courier-friendly default: who, where, what and how much to collect */
+export const DEFAULT_EXPORT_COLUMNS = [
+    'shopify_order_name',
+    'created_at',
+    'customer_name',
+    'customer_phone',
+    'customer_address',
+    'city',
+    'state',
+    'pincode',
+    'line_items',
+    'total_price',
+    'payment_method',
+    'remaining_cod_amount',
+];
+
+const MAX_EXPORT_COLUMNS = 60;
+
+export function customFieldColumnKey(label: string): string {
+    return `${CUSTOM_FIELD_COLUMN_PREFIX}${label}`;
+}
+
+/**
+ * Header text for a column key ("custom:Landmark" → "Landmark").
+ */
+export function getExportColumnLabel(key: string): string {
+    if (key.startsWith(CUSTOM_FIELD_COLUMN_PREFIX)) {
+        return key.slice(CUSTOM_FIELD_COLUMN_PREFIX.length);
+    }
+    return ORDER_EXPORT_COLUMNS.find((c) => c.key === key)?.label || key;
+}
+
+/**
+ * Keep known columns and non-empty custom field columns, in the given order,
+ * without duplicates. Falls back to the default set when nothing is left.
+ */
+export function normalizeExportColumns(keys: string[]): string[] {
+    const known = new Set(ORDER_EXPORT_COLUMNS.map((c) => c.key));
+    const columns: string[] = [];
+    for (const key of keys) {
+        const isCustom = key.startsWith(CUSTOM_FIELD_COLUMN_PREFIX) && key.length > CUSTOM_FIELD_COLUMN_PREFIX.length && key.length <= 120;
+        if ((known.has(key) || isCustom) && !columns.includes(key)) {
+            columns.push(key);
+        }
+    }
+    return columns.length > 0 ? columns.slice(0, MAX_EXPORT_COLUMNS) : [...DEFAULT_EXPORT_COLUMNS];
+}
+
+export function parseExportFormat(value: string | null): OrderExportFormat {
+    return value === 'xlsx' ? 'xlsx' : 'csv';
+}
@@ -0,0 +1,114 @@
+/**
+ * Order List Filters
+ *
+ * Shared by the orders page and the order_logs query so a filtered view can
+ * be shared as a link: every filter lives in the URL search params, and both
+ * sides parse them with the same function.
+ *
+ *   /app/orders?q=rahul&status=pending&payment=cod&from=2026-01-01&sort=total_price&dir=asc
+ */
+import type { OrderStatus, SyncStatus } from '../config/constants';
+
+export type OrderPaymentMethodFilter = 'cod' | 'partial_cod' | 'full_prepaid' | 'native_cod';
+export type OrderSourceFilter = 'product_page' | 'cart_page' | 'cart_drawer';
+/** 'flagged' = any decision other than allow */
+export type OrderFraudFilter = 'flagged' | 'verify' | 'review' | 'block';
+export type OrderSortField = 'created_at' | 'total_price' | 'customer_name' | 'shopify_order_name' | 'status';
+
+export interface OrderListFilters {
+    /** Order name, phone, customer name or email */
+    q?: string;
+    status?: OrderStatus;
+    /** YYYY-MM-DD, inclusive */
+    from?: string;
+    to?: string;
+    payment?: OrderPaymentMethodFilter;
+    sync?: SyncStatus;
+    source?: OrderSourceFilter;
+    coupon?: string;
+    fraud?: OrderFraudFilter;
+    sort: OrderSortField;
+    dir: 'asc' | 'desc';
+    page: number;
+}
+
+export const ORDER_PAYMENT_METHOD_OPTIONS: { label: string; value: OrderPaymentMethodFilter }[] = [
+    { label: 'COD', value: 'cod' },
+    { label: 'Partial COD', value: 'partial_cod' },
+    { label: 'Full prepaid', value: 'full_prepaid' },
+    { label: 'Native COD checkout', value: 'native_cod' },
+];
+
+export const ORDER_SOURCE_OPTIONS: { label: string; value: OrderSourceFilter }[] = [
+    { label: 'Product page', value: 'product_page' },
+    { label: 'Cart page', value: 'cart_page' },
+    { label: 'Cart drawer', value: 'cart_drawer' },
+];
+
+export const ORDER_FRAUD_OPTIONS: { label: string; value: OrderFraudFilter }[] = [
+    { label: 'Any risk flag', value: 'flagged' },
+    { label: 'Verify', value: 'verify' },
+    { label: 'Review', value: 'review' },
+    { label: 'Block (monitor only)', value: 'block' },
+];
+
+export const ORDER_SORT_OPTIONS: { label: string; value: OrderSortField }[] = [
+    { label: 'Date', value: 'created_at' },
+    { label: 'Total', value: 'total_price' },
+    { label: 'Customer', value: 'customer_name' },
+    { label: 'Order', value: 'shopify_order_name' },
+    { label: 'Status', value: 'status' },
+];
+
+const ORDER_STATUS_VALUES: OrderStatus[] = ['pending', 'confirmed', 'shipped', 'delivered', 'returned', 'cancelled'];
+const SYNC_STATUS_VALUES: SyncStatus[] = ['pending_sync', 'syncing', 'synced', 'failed_sync', 'held'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function pick<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+    return value && (allowed as readonly string[]).includes(value) ? value as T : undefined;
+}
+
+/**
+ * Read filters from URL search params. Unknown or malformed values are dropped.
+ */
+export function parseOrderFilters(params: URLSearchParams): OrderListFilters {
+    const from = params.get('from');
+    const to = params.get('to');
+    return {
+        q: params.get('q')?.trim().slice(0, 100) || undefined,
+        status: pick(params.get('status'), ORDER_STATUS_VALUES),
+        from: from && DATE_PATTERN.test(from) ? from : undefined,
+        to: to && DATE_PATTERN.test(to) ? to : undefined,
+        payment: pick(params.get('payment'), ORDER_PAYMENT_METHOD_OPTIONS.map((o) => o.value)),
+        sync: pick(params.get('sync'), SYNC_STATUS_VALUES),
+        source: pick(params.get('source'), ORDER_SOURCE_OPTIONS.map((o) => o.value)),
+        coupon: params.get('coupon')?.trim().slice(0, 100) || undefined,
+        fraud: pick(params.get('fraud'), ORDER_FRAUD_OPTIONS.map((o) => o.value)),
+        sort: pick(params.get('sort'), ORDER_SORT_OPTIONS.map((o) => o.value)) || 'created_at',
+        dir: params.get('dir') === 'asc' ? 'asc' : 'desc',
+        page: Math.max(1, parseInt(params.get('page') || '1') || 1),
+    };
+}
+
+/**
+ * Filters → search params, leaving out defaults so links stay short.
+ */
+export function serializeOrderFilters(filters: Partial<OrderListFilters>): string {
+    const params = new URLSearchParams();
+    const { sort, dir, page, ...rest } = filters;
+    for (const [key, value] of Object.entries(rest)) {
+        if (value) params.set(key, String(value));
+    }
+    if (sort && sort !== 'created_at') params.set('sort', sort);
+    if (dir === 'asc') params.set('dir', dir);
+    if (page && page > 1) params.set('page', String(page));
+    return params.toString();
+}
+
+/**
+ * True when anything other than sort order / page narrows the list.
+ */
+export function hasActiveOrderFilters(filters: OrderListFilters): boolean {
+    return !!(filters.q || filters.status || filters.from || filters.to || filters.payment
+        || filters.sync || filters.source || filters.coupon || filters.fraud);
+}
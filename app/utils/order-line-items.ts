@@ -0,0 +1,208 @@
+/**
+ * Order Line Items
+ *
+ * What the customer actually bought, one row per item, stored in
+ * order_line_items when the order is logged. Rows are built from the saved
+ * request payload (order_payload) rather than the note text, so the same
+ * builder backfills older orders (scripts/backfill-order-line-items.ts).
+ *
+ * Sources:
+ *   main     - the product (or cart lines) the form was opened for
+ *   bundle   - a quantity-offer tier, or one variant of a multi-variant bundle
+ *   upsell   - tick / 1-click upsells added on top
+ *   downsell - a downsell offer, accepted instead of or on top of the product
+ *
+ * discount_amount is the bundle / quantity-offer discount on that line.
+ * Coupons stay order-level (order_logs.discount_amount).
+ */
+
+export type OrderLineItemSource = 'main' | 'bundle' | 'upsell' | 'downsell';
+
+export interface OrderLineItem {
+    position: number;
+    source: OrderLineItemSource;
+    /** 'tick_upsell' / 'click_upsell', or the bundle tier / slot */
+    source_detail: string | null;
+    product_id: string | null;
+    variant_id: string | null;
+    title: string;
+    variant_title: string | null;
+    quantity: number;
+    unit_price: number;
+    discount_amount: number;
+}
+
+export const ORDER_LINE_ITEM_SOURCES: Record<OrderLineItemSource, { label: string; color: string; background: string }> = {
+    main: { label: 'Product', color: '#374151', background: '#f3f4f6' },
+    bundle: { label: 'Bundle', color: '#1d4ed8', background: '#eff6ff' },
+    upsell: { label: 'Upsell', color: '#059669', background: '#ecfdf5' },
+    downsell: { label: 'Downsell', color: '#92400e', background: '#fffbeb' },
+};
+
+const UPSELL_TYPE_LABELS: Record<string, string> = {
+    tick_upsell: 'Tick Upsell',
+    click_upsell: '1-Click Upsell',
+    downsell: 'Downsell',
+};
+
+/**
+ * Badge text for a line: the upsell type, bundle tier, or source.
+ */
+export function getLineItemLabel(item: Pick<OrderLineItem, 'source' | 'source_detail'>): string {
+    if (item.source_detail && UPSELL_TYPE_LABELS[item.source_detail]) {
+        return UPSELL_TYPE_LABELS[item.source_detail];
+    }
+    return item.source_detail || ORDER_LINE_ITEM_SOURCES[item.source].label;
+}
+
+/**
+ * Line total after the bundle discount.
+ */
+export function getLineItemTotal(item: Pick<OrderLineItem, 'quantity' | 'unit_price' | 'discount_amount'>): number {
+    return roundMoney(item.unit_price * item.quantity - (item.discount_amount || 0));
+}
+
+/**
+ * "Product A × 2; Product B × 1"
+ */
+export function formatLineItemsSummary(items: OrderLineItem[]): string {
+    return items.map((item) => {
+        const title = [item.title, item.variant_title].filter((part) => part && part !== 'Default Title').join(' - ');
+        return `${title} × ${item.quantity}`;
+    }).join('; ');
+}
+
+function roundMoney(amount: number): number {
+    return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+function toNumber(value: unknown): number {
+    const parsed = parseFloat(String(value ?? ''));
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toQuantity(value: unknown): number {
+    const parsed = parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+}
+
+/** Numeric id from a GID or plain id */
+function toId(value: unknown): string | null {
+    if (value === null || value === undefined || value === '') return null;
+    return String(value).split('/').pop() || null;
+}
+
+function toText(value: unknown): string | null {
+    if (value === null || value === undefined || value === '') return null;
+    return String(value);
+}
+
+type PayloadRecord = Record<string, unknown>;
+
+// order_payload is whatever the storefront sent — read it field by field
+function asRecord(value: unknown): PayloadRecord | null {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as PayloadRecord : null;
+}
+
+function asRecords(value: unknown): PayloadRecord[] {
+    return Array.isArray(value) ? value.map(asRecord).filter((item): item is PayloadRecord => item !== null) : [];
+}
+
+/**
+ * Line items for an order_logs row (or an OrderLogEntry about to become one).
+ * Cart items take precedence, then bundle variants, then the single product;
+ * upsells always follow. Orders from before the form sent `downsell_item`
+ * are recognised by the DOWNSELL APPLIED note it wrote.
+ */
+export function buildOrderLineItems(order: {
+    order_payload?: unknown;
+    product_id?: string | null;
+    product_title?: string | null;
+    variant_id?: string | null;
+    variant_title?: string | null;
+    quantity?: number | null;
+    /** Unit price, when the payload doesn't carry one */
+    price?: string | number | null;
+    customer_notes?: string | null;
+}): OrderLineItem[] {
+    const payload = asRecord(order.order_payload) || {};
+    const discountPercent = Math.min(Math.max(toNumber(payload.discountPercent), 0), 100);
+    const items: Omit<OrderLineItem, 'position'>[] = [];
+
+    const withDiscount = (unitPrice: number, quantity: number) => roundMoney(unitPrice * quantity * discountPercent / 100);
+
+    const cartItems = asRecords(payload.cart_items);
+    const variants = asRecords(payload.bundleVariants);
+    const bundleVariants = variants.length > 1 ? variants : [];
+
+    if (cartItems.length > 0) {
+        for (const item of cartItems) {
+            const quantity = toQuantity(item.quantity);
+            const unitPrice = toNumber(item.price);
+            items.push({
+                source: 'main',
+                source_detail: null,
+                product_id: toId(item.productId ?? item.product_id),
+                variant_id: toId(item.variantId ?? item.variant_id ?? item.id),
+                title: toText(item.title) || 'Cart Item',
+                variant_title: toText(item.variant_title) || toText(item.variantTitle),
+                quantity,
+                unit_price: unitPrice,
+                discount_amount: withDiscount(unitPrice, quantity),
+            });
+        }
+    } else if (bundleVariants.length > 0) {
+        bundleVariants.forEach((variant, index) => {
+            const quantity = toQuantity(variant.quantity);
+            const unitPrice = toNumber(variant.price);
+            items.push({
+                source: 'bundle',
+                source_detail: `Item ${index + 1} of ${bundleVariants.length}`,
+                product_id: toId(payload.productId ?? order.product_id),
+                variant_id: toId(variant.variantId ?? variant.variant_id ?? variant.id),
+                title: toText(payload.productTitle) || order.product_title || 'Product',
+                variant_title: toText(variant.title),
+                quantity,
+                unit_price: unitPrice,
+                discount_amount: withDiscount(unitPrice, quantity),
+            });
+        });
+    } else {
+        const quantity = toQuantity(payload.quantity ?? order.quantity);
+        const unitPrice = toNumber(payload.price ?? order.price);
+        const downsellItem = asRecord(payload.downsell_item);
+        const downsellMatch = !downsellItem
+            ? String(payload.notes || order.customer_notes || '').match(/DOWNSELL APPLIED:\s*(.+?)\s*\(([^)]+)\)/)
+            : null;
+        const downsellTitle = toText(downsellItem?.title) || downsellMatch?.[1] || null;
+        const isBundleTier = !downsellTitle && quantity > 1 && discountPercent > 0;
+
+        items.push({
+            source: downsellTitle ? 'downsell' : isBundleTier ? 'bundle' : 'main',
+            source_detail: isBundleTier ? `Buy ${quantity}, ${discountPercent}% off` : null,
+            product_id: toId(payload.productId ?? order.product_id),
+            variant_id: toId(payload.variantId ?? order.variant_id),
+            title: downsellTitle || toText(payload.productTitle) || order.product_title || 'Product',
+            variant_title: order.variant_title || null,
+            quantity,
+            unit_price: unitPrice,
+            discount_amount: downsellTitle ? 0 : withDiscount(unitPrice, quantity),
+        });
+    }
+
+    for (const upsell of asRecords(payload.upsell_items)) {
+        items.push({
+            source: upsell.type === 'downsell' ? 'downsell' : 'upsell',
+            source_detail: toText(upsell.type),
+            product_id: toId(upsell.product_id ?? upsell.productId),
+            variant_id: toId(upsell.variant_id ?? upsell.variantId),
+            title: toText(upsell.title) || 'Upsell Item',
+            variant_title: null,
+            quantity: toQuantity(upsell.quantity),
+            unit_price: toNumber(upsell.price),
+            discount_amount: 0,
+        });
+    }
+
+    return items.map((item, index) => ({ ...item, position: index }));
+}
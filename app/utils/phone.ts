@@ -0,0 +1,103 @@
+/**
+ * Phone Number Utility
+ *
+ * Validates and normalizes customer phone numbers against the resolved order
+ * country using libphonenumber metadata (bundled — no network calls).
+ * Normalized numbers are E.164 (+919876543210) so the same customer always
+ * produces the same stored value regardless of how they typed it.
+ */
+import { parsePhoneNumberFromString, validatePhoneNumberLength } from 'libphonenumber-js/max';
+import type { CountryCode } from 'libphonenumber-js/max';
+
+export type PhoneValidationResult =
+    | { valid: true; e164: string }
+    | { valid: false; error: string };
+
+const LENGTH_ERRORS: Record<string, string> = {
+    TOO_SHORT: 'Phone number is too short',
+    TOO_LONG: 'Phone number is too long',
+    INVALID_LENGTH: 'Phone number has the wrong number of digits',
+    INVALID_COUNTRY: 'Please include your country code (e.g. +91)',
+    NOT_A_NUMBER: 'Please enter a valid phone number',
+};
+
+function toCountryCode(country: string | null | undefined): CountryCode | undefined {
+    const code = country?.trim().toUpperCase();
+    return code && /^[A-Z]{2}$/.test(code) ? (code as CountryCode) : undefined;
+}
+
+/**
+ * Placeholder numbers customers type to get past the form:
+ * 9999999999, 1234567890, 9876543210, 1212121212, 9000000000.
+ * Checked on the national number so the country code doesn't mask it.
+ */
+export function isFakePhoneNumber(nationalNumber: string): boolean {
+    const digits = nationalNumber.replace(/\D/g, '');
+    if (digits.length < 6) return false;
+
+    // One digit repeated, optionally after a single leading digit (9000000000)
+    if (/^(\d)\1+$/.test(digits) || /^\d(\d)\1+$/.test(digits)) return true;
+
+    // Short pattern repeated across the whole number (1212121212, 123123123)
+    if (/^(\d{2,3})\1+$/.test(digits)) return true;
+
+    // Ascending or descending run, wrapping 9→0 / 0→9 (1234567890, 9876543210)
+    let ascending = true;
+    let descending = true;
+    for (let i = 1; i < digits.length; i++) {
+        const prev = Number(digits[i - 1]);
+        const curr = Number(digits[i]);
+        if (curr !== (prev + 1) % 10) ascending = false;
+        if (curr !== (prev + 9) % 10) descending = false;
+    }
+    return ascending || descending;
+}
+
+/**
+ * Validate a phone number for the order's country. Numbers entered with a
+ * +country code are validated against that country instead.
+ */
+export function validatePhoneNumber(raw: string, country?: string | null): PhoneValidationResult {
+    const input = (raw || '').trim();
+    if (!input) return { valid: false, error: 'Phone number is required' };
+
+    const defaultCountry = toCountryCode(country);
+    const phone = parsePhoneNumberFromString(input, defaultCountry);
+
+    if (!phone) {
+        const lengthError = validatePhoneNumberLength(input, defaultCountry);
+        return { valid: false, error: LENGTH_ERRORS[lengthError || 'NOT_A_NUMBER'] || LENGTH_ERRORS.NOT_A_NUMBER };
+    }
+
+    if (!phone.isValid()) {
+        const lengthError = validatePhoneNumberLength(input, defaultCountry);
+        if (lengthError && LENGTH_ERRORS[lengthError]) return { valid: false, error: LENGTH_ERRORS[lengthError] };
+        return { valid: false, error: 'Please enter a valid phone number for your country' };
+    }
+
+    if (isFakePhoneNumber(phone.nationalNumber)) {
+        return { valid: false, error: 'Please enter your real phone number so we can confirm your order' };
+    }
+
+    return { valid: true, e164: phone.number };
+}
+
+/**
+ * Best-effort E.164 for storage and lookups. Returns null when the number
+ * can't be parsed for the given country (callers keep the raw value).
+ */
+export function normalizePhoneNumber(raw: string, country?: string | null): string | null {
+    if (!raw?.trim()) return null;
+    const phone = parsePhoneNumberFromString(raw.trim(), toCountryCode(country));
+    return phone?.isPossible() ? phone.number : null;
+}
+
+/**
+ * Key that identifies a customer however their number was typed or stored:
+ * the last 10 digits, so "+91 98765 43210" and "9876543210" match. Same as
+ * the generated order_logs.customer_phone_key / customers.phone_key columns
+ * (migration v49) — look phones up on those, not on the raw column.
+ */
+export function customerPhoneKey(phone: string | null | undefined): string {
+    return String(phone ?? '').replace(/\D/g, '').slice(-10);
+}
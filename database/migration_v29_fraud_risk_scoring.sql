@@ -0,0 +1,45 @@
+-- Migration V29: Weighted fraud risk scoring
+--
+-- Instead of blocking on the first rule that matches, each rule can now add a
+-- configurable weight to a per-order risk score. The total is compared with
+-- merchant thresholds to decide allow / verify / review / block. The score,
+-- decision and the signals that contributed are stored on order_logs so the
+-- merchant can see why an order was flagged.
+--
+-- Run in Supabase SQL Editor, after migration_v28_deferred_cancellation.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS risk_scoring_enabled BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS risk_weights JSONB NOT NULL DEFAULT '{
+    "blocked_phone": 100,
+    "blocked_email": 100,
+    "blocked_ip": 100,
+    "velocity": 40,
+    "return_history": 25,
+    "address_quality": 15,
+    "postal_code": 30
+  }'::jsonb;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS risk_thresholds JSONB NOT NULL DEFAULT '{
+    "verify": 30,
+    "review": 50,
+    "block": 80
+  }'::jsonb;
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS fraud_score INTEGER;
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS fraud_decision TEXT
+  CHECK (fraud_decision IN ('allow', 'verify', 'review', 'block'));
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS fraud_signals JSONB;
+
+-- Lets the orders list filter/sort by risk.
+CREATE INDEX IF NOT EXISTS idx_order_logs_fraud_score
+  ON order_logs (shop_domain, fraud_score DESC)
+  WHERE fraud_score IS NOT NULL;
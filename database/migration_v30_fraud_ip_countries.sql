@@ -0,0 +1,19 @@
+-- Migration V30: IP country restrictions for fraud protection
+--
+-- Blocked/allowed IP lists now accept CIDR blocks (IPv4 and IPv6) and
+-- wildcard patterns in addition to exact addresses. Those are still stored as
+-- plain strings in the existing TEXT[] columns, so no schema change is needed
+-- for them.
+--
+-- This adds an optional allow/block list of ISO 3166-1 alpha-2 country codes.
+-- The country is resolved from the request IP with the offline GeoIP database
+-- bundled with the app (geoip-country).
+--
+-- Run in Supabase SQL Editor, after migration_v29_fraud_risk_scoring.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS ip_country_mode TEXT NOT NULL DEFAULT 'none'
+  CHECK (ip_country_mode IN ('none', 'allow_only', 'block_only'));
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS ip_countries TEXT[] NOT NULL DEFAULT '{}';
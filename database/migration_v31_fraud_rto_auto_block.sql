@@ -0,0 +1,57 @@
+-- Migration V31: Automatic blocking on return-to-origin (RTO) history
+--
+-- New fraud rule: block (or force prepaid for) a phone/email that has N or
+-- more returned/cancelled orders, or an RTO rate above X%, within the last
+-- D days. The rule is evaluated in the fraud validation path; identifiers it
+-- trips are recorded in fraud_auto_blocks so the merchant can see them on the
+-- Fraud Protection page and unblock them. Unblocked rows are kept with
+-- status = 'unblocked' so the rule doesn't re-add the same customer.
+--
+-- Run in Supabase SQL Editor, after migration_v30_fraud_ip_countries.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS rto_rule_enabled BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS rto_min_returns INTEGER DEFAULT 3;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS rto_max_rate INTEGER DEFAULT 50;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS rto_window_days INTEGER DEFAULT 90;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS rto_action TEXT NOT NULL DEFAULT 'block'
+  CHECK (rto_action IN ('block', 'force_prepaid'));
+
+CREATE TABLE IF NOT EXISTS fraud_auto_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  identifier_type TEXT NOT NULL CHECK (identifier_type IN ('phone', 'email')),
+  identifier TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'rto_history',
+  reason TEXT,
+  returned_count INTEGER NOT NULL DEFAULT 0,
+  total_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'unblocked')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (shop_domain, identifier_type, identifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_auto_blocks_shop_status
+  ON fraud_auto_blocks (shop_domain, status);
+
+-- RTO lookups filter order_logs by customer + status + date
+CREATE INDEX IF NOT EXISTS idx_order_logs_shop_phone_status
+  ON order_logs (shop_domain, customer_phone, status);
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE fraud_auto_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to fraud_auto_blocks" ON fraud_auto_blocks;
+CREATE POLICY "Service role has full access to fraud_auto_blocks" ON fraud_auto_blocks
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,48 @@
+-- Migration V32: Fraud event log
+--
+-- Every blocked or flagged checkout attempt (from api.create-order or the app
+-- proxy) is recorded in fraud_events with the rule that fired and the
+-- normalized phone/email/IP/pincode, so merchants can see whether a rule is
+-- blocking real customers. From the log they can add the customer to the
+-- block list or allow them — allowed phones/emails skip all fraud checks.
+--
+-- Run in Supabase SQL Editor, after migration_v31_fraud_rto_auto_block.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS allowed_phone_numbers TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS allowed_emails TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS fraud_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  rule TEXT,
+  decision TEXT NOT NULL CHECK (decision IN ('allow', 'verify', 'review', 'block')),
+  message TEXT,
+  phone TEXT,
+  email TEXT,
+  ip TEXT,
+  pincode TEXT,
+  cart_value NUMERIC(12, 2),
+  order_source TEXT,
+  payment_method TEXT,
+  score INTEGER,
+  signals JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_events_shop_created
+  ON fraud_events (shop_domain, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_events_shop_rule
+  ON fraud_events (shop_domain, rule);
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE fraud_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to fraud_events" ON fraud_events;
+CREATE POLICY "Service role has full access to fraud_events" ON fraud_events
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,13 @@
+-- Migration V33: Fraud rule monitor mode
+--
+-- Rules listed in monitor_rules are still evaluated, but a match is only
+-- recorded in fraud_events (monitored = true) and the order goes through.
+-- Lets merchants see the impact of a rule before enforcing it.
+--
+-- Run in Supabase SQL Editor, after migration_v32_fraud_events.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS monitor_rules TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE fraud_events
+  ADD COLUMN IF NOT EXISTS monitored BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,16 @@
+-- Migration V34: Fraud email checks
+--
+-- Optional email quality rules: disposable domains (bundled list), role
+-- mailboxes (info@, admin@ ...) and mistyped / mail-less domains, where the
+-- customer is shown a suggested correction (gmial.com → gmail.com).
+--
+-- Run in Supabase SQL Editor, after migration_v33_fraud_monitor_mode.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS block_disposable_emails BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS block_role_emails BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS email_domain_check_enabled BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,62 @@
+-- Migration V35: IP / device velocity limits
+--
+-- The phone/email order limit counts order_logs rows, which abusers dodge by
+-- changing the phone number on every attempt. These limits key on the client
+-- IP and a storefront device fingerprint instead. Accepted orders are counted
+-- in hourly buckets so a check reads a handful of counter rows rather than
+-- scanning order_logs.
+--
+-- Run in Supabase SQL Editor, after migration_v34_fraud_email_checks.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS ip_limit_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS ip_max_orders INTEGER,
+  ADD COLUMN IF NOT EXISTS ip_limit_hours INTEGER,
+  ADD COLUMN IF NOT EXISTS device_limit_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS device_max_orders INTEGER,
+  ADD COLUMN IF NOT EXISTS device_limit_hours INTEGER;
+
+CREATE TABLE IF NOT EXISTS fraud_velocity_counters (
+  shop_domain TEXT NOT NULL,
+  key_type TEXT NOT NULL CHECK (key_type IN ('ip', 'device')),
+  key_value TEXT NOT NULL,
+  bucket_start TIMESTAMPTZ NOT NULL,
+  order_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (shop_domain, key_type, key_value, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_velocity_counters_bucket
+  ON fraud_velocity_counters (bucket_start);
+
+-- Atomically count one order in the key's hourly bucket. Buckets older than
+-- 30 days (the longest window the UI allows) are pruned for the same key.
+CREATE OR REPLACE FUNCTION fraud_increment_velocity(
+  p_shop TEXT,
+  p_key_type TEXT,
+  p_key_value TEXT,
+  p_bucket_start TIMESTAMPTZ
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  DELETE FROM fraud_velocity_counters
+  WHERE shop_domain = p_shop
+    AND key_type = p_key_type
+    AND key_value = p_key_value
+    AND bucket_start < p_bucket_start - INTERVAL '30 days';
+
+  INSERT INTO fraud_velocity_counters (shop_domain, key_type, key_value, bucket_start, order_count)
+  VALUES (p_shop, p_key_type, p_key_value, p_bucket_start, 1)
+  ON CONFLICT (shop_domain, key_type, key_value, bucket_start)
+  DO UPDATE SET order_count = fraud_velocity_counters.order_count + 1
+  RETURNING order_count;
+$$;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE fraud_velocity_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to fraud_velocity_counters" ON fraud_velocity_counters;
+CREATE POLICY "Service role has full access to fraud_velocity_counters" ON fraud_velocity_counters
+  FOR ALL USING (auth.role() = 'service_role');
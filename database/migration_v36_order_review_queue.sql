@@ -0,0 +1,18 @@
+-- Migration V36: Manual review queue for held COD orders
+--
+-- Orders the risk score puts in the "Hold for review" band are saved with
+-- their full order_payload but not pushed to Shopify. They sit in
+-- order_logs with sync_status = 'held' (so the sync retry job never picks
+-- them up) and review_status = 'pending' until a merchant approves or
+-- rejects them from the Orders page.
+--
+-- Run in Supabase SQL Editor, after migration_v35_fraud_velocity_counters.sql.
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS review_status TEXT
+    CHECK (review_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_review_queue
+  ON order_logs (shop_domain, created_at DESC)
+  WHERE review_status = 'pending';
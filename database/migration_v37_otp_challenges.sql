@@ -0,0 +1,44 @@
+-- Migration V37: Phone OTP verification before COD orders
+--
+-- Shops can require customers to confirm their phone number with a one-time
+-- code before a COD order is placed: for every order, above a cart value, or
+-- only when the risk score lands in the "Require verification" band.
+--
+-- Codes are never stored. otp_challenges keeps an HMAC of the challenge id
+-- and code, an expiry and an attempt counter. A verified challenge lets the
+-- same phone place orders for a short while (so a failed submit can be
+-- retried without a new code).
+--
+-- Run in Supabase SQL Editor, after migration_v36_order_review_queue.sql.
+
+ALTER TABLE fraud_protection_settings
+  ADD COLUMN IF NOT EXISTS otp_mode TEXT NOT NULL DEFAULT 'off'
+    CHECK (otp_mode IN ('off', 'all', 'above_cart_value', 'borderline')),
+  ADD COLUMN IF NOT EXISTS otp_min_cart_value NUMERIC;
+
+CREATE TABLE IF NOT EXISTS otp_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  ip TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Resend limits look up recent challenges per phone and per IP
+CREATE INDEX IF NOT EXISTS idx_otp_challenges_phone
+  ON otp_challenges (shop_domain, phone, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_otp_challenges_ip
+  ON otp_challenges (shop_domain, ip, created_at DESC);
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE otp_challenges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to otp_challenges" ON otp_challenges;
+CREATE POLICY "Service role has full access to otp_challenges" ON otp_challenges
+  FOR ALL USING (auth.role() = 'service_role');
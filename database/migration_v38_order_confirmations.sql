@@ -0,0 +1,50 @@
+-- Migration V38: WhatsApp/SMS order confirmation
+--
+-- When the SMS & WhatsApp integration has confirmation messages turned on,
+-- COD customers get a "Reply 1 to confirm, 2 to cancel" message once their
+-- Shopify order exists. Replies arrive on /webhooks/sms/reply and move the
+-- order to confirmed or cancel it in Shopify. Orders still waiting after the
+-- shop's reply window are flagged (tagged "Unconfirmed") or cancelled by the
+-- /api/order-confirmations sweep.
+--
+-- One row per Shopify order — the unique key is what stops the message from
+-- being sent twice when orders/create is redelivered.
+--
+-- Run in Supabase SQL Editor, after migration_v37_otp_challenges.sql.
+
+CREATE TABLE IF NOT EXISTS order_confirmations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  shopify_order_id TEXT NOT NULL,
+  shopify_order_name TEXT,
+  phone TEXT NOT NULL,
+  language TEXT NOT NULL DEFAULT 'en',
+  status TEXT NOT NULL DEFAULT 'sent'
+    CHECK (status IN ('sent', 'confirmed', 'cancelled', 'expired', 'failed')),
+  provider_message_id TEXT,
+  reply_text TEXT,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  replied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (shop_domain, shopify_order_id)
+);
+
+-- Replies are matched to the customer's latest open confirmation
+CREATE INDEX IF NOT EXISTS idx_order_confirmations_phone
+  ON order_confirmations (shop_domain, phone, sent_at DESC)
+  WHERE status = 'sent';
+
+-- Sweep for confirmations past their reply window
+CREATE INDEX IF NOT EXISTS idx_order_confirmations_expiry
+  ON order_confirmations (expires_at)
+  WHERE status = 'sent';
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE order_confirmations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to order_confirmations" ON order_confirmations;
+CREATE POLICY "Service role has full access to order_confirmations" ON order_confirmations
+  FOR ALL USING (auth.role() = 'service_role');
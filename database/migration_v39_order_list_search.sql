@@ -0,0 +1,26 @@
+-- Migration V39: Server-side search and filters on the Orders page
+--
+-- The Orders page now filters, sorts and counts in the database instead of
+-- on the loaded page. Search is a substring match (ILIKE '%term%') on order
+-- name, phone, customer name and email, which only an index using trigrams
+-- can serve. Status counts run one COUNT per status with the same filters,
+-- so the (shop_domain, status, created_at) index keeps those cheap.
+--
+-- Run in Supabase SQL Editor, after migration_v38_order_confirmations.sql.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_search_name
+  ON order_logs USING gin (shopify_order_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_order_logs_search_phone
+  ON order_logs USING gin (customer_phone gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_order_logs_search_customer
+  ON order_logs USING gin (customer_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_order_logs_search_email
+  ON order_logs USING gin (customer_email gin_trgm_ops);
+
+-- Default list order and per-status counts
+CREATE INDEX IF NOT EXISTS idx_order_logs_shop_status_created
+  ON order_logs (shop_domain, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_logs_shop_created
+  ON order_logs (shop_domain, created_at DESC);
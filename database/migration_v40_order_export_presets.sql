@@ -0,0 +1,29 @@
+-- Migration V40: Saved order export presets
+--
+-- The Orders page can export the filtered order list as CSV or XLSX with a
+-- merchant-chosen set and order of columns (including custom form fields as
+-- "custom:<label>"). A preset stores that layout under a name so the daily
+-- courier export is one click.
+--
+-- Run in Supabase SQL Editor, after migration_v39_order_list_search.sql.
+
+CREATE TABLE IF NOT EXISTS order_export_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  name TEXT NOT NULL,
+  format TEXT NOT NULL DEFAULT 'csv'
+    CHECK (format IN ('csv', 'xlsx')),
+  columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (shop_domain, name)
+);
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE order_export_presets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to order_export_presets" ON order_export_presets;
+CREATE POLICY "Service role has full access to order_export_presets" ON order_export_presets
+  FOR ALL USING (auth.role() = 'service_role');
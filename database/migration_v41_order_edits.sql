@@ -0,0 +1,32 @@
+-- Migration V41: Order edit history
+--
+-- Merchants can edit an unfulfilled order from its detail page (shipping
+-- address, notes, line items and quantities). Item changes go through
+-- Shopify's order editing API; every saved edit is recorded here with the
+-- list of changed fields ({ field, from, to }) and the totals before/after.
+--
+-- Run in Supabase SQL Editor, after migration_v40_order_export_presets.sql.
+
+CREATE TABLE IF NOT EXISTS order_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  order_log_id UUID NOT NULL,
+  shopify_order_id TEXT,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  previous_total DECIMAL(10, 2),
+  new_total DECIMAL(10, 2),
+  edited_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_edits_order
+  ON order_edits (shop_domain, order_log_id, created_at DESC);
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE order_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to order_edits" ON order_edits;
+CREATE POLICY "Service role has full access to order_edits" ON order_edits
+  FOR ALL USING (auth.role() = 'service_role');
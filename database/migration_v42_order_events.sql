@@ -0,0 +1,40 @@
+-- Migration V42: Order timeline events
+--
+-- Append-only audit trail shown as a timeline on the order detail page:
+-- creation and fraud decision, each Shopify sync attempt (with its error),
+-- webhooks received, status changes with who made them, and confirmation
+-- messages sent/received.
+--
+-- Events are keyed by order_log_id when we have it and by shopify_order_id
+-- (numeric) for webhooks, which only know the Shopify order.
+--
+-- Run in Supabase SQL Editor, after migration_v41_order_edits.sql.
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  order_log_id UUID,
+  shopify_order_id TEXT,
+  event_type TEXT NOT NULL,
+  message TEXT NOT NULL,
+  details JSONB,
+  actor TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_log
+  ON order_events (order_log_id, created_at)
+  WHERE order_log_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_events_shopify_order
+  ON order_events (shop_domain, shopify_order_id, created_at)
+  WHERE shopify_order_id IS NOT NULL;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to order_events" ON order_events;
+CREATE POLICY "Service role has full access to order_events" ON order_events
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,59 @@
+-- Migration V43: Shop-scoped order access
+--
+-- The app reads and writes order_logs only through orderLogsForShop()
+-- (app/config/supabase.server.ts), which filters every query by
+-- shop_domain. This adds two things in the database:
+--
+--   * an order's shop_domain can never be changed by an UPDATE (a trigger,
+--     so it applies to every role, the service role included);
+--   * RLS policies for the anon and authenticated roles only: such a key
+--     (e.g. a per-shop client) sees and writes only rows whose shop_domain
+--     matches the `shop_domain` claim of its JWT, and nothing without it.
+--
+-- RLS is NOT what keeps shops apart in the app. The server uses the
+-- service-role client, which bypasses RLS entirely, so shop scoping is
+-- enforced by orderLogsForShop() alone (covered by
+-- tests/order-isolation.test.ts). The same policies cover the order
+-- history tables added in v41 and v42.
+--
+-- Run in Supabase SQL Editor, after migration_v42_order_events.sql.
+
+CREATE OR REPLACE FUNCTION prevent_shop_domain_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.shop_domain IS DISTINCT FROM OLD.shop_domain THEN
+    RAISE EXCEPTION 'shop_domain of a % row cannot be changed', TG_TABLE_NAME;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS order_logs_shop_domain_immutable ON order_logs;
+CREATE TRIGGER order_logs_shop_domain_immutable
+  BEFORE UPDATE OF shop_domain ON order_logs
+  FOR EACH ROW EXECUTE FUNCTION prevent_shop_domain_change();
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE order_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shops can access their own order_logs" ON order_logs;
+CREATE POLICY "Shops can access their own order_logs" ON order_logs
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
+
+DROP POLICY IF EXISTS "Shops can access their own order_edits" ON order_edits;
+CREATE POLICY "Shops can access their own order_edits" ON order_edits
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
+
+DROP POLICY IF EXISTS "Shops can access their own order_events" ON order_events;
+CREATE POLICY "Shops can access their own order_events" ON order_events
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
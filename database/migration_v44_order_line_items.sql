@@ -0,0 +1,55 @@
+-- Migration V44: Order line items
+--
+-- One row per item the customer bought, written by logOrder /
+-- logOrderWithShopifyIds (see app/utils/order-line-items.ts). Replaces
+-- parsing the BUNDLE VARIANTS / UPSELL ITEMS / DOWNSELL APPLIED note text
+-- on the orders list, order page, analytics and exports.
+--
+-- source: 'main' | 'bundle' | 'upsell' | 'downsell'
+-- discount_amount is the bundle / quantity-offer discount on the line;
+-- coupons stay on order_logs.discount_amount.
+--
+-- Existing orders: run `npx tsx scripts/backfill-order-line-items.ts`
+-- after this migration. Until then the app builds their items from
+-- order_payload on the fly.
+--
+-- Run in Supabase SQL Editor, after migration_v43_order_shop_scoping.sql.
+
+CREATE TABLE IF NOT EXISTS order_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  order_log_id UUID NOT NULL REFERENCES order_logs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('main', 'bundle', 'upsell', 'downsell')),
+  source_detail TEXT,
+  product_id TEXT,
+  variant_id TEXT,
+  title TEXT NOT NULL,
+  variant_title TEXT,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  unit_price NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  discount_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (order_log_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_line_items_shop_created
+  ON order_line_items (shop_domain, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_order_line_items_shop_variant
+  ON order_line_items (shop_domain, variant_id);
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE order_line_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to order_line_items" ON order_line_items;
+CREATE POLICY "Service role has full access to order_line_items" ON order_line_items
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Shops can access their own order_line_items" ON order_line_items;
+CREATE POLICY "Shops can access their own order_line_items" ON order_line_items
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
@@ -0,0 +1,31 @@
+-- Migration V45: Courier shipments on orders
+--
+-- Booking a shipment through the connected courier (Integrations →
+-- Courier) stores the AWB, tracking URL and label on the order, and the
+-- Shopify fulfillment created with that tracking info. shipment_status is
+-- the courier's status normalised to
+-- booked | in_transit | out_for_delivery | delivered | undelivered | rto | cancelled,
+-- with the courier's own wording in shipment_status_text.
+--
+-- Also needs the read/write_merchant_managed_fulfillment_orders scopes
+-- (shopify.app.toml) so the app can create fulfillments.
+--
+-- Run in Supabase SQL Editor, after migration_v44_order_line_items.sql.
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS courier_provider TEXT,
+  ADD COLUMN IF NOT EXISTS awb_number TEXT,
+  ADD COLUMN IF NOT EXISTS courier_shipment_id TEXT,
+  ADD COLUMN IF NOT EXISTS courier_name TEXT,
+  ADD COLUMN IF NOT EXISTS tracking_url TEXT,
+  ADD COLUMN IF NOT EXISTS shipment_label_url TEXT,
+  ADD COLUMN IF NOT EXISTS shipment_status TEXT
+    CHECK (shipment_status IN ('booked', 'in_transit', 'out_for_delivery', 'delivered', 'undelivered', 'rto', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS shipment_status_text TEXT,
+  ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_tracked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS shopify_fulfillment_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_shop_awb
+  ON order_logs (shop_domain, awb_number)
+  WHERE awb_number IS NOT NULL;
@@ -0,0 +1,58 @@
+-- Migration V46: Delivery status history
+--
+-- order_logs.shipment_status is now the order's delivery status, moved only
+-- along valid transitions (DELIVERY_STATUS_TRANSITIONS in
+-- app/config/constants.ts) by courier tracking and Shopify fulfillment
+-- events. Orders are marked delivered only when the courier or Shopify
+-- confirms the delivery — a Shopify fulfillment alone now means shipped.
+--
+-- Every applied transition is kept in delivery_status_history with its
+-- source ('courier' | 'shopify' | 'merchant'), the courier's wording and
+-- when it happened. delivered_at is set from the delivered event.
+--
+-- Also subscribe to the fulfillment_events/create webhook (shopify.app.toml)
+-- and schedule /api/track-shipments to poll courier tracking.
+--
+-- Run in Supabase SQL Editor, after migration_v45_order_shipments.sql.
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS delivery_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  order_log_id UUID NOT NULL REFERENCES order_logs(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  order_status TEXT,
+  source TEXT NOT NULL CHECK (source IN ('courier', 'shopify', 'merchant')),
+  status_text TEXT,
+  location TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_status_history_order
+  ON delivery_status_history (order_log_id, occurred_at);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_status_history_shop_status
+  ON delivery_status_history (shop_domain, to_status, occurred_at);
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_active_shipments
+  ON order_logs (shop_domain, last_tracked_at)
+  WHERE awb_number IS NOT NULL AND shipment_status IN ('booked', 'in_transit', 'out_for_delivery', 'undelivered');
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE delivery_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to delivery_status_history" ON delivery_status_history;
+CREATE POLICY "Service role has full access to delivery_status_history" ON delivery_status_history
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Shops can access their own delivery_status_history" ON delivery_status_history;
+CREATE POLICY "Shops can access their own delivery_status_history" ON delivery_status_history
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
@@ -0,0 +1,82 @@
+-- Migration V47: NDR (failed delivery) cases
+--
+-- When the courier reports a failed delivery attempt (delivery status
+-- 'undelivered') an NDR case is opened in order_ndrs, with the reason read
+-- from the courier's wording. Further failed attempts on the same shipment
+-- add to the open case. The merchant — or the customer, replying to the
+-- optional outreach message — asks the courier to reattempt (optionally
+-- with a corrected address) or return the parcel; the delivery outcome
+-- closes the case as 'delivered' or 'rto'.
+--
+-- order_logs.ndr_status mirrors the order's latest case for the NDR queue
+-- (/app/orders/ndr): 'open' | 'reattempt_requested' | 'rto_requested' |
+-- 'delivered' | 'returned'.
+--
+-- Run in Supabase SQL Editor, after migration_v46_delivery_status_history.sql.
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS ndr_status TEXT
+    CHECK (ndr_status IN ('open', 'reattempt_requested', 'rto_requested', 'delivered', 'returned'));
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_ndr_status
+  ON order_logs (shop_domain, ndr_status)
+  WHERE ndr_status IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS order_ndrs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  order_log_id UUID NOT NULL REFERENCES order_logs(id) ON DELETE CASCADE,
+  awb_number TEXT,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'reattempt_requested', 'rto_requested', 'delivered', 'returned')),
+  reason TEXT NOT NULL DEFAULT 'other',
+  -- The courier's own wording for the latest failed attempt
+  reason_text TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- 'reattempt' | 'rto' | 'update_address'
+  last_action TEXT,
+  last_action_at TIMESTAMPTZ,
+  last_action_by TEXT,
+  action_note TEXT,
+  -- Customer outreach: 'sent' | 'failed' | 'replied'
+  outreach_status TEXT,
+  outreach_phone TEXT,
+  outreach_sent_at TIMESTAMPTZ,
+  customer_response TEXT,
+  -- 'delivered' | 'rto'
+  outcome TEXT CHECK (outcome IN ('delivered', 'rto')),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One open case per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_ndrs_open_order
+  ON order_ndrs (order_log_id)
+  WHERE resolved_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_ndrs_shop_status
+  ON order_ndrs (shop_domain, status, last_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_order_ndrs_shop_created
+  ON order_ndrs (shop_domain, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_order_ndrs_outreach_phone
+  ON order_ndrs (shop_domain, outreach_phone)
+  WHERE resolved_at IS NULL AND outreach_status = 'sent';
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE order_ndrs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to order_ndrs" ON order_ndrs;
+CREATE POLICY "Service role has full access to order_ndrs" ON order_ndrs
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Shops can access their own order_ndrs" ON order_ndrs;
+CREATE POLICY "Shops can access their own order_ndrs" ON order_ndrs
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
@@ -0,0 +1,121 @@
+-- Migration V48: COD remittance reconciliation
+--
+-- Couriers pay the cash they collect on delivery back in batches, with a
+-- settlement file (AWB / order, amount, remittance date, UTR). Merchants
+-- upload those files on /app/orders/remittance; each row is matched to an
+-- order by AWB or order name and compared with the amount that should have
+-- been collected (remaining_cod_amount for Partial COD, final_total
+-- otherwise).
+--
+-- Matched orders get cod_remittance_status 'remitted', 'short_paid' or
+-- 'over_paid' with the amount, date and UTR paid. Delivered COD orders with
+-- no remittance are reported as missing, and as overdue after the shop's
+-- chosen number of days.
+--
+-- cod_remittance_batches keeps one row per uploaded file,
+-- cod_remittance_rows every line of it with its match result, and
+-- cod_remittance_presets the saved column mappings per courier format.
+--
+-- Run in Supabase SQL Editor, after migration_v47_order_ndrs.sql.
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS cod_remittance_status TEXT
+    CHECK (cod_remittance_status IN ('remitted', 'short_paid', 'over_paid')),
+  ADD COLUMN IF NOT EXISTS remitted_amount DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS remittance_date DATE,
+  ADD COLUMN IF NOT EXISTS remittance_utr TEXT,
+  ADD COLUMN IF NOT EXISTS remittance_batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_cod_remittance
+  ON order_logs (shop_domain, cod_remittance_status, delivered_at)
+  WHERE status = 'delivered';
+
+CREATE TABLE IF NOT EXISTS cod_remittance_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  courier TEXT,
+  file_name TEXT,
+  uploaded_by TEXT,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  short_count INTEGER NOT NULL DEFAULT 0,
+  over_count INTEGER NOT NULL DEFAULT 0,
+  unmatched_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cod_remittance_batches_shop
+  ON cod_remittance_batches (shop_domain, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS cod_remittance_rows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  batch_id UUID NOT NULL REFERENCES cod_remittance_batches(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  awb_number TEXT,
+  order_ref TEXT,
+  collected_amount DECIMAL(10, 2),
+  remittance_date DATE,
+  utr TEXT,
+  order_log_id UUID REFERENCES order_logs(id) ON DELETE SET NULL,
+  expected_amount DECIMAL(10, 2),
+  -- 'matched' | 'short' | 'over' | 'unmatched' | 'duplicate' | 'invalid'
+  status TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cod_remittance_rows_batch
+  ON cod_remittance_rows (batch_id, row_number);
+
+CREATE INDEX IF NOT EXISTS idx_cod_remittance_rows_order
+  ON cod_remittance_rows (shop_domain, order_log_id);
+
+CREATE TABLE IF NOT EXISTS cod_remittance_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  name TEXT NOT NULL,
+  -- { awb, order, amount, date, utr } → column header in the file
+  columns JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (shop_domain, name)
+);
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE cod_remittance_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cod_remittance_rows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cod_remittance_presets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to cod_remittance_batches" ON cod_remittance_batches;
+CREATE POLICY "Service role has full access to cod_remittance_batches" ON cod_remittance_batches
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Shops can access their own cod_remittance_batches" ON cod_remittance_batches;
+CREATE POLICY "Shops can access their own cod_remittance_batches" ON cod_remittance_batches
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
+
+DROP POLICY IF EXISTS "Service role has full access to cod_remittance_rows" ON cod_remittance_rows;
+CREATE POLICY "Service role has full access to cod_remittance_rows" ON cod_remittance_rows
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Shops can access their own cod_remittance_rows" ON cod_remittance_rows;
+CREATE POLICY "Shops can access their own cod_remittance_rows" ON cod_remittance_rows
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
+
+DROP POLICY IF EXISTS "Service role has full access to cod_remittance_presets" ON cod_remittance_presets;
+CREATE POLICY "Service role has full access to cod_remittance_presets" ON cod_remittance_presets
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Shops can access their own cod_remittance_presets" ON cod_remittance_presets;
+CREATE POLICY "Shops can access their own cod_remittance_presets" ON cod_remittance_presets
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
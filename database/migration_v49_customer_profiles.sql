@@ -0,0 +1,157 @@
+-- Migration V49: Customer profiles
+--
+-- /app/customers lists customers with their order history: totals,
+-- delivered / returned / cancelled counts, RTO rate, lifetime revenue and
+-- last order. Orders store the phone as E.164 (+919876543210) since the
+-- phone validation change while older rows and the customers table keep it
+-- as typed, so both get customer_phone_key / phone_key: the last 10 digits,
+-- which is what the fraud rules already treat as the same number.
+--
+-- get_customer_summaries() groups order_logs by that key for the list page.
+-- The name saved in customers wins over the one on the latest order; its
+-- email and city fill in when the orders have none.
+--
+-- customers is written by the storefront proxy on every order and read by
+-- the autofill lookup; it predates these migrations, so it is created here
+-- if missing.
+--
+-- Run in Supabase SQL Editor, after migration_v48_cod_remittance.sql.
+
+CREATE TABLE IF NOT EXISTS customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_domain TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  name TEXT,
+  address TEXT,
+  state TEXT,
+  city TEXT,
+  zipcode TEXT,
+  email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (shop_domain, phone)
+);
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS phone_key TEXT
+    GENERATED ALWAYS AS (right(regexp_replace(phone, '\D', '', 'g'), 10)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_customers_shop_phone_key
+  ON customers (shop_domain, phone_key);
+
+ALTER TABLE order_logs
+  ADD COLUMN IF NOT EXISTS customer_phone_key TEXT
+    GENERATED ALWAYS AS (right(regexp_replace(coalesce(customer_phone, ''), '\D', '', 'g'), 10)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_shop_customer_phone_key
+  ON order_logs (shop_domain, customer_phone_key, created_at DESC);
+
+-- One row per customer (phone key) with order counts and revenue, filtered
+-- by name / phone / email and sorted by p_sort ('last_order', 'orders',
+-- 'revenue' or 'rto_rate'). Lifetime revenue counts delivered orders only;
+-- the RTO rate is returned / (delivered + returned). total_count is the
+-- number of matching customers, for paging.
+CREATE OR REPLACE FUNCTION get_customer_summaries(
+  p_shop TEXT,
+  p_search TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'last_order',
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  phone_key TEXT,
+  phone TEXT,
+  name TEXT,
+  email TEXT,
+  city TEXT,
+  total_orders INTEGER,
+  delivered_count INTEGER,
+  returned_count INTEGER,
+  cancelled_count INTEGER,
+  lifetime_revenue NUMERIC,
+  rto_rate NUMERIC,
+  first_order_at TIMESTAMPTZ,
+  last_order_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH summaries AS (
+    SELECT
+      o.customer_phone_key AS phone_key,
+      (array_agg(o.customer_phone ORDER BY o.created_at DESC))[1] AS phone,
+      (array_agg(o.customer_name ORDER BY o.created_at DESC))[1] AS name,
+      (array_agg(o.customer_email ORDER BY o.created_at DESC) FILTER (WHERE coalesce(o.customer_email, '') <> ''))[1] AS email,
+      (array_agg(o.city ORDER BY o.created_at DESC))[1] AS city,
+      count(*)::INTEGER AS total_orders,
+      count(*) FILTER (WHERE o.status = 'delivered')::INTEGER AS delivered_count,
+      count(*) FILTER (WHERE o.status = 'returned')::INTEGER AS returned_count,
+      count(*) FILTER (WHERE o.status = 'cancelled')::INTEGER AS cancelled_count,
+      coalesce(sum(coalesce(o.final_total, o.total_price)) FILTER (WHERE o.status = 'delivered'), 0) AS lifetime_revenue,
+      min(o.created_at) AS first_order_at,
+      max(o.created_at) AS last_order_at
+    FROM order_logs o
+    WHERE o.shop_domain = p_shop
+      AND o.customer_phone_key <> ''
+    GROUP BY o.customer_phone_key
+  ),
+  filtered AS (
+    SELECT
+      s.*,
+      CASE WHEN s.delivered_count + s.returned_count > 0
+        THEN round(s.returned_count * 100.0 / (s.delivered_count + s.returned_count), 1)
+      END AS rto_rate
+    FROM summaries s
+    WHERE coalesce(p_search, '') = ''
+      OR s.name ILIKE '%' || p_search || '%'
+      OR s.email ILIKE '%' || p_search || '%'
+      OR (regexp_replace(p_search, '\D', '', 'g') <> ''
+        AND s.phone_key LIKE '%' || regexp_replace(p_search, '\D', '', 'g') || '%')
+  )
+  SELECT
+    f.phone_key,
+    f.phone,
+    coalesce(nullif(c.name, ''), f.name) AS name,
+    coalesce(f.email, nullif(c.email, '')) AS email,
+    coalesce(f.city, nullif(c.city, '')) AS city,
+    f.total_orders,
+    f.delivered_count,
+    f.returned_count,
+    f.cancelled_count,
+    f.lifetime_revenue,
+    f.rto_rate,
+    f.first_order_at,
+    f.last_order_at,
+    count(*) OVER () AS total_count
+  FROM filtered f
+  LEFT JOIN LATERAL (
+    SELECT cu.name, cu.email, cu.city
+    FROM customers cu
+    WHERE cu.shop_domain = p_shop AND cu.phone_key = f.phone_key
+    ORDER BY cu.updated_at DESC
+    LIMIT 1
+  ) c ON true
+  ORDER BY
+    CASE WHEN p_sort = 'orders' THEN f.total_orders END DESC NULLS LAST,
+    CASE WHEN p_sort = 'revenue' THEN f.lifetime_revenue END DESC NULLS LAST,
+    CASE WHEN p_sort = 'rto_rate' THEN f.rto_rate END DESC NULLS LAST,
+    f.last_order_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to customers" ON customers;
+CREATE POLICY "Service role has full access to customers" ON customers
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Shops can access their own customers" ON customers;
+CREATE POLICY "Shops can access their own customers" ON customers
+  FOR ALL TO anon, authenticated
+  USING (shop_domain = auth.jwt() ->> 'shop_domain')
+  WITH CHECK (shop_domain = auth.jwt() ->> 'shop_domain');
@@ -0,0 +1,57 @@
+-- Migration V50: Replace an order's line items in one transaction
+--
+-- An item edit from the order page (services/order-edit.server.ts) changes
+-- what the order contains in Shopify. replace_order_line_items() swaps the
+-- order's order_line_items rows for the edited ones in a single
+-- transaction, so a failed insert can't leave the order with no rows (the
+-- app would then rebuild the original items from order_payload) or with a
+-- mix of old and new ones.
+--
+-- Run in Supabase SQL Editor, after migration_v49_customer_profiles.sql.
+
+-- p_items is a JSON array of OrderLineItem (app/utils/order-line-items.ts).
+-- Rows keep the order's created_at, like the ones written when it was logged.
+CREATE OR REPLACE FUNCTION replace_order_line_items(
+  p_shop TEXT,
+  p_order_log_id UUID,
+  p_items JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_created_at TIMESTAMPTZ;
+BEGIN
+  -- Scoped to p_shop, like every order_logs access in the app
+  SELECT created_at INTO v_created_at
+  FROM order_logs
+  WHERE id = p_order_log_id AND shop_domain = p_shop;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_log_id;
+  END IF;
+
+  DELETE FROM order_line_items
+  WHERE order_log_id = p_order_log_id AND shop_domain = p_shop;
+
+  INSERT INTO order_line_items (
+    shop_domain, order_log_id, position, source, source_detail, product_id, variant_id,
+    title, variant_title, quantity, unit_price, discount_amount, created_at
+  )
+  SELECT
+    p_shop, p_order_log_id, item.position, item.source, item.source_detail, item.product_id, item.variant_id,
+    item.title, item.variant_title, item.quantity, item.unit_price, COALESCE(item.discount_amount, 0), v_created_at
+  FROM jsonb_to_recordset(p_items) AS item(
+    position INTEGER,
+    source TEXT,
+    source_detail TEXT,
+    product_id TEXT,
+    variant_id TEXT,
+    title TEXT,
+    variant_title TEXT,
+    quantity INTEGER,
+    unit_price NUMERIC,
+    discount_amount NUMERIC
+  );
+END;
+$$;
@@ -0,0 +1,114 @@
+-- Migration V51: One RTO rate definition for customer profiles
+--
+-- get_customer_summaries() (v49) computed the RTO rate as
+-- returned / (delivered + returned), while the fraud rule's RTO history
+-- check counts cancelled orders too. Both now use
+-- (returned + cancelled) / (delivered + returned + cancelled), the
+-- definition in getRtoRate() (app/config/constants.ts).
+--
+-- It also takes p_phone_key, so a profile and the order page's customer
+-- history read one customer's totals here instead of adding up a capped
+-- list of their orders.
+--
+-- Run in Supabase SQL Editor, after migration_v50_replace_order_line_items.sql.
+
+-- The signature changes, so the v49 function is dropped rather than replaced
+DROP FUNCTION IF EXISTS get_customer_summaries(TEXT, TEXT, TEXT, INTEGER, INTEGER);
+
+-- One row per customer (phone key) with order counts and revenue, filtered
+-- by name / phone / email (or one phone key) and sorted by p_sort
+-- ('last_order', 'orders', 'revenue' or 'rto_rate'). Lifetime revenue counts
+-- delivered orders only. total_count is the number of matching customers,
+-- for paging.
+CREATE FUNCTION get_customer_summaries(
+  p_shop TEXT,
+  p_search TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'last_order',
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0,
+  p_phone_key TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  phone_key TEXT,
+  phone TEXT,
+  name TEXT,
+  email TEXT,
+  city TEXT,
+  total_orders INTEGER,
+  delivered_count INTEGER,
+  returned_count INTEGER,
+  cancelled_count INTEGER,
+  lifetime_revenue NUMERIC,
+  rto_rate NUMERIC,
+  first_order_at TIMESTAMPTZ,
+  last_order_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH summaries AS (
+    SELECT
+      o.customer_phone_key AS phone_key,
+      (array_agg(o.customer_phone ORDER BY o.created_at DESC))[1] AS phone,
+      (array_agg(o.customer_name ORDER BY o.created_at DESC))[1] AS name,
+      (array_agg(o.customer_email ORDER BY o.created_at DESC) FILTER (WHERE coalesce(o.customer_email, '') <> ''))[1] AS email,
+      (array_agg(o.city ORDER BY o.created_at DESC))[1] AS city,
+      count(*)::INTEGER AS total_orders,
+      count(*) FILTER (WHERE o.status = 'delivered')::INTEGER AS delivered_count,
+      count(*) FILTER (WHERE o.status = 'returned')::INTEGER AS returned_count,
+      count(*) FILTER (WHERE o.status = 'cancelled')::INTEGER AS cancelled_count,
+      coalesce(sum(coalesce(o.final_total, o.total_price)) FILTER (WHERE o.status = 'delivered'), 0) AS lifetime_revenue,
+      min(o.created_at) AS first_order_at,
+      max(o.created_at) AS last_order_at
+    FROM order_logs o
+    WHERE o.shop_domain = p_shop
+      AND o.customer_phone_key <> ''
+      AND (p_phone_key IS NULL OR o.customer_phone_key = p_phone_key)
+    GROUP BY o.customer_phone_key
+  ),
+  filtered AS (
+    SELECT
+      s.*,
+      CASE WHEN s.delivered_count + s.returned_count + s.cancelled_count > 0
+        THEN round((s.returned_count + s.cancelled_count) * 100.0
+          / (s.delivered_count + s.returned_count + s.cancelled_count), 1)
+      END AS rto_rate
+    FROM summaries s
+    WHERE coalesce(p_search, '') = ''
+      OR s.name ILIKE '%' || p_search || '%'
+      OR s.email ILIKE '%' || p_search || '%'
+      OR (regexp_replace(p_search, '\D', '', 'g') <> ''
+        AND s.phone_key LIKE '%' || regexp_replace(p_search, '\D', '', 'g') || '%')
+  )
+  SELECT
+    f.phone_key,
+    f.phone,
+    coalesce(nullif(c.name, ''), f.name) AS name,
+    coalesce(f.email, nullif(c.email, '')) AS email,
+    coalesce(f.city, nullif(c.city, '')) AS city,
+    f.total_orders,
+    f.delivered_count,
+    f.returned_count,
+    f.cancelled_count,
+    f.lifetime_revenue,
+    f.rto_rate,
+    f.first_order_at,
+    f.last_order_at,
+    count(*) OVER () AS total_count
+  FROM filtered f
+  LEFT JOIN LATERAL (
+    SELECT cu.name, cu.email, cu.city
+    FROM customers cu
+    WHERE cu.shop_domain = p_shop AND cu.phone_key = f.phone_key
+    ORDER BY cu.updated_at DESC
+    LIMIT 1
+  ) c ON true
+  ORDER BY
+    CASE WHEN p_sort = 'orders' THEN f.total_orders END DESC NULLS LAST,
+    CASE WHEN p_sort = 'revenue' THEN f.lifetime_revenue END DESC NULLS LAST,
+    CASE WHEN p_sort = 'rto_rate' THEN f.rto_rate END DESC NULLS LAST,
+    f.last_order_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
@@ -1279,6 +1279,39 @@
     });
   }
 
+  // "Did you mean jane@gmail.com?" under the email field. Only a hint — the
+  // order can be placed with the address as typed.
+  function showEmailSuggestion(input, config) {
+    var wrapper = input._foxcodWrapper;
+    var existing = wrapper && wrapper.querySelector('.foxcod-email-hint');
+    if (existing) existing.remove();
+    var email = (input.value || '').trim();
+    if (!wrapper || !config || !config.shop || email.indexOf('@') < 1) return;
+
+    requestProxyJson(config, '/api/email-suggestion?email=' + encodeURIComponent(email) + '&shop=' + encodeURIComponent(config.shop))
+      .then(function(data) {
+        if (!data || !data.suggestion || (input.value || '').trim() !== email) return;
+        var hint = document.createElement('div');
+        hint.className = 'foxcod-email-hint';
+        hint.style.fontSize = '13px';
+        hint.style.marginTop = '4px';
+        hint.style.color = '#5c5f62';
+        hint.appendChild(document.createTextNode('Did you mean '));
+        var fix = document.createElement('button');
+        fix.type = 'button';
+        fix.textContent = data.suggestion;
+        fix.style.cssText = 'background:none;border:none;padding:0;font:inherit;color:inherit;text-decoration:underline;cursor:pointer';
+        fix.addEventListener('click', function() {
+          input.value = data.suggestion;
+          hint.remove();
+        });
+        hint.appendChild(fix);
+        hint.appendChild(document.createTextNode('?'));
+        wrapper.appendChild(hint);
+      })
+      .catch(function() {});
+  }
+
   function ensureValidationStyles() {
     if (!document.getElementById('foxcod-validation-css')) {
       var valStyle = document.createElement('style');
@@ -1386,6 +1419,48 @@
     document.body.style.overflow = '';
   }
 
+  var cachedDeviceFingerprint = null;
+
+  /**
+   * Lightweight device fingerprint (hash of stable browser traits) used for
+   * per-device velocity limits on the server. Not unique — just stable enough
+   * that changing the phone number doesn't reset the limit.
+   */
+  function getDeviceFingerprint() {
+    if (cachedDeviceFingerprint) return cachedDeviceFingerprint;
+    try {
+      var nav = window.navigator || {};
+      var scr = window.screen || {};
+      var timezone = '';
+      try { timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || ''; } catch (e) { /* ignore */ }
+      var traits = [
+        nav.userAgent || '',
+        (nav.languages && nav.languages.join(',')) || nav.language || '',
+        nav.platform || '',
+        nav.hardwareConcurrency || '',
+        nav.deviceMemory || '',
+        nav.maxTouchPoints || 0,
+        scr.width + 'x' + scr.height + 'x' + scr.colorDepth,
+        window.devicePixelRatio || 1,
+        timezone
+      ].join('|');
+
+      // Two FNV-1a passes with different offsets → 64-bit hex digest
+      var hash = function(str, seed) {
+        var h = seed >>> 0;
+        for (var i = 0; i < str.length; i++) {
+          h ^= str.charCodeAt(i);
+          h = Math.imul(h, 16777619) >>> 0;
+        }
+        return ('00000000' + h.toString(16)).slice(-8);
+      };
+      cachedDeviceFingerprint = hash(traits, 2166136261) + hash(traits, 374761393);
+    } catch (e) {
+      cachedDeviceFingerprint = '';
+    }
+    return cachedDeviceFingerprint;
+  }
+
   function validateOrderPayload(payload) {
     // For cart page / cart drawer flow, cart_items replaces the single variantId
     var hasCartItems = Array.isArray(payload.cart_items) && payload.cart_items.length > 0;
@@ -1471,6 +1546,12 @@
       submitBtn.disabled = true;
     }
 
+    // ── Held for manual review: no Shopify order exists yet ──
+    if (result && result.held) {
+      window.location.replace('/apps/fox-cod/thank-you?held=1&order_id=' + encodeURIComponent(result.orderName || ''));
+      return;
+    }
+
     // ── Primary path: redirect to Shopify order status page ──
     var statusPageUrl = result && result.statusPageUrl;
     if (statusPageUrl) {
@@ -1492,7 +1573,8 @@
 
     // ── Last resort fallback: redirect to custom thank you page or homepage ──
     console.warn('[COD] No order status URL available. Redirecting to FoxlyCOD Thank You Page.');
-    var customThankYouUrl = '/apps/fox-cod/thank-you?order_id=' + (shopifyOrderId || '');
+    var customThankYouUrl = '/apps/fox-cod/thank-you?order_id=' + (shopifyOrderId || '') +
+      (result && result.confirmationQuery ? '&' + result.confirmationQuery : '');
     window.location.replace(customThankYouUrl);
   }
 
@@ -4067,6 +4149,12 @@
           this.style.boxShadow = hasShadow ? ('0 1px 2px rgba(0,0,0,' + shadowOpacity.toFixed(2) + ')') : 'none';
         });
 
+        if (field.id === 'email') {
+          input.addEventListener('change', function() {
+            showEmailSuggestion(input, config);
+          });
+        }
+
         // Clear validation error on input
         input.addEventListener('input', function() {
           // Restore original border instead of just removing the property
@@ -7882,8 +7970,9 @@ function darkenColor(hex, percent) {
 
   /**
    * Client-side Fraud Protection Validation
-   * Checks phone, email, postal code, and quantity against fraud rules
-   * IP and order frequency are enforced server-side only
+   * Checks postal code and quantity against fraud rules for instant feedback.
+   * Phone, email, IP and order frequency are enforced server-side only —
+   * block lists are never published to the storefront.
    */
   function validateFraudProtection(payload) {
       var fp = window.FoxCod && window.FoxCod.fraudProtection;
@@ -7891,32 +7980,7 @@ function darkenColor(hex, percent) {
 
       var msg = fp.blocked_message || 'Sorry, you are not allowed to place orders.';
 
-      // Normalize helpers
-      function normPhone(p) { return (p || '').replace(/[\s\-\(\)]/g, ''); }
-      function normEmail(e) { return (e || '').trim().toLowerCase(); }
-
-      // 1. Check blocked phone numbers
-      if (payload.customerPhone && fp.blocked_phone_numbers && fp.blocked_phone_numbers.length > 0) {
-          var np = normPhone(payload.customerPhone);
-          for (var i = 0; i < fp.blocked_phone_numbers.length; i++) {
-              if (normPhone(fp.blocked_phone_numbers[i]) === np) {
-                  return { allowed: false, message: msg };
-              }
-          }
-      }
-
-      // 2. Check blocked emails
-      if (payload.customerEmail && fp.blocked_emails && fp.blocked_emails.length > 0) {
-          var ne = normEmail(payload.customerEmail);
-          for (var j = 0; j < fp.blocked_emails.length; j++) {
-              var blocked = fp.blocked_emails[j].trim().toLowerCase();
-              if (blocked === ne || ne.endsWith('@' + blocked)) {
-                  return { allowed: false, message: msg };
-              }
-          }
-      }
-
-      // 3. Check postal code restrictions
+      // 1. Check postal code restrictions
       if (payload.customerZipcode && fp.postal_code_mode && fp.postal_code_mode !== 'none' && fp.postal_codes && fp.postal_codes.length > 0) {
           var nz = payload.customerZipcode.trim().toUpperCase();
           var found = false;
@@ -7931,7 +7995,7 @@ function darkenColor(hex, percent) {
           }
       }
 
-      // 4. Check quantity limit
+      // 2. Check quantity limit
       if (fp.limit_quantity_enabled && fp.max_quantity && payload.quantity) {
           if (payload.quantity > fp.max_quantity) {
               return { allowed: false, message: 'Maximum ' + fp.max_quantity + ' items allowed per order.' };
@@ -8170,6 +8234,9 @@ function darkenColor(hex, percent) {
           payload.order_source = 'product_page';
       }
 
+      // Per-device velocity limits (fraud protection)
+      payload.device_fingerprint = getDeviceFingerprint();
+
       // Collect custom field values
       var customFieldData = [];
       var knownFieldIds = ['name', 'phone', 'address', 'email', 'state', 'city', 'zip', 'zipcode', 'notes', 'quantity', 'shipping', 'order_summary', 'marketing', 'payment_mode', 'coupon'];
@@ -8228,6 +8295,7 @@ function darkenColor(hex, percent) {
       // If downsell is active, it replaces the product price (not added on top)
       if (checkoutState.downsellItems.length > 0) {
           payload.price = checkoutState.downsellItems[0].price;
+          payload.downsell_item = { title: checkoutState.downsellItems[0].title, price: checkoutState.downsellItems[0].price };
           payload.notes = (payload.notes ? payload.notes + '\n' : '') + 'DOWNSELL APPLIED: ' + checkoutState.downsellItems[0].title + ' (' + formatMoney(checkoutState.downsellItems[0].price) + ')';
       }
 
@@ -8776,6 +8844,151 @@ function darkenColor(hex, percent) {
       });
   }
 
+  // ── Phone OTP Verification ────────────────────────────────────────────────
+  // Shown when the order route answers with otpRequired. Sends a code to the
+  // customer's phone, verifies it, then hands control back with
+  // payload.otp_challenge_id set so the caller can resubmit the order.
+  function showOtpVerification(config, payload, onVerified, onCancel) {
+      var existing = document.getElementById('foxcod-otp-overlay');
+      if (existing) existing.remove();
+
+      var state = { challengeId: null, resendTimer: null, busy: false };
+
+      var overlay = document.createElement('div');
+      overlay.id = 'foxcod-otp-overlay';
+      overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;background:rgba(17,24,39,0.55);display:flex;align-items:center;justify-content:center;padding:16px;font-family:"Inter",-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;';
+      overlay.innerHTML = [
+          '<div style="background:#ffffff;border-radius:16px;max-width:360px;width:100%;padding:24px;box-shadow:0 20px 40px rgba(0,0,0,0.2);text-align:center;">',
+              '<div style="font-size:18px;font-weight:700;color:#111827;margin-bottom:6px;">Verify your phone</div>',
+              '<div id="foxcod-otp-subtitle" style="font-size:14px;color:#6b7280;line-height:1.5;margin-bottom:16px;">Sending a verification code...</div>',
+              '<input id="foxcod-otp-input" type="text" inputmode="numeric" autocomplete="one-time-code" maxlength="6" placeholder="------" style="width:100%;box-sizing:border-box;padding:12px;font-size:22px;letter-spacing:8px;text-align:center;border:1px solid #d1d5db;border-radius:10px;outline:none;" />',
+              '<div id="foxcod-otp-error" style="display:none;color:#d82c0d;font-size:13px;margin-top:8px;"></div>',
+              '<button id="foxcod-otp-verify" type="button" style="width:100%;margin-top:16px;padding:12px;border:none;border-radius:10px;background:#2563eb;color:#ffffff;font-size:15px;font-weight:600;cursor:pointer;">Verify & place order</button>',
+              '<div style="display:flex;justify-content:space-between;margin-top:12px;font-size:13px;">',
+                  '<button id="foxcod-otp-cancel" type="button" style="background:none;border:none;color:#6b7280;cursor:pointer;padding:0;">Cancel</button>',
+                  '<button id="foxcod-otp-resend" type="button" disabled style="background:none;border:none;color:#2563eb;cursor:pointer;padding:0;">Resend code</button>',
+              '</div>',
+          '</div>'
+      ].join('');
+      document.body.appendChild(overlay);
+
+      var input = document.getElementById('foxcod-otp-input');
+      var subtitle = document.getElementById('foxcod-otp-subtitle');
+      var errorEl = document.getElementById('foxcod-otp-error');
+      var verifyBtn = document.getElementById('foxcod-otp-verify');
+      var resendBtn = document.getElementById('foxcod-otp-resend');
+
+      function showError(message) {
+          errorEl.textContent = message || '';
+          errorEl.style.display = message ? 'block' : 'none';
+      }
+
+      function startResendCountdown(seconds) {
+          clearInterval(state.resendTimer);
+          var remaining = seconds || 30;
+          resendBtn.disabled = true;
+          resendBtn.textContent = 'Resend in ' + remaining + 's';
+          state.resendTimer = setInterval(function() {
+              remaining--;
+              if (remaining <= 0) {
+                  clearInterval(state.resendTimer);
+                  resendBtn.disabled = false;
+                  resendBtn.textContent = 'Resend code';
+              } else {
+                  resendBtn.textContent = 'Resend in ' + remaining + 's';
+              }
+          }, 1000);
+      }
+
+      function close() {
+          clearInterval(state.resendTimer);
+          overlay.remove();
+      }
+
+      function sendCode() {
+          showError('');
+          resendBtn.disabled = true;
+          requestProxyJson(config, '/otp/send', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                  shop: payload.shop,
+                  phone: payload.customerPhone,
+                  customerCountry: payload.customerCountry,
+                  detectedCountry: payload.detectedCountry
+              })
+          })
+          .then(function(result) {
+              if (result && result.success) {
+                  state.challengeId = result.challengeId;
+                  subtitle.textContent = 'Enter the 6-digit code we sent to ' + (payload.customerPhone || 'your phone') + '.';
+                  startResendCountdown(result.resendIn);
+                  input.focus();
+              } else {
+                  showError((result && result.error) || 'Could not send a code. Please try again.');
+                  startResendCountdown((result && result.retryIn) || 5);
+              }
+          })
+          .catch(function(err) {
+              showError(err.message || 'Could not send a code. Please try again.');
+              resendBtn.disabled = false;
+          });
+      }
+
+      function verifyCode() {
+          var code = (input.value || '').replace(/\D/g, '');
+          if (state.busy) return;
+          if (!state.challengeId) return showError('Please wait for the code to arrive.');
+          if (code.length !== 6) return showError('Enter the 6-digit code.');
+
+          state.busy = true;
+          verifyBtn.disabled = true;
+          verifyBtn.textContent = 'Verifying...';
+          showError('');
+
+          requestProxyJson(config, '/otp/verify', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ shop: payload.shop, challengeId: state.challengeId, code: code })
+          })
+          .then(function(result) {
+              state.busy = false;
+              if (result && result.success) {
+                  payload.otp_challenge_id = state.challengeId;
+                  close();
+                  onVerified();
+                  return;
+              }
+              verifyBtn.disabled = false;
+              verifyBtn.textContent = 'Verify & place order';
+              showError((result && result.error) || 'Incorrect code. Please try again.');
+              if (result && result.attemptsLeft === 0) {
+                  state.challengeId = null;
+                  input.value = '';
+              }
+          })
+          .catch(function(err) {
+              state.busy = false;
+              verifyBtn.disabled = false;
+              verifyBtn.textContent = 'Verify & place order';
+              showError(err.message || 'Network error. Please try again.');
+          });
+      }
+
+      verifyBtn.onclick = verifyCode;
+      resendBtn.onclick = sendCode;
+      document.getElementById('foxcod-otp-cancel').onclick = function() {
+          close();
+          if (onCancel) onCancel();
+      };
+      input.addEventListener('input', function() {
+          input.value = input.value.replace(/\D/g, '').slice(0, 6);
+          if (input.value.length === 6) verifyCode();
+      });
+
+      sendCode();
+  }
+
   /**
    * Submit Native COD Checkout
    * Creates a standard Shopify Checkout with all details prefilled,
@@ -8802,6 +9015,16 @@ function darkenColor(hex, percent) {
           if (result && result.success && result.checkoutUrl) {
               updateCodOrderLoader(100, 'Redirecting...', 'Opening Shopify’s secure checkout.');
               window.location.href = result.checkoutUrl;
+          } else if (result && result.otpRequired) {
+              hideCodOrderLoader();
+              showOtpVerification(config, payload, function() {
+                  submitNativeCodCheckout(form, config, payload, submitBtn, originalBtnText);
+              }, function() {
+                  config._isSubmitting = false;
+                  submitBtn.disabled = false;
+                  submitBtn.textContent = originalBtnText;
+                  submitBtn.style.removeProperty('opacity');
+              });
           } else {
               hideCodOrderLoader();
               config._isSubmitting = false;
@@ -8932,12 +9155,22 @@ function darkenColor(hex, percent) {
                       console.log('[FOXCOD FRONTEND] Redirecting to Status Page URL', statusPageUrl);
                       if (statusPageUrl) {
                           window.location.replace(statusPageUrl);
+                      } else if (result.held) {
+                          // Held for manual review — no Shopify order exists yet
+                          window.location.replace('/apps/fox-cod/thank-you?held=1&order_id=' + encodeURIComponent(result.orderName || ''));
                       } else {
-                          window.location.replace('/apps/fox-cod/thank-you?order_id=' + (result.orderId || ''));
+                          window.location.replace('/apps/fox-cod/thank-you?order_id=' + (result.orderId || '') + (result.confirmationQuery ? '&' + result.confirmationQuery : ''));
                       }
                   }, 200); // Wait 200ms on final text before replacing window
               }, 300); // 300ms total initial loader state
 
+          } else if (result.otpRequired) {
+              hideCodOrderLoader();
+              showOtpVerification(config, payload, retryFn, function() {
+                  config._isSubmitting = false;
+                  submitBtn.disabled = false;
+                  submitBtn.textContent = originalBtnText;
+              });
           } else {
               showCodOrderError(retryFn);
               config._isSubmitting = false;
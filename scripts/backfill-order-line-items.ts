@@ -0,0 +1,83 @@
+/**
+ * One-off migration: fill order_line_items for orders logged before it existed.
+ *
+ * Builds each order's items from its saved order_payload with the same
+ * builder logOrder uses. Orders that already have rows are left alone
+ * (unique order_log_id + position), so the script can be re-run safely.
+ *
+ * Usage: npx tsx scripts/backfill-order-line-items.ts [--dry-run]
+ */
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { buildOrderLineItems } from '../app/utils/order-line-items';
+// Load environment variables
+dotenv.config();
+
+const SUPABASE_URL = process.env.SUPABASE_URL || '';
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || '';
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error("Missing Supabase credentials in .env");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+const dryRun = process.argv.includes('--dry-run');
+const BATCH_SIZE = 500;
+
+async function runBackfill() {
+  console.log(`Starting line item backfill... [Dry Run: ${dryRun}]`);
+
+  let ordersSeen = 0;
+  let rowsWritten = 0;
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data: orders, error } = await supabase
+      .from('order_logs')
+      .select('id, shop_domain, created_at, order_payload, product_id, product_title, variant_id, quantity, total_price, customer_notes')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching orders:", error);
+      process.exit(1);
+    }
+    if (!orders || orders.length === 0) break;
+
+    // logOrder stores the unit price as total_price; the payload usually has it too
+    const rows = orders.flatMap((order) =>
+      buildOrderLineItems({ ...order, price: order.total_price }).map((item) => ({
+        ...item,
+        shop_domain: order.shop_domain,
+        order_log_id: order.id,
+        created_at: order.created_at,
+      }))
+    );
+    ordersSeen += orders.length;
+
+    if (dryRun) {
+      console.log(`[DryRun] Would write ${rows.length} line items for ${orders.length} orders`);
+      rowsWritten += rows.length;
+    } else {
+      const { error: insertError } = await supabase
+        .from('order_line_items')
+        .upsert(rows, { onConflict: 'order_log_id,position', ignoreDuplicates: true });
+
+      if (insertError) {
+        console.error(`Failed to write batch at offset ${offset}:`, insertError.message);
+      } else {
+        rowsWritten += rows.length;
+      }
+    }
+
+    if (orders.length < BATCH_SIZE) break;
+  }
+
+  console.log(`\n✅ Backfill Complete!`);
+  console.log(`Orders processed: ${ordersSeen}, line items written: ${rowsWritten}`);
+  if (dryRun) console.log("Note: This was a dry run. Run without --dry-run to commit changes.");
+}
+
+runBackfill();
@@ -0,0 +1,169 @@
+/**
+ * One-off migration: scrub fraud block lists from the storefront metafield.
+ *
+ * Older versions of syncFraudSettingsToMetafield published blocked phone
+ * numbers, emails and IP addresses in fox_cod.fraud_protection_settings_json,
+ * which is PUBLIC_READ on the storefront. This rewrites the metafield for every
+ * shop with fraud settings using the sanitized storefront payload.
+ *
+ * Usage: npx tsx scripts/scrub-fraud-metafield.ts [--dry-run]
+ */
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import type { FraudProtectionSettings } from '../app/config/fraud-protection.types';
+import { toStorefrontFraudSettings } from '../app/config/fraud-protection.types';
+// Load environment variables
+dotenv.config();
+
+const SUPABASE_URL = process.env.SUPABASE_URL || '';
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || '';
+const SHOPIFY_API_VERSION = '2026-04';
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error("Missing Supabase credentials in .env");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+const dryRun = process.argv.includes('--dry-run');
+
+const SHOP_ID_QUERY = `{ shop { id metafield(namespace: "fox_cod", key: "fraud_protection_settings_json") { value } } }`;
+
+const SET_METAFIELD_MUTATION = `
+  mutation SetMetafield($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      metafields { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+// Keys that must never appear in the public metafield
+const SENSITIVE_KEYS = ['blocked_phone_numbers', 'blocked_emails', 'blocked_ip_addresses', 'allowed_ip_addresses'];
+
+interface ShopMetafieldData {
+  shop: { id: string; metafield: { value: string } | null };
+}
+
+interface SetMetafieldData {
+  metafieldsSet: { userErrors: { field: string[] | null; message: string }[] } | null;
+}
+
+/**
+ * Fetch a shop's offline access token
+ */
+async function getShopToken(shopDomain: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('shops')
+    .select('access_token')
+    .eq('shop_domain', shopDomain)
+    .single();
+  return data?.access_token || null;
+}
+
+/**
+ * Queries Shopify GraphQL API
+ */
+async function queryShopify<T>(shopDomain: string, token: string, query: string, variables: Record<string, unknown> = {}): Promise<T> {
+  const url = `https://${shopDomain}/admin/api/${SHOPIFY_API_VERSION}/graphql.json`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Shopify-Access-Token': token,
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  const body = await response.json();
+  if (!response.ok || body.errors) {
+    throw new Error(`Shopify API error: ${JSON.stringify(body.errors || response.statusText)}`);
+  }
+  return body.data as T;
+}
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function runScrub() {
+  console.log(`Scrubbing fraud metafields... [Dry Run: ${dryRun}]`);
+
+  const { data: rows, error } = await supabase
+    .from('fraud_protection_settings')
+    .select('*');
+
+  if (error) {
+    console.error("Error fetching fraud settings:", error);
+    process.exit(1);
+  }
+
+  const settingsRows = (rows || []) as FraudProtectionSettings[];
+  console.log(`Found ${settingsRows.length} shops with fraud settings.`);
+
+  let scrubbed = 0;
+  let clean = 0;
+
+  for (const settings of settingsRows) {
+    const shopDomain = settings.shop_domain;
+    const token = await getShopToken(shopDomain);
+
+    if (!token) {
+      console.error(`Missing access token for ${shopDomain}. Skipping.`);
+      continue;
+    }
+
+    try {
+      const data = await queryShopify<ShopMetafieldData>(shopDomain, token, SHOP_ID_QUERY);
+      const shopId = data.shop.id;
+      const currentValue = data.shop.metafield?.value;
+
+      let current: Record<string, unknown> = {};
+      try {
+        current = currentValue ? JSON.parse(currentValue) : {};
+      } catch {
+        current = {};
+      }
+
+      if (currentValue && !SENSITIVE_KEYS.some(key => key in current)) {
+        clean++;
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`[DryRun] Would rewrite fraud metafield for ${shopDomain}`);
+        scrubbed++;
+        continue;
+      }
+
+      const result = await queryShopify<SetMetafieldData>(shopDomain, token, SET_METAFIELD_MUTATION, {
+        metafields: [{
+          ownerId: shopId,
+          namespace: "fox_cod",
+          key: "fraud_protection_settings_json",
+          value: JSON.stringify(toStorefrontFraudSettings(settings)),
+          type: "json",
+        }],
+      });
+
+      const userErrors = result.metafieldsSet?.userErrors || [];
+      if (userErrors.length > 0) {
+        console.error(`Failed to rewrite metafield for ${shopDomain}:`, userErrors);
+      } else {
+        console.log(`Scrubbed ${shopDomain}`);
+        scrubbed++;
+      }
+
+      await sleep(500);
+    } catch (err) {
+      console.error(`Error processing ${shopDomain}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  console.log(`\n✅ Scrub Complete!`);
+  console.log(`Rewritten: ${scrubbed}, already clean: ${clean}, total: ${settingsRows.length}`);
+  if (dryRun) console.log("Note: This was a dry run. Run without --dry-run to commit changes.");
+}
+
+runScrub();
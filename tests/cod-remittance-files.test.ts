@@ -0,0 +1,104 @@
+/**
+ * Courier settlement files: CSV parsing, column guessing, and reading the
+ * amounts and dates couriers write in their own formats.
+ */
+import { describe, expect, it } from 'vitest';
+import {
+    BUILT_IN_REMITTANCE_PRESETS,
+    getExpectedCodAmount,
+    guessRemittanceColumns,
+    normalizeOrderRef,
+    parseCsv,
+    parseRemittanceAmount,
+    parseRemittanceDate,
+} from '../app/utils/cod-remittance';
+
+describe('parseCsv', () => {
+    it('handles a BOM, quoted fields, doubled quotes and CRLF', () => {
+        const text = '\uFEFFAWB,Remarks,Amount\r\n123,"Paid, ""late""",1500\r\n456,"two\nlines",900';
+
+        expect(parseCsv(text)).toEqual([
+            ['AWB', 'Remarks', 'Amount'],
+            ['123', 'Paid, "late"', '1500'],
+            ['456', 'two\nlines', '900'],
+        ]);
+    });
+
+    it('drops blank lines', () => {
+        expect(parseCsv('a,b\n\n,\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('guessRemittanceColumns', () => {
+    it('uses the preset columns the file has', () => {
+        const shiprocket = BUILT_IN_REMITTANCE_PRESETS.find((preset) => preset.id === 'builtin:shiprocket')!;
+        const headers = ['awb code', 'Order ID', 'COD Amount', 'Remittance Date', 'UTR'];
+
+        expect(guessRemittanceColumns(headers, shiprocket.columns)).toEqual({
+            awb: 'awb code',
+            order: 'Order ID',
+            amount: 'COD Amount',
+            date: 'Remittance Date',
+            utr: 'UTR',
+        });
+    });
+
+    it('guesses from the headers and keeps dates out of the other fields', () => {
+        const headers = ['Waybill Number', 'Order Date', 'Reference', 'Net Remitted', 'Paid On', 'Bank Ref'];
+
+        expect(guessRemittanceColumns(headers)).toEqual({
+            awb: 'Waybill Number',
+            order: 'Reference',
+            amount: 'Net Remitted',
+            date: 'Order Date',
+            utr: 'Bank Ref',
+        });
+    });
+});
+
+describe('parseRemittanceAmount', () => {
+    it('reads amounts with currency marks and separators', () => {
+        expect(parseRemittanceAmount('₹1,234.50')).toBe(1234.5);
+        expect(parseRemittanceAmount('Rs. 1234.5')).toBe(1234.5);
+        expect(parseRemittanceAmount('INR 1,234.567')).toBe(1234.57);
+        expect(parseRemittanceAmount('-50')).toBe(-50);
+    });
+
+    it('returns null without a number', () => {
+        expect(parseRemittanceAmount('N/A')).toBeNull();
+        expect(parseRemittanceAmount(null)).toBeNull();
+    });
+});
+
+describe('parseRemittanceDate', () => {
+    it('reads ISO and day-first dates', () => {
+        expect(parseRemittanceDate('2026-10-19')).toBe('2026-10-19');
+        expect(parseRemittanceDate('19-10-2026')).toBe('2026-10-19');
+        expect(parseRemittanceDate('9/1/2026 14:30')).toBe('2026-01-09');
+        expect(parseRemittanceDate('19.10.26')).toBe('2026-10-19');
+    });
+
+    it('reads dates with a month name', () => {
+        expect(parseRemittanceDate('19 Oct 2026')).toBe('2026-10-19');
+    });
+
+    it('returns null for anything else', () => {
+        expect(parseRemittanceDate('pending')).toBeNull();
+        expect(parseRemittanceDate('  ')).toBeNull();
+        expect(parseRemittanceDate(undefined)).toBeNull();
+    });
+});
+
+describe('getExpectedCodAmount', () => {
+    it('expects the balance for Partial COD and nothing for prepaid', () => {
+        expect(getExpectedCodAmount({ payment_method: 'partial_cod', remaining_cod_amount: '400', final_total: 500 })).toBe(400);
+        expect(getExpectedCodAmount({ payment_method: 'full_prepaid', final_total: 500 })).toBe(0);
+        expect(getExpectedCodAmount({ payment_method: 'cod', final_total: null, total_price: '750' })).toBe(750);
+    });
+});
+
+describe('normalizeOrderRef', () => {
+    it('ignores the leading # and case', () => {
+        expect(normalizeOrderRef(' #FX1001 ')).toBe(normalizeOrderRef('fx1001'));
+    });
+});
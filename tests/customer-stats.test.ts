@@ -0,0 +1,83 @@
+/**
+ * Customer stats come from get_customer_summaries for every order by the
+ * phone, and the RTO rate matches the one the fraud rule uses.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase, Row } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+import { supabase } from '../app/config/supabase.server';
+import { getRtoRate } from '../app/config/constants';
+import { getCustomerHistory, getCustomerProfile } from '../app/services/customers.server';
+
+const SHOP = 'shop-a.myshopify.com';
+const PHONE_KEY = '9876543210';
+const fake = supabase as unknown as FakeSupabase;
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const statuses = ['delivered', 'delivered', 'returned', 'cancelled', 'pending'];
+    fake.tables.order_logs = statuses.map((status, index) => ({
+        id: `order-${index}`,
+        shop_domain: SHOP,
+        customer_phone: `+91${PHONE_KEY}`,
+        customer_phone_key: PHONE_KEY,
+        status,
+        created_at: `2026-10-0${index + 1}T00:00:00Z`,
+    }));
+    fake.tables.customers = [];
+    fake.tables.fraud_settings = [];
+
+    // Stands in for get_customer_summaries (migration v51)
+    fake.functions.get_customer_summaries = (args, tables) => {
+        const orders = tables.order_logs.filter((row: Row) =>
+            row.shop_domain === args.p_shop && row.customer_phone_key === args.p_phone_key);
+        if (orders.length === 0) return [];
+        const count = (status: string) => orders.filter((row: Row) => row.status === status).length;
+        const counts = { delivered: count('delivered'), returned: count('returned'), cancelled: count('cancelled') };
+        return [{
+            phone_key: args.p_phone_key,
+            phone: orders[0].customer_phone,
+            total_orders: orders.length,
+            delivered_count: counts.delivered,
+            returned_count: counts.returned,
+            cancelled_count: counts.cancelled,
+            lifetime_revenue: 0,
+            rto_rate: getRtoRate(counts),
+            first_order_at: orders[0].created_at,
+            last_order_at: orders[orders.length - 1].created_at,
+            total_count: 1,
+        }];
+    };
+});
+
+describe('getRtoRate', () => {
+    it('counts cancelled orders as RTO and ignores open ones', () => {
+        expect(getRtoRate({ delivered: 2, returned: 1, cancelled: 1 })).toBe(50);
+        expect(getRtoRate({ delivered: 0, returned: 0, cancelled: 0 })).toBeNull();
+    });
+});
+
+describe('customer stats', () => {
+    it('reads profile stats from get_customer_summaries', async () => {
+        const profile = await getCustomerProfile(SHOP, PHONE_KEY);
+
+        expect(profile?.stats).toMatchObject({ totalOrders: 5, deliveredCount: 2, returnedCount: 1, cancelledCount: 1, rtoRate: 50 });
+        expect(profile?.orders.map((order) => order.id)).toEqual(['order-4', 'order-3', 'order-2', 'order-1', 'order-0']);
+    });
+
+    it('counts the orders placed before this one', async () => {
+        const history = await getCustomerHistory(SHOP, { id: 'order-3', customer_phone: `+91${PHONE_KEY}`, created_at: '2026-10-04T00:00:00Z' });
+
+        expect(history).toMatchObject({ totalOrders: 5, rtoRate: 50, previousOrders: 3 });
+    });
+
+    it('returns null for a phone without orders', async () => {
+        expect(await getCustomerProfile(SHOP, '9000000000')).toBeNull();
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Shopify fulfillment events map onto delivery statuses, and the delivery
+ * state machine never moves a final status or goes back to booked.
+ */
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+vi.mock('../app/shopify.server', () => ({
+    authenticate: { admin: async () => ({ admin: {} }) },
+    unauthenticated: { admin: async () => ({ admin: {} }) },
+}));
+
+import { canChangeDeliveryStatus, type DeliveryStatus } from '../app/config/constants';
+import { mapShopifyFulfillmentEvent } from '../app/services/delivery-status.server';
+
+describe('mapShopifyFulfillmentEvent', () => {
+    it('maps each Shopify event status', () => {
+        const expected: Record<string, DeliveryStatus> = {
+            label_printed: 'booked',
+            label_purchased: 'booked',
+            confirmed: 'booked',
+            carrier_picked_up: 'in_transit',
+            in_transit: 'in_transit',
+            delayed: 'in_transit',
+            out_for_delivery: 'out_for_delivery',
+            ready_for_pickup: 'out_for_delivery',
+            attempted_delivery: 'undelivered',
+            failure: 'undelivered',
+            delivered: 'delivered',
+            picked_up: 'delivered',
+        };
+        for (const [event, status] of Object.entries(expected)) {
+            expect(mapShopifyFulfillmentEvent(event)).toBe(status);
+        }
+    });
+
+    it('accepts the GraphQL enum casing', () => {
+        expect(mapShopifyFulfillmentEvent('OUT_FOR_DELIVERY')).toBe('out_for_delivery');
+    });
+
+    it('ignores unknown or missing statuses', () => {
+        expect(mapShopifyFulfillmentEvent('something_new')).toBeNull();
+        expect(mapShopifyFulfillmentEvent(null)).toBeNull();
+    });
+});
+
+describe('canChangeDeliveryStatus', () => {
+    it('starts tracking at any stage except cancelled', () => {
+        expect(canChangeDeliveryStatus(null, 'in_transit')).toBe(true);
+        expect(canChangeDeliveryStatus(undefined, 'delivered')).toBe(true);
+        expect(canChangeDeliveryStatus(null, 'cancelled')).toBe(false);
+    });
+
+    it('lets a failed attempt be reattempted', () => {
+        expect(canChangeDeliveryStatus('undelivered', 'out_for_delivery')).toBe(true);
+        expect(canChangeDeliveryStatus('undelivered', 'delivered')).toBe(true);
+    });
+
+    it('only cancels a shipment that is still booked', () => {
+        expect(canChangeDeliveryStatus('booked', 'cancelled')).toBe(true);
+        expect(canChangeDeliveryStatus('in_transit', 'cancelled')).toBe(false);
+    });
+
+    it('never moves a final status or back to booked', () => {
+        for (const from of ['delivered', 'rto', 'cancelled'] as DeliveryStatus[]) {
+            expect(canChangeDeliveryStatus(from, 'in_transit')).toBe(false);
+        }
+        expect(canChangeDeliveryStatus('in_transit', 'booked')).toBe(false);
+        expect(canChangeDeliveryStatus('unknown', 'delivered')).toBe(false);
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Typo suggestions are hints: real regional domains get none, and a likely
+ * typo only blocks the order when the domain can't receive mail.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+const mail = vi.hoisted(() => ({ hasMailServer: vi.fn(async () => true) }));
+
+vi.mock('../app/services/email-domain.server', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../app/services/email-domain.server')>()),
+    hasMailServer: mail.hasMailServer,
+}));
+
+import { DEFAULT_FRAUD_SETTINGS, type FraudProtectionSettings } from '../app/config/fraud-protection.types';
+import { getEmailDomain, isRoleEmail, suggestEmailCorrection } from '../app/services/email-domain.server';
+import { validateOrderAgainstFraudRulesWithSettings } from '../app/services/fraud-protection.server';
+
+const SHOP = 'shop-a.myshopify.com';
+
+const settings = {
+    ...DEFAULT_FRAUD_SETTINGS,
+    shop_domain: SHOP,
+    email_domain_check_enabled: true,
+} as FraudProtectionSettings;
+
+const placeOrder = (email: string) =>
+    validateOrderAgainstFraudRulesWithSettings({ email, quantity: 1, paymentMethod: 'cod', shopDomain: SHOP }, settings);
+
+beforeEach(() => {
+    mail.hasMailServer.mockResolvedValue(true);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('suggestEmailCorrection', () => {
+    it('suggests the provider for common typos', () => {
+        expect(suggestEmailCorrection('jane@gmial.com')).toBe('jane@gmail.com');
+        expect(suggestEmailCorrection('jane@yaho.com')).toBe('jane@yahoo.com');
+        expect(suggestEmailCorrection('jane@hotmial.com')).toBe('jane@hotmail.com');
+    });
+
+    it('leaves real regional domains alone', () => {
+        for (const domain of ['yahoo.co.id', 'yahoo.co.jp', 'yahoo.co.th', 'hotmail.co.jp', 'email.com', 'mail.com']) {
+            expect(suggestEmailCorrection(`jane@${domain}`)).toBeNull();
+        }
+    });
+
+    it('ignores domains nowhere near a common provider', () => {
+        expect(suggestEmailCorrection('jane@example.org')).toBeNull();
+    });
+});
+
+describe('email helpers', () => {
+    it('reads the domain after the last @', () => {
+        expect(getEmailDomain('Jane@Example.COM ')).toBe('example.com');
+        expect(getEmailDomain('@example.com')).toBeNull();
+    });
+
+    it('spots role mailboxes, plus-addressing included', () => {
+        expect(isRoleEmail('support+shop@example.com')).toBe(true);
+        expect(isRoleEmail('jane@example.com')).toBe(false);
+    });
+});
+
+describe('email domain rule', () => {
+    it("doesn't block a likely typo that receives mail", async () => {
+        expect((await placeOrder('jane@gmial.com')).allowed).toBe(true);
+    });
+
+    it('suggests the correction when the domain has no mail server', async () => {
+        mail.hasMailServer.mockResolvedValue(false);
+
+        expect(await placeOrder('jane@gmial.com')).toMatchObject({
+            allowed: false,
+            rule: 'email_domain',
+            message: expect.stringContaining('Did you mean jane@gmail.com?'),
+        });
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * The MX check blocks only domains the resolver says don't exist or have no
+ * mail records, and fails open when DNS itself is the problem.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const dns = vi.hoisted(() => ({
+    resolveMx: vi.fn(),
+    resolve4: vi.fn(),
+}));
+
+vi.mock('node:dns', () => ({ promises: dns }));
+
+const dnsError = (code: string) => Object.assign(new Error(code), { code });
+
+// The resolver probe and MX results are cached per module — start each test fresh
+const loadService = async () => {
+    vi.resetModules();
+    return import('../app/services/email-domain.server');
+};
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dns.resolveMx.mockImplementation(async (domain: string) => {
+        if (domain === 'gmail.com' || domain === 'example.com') return [{ exchange: `mx.${domain}`, priority: 10 }];
+        throw dnsError('ENOTFOUND');
+    });
+    dns.resolve4.mockRejectedValue(dnsError('ENOTFOUND'));
+});
+
+describe('hasMailServer', () => {
+    it('accepts domains with MX records', async () => {
+        const { hasMailServer } = await loadService();
+        expect(await hasMailServer('example.com')).toBe(true);
+    });
+
+    it('accepts domains with only an A record', async () => {
+        dns.resolve4.mockResolvedValue(['203.0.113.7']);
+        const { hasMailServer } = await loadService();
+        expect(await hasMailServer('mail-on-a-record.test')).toBe(true);
+    });
+
+    it('rejects domains that do not exist', async () => {
+        const { hasMailServer } = await loadService();
+        expect(await hasMailServer('gmial.com')).toBe(false);
+    });
+
+    it('fails open on resolver errors', async () => {
+        dns.resolveMx.mockImplementation(async (domain: string) => {
+            if (domain === 'gmail.com') return [{ exchange: 'mx.gmail.com', priority: 10 }];
+            throw dnsError('ESERVFAIL');
+        });
+        const { hasMailServer } = await loadService();
+        expect(await hasMailServer('flaky.test')).toBe(true);
+    });
+
+    it('fails open when the resolver has no upstream', async () => {
+        dns.resolveMx.mockRejectedValue(dnsError('ENOTFOUND'));
+        const { hasMailServer } = await loadService();
+        expect(await hasMailServer('gmial.com')).toBe(true);
+    });
+});
+
+describe('isDisposableEmailDomain', () => {
+    it('matches listed domains and their subdomains', async () => {
+        const { isDisposableEmailDomain } = await loadService();
+        expect(await isDisposableEmailDomain('mailinator.com')).toBe(true);
+        expect(await isDisposableEmailDomain('inbox.Mailinator.com')).toBe(true);
+        expect(await isDisposableEmailDomain('gmail.com')).toBe(false);
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * The RTO rule matches emails case-insensitively, with LIKE wildcards in the
+ * address taken literally.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+import { supabase } from '../app/config/supabase.server';
+import { DEFAULT_FRAUD_SETTINGS, type FraudProtectionSettings } from '../app/config/fraud-protection.types';
+import { validateOrderAgainstFraudRulesWithSettings } from '../app/services/fraud-protection.server';
+
+const SHOP = 'shop-a.myshopify.com';
+const fake = supabase as unknown as FakeSupabase;
+
+const settings = {
+    ...DEFAULT_FRAUD_SETTINGS,
+    shop_domain: SHOP,
+    rto_rule_enabled: true,
+    rto_min_returns: 2,
+} as FraudProtectionSettings;
+
+function seedReturns(email: string) {
+    fake.tables.order_logs = [20, 10].map((daysAgo, index) => ({
+        id: `order-${index}`,
+        shop_domain: SHOP,
+        customer_email: email,
+        status: 'returned',
+        created_at: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+    }));
+}
+
+const placeOrder = (email: string) =>
+    validateOrderAgainstFraudRulesWithSettings({ email, quantity: 1, paymentMethod: 'cod', shopDomain: SHOP }, settings);
+
+beforeEach(() => {
+    fake.tables.fraud_auto_blocks = [];
+    fake.tables.fraud_events = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('RTO history by email', () => {
+    it('matches the same address in another case', async () => {
+        seedReturns('Asha.Rao@Example.com');
+        expect(await placeOrder('asha.rao@example.com')).toMatchObject({ allowed: false, rule: 'rto_history' });
+    });
+
+    it("doesn't treat _ or % in the address as wildcards", async () => {
+        seedReturns('asha-rao@example.com');
+        expect((await placeOrder('asha_rao@example.com')).allowed).toBe(true);
+
+        seedReturns('asha.rao@example.com');
+        expect((await placeOrder('%@example.com')).allowed).toBe(true);
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Risk scores map to decisions at the configured thresholds, and the
+ * weights of every matched signal add up to the order's score.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+import { DEFAULT_FRAUD_SETTINGS, DEFAULT_RISK_THRESHOLDS, type FraudProtectionSettings } from '../app/config/fraud-protection.types';
+import { decisionForScore, validateOrderAgainstFraudRulesWithSettings } from '../app/services/fraud-protection.server';
+
+const SHOP = 'shop-a.myshopify.com';
+
+const settings = {
+    ...DEFAULT_FRAUD_SETTINGS,
+    shop_domain: SHOP,
+    risk_scoring_enabled: true,
+    blocked_phone_numbers: ['9876543210'],
+    postal_code_mode: 'block_only',
+    postal_codes: ['560001'],
+} as FraudProtectionSettings;
+
+const placeOrder = (phone: string, zipcode: string) =>
+    validateOrderAgainstFraudRulesWithSettings({ phone, zipcode, quantity: 1, paymentMethod: 'cod', shopDomain: SHOP }, settings);
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('decisionForScore', () => {
+    it('reaches each decision at its threshold', () => {
+        expect(decisionForScore(29, DEFAULT_RISK_THRESHOLDS)).toBe('allow');
+        expect(decisionForScore(30, DEFAULT_RISK_THRESHOLDS)).toBe('verify');
+        expect(decisionForScore(50, DEFAULT_RISK_THRESHOLDS)).toBe('review');
+        expect(decisionForScore(80, DEFAULT_RISK_THRESHOLDS)).toBe('block');
+    });
+
+    it('picks the highest decision when thresholds are equal', () => {
+        expect(decisionForScore(60, { verify: 60, review: 60, block: 60 })).toBe('block');
+    });
+});
+
+describe('risk scoring', () => {
+    it('sums the weights of the matched signals', async () => {
+        expect(await placeOrder('9000000000', '560001')).toMatchObject({ allowed: true, decision: 'verify', score: 30 });
+        expect(await placeOrder('+91 98765 43210', '560001')).toMatchObject({ allowed: false, decision: 'block', score: 130 });
+    });
+
+    it('allows an order without signals', async () => {
+        expect(await placeOrder('9000000000', '110001')).toMatchObject({ allowed: true, decision: 'allow', score: 0 });
+    });
+});
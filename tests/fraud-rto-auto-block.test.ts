@@ -0,0 +1,93 @@
+/**
+ * RTO auto-blocks are recorded only when the rule is enforced, and phone
+ * blocks are keyed on the phone key so they hold across number formats.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+import { supabase } from '../app/config/supabase.server';
+import { DEFAULT_FRAUD_SETTINGS, type FraudProtectionSettings } from '../app/config/fraud-protection.types';
+import { validateOrderAgainstFraudRulesWithSettings } from '../app/services/fraud-protection.server';
+import { customerPhoneKey } from '../app/utils/phone';
+
+const SHOP = 'shop-a.myshopify.com';
+const PHONE = '+919876543210';
+const fake = supabase as unknown as FakeSupabase;
+
+const settings = {
+    ...DEFAULT_FRAUD_SETTINGS,
+    shop_domain: SHOP,
+    rto_rule_enabled: true,
+    rto_min_returns: 2,
+} as FraudProtectionSettings;
+
+const placeOrder = (phone: string, overrides: Partial<FraudProtectionSettings> = {}) =>
+    validateOrderAgainstFraudRulesWithSettings(
+        { phone, quantity: 1, paymentMethod: 'cod', shopDomain: SHOP },
+        { ...settings, ...overrides }
+    );
+
+beforeEach(() => {
+    fake.tables.order_logs = [20, 10].map((daysAgo, index) => ({
+        id: `order-${index}`,
+        shop_domain: SHOP,
+        customer_phone: PHONE,
+        customer_phone_key: customerPhoneKey(PHONE),
+        status: 'returned',
+        created_at: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+    }));
+    fake.tables.fraud_auto_blocks = [];
+    fake.tables.fraud_events = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('RTO auto-blocks', () => {
+    it('records an active block when the rule is enforced', async () => {
+        expect(await placeOrder(PHONE)).toMatchObject({ allowed: false, rule: 'rto_history' });
+        expect(fake.tables.fraud_auto_blocks).toMatchObject([
+            { identifier_type: 'phone', identifier: customerPhoneKey(PHONE), status: 'active' },
+        ]);
+    });
+
+    it('keeps an unblocked phone allowed however the number is typed', async () => {
+        fake.tables.fraud_auto_blocks = [{
+            id: 'block-1',
+            shop_domain: SHOP,
+            identifier_type: 'phone',
+            identifier: customerPhoneKey(PHONE),
+            status: 'unblocked',
+        }];
+
+        expect((await placeOrder('98765 43210')).allowed).toBe(true);
+        expect((await placeOrder('+91 98765-43210')).allowed).toBe(true);
+    });
+
+    it('still honours blocks recorded with the number as typed', async () => {
+        fake.tables.order_logs = [];
+        fake.tables.fraud_auto_blocks = [{
+            id: 'block-1',
+            shop_domain: SHOP,
+            identifier_type: 'phone',
+            identifier: PHONE,
+            status: 'active',
+            reason: '2 of 2 orders returned',
+            returned_count: 2,
+            total_count: 2,
+        }];
+
+        expect(await placeOrder(PHONE)).toMatchObject({ allowed: false, rule: 'rto_history' });
+    });
+
+    it("doesn't record blocks while the rule is monitored", async () => {
+        const result = await placeOrder(PHONE, { monitor_rules: ['rto_history'] });
+
+        expect(result.allowed).toBe(true);
+        expect(fake.tables.fraud_auto_blocks).toEqual([]);
+    });
+});
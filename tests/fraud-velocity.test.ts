@@ -0,0 +1,62 @@
+/**
+ * The fraud check only reads the IP velocity counters — an order counts
+ * against the limit once the route records it, after the order is logged.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase, Row } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+import { supabase } from '../app/config/supabase.server';
+import { DEFAULT_FRAUD_SETTINGS, type FraudProtectionSettings } from '../app/config/fraud-protection.types';
+import { recordVelocity, validateOrderAgainstFraudRulesWithSettings, type OrderValidationData } from '../app/services/fraud-protection.server';
+
+const SHOP = 'shop-a.myshopify.com';
+const fake = supabase as unknown as FakeSupabase;
+
+const settings = {
+    ...DEFAULT_FRAUD_SETTINGS,
+    shop_domain: SHOP,
+    ip_limit_enabled: true,
+    ip_max_orders: 1,
+    ip_limit_hours: 24,
+} as FraudProtectionSettings;
+
+const order: OrderValidationData = { ip: '203.0.113.7', quantity: 1, paymentMethod: 'cod', shopDomain: SHOP };
+
+beforeEach(() => {
+    fake.tables.fraud_velocity_counters = [];
+    fake.tables.fraud_events = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Stands in for fraud_increment_velocity
+    fake.functions.fraud_increment_velocity = (args, tables) => {
+        const row = tables.fraud_velocity_counters.find((counter: Row) =>
+            counter.key_value === args.p_key_value && counter.bucket_start === args.p_bucket_start);
+        if (row) row.order_count = Number(row.order_count) + 1;
+        else tables.fraud_velocity_counters.push({
+            shop_domain: args.p_shop,
+            key_type: args.p_key_type,
+            key_value: args.p_key_value,
+            bucket_start: args.p_bucket_start,
+            order_count: 1,
+        });
+    };
+});
+
+describe('IP velocity', () => {
+    it("doesn't count an order that passes the check but is never placed", async () => {
+        expect((await validateOrderAgainstFraudRulesWithSettings(order, settings)).allowed).toBe(true);
+        expect((await validateOrderAgainstFraudRulesWithSettings(order, settings)).allowed).toBe(true);
+        expect(fake.tables.fraud_velocity_counters).toEqual([]);
+    });
+
+    it('blocks once recorded orders reach the limit', async () => {
+        await recordVelocity(order, settings);
+
+        expect(await validateOrderAgainstFraudRulesWithSettings(order, settings)).toMatchObject({ allowed: false, rule: 'ip_velocity' });
+    });
+});
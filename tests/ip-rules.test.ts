@@ -0,0 +1,59 @@
+/**
+ * IP list entries match as exact addresses, CIDR blocks or wildcards, and
+ * the admin UI rejects the entries the matcher would ignore.
+ */
+import { describe, expect, it } from 'vitest';
+import { getIpRuleErrors, ipMatchesAnyRule, parseIpRule } from '../app/utils/ip-rules';
+
+describe('ipMatchesAnyRule', () => {
+    it('matches exact addresses, IPv4-mapped IPv6 included', () => {
+        expect(ipMatchesAnyRule('203.0.113.7', ['203.0.113.7'])).toBe(true);
+        expect(ipMatchesAnyRule('::ffff:203.0.113.7', ['203.0.113.7'])).toBe(true);
+        expect(ipMatchesAnyRule('203.0.113.8', ['203.0.113.7'])).toBe(false);
+        expect(ipMatchesAnyRule('2001:0db8:0000::1', ['2001:db8::1'])).toBe(true);
+    });
+
+    it('matches addresses inside a CIDR block', () => {
+        expect(ipMatchesAnyRule('203.0.113.200', ['203.0.113.0/24'])).toBe(true);
+        expect(ipMatchesAnyRule('203.0.114.1', ['203.0.113.0/24'])).toBe(false);
+        expect(ipMatchesAnyRule('2001:db8:ffff::1', ['2001:db8::/32'])).toBe(true);
+        expect(ipMatchesAnyRule('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+    });
+
+    it('matches IPv4 wildcards, a trailing * covering the rest', () => {
+        expect(ipMatchesAnyRule('203.0.113.99', ['203.0.113.*'])).toBe(true);
+        expect(ipMatchesAnyRule('10.20.30.40', ['10.20.*'])).toBe(true);
+        expect(ipMatchesAnyRule('10.21.30.40', ['10.20.*'])).toBe(false);
+        expect(ipMatchesAnyRule('10.1.2.3', ['10.*.2.*'])).toBe(true);
+    });
+
+    it('matches IPv6 prefix wildcards', () => {
+        expect(ipMatchesAnyRule('2001:db8:abcd::1', ['2001:db8:*'])).toBe(true);
+        expect(ipMatchesAnyRule('2001:db9::1', ['2001:db8:*'])).toBe(false);
+    });
+
+    it("doesn't match across address families", () => {
+        expect(ipMatchesAnyRule('2001:db8::1', ['10.*'])).toBe(false);
+        expect(ipMatchesAnyRule('10.0.0.1', ['::/0'])).toBe(false);
+    });
+
+    it('ignores invalid entries and unparseable IPs', () => {
+        expect(ipMatchesAnyRule('10.0.0.1', ['not an ip', '10.0.0.1'])).toBe(true);
+        expect(ipMatchesAnyRule('unknown', ['10.*'])).toBe(false);
+        expect(ipMatchesAnyRule(undefined, ['10.*'])).toBe(false);
+    });
+});
+
+describe('parseIpRule', () => {
+    it('rejects shorthand and malformed entries', () => {
+        for (const entry of ['10.1', '10.1/8', '256.0.0.1', '10.*.1', '1.2.3.4.*', '2001::db8:*', '', '   ']) {
+            expect(parseIpRule(entry)).toBeNull();
+        }
+    });
+
+    it('reports every invalid entry', () => {
+        expect(getIpRuleErrors(['10.0.0.0/8', '10.1', 'fe80::1'])).toEqual([
+            '"10.1" is not a valid IP address, CIDR block or wildcard pattern',
+        ]);
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * NDR reasons are read from the courier's wording, checking refusals and
+ * cash first since those remarks often mention availability too.
+ */
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+vi.mock('../app/shopify.server', () => ({
+    authenticate: { admin: async () => ({ admin: {} }) },
+    unauthenticated: { admin: async () => ({ admin: {} }) },
+}));
+
+import { classifyNdrReason } from '../app/services/ndr.server';
+
+describe('classifyNdrReason', () => {
+    it('reads common courier remarks', () => {
+        expect(classifyNdrReason('Consignee refused to accept')).toBe('refused');
+        expect(classifyNdrReason('COD amount not ready')).toBe('cod_not_ready');
+        expect(classifyNdrReason('Customer requested future delivery')).toBe('rescheduled');
+        expect(classifyNdrReason('Incomplete address, landmark needed')).toBe('wrong_address');
+        expect(classifyNdrReason('Phone switched off')).toBe('unreachable');
+        expect(classifyNdrReason('Door locked')).toBe('customer_unavailable');
+    });
+
+    it('puts refusals and cash ahead of availability', () => {
+        expect(classifyNdrReason('Customer refused, not available to pay')).toBe('refused');
+        expect(classifyNdrReason('Cash not available, customer not at home')).toBe('cod_not_ready');
+    });
+
+    it('ignores case and falls back to other', () => {
+        expect(classifyNdrReason('DOOR LOCKED')).toBe('customer_unavailable');
+        expect(classifyNdrReason('Misrouted')).toBe('other');
+        expect(classifyNdrReason(null)).toBe('other');
+        expect(classifyNdrReason('')).toBe('other');
+    });
+});
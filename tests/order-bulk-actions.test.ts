@@ -0,0 +1,99 @@
+/**
+ * Bulk status changes follow ORDER_STATUS_TRANSITIONS, and marking orders
+ * shipped fulfills them in Shopify before the order_logs row changes.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase, Row } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+vi.mock('../app/shopify.server', () => ({
+    authenticate: { admin: async () => ({ admin: {} }) },
+    unauthenticated: { admin: async () => ({ admin: {} }) },
+}));
+
+const shopify = vi.hoisted(() => ({
+    fulfillShopifyOrder: vi.fn(),
+    cancelShopifyOrder: vi.fn(async () => ({ success: true })),
+    addShopifyOrderTags: vi.fn(async () => ({ success: true })),
+}));
+
+vi.mock('../app/services/shopify-graphql-orders.server', () => shopify);
+
+import { supabase } from '../app/config/supabase.server';
+import { runBulkOrderAction } from '../app/services/order-bulk-actions.server';
+
+const SHOP = 'shop-a.myshopify.com';
+const fake = supabase as unknown as FakeSupabase;
+
+function seed(orders: Row[]) {
+    fake.tables.order_logs = orders.map((order) => ({
+        shop_domain: SHOP,
+        sync_status: 'synced',
+        created_at: '2026-10-01T00:00:00Z',
+        ...order,
+    }));
+    fake.tables.order_events = [];
+    fake.tables.order_confirmations = [];
+}
+
+const orderById = (id: string) => fake.tables.order_logs.find((row: Row) => row.id === id);
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    shopify.fulfillShopifyOrder.mockResolvedValue({ success: true, fulfillmentId: 'gid://shopify/Fulfillment/1' });
+});
+
+describe('mark_shipped', () => {
+    it('fulfills the order in Shopify before marking it shipped', async () => {
+        seed([{ id: 'order-1', shopify_order_id: '5001', status: 'confirmed' }]);
+
+        const [result] = await runBulkOrderAction(SHOP, ['order-1'], 'mark_shipped');
+
+        expect(result.outcome).toBe('updated');
+        expect(shopify.fulfillShopifyOrder).toHaveBeenCalledWith(SHOP, '5001', null);
+        expect(orderById('order-1')).toMatchObject({ status: 'shipped', shopify_fulfillment_id: 'gid://shopify/Fulfillment/1' });
+    });
+
+    it('leaves the order unchanged when Shopify rejects the fulfillment', async () => {
+        seed([{ id: 'order-1', shopify_order_id: '5001', status: 'confirmed' }]);
+        shopify.fulfillShopifyOrder.mockResolvedValue({ success: false, error: 'Nothing left to fulfill on this order' });
+
+        const [result] = await runBulkOrderAction(SHOP, ['order-1'], 'mark_shipped');
+
+        expect(result).toMatchObject({ outcome: 'failed', message: 'Nothing left to fulfill on this order' });
+        expect(orderById('order-1')?.status).toBe('confirmed');
+    });
+
+    it("skips orders that aren't in Shopify or can't ship", async () => {
+        seed([
+            { id: 'order-1', shopify_order_id: null, sync_status: 'failed_sync', status: 'pending' },
+            { id: 'order-2', shopify_order_id: '5002', status: 'cancelled' },
+        ]);
+
+        const results = await runBulkOrderAction(SHOP, ['order-1', 'order-2'], 'mark_shipped');
+
+        expect(results.map((r) => r.outcome)).toEqual(['skipped', 'skipped']);
+        expect(shopify.fulfillShopifyOrder).not.toHaveBeenCalled();
+    });
+});
+
+describe('mark_returned', () => {
+    it('only moves shipped or delivered orders', async () => {
+        seed([
+            { id: 'order-1', shopify_order_id: '5001', status: 'delivered' },
+            { id: 'order-2', shopify_order_id: '5002', status: 'confirmed' },
+        ]);
+
+        const results = await runBulkOrderAction(SHOP, ['order-1', 'order-2'], 'mark_returned');
+
+        expect(results.map((r) => r.outcome)).toEqual(['updated', 'skipped']);
+        expect(orderById('order-1')?.status).toBe('returned');
+        expect(orderById('order-2')?.status).toBe('confirmed');
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * The confirmation expiry sweep only acts on orders still waiting for the
+ * customer, and the merchant's own status changes close the confirmation.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase, Row } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+vi.mock('../app/shopify.server', () => ({
+    authenticate: { admin: async () => ({ admin: {} }) },
+    unauthenticated: { admin: async () => ({ admin: {} }) },
+}));
+
+const shopify = vi.hoisted(() => ({
+    cancelShopifyOrder: vi.fn(async () => ({ success: true })),
+    addShopifyOrderTags: vi.fn(async () => ({ success: true })),
+}));
+
+vi.mock('../app/services/shopify-graphql-orders.server', () => ({
+    ...shopify,
+    updateShopifyShippingAddress: vi.fn(async () => ({ success: true })),
+}));
+
+import { supabase, updateOrderStatusSimple } from '../app/config/supabase.server';
+import { expireOrderConfirmations } from '../app/services/order-confirmation.server';
+
+const SHOP = 'shop-a.myshopify.com';
+const fake = supabase as unknown as FakeSupabase;
+
+function seed(orders: { id: string; status: string }[], timeoutAction: 'cancel' | 'flag') {
+    const expiredAt = new Date(Date.now() - 60 * 1000).toISOString();
+    fake.tables.order_logs = orders.map(({ id, status }) => ({
+        id: `log-${id}`,
+        shop_domain: SHOP,
+        shopify_order_id: `gid://shopify/Order/${id}`,
+        shopify_order_name: `#${id}`,
+        status,
+        created_at: '2026-10-01T00:00:00Z',
+    }));
+    fake.tables.order_confirmations = orders.map(({ id }) => ({
+        id: `conf-${id}`,
+        shop_domain: SHOP,
+        shopify_order_id: id,
+        shopify_order_name: `#${id}`,
+        status: 'sent',
+        expires_at: expiredAt,
+    }));
+    fake.tables.integration_settings = [{
+        shop_domain: SHOP,
+        integration_id: 'sms_whatsapp',
+        connected: true,
+        enabled: true,
+        config: { confirmation_enabled: true, confirmation_timeout_action: timeoutAction },
+    }];
+    fake.tables.order_events = [];
+}
+
+function confirmationStatus(id: string) {
+    return fake.tables.order_confirmations.find((row: Row) => row.shopify_order_id === id)?.status;
+}
+
+function orderStatus(id: string) {
+    return fake.tables.order_logs.find((row: Row) => row.id === `log-${id}`)?.status;
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('expireOrderConfirmations', () => {
+    it('cancels only orders that are still pending', async () => {
+        seed([
+            { id: '1001', status: 'pending' },
+            { id: '1002', status: 'confirmed' },
+            { id: '1003', status: 'shipped' },
+            { id: '1004', status: 'cancelled' },
+        ], 'cancel');
+
+        expect(await expireOrderConfirmations()).toEqual({ flagged: 0, cancelled: 1, failed: 0 });
+
+        expect(shopify.cancelShopifyOrder).toHaveBeenCalledTimes(1);
+        expect(shopify.cancelShopifyOrder).toHaveBeenCalledWith(SHOP, '1001', expect.anything());
+        expect(orderStatus('1001')).toBe('cancelled');
+        expect(orderStatus('1002')).toBe('confirmed');
+        expect(orderStatus('1003')).toBe('shipped');
+        expect(confirmationStatus('1002')).toBe('confirmed');
+        expect(confirmationStatus('1003')).toBe('confirmed');
+        expect(confirmationStatus('1004')).toBe('cancelled');
+    });
+
+    it('flags only orders that are still pending', async () => {
+        seed([
+            { id: '1001', status: 'pending' },
+            { id: '1002', status: 'shipped' },
+        ], 'flag');
+
+        expect(await expireOrderConfirmations()).toEqual({ flagged: 1, cancelled: 0, failed: 0 });
+        expect(shopify.addShopifyOrderTags).toHaveBeenCalledTimes(1);
+        expect(shopify.addShopifyOrderTags).toHaveBeenCalledWith(SHOP, '1001', ['Unconfirmed']);
+    });
+
+    it("leaves a confirmation whose order can't be found", async () => {
+        seed([{ id: '1001', status: 'pending' }], 'cancel');
+        fake.tables.order_logs.length = 0;
+
+        expect(await expireOrderConfirmations()).toEqual({ flagged: 0, cancelled: 0, failed: 0 });
+        expect(shopify.cancelShopifyOrder).not.toHaveBeenCalled();
+        expect(confirmationStatus('1001')).toBe('expired');
+    });
+});
+
+describe('updateOrderStatusSimple', () => {
+    it("closes the order's open confirmation", async () => {
+        seed([{ id: '1001', status: 'pending' }, { id: '1002', status: 'pending' }], 'cancel');
+
+        await updateOrderStatusSimple(SHOP, 'log-1001', 'shipped');
+        await updateOrderStatusSimple(SHOP, 'log-1002', 'cancelled');
+
+        expect(confirmationStatus('1001')).toBe('confirmed');
+        expect(confirmationStatus('1002')).toBe('cancelled');
+        expect(await expireOrderConfirmations()).toEqual({ flagged: 0, cancelled: 0, failed: 0 });
+        expect(shopify.cancelShopifyOrder).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * An item edit rebuilds the order's order_line_items rows together with the
+ * totals, so nothing keeps showing the items from before the edit.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase, Row } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+vi.mock('../app/shopify.server', () => ({
+    authenticate: { admin: async () => ({ admin: {} }) },
+    unauthenticated: { admin: async () => ({ admin: {} }) },
+}));
+
+const shopify = vi.hoisted(() => ({
+    getShopifyEditableOrder: vi.fn(),
+    editShopifyOrderItems: vi.fn(),
+    updateShopifyOrderNote: vi.fn(async () => ({ success: true })),
+    updateShopifyShippingAddress: vi.fn(async () => ({ success: true })),
+}));
+
+vi.mock('../app/services/shopify-graphql-orders.server', () => shopify);
+
+vi.mock('../app/services/inventory-sync.server', () => ({
+    buildInventoryMetadata: vi.fn(async () => []),
+    editInventory: vi.fn(async () => undefined),
+}));
+
+import { supabase } from '../app/config/supabase.server';
+import { applyOrderEdit } from '../app/services/order-edit.server';
+
+const SHOP = 'shop-a.myshopify.com';
+const fake = supabase as unknown as FakeSupabase;
+
+const shopifyLine = (id: string, variantId: string, title: string, quantity: number, unitPrice: number) => ({
+    id: `gid://shopify/LineItem/${id}`,
+    title,
+    variantTitle: null,
+    sku: null,
+    variantId: `gid://shopify/ProductVariant/${variantId}`,
+    quantity,
+    unfulfilledQuantity: quantity,
+    unitPrice,
+});
+
+const storedLine = (position: number, fields: Row) => ({
+    shop_domain: SHOP,
+    order_log_id: 'order-1',
+    position,
+    source_detail: null,
+    product_id: null,
+    variant_title: null,
+    discount_amount: 0,
+    created_at: '2026-10-01T00:00:00Z',
+    ...fields,
+});
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    fake.tables.order_logs = [{
+        id: 'order-1',
+        shop_domain: SHOP,
+        shopify_order_id: '5001',
+        status: 'confirmed',
+        total_price: 1000,
+        final_total: 1000,
+        quantity: 3,
+        created_at: '2026-10-01T00:00:00Z',
+    }];
+    fake.tables.order_line_items = [
+        storedLine(0, { source: 'bundle', source_detail: 'Buy 2', product_id: '11', variant_id: '111', title: 'Tee', quantity: 2, unit_price: 400, discount_amount: 80 }),
+        storedLine(1, { source: 'upsell', source_detail: 'tick_upsell', product_id: '22', variant_id: '222', title: 'Socks', quantity: 1, unit_price: 280 }),
+    ];
+    fake.tables.order_edits = [];
+    fake.tables.order_events = [];
+
+    // Same effect as replace_order_line_items (migration v50)
+    fake.functions.replace_order_line_items = (args, tables) => {
+        tables.order_line_items = tables.order_line_items.filter((row) => row.order_log_id !== args.p_order_log_id);
+        for (const item of args.p_items as Row[]) {
+            tables.order_line_items.push({ ...item, shop_domain: args.p_shop, order_log_id: args.p_order_log_id });
+        }
+    };
+
+    shopify.getShopifyEditableOrder.mockResolvedValue({
+        id: 'gid://shopify/Order/5001',
+        updatedAt: '2026-10-02T00:00:00Z',
+        cancelled: false,
+        fulfillmentStatus: 'UNFULFILLED',
+        total: 1000,
+        lineItems: [shopifyLine('1', '111', 'Tee', 2, 400), shopifyLine('2', '222', 'Socks', 1, 280)],
+    });
+});
+
+describe('applyOrderEdit', () => {
+    it('rebuilds the line items from the edited Shopify order', async () => {
+        shopify.editShopifyOrderItems.mockResolvedValue({
+            success: true,
+            order: {
+                id: 'gid://shopify/Order/5001',
+                updatedAt: '2026-10-02T00:05:00Z',
+                cancelled: false,
+                fulfillmentStatus: 'UNFULFILLED',
+                total: 1250,
+                lineItems: [shopifyLine('1', '111', 'Tee', 1, 400), shopifyLine('3', '333', 'Cap', 1, 290)],
+            },
+        });
+
+        const result = await applyOrderEdit(SHOP, 'order-1', {
+            quantities: { 'gid://shopify/LineItem/1': 1, 'gid://shopify/LineItem/2': 0 },
+            additions: [{ variantId: 'gid://shopify/ProductVariant/333', title: 'Cap', quantity: 1 }],
+        });
+
+        expect(result.success).toBe(true);
+        expect(fake.tables.order_logs[0]).toMatchObject({ total_price: 1250, quantity: 2 });
+        const items = fake.tables.order_line_items
+            .filter((row) => row.order_log_id === 'order-1')
+            .map(({ position, source, source_detail, variant_id, title, quantity, unit_price, discount_amount }) =>
+                ({ position, source, source_detail, variant_id, title, quantity, unit_price, discount_amount }));
+        expect(items).toEqual([
+            { position: 0, source: 'bundle', source_detail: 'Buy 2', variant_id: '111', title: 'Tee', quantity: 1, unit_price: 400, discount_amount: 40 },
+            { position: 1, source: 'main', source_detail: null, variant_id: '333', title: 'Cap', quantity: 1, unit_price: 290, discount_amount: 0 },
+        ]);
+    });
+
+    it('keeps the line items when only the address changes', async () => {
+        const result = await applyOrderEdit(SHOP, 'order-1', {
+            address: { address: '12 MG Road', city: 'Bengaluru', state: 'KA', pincode: '560001' },
+        });
+
+        expect(result.success).toBe(true);
+        expect(fake.tables.order_line_items).toHaveLength(2);
+        expect(shopify.editShopifyOrderItems).not.toHaveBeenCalled();
+    });
+
+    it('warns when the line items could not be saved', async () => {
+        fake.functions.replace_order_line_items = () => { throw new Error('boom'); };
+        shopify.editShopifyOrderItems.mockResolvedValue({
+            success: true,
+            order: {
+                id: 'gid://shopify/Order/5001',
+                updatedAt: '2026-10-02T00:05:00Z',
+                cancelled: false,
+                fulfillmentStatus: 'UNFULFILLED',
+                total: 600,
+                lineItems: [shopifyLine('1', '111', 'Tee', 1, 400)],
+            },
+        });
+
+        const result = await applyOrderEdit(SHOP, 'order-1', { quantities: { 'gid://shopify/LineItem/1': 1, 'gid://shopify/LineItem/2': 0 } });
+
+        expect(result).toMatchObject({ success: true, warning: expect.stringContaining('items here could not be saved') });
+    });
+});
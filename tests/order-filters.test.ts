@@ -0,0 +1,69 @@
+/**
+ * Order list filters survive a round trip through the URL, and anything
+ * malformed in a shared link falls back to the defaults.
+ */
+import { describe, expect, it } from 'vitest';
+import { hasActiveOrderFilters, parseOrderFilters, serializeOrderFilters } from '../app/utils/order-filters';
+
+const parse = (query: string) => parseOrderFilters(new URLSearchParams(query));
+
+describe('parseOrderFilters', () => {
+    it('reads every filter from the search params', () => {
+        expect(parse('q=%20rahul%20&status=pending&payment=cod&from=2026-01-01&to=2026-01-31&sync=failed_sync'
+            + '&source=cart_drawer&coupon=SAVE10&fraud=review&sort=total_price&dir=asc&page=3')).toEqual({
+            q: 'rahul',
+            status: 'pending',
+            from: '2026-01-01',
+            to: '2026-01-31',
+            payment: 'cod',
+            sync: 'failed_sync',
+            source: 'cart_drawer',
+            coupon: 'SAVE10',
+            fraud: 'review',
+            sort: 'total_price',
+            dir: 'asc',
+            page: 3,
+        });
+    });
+
+    it('drops unknown values and malformed dates', () => {
+        expect(parse('status=lost&payment=card&from=01/02/2026&to=2026-1-5&fraud=maybe&sort=price&dir=up')).toMatchObject({
+            status: undefined,
+            payment: undefined,
+            from: undefined,
+            to: undefined,
+            fraud: undefined,
+            sort: 'created_at',
+            dir: 'desc',
+        });
+    });
+
+    it('keeps the page at 1 or above', () => {
+        expect(parse('page=0').page).toBe(1);
+        expect(parse('page=-4').page).toBe(1);
+        expect(parse('page=abc').page).toBe(1);
+    });
+
+    it('caps the search text', () => {
+        expect(parse(`q=${'a'.repeat(150)}`).q).toHaveLength(100);
+    });
+});
+
+describe('serializeOrderFilters', () => {
+    it('leaves out defaults and empty filters', () => {
+        expect(serializeOrderFilters({ q: '', status: 'pending', sort: 'created_at', dir: 'desc', page: 1 })).toBe('status=pending');
+    });
+
+    it('round-trips through parseOrderFilters', () => {
+        const filters = parse('q=rahul&status=shipped&from=2026-01-01&fraud=flagged&sort=status&dir=asc&page=2');
+
+        expect(parse(serializeOrderFilters(filters))).toEqual(filters);
+    });
+});
+
+describe('hasActiveOrderFilters', () => {
+    it('ignores sort order and page', () => {
+        expect(hasActiveOrderFilters(parse('sort=total_price&dir=asc&page=4'))).toBe(false);
+        expect(hasActiveOrderFilters(parse('coupon=SAVE10'))).toBe(true);
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Shop isolation for order_logs: one shop must never read or change another
+ * shop's orders, whatever order id it passes in.
+ *
+ * The app talks to Supabase with the service-role key, which bypasses RLS,
+ * so the scoping under test here (orderLogsForShop and everything built on
+ * it) is what actually keeps shops apart.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase, Row } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+const session = vi.hoisted(() => ({ shop: 'shop-a.myshopify.com' }));
+
+vi.mock('../app/shopify.server', () => ({
+    authenticate: {
+        admin: async () => ({ session: { shop: session.shop, onlineAccessInfo: null }, admin: {} }),
+    },
+    unauthenticated: { admin: async () => ({ admin: {} }) },
+}));
+
+import {
+    getOrderById,
+    getOrderSyncStatus,
+    orderLogsForShop,
+    supabase,
+    updateOrderStatusSimple,
+} from '../app/config/supabase.server';
+import { loader as proxyLoader } from '../app/routes/proxy.$';
+import { action as orderDetailAction } from '../app/routes/app.orders_.$id';
+
+const SHOP_A = 'shop-a.myshopify.com';
+const SHOP_B = 'shop-b.myshopify.com';
+
+const fake = supabase as unknown as FakeSupabase;
+let orders: Row[];
+
+function order(id: string, shop: string, fields: Row = {}): Row {
+    return {
+        id,
+        shop_domain: shop,
+        status: 'pending',
+        shopify_order_id: `gid://shopify/Order/${id}`,
+        shopify_order_name: `#${id}`,
+        sync_status: 'synced',
+        customer_name: `Customer ${id}`,
+        ...fields,
+    };
+}
+
+function storedOrder(id: string): Row | undefined {
+    return orders.find((row) => row.id === id);
+}
+
+beforeEach(() => {
+    orders = [order('a-1', SHOP_A), order('a-2', SHOP_A, { status: 'confirmed' }), order('b-1', SHOP_B)];
+    fake.tables.order_logs = orders;
+    fake.tables.order_events = [];
+    session.shop = SHOP_A;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('orderLogsForShop', () => {
+    it('requires a shop domain', () => {
+        expect(() => orderLogsForShop('')).toThrow('A shop domain is required');
+    });
+
+    it("only reads the shop's own orders", async () => {
+        const { data } = await orderLogsForShop(SHOP_A).select('*');
+        expect((data as Row[]).map((row) => row.id).sort()).toEqual(['a-1', 'a-2']);
+    });
+
+    it("can't read another shop's order by id", async () => {
+        const { data } = await orderLogsForShop(SHOP_A).select('*').eq('id', 'b-1').maybeSingle();
+        expect(data).toBeNull();
+    });
+
+    it("can't update another shop's order", async () => {
+        await orderLogsForShop(SHOP_A).update({ status: 'cancelled' }).eq('id', 'b-1');
+        expect(storedOrder('b-1')?.status).toBe('pending');
+    });
+
+    it("can't move an order to another shop", async () => {
+        await orderLogsForShop(SHOP_A).update({ shop_domain: SHOP_B, status: 'confirmed' }).eq('id', 'a-1');
+        expect(storedOrder('a-1')).toMatchObject({ shop_domain: SHOP_A, status: 'confirmed' });
+    });
+
+    it('stamps inserts with the shop, whatever the values say', async () => {
+        await orderLogsForShop(SHOP_A).insert({ id: 'a-3', shop_domain: SHOP_B });
+        expect(storedOrder('a-3')?.shop_domain).toBe(SHOP_A);
+    });
+
+    it("can't delete another shop's order", async () => {
+        await orderLogsForShop(SHOP_A).delete().eq('id', 'b-1');
+        expect(storedOrder('b-1')).toBeDefined();
+    });
+});
+
+describe('order lookups', () => {
+    it("getOrderById returns the shop's own order", async () => {
+        expect(await getOrderById(SHOP_A, 'a-1')).toMatchObject({ id: 'a-1' });
+    });
+
+    it("getOrderById doesn't return another shop's order", async () => {
+        expect(await getOrderById(SHOP_A, 'b-1')).toBeNull();
+    });
+
+    it("getOrderSyncStatus doesn't return another shop's order", async () => {
+        expect(await getOrderSyncStatus(SHOP_A, 'b-1')).toBeNull();
+        expect(await getOrderSyncStatus(SHOP_B, 'b-1')).toMatchObject({ shopify_order_name: '#b-1' });
+    });
+});
+
+describe('updateOrderStatusSimple', () => {
+    it("changes the shop's own order", async () => {
+        await updateOrderStatusSimple(SHOP_A, 'a-1', 'confirmed');
+        expect(storedOrder('a-1')?.status).toBe('confirmed');
+    });
+
+    it("refuses another shop's order and leaves it alone", async () => {
+        await expect(updateOrderStatusSimple(SHOP_A, 'b-1', 'confirmed')).rejects.toThrow('Order not found');
+        expect(storedOrder('b-1')?.status).toBe('pending');
+        expect(fake.tables.order_events).toHaveLength(0);
+    });
+});
+
+describe('proxy get-order-status', () => {
+    const poll = (shop: string, orderId: string) =>
+        proxyLoader({
+            request: new Request(`https://app.test/proxy/api/get-order-status?shop=${shop}&orderId=${orderId}`),
+            params: { '*': 'api/get-order-status' },
+            context: {},
+        } as unknown as Parameters<typeof proxyLoader>[0]) as Promise<Response>;
+
+    it("answers for the shop's own order", async () => {
+        const body = await (await poll(SHOP_B, 'b-1')).json();
+        expect(body).toMatchObject({ success: true, order: { shopify_order_name: '#b-1' } });
+    });
+
+    it("doesn't leak another shop's order", async () => {
+        const body = await (await poll(SHOP_A, 'b-1')).json();
+        expect(body).toEqual({ success: false, order: null });
+    });
+});
+
+describe('app.orders_.$id action', () => {
+    const submitStatus = (orderId: string, status: string) => {
+        const form = new FormData();
+        form.set('status', status);
+        return orderDetailAction({
+            request: new Request(`https://app.test/app/orders/${orderId}`, { method: 'POST', body: form }),
+            params: { id: orderId },
+            context: {},
+        } as unknown as Parameters<typeof orderDetailAction>[0]);
+    };
+
+    it("changes the signed-in shop's order", async () => {
+        expect(await submitStatus('a-1', 'confirmed')).toEqual({ success: true });
+        expect(storedOrder('a-1')?.status).toBe('confirmed');
+    });
+
+    it("can't change another shop's order through its id", async () => {
+        const result = await submitStatus('b-1', 'cancelled');
+        expect(result).toMatchObject({ success: false, error: 'Order not found' });
+        expect(storedOrder('b-1')?.status).toBe('pending');
+    });
+});
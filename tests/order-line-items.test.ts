@@ -0,0 +1,58 @@
+/**
+ * Line items are rebuilt from the saved order_payload, whatever shape the
+ * storefront sent it in.
+ */
+import { describe, expect, it } from 'vitest';
+import { buildOrderLineItems } from '../app/utils/order-line-items';
+
+describe('buildOrderLineItems', () => {
+    it('reads cart lines and upsells', () => {
+        const items = buildOrderLineItems({
+            order_payload: {
+                cart_items: [
+                    { productId: 'gid://shopify/Product/11', variantId: 'gid://shopify/ProductVariant/21', title: 'Shirt', variantTitle: 'M', quantity: 2, price: '499' },
+                ],
+                upsell_items: [null, { variant_id: 31, title: 'Socks', quantity: 1, price: 99, type: 'tick_upsell' }],
+            },
+        });
+
+        expect(items).toEqual([
+            expect.objectContaining({ position: 0, source: 'main', product_id: '11', variant_id: '21', title: 'Shirt', variant_title: 'M', quantity: 2, unit_price: 499 }),
+            expect.objectContaining({ position: 1, source: 'upsell', source_detail: 'tick_upsell', variant_id: '31', title: 'Socks', unit_price: 99 }),
+        ]);
+    });
+
+    it('splits a multi-variant bundle and applies its discount', () => {
+        const items = buildOrderLineItems({
+            product_title: 'Shirt',
+            order_payload: {
+                discountPercent: 10,
+                bundleVariants: [{ variantId: '21', title: 'M', quantity: 1, price: 500 }, { variantId: '22', title: 'L', quantity: 1, price: 500 }],
+            },
+        });
+
+        expect(items.map((item) => [item.source_detail, item.variant_title, item.discount_amount])).toEqual([
+            ['Item 1 of 2', 'M', 50],
+            ['Item 2 of 2', 'L', 50],
+        ]);
+    });
+
+    it('recognises downsells from older orders by their note', () => {
+        const [item] = buildOrderLineItems({
+            product_title: 'Shirt',
+            quantity: 1,
+            price: '299',
+            order_payload: { notes: 'DOWNSELL APPLIED: Basic Tee (₹299)' },
+        });
+
+        expect(item).toMatchObject({ source: 'downsell', title: 'Basic Tee', unit_price: 299, discount_amount: 0 });
+    });
+
+    it('falls back to the order columns when the payload is missing or malformed', () => {
+        for (const order_payload of [null, 'not an object', { cart_items: 'nope', upsell_items: {} }]) {
+            expect(buildOrderLineItems({ order_payload, product_id: '11', product_title: 'Shirt', quantity: 3, price: 100 })).toEqual([
+                expect.objectContaining({ source: 'main', product_id: '11', title: 'Shirt', quantity: 3, unit_price: 100 }),
+            ]);
+        }
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Fraud history and customer lookups match phones on customer_phone_key, so
+ * older orders stored as typed still count against E.164 numbers.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from './support/fake-supabase';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+import { supabase } from '../app/config/supabase.server';
+import { DEFAULT_FRAUD_SETTINGS, type FraudProtectionSettings } from '../app/config/fraud-protection.types';
+import { lookupCustomerByPhone } from '../app/services/customer-lookup.server';
+import { validateOrderAgainstFraudRulesWithSettings } from '../app/services/fraud-protection.server';
+import { customerPhoneKey } from '../app/utils/phone';
+
+const SHOP = 'shop-a.myshopify.com';
+const fake = supabase as unknown as FakeSupabase;
+
+const settings = {
+    ...DEFAULT_FRAUD_SETTINGS,
+    shop_domain: SHOP,
+    rto_rule_enabled: true,
+    rto_min_returns: 2,
+    limit_orders_enabled: true,
+    max_orders: 2,
+    limit_hours: 24,
+} as FraudProtectionSettings;
+
+/** Seed order_logs the way the database stores them, generated key included */
+function seedOrders(orders: { phone: string; status: string; hoursAgo: number }[]) {
+    fake.tables.order_logs = orders.map(({ phone, status, hoursAgo }, index) => ({
+        id: `order-${index}`,
+        shop_domain: SHOP,
+        customer_name: 'Asha Rao',
+        customer_address: '12 MG Road',
+        customer_phone: phone,
+        customer_phone_key: customerPhoneKey(phone),
+        city: 'Bengaluru',
+        pincode: '560001',
+        status,
+        created_at: new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString(),
+    }));
+}
+
+beforeEach(() => {
+    fake.tables.customers = [];
+    fake.tables.fraud_auto_blocks = [];
+    fake.tables.fraud_events = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('fraud rules', () => {
+    const order = { phone: '+919876543210', quantity: 1, paymentMethod: 'cod' as const, shopDomain: SHOP };
+
+    it('counts returns stored before phones were normalized', async () => {
+        seedOrders([
+            { phone: '98765 43210', status: 'returned', hoursAgo: 24 * 30 },
+            { phone: '098765-43210', status: 'cancelled', hoursAgo: 24 * 20 },
+        ]);
+
+        const result = await validateOrderAgainstFraudRulesWithSettings(order, settings);
+        expect(result).toMatchObject({ allowed: false, rule: 'rto_history' });
+    });
+
+    it('counts recent orders stored before phones were normalized', async () => {
+        seedOrders([
+            { phone: '9876543210', status: 'pending', hoursAgo: 2 },
+            { phone: '+91 98765 43210', status: 'confirmed', hoursAgo: 1 },
+        ]);
+
+        const result = await validateOrderAgainstFraudRulesWithSettings(order, settings);
+        expect(result).toMatchObject({ allowed: false, rule: 'order_limit' });
+    });
+
+    it("doesn't count other customers' orders", async () => {
+        seedOrders([
+            { phone: '+919876543211', status: 'returned', hoursAgo: 24 },
+            { phone: '+919876543211', status: 'returned', hoursAgo: 2 },
+        ]);
+
+        const result = await validateOrderAgainstFraudRulesWithSettings(order, settings);
+        expect(result.allowed).toBe(true);
+    });
+});
+
+describe('lookupCustomerByPhone', () => {
+    it('finds an order stored in another format', async () => {
+        seedOrders([{ phone: '98765-43210', status: 'delivered', hoursAgo: 24 * 200 }]);
+
+        expect(await lookupCustomerByPhone('+91 98765 43210', SHOP)).toMatchObject({
+            found: true,
+            name: 'Asha Rao',
+            zipcode: '560001',
+        });
+    });
+
+    it("doesn't match a different number", async () => {
+        seedOrders([{ phone: '98765-43210', status: 'delivered', hoursAgo: 24 }]);
+
+        expect(await lookupCustomerByPhone('+91 98765 43219', SHOP)).toEqual({ found: false });
+    });
+});
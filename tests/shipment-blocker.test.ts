@@ -0,0 +1,43 @@
+/**
+ * Only orders that can move to shipped get booked: pending orders are
+ * confirmed first and closed ones are never shipped.
+ */
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@supabase/supabase-js', async () => {
+    const { createFakeSupabase } = await import('./support/fake-supabase');
+    return { createClient: () => createFakeSupabase() };
+});
+
+vi.mock('../app/shopify.server', () => ({
+    authenticate: { admin: async () => ({ admin: {} }) },
+    unauthenticated: { admin: async () => ({ admin: {} }) },
+}));
+
+import { getShipmentBlocker } from '../app/services/shipments.server';
+
+const order = (status: string | null) => ({
+    status,
+    awb_number: null,
+    sync_status: 'synced',
+    shopify_order_id: '5001',
+    pincode: '560001',
+});
+
+describe('getShipmentBlocker', () => {
+    it('asks for confirmation before booking a pending order', () => {
+        expect(getShipmentBlocker(order('pending'))).toBe('Confirm the order first');
+        expect(getShipmentBlocker(order(null))).toBe('Confirm the order first');
+    });
+
+    it('books confirmed orders and ones marked shipped without an AWB', () => {
+        expect(getShipmentBlocker(order('confirmed'))).toBeNull();
+        expect(getShipmentBlocker(order('shipped'))).toBeNull();
+    });
+
+    it("doesn't book closed orders", () => {
+        for (const status of ['delivered', 'returned', 'cancelled']) {
+            expect(getShipmentBlocker(order(status))).toBe(`Can't ship a ${status} order`);
+        }
+    });
+});
@@ -0,0 +1,247 @@
+/**
+ * In-memory stand-in for the Supabase client, for tests.
+ *
+ * Supports the query-builder calls the app makes (select / insert / update /
+ * upsert / delete with eq, neq, is, in, gt/gte/lt/lte, ilike, or (of eq
+ * conditions), order, limit,
+ * single, maybeSingle) against plain arrays of rows, so a test can seed two
+ * shops' data and check what a service actually reads or changes.
+ */
+
+export type Row = Record<string, unknown>;
+
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+    data: unknown;
+    error: { message: string; code?: string } | null;
+    count?: number | null;
+}
+
+let nextId = 1;
+
+function likeToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\' && i + 1 < pattern.length) {
+            source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        } else if (char === '%') {
+            source += '.*';
+        } else if (char === '_') {
+            source += '.';
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+    private filters: Filter[] = [];
+    private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+    private values: Row | Row[] | null = null;
+    private returning = false;
+    private countRequested = false;
+    private headOnly = false;
+    private sortKeys: { column: string; ascending: boolean }[] = [];
+    private maxRows: number | null = null;
+    private expect: 'many' | 'single' | 'maybeSingle' = 'many';
+
+    constructor(private readonly rows: Row[]) {}
+
+    select(_columns?: string, options?: { count?: string; head?: boolean }) {
+        if (this.operation === 'select') {
+            this.countRequested = !!options?.count;
+            this.headOnly = !!options?.head;
+        } else {
+            this.returning = true;
+        }
+        return this;
+    }
+
+    insert(values: Row | Row[]) {
+        this.operation = 'insert';
+        this.values = values;
+        return this;
+    }
+
+    upsert(values: Row | Row[]) {
+        this.operation = 'upsert';
+        this.values = values;
+        return this;
+    }
+
+    update(values: Row) {
+        this.operation = 'update';
+        this.values = values;
+        return this;
+    }
+
+    delete() {
+        this.operation = 'delete';
+        return this;
+    }
+
+    eq(column: string, value: unknown) {
+        this.filters.push((row) => row[column] === value);
+        return this;
+    }
+
+    neq(column: string, value: unknown) {
+        this.filters.push((row) => row[column] !== value);
+        return this;
+    }
+
+    is(column: string, value: unknown) {
+        this.filters.push((row) => (row[column] ?? null) === value);
+        return this;
+    }
+
+    in(column: string, values: unknown[]) {
+        this.filters.push((row) => values.includes(row[column]));
+        return this;
+    }
+
+    gt(column: string, value: string | number) {
+        this.filters.push((row) => row[column] != null && (row[column] as string | number) > value);
+        return this;
+    }
+
+    gte(column: string, value: string | number) {
+        this.filters.push((row) => row[column] != null && (row[column] as string | number) >= value);
+        return this;
+    }
+
+    lt(column: string, value: string | number) {
+        this.filters.push((row) => row[column] != null && (row[column] as string | number) < value);
+        return this;
+    }
+
+    lte(column: string, value: string | number) {
+        this.filters.push((row) => row[column] != null && (row[column] as string | number) <= value);
+        return this;
+    }
+
+    ilike(column: string, pattern: string) {
+        const regExp = likeToRegExp(pattern);
+        this.filters.push((row) => typeof row[column] === 'string' && regExp.test(row[column] as string));
+        return this;
+    }
+
+    /** Only `column.eq.value` conditions, which is all the app passes to or() */
+    or(conditions: string) {
+        const alternatives = conditions.split(',').map((condition) => {
+            const [column, operator, ...value] = condition.split('.');
+            if (operator !== 'eq') throw new Error(`Unsupported or() condition: ${condition}`);
+            return { column, value: value.join('.') };
+        });
+        this.filters.push((row) => alternatives.some(({ column, value }) => String(row[column]) === value));
+        return this;
+    }
+
+    order(column: string, options?: { ascending?: boolean }) {
+        this.sortKeys.push({ column, ascending: options?.ascending ?? true });
+        return this;
+    }
+
+    limit(count: number) {
+        this.maxRows = count;
+        return this;
+    }
+
+    single() {
+        this.expect = 'single';
+        return this;
+    }
+
+    maybeSingle() {
+        this.expect = 'maybeSingle';
+        return this;
+    }
+
+    then<TResult1 = QueryResult, TResult2 = never>(
+        onFulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+        onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+    }
+
+    private matching(): Row[] {
+        return this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+    }
+
+    private execute(): QueryResult {
+        let affected: Row[];
+
+        if (this.operation === 'insert' || this.operation === 'upsert') {
+            const values = Array.isArray(this.values) ? this.values : [this.values as Row];
+            affected = values.map((value) => ({ id: String(nextId++), ...value }));
+            this.rows.push(...affected);
+        } else if (this.operation === 'update') {
+            affected = this.matching();
+            for (const row of affected) Object.assign(row, this.values);
+        } else if (this.operation === 'delete') {
+            affected = this.matching();
+            for (const row of affected) this.rows.splice(this.rows.indexOf(row), 1);
+        } else {
+            affected = this.matching();
+        }
+
+        if (this.operation !== 'select' && !this.returning) {
+            return { data: null, error: null };
+        }
+
+        let result = affected.map((row) => ({ ...row }));
+        for (const { column, ascending } of [...this.sortKeys].reverse()) {
+            result.sort((a, b) => {
+                const left = a[column] as string | number;
+                const right = b[column] as string | number;
+                if (left === right) return 0;
+                return (left > right ? 1 : -1) * (ascending ? 1 : -1);
+            });
+        }
+        if (this.maxRows !== null) result = result.slice(0, this.maxRows);
+        const count = this.countRequested ? affected.length : null;
+
+        if (this.expect === 'single') {
+            return result.length === 1
+                ? { data: result[0], error: null, count }
+                : { data: null, error: { message: `Expected one row, got ${result.length}`, code: 'PGRST116' }, count };
+        }
+        if (this.expect === 'maybeSingle') {
+            return result.length > 1
+                ? { data: null, error: { message: `Expected at most one row, got ${result.length}` }, count }
+                : { data: result[0] ?? null, error: null, count };
+        }
+        return { data: this.headOnly ? null : result, error: null, count };
+    }
+}
+
+type RpcHandler = (args: Row, tables: Record<string, Row[]>) => unknown;
+
+/**
+ * A fake client over `tables`; rows are shared by reference, so tests can
+ * inspect them after the code under test has run. Database functions are
+ * stubbed by adding a handler to `functions`; others return no data.
+ */
+export function createFakeSupabase(tables: Record<string, Row[]> = {}) {
+    const functions: Record<string, RpcHandler> = {};
+    return {
+        tables,
+        functions,
+        from(table: string) {
+            tables[table] = tables[table] || [];
+            return new FakeQuery(tables[table]);
+        },
+        async rpc(name: string, args: Row = {}): Promise<QueryResult> {
+            try {
+                return { data: functions[name] ? functions[name](args, tables) ?? null : null, error: null };
+            } catch (error) {
+                return { data: null, error: { message: (error as Error).message } };
+            }
+        },
+    };
+}
+
+export type FakeSupabase = ReturnType<typeof createFakeSupabase>;
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts: the React Router plugin isn't needed (or
+// wanted) when running server modules under test.
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    env: {
+      SUPABASE_URL: "http://supabase.test",
+      SUPABASE_SERVICE_KEY: "test-service-key",
+    },
+  },
+});